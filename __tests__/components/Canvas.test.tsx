@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 
 // Tone.js has no Web Audio in jsdom — mock it before Canvas is imported
 vi.mock('tone', () => ({
@@ -36,6 +36,12 @@ vi.mock('tone', () => ({
   Volume: vi.fn().mockImplementation(() => ({
     volume: { value: 0 },
     toDestination: vi.fn().mockReturnThis(),
+    connect: vi.fn().mockReturnThis(),
+    dispose: vi.fn(),
+  })),
+  Panner: vi.fn().mockImplementation(() => ({
+    pan: { value: 0, setValueAtTime: vi.fn() },
+    toDestination: vi.fn().mockReturnThis(),
     dispose: vi.fn(),
   })),
   now: vi.fn().mockReturnValue(0),
@@ -56,6 +62,7 @@ const defaultCanvasProps = {
   isPlaying: false,
   timeScale: 1,
   gravityStrength: 1,
+  satelliteHandoff: false,
   onIsPlayingChange: vi.fn(),
   onAudioReadyChange: vi.fn(),
   onCountsChange: vi.fn(),
@@ -229,4 +236,57 @@ describe('Canvas Component', () => {
     // (no modal shown — star already present)
     expect(screen.queryByTestId('placement-modal')).toBeNull();
   });
+
+  it('loads a dropped .json solar system file instead of opening a modal', async () => {
+    const onCountsChange = vi.fn();
+    render(<Canvas {...defaultCanvasProps} onCountsChange={onCountsChange} />);
+    const canvas = screen.getByTestId('canvas');
+
+    const state = {
+      version: '1.0.0',
+      timestamp: 0,
+      star: {
+        id: 'star-1', type: 'star', position: { x: 0, y: 0 },
+        mass: 50000, bpm: 90, key: 'G', mode: 'Dorian',
+      },
+      planets: [{
+        id: 'planet-1', type: 'planet', position: { x: 150, y: 0 },
+        velocity: { x: 0, y: -1 }, mass: 100, rotation: 0,
+        rotationSpeed: 'quarter', noteSequence: ['I4'], currentNoteIndex: 0,
+        synthType: 'Synth', orbitRadius: 150, orbitAngle: 0,
+      }],
+      satellites: [],
+      timeScale: 1,
+      gravityStrength: 1,
+    };
+    const file = new File([JSON.stringify(state)], 'system.json', { type: 'application/json' });
+
+    fireEvent.drop(canvas, {
+      clientX: 400,
+      clientY: 300,
+      dataTransfer: { files: [file], getData: () => '' },
+    });
+
+    await waitFor(() => expect(onCountsChange).toHaveBeenLastCalledWith(1, 0, 0));
+    expect(screen.queryByTestId('placement-modal')).toBeNull();
+  });
+
+  it('shows the load error list for an invalid .json file', async () => {
+    render(<Canvas {...defaultCanvasProps} />);
+    const canvas = screen.getByTestId('canvas');
+    const file = new File(
+      [JSON.stringify({ version: '1.0.0', timestamp: 0, star: null, planets: 'nope', satellites: [], timeScale: 1, gravityStrength: 1 })],
+      'broken.json',
+      { type: 'application/json' }
+    );
+
+    fireEvent.drop(canvas, {
+      clientX: 400,
+      clientY: 300,
+      dataTransfer: { files: [file], getData: () => '' },
+    });
+
+    expect(await screen.findByTestId('load-error-modal')).toBeTruthy();
+    expect(screen.getByTestId('load-error-list').textContent).toContain('planets: must be an array');
+  });
 });
@@ -7,11 +7,27 @@ function renderControlBar(overrides: Partial<Parameters<typeof ControlBar>[0]> =
     isPlaying: false,
     timeScale: 1,
     gravityStrength: 1,
+    satelliteHandoff: false,
+    stereoWidth: 1,
+    satellitePanning: false,
     audioReady: true,
     onPlayPause: vi.fn(),
     onRewind: vi.fn(),
+    onSync: vi.fn(),
+    onSprayDust: vi.fn(),
     onTimeScaleChange: vi.fn(),
     onGravityChange: vi.fn(),
+    onSatelliteHandoffChange: vi.fn(),
+    onStereoWidthChange: vi.fn(),
+    onSatellitePanningChange: vi.fn(),
+    onSave: vi.fn(),
+    onLoad: vi.fn(),
+    onRandomize: vi.fn(),
+    onExportWav: vi.fn(),
+    midiRecording: false,
+    onToggleMidiRecording: vi.fn(),
+    onOpenMidiRouting: vi.fn(),
+    onOpenMidiLearn: vi.fn(),
     ...overrides,
   };
   return { ...render(<ControlBar {...defaultProps} />), props: defaultProps };
@@ -51,6 +67,20 @@ describe('ControlBar', () => {
     expect(screen.getByTestId('rewind-button')).toBeTruthy();
   });
 
+  it('calls onSync when sync clicked', () => {
+    const onSync = vi.fn();
+    renderControlBar({ onSync });
+    fireEvent.click(screen.getByTestId('sync-button'));
+    expect(onSync).toHaveBeenCalledOnce();
+  });
+
+  it('calls onSprayDust when dust clicked', () => {
+    const onSprayDust = vi.fn();
+    renderControlBar({ onSprayDust });
+    fireEvent.click(screen.getByTestId('dust-button'));
+    expect(onSprayDust).toHaveBeenCalledOnce();
+  });
+
   it('calls onRewind when rewind clicked', () => {
     const onRewind = vi.fn();
     renderControlBar({ onRewind });
@@ -80,6 +110,29 @@ describe('ControlBar', () => {
     expect(slider.value).toBe('1');
   });
 
+  it('calls onSatelliteHandoffChange when hand-off is toggled', () => {
+    const onSatelliteHandoffChange = vi.fn();
+    renderControlBar({ onSatelliteHandoffChange });
+    fireEvent.click(screen.getByTestId('satellite-handoff-checkbox'));
+    expect(onSatelliteHandoffChange).toHaveBeenCalledWith(true);
+  });
+
+  it('calls onStereoWidthChange when the width slider changes', () => {
+    const onStereoWidthChange = vi.fn();
+    renderControlBar({ stereoWidth: 0.5, onStereoWidthChange });
+    const slider = screen.getByTestId('stereo-width-slider') as HTMLInputElement;
+    expect(slider.value).toBe('0.5');
+    fireEvent.change(slider, { target: { value: '0.25' } });
+    expect(onStereoWidthChange).toHaveBeenCalledWith(0.25);
+  });
+
+  it('calls onSatellitePanningChange when satellite panning is toggled', () => {
+    const onSatellitePanningChange = vi.fn();
+    renderControlBar({ onSatellitePanningChange });
+    fireEvent.click(screen.getByTestId('satellite-panning-checkbox'));
+    expect(onSatellitePanningChange).toHaveBeenCalledWith(true);
+  });
+
   it('calls onGravityChange when gravity slider changes', () => {
     const onGravityChange = vi.fn();
     renderControlBar({ onGravityChange });
@@ -107,4 +160,97 @@ describe('ControlBar', () => {
     renderControlBar({ gravityStrength: 3.0 });
     expect(screen.getAllByText('3.0×').length).toBeGreaterThan(0);
   });
+
+  it('calls onSave when save clicked', () => {
+    const onSave = vi.fn();
+    renderControlBar({ onSave });
+    fireEvent.click(screen.getByTestId('save-button'));
+    expect(onSave).toHaveBeenCalledOnce();
+  });
+
+  it('calls onLoad with the selected file', () => {
+    const onLoad = vi.fn();
+    renderControlBar({ onLoad });
+    const file = new File(['{}'], 'system.json', { type: 'application/json' });
+    fireEvent.change(screen.getByTestId('load-file-input'), {
+      target: { files: [file] },
+    });
+    expect(onLoad).toHaveBeenCalledWith(file);
+  });
+
+  it('randomizes with a freshly generated seed and shows it', () => {
+    const onRandomize = vi.fn();
+    renderControlBar({ onRandomize });
+    fireEvent.click(screen.getByTestId('randomize-button'));
+    expect(onRandomize).toHaveBeenCalledOnce();
+    const request = onRandomize.mock.calls[0][0];
+    expect(request.seed).toMatch(/^[0-9a-z]{6}$/);
+    expect((screen.getByTestId('randomize-seed-input') as HTMLInputElement).value).toBe(request.seed);
+  });
+
+  it('replays a typed seed on Enter with the selected options', () => {
+    const onRandomize = vi.fn();
+    renderControlBar({ onRandomize });
+    fireEvent.click(screen.getByTestId('randomize-notes-checkbox'));
+    const input = screen.getByTestId('randomize-seed-input');
+    fireEvent.change(input, { target: { value: 'nebula' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onRandomize).toHaveBeenCalledWith({
+      seed: 'nebula',
+      noteSequences: true,
+      synthTypes: false,
+    });
+  });
+
+  it('exports 8 bars of 16-bit WAV by default', () => {
+    const onExportWav = vi.fn();
+    renderControlBar({ onExportWav });
+    fireEvent.click(screen.getByTestId('export-wav-button'));
+    expect(onExportWav).toHaveBeenCalledWith({ length: 8, unit: 'bars', bitDepth: 16 });
+  });
+
+  it('exports with the chosen length, unit and bit depth', () => {
+    const onExportWav = vi.fn();
+    renderControlBar({ onExportWav });
+    fireEvent.change(screen.getByTestId('export-wav-length-input'), { target: { value: '30' } });
+    fireEvent.change(screen.getByTestId('export-wav-unit-select'), { target: { value: 'seconds' } });
+    fireEvent.change(screen.getByTestId('export-wav-bit-depth-select'), { target: { value: '24' } });
+    fireEvent.click(screen.getByTestId('export-wav-button'));
+    expect(onExportWav).toHaveBeenCalledWith({ length: 30, unit: 'seconds', bitDepth: 24 });
+  });
+
+  it('does not export with an empty length', () => {
+    const onExportWav = vi.fn();
+    renderControlBar({ onExportWav });
+    fireEvent.change(screen.getByTestId('export-wav-length-input'), { target: { value: '' } });
+    fireEvent.click(screen.getByTestId('export-wav-button'));
+    expect(onExportWav).not.toHaveBeenCalled();
+  });
+
+  it('toggles MIDI recording and shows when it is active', () => {
+    const onToggleMidiRecording = vi.fn();
+    const { rerender, props } = renderControlBar({ onToggleMidiRecording });
+    const button = screen.getByTestId('midi-record-button');
+    expect(button).toHaveAttribute('aria-pressed', 'false');
+    fireEvent.click(button);
+    expect(onToggleMidiRecording).toHaveBeenCalledOnce();
+
+    rerender(<ControlBar {...props} midiRecording />);
+    expect(screen.getByTestId('midi-record-button')).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByLabelText('Stop MIDI recording')).toBeInTheDocument();
+  });
+
+  it('opens MIDI output routing', () => {
+    const onOpenMidiRouting = vi.fn();
+    renderControlBar({ onOpenMidiRouting });
+    fireEvent.click(screen.getByTestId('midi-routing-button'));
+    expect(onOpenMidiRouting).toHaveBeenCalledOnce();
+  });
+
+  it('opens MIDI learn', () => {
+    const onOpenMidiLearn = vi.fn();
+    renderControlBar({ onOpenMidiLearn });
+    fireEvent.click(screen.getByTestId('midi-learn-button'));
+    expect(onOpenMidiLearn).toHaveBeenCalledOnce();
+  });
 });
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import LoadErrorModal from '@/components/LoadErrorModal';
+
+const errors = [
+  { path: 'planets[0].mass', message: 'must be greater than 0 (got -1)' },
+  { path: 'star.mode', message: 'unknown MusicalMode "Hypolydian"' },
+];
+
+describe('LoadErrorModal', () => {
+  it('renders the file name and problem count', () => {
+    render(<LoadErrorModal fileName="broken.json" errors={errors} onClose={vi.fn()} />);
+    expect(screen.getByText(/broken\.json/)).toBeTruthy();
+    expect(screen.getByText(/2 problems found/)).toBeTruthy();
+  });
+
+  it('lists each issue with its path', () => {
+    render(<LoadErrorModal fileName="broken.json" errors={errors} onClose={vi.fn()} />);
+    const list = screen.getByTestId('load-error-list');
+    expect(list.textContent).toContain('planets[0].mass: must be greater than 0');
+    expect(list.textContent).toContain('star.mode: unknown MusicalMode');
+  });
+
+  it('collapses long lists into a summary line', () => {
+    const many = Array.from({ length: 25 }, (_, i) => ({ path: `planets[${i}].mass`, message: 'bad' }));
+    render(<LoadErrorModal fileName="broken.json" errors={many} onClose={vi.fn()} />);
+    expect(screen.getByText('…and 5 more')).toBeTruthy();
+  });
+
+  it('calls onClose from the close button', () => {
+    const onClose = vi.fn();
+    render(<LoadErrorModal fileName="broken.json" errors={errors} onClose={onClose} />);
+    fireEvent.click(screen.getByTestId('load-error-close-button'));
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+
+  it('calls onClose from the backdrop', () => {
+    const onClose = vi.fn();
+    render(<LoadErrorModal fileName="broken.json" errors={errors} onClose={onClose} />);
+    fireEvent.click(screen.getByTestId('load-error-modal-backdrop'));
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+});
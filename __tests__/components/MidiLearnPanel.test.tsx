@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import MidiLearnPanel from '@/components/MidiLearnPanel';
+import type { MidiCcBinding } from '@/types/audio';
+
+const planets = [{ id: 'planet-1' }, { id: 'planet-2' }];
+
+function renderPanel(overrides: Partial<Parameters<typeof MidiLearnPanel>[0]> = {}) {
+  const props = {
+    planets,
+    bindings: [] as MidiCcBinding[],
+    learning: null,
+    onLearn: vi.fn(),
+    onClear: vi.fn(),
+    onClose: vi.fn(),
+    ...overrides,
+  };
+  return { ...render(<MidiLearnPanel {...props} />), props };
+}
+
+describe('MidiLearnPanel', () => {
+  it('lists the global controls and a mass control per planet', () => {
+    renderPanel();
+    for (const key of ['gravity', 'timeScale', 'bpm', 'masterVolume', 'planetMass-planet-1', 'planetMass-planet-2']) {
+      expect(screen.getByTestId(`midi-learn-${key}`)).toBeInTheDocument();
+    }
+  });
+
+  it('shows the bound CC and channel', () => {
+    renderPanel({
+      bindings: [{ target: 'planetMass', planetId: 'planet-2', channel: 3, controller: 74 }],
+    });
+    expect(screen.getByTestId('midi-learn-binding-planetMass-planet-2')).toHaveTextContent('CC 74 · ch 3');
+    expect(screen.getByTestId('midi-learn-binding-gravity')).toHaveTextContent('—');
+  });
+
+  it('arms a control for learning, and disarms it on a second click', () => {
+    const { props, rerender } = renderPanel();
+    fireEvent.click(screen.getByTestId('midi-learn-button-bpm'));
+    expect(props.onLearn).toHaveBeenCalledWith({ target: 'bpm', planetId: null });
+
+    rerender(<MidiLearnPanel {...props} learning={{ target: 'bpm', planetId: null }} />);
+    const button = screen.getByTestId('midi-learn-button-bpm');
+    expect(button).toHaveAttribute('aria-pressed', 'true');
+    fireEvent.click(button);
+    expect(props.onLearn).toHaveBeenLastCalledWith(null);
+  });
+
+  it('clears a binding, and disables clearing unbound controls', () => {
+    const { props } = renderPanel({
+      bindings: [{ target: 'gravity', planetId: null, channel: 1, controller: 1 }],
+    });
+    expect(screen.getByTestId('midi-learn-clear-timeScale')).toBeDisabled();
+    fireEvent.click(screen.getByTestId('midi-learn-clear-gravity'));
+    expect(props.onClear).toHaveBeenCalledWith({ target: 'gravity', planetId: null });
+  });
+
+  it('shows an error', () => {
+    renderPanel({ error: 'Web MIDI is not supported in this browser' });
+    expect(screen.getByTestId('midi-learn-error')).toHaveTextContent('not supported');
+  });
+
+  it('closes from the button and the backdrop', () => {
+    const { props } = renderPanel();
+    fireEvent.click(screen.getByTestId('midi-learn-close-button'));
+    fireEvent.click(screen.getByTestId('midi-learn-backdrop'));
+    expect(props.onClose).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import MidiRoutingPanel from '@/components/MidiRoutingPanel';
+import type { MidiRoute } from '@/lib/audio/midiOutput';
+
+const planets = [
+  { id: 'planet-1', synthType: 'Synth' },
+  { id: 'planet-2', synthType: 'FMSynth' },
+];
+const ports = [
+  { id: 'port-a', name: 'Hardware A', send: vi.fn() },
+  { id: 'port-b', name: 'Hardware B', send: vi.fn() },
+];
+
+function renderPanel(overrides: Partial<Parameters<typeof MidiRoutingPanel>[0]> = {}) {
+  const props = {
+    planets,
+    ports,
+    routes: new Map<string, MidiRoute>(),
+    onRouteChange: vi.fn(),
+    onClose: vi.fn(),
+    ...overrides,
+  };
+  return { ...render(<MidiRoutingPanel {...props} />), props };
+}
+
+describe('MidiRoutingPanel', () => {
+  it('lists each planet with its synth type', () => {
+    renderPanel();
+    expect(screen.getByTestId('midi-route-planet-1')).toHaveTextContent('planet-1 (Synth)');
+    expect(screen.getByTestId('midi-route-planet-2')).toHaveTextContent('planet-2 (FMSynth)');
+  });
+
+  it('routes a planet to a port on its own default channel', () => {
+    const { props } = renderPanel();
+    fireEvent.change(screen.getByTestId('midi-route-port-planet-2'), { target: { value: 'port-b' } });
+    expect(props.onRouteChange).toHaveBeenCalledWith('planet-2', {
+      portId: 'port-b',
+      channel: 2,
+      layerSynth: false,
+    });
+  });
+
+  it('changes the channel and synth layering of an existing route', () => {
+    const routes = new Map([['planet-1', { portId: 'port-a', channel: 1, layerSynth: false }]]);
+    const { props } = renderPanel({ routes });
+    fireEvent.change(screen.getByTestId('midi-route-channel-planet-1'), { target: { value: '10' } });
+    expect(props.onRouteChange).toHaveBeenCalledWith('planet-1', {
+      portId: 'port-a',
+      channel: 10,
+      layerSynth: false,
+    });
+    fireEvent.click(screen.getByTestId('midi-route-layer-planet-1'));
+    expect(props.onRouteChange).toHaveBeenLastCalledWith('planet-1', {
+      portId: 'port-a',
+      channel: 1,
+      layerSynth: true,
+    });
+  });
+
+  it('removes the route when set back to Off', () => {
+    const routes = new Map([['planet-1', { portId: 'port-a', channel: 1, layerSynth: false }]]);
+    const { props } = renderPanel({ routes });
+    fireEvent.change(screen.getByTestId('midi-route-port-planet-1'), { target: { value: '' } });
+    expect(props.onRouteChange).toHaveBeenCalledWith('planet-1', null);
+  });
+
+  it('disables channel and layering for unrouted planets', () => {
+    renderPanel();
+    expect(screen.getByTestId('midi-route-channel-planet-1')).toBeDisabled();
+    expect(screen.getByTestId('midi-route-layer-planet-1')).toBeDisabled();
+  });
+
+  it('shows an error instead of the table', () => {
+    renderPanel({ error: 'Web MIDI is not supported in this browser' });
+    expect(screen.getByTestId('midi-routing-error')).toHaveTextContent('not supported');
+    expect(screen.queryByTestId('midi-route-planet-1')).not.toBeInTheDocument();
+  });
+
+  it('explains when there are no output ports', () => {
+    renderPanel({ ports: [] });
+    expect(screen.getByTestId('midi-routing-no-ports')).toBeInTheDocument();
+  });
+
+  it('closes from the button and the backdrop', () => {
+    const { props } = renderPanel();
+    fireEvent.click(screen.getByTestId('midi-routing-close-button'));
+    fireEvent.click(screen.getByTestId('midi-routing-backdrop'));
+    expect(props.onClose).toHaveBeenCalledTimes(2);
+  });
+});
@@ -26,6 +26,17 @@ function renderPlanetModal(overrides: { onConfirm?: ReturnType<typeof vi.fn>; on
   return { ...render(<PlacementModal {...props} />), props };
 }
 
+function renderCometModal(overrides: { onConfirm?: ReturnType<typeof vi.fn>; onCancel?: ReturnType<typeof vi.fn> } = {}) {
+  const props = {
+    entityType: 'comet' as const,
+    worldPosition,
+    onConfirm: vi.fn(),
+    onCancel: vi.fn(),
+    ...overrides,
+  };
+  return { ...render(<PlacementModal {...props} />), props };
+}
+
 describe('PlacementModal — Star', () => {
   beforeEach(() => vi.clearAllMocks());
 
@@ -41,6 +52,15 @@ describe('PlacementModal — Star', () => {
     expect(screen.getByTestId('star-mode-select')).toBeTruthy();
   });
 
+  it('lists the extended scales and the degrees the chosen one allows', () => {
+    renderStarModal();
+    const select = screen.getByTestId('star-mode-select');
+    expect(select.querySelector('option[value="Hirajoshi"]')).toBeTruthy();
+    expect(screen.getByTestId('star-mode-degrees')).toHaveTextContent('I–VII');
+    fireEvent.change(select, { target: { value: 'MinorPentatonic' } });
+    expect(screen.getByTestId('star-mode-degrees')).toHaveTextContent('I–V');
+  });
+
   it('does not show planet fields', () => {
     renderStarModal();
     expect(screen.queryByTestId('planet-mass-input')).toBeNull();
@@ -132,6 +152,41 @@ describe('PlacementModal — Planet', () => {
     expect(screen.queryByTestId('note-sequence-error')).toBeNull();
   });
 
+  it('rejects degrees outside the star\'s scale', () => {
+    render(
+      <PlacementModal
+        entityType="planet"
+        worldPosition={worldPosition}
+        mode="MajorPentatonic"
+        onConfirm={vi.fn()}
+        onCancel={vi.fn()}
+      />
+    );
+    fireEvent.change(screen.getByTestId('planet-note-sequence-input'), { target: { value: 'I4 V4 VII4' } });
+    expect(screen.getByTestId('note-sequence-error')).toHaveTextContent(
+      'VII is not in the 5-note MajorPentatonic scale (I–V)'
+    );
+    expect((screen.getByTestId('placement-confirm-button') as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('underlines each error in the sequence', () => {
+    renderPlanetModal();
+    fireEvent.change(screen.getByTestId('planet-note-sequence-input'), { target: { value: 'I4 Q4 [V4 -]' } });
+    const underlined = screen.getAllByTestId('note-sequence-error-underline');
+    expect(underlined.map((el) => el.textContent)).toEqual(['Q4', '-']);
+    expect(underlined[1].getAttribute('title')).toBe('A chord can’t contain a rest');
+  });
+
+  it('accepts rests, chords, velocities and repeats', () => {
+    const { props } = renderPlanetModal();
+    fireEvent.change(screen.getByTestId('planet-note-sequence-input'), {
+      target: { value: "(I4 -)x2 [I4 bIII V]!0.6 V4!0.5 I'" },
+    });
+    expect(screen.queryByTestId('note-sequence-error')).toBeNull();
+    fireEvent.click(screen.getByTestId('placement-confirm-button'));
+    expect(props.onConfirm.mock.calls[0][0].noteSequence).toBe("(I4 -)x2 [I4 bIII V]!0.6 V4!0.5 I'");
+  });
+
   it('disables confirm button when note sequence is invalid', () => {
     renderPlanetModal();
     const input = screen.getByTestId('planet-note-sequence-input');
@@ -147,3 +202,48 @@ describe('PlacementModal — Planet', () => {
     expect(onCancel).toHaveBeenCalledOnce();
   });
 });
+
+describe('PlacementModal — Comet', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('shows comet-specific fields', () => {
+    renderCometModal();
+    expect(screen.getByTestId('comet-mass-input')).toBeTruthy();
+    expect(screen.getByTestId('comet-note-input')).toBeTruthy();
+    expect(screen.getByTestId('comet-synth-type-select')).toBeTruthy();
+    expect(screen.getByTestId('comet-speed-slider')).toBeTruthy();
+    expect(screen.getByTestId('comet-clockwise-checkbox')).toBeTruthy();
+    expect(screen.queryByTestId('planet-note-sequence-input')).toBeNull();
+  });
+
+  it('calls onConfirm with comet options when Launch Comet clicked', () => {
+    const onConfirm = vi.fn();
+    renderCometModal({ onConfirm });
+    fireEvent.change(screen.getByTestId('comet-note-input'), { target: { value: 'V5' } });
+    fireEvent.click(screen.getByTestId('placement-confirm-button'));
+    expect(onConfirm).toHaveBeenCalledOnce();
+    const arg = onConfirm.mock.calls[0][0];
+    expect(arg.note).toBe('V5');
+    expect(arg).toHaveProperty('mass');
+    expect(arg).toHaveProperty('synthType');
+    expect(arg).toHaveProperty('speedFactor');
+    expect(arg).toHaveProperty('clockwise');
+  });
+
+  it('labels the trajectory from the speed factor', () => {
+    renderCometModal();
+    const slider = screen.getByTestId('comet-speed-slider');
+    fireEvent.change(slider, { target: { value: '1.5' } });
+    expect(screen.getByTestId('comet-trajectory-label').textContent).toBe('Hyperbolic');
+    fireEvent.change(slider, { target: { value: '0.7' } });
+    expect(screen.getByTestId('comet-trajectory-label').textContent).toBe('Eccentric');
+  });
+
+  it('disables confirm button when note is invalid', () => {
+    renderCometModal();
+    fireEvent.change(screen.getByTestId('comet-note-input'), { target: { value: 'X9' } });
+    expect(screen.getByTestId('comet-note-error')).toBeTruthy();
+    const btn = screen.getByTestId('placement-confirm-button') as HTMLButtonElement;
+    expect(btn.disabled).toBe(true);
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import PlanetEditModal from '@/components/PlanetEditModal';
+import type { Planet } from '@/types/celestial';
+import { defaultSynthPatch } from '@/lib/audio/patches';
+
+const mockPlanet: Planet = {
+  id: 'planet-1',
+  type: 'planet',
+  position: { x: 150, y: 0 },
+  velocity: { x: 0, y: 0 },
+  mass: 200,
+  rotation: 0,
+  rotationSpeed: 'eighth',
+  noteSequence: ['I4', 'V4'],
+  currentNoteIndex: 0,
+  synthType: 'FMSynth',
+  patch: defaultSynthPatch('FMSynth'),
+  samples: [],
+  orbitRadius: 150,
+  orbitAngle: 0,
+  effects: [
+    { id: 'filter-1', type: 'filter', bypassed: false, params: { frequency: 800, Q: 2 } },
+    { id: 'reverb-1', type: 'reverb', bypassed: false, params: { decay: 3, wet: 0.4 } },
+  ],
+  modulations: [
+    {
+      id: 'mod-1',
+      source: 'starDistance',
+      sourceMin: 100,
+      sourceMax: 300,
+      target: { effectId: 'filter-1', param: 'frequency' },
+      min: 8000,
+      max: 400,
+      curve: 'exponential',
+    },
+  ],
+  physicsBody: null,
+};
+
+function renderPlanetEditModal(planet: Planet = mockPlanet) {
+  const props = {
+    planet,
+    presets: [],
+    onConfirm: vi.fn(),
+    onPresetsChange: vi.fn(),
+    onDelete: vi.fn(),
+    onCancel: vi.fn(),
+  };
+  return { ...render(<PlanetEditModal {...props} />), props };
+}
+
+function savedEffects(onConfirm: ReturnType<typeof vi.fn>) {
+  fireEvent.click(screen.getByTestId('planet-edit-save-button'));
+  return onConfirm.mock.calls[0][0].effects;
+}
+
+describe('PlanetEditModal', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('shows the current planet values and its effects', () => {
+    renderPlanetEditModal();
+    expect((screen.getByTestId('planet-edit-mass-input') as HTMLInputElement).value).toBe('200');
+    expect((screen.getByTestId('planet-edit-note-sequence-input') as HTMLInputElement).value).toBe('I4 V4');
+    expect((screen.getByTestId('planet-edit-synth-type-select') as HTMLSelectElement).value).toBe('FMSynth');
+    expect(screen.getByTestId('planet-edit-effect-filter-1')).toHaveTextContent('Filter');
+    expect((screen.getByTestId('planet-edit-effect-param-reverb-1-decay') as HTMLInputElement).value).toBe('3');
+  });
+
+  it('saves the edited values', () => {
+    const { props } = renderPlanetEditModal();
+    fireEvent.change(screen.getByTestId('planet-edit-note-sequence-input'), { target: { value: 'II5 IV5' } });
+    fireEvent.change(screen.getByTestId('planet-edit-rotation-speed-select'), { target: { value: 'half' } });
+    fireEvent.click(screen.getByTestId('planet-edit-save-button'));
+    expect(props.onConfirm).toHaveBeenCalledWith({
+      mass: 200,
+      noteSequence: 'II5 IV5',
+      rotationSpeed: 'half',
+      synthType: 'FMSynth',
+      patch: mockPlanet.patch,
+      samples: [],
+      effects: mockPlanet.effects,
+      modulations: mockPlanet.modulations,
+    });
+  });
+
+  it('edits the synth patch and resets it when the synth type changes', () => {
+    const { props } = renderPlanetEditModal();
+    fireEvent.change(screen.getByTestId('synth-patch-harmonicity'), { target: { value: '7' } });
+    fireEvent.click(screen.getByTestId('planet-edit-save-button'));
+    expect(props.onConfirm.mock.calls[0][0].patch.harmonicity).toBe(7);
+
+    fireEvent.change(screen.getByTestId('planet-edit-synth-type-select'), { target: { value: 'MonoSynth' } });
+    expect(screen.getByTestId('synth-patch-section-filterEnvelope')).toBeTruthy();
+    fireEvent.click(screen.getByTestId('planet-edit-save-button'));
+    expect(props.onConfirm.mock.calls[1][0]).toMatchObject({
+      synthType: 'MonoSynth',
+      patch: defaultSynthPatch('MonoSynth'),
+      samples: [],
+    });
+  });
+
+  it('swaps the patch editor for the sample map on a Sampler and saves its samples', () => {
+    const { props } = renderPlanetEditModal();
+    fireEvent.change(screen.getByTestId('planet-edit-synth-type-select'), { target: { value: 'Sampler' } });
+    expect(screen.queryByTestId('synth-patch-editor')).toBeNull();
+    fireEvent.click(screen.getByTestId('sample-map-kit-button'));
+    fireEvent.click(screen.getByTestId('planet-edit-save-button'));
+    const saved = props.onConfirm.mock.calls[0][0];
+    expect(saved.synthType).toBe('Sampler');
+    expect(saved.samples.map((s: { note: string }) => s.note)).toEqual(['C3', 'C4', 'C5', 'C6']);
+  });
+
+  it('loads a preset into the synth type and patch', () => {
+    const patch = { ...defaultSynthPatch('MembraneSynth'), oscillator: 'square' as const };
+    const { props } = renderPlanetEditModal();
+    cleanup();
+    render(<PlanetEditModal {...props} presets={[{ name: 'Drum', synthType: 'MembraneSynth', patch }]} />);
+    fireEvent.change(screen.getByTestId('synth-patch-preset-select'), { target: { value: 'Drum' } });
+    expect((screen.getByTestId('planet-edit-synth-type-select') as HTMLSelectElement).value).toBe('MembraneSynth');
+    fireEvent.click(screen.getByTestId('planet-edit-save-button'));
+    expect(props.onConfirm.mock.calls[0][0]).toMatchObject({ synthType: 'MembraneSynth', patch });
+  });
+
+  it('does not save an invalid note sequence', () => {
+    const { props } = renderPlanetEditModal();
+    fireEvent.change(screen.getByTestId('planet-edit-note-sequence-input'), { target: { value: 'I4 X9' } });
+    expect(screen.getByTestId('planet-edit-note-sequence-error')).toHaveTextContent('X9');
+    fireEvent.click(screen.getByTestId('planet-edit-save-button'));
+    expect(props.onConfirm).not.toHaveBeenCalled();
+  });
+
+  it('checks the note sequence against the star\'s scale', () => {
+    const { props } = renderPlanetEditModal();
+    cleanup();
+    render(<PlanetEditModal {...props} mode="Hirajoshi" />);
+    fireEvent.change(screen.getByTestId('planet-edit-note-sequence-input'), { target: { value: 'I4 VI4' } });
+    expect(screen.getByTestId('planet-edit-note-sequence-error')).toHaveTextContent('VI is not in the 5-note Hirajoshi scale (I–V)');
+  });
+
+  it('adds an effect with default parameters', () => {
+    const { props } = renderPlanetEditModal();
+    fireEvent.change(screen.getByTestId('planet-edit-effect-type-select'), { target: { value: 'delay' } });
+    fireEvent.click(screen.getByTestId('planet-edit-add-effect-button'));
+    const effects = savedEffects(props.onConfirm);
+    expect(effects).toHaveLength(3);
+    expect(effects[2]).toEqual({
+      id: 'delay-1',
+      type: 'delay',
+      bypassed: false,
+      params: { delayTime: 0.25, feedback: 0.4, wet: 0.3 },
+    });
+  });
+
+  it('reorders, bypasses and removes effects', () => {
+    const { props } = renderPlanetEditModal();
+    expect(screen.getByTestId('planet-edit-effect-up-filter-1')).toBeDisabled();
+    fireEvent.click(screen.getByTestId('planet-edit-effect-up-reverb-1'));
+    fireEvent.click(screen.getByTestId('planet-edit-effect-bypass-filter-1'));
+    let effects = savedEffects(props.onConfirm);
+    expect(effects.map((e: { id: string }) => e.id)).toEqual(['reverb-1', 'filter-1']);
+    expect(effects[1].bypassed).toBe(true);
+
+    props.onConfirm.mockClear();
+    fireEvent.click(screen.getByTestId('planet-edit-effect-remove-reverb-1'));
+    effects = savedEffects(props.onConfirm);
+    expect(effects.map((e: { id: string }) => e.id)).toEqual(['filter-1']);
+  });
+
+  it('edits an effect parameter', () => {
+    const { props } = renderPlanetEditModal();
+    fireEvent.change(screen.getByTestId('planet-edit-effect-param-filter-1-frequency'), { target: { value: '2400' } });
+    expect(savedEffects(props.onConfirm)[0].params).toEqual({ frequency: 2400, Q: 2 });
+  });
+
+  it('disables adding once the chain is full', () => {
+    const effects = Array.from({ length: 6 }, (_, i) => ({
+      id: `chorus-${i + 1}`,
+      type: 'chorus' as const,
+      bypassed: false,
+      params: { frequency: 1.5, depth: 0.7, wet: 0.5 },
+    }));
+    renderPlanetEditModal({ ...mockPlanet, effects });
+    expect(screen.getByTestId('planet-edit-add-effect-button')).toBeDisabled();
+  });
+
+  it('does not change the planet it was opened with', () => {
+    renderPlanetEditModal();
+    fireEvent.click(screen.getByTestId('planet-edit-effect-bypass-reverb-1'));
+    expect(mockPlanet.effects[1].bypassed).toBe(false);
+  });
+
+  it('adds a modulation route targeting the first effect', () => {
+    const { props } = renderPlanetEditModal();
+    fireEvent.click(screen.getByTestId('planet-edit-add-mod-button'));
+    fireEvent.click(screen.getByTestId('planet-edit-save-button'));
+    expect(props.onConfirm.mock.calls[0][0].modulations[1]).toEqual({
+      id: 'mod-2',
+      source: 'speed',
+      sourceMin: 0,
+      sourceMax: 15,
+      target: { effectId: 'filter-1', param: 'frequency' },
+      min: 20,
+      max: 20000,
+      curve: 'linear',
+    });
+  });
+
+  it('resets the ranges when a route changes source or target', () => {
+    const { props } = renderPlanetEditModal();
+    fireEvent.change(screen.getByTestId('planet-edit-mod-source-mod-1'), { target: { value: 'satelliteCount' } });
+    fireEvent.change(screen.getByTestId('planet-edit-mod-target-mod-1'), { target: { value: 'reverb-1:wet' } });
+    fireEvent.change(screen.getByTestId('planet-edit-mod-curve-mod-1'), { target: { value: 'linear' } });
+    fireEvent.click(screen.getByTestId('planet-edit-save-button'));
+    expect(props.onConfirm.mock.calls[0][0].modulations[0]).toMatchObject({
+      source: 'satelliteCount',
+      sourceMin: 0,
+      sourceMax: 8,
+      target: { effectId: 'reverb-1', param: 'wet' },
+      min: 0,
+      max: 1,
+      curve: 'linear',
+    });
+  });
+
+  it('clamps route values to the target range', () => {
+    const { props } = renderPlanetEditModal();
+    fireEvent.change(screen.getByTestId('planet-edit-mod-min-mod-1'), { target: { value: '99999' } });
+    fireEvent.click(screen.getByTestId('planet-edit-save-button'));
+    expect(props.onConfirm.mock.calls[0][0].modulations[0].min).toBe(20000);
+  });
+
+  it('offers synth detune and pan and modulatable effect parameters as targets', () => {
+    renderPlanetEditModal();
+    const options = Array.from(
+      (screen.getByTestId('planet-edit-mod-target-mod-1') as HTMLSelectElement).options
+    ).map((o) => o.value);
+    expect(options).toEqual([':detune', ':pan', 'filter-1:frequency', 'filter-1:Q', 'reverb-1:wet']);
+  });
+
+  it('drops routes to a removed effect', () => {
+    const { props } = renderPlanetEditModal();
+    fireEvent.click(screen.getByTestId('planet-edit-effect-remove-filter-1'));
+    expect(screen.queryByTestId('planet-edit-mod-mod-1')).toBeNull();
+    fireEvent.click(screen.getByTestId('planet-edit-save-button'));
+    expect(props.onConfirm.mock.calls[0][0].modulations).toEqual([]);
+  });
+
+  it('deletes and cancels', () => {
+    const { props } = renderPlanetEditModal();
+    fireEvent.click(screen.getByTestId('planet-edit-delete-button'));
+    expect(props.onDelete).toHaveBeenCalledOnce();
+    fireEvent.click(screen.getByTestId('planet-edit-cancel-button'));
+    fireEvent.click(screen.getByTestId('planet-edit-modal-backdrop'));
+    expect(props.onCancel).toHaveBeenCalledTimes(2);
+  });
+});
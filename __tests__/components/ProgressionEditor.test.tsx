@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import ProgressionEditor from '@/components/ProgressionEditor';
+import { defaultProgression } from '@/lib/audio/progression';
+import type { ChordProgression } from '@/types/audio';
+import type { MusicalMode } from '@/types/celestial';
+
+function renderEditor(progression: ChordProgression | null, getBeat = () => 0, mode: MusicalMode = 'Ionian') {
+  const props = { progression, musicalKey: 'C' as const, mode, getBeat, onChange: vi.fn() };
+  return { ...render(<ProgressionEditor {...props} />), props };
+}
+
+describe('ProgressionEditor', () => {
+  beforeEach(() => vi.clearAllMocks());
+  afterEach(() => vi.useRealTimers());
+
+  it('switches the progression on with I vi IV V and off again', () => {
+    const { props, rerender } = renderEditor(null);
+    expect(screen.queryByTestId('progression-chords-input')).toBeNull();
+    fireEvent.click(screen.getByTestId('progression-toggle'));
+    expect(props.onChange).toHaveBeenCalledWith(defaultProgression());
+
+    rerender(<ProgressionEditor {...props} progression={defaultProgression()} />);
+    expect((screen.getByTestId('progression-chords-input') as HTMLInputElement).value).toBe('I vi IV V');
+    fireEvent.click(screen.getByTestId('progression-toggle'));
+    expect(props.onChange).toHaveBeenLastCalledWith(null);
+  });
+
+  it('applies typed chords in canonical form and reports ones it can’t read', () => {
+    const { props } = renderEditor(defaultProgression());
+    const input = screen.getByTestId('progression-chords-input');
+    fireEvent.change(input, { target: { value: 'i | bVII viio' } });
+    expect(props.onChange).toHaveBeenLastCalledWith({ ...defaultProgression(), chords: ['i', 'bVII', 'vii°'] });
+
+    fireEvent.change(input, { target: { value: 'I Q' } });
+    expect(screen.getByTestId('progression-error')).toHaveTextContent('"Q" is not a chord');
+    expect(props.onChange).toHaveBeenCalledOnce();
+  });
+
+  it('checks roots against the star’s scale', () => {
+    renderEditor(defaultProgression(), () => 0, 'MajorPentatonic');
+    fireEvent.change(screen.getByTestId('progression-chords-input'), { target: { value: 'I vi' } });
+    expect(screen.getByTestId('progression-error')).toHaveTextContent('vi is not on the 5-note MajorPentatonic scale');
+  });
+
+  it('sets the bars per chord and how planets follow', () => {
+    const { props } = renderEditor(defaultProgression());
+    fireEvent.change(screen.getByTestId('progression-bars-slider'), { target: { value: '2' } });
+    expect(props.onChange).toHaveBeenLastCalledWith({ ...defaultProgression(), barsPerChord: 2 });
+    fireEvent.change(screen.getByTestId('progression-follow-select'), { target: { value: 'snap' } });
+    expect(props.onChange).toHaveBeenLastCalledWith({ ...defaultProgression(), follow: 'snap' });
+  });
+
+  it('shows the chord playing now, following the beat', () => {
+    vi.useFakeTimers();
+    let beat = 4;
+    renderEditor(defaultProgression(), () => beat);
+    expect(screen.getByTestId('progression-current-chord')).toHaveTextContent('Now: vi (Am) — chord 2 of 4');
+    beat = 12;
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    expect(screen.getByTestId('progression-current-chord')).toHaveTextContent('Now: V (G) — chord 4 of 4');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import SampleMapEditor from '@/components/SampleMapEditor';
+import type { PlanetSample } from '@/types/audio';
+
+const kick: PlanetSample = { id: 'sample-1', name: 'Kick', note: 'C3', url: 'data:audio/wav;base64,AAAA' };
+const snare: PlanetSample = { id: 'sample-2', name: 'Snare', note: 'C4', url: 'data:audio/wav;base64,BBBB' };
+
+function renderEditor(samples: PlanetSample[] = [kick, snare]) {
+  const props = { samples, onChange: vi.fn() };
+  return { ...render(<SampleMapEditor {...props} />), props };
+}
+
+describe('SampleMapEditor', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('says the sampler is silent without samples', () => {
+    renderEditor([]);
+    expect(screen.getByTestId('sample-map-empty')).toBeTruthy();
+  });
+
+  it('adds picked audio files on the next free root note', async () => {
+    const { props } = renderEditor([kick]);
+    const file = new File([new Uint8Array(4)], 'clap.wav', { type: 'audio/wav' });
+    fireEvent.change(screen.getByTestId('sample-map-file-input'), { target: { files: [file] } });
+    await waitFor(() => expect(props.onChange).toHaveBeenCalled());
+    expect(props.onChange.mock.calls[0][0]).toEqual([
+      kick,
+      { id: 'sample-2', name: 'clap', note: 'C4', url: expect.stringMatching(/^data:audio\/wav;base64,/) },
+    ]);
+  });
+
+  it('adds dropped files and reports the ones it can’t use', async () => {
+    const { props } = renderEditor([]);
+    const files = [
+      new File([new Uint8Array(4)], 'notes.txt', { type: 'text/plain' }),
+      new File([new Uint8Array(4)], 'bass.mp3', { type: 'audio/mpeg' }),
+    ];
+    fireEvent.drop(screen.getByTestId('sample-map-dropzone'), { dataTransfer: { files } });
+    expect(await screen.findByTestId('sample-map-error')).toHaveTextContent('notes.txt is not a WAV or MP3 file');
+    expect(props.onChange.mock.calls[0][0].map((s: PlanetSample) => s.name)).toEqual(['bass']);
+  });
+
+  it('loads the bundled drum kit', () => {
+    const { props } = renderEditor([]);
+    fireEvent.click(screen.getByTestId('sample-map-kit-button'));
+    expect(props.onChange.mock.calls[0][0].map((s: PlanetSample) => s.name)).toEqual([
+      'Kick',
+      'Snare',
+      'Closed hat',
+      'Open hat',
+    ]);
+  });
+
+  it('changes a root note, disabling notes other samples use', () => {
+    const { props } = renderEditor();
+    const select = screen.getByTestId('sample-map-note-sample-1') as HTMLSelectElement;
+    expect((select.querySelector('option[value="C4"]') as HTMLOptionElement).disabled).toBe(true);
+    fireEvent.change(select, { target: { value: 'D3' } });
+    expect(props.onChange).toHaveBeenCalledWith([{ ...kick, note: 'D3' }, snare]);
+  });
+
+  it('removes a sample', () => {
+    const { props } = renderEditor();
+    fireEvent.click(screen.getByTestId('sample-map-remove-sample-1'));
+    expect(props.onChange).toHaveBeenCalledWith([snare]);
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import SatelliteModal from '@/components/SatelliteModal';
 import type { Planet } from '@/types/celestial';
+import { defaultSynthPatch } from '@/lib/audio/patches';
 
 const mockPlanet: Planet = {
   id: 'planet-1',
@@ -14,8 +15,12 @@ const mockPlanet: Planet = {
   noteSequence: ['I4', 'III4', 'V4'],
   currentNoteIndex: 0,
   synthType: 'Synth',
+  patch: defaultSynthPatch('Synth'),
+  samples: [],
   orbitRadius: 150,
   orbitAngle: 0,
+  effects: [],
+  modulations: [],
   physicsBody: null,
 };
 
@@ -82,6 +87,89 @@ describe('SatelliteModal', () => {
     expect(onCancel).toHaveBeenCalledOnce();
   });
 
+  it('defaults to a circular orbit triggering at 12 o\'clock', () => {
+    const onConfirm = vi.fn();
+    renderSatelliteModal({ onConfirm });
+    fireEvent.click(screen.getByTestId('satellite-confirm-button'));
+    expect(onConfirm.mock.calls[0][0]).toMatchObject({
+      eccentricity: 0,
+      argumentOfPeriapsis: 0,
+      triggerPoint: 'top',
+    });
+  });
+
+  it('derives eccentricity from the apoapsis click, keeping the first click as periapsis', () => {
+    const onConfirm = vi.fn();
+    render(
+      <SatelliteModal
+        parentPlanet={mockPlanet}
+        clickWorldPos={clickWorldPos}
+        apoapsisWorldPos={{ x: 100, y: 190 }} // 90 units out → e = (90-30)/(90+30)
+        onConfirm={onConfirm}
+        onCancel={vi.fn()}
+      />
+    );
+    expect(screen.getByTestId('satellite-eccentricity-display').textContent).toContain('0.50');
+    fireEvent.click(screen.getByTestId('satellite-confirm-button'));
+    const arg = onConfirm.mock.calls[0][0];
+    expect(arg.eccentricity).toBeCloseTo(0.5);
+    expect(arg.orbitRadius).toBe(60); // (30 + 90) / 2
+    expect(arg.argumentOfPeriapsis).toBeCloseTo(0);
+  });
+
+  it('treats an apoapsis click inside the periapsis as a circle', () => {
+    const onConfirm = vi.fn();
+    render(
+      <SatelliteModal
+        parentPlanet={mockPlanet}
+        clickWorldPos={clickWorldPos}
+        apoapsisWorldPos={{ x: 110, y: 100 }}
+        onConfirm={onConfirm}
+        onCancel={vi.fn()}
+      />
+    );
+    fireEvent.click(screen.getByTestId('satellite-confirm-button'));
+    expect(onConfirm.mock.calls[0][0].eccentricity).toBe(0);
+  });
+
+  it('adjusts eccentricity with the slider and trigger point with the select', () => {
+    const onConfirm = vi.fn();
+    renderSatelliteModal({ onConfirm });
+    fireEvent.change(screen.getByTestId('satellite-eccentricity-slider'), { target: { value: '0.25' } });
+    fireEvent.change(screen.getByTestId('satellite-trigger-point-select'), { target: { value: 'periapsis' } });
+    fireEvent.click(screen.getByTestId('satellite-confirm-button'));
+    const arg = onConfirm.mock.calls[0][0];
+    expect(arg.eccentricity).toBe(0.25);
+    expect(arg.orbitRadius).toBe(40); // periapsis 30 / (1 - 0.25)
+    expect(arg.triggerPoint).toBe('periapsis');
+  });
+
+  it('offers no sample choice unless the parent is a Sampler with samples', () => {
+    const onConfirm = vi.fn();
+    renderSatelliteModal({ onConfirm });
+    expect(screen.queryByTestId('satellite-sample-select')).toBeNull();
+    fireEvent.click(screen.getByTestId('satellite-confirm-button'));
+    expect(onConfirm.mock.calls[0][0].sampleId).toBeNull();
+  });
+
+  it('lets a satellite of a Sampler planet play one of its samples', () => {
+    const onConfirm = vi.fn();
+    const sampler: Planet = {
+      ...mockPlanet,
+      synthType: 'Sampler',
+      samples: [
+        { id: 'sample-1', name: 'Kick', note: 'C3', url: 'data:audio/wav;base64,AAAA' },
+        { id: 'sample-2', name: 'Snare', note: 'C4', url: 'data:audio/wav;base64,BBBB' },
+      ],
+    };
+    render(
+      <SatelliteModal parentPlanet={sampler} clickWorldPos={clickWorldPos} onConfirm={onConfirm} onCancel={vi.fn()} />
+    );
+    fireEvent.change(screen.getByTestId('satellite-sample-select'), { target: { value: 'sample-2' } });
+    fireEvent.click(screen.getByTestId('satellite-confirm-button'));
+    expect(onConfirm.mock.calls[0][0].sampleId).toBe('sample-2');
+  });
+
   it('computes correct orbit radius for diagonal click', () => {
     const onConfirm = vi.fn();
     const diagClickPos = { x: 140, y: 140 }; // sqrt((40^2)+(40^2)) ≈ 57
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import StarEditModal from '@/components/StarEditModal';
+import type { Star } from '@/types/celestial';
+import { defaultTuning } from '@/lib/audio/tuning';
+import { defaultProgression } from '@/lib/audio/progression';
+
+const mockStar: Star = {
+  id: 'star-1',
+  type: 'star',
+  position: { x: 0, y: 0 },
+  mass: 50000,
+  bpm: 120,
+  key: 'C',
+  mode: 'Ionian',
+  tuning: defaultTuning(),
+  progression: null,
+  beat: 0,
+  physicsBody: null,
+};
+
+const initialValues = { bpm: 120, key: 'C', mode: 'Ionian', mass: 50000, tuning: defaultTuning(), progression: null };
+
+function renderStarEditModal() {
+  const props = {
+    star: mockStar,
+    onChange: vi.fn(),
+    onClose: vi.fn(),
+    getBeat: () => 0,
+    timeline: [],
+    onTimelineChange: vi.fn(),
+  };
+  return { ...render(<StarEditModal {...props} />), props };
+}
+
+describe('StarEditModal', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('shows the current star values', () => {
+    renderStarEditModal();
+    expect(screen.getByTestId('star-edit-bpm-display').textContent).toContain('120');
+    expect((screen.getByTestId('star-edit-key-select') as HTMLSelectElement).value).toBe('C');
+    expect((screen.getByTestId('star-edit-mode-select') as HTMLSelectElement).value).toBe('Ionian');
+    expect((screen.getByTestId('star-edit-mass-slider') as HTMLInputElement).value).toBe('50000');
+  });
+
+  it('applies each change live with the full set of values', () => {
+    const { props } = renderStarEditModal();
+    fireEvent.change(screen.getByTestId('star-edit-key-select'), { target: { value: 'G' } });
+    expect(props.onChange).toHaveBeenLastCalledWith({ ...initialValues, key: 'G' });
+    fireEvent.change(screen.getByTestId('star-edit-bpm-slider'), { target: { value: '90' } });
+    expect(props.onChange).toHaveBeenLastCalledWith({ ...initialValues, key: 'G', bpm: 90 });
+    expect(props.onClose).not.toHaveBeenCalled();
+  });
+
+  it('shows the degrees the chosen scale allows', () => {
+    renderStarEditModal();
+    expect(screen.getByTestId('star-edit-mode-degrees')).toHaveTextContent('Degrees I–VII');
+    fireEvent.change(screen.getByTestId('star-edit-mode-select'), { target: { value: 'Diminished' } });
+    expect(screen.getByTestId('star-edit-mode-degrees')).toHaveTextContent('Degrees I–VIII');
+  });
+
+  it('retunes the star live', () => {
+    const { props } = renderStarEditModal();
+    fireEvent.change(screen.getByTestId('tuning-system-select'), { target: { value: 'just' } });
+    expect(props.onChange).toHaveBeenLastCalledWith({
+      ...initialValues,
+      tuning: { ...defaultTuning(), system: 'just' },
+    });
+  });
+
+  it('sets a chord progression live', () => {
+    const { props } = renderStarEditModal();
+    fireEvent.click(screen.getByTestId('progression-toggle'));
+    expect(props.onChange).toHaveBeenLastCalledWith({ ...initialValues, progression: defaultProgression() });
+    expect(screen.getByTestId('progression-current-chord')).toHaveTextContent('Now: I (C)');
+  });
+
+  it('closes on Done, keeping the changes', () => {
+    const { props } = renderStarEditModal();
+    fireEvent.change(screen.getByTestId('star-edit-mode-select'), { target: { value: 'Dorian' } });
+    fireEvent.click(screen.getByTestId('star-edit-done-button'));
+    expect(props.onChange).toHaveBeenCalledOnce();
+    expect(props.onClose).toHaveBeenCalledOnce();
+  });
+
+  it('restores the original values on Revert', () => {
+    const { props } = renderStarEditModal();
+    fireEvent.change(screen.getByTestId('star-edit-mass-slider'), { target: { value: '90000' } });
+    fireEvent.click(screen.getByTestId('star-edit-revert-button'));
+    expect(props.onChange).toHaveBeenLastCalledWith(initialValues);
+    expect(props.onClose).toHaveBeenCalledOnce();
+  });
+
+  it('schedules timeline events, and Revert restores the timeline too', () => {
+    const { props } = renderStarEditModal();
+    fireEvent.change(screen.getByTestId('timeline-key-select'), { target: { value: 'A' } });
+    fireEvent.click(screen.getByTestId('timeline-add-button'));
+    expect(props.onTimelineChange).toHaveBeenLastCalledWith([expect.objectContaining({ unit: 'bar', at: 1, key: 'A' })]);
+
+    fireEvent.click(screen.getByTestId('star-edit-revert-button'));
+    expect(props.onTimelineChange).toHaveBeenLastCalledWith([]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import SynthPatchEditor from '@/components/SynthPatchEditor';
+import { defaultSynthPatch } from '@/lib/audio/patches';
+import type { SynthType } from '@/lib/audio/synthManager';
+import type { SynthPreset } from '@/types/audio';
+
+const bell: SynthPreset = {
+  name: 'Bell',
+  synthType: 'FMSynth',
+  patch: { ...defaultSynthPatch('FMSynth'), modulationIndex: 40 },
+};
+
+function renderEditor(synthType: SynthType = 'Synth', presets: SynthPreset[] = [bell]) {
+  const props = {
+    synthType,
+    patch: defaultSynthPatch(synthType),
+    presets,
+    onChange: vi.fn(),
+    onPresetsChange: vi.fn(),
+  };
+  return { ...render(<SynthPatchEditor {...props} />), props };
+}
+
+describe('SynthPatchEditor', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('shows only the sections the synth type has', () => {
+    renderEditor('MonoSynth');
+    expect(screen.getByTestId('synth-patch-section-oscillator')).toBeTruthy();
+    expect(screen.getByTestId('synth-patch-section-filterEnvelope')).toBeTruthy();
+    expect(screen.queryByTestId('synth-patch-section-harmonicity')).toBeNull();
+    expect((screen.getByTestId('synth-patch-filterEnvelope-baseFrequency') as HTMLInputElement).value).toBe('200');
+  });
+
+  it('says so when the synth type has nothing to edit', () => {
+    renderEditor('PluckSynth');
+    expect(screen.getByTestId('synth-patch-empty')).toHaveTextContent('PluckSynth');
+  });
+
+  it('edits the oscillator, envelope and modulation settings', () => {
+    const { props } = renderEditor('FMSynth');
+    fireEvent.change(screen.getByTestId('synth-patch-oscillator-select'), { target: { value: 'sawtooth' } });
+    expect(props.onChange).toHaveBeenLastCalledWith('FMSynth', expect.objectContaining({ oscillator: 'sawtooth' }));
+
+    fireEvent.change(screen.getByTestId('synth-patch-envelope-release'), { target: { value: '2.5' } });
+    expect(props.onChange.mock.lastCall![1].envelope).toEqual({ attack: 0.01, decay: 0.01, sustain: 1, release: 2.5 });
+
+    fireEvent.change(screen.getByTestId('synth-patch-modulationIndex'), { target: { value: '25' } });
+    expect(props.onChange.mock.lastCall![1].modulationIndex).toBe(25);
+  });
+
+  it('loads a preset’s synth type and patch', () => {
+    const { props } = renderEditor('Synth');
+    fireEvent.change(screen.getByTestId('synth-patch-preset-select'), { target: { value: 'Bell' } });
+    expect(props.onChange).toHaveBeenCalledWith('FMSynth', bell.patch);
+  });
+
+  it('saves the current patch as a named preset', () => {
+    const { props } = renderEditor('Synth');
+    expect(screen.getByTestId('synth-patch-save-preset-button')).toBeDisabled();
+    fireEvent.change(screen.getByTestId('synth-patch-preset-name-input'), { target: { value: ' Soft ' } });
+    fireEvent.click(screen.getByTestId('synth-patch-save-preset-button'));
+    expect(props.onPresetsChange).toHaveBeenCalledWith([
+      bell,
+      { name: 'Soft', synthType: 'Synth', patch: defaultSynthPatch('Synth') },
+    ]);
+  });
+
+  it('deletes the selected preset', () => {
+    const { props } = renderEditor();
+    expect(screen.getByTestId('synth-patch-delete-preset-button')).toBeDisabled();
+    fireEvent.change(screen.getByTestId('synth-patch-preset-select'), { target: { value: 'Bell' } });
+    fireEvent.click(screen.getByTestId('synth-patch-delete-preset-button'));
+    expect(props.onPresetsChange).toHaveBeenCalledWith([]);
+  });
+});
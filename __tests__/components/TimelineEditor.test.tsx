@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import TimelineEditor from '@/components/TimelineEditor';
+import { MAX_TIMELINE_EVENTS, createTimelineEvent } from '@/lib/audio/timeline';
+import type { TimelineEvent } from '@/types/audio';
+
+function renderEditor(timeline: TimelineEvent[] = []) {
+  const props = { timeline, onChange: vi.fn() };
+  return { ...render(<TimelineEditor {...props} />), props };
+}
+
+describe('TimelineEditor', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('lists the scheduled events and removes one', () => {
+    const timeline = [
+      createTimelineEvent({ at: 32, key: 'A', mode: 'Aeolian' }),
+      createTimelineEvent({ unit: 'revolution', at: 8, every: 8, transpose: 2 }),
+    ];
+    const { props } = renderEditor(timeline);
+    expect(screen.getByTestId('timeline-event-0')).toHaveTextContent('Bar 32: key A, Aeolian');
+    expect(screen.getByTestId('timeline-event-1')).toHaveTextContent('Every 8 revolutions from 8: up 2 semitones');
+    fireEvent.click(screen.getByTestId('timeline-remove-0'));
+    expect(props.onChange).toHaveBeenCalledWith([timeline[1]]);
+  });
+
+  it('adds the relative minor on bar 32', () => {
+    const { props } = renderEditor();
+    expect(screen.getByTestId('timeline-empty')).toBeInTheDocument();
+    fireEvent.change(screen.getByTestId('timeline-at-input'), { target: { value: '32' } });
+    fireEvent.change(screen.getByTestId('timeline-key-select'), { target: { value: 'A' } });
+    fireEvent.change(screen.getByTestId('timeline-mode-select'), { target: { value: 'Aeolian' } });
+    fireEvent.click(screen.getByTestId('timeline-add-button'));
+    expect(props.onChange).toHaveBeenCalledWith([createTimelineEvent({ at: 32, key: 'A', mode: 'Aeolian' })]);
+  });
+
+  it('adds a whole step up every 8 revolutions, gliding the tempo', () => {
+    const { props } = renderEditor();
+    fireEvent.change(screen.getByTestId('timeline-unit-select'), { target: { value: 'revolution' } });
+    fireEvent.change(screen.getByTestId('timeline-at-input'), { target: { value: '8' } });
+    fireEvent.change(screen.getByTestId('timeline-every-input'), { target: { value: '8' } });
+    fireEvent.change(screen.getByTestId('timeline-transpose-input'), { target: { value: '2' } });
+    expect(screen.getByTestId('timeline-glide-input')).toBeDisabled();
+    fireEvent.change(screen.getByTestId('timeline-bpm-input'), { target: { value: '132' } });
+    fireEvent.change(screen.getByTestId('timeline-glide-input'), { target: { value: '2' } });
+    fireEvent.click(screen.getByTestId('timeline-add-button'));
+    expect(props.onChange).toHaveBeenCalledWith([
+      createTimelineEvent({ unit: 'revolution', at: 8, every: 8, transpose: 2, bpm: 132, glideBars: 2 }),
+    ]);
+  });
+
+  it('won’t add an event that changes nothing or is out of range', () => {
+    renderEditor();
+    expect(screen.getByTestId('timeline-add-button')).toBeDisabled();
+    fireEvent.change(screen.getByTestId('timeline-transpose-input'), { target: { value: '2' } });
+    expect(screen.getByTestId('timeline-add-button')).toBeEnabled();
+    fireEvent.change(screen.getByTestId('timeline-at-input'), { target: { value: '0' } });
+    expect(screen.getByTestId('timeline-add-button')).toBeDisabled();
+  });
+
+  it('won’t add past the event limit', () => {
+    renderEditor(Array.from({ length: MAX_TIMELINE_EVENTS }, () => createTimelineEvent({ transpose: 1 })));
+    fireEvent.change(screen.getByTestId('timeline-transpose-input'), { target: { value: '2' } });
+    expect(screen.getByTestId('timeline-add-button')).toBeDisabled();
+    expect(screen.getByTestId('timeline-add-button')).toHaveTextContent('Timeline full');
+  });
+});
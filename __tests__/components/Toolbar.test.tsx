@@ -3,11 +3,13 @@ import { render, screen, fireEvent } from '@testing-library/react';
 import Toolbar from '@/components/Toolbar';
 import { MAX_PLANETS } from '@/lib/entities/planet';
 import { MAX_SATELLITES } from '@/lib/entities/satellite';
+import { MAX_COMETS } from '@/lib/entities/comet';
 
 function renderToolbar(overrides: Partial<Parameters<typeof Toolbar>[0]> = {}) {
   const defaultProps = {
     planetCount: 0,
     satelliteCount: 0,
+    cometCount: 0,
     onSatelliteToolSelect: vi.fn(),
     satelliteToolActive: false,
     ...overrides,
@@ -118,4 +120,32 @@ describe('Toolbar', () => {
     renderToolbar({ satelliteCount: 12 });
     expect(screen.getByText(`12/${MAX_SATELLITES}`)).toBeTruthy();
   });
+
+  it('comet item is draggable when under limit', () => {
+    renderToolbar({ cometCount: 0 });
+    const comet = screen.getByTestId('toolbar-item-comet');
+    expect(comet.getAttribute('draggable')).toBe('true');
+  });
+
+  it('comet item is not draggable at comet limit', () => {
+    renderToolbar({ cometCount: MAX_COMETS });
+    const comet = screen.getByTestId('toolbar-item-comet');
+    expect(comet.getAttribute('draggable')).not.toBe('true');
+  });
+
+  it('drag start sets itemType in dataTransfer for comet', () => {
+    renderToolbar();
+    const comet = screen.getByTestId('toolbar-item-comet');
+    const dataTransfer = {
+      setData: vi.fn(),
+      effectAllowed: '',
+    };
+    fireEvent.dragStart(comet, { dataTransfer });
+    expect(dataTransfer.setData).toHaveBeenCalledWith('itemType', 'comet');
+  });
+
+  it('displays comet count', () => {
+    renderToolbar({ cometCount: 3 });
+    expect(screen.getByText(`3/${MAX_COMETS}`)).toBeTruthy();
+  });
 });
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import TuningEditor from '@/components/TuningEditor';
+import { defaultTuning } from '@/lib/audio/tuning';
+import type { Tuning } from '@/types/audio';
+
+const scale = { name: 'bp.scl', description: 'Bohlen-Pierce', cents: [950, 1901.955] };
+
+function renderEditor(tuning: Tuning = defaultTuning()) {
+  const props = { tuning, onChange: vi.fn() };
+  return { ...render(<TuningEditor {...props} />), props };
+}
+
+function textFile(text: string, name: string): File {
+  return new File([text], name, { type: 'text/plain' });
+}
+
+describe('TuningEditor', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('picks a built-in system, with Scala disabled until a scale is imported', () => {
+    const { props } = renderEditor();
+    const select = screen.getByTestId('tuning-system-select') as HTMLSelectElement;
+    expect((select.querySelector('option[value="scala"]') as HTMLOptionElement).disabled).toBe(true);
+    fireEvent.change(select, { target: { value: 'edo31' } });
+    expect(props.onChange).toHaveBeenCalledWith({ ...defaultTuning(), system: 'edo31' });
+  });
+
+  it('sets the A4 reference', () => {
+    const { props } = renderEditor();
+    fireEvent.change(screen.getByTestId('tuning-reference-slider'), { target: { value: '432' } });
+    expect(props.onChange).toHaveBeenCalledWith({ ...defaultTuning(), referenceFrequency: 432 });
+  });
+
+  it('imports a .scl file and switches to it', async () => {
+    const { props } = renderEditor();
+    fireEvent.change(screen.getByTestId('tuning-scale-input'), {
+      target: { files: [textFile('Bohlen-Pierce\n2\n950.0\n3/1\n', 'bp.scl')] },
+    });
+    await waitFor(() => expect(props.onChange).toHaveBeenCalled());
+    const tuning = props.onChange.mock.calls[0][0] as Tuning;
+    expect(tuning.system).toBe('scala');
+    expect(tuning.scale).toMatchObject({ name: 'bp.scl', description: 'Bohlen-Pierce' });
+  });
+
+  it('shows why a file could not be imported', async () => {
+    const { props } = renderEditor();
+    fireEvent.change(screen.getByTestId('tuning-scale-input'), {
+      target: { files: [textFile('Broken\n1\nfifth\n', 'broken.scl')] },
+    });
+    expect(await screen.findByTestId('tuning-error')).toHaveTextContent('broken.scl line 3');
+    expect(props.onChange).not.toHaveBeenCalled();
+  });
+
+  it('imports and clears a .kbm keyboard mapping', async () => {
+    const { props, rerender } = renderEditor();
+    fireEvent.change(screen.getByTestId('tuning-mapping-input'), {
+      target: { files: [textFile('0\n0\n127\n60\n69\n432.0\n0\n', 'a432.kbm')] },
+    });
+    await waitFor(() => expect(props.onChange).toHaveBeenCalled());
+    const tuning = props.onChange.mock.calls[0][0] as Tuning;
+    expect(tuning.keyboardMapping).toMatchObject({ name: 'a432.kbm', referenceFrequency: 432 });
+
+    rerender(<TuningEditor tuning={tuning} onChange={props.onChange} />);
+    expect(screen.getByTestId('tuning-mapping-name')).toHaveTextContent('a432.kbm');
+    expect((screen.getByTestId('tuning-reference-slider') as HTMLInputElement).disabled).toBe(true);
+    fireEvent.click(screen.getByTestId('tuning-mapping-clear'));
+    expect(props.onChange).toHaveBeenLastCalledWith({ ...tuning, keyboardMapping: null });
+  });
+
+  it('names the imported scale', () => {
+    renderEditor({ ...defaultTuning(), system: 'scala', scale });
+    expect(screen.getByTestId('tuning-scale-name')).toHaveTextContent('bp.scl (2 notes)');
+    const select = screen.getByTestId('tuning-system-select') as HTMLSelectElement;
+    expect(select.value).toBe('scala');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// --- Tone.js mock ---
+
+const mockChorusStart = vi.fn();
+
+vi.mock('tone', () => {
+  class Reverb {
+    ready = Promise.resolve();
+    constructor(public options: unknown) {}
+  }
+  return {
+    Filter: vi.fn().mockImplementation((options) => ({ kind: 'filter', options })),
+    FeedbackDelay: vi.fn().mockImplementation((options) => ({ kind: 'delay', options })),
+    Reverb,
+    Chorus: vi.fn().mockImplementation((options) => {
+      const chorus = { kind: 'chorus', options, start: () => (mockChorusStart(), chorus) };
+      return chorus;
+    }),
+    BitCrusher: vi.fn().mockImplementation((bits) => ({ kind: 'bitcrusher', bits, wet: { value: 1 } })),
+    Distortion: vi.fn().mockImplementation((options) => ({ kind: 'distortion', options })),
+  };
+});
+
+import * as Tone from 'tone';
+import {
+  EFFECT_TYPES,
+  EFFECT_PARAMS,
+  defaultEffectParams,
+  createEffectSettings,
+  normalizeEffectParams,
+  moveEffect,
+  createEffectNode,
+  applyEffectParams,
+  effectsReady,
+} from '@/lib/audio/effects';
+import type { EffectNode } from '@/lib/audio/effects';
+import type { EffectSettings } from '@/types/audio';
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('EFFECT_PARAMS', () => {
+  it('has defaults within range for every effect type', () => {
+    for (const type of EFFECT_TYPES) {
+      for (const spec of EFFECT_PARAMS[type]) {
+        expect(spec.default).toBeGreaterThanOrEqual(spec.min);
+        expect(spec.default).toBeLessThanOrEqual(spec.max);
+      }
+    }
+  });
+});
+
+describe('createEffectSettings', () => {
+  it('creates an active effect with default parameters', () => {
+    expect(createEffectSettings('reverb')).toEqual({
+      id: 'reverb-1',
+      type: 'reverb',
+      bypassed: false,
+      params: defaultEffectParams('reverb'),
+    });
+  });
+
+  it('picks an ID not already used in the chain', () => {
+    const chain = [createEffectSettings('delay'), { ...createEffectSettings('delay'), id: 'delay-3' }];
+    expect(createEffectSettings('delay', chain).id).toBe('delay-2');
+  });
+});
+
+describe('normalizeEffectParams', () => {
+  it('clamps values, fills in defaults and drops unknown params', () => {
+    expect(normalizeEffectParams('delay', { delayTime: 5, feedback: -1, bogus: 3 })).toEqual({
+      delayTime: 1,
+      feedback: 0,
+      wet: 0.3,
+    });
+  });
+
+  it('replaces non-finite values with defaults', () => {
+    expect(normalizeEffectParams('filter', { frequency: NaN, Q: Infinity }).frequency).toBe(1200);
+  });
+});
+
+describe('moveEffect', () => {
+  const chain: EffectSettings[] = ['a', 'b', 'c'].map((id) => ({
+    id,
+    type: 'filter',
+    bypassed: false,
+    params: {},
+  }));
+
+  it('moves an effect to a new position', () => {
+    expect(moveEffect(chain, 0, 2).map((e) => e.id)).toEqual(['b', 'c', 'a']);
+    expect(moveEffect(chain, 2, 1).map((e) => e.id)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('returns the chain unchanged for out-of-range moves', () => {
+    expect(moveEffect(chain, 0, -1)).toBe(chain);
+    expect(moveEffect(chain, 3, 0)).toBe(chain);
+  });
+});
+
+describe('createEffectNode', () => {
+  it('creates a lowpass filter', () => {
+    createEffectNode({ id: 'f', type: 'filter', bypassed: false, params: { frequency: 500, Q: 2 } });
+    expect(Tone.Filter).toHaveBeenCalledWith({ type: 'lowpass', frequency: 500, Q: 2 });
+  });
+
+  it('starts chorus LFOs', () => {
+    createEffectNode(createEffectSettings('chorus'));
+    expect(mockChorusStart).toHaveBeenCalledOnce();
+  });
+
+  it('sets the bitcrusher mix after construction', () => {
+    const node = createEffectNode({ id: 'b', type: 'bitcrusher', bypassed: false, params: { bits: 6, wet: 0.2 } });
+    expect(Tone.BitCrusher).toHaveBeenCalledWith(6);
+    expect((node as unknown as { wet: { value: number } }).wet.value).toBe(0.2);
+  });
+
+  it('clamps out-of-range parameters', () => {
+    createEffectNode({ id: 'd', type: 'distortion', bypassed: false, params: { distortion: 3, wet: 0.5 } });
+    expect(Tone.Distortion).toHaveBeenCalledWith({ distortion: 1, wet: 0.5 });
+  });
+});
+
+describe('applyEffectParams', () => {
+  it('sets normalized parameters on the node', () => {
+    const node = { set: vi.fn() } as unknown as EffectNode;
+    applyEffectParams(node, { id: 'r', type: 'reverb', bypassed: false, params: { decay: 20 } });
+    expect((node as unknown as { set: ReturnType<typeof vi.fn> }).set).toHaveBeenCalledWith({ decay: 10, wet: 0.3 });
+  });
+});
+
+describe('effectsReady', () => {
+  it('waits for reverbs to build their impulse responses', async () => {
+    const reverb = createEffectNode(createEffectSettings('reverb'));
+    const filter = createEffectNode(createEffectSettings('filter'));
+    await expect(effectsReady([reverb, filter])).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createMidiRecorder,
+  recordNoteTrigger,
+  advanceMidiRecorder,
+  encodeMidiFile,
+  volumeToVelocity,
+  midiFilename,
+  MIDI_PPQ,
+} from '@/lib/audio/midi';
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function readChunks(buffer: ArrayBuffer): Chunk[] {
+  const chunks: Chunk[] = [];
+  const file = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  let offset = 0;
+  while (offset < file.length) {
+    const type = String.fromCharCode(...file.slice(offset, offset + 4));
+    const length = view.getUint32(offset + 4);
+    chunks.push({ type, data: file.slice(offset + 8, offset + 8 + length) });
+    offset += 8 + length;
+  }
+  return chunks;
+}
+
+interface ParsedEvent {
+  tick: number;
+  status: number;
+  data: number[];
+}
+
+/** Parses an MTrk chunk into absolute-tick events (no running status). */
+function readTrack(data: Uint8Array): ParsedEvent[] {
+  const events: ParsedEvent[] = [];
+  let offset = 0;
+  let tick = 0;
+  const readVarLen = () => {
+    let value = 0;
+    let byte: number;
+    do {
+      byte = data[offset++];
+      value = (value << 7) | (byte & 0x7f);
+    } while (byte & 0x80);
+    return value;
+  };
+  while (offset < data.length) {
+    tick += readVarLen();
+    const status = data[offset++];
+    if (status === 0xff) {
+      const type = data[offset++];
+      const length = readVarLen();
+      events.push({ tick, status, data: [type, ...data.slice(offset, offset + length)] });
+      offset += length;
+    } else {
+      events.push({ tick, status, data: [data[offset], data[offset + 1]] });
+      offset += 2;
+    }
+  }
+  return events;
+}
+
+function trackName(events: ParsedEvent[]): string {
+  const meta = events.find((e) => e.status === 0xff && e.data[0] === 0x03);
+  return meta ? String.fromCharCode(...meta.data.slice(1)) : '';
+}
+
+function buildRecording() {
+  const recorder = createMidiRecorder(120);
+  recordNoteTrigger(
+    recorder,
+    { satelliteId: null, planetId: 'planet-1', note: 'C4', volume: 0.7, durationBeats: 1 },
+    'Synth'
+  );
+  advanceMidiRecorder(recorder, 500, 120); // one beat
+  recordNoteTrigger(
+    recorder,
+    { satelliteId: 'satellite-1', planetId: 'planet-2', note: 'E4', volume: 1, durationBeats: 0.5 },
+    'FMSynth'
+  );
+  return recorder;
+}
+
+describe('MidiRecorder', () => {
+  it('stamps notes with the elapsed time and beat', () => {
+    const recorder = buildRecording();
+    expect(recorder.events[0]).toMatchObject({ timestamp: 0, beat: 0 });
+    expect(recorder.events[1]).toMatchObject({ timestamp: 500, beat: 1, satelliteId: 'satellite-1' });
+  });
+
+  it('adds an offset into the current tick at the current tempo', () => {
+    const recorder = createMidiRecorder(120);
+    advanceMidiRecorder(recorder, 500, 120);
+    recordNoteTrigger(
+      recorder,
+      { satelliteId: null, planetId: 'planet-1', note: 'C4', volume: 0.7, durationBeats: 1 },
+      'Synth',
+      125
+    );
+    expect(recorder.events[0].timestamp).toBe(625);
+    expect(recorder.events[0].beat).toBeCloseTo(1.25);
+  });
+
+  it('names each planet track once, in first-played order', () => {
+    const recorder = buildRecording();
+    recordNoteTrigger(
+      recorder,
+      { satelliteId: null, planetId: 'planet-1', note: 'D4', volume: 0.7, durationBeats: 1 },
+      'AMSynth'
+    );
+    expect([...recorder.trackNames.values()]).toEqual(['planet-1 (Synth)', 'planet-2 (FMSynth)']);
+  });
+
+  it('advances the beat clock at the current BPM and logs tempo changes', () => {
+    const recorder = createMidiRecorder(120);
+    advanceMidiRecorder(recorder, 1000, 120);
+    expect(recorder.beat).toBeCloseTo(2);
+    advanceMidiRecorder(recorder, 1000, 60);
+    expect(recorder.beat).toBeCloseTo(3);
+    expect(recorder.tempoChanges).toEqual([
+      { beat: 0, bpm: 120 },
+      { beat: 2, bpm: 60 },
+    ]);
+  });
+});
+
+describe('volumeToVelocity', () => {
+  it('maps 0–1 to 1–127', () => {
+    expect(volumeToVelocity(1)).toBe(127);
+    expect(volumeToVelocity(0.5)).toBe(64);
+    expect(volumeToVelocity(0)).toBe(1);
+    expect(volumeToVelocity(2)).toBe(127);
+  });
+});
+
+describe('encodeMidiFile', () => {
+  it('writes a Type-1 header with a tempo track plus one track per planet', () => {
+    const chunks = readChunks(encodeMidiFile(buildRecording()));
+    expect(chunks.map((c) => c.type)).toEqual(['MThd', 'MTrk', 'MTrk', 'MTrk']);
+
+    const header = new DataView(chunks[0].data.buffer, chunks[0].data.byteOffset);
+    expect(header.getUint16(0)).toBe(1);
+    expect(header.getUint16(2)).toBe(3);
+    expect(header.getUint16(4)).toBe(MIDI_PPQ);
+  });
+
+  it('writes the tempo map in the first track', () => {
+    const recorder = createMidiRecorder(120);
+    advanceMidiRecorder(recorder, 500, 120);
+    advanceMidiRecorder(recorder, 500, 100);
+    const [, tempoTrack] = readChunks(encodeMidiFile(recorder));
+    const tempos = readTrack(tempoTrack.data).filter((e) => e.status === 0xff && e.data[0] === 0x51);
+    const micros = (e: ParsedEvent) => (e.data[1] << 16) | (e.data[2] << 8) | e.data[3];
+    expect(tempos.map((e) => e.tick)).toEqual([0, MIDI_PPQ]);
+    expect(tempos.map(micros)).toEqual([500000, 600000]);
+  });
+
+  it('names planet tracks after the planet ID and synth type', () => {
+    const chunks = readChunks(encodeMidiFile(buildRecording()));
+    expect(trackName(readTrack(chunks[2].data))).toBe('planet-1 (Synth)');
+    expect(trackName(readTrack(chunks[3].data))).toBe('planet-2 (FMSynth)');
+  });
+
+  it('writes beat-accurate note on/off pairs with velocity from volume', () => {
+    const chunks = readChunks(encodeMidiFile(buildRecording()));
+    const notes = readTrack(chunks[3].data).filter((e) => e.status !== 0xff);
+    expect(notes).toEqual([
+      { tick: MIDI_PPQ, status: 0x91, data: [64, 127] },
+      { tick: MIDI_PPQ * 1.5, status: 0x81, data: [64, 0] },
+    ]);
+  });
+
+  it('skips notes that are not valid note names', () => {
+    const recorder = createMidiRecorder(120);
+    recordNoteTrigger(
+      recorder,
+      { satelliteId: null, planetId: 'planet-1', note: 'nope', volume: 1, durationBeats: 1 },
+      'Synth'
+    );
+    const chunks = readChunks(encodeMidiFile(recorder));
+    expect(readTrack(chunks[2].data).filter((e) => e.status !== 0xff)).toHaveLength(0);
+  });
+
+  it('ends every track with an end-of-track event', () => {
+    const chunks = readChunks(encodeMidiFile(buildRecording()));
+    for (const chunk of chunks.slice(1)) {
+      const events = readTrack(chunk.data);
+      expect(events[events.length - 1]).toMatchObject({ status: 0xff, data: [0x2f] });
+    }
+  });
+});
+
+describe('midiFilename', () => {
+  it('builds a timestamped .mid name', () => {
+    expect(midiFilename(new Date('2025-01-31T12:00:00Z'))).toBe('solar-system-2025-01-31T12-00-00.mid');
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  parseControlChange,
+  ccToTargetValue,
+  bindMidiControl,
+  unbindMidiControl,
+  pruneMidiBindings,
+  findControlBinding,
+  findMidiBindings,
+  loadStoredMidiBindings,
+  storeMidiBindings,
+  listenToMidiInputs,
+  MIDI_BINDINGS_STORAGE_KEY,
+} from '@/lib/audio/midiInput';
+import type { MidiCcBinding } from '@/types/audio';
+
+const gravityOnCc74: MidiCcBinding = { target: 'gravity', planetId: null, channel: 1, controller: 74 };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  localStorage.clear();
+});
+
+describe('parseControlChange', () => {
+  it('decodes channel, controller and value', () => {
+    expect(parseControlChange([0xb3, 74, 100])).toEqual({ channel: 4, controller: 74, value: 100 });
+  });
+
+  it('ignores other message types', () => {
+    expect(parseControlChange([0x90, 60, 100])).toBeNull();
+    expect(parseControlChange([0xb0, 1])).toBeNull();
+  });
+});
+
+describe('ccToTargetValue', () => {
+  it('sweeps the full range of each target', () => {
+    expect(ccToTargetValue('gravity', 0)).toBeCloseTo(0.1);
+    expect(ccToTargetValue('gravity', 127)).toBeCloseTo(5);
+    expect(ccToTargetValue('masterVolume', 127)).toBe(1);
+    expect(ccToTargetValue('bpm', 0)).toBe(20);
+    expect(ccToTargetValue('bpm', 127)).toBe(300);
+  });
+
+  it('rounds BPM and planet mass to whole numbers', () => {
+    expect(Number.isInteger(ccToTargetValue('bpm', 50))).toBe(true);
+    expect(Number.isInteger(ccToTargetValue('planetMass', 50))).toBe(true);
+  });
+});
+
+describe('bindMidiControl', () => {
+  it('adds a binding for the control', () => {
+    const bindings = bindMidiControl([], { target: 'gravity', planetId: null }, { channel: 1, controller: 74 });
+    expect(bindings).toEqual([gravityOnCc74]);
+  });
+
+  it('replaces the control\'s previous binding', () => {
+    const bindings = bindMidiControl([gravityOnCc74], { target: 'gravity', planetId: null }, { channel: 2, controller: 7 });
+    expect(bindings).toEqual([{ target: 'gravity', planetId: null, channel: 2, controller: 7 }]);
+  });
+
+  it('moves a CC that was driving another control', () => {
+    const bindings = bindMidiControl([gravityOnCc74], { target: 'bpm', planetId: null }, { channel: 1, controller: 74 });
+    expect(bindings).toEqual([{ target: 'bpm', planetId: null, channel: 1, controller: 74 }]);
+  });
+
+  it('keeps mass bindings for different planets apart', () => {
+    let bindings = bindMidiControl([], { target: 'planetMass', planetId: 'planet-1' }, { channel: 1, controller: 1 });
+    bindings = bindMidiControl(bindings, { target: 'planetMass', planetId: 'planet-2' }, { channel: 1, controller: 2 });
+    expect(bindings).toHaveLength(2);
+    expect(findControlBinding(bindings, { target: 'planetMass', planetId: 'planet-2' })?.controller).toBe(2);
+  });
+});
+
+describe('unbindMidiControl / findMidiBindings', () => {
+  it('removes a control\'s binding', () => {
+    expect(unbindMidiControl([gravityOnCc74], { target: 'gravity', planetId: null })).toEqual([]);
+  });
+
+  it('matches bindings on channel and controller', () => {
+    expect(findMidiBindings([gravityOnCc74], { channel: 1, controller: 74, value: 0 })).toEqual([gravityOnCc74]);
+    expect(findMidiBindings([gravityOnCc74], { channel: 2, controller: 74, value: 0 })).toEqual([]);
+  });
+});
+
+describe('pruneMidiBindings', () => {
+  it('drops bindings to planets that are gone', () => {
+    const massOf = (planetId: string): MidiCcBinding => ({ target: 'planetMass', planetId, channel: 1, controller: 1 });
+    expect(pruneMidiBindings([gravityOnCc74, massOf('planet-1'), massOf('planet-2')], new Set(['planet-2']))).toEqual([
+      gravityOnCc74,
+      massOf('planet-2'),
+    ]);
+  });
+});
+
+describe('stored bindings', () => {
+  it('round-trips through localStorage', () => {
+    storeMidiBindings([gravityOnCc74]);
+    expect(loadStoredMidiBindings()).toEqual([gravityOnCc74]);
+  });
+
+  it('returns an empty list when nothing is stored', () => {
+    expect(loadStoredMidiBindings()).toEqual([]);
+  });
+
+  it('drops malformed entries', () => {
+    localStorage.setItem(
+      MIDI_BINDINGS_STORAGE_KEY,
+      JSON.stringify([gravityOnCc74, { target: 'reverb', planetId: null, channel: 1, controller: 1 }, 'x'])
+    );
+    expect(loadStoredMidiBindings()).toEqual([gravityOnCc74]);
+  });
+
+  it('warns and returns an empty list for unparseable data', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem(MIDI_BINDINGS_STORAGE_KEY, '{not json');
+    expect(loadStoredMidiBindings()).toEqual([]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('listenToMidiInputs', () => {
+  it('throws when Web MIDI is unsupported', async () => {
+    vi.stubGlobal('navigator', {});
+    await expect(listenToMidiInputs(vi.fn())).rejects.toThrow('not supported');
+  });
+
+  it('forwards messages from every input until stopped', async () => {
+    const input = new EventTarget();
+    vi.stubGlobal('navigator', {
+      requestMIDIAccess: vi.fn().mockResolvedValue({ inputs: new Map([['in-1', input]]) }),
+    });
+    const onMessage = vi.fn();
+    const stop = await listenToMidiInputs(onMessage);
+
+    const send = (bytes: number[]) =>
+      input.dispatchEvent(Object.assign(new Event('midimessage'), { data: new Uint8Array(bytes) }));
+    send([0xb0, 74, 64]);
+    expect(onMessage).toHaveBeenCalledWith(new Uint8Array([0xb0, 74, 64]));
+
+    stop();
+    send([0xb0, 74, 65]);
+    expect(onMessage).toHaveBeenCalledOnce();
+  });
+});
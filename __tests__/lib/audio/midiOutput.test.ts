@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createMidiOutputManager,
+  setMidiOutputPorts,
+  setMidiRoute,
+  getActiveMidiRoute,
+  sendMidiNote,
+  sendMidiAllNotesOff,
+  requestMidiOutputs,
+} from '@/lib/audio/midiOutput';
+import type { MidiOutputPort } from '@/lib/audio/midiOutput';
+
+/** In-memory port that records every message it is sent. */
+function fakePort(id: string) {
+  const sent: { data: number[]; timestamp?: number }[] = [];
+  const port: MidiOutputPort = {
+    id,
+    name: `Fake ${id}`,
+    send: (data, timestamp) => sent.push({ data, timestamp }),
+  };
+  return { port, sent };
+}
+
+function routedManager() {
+  const a = fakePort('port-a');
+  const manager = createMidiOutputManager();
+  setMidiOutputPorts(manager, [a.port]);
+  setMidiRoute(manager, 'planet-1', { portId: 'port-a', channel: 3, layerSynth: false });
+  return { manager, sent: a.sent };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('setMidiRoute', () => {
+  it('clamps the channel to 1–16', () => {
+    const manager = createMidiOutputManager();
+    setMidiRoute(manager, 'planet-1', { portId: 'p', channel: 40, layerSynth: false });
+    expect(manager.routes.get('planet-1')!.channel).toBe(16);
+    setMidiRoute(manager, 'planet-1', { portId: 'p', channel: 0, layerSynth: false });
+    expect(manager.routes.get('planet-1')!.channel).toBe(1);
+  });
+
+  it('removes the route when given null', () => {
+    const { manager } = routedManager();
+    setMidiRoute(manager, 'planet-1', null);
+    expect(manager.routes.has('planet-1')).toBe(false);
+  });
+});
+
+describe('getActiveMidiRoute', () => {
+  it('ignores routes whose port is unavailable', () => {
+    const { manager } = routedManager();
+    expect(getActiveMidiRoute(manager, 'planet-1')).not.toBeNull();
+    setMidiOutputPorts(manager, []);
+    expect(getActiveMidiRoute(manager, 'planet-1')).toBeNull();
+    // The route itself is kept for when the port returns
+    expect(manager.routes.has('planet-1')).toBe(true);
+  });
+});
+
+describe('sendMidiNote', () => {
+  it('sends note-on now and note-off after the duration on the routed channel', () => {
+    const { manager, sent } = routedManager();
+    expect(sendMidiNote(manager, 'planet-1', 'C4', 0.5, 1, 1000)).toBe(true);
+    expect(sent).toEqual([
+      { data: [0x92, 60, 127], timestamp: 1000 },
+      { data: [0x82, 60, 0], timestamp: 1500 },
+    ]);
+  });
+
+  it('scales velocity with volume', () => {
+    const { manager, sent } = routedManager();
+    sendMidiNote(manager, 'planet-1', 'A4', 0.1, 0.5, 0);
+    expect(sent[0].data).toEqual([0x92, 69, 64]);
+  });
+
+  it('does nothing for unrouted voices or invalid notes', () => {
+    const { manager, sent } = routedManager();
+    expect(sendMidiNote(manager, 'planet-2', 'C4', 0.5, 1)).toBe(false);
+    expect(sendMidiNote(manager, 'planet-1', 'not-a-note', 0.5, 1)).toBe(false);
+    expect(sent).toHaveLength(0);
+  });
+});
+
+describe('sendMidiAllNotesOff', () => {
+  it('sends All Notes Off on each routed channel', () => {
+    const { manager, sent } = routedManager();
+    sendMidiAllNotesOff(manager);
+    expect(sent).toEqual([{ data: [0xb2, 123, 0], timestamp: undefined }]);
+  });
+});
+
+describe('requestMidiOutputs', () => {
+  it('throws when Web MIDI is unsupported', async () => {
+    vi.stubGlobal('navigator', {});
+    await expect(requestMidiOutputs()).rejects.toThrow('not supported');
+  });
+
+  it('wraps the browser outputs as ports', async () => {
+    const send = vi.fn();
+    const outputs = new Map([['out-1', { id: 'out-1', name: 'Hardware Synth', send }]]);
+    vi.stubGlobal('navigator', {
+      requestMIDIAccess: vi.fn().mockResolvedValue({ outputs }),
+    });
+    const ports = await requestMidiOutputs();
+    expect(ports.map((p) => [p.id, p.name])).toEqual([['out-1', 'Hardware Synth']]);
+    ports[0].send([0x90, 60, 100], 5);
+    expect(send).toHaveBeenCalledWith([0x90, 60, 100], 5);
+  });
+});
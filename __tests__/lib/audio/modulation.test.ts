@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import {
+  modulationTargets,
+  findModulationTarget,
+  pruneModulations,
+  createModulationRoute,
+  modulationSourceValues,
+  applyModulationCurve,
+  modulatedValue,
+  isPanTarget,
+} from '@/lib/audio/modulation';
+import { defaultSynthPatch } from '@/lib/audio/patches';
+import type { EffectSettings, ModulationRoute } from '@/types/audio';
+import type { Planet, Satellite, Star } from '@/types/celestial';
+
+const filter: EffectSettings = { id: 'filter-1', type: 'filter', bypassed: false, params: { frequency: 800, Q: 1 } };
+const reverb: EffectSettings = { id: 'reverb-1', type: 'reverb', bypassed: false, params: { decay: 2, wet: 0.3 } };
+
+function route(overrides: Partial<ModulationRoute> = {}): ModulationRoute {
+  return {
+    id: 'mod-1',
+    source: 'starDistance',
+    sourceMin: 100,
+    sourceMax: 300,
+    target: { effectId: 'filter-1', param: 'frequency' },
+    min: 8000,
+    max: 400,
+    curve: 'linear',
+    ...overrides,
+  };
+}
+
+function planet(id: string, position: { x: number; y: number }, velocity = { x: 0, y: 0 }): Planet {
+  return {
+    id,
+    type: 'planet',
+    position,
+    velocity,
+    mass: 100,
+    rotation: 0,
+    rotationSpeed: 'quarter',
+    noteSequence: ['I4'],
+    currentNoteIndex: 0,
+    synthType: 'Synth',
+    patch: defaultSynthPatch('Synth'),
+    samples: [],
+    orbitRadius: 150,
+    orbitAngle: 0.5,
+    effects: [],
+    modulations: [],
+    physicsBody: null,
+  };
+}
+
+const star = { id: 'star-1', type: 'star', position: { x: 0, y: 0 } } as Star;
+
+describe('modulationTargets', () => {
+  it('lists synth detune and pan, then modulatable effect parameters', () => {
+    const keys = modulationTargets([filter, reverb]).map((t) => `${t.target.effectId}:${t.target.param}`);
+    expect(keys).toEqual(['null:detune', 'null:pan', 'filter-1:frequency', 'filter-1:Q', 'reverb-1:wet']);
+  });
+
+  it('tells pan routes apart from synth and effect parameters', () => {
+    expect(isPanTarget({ effectId: null, param: 'pan' })).toBe(true);
+    expect(isPanTarget({ effectId: null, param: 'detune' })).toBe(false);
+    expect(isPanTarget({ effectId: 'filter-1', param: 'pan' })).toBe(false);
+  });
+
+  it('carries the parameter range', () => {
+    expect(findModulationTarget([filter], { effectId: 'filter-1', param: 'frequency' })).toMatchObject({
+      min: 20,
+      max: 20000,
+    });
+  });
+});
+
+describe('pruneModulations', () => {
+  it('drops routes whose effect or parameter is gone', () => {
+    const routes = [
+      route(),
+      route({ id: 'mod-2', target: { effectId: null, param: 'detune' } }),
+      route({ id: 'mod-3', target: { effectId: 'reverb-1', param: 'decay' } }),
+    ];
+    expect(pruneModulations(routes, [reverb]).map((r) => r.id)).toEqual(['mod-2']);
+  });
+});
+
+describe('createModulationRoute', () => {
+  it('targets the first effect with the full ranges and a free ID', () => {
+    expect(createModulationRoute([route()], [filter])).toEqual({
+      id: 'mod-2',
+      source: 'speed',
+      sourceMin: 0,
+      sourceMax: 15,
+      target: { effectId: 'filter-1', param: 'frequency' },
+      min: 20,
+      max: 20000,
+      curve: 'linear',
+    });
+  });
+
+  it('targets synth detune when there are no effects', () => {
+    expect(createModulationRoute([], []).target).toEqual({ effectId: null, param: 'detune' });
+  });
+});
+
+describe('modulationSourceValues', () => {
+  it('measures every source', () => {
+    const p1 = planet('planet-1', { x: 300, y: 400 }, { x: 3, y: 4 });
+    const p2 = planet('planet-2', { x: 300, y: 300 });
+    const p3 = planet('planet-3', { x: 0, y: 0 });
+    const satellites = [
+      { id: 's1', parentPlanetId: 'planet-1' },
+      { id: 's2', parentPlanetId: 'planet-1' },
+      { id: 's3', parentPlanetId: 'planet-2' },
+    ] as Satellite[];
+
+    expect(modulationSourceValues(p1, star, [p1, p2, p3], satellites)).toEqual({
+      speed: 5,
+      starDistance: 500,
+      orbitAngle: 0.5,
+      nearestPlanetDistance: 100,
+      satelliteCount: 2,
+    });
+  });
+
+  it('reports an infinite neighbour distance for a lone planet', () => {
+    const p1 = planet('planet-1', { x: 100, y: 0 });
+    expect(modulationSourceValues(p1, star, [p1], []).nearestPlanetDistance).toBe(Infinity);
+  });
+});
+
+describe('applyModulationCurve', () => {
+  it('keeps the ends fixed for every curve', () => {
+    for (const curve of ['linear', 'exponential', 'logarithmic'] as const) {
+      expect(applyModulationCurve(0, curve)).toBeCloseTo(0);
+      expect(applyModulationCurve(1, curve)).toBeCloseTo(1);
+    }
+  });
+
+  it('bends exponential below and logarithmic above linear', () => {
+    expect(applyModulationCurve(0.5, 'exponential')).toBeLessThan(0.5);
+    expect(applyModulationCurve(0.5, 'logarithmic')).toBeGreaterThan(0.5);
+  });
+});
+
+describe('modulatedValue', () => {
+  it('maps the source range onto the target range, inverted when min > max', () => {
+    expect(modulatedValue(route(), 100)).toBe(8000);
+    expect(modulatedValue(route(), 200)).toBe(4200);
+    expect(modulatedValue(route(), 300)).toBe(400);
+  });
+
+  it('clamps readings outside the source range', () => {
+    expect(modulatedValue(route(), 50)).toBe(8000);
+    expect(modulatedValue(route(), Infinity)).toBe(400);
+  });
+
+  it('holds the minimum for an empty source range', () => {
+    expect(modulatedValue(route({ sourceMax: 100 }), 500)).toBe(8000);
+  });
+});
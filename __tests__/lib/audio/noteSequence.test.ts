@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_SEQUENCE_STEPS,
+  tokenizeSequence,
+  parseSequence,
+  parseNoteSequence,
+  parseStep,
+  isValidSequenceStep,
+  formatStep,
+  stepNotes,
+} from '@/lib/audio/noteSequence';
+import type { SequenceParseResult } from '@/lib/audio/noteSequence';
+
+function steps(input: string): string[] {
+  const result = parseSequence(input);
+  if (!result.ok) throw new Error(result.errors.map((e) => e.message).join('; '));
+  return result.steps;
+}
+
+function errors(result: SequenceParseResult) {
+  if (result.ok) throw new Error('expected errors');
+  return result.errors;
+}
+
+describe('tokenizeSequence', () => {
+  it('splits words and brackets, keeping their positions', () => {
+    expect(tokenizeSequence('(I4 -)x2 [V4]!0.5')).toEqual([
+      { text: '(', start: 0, end: 1 },
+      { text: 'I4', start: 1, end: 3 },
+      { text: '-', start: 4, end: 5 },
+      { text: ')', start: 5, end: 6 },
+      { text: 'x2', start: 6, end: 8 },
+      { text: '[', start: 9, end: 10 },
+      { text: 'V4', start: 10, end: 12 },
+      { text: ']', start: 12, end: 13 },
+      { text: '!0.5', start: 13, end: 17 },
+    ]);
+  });
+});
+
+describe('parseSequence', () => {
+  it('parses plain scale degrees, ignoring extra whitespace', () => {
+    expect(steps('  I4   V3 VI4 III3 ')).toEqual(['I4', 'V3', 'VI4', 'III3']);
+    expect(steps('')).toEqual([]);
+  });
+
+  it('parses rests and accidentals', () => {
+    expect(steps('I4 - bIII4 #IV4')).toEqual(['I4', '-', 'bIII4', '#IV4']);
+  });
+
+  it('gives notes without an octave the previous note’s, shifted by \' and ,', () => {
+    expect(steps('III V')).toEqual(['III4', 'V4']);
+    expect(steps("I3 III V I' V,")).toEqual(['I3', 'III3', 'V3', 'I4', 'V3']);
+    expect(steps("V4''")).toEqual(['V6']);
+  });
+
+  it('parses velocities, leaving out those of 1', () => {
+    expect(steps('V4!0.5 I4!1')).toEqual(['V4!0.5', 'I4']);
+  });
+
+  it('parses chords, applying a chord velocity to notes without their own', () => {
+    expect(steps('[I4 III V]')).toEqual(['[I4 III4 V4]']);
+    expect(steps('[I4!0.8 V4]!0.5')).toEqual(['[I4!0.8 V4!0.5]']);
+    expect(steps('[II4]')).toEqual(['II4']);
+  });
+
+  it('expands repeat groups, nested or not', () => {
+    expect(steps('(I4 -)x2 V4')).toEqual(['I4', '-', 'I4', '-', 'V4']);
+    expect(steps('((I4)x2 V4)x2')).toEqual(['I4', 'I4', 'V4', 'I4', 'I4', 'V4']);
+    expect(steps('(I4 V4)')).toEqual(['I4', 'V4']);
+  });
+
+  it('builds an AST with source positions', () => {
+    const result = parseSequence('(I4 [V4 VII4]!0.5)x2');
+    if (!result.ok) throw new Error('expected a valid sequence');
+    expect(result.nodes).toMatchObject([
+      {
+        type: 'repeat',
+        count: 2,
+        start: 0,
+        end: 20,
+        body: [
+          { type: 'note', degree: 'I', octave: 4, alteration: 0, velocity: null, start: 1, end: 3 },
+          { type: 'chord', velocity: 0.5, start: 4, end: 17, notes: [{ degree: 'V' }, { degree: 'VII' }] },
+        ],
+      },
+    ]);
+  });
+
+  it('reports unknown words with their position', () => {
+    expect(errors(parseSequence('I4 Y9 V4'))).toEqual([
+      { start: 3, end: 5, message: expect.stringContaining('"Y9" is not a scale degree') },
+    ]);
+  });
+
+  it('reports degrees past the given mode’s scale', () => {
+    expect(errors(parseSequence('I4 VII4', 'MajorPentatonic'))).toEqual([
+      { start: 3, end: 7, message: 'VII is not in the 5-note MajorPentatonic scale (I–V)' },
+    ]);
+  });
+
+  it('reports unbalanced and misplaced brackets', () => {
+    expect(errors(parseSequence('[I4 V4'))).toEqual([{ start: 0, end: 1, message: '[ is never closed with ]' }]);
+    expect(errors(parseSequence('I4 )'))[0]).toMatchObject({ start: 3, message: 'Unmatched )' });
+    expect(errors(parseSequence('[I4 [V4]]'))[0]).toMatchObject({ start: 4, message: 'Chords can’t be nested' });
+    expect(errors(parseSequence('[I4 -]'))[0]).toMatchObject({ message: 'A chord can’t contain a rest' });
+    expect(errors(parseSequence('[]'))[0]).toMatchObject({
+      start: 0,
+      end: 2,
+      message: 'A chord needs at least one note',
+    });
+  });
+
+  it('reports bad velocities, repeat counts and octaves', () => {
+    expect(errors(parseSequence('V4!2'))[0]).toMatchObject({ start: 0, end: 4, message: expect.stringMatching(/"2"/) });
+    expect(errors(parseSequence('I4 x3'))[0]).toMatchObject({ start: 3, message: expect.stringMatching(/follow \)/) });
+    expect(errors(parseSequence('(I4)x17'))[0]).toMatchObject({ start: 4, end: 7, message: expect.stringMatching(/x16/) });
+    expect(errors(parseSequence("I9'"))[0]).toMatchObject({ message: expect.stringMatching(/in octave 10/) });
+  });
+
+  it('reports every error, sorted by position', () => {
+    expect(errors(parseSequence('Q4 I4 V4!0 [I4')).map((e) => e.start)).toEqual([0, 6, 11]);
+  });
+
+  it('limits how many steps a sequence expands to', () => {
+    expect(errors(parseSequence(' ((I4 V4)x16)x16 '))).toEqual([
+      { start: 1, end: 16, message: `Expands to 512 steps; a sequence can have at most ${MAX_SEQUENCE_STEPS}` },
+    ]);
+  });
+});
+
+describe('parseNoteSequence', () => {
+  it('returns the steps of a valid sequence', () => {
+    expect(parseNoteSequence('I4 [III V]')).toEqual(['I4', '[III4 V4]']);
+  });
+
+  it('throws with the first error and its column', () => {
+    expect(() => parseNoteSequence('I4 Y5 V3')).toThrow(/column 4: "Y5" is not a scale degree/);
+    expect(() => parseNoteSequence('I4 VII4', 'MinorPentatonic')).toThrow(/VII is not in the 5-note/);
+  });
+});
+
+describe('steps', () => {
+  it('parses a stored step into its notes', () => {
+    expect(parseStep('I4')).toEqual([{ degree: 'I4', velocity: 1 }]);
+    expect(parseStep('[I4 bIII4!0.5]')).toEqual([
+      { degree: 'I4', velocity: 1 },
+      { degree: 'bIII4', velocity: 0.5 },
+    ]);
+    expect(parseStep('-')).toEqual([]);
+  });
+
+  it('accepts only single steps in canonical form', () => {
+    expect(isValidSequenceStep('[I4 V4]')).toBe(true);
+    expect(isValidSequenceStep('I4 V4')).toBe(false);
+    expect(isValidSequenceStep('V')).toBe(false);
+    expect(isValidSequenceStep('(I4)x2')).toBe(false);
+    expect(isValidSequenceStep('V4!1')).toBe(false);
+  });
+
+  it('formats steps canonically', () => {
+    expect(formatStep([])).toBe('-');
+    expect(formatStep([{ degree: 'V4', velocity: 0.25 }])).toBe('V4!0.25');
+    expect(formatStep([{ degree: 'I4', velocity: 1 }, { degree: 'V4', velocity: 1 }])).toBe('[I4 V4]');
+  });
+
+  it('resolves a step to notes in a key, resting on degrees past the scale', () => {
+    expect(stepNotes('[I4 bIII4!0.5]', 'C', 'Ionian')).toEqual([
+      { note: 'C4', velocity: 1 },
+      { note: 'Eb4', velocity: 0.5 },
+    ]);
+    expect(stepNotes('[I4 VII4]', 'C', 'MajorPentatonic')).toEqual([{ note: 'C4', velocity: 1 }]);
+    expect(stepNotes('-', 'C', 'Ionian')).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  positionPan,
+  satellitePan,
+  satelliteSpread,
+  PAN_DISTANCE,
+  SATELLITE_PAN_SPREAD,
+} from '@/lib/audio/panning';
+import { createSatellite } from '@/lib/entities/satellite';
+import type { Planet, Satellite } from '@/types/celestial';
+
+const center = { x: 100, y: 100 };
+
+describe('positionPan', () => {
+  it('centres a body directly above or below the star', () => {
+    expect(positionPan({ x: 100, y: -300 }, center, 1)).toBe(0);
+  });
+
+  it('pans left and right with horizontal distance from the star', () => {
+    expect(positionPan({ x: 100 + PAN_DISTANCE / 2, y: 0 }, center, 1)).toBeCloseTo(0.5);
+    expect(positionPan({ x: 100 - PAN_DISTANCE / 2, y: 0 }, center, 1)).toBeCloseTo(-0.5);
+  });
+
+  it('scales by the width and stays within -1…1', () => {
+    expect(positionPan({ x: 100 + PAN_DISTANCE / 2, y: 0 }, center, 0.5)).toBeCloseTo(0.25);
+    expect(positionPan({ x: 100 + PAN_DISTANCE * 3, y: 0 }, center, 1)).toBe(1);
+    expect(positionPan({ x: 100 - PAN_DISTANCE * 3, y: 0 }, center, 1)).toBe(-1);
+    expect(positionPan({ x: 100 + PAN_DISTANCE * 3, y: 0 }, center, 0)).toBe(0);
+  });
+});
+
+describe('satelliteSpread', () => {
+  it('puts each satellite on a side of its own, clear of the middle', () => {
+    const spreads = ['satellite-1', 'satellite-2', 'satellite-3', 'satellite-4'].map(satelliteSpread);
+    for (const spread of spreads) {
+      expect(Math.abs(spread)).toBeGreaterThanOrEqual(0.5);
+      expect(Math.abs(spread)).toBeLessThanOrEqual(1);
+    }
+    expect(new Set(spreads).size).toBe(spreads.length);
+  });
+
+  it('is the same every time for the same satellite', () => {
+    expect(satelliteSpread('satellite-7')).toBe(satelliteSpread('satellite-7'));
+  });
+});
+
+describe('satellitePan', () => {
+  const planet = { position: { x: 100, y: 100 } } as Planet;
+
+  it('moves a default satellite firing above its planet off the planet’s pan', () => {
+    const satellite = createSatellite({ parentPlanetId: 'planet-1', parentPosition: planet.position, orbitRadius: 30 });
+    expect(satellite.triggerPoint).toBe('top');
+    const atTrigger = { ...satellite, position: { x: 100, y: 70 } };
+    const planetPan = positionPan(planet.position, center, 1);
+    expect(satellitePan(atTrigger, planet, center, 1)).toBeCloseTo(
+      planetPan + satelliteSpread(satellite.id) * SATELLITE_PAN_SPREAD
+    );
+    expect(Math.abs(satellitePan(atTrigger, planet, center, 1) - planetPan)).toBeGreaterThanOrEqual(
+      SATELLITE_PAN_SPREAD / 2
+    );
+  });
+
+  it('scales the spread by the width', () => {
+    const satellite = { id: 'satellite-1' } as Satellite;
+    expect(satellitePan(satellite, planet, center, 0.5)).toBeCloseTo(
+      (satelliteSpread('satellite-1') * SATELLITE_PAN_SPREAD) / 2
+    );
+    expect(satellitePan(satellite, planet, center, 0)).toBe(0);
+  });
+
+  it('stays within -1…1 for a planet already panned hard', () => {
+    const satellite = { id: 'satellite-1' } as Satellite;
+    const side = Math.sign(satelliteSpread('satellite-1'));
+    const hard = { position: { x: 100 + side * PAN_DISTANCE, y: 100 } } as Planet;
+    expect(satellitePan(satellite, hard, center, 1)).toBe(side);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  PATCH_SECTIONS,
+  PRESETS_STORAGE_KEY,
+  defaultSynthPatch,
+  normalizeSynthPatch,
+  patchOptions,
+  upsertPreset,
+  removePreset,
+  mergePresets,
+  loadStoredPresets,
+  storePresets,
+} from '@/lib/audio/patches';
+import { SYNTH_TYPES } from '@/lib/audio/synthManager';
+import type { SynthPreset } from '@/types/audio';
+
+function preset(name: string, synthType = 'Synth'): SynthPreset {
+  return { name, synthType, patch: defaultSynthPatch('Synth') };
+}
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('defaultSynthPatch', () => {
+  it('uses Tone.js defaults for each synth type', () => {
+    expect(defaultSynthPatch('Synth')).toMatchObject({
+      oscillator: 'triangle',
+      envelope: { attack: 0.005, decay: 0.1, sustain: 0.3, release: 1 },
+    });
+    expect(defaultSynthPatch('FMSynth')).toMatchObject({ oscillator: 'sine', harmonicity: 3, modulationIndex: 10 });
+    expect(defaultSynthPatch('MetalSynth')).toMatchObject({ harmonicity: 5.1, modulationIndex: 32 });
+    expect(defaultSynthPatch('MonoSynth').filterEnvelope).toEqual({
+      attack: 0.6,
+      decay: 0.2,
+      sustain: 0.5,
+      release: 2,
+      baseFrequency: 200,
+      octaves: 3,
+    });
+  });
+
+  it('returns a fresh copy each time', () => {
+    const a = defaultSynthPatch('Synth');
+    a.envelope.attack = 5;
+    expect(defaultSynthPatch('Synth').envelope.attack).toBe(0.005);
+  });
+
+  it('has patch sections for every synth type', () => {
+    for (const type of SYNTH_TYPES) expect(PATCH_SECTIONS[type]).toBeDefined();
+  });
+});
+
+describe('normalizeSynthPatch', () => {
+  it('clamps parameters and fills gaps from the type defaults', () => {
+    const patch = {
+      ...defaultSynthPatch('Synth'),
+      oscillator: 'pulse',
+      envelope: { attack: -1, decay: 0.2, sustain: 3 },
+      harmonicity: NaN,
+    } as never;
+    expect(normalizeSynthPatch('FMSynth', patch)).toMatchObject({
+      oscillator: 'sine',
+      envelope: { attack: 0, decay: 0.2, sustain: 1, release: 0.5 },
+      harmonicity: 3,
+    });
+  });
+});
+
+describe('patchOptions', () => {
+  it('includes only the sections the synth type has', () => {
+    expect(patchOptions('Synth', defaultSynthPatch('Synth'))).toEqual({
+      oscillator: { type: 'triangle' },
+      envelope: { attack: 0.005, decay: 0.1, sustain: 0.3, release: 1 },
+    });
+    expect(Object.keys(patchOptions('MonoSynth', defaultSynthPatch('MonoSynth')))).toEqual([
+      'oscillator',
+      'envelope',
+      'filterEnvelope',
+    ]);
+    expect(patchOptions('DuoSynth', defaultSynthPatch('DuoSynth'))).toEqual({ harmonicity: 1.5 });
+    expect(patchOptions('PluckSynth', defaultSynthPatch('PluckSynth'))).toEqual({});
+  });
+});
+
+describe('preset library', () => {
+  it('adds, replaces by name and removes presets', () => {
+    let library = upsertPreset([], preset('Pad'));
+    library = upsertPreset(library, preset('Bell', 'FMSynth'));
+    library = upsertPreset(library, preset('Pad', 'AMSynth'));
+    expect(library.map((p) => [p.name, p.synthType])).toEqual([
+      ['Pad', 'AMSynth'],
+      ['Bell', 'FMSynth'],
+    ]);
+    expect(removePreset(library, 'Pad').map((p) => p.name)).toEqual(['Bell']);
+  });
+
+  it('merges in new presets and keeps the library’s version of a taken name', () => {
+    const merged = mergePresets([preset('Pad')], [preset('Pad', 'AMSynth'), preset('Bell', 'FMSynth')]);
+    expect(merged.map((p) => [p.name, p.synthType])).toEqual([
+      ['Pad', 'Synth'],
+      ['Bell', 'FMSynth'],
+    ]);
+  });
+
+  it('round-trips through localStorage', () => {
+    storePresets([preset('Pad')]);
+    expect(loadStoredPresets()).toEqual([preset('Pad')]);
+  });
+
+  it('drops malformed stored entries and clamps patches', () => {
+    const wild = { ...preset('Loud'), patch: { ...defaultSynthPatch('Synth'), harmonicity: 999 } };
+    localStorage.setItem(
+      PRESETS_STORAGE_KEY,
+      JSON.stringify([wild, { name: 'No type', patch: {} }, { name: '', synthType: 'Synth', patch: {} }])
+    );
+    const loaded = loadStoredPresets();
+    expect(loaded.map((p) => p.name)).toEqual(['Loud']);
+    expect(loaded[0].patch.harmonicity).toBe(20);
+  });
+
+  it('returns an empty library for unreadable storage', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem(PRESETS_STORAGE_KEY, '{not json');
+    expect(loadStoredPresets()).toEqual([]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
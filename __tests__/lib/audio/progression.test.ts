@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_PROGRESSION_CHORDS,
+  activeChord,
+  cloneProgression,
+  defaultProgression,
+  formatProgression,
+  parseProgression,
+  progressionChordIndex,
+} from '@/lib/audio/progression';
+import { createStar } from '@/lib/entities/star';
+
+describe('parseProgression', () => {
+  it('reads chords in canonical form, ignoring bar lines', () => {
+    expect(parseProgression('I vi | IV V7')).toEqual(['I', 'vi', 'IV', 'V7']);
+    expect(parseProgression('  i  bVII bVI VIIo  ')).toEqual(['i', 'bVII', 'bVI', 'vii°']);
+  });
+
+  it('rejects words that aren’t chords', () => {
+    expect(() => parseProgression('I IIII V')).toThrow(/"IIII" is not a chord/);
+    expect(() => parseProgression('I Vm')).toThrow(/"Vm" is not a chord/);
+  });
+
+  it('rejects empty and overlong progressions', () => {
+    expect(() => parseProgression(' | ')).toThrow(/at least one chord/);
+    expect(() => parseProgression(Array(MAX_PROGRESSION_CHORDS + 1).fill('I').join(' '))).toThrow(/at most 16/);
+  });
+
+  it('checks roots against a mode’s scale', () => {
+    expect(() => parseProgression('I vi', 'MinorPentatonic')).toThrow(/vi is not on the 5-note MinorPentatonic/);
+    expect(parseProgression('I vi', 'Aeolian')).toEqual(['I', 'vi']);
+  });
+
+  it('formats chords as the text it reads', () => {
+    expect(parseProgression(formatProgression(['I', 'vii°', 'bVII']))).toEqual(['I', 'vii°', 'bVII']);
+  });
+});
+
+describe('progressionChordIndex', () => {
+  it('moves to the next chord every barsPerChord bars, looping', () => {
+    const twoBars = { ...defaultProgression(), barsPerChord: 2 };
+    expect(progressionChordIndex(twoBars, 0)).toBe(0);
+    expect(progressionChordIndex(twoBars, 7.9)).toBe(0);
+    expect(progressionChordIndex(twoBars, 8)).toBe(1);
+    expect(progressionChordIndex(twoBars, 32)).toBe(0);
+  });
+});
+
+describe('activeChord', () => {
+  it('is null without a progression', () => {
+    expect(activeChord(createStar({ key: 'C', mode: 'Ionian' }))).toBeNull();
+  });
+
+  it('picks the chord at the star’s beat, or a moment later in the tick', () => {
+    const star = { ...createStar({ key: 'C', mode: 'Ionian', bpm: 120, progression: defaultProgression() }), beat: 3.9 };
+    expect(activeChord(star)).toEqual({ symbol: 'I', follow: 'root' });
+    // 100 ms at 120 BPM is a fifth of a beat, past the bar line
+    expect(activeChord(star, 100)).toEqual({ symbol: 'vi', follow: 'root' });
+  });
+});
+
+describe('cloneProgression', () => {
+  it('copies the chords', () => {
+    const original = defaultProgression();
+    expect(cloneProgression(original)).toEqual(original);
+    expect(cloneProgression(original).chords).not.toBe(original.chords);
+  });
+});
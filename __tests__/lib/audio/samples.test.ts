@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_SAMPLES,
+  MAX_SAMPLE_BYTES,
+  SAMPLE_NOTES,
+  isSampleFile,
+  isValidSampleNote,
+  readSampleFile,
+  nextSampleNote,
+  addSample,
+  sameSampleMap,
+  samplerUrls,
+  drumKitSamples,
+} from '@/lib/audio/samples';
+
+function audioFile(name: string, type: string, bytes = 4): File {
+  return new File([new Uint8Array(bytes)], name, { type });
+}
+
+describe('sample files', () => {
+  it('accepts WAV and MP3 by MIME type or extension', () => {
+    expect(isSampleFile(audioFile('kick.wav', 'audio/wav'))).toBe(true);
+    expect(isSampleFile(audioFile('pad.MP3', ''))).toBe(true);
+    expect(isSampleFile(audioFile('notes.txt', 'text/plain'))).toBe(false);
+  });
+
+  it('reads a file into a data URL', async () => {
+    const url = await readSampleFile(audioFile('kick.wav', 'audio/wav'));
+    expect(url).toMatch(/^data:audio\/wav;base64,/);
+  });
+
+  it('rejects other files and files that are too large', async () => {
+    await expect(readSampleFile(audioFile('notes.txt', 'text/plain'))).rejects.toThrow(/not a WAV or MP3/);
+    await expect(
+      readSampleFile(audioFile('huge.wav', 'audio/wav', MAX_SAMPLE_BYTES + 1))
+    ).rejects.toThrow(/larger than 4 MB/);
+  });
+});
+
+describe('sample mapping', () => {
+  it('offers every chromatic note from C1 to B8', () => {
+    expect(SAMPLE_NOTES).toHaveLength(96);
+    expect(SAMPLE_NOTES.every(isValidSampleNote)).toBe(true);
+    expect(isValidSampleNote('H2')).toBe(false);
+  });
+
+  it('maps added samples to octaves outward from C4 with free IDs', () => {
+    let samples = addSample([], 'a', 'data:audio/wav;base64,A');
+    samples = addSample(samples, 'b', 'data:audio/wav;base64,B');
+    samples = addSample(samples, 'c', 'data:audio/wav;base64,C');
+    expect(samples.map((s) => [s.id, s.note])).toEqual([
+      ['sample-1', 'C4'],
+      ['sample-2', 'C3'],
+      ['sample-3', 'C5'],
+    ]);
+  });
+
+  it('skips root notes already taken, whatever order they were mapped in', () => {
+    const samples = [
+      { id: 'sample-1', name: 'a', note: 'C3', url: '' },
+      { id: 'sample-2', name: 'b', note: 'C4', url: '' },
+    ];
+    expect(nextSampleNote(samples)).toBe('C5');
+  });
+
+  it('refuses more than MAX_SAMPLES samples', () => {
+    let samples = addSample([], 's', 'data:audio/wav;base64,A');
+    while (samples.length < MAX_SAMPLES) samples = addSample(samples, 's', 'data:audio/wav;base64,A');
+    expect(() => addSample(samples, 'one more', 'data:audio/wav;base64,A')).toThrow(/at most 8/);
+  });
+
+  it('keys Sampler URLs by root note and compares maps by note and audio', () => {
+    const samples = addSample([], 'a', 'data:audio/wav;base64,A');
+    expect(samplerUrls(samples)).toEqual({ C4: 'data:audio/wav;base64,A' });
+    expect(sameSampleMap(samples, [{ ...samples[0], name: 'renamed' }])).toBe(true);
+    expect(sameSampleMap(samples, [{ ...samples[0], note: 'D4' }])).toBe(false);
+  });
+});
+
+describe('drumKitSamples', () => {
+  it('is a kick, snare and two hats as WAV data URLs, one per C', () => {
+    const kit = drumKitSamples();
+    expect(kit.map((s) => [s.name, s.note])).toEqual([
+      ['Kick', 'C3'],
+      ['Snare', 'C4'],
+      ['Closed hat', 'C5'],
+      ['Open hat', 'C6'],
+    ]);
+    for (const sample of kit) {
+      expect(sample.url).toMatch(/^data:audio\/wav;base64,/);
+      expect(atob(sample.url.split(',')[1]).slice(0, 4)).toBe('RIFF');
+    }
+  });
+
+  it('is identical every time', () => {
+    expect(drumKitSamples()).toEqual(drumKitSamples());
+  });
+});
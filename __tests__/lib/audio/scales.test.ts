@@ -1,10 +1,10 @@
 import { describe, it, expect } from 'vitest';
+import { createRng } from '@/utils/random';
 import {
   buildScale,
   scaleDegreeToNote,
   parseScaleDegree,
   isValidScaleDegree,
-  parseNoteSequence,
   midiToFrequency,
   noteToMidi,
   noteToConversion,
@@ -12,9 +12,21 @@ import {
   buildMusicalContext,
   randomKey,
   randomMode,
+  randomNoteSequence,
   MODE_INTERVALS,
+  MODE_LABELS,
+  MUSICAL_MODES,
   KEY_SEMITONE,
   DEGREE_TO_INDEX,
+  scaleLength,
+  modeDegrees,
+  degreeRangeLabel,
+  parseChordSymbol,
+  formatChordSymbol,
+  isValidChordSymbol,
+  chordTones,
+  chordName,
+  transposeKey,
 } from '@/lib/audio/scales';
 
 describe('buildScale', () => {
@@ -46,6 +58,18 @@ describe('buildScale', () => {
     expect(buildScale('F#', 'Dorian', 3)).toHaveLength(7);
   });
 
+  it('returns one note per degree for scales of other lengths', () => {
+    expect(buildScale('C', 'MajorPentatonic', 4)).toEqual(['C4', 'D4', 'E4', 'G4', 'A4']);
+    expect(buildScale('A', 'Blues', 3)).toEqual(['A3', 'C4', 'D4', 'Eb4', 'E4', 'G4']);
+    expect(buildScale('C', 'Diminished', 4)).toHaveLength(8);
+  });
+
+  it('builds the harmonic minor and world scales', () => {
+    expect(buildScale('A', 'HarmonicMinor', 4)[6]).toBe('Ab5'); // raised 7th, G#
+    expect(buildScale('D', 'Hijaz', 4).slice(0, 3)).toEqual(['D4', 'Eb4', 'F#4']);
+    expect(buildScale('E', 'Hirajoshi', 4)).toEqual(['E4', 'F#4', 'G4', 'B4', 'C5']);
+  });
+
   it('handles all 12 keys without throwing', () => {
     const keys = Object.keys(KEY_SEMITONE);
     const modes = Object.keys(MODE_INTERVALS);
@@ -61,25 +85,36 @@ describe('buildScale', () => {
 
 describe('parseScaleDegree', () => {
   it('parses simple degree', () => {
-    expect(parseScaleDegree('I4')).toEqual({ degree: 'I', octave: 4 });
+    expect(parseScaleDegree('I4')).toEqual({ degree: 'I', octave: 4, alteration: 0 });
   });
 
   it('parses multi-character degree', () => {
-    expect(parseScaleDegree('VII3')).toEqual({ degree: 'VII', octave: 3 });
-    expect(parseScaleDegree('VI5')).toEqual({ degree: 'VI', octave: 5 });
-    expect(parseScaleDegree('IV4')).toEqual({ degree: 'IV', octave: 4 });
+    expect(parseScaleDegree('VII3')).toEqual({ degree: 'VII', octave: 3, alteration: 0 });
+    expect(parseScaleDegree('VI5')).toEqual({ degree: 'VI', octave: 5, alteration: 0 });
+    expect(parseScaleDegree('IV4')).toEqual({ degree: 'IV', octave: 4, alteration: 0 });
   });
 
   it('returns null for invalid input', () => {
     expect(parseScaleDegree('')).toBeNull();
-    expect(parseScaleDegree('X4')).toBeNull();
+    expect(parseScaleDegree('Q4')).toBeNull();
     expect(parseScaleDegree('I')).toBeNull(); // no octave
     expect(parseScaleDegree('4I')).toBeNull();
-    expect(parseScaleDegree('VIII4')).toBeNull(); // VIII is not a valid degree
+    expect(parseScaleDegree('IIII4')).toBeNull();
+    expect(parseScaleDegree('XIII4')).toBeNull(); // no scale has 13 notes
+  });
+
+  it('parses degrees beyond VII for longer scales', () => {
+    expect(parseScaleDegree('VIII4')).toEqual({ degree: 'VIII', octave: 4, alteration: 0 });
+  });
+
+  it('parses a flat or sharp', () => {
+    expect(parseScaleDegree('bIII4')).toEqual({ degree: 'III', octave: 4, alteration: -1 });
+    expect(parseScaleDegree('#IV3')).toEqual({ degree: 'IV', octave: 3, alteration: 1 });
+    expect(parseScaleDegree('bbIII4')).toBeNull();
   });
 
   it('handles whitespace by trimming', () => {
-    expect(parseScaleDegree('  V3  ')).toEqual({ degree: 'V', octave: 3 });
+    expect(parseScaleDegree('  V3  ')).toEqual({ degree: 'V', octave: 3, alteration: 0 });
   });
 });
 
@@ -90,39 +125,35 @@ describe('isValidScaleDegree', () => {
     expect(isValidScaleDegree('VII5')).toBe(true);
   });
 
+  it('checks the degree is in the given mode\'s scale', () => {
+    expect(isValidScaleDegree('V4', 'MajorPentatonic')).toBe(true);
+    expect(isValidScaleDegree('VI4', 'MajorPentatonic')).toBe(false);
+    expect(isValidScaleDegree('VII4', 'Ionian')).toBe(true);
+    expect(isValidScaleDegree('VIII4', 'Ionian')).toBe(false);
+    expect(isValidScaleDegree('VIII4', 'Diminished')).toBe(true);
+  });
+
   it('returns false for invalid degrees', () => {
-    expect(isValidScaleDegree('X4')).toBe(false);
+    expect(isValidScaleDegree('Y4')).toBe(false);
     expect(isValidScaleDegree('')).toBe(false);
     expect(isValidScaleDegree('I')).toBe(false);
   });
 });
 
-describe('parseNoteSequence', () => {
-  it('parses a valid sequence string', () => {
-    expect(parseNoteSequence('I4 V3 VI4 III3')).toEqual([
-      'I4',
-      'V3',
-      'VI4',
-      'III3',
-    ]);
+describe('scaleDegreeToNote', () => {
+  it('converts I4 in C Ionian to C4', () => {
+    expect(scaleDegreeToNote('I4', 'C', 'Ionian')).toBe('C4');
   });
 
-  it('filters out invalid entries', () => {
-    expect(parseNoteSequence('I4 X5 V3')).toEqual(['I4', 'V3']);
+  it('resolves degrees of a five-note scale', () => {
+    expect(scaleDegreeToNote('IV4', 'C', 'MajorPentatonic')).toBe('G4');
+    expect(scaleDegreeToNote('V4', 'A', 'MinorPentatonic')).toBe('G5');
   });
 
-  it('handles extra whitespace', () => {
-    expect(parseNoteSequence('  I4   V3  ')).toEqual(['I4', 'V3']);
-  });
-
-  it('returns empty array for empty string', () => {
-    expect(parseNoteSequence('')).toEqual([]);
-  });
-});
-
-describe('scaleDegreeToNote', () => {
-  it('converts I4 in C Ionian to C4', () => {
-    expect(scaleDegreeToNote('I4', 'C', 'Ionian')).toBe('C4');
+  it('throws for a degree the mode\'s scale does not have', () => {
+    expect(() => scaleDegreeToNote('VII4', 'C', 'MajorPentatonic')).toThrow(
+      'Degree VII is not in the 5-note MajorPentatonic scale'
+    );
   });
 
   it('converts V4 in C Ionian to G4', () => {
@@ -141,9 +172,78 @@ describe('scaleDegreeToNote', () => {
     expect(scaleDegreeToNote('VII4', 'C', 'Ionian')).toBe('B4');
   });
 
+  it('flattens and sharpens by a semitone, across the octave if need be', () => {
+    expect(scaleDegreeToNote('bIII4', 'C', 'Ionian')).toBe('Eb4');
+    expect(scaleDegreeToNote('#IV4', 'C', 'Ionian')).toBe('F#4');
+    expect(scaleDegreeToNote('bI4', 'C', 'Ionian')).toBe('B3');
+    expect(scaleDegreeToNote('#VII4', 'C', 'Ionian')).toBe('C5');
+  });
+
   it('throws for invalid scale degree', () => {
     expect(() => scaleDegreeToNote('X4', 'C', 'Ionian')).toThrow();
   });
+
+  it('counts degrees from a chord\'s root along the scale', () => {
+    const vi = { symbol: 'vi', follow: 'root' as const };
+    expect(scaleDegreeToNote('I4', 'C', 'Ionian', vi)).toBe('A4');
+    expect(scaleDegreeToNote('III4', 'C', 'Ionian', vi)).toBe('C5');
+    expect(scaleDegreeToNote('bV4', 'C', 'Ionian', vi)).toBe('Eb5');
+    expect(scaleDegreeToNote('I4', 'C', 'Ionian', { symbol: 'bVII', follow: 'root' })).toBe('Bb4');
+  });
+
+  it('snaps notes to the nearest chord tone, the lower of two as close', () => {
+    const V = { symbol: 'V', follow: 'snap' as const };
+    expect(scaleDegreeToNote('I4', 'C', 'Ionian', V)).toBe('B3');
+    expect(scaleDegreeToNote('IV4', 'C', 'Ionian', V)).toBe('G4');
+    expect(scaleDegreeToNote('V4', 'C', 'Ionian', V)).toBe('G4');
+    expect(scaleDegreeToNote('II4', 'C', 'Ionian', { symbol: 'I', follow: 'snap' })).toBe('C4');
+  });
+
+  it('ignores a chord whose root the scale doesn\'t have', () => {
+    expect(scaleDegreeToNote('I4', 'C', 'MajorPentatonic', { symbol: 'vi', follow: 'root' })).toBe('C4');
+  });
+});
+
+describe('chord symbols', () => {
+  it('parses the quality from case and markers', () => {
+    expect(parseChordSymbol('vi')).toEqual({ degree: 'VI', alteration: 0, quality: 'minor', seventh: false });
+    expect(parseChordSymbol('bVII7')).toEqual({ degree: 'VII', alteration: -1, quality: 'major', seventh: true });
+    expect(parseChordSymbol('viio')!.quality).toBe('diminished');
+    expect(parseChordSymbol('III+')!.quality).toBe('augmented');
+    expect(parseChordSymbol('Vm')).toBeNull();
+    expect(parseChordSymbol('Vi')).toBeNull();
+  });
+
+  it('formats symbols canonically', () => {
+    expect(formatChordSymbol(parseChordSymbol('VIIo')!)).toBe('vii°');
+    expect(formatChordSymbol(parseChordSymbol('#iv7')!)).toBe('#iv7');
+  });
+
+  it('checks roots against a mode\'s scale', () => {
+    expect(isValidChordSymbol('vi')).toBe(true);
+    expect(isValidChordSymbol('vi', 'MajorPentatonic')).toBe(false);
+    expect(isValidChordSymbol('IIII')).toBe(false);
+  });
+
+  it('lists and names a chord\'s tones in a key', () => {
+    expect(chordTones('vi', 'C', 'Ionian')).toEqual(['A4', 'C5', 'E5']);
+    expect(chordTones('V7', 'C', 'Ionian', 3)).toEqual(['G3', 'B3', 'D4', 'F4']);
+    expect(chordTones('vii°7', 'C', 'HarmonicMinor')).toEqual(['B4', 'D5', 'F5', 'Ab5']);
+    expect(chordTones('vi', 'C', 'MajorPentatonic')).toEqual([]);
+    expect(chordName('vi', 'C', 'Ionian')).toBe('Am');
+    expect(chordName('V7', 'G', 'Ionian')).toBe('D7');
+    expect(chordName('bVII', 'C', 'Ionian')).toBe('Bb');
+    expect(chordName('vii', 'C', 'Blues')).toBeNull();
+  });
+});
+
+describe('transposeKey', () => {
+  it('moves a key by semitones, wrapping round the octave', () => {
+    expect(transposeKey('C', 2)).toBe('D');
+    expect(transposeKey('A', 3)).toBe('C');
+    expect(transposeKey('C', -1)).toBe('B');
+    expect(transposeKey('Eb', 12)).toBe('Eb');
+  });
 });
 
 describe('midiToFrequency', () => {
@@ -216,6 +316,15 @@ describe('buildMusicalContext', () => {
     expect(ctx.mode).toBe('Ionian');
     expect(ctx.bpm).toBe(120);
     expect(ctx.scale).toEqual(['C4', 'D4', 'E4', 'F4', 'G4', 'A4', 'B4']);
+    expect(ctx.chord).toBeNull();
+    expect(ctx.chordTones).toEqual([]);
+  });
+
+  it('includes the progression chord and its tones', () => {
+    const chord = { symbol: 'IV', follow: 'snap' as const };
+    const ctx = buildMusicalContext('C', 'Ionian', 120, chord);
+    expect(ctx.chord).toEqual(chord);
+    expect(ctx.chordTones).toEqual(['F4', 'A4', 'C5']);
   });
 });
 
@@ -233,15 +342,65 @@ describe('randomKey / randomMode', () => {
       expect(validModes).toContain(randomMode());
     }
   });
+
+  it('is reproducible with a seeded rng', () => {
+    expect(randomKey(createRng('abc'))).toBe(randomKey(createRng('abc')));
+    expect(randomMode(createRng('abc'))).toBe(randomMode(createRng('abc')));
+  });
+});
+
+describe('randomNoteSequence', () => {
+  it('returns only valid scale degrees', () => {
+    const rng = createRng('notes');
+    for (let i = 0; i < 20; i++) {
+      for (const degree of randomNoteSequence(rng)) {
+        expect(isValidScaleDegree(degree)).toBe(true);
+      }
+    }
+  });
+
+  it('respects length and octave bounds', () => {
+    const rng = createRng('bounds');
+    for (let i = 0; i < 20; i++) {
+      const seq = randomNoteSequence(rng, { minLength: 2, maxLength: 4, minOctave: 4, maxOctave: 4 });
+      expect(seq.length).toBeGreaterThanOrEqual(2);
+      expect(seq.length).toBeLessThanOrEqual(4);
+      for (const degree of seq) expect(degree.endsWith('4')).toBe(true);
+    }
+  });
+
+  it('is reproducible for the same seed', () => {
+    expect(randomNoteSequence(createRng('x'))).toEqual(randomNoteSequence(createRng('x')));
+  });
+
+  it('keeps to the degrees of the given mode', () => {
+    const rng = createRng('pentatonic');
+    for (let i = 0; i < 20; i++) {
+      for (const degree of randomNoteSequence(rng, { mode: 'MajorPentatonic' })) {
+        expect(isValidScaleDegree(degree, 'MajorPentatonic')).toBe(true);
+      }
+    }
+  });
 });
 
 describe('MODE_INTERVALS', () => {
-  it('all modes have exactly 7 intervals', () => {
+  it('the diatonic modes have exactly 7 intervals', () => {
+    for (const mode of ['Ionian', 'Dorian', 'Phrygian', 'Lydian', 'Mixolydian', 'Aeolian', 'Locrian'] as const) {
+      expect(MODE_INTERVALS[mode]).toHaveLength(7);
+    }
+  });
+
+  it('all modes ascend strictly within one octave', () => {
     for (const [, intervals] of Object.entries(MODE_INTERVALS)) {
-      expect(intervals).toHaveLength(7);
+      expect(intervals.every((n, i) => i === 0 || n > intervals[i - 1])).toBe(true);
+      expect(intervals[intervals.length - 1]).toBeLessThan(12);
     }
   });
 
+  it('has a label for every mode', () => {
+    expect(Object.keys(MODE_LABELS)).toEqual(MUSICAL_MODES);
+  });
+
   it('all modes start at 0', () => {
     for (const [, intervals] of Object.entries(MODE_INTERVALS)) {
       expect(intervals[0]).toBe(0);
@@ -250,9 +409,29 @@ describe('MODE_INTERVALS', () => {
 });
 
 describe('DEGREE_TO_INDEX', () => {
-  it('maps all 7 degrees', () => {
-    expect(Object.keys(DEGREE_TO_INDEX)).toHaveLength(7);
+  it('maps degrees I–XII', () => {
+    expect(Object.keys(DEGREE_TO_INDEX)).toHaveLength(12);
     expect(DEGREE_TO_INDEX['I']).toBe(0);
     expect(DEGREE_TO_INDEX['VII']).toBe(6);
+    expect(DEGREE_TO_INDEX['XII']).toBe(11);
+  });
+
+  it('covers the longest scale', () => {
+    const longest = Math.max(...MUSICAL_MODES.map(scaleLength));
+    expect(Object.keys(DEGREE_TO_INDEX).length).toBeGreaterThanOrEqual(longest);
+  });
+});
+
+describe('mode degrees', () => {
+  it('lists the degrees each mode has', () => {
+    expect(modeDegrees('Ionian')).toEqual(['I', 'II', 'III', 'IV', 'V', 'VI', 'VII']);
+    expect(modeDegrees('Pelog')).toEqual(['I', 'II', 'III', 'IV', 'V']);
+    expect(scaleLength('WholeTone')).toBe(6);
+  });
+
+  it('labels the degree range', () => {
+    expect(degreeRangeLabel('MinorPentatonic')).toBe('I–V');
+    expect(degreeRangeLabel('Ionian')).toBe('I–VII');
+    expect(degreeRangeLabel('Diminished')).toBe('I–VIII');
   });
 });
@@ -7,24 +7,48 @@ const mockDispose = vi.fn();
 const mockTriggerAttackRelease = vi.fn();
 const mockTriggerAttack = vi.fn();
 const mockConnect = vi.fn();
-const mockVolumeValue = { value: 0 };
+const mockSetValueAtTime = vi.fn();
+const mockChain = vi.fn();
+const mockDetuneAtTime = vi.fn();
+const mockDisconnect = vi.fn();
+const mockSynthSet = vi.fn();
+const mockVolumeValue = { value: 0, setValueAtTime: mockSetValueAtTime };
 
 function makeSynth() {
   return {
     triggerAttackRelease: mockTriggerAttackRelease,
     triggerAttack: mockTriggerAttack,
     connect: mockConnect.mockReturnThis(),
+    chain: mockChain,
+    disconnect: mockDisconnect,
+    detune: { setValueAtTime: mockDetuneAtTime },
+    set: mockSynthSet,
     dispose: mockDispose,
     toDestination: vi.fn().mockReturnThis(),
   };
 }
 
+function makeEffect(kind: string) {
+  return () => ({
+    kind,
+    frequency: { setValueAtTime: vi.fn() },
+    Q: { setValueAtTime: vi.fn() },
+    wet: { setValueAtTime: vi.fn() },
+    set: vi.fn(),
+    disconnect: vi.fn(),
+    dispose: vi.fn(),
+  });
+}
+
 const mockVolume = {
   volume: mockVolumeValue,
   toDestination: vi.fn().mockReturnThis(),
+  connect: vi.fn().mockReturnThis(),
   dispose: mockDispose,
 };
 
+const mockPanAtTime = vi.fn();
+
 vi.mock('tone', () => ({
   PolySynth: vi.fn().mockImplementation(() => makeSynth()),
   Synth: vi.fn(),
@@ -36,8 +60,18 @@ vi.mock('tone', () => ({
   MetalSynth: vi.fn().mockImplementation(() => makeSynth()),
   PluckSynth: vi.fn().mockImplementation(() => makeSynth()),
   NoiseSynth: vi.fn().mockImplementation(() => makeSynth()),
+  Sampler: vi.fn().mockImplementation(() => ({ ...makeSynth(), loaded: true })),
   Volume: vi.fn().mockImplementation(() => ({ ...mockVolume })),
+  Panner: vi.fn().mockImplementation(() => ({
+    pan: { value: 0, setValueAtTime: mockPanAtTime },
+    toDestination: vi.fn().mockReturnThis(),
+    dispose: mockDispose,
+  })),
+  Filter: vi.fn().mockImplementation(makeEffect('filter')),
+  FeedbackDelay: vi.fn().mockImplementation(makeEffect('delay')),
+  Reverb: vi.fn().mockImplementation(makeEffect('reverb')),
   now: vi.fn().mockReturnValue(0),
+  getContext: vi.fn().mockReturnValue({ currentTime: 0 }),
 }));
 
 import {
@@ -50,8 +84,20 @@ import {
   getSynthCount,
   disposeAll,
   isValidSynthType,
+  startRecording,
+  setMidiOutput,
+  setSynthEffects,
+  setModulatedParam,
+  resetModulatedParams,
+  setSynthPan,
+  setSynthPatch,
   SYNTH_TYPES,
+  OSCILLATOR_SYNTH_TYPES,
 } from '@/lib/audio/synthManager';
+import { defaultSynthPatch } from '@/lib/audio/patches';
+import * as Tone from 'tone';
+import type { EffectSettings } from '@/types/audio';
+import { createMidiOutputManager, setMidiOutputPorts, setMidiRoute } from '@/lib/audio/midiOutput';
 
 beforeEach(() => {
   vi.clearAllMocks();
@@ -124,6 +170,105 @@ describe('removeSynth', () => {
   });
 });
 
+describe('setSynthEffects', () => {
+  const filter: EffectSettings = { id: 'filter-1', type: 'filter', bypassed: false, params: { frequency: 800, Q: 1 } };
+  const reverb: EffectSettings = { id: 'reverb-1', type: 'reverb', bypassed: false, params: { decay: 2, wet: 0.3 } };
+
+  it('chains the synth through its effects into its volume', () => {
+    const manager = createSynthManager();
+    const instance = addSynth(manager, 'p1', 'Synth', 1, [filter, reverb])!;
+    const [f, r] = instance.effects.map((e) => e.node);
+    expect(mockChain).toHaveBeenLastCalledWith(f, r, instance.volume);
+  });
+
+  it('reuses nodes when effects are reordered', () => {
+    const manager = createSynthManager();
+    const instance = addSynth(manager, 'p1', 'Synth', 1, [filter, reverb])!;
+    const [f, r] = instance.effects.map((e) => e.node);
+    setSynthEffects(manager, 'p1', [reverb, filter]);
+    expect(instance.effects.map((e) => e.node)).toEqual([r, f]);
+    expect(mockChain).toHaveBeenLastCalledWith(r, f, instance.volume);
+  });
+
+  it('leaves bypassed effects out of the signal path', () => {
+    const manager = createSynthManager();
+    const instance = addSynth(manager, 'p1', 'Synth', 1, [filter, reverb])!;
+    setSynthEffects(manager, 'p1', [{ ...filter, bypassed: true }, reverb]);
+    expect(mockChain).toHaveBeenLastCalledWith(instance.effects[1].node, instance.volume);
+  });
+
+  it('applies parameter edits without rewiring', () => {
+    const manager = createSynthManager();
+    const instance = addSynth(manager, 'p1', 'Synth', 1, [filter])!;
+    mockChain.mockClear();
+    setSynthEffects(manager, 'p1', [{ ...filter, params: { frequency: 2000, Q: 1 } }]);
+    expect(mockChain).not.toHaveBeenCalled();
+    expect(instance.effects[0].node.set).toHaveBeenCalledWith({ frequency: 2000, Q: 1 });
+  });
+
+  it('disposes removed effects', () => {
+    const manager = createSynthManager();
+    const instance = addSynth(manager, 'p1', 'Synth', 1, [filter, reverb])!;
+    const removed = instance.effects[1].node;
+    setSynthEffects(manager, 'p1', [filter]);
+    expect(removed.dispose).toHaveBeenCalled();
+    expect(mockChain).toHaveBeenLastCalledWith(instance.effects[0].node, instance.volume);
+  });
+
+  it('disposes effects with the synth', () => {
+    const manager = createSynthManager();
+    const instance = addSynth(manager, 'p1', 'Synth', 1, [reverb])!;
+    const node = instance.effects[0].node;
+    removeSynth(manager, 'p1');
+    expect(node.dispose).toHaveBeenCalled();
+  });
+
+  it('does nothing for a non-existent planet', () => {
+    const manager = createSynthManager();
+    expect(() => setSynthEffects(manager, 'ghost', [filter])).not.toThrow();
+  });
+});
+
+describe('setModulatedParam', () => {
+  const filter: EffectSettings = { id: 'filter-1', type: 'filter', bypassed: false, params: { frequency: 800, Q: 1 } };
+
+  type Mocked = Record<string, { setValueAtTime: ReturnType<typeof vi.fn> }>;
+
+  it('schedules a synth parameter on the audio clock', () => {
+    const manager = createSynthManager();
+    addSynth(manager, 'p1', 'Synth');
+    setModulatedParam(manager, 'p1', { effectId: null, param: 'detune' }, 300, 1.5);
+    expect(mockDetuneAtTime).toHaveBeenCalledWith(300, 1.5);
+  });
+
+  it('schedules an effect parameter, defaulting to now', () => {
+    const manager = createSynthManager();
+    const instance = addSynth(manager, 'p1', 'Synth', 1, [filter])!;
+    setModulatedParam(manager, 'p1', { effectId: 'filter-1', param: 'frequency' }, 4000);
+    expect((instance.effects[0].node as unknown as Mocked).frequency.setValueAtTime).toHaveBeenCalledWith(4000, 0);
+  });
+
+  it('ignores missing voices, effects and parameters', () => {
+    const manager = createSynthManager();
+    addSynth(manager, 'p1', 'PluckSynth');
+    expect(() => {
+      setModulatedParam(manager, 'ghost', { effectId: null, param: 'detune' }, 1);
+      setModulatedParam(manager, 'p1', { effectId: 'filter-9', param: 'frequency' }, 1);
+      setModulatedParam(manager, 'p1', { effectId: null, param: 'nonexistent' }, 1);
+    }).not.toThrow();
+  });
+
+  it('resets modulated parameters to their unmodulated values', () => {
+    const manager = createSynthManager();
+    const instance = addSynth(manager, 'p1', 'Synth', 1, [filter])!;
+    resetModulatedParams(manager, 'p1');
+    expect(mockDetuneAtTime).toHaveBeenCalledWith(0, 0);
+    const node = instance.effects[0].node as unknown as Mocked;
+    expect(node.frequency.setValueAtTime).toHaveBeenCalledWith(800, 0);
+    expect(node.Q.setValueAtTime).toHaveBeenCalledWith(1, 0);
+  });
+});
+
 describe('triggerNote', () => {
   it('does nothing for a non-existent planet', () => {
     const manager = createSynthManager();
@@ -136,6 +281,138 @@ describe('triggerNote', () => {
     triggerNote(manager, 'p1', 'C4', 0.5, 0.8);
     expect(mockTriggerAttackRelease).toHaveBeenCalledWith('C4', 0.5, 0);
   });
+
+  it('schedules at the recorder time and logs the note while recording', () => {
+    const manager = createSynthManager();
+    addSynth(manager, 'p1', 'FMSynth');
+    const recorder = startRecording(manager);
+    recorder.time = 2.5;
+    triggerNote(manager, 'p1', 'E4', 0.25, 0.5);
+    expect(mockTriggerAttackRelease).toHaveBeenCalledWith('E4', 0.25, 2.5);
+    expect(mockSetValueAtTime).toHaveBeenCalledWith(expect.any(Number), 2.5);
+    expect(recorder.notes).toEqual([
+      { time: 2.5, voiceId: 'p1', synthType: 'FMSynth', note: 'E4', durationSeconds: 0.25, volume: 0.5 },
+    ]);
+  });
+
+  it('schedules at an explicit audio-clock time', () => {
+    const manager = createSynthManager();
+    addSynth(manager, 'p1', 'Synth');
+    triggerNote(manager, 'p1', 'C4', 0.5, 0.8, 1.234);
+    expect(mockTriggerAttackRelease).toHaveBeenCalledWith('C4', 0.5, 1.234);
+    expect(mockSetValueAtTime).toHaveBeenCalledWith(expect.any(Number), 1.234);
+  });
+
+  it('plays a tuned frequency but records and routes the note name', () => {
+    const manager = createSynthManager();
+    addSynth(manager, 'p1', 'Synth');
+    const recorder = startRecording(manager);
+    recorder.time = 1;
+    triggerNote(manager, 'p1', 'E4', 0.5, 0.8, undefined, 327.03);
+    expect(mockTriggerAttackRelease).toHaveBeenCalledWith(327.03, 0.5, 1);
+    expect(recorder.notes[0].note).toBe('E4');
+  });
+
+  it('prefers an explicit time over the recorder time', () => {
+    const manager = createSynthManager();
+    addSynth(manager, 'p1', 'Synth');
+    const recorder = startRecording(manager);
+    recorder.time = 2;
+    triggerNote(manager, 'p1', 'C4', 0.5, 0.8, 2.01);
+    expect(recorder.notes[0].time).toBe(2.01);
+  });
+
+  describe('with MIDI output', () => {
+    function routedManager(layerSynth: boolean) {
+      const sent: number[][] = [];
+      const output = createMidiOutputManager();
+      setMidiOutputPorts(output, [{ id: 'out', name: 'Out', send: (data) => sent.push(data) }]);
+      setMidiRoute(output, 'p1', { portId: 'out', channel: 1, layerSynth });
+      const manager = createSynthManager();
+      addSynth(manager, 'p1', 'Synth');
+      setMidiOutput(manager, output);
+      return { manager, sent };
+    }
+
+    it('sends routed notes to MIDI instead of the synth', () => {
+      const { manager, sent } = routedManager(false);
+      triggerNote(manager, 'p1', 'C4', 0.5, 1);
+      expect(sent).toEqual([[0x90, 60, 127], [0x80, 60, 0]]);
+      expect(mockTriggerAttackRelease).not.toHaveBeenCalled();
+    });
+
+    it('also plays the synth when the route layers it', () => {
+      const { manager, sent } = routedManager(true);
+      triggerNote(manager, 'p1', 'C4', 0.5, 1);
+      expect(sent).toHaveLength(2);
+      expect(mockTriggerAttackRelease).toHaveBeenCalledWith('C4', 0.5, 0);
+    });
+
+    it('plays unrouted voices on their synth only', () => {
+      const { manager, sent } = routedManager(false);
+      addSynth(manager, 'p2', 'Synth');
+      triggerNote(manager, 'p2', 'C4', 0.5, 1);
+      expect(sent).toHaveLength(0);
+      expect(mockTriggerAttackRelease).toHaveBeenCalledOnce();
+    });
+
+    it('offsets MIDI timestamps by how far ahead the note is scheduled', () => {
+      const stamps: (number | undefined)[] = [];
+      const output = createMidiOutputManager();
+      setMidiOutputPorts(output, [{ id: 'out', name: 'Out', send: (_, timestamp) => stamps.push(timestamp) }]);
+      setMidiRoute(output, 'p1', { portId: 'out', channel: 1, layerSynth: false });
+      const manager = createSynthManager();
+      addSynth(manager, 'p1', 'Synth');
+      setMidiOutput(manager, output);
+      const nowSpy = vi.spyOn(performance, 'now').mockReturnValue(1000);
+
+      triggerNote(manager, 'p1', 'C4', 0.5, 1, 0.1);
+      expect(stamps).toEqual([1100, 1600]);
+      nowSpy.mockRestore();
+    });
+
+    it('lines MIDI timestamps up with the audio despite the context lookAhead', () => {
+      const stamps: (number | undefined)[] = [];
+      const output = createMidiOutputManager();
+      setMidiOutputPorts(output, [{ id: 'out', name: 'Out', send: (_, timestamp) => stamps.push(timestamp) }]);
+      setMidiRoute(output, 'p1', { portId: 'out', channel: 1, layerSynth: true });
+      const manager = createSynthManager();
+      addSynth(manager, 'p1', 'Synth');
+      setMidiOutput(manager, output);
+      const nowSpy = vi.spyOn(performance, 'now').mockReturnValue(1000);
+      // Audio clock at 5 s with a 0.1 s lookAhead, so Tone.now() reads 5.1
+      vi.mocked(Tone.getContext).mockReturnValue({ currentTime: 5 } as unknown as ReturnType<typeof Tone.getContext>);
+      vi.mocked(Tone.now).mockReturnValue(5.1);
+
+      triggerNote(manager, 'p1', 'C4', 0.5, 1, 5.25);
+      expect(mockTriggerAttackRelease).toHaveBeenCalledWith('C4', 0.5, 5.25);
+      expect(stamps[0]).toBeCloseTo(1250);
+
+      stamps.length = 0;
+      triggerNote(manager, 'p1', 'C4', 0.5, 1);
+      expect(mockTriggerAttackRelease).toHaveBeenLastCalledWith('C4', 0.5, 5.1);
+      expect(stamps[0]).toBeCloseTo(1100);
+
+      vi.mocked(Tone.getContext).mockReturnValue({ currentTime: 0 } as unknown as ReturnType<typeof Tone.getContext>);
+      vi.mocked(Tone.now).mockReturnValue(0);
+      nowSpy.mockRestore();
+    });
+
+    it('never sends MIDI while recording offline', () => {
+      const { manager, sent } = routedManager(false);
+      startRecording(manager);
+      triggerNote(manager, 'p1', 'C4', 0.5, 1);
+      expect(sent).toHaveLength(0);
+      expect(mockTriggerAttackRelease).toHaveBeenCalledOnce();
+    });
+  });
+
+  it('does not log notes for a missing voice', () => {
+    const manager = createSynthManager();
+    const recorder = startRecording(manager);
+    triggerNote(manager, 'ghost', 'C4', 1, 1);
+    expect(recorder.notes).toEqual([]);
+  });
 });
 
 describe('setSynthVolume', () => {
@@ -152,6 +429,50 @@ describe('setSynthVolume', () => {
   });
 });
 
+describe('setSynthPan', () => {
+  it('schedules the pan, clamped to -1…1', () => {
+    const manager = createSynthManager();
+    addSynth(manager, 'p1', 'Synth');
+    setSynthPan(manager, 'p1', -0.4, 2);
+    setSynthPan(manager, 'p1', 3);
+    expect(mockPanAtTime).toHaveBeenNthCalledWith(1, -0.4, 2);
+    expect(mockPanAtTime).toHaveBeenNthCalledWith(2, 1, 0);
+  });
+
+  it('does nothing for non-existent planet', () => {
+    const manager = createSynthManager();
+    expect(() => setSynthPan(manager, 'ghost', 0.5)).not.toThrow();
+  });
+});
+
+describe('synth patches', () => {
+  it('builds the synth with the patch options for its type', () => {
+    const manager = createSynthManager();
+    const patch = { ...defaultSynthPatch('FMSynth'), oscillator: 'square' as const, modulationIndex: 20 };
+    addSynth(manager, 'p1', 'FMSynth', 1, [], patch);
+    const options = (vi.mocked(Tone.PolySynth).mock.calls[0] as unknown[])[1] as Record<string, unknown>;
+    expect(options).toMatchObject({ oscillator: { type: 'square' }, modulationIndex: 20, harmonicity: 3 });
+    expect(options).not.toHaveProperty('filterEnvelope');
+  });
+
+  it('applies a new patch to the live synth', () => {
+    const manager = createSynthManager();
+    const instance = addSynth(manager, 'p1', 'MonoSynth')!;
+    const patch = defaultSynthPatch('MonoSynth');
+    patch.filterEnvelope.octaves = 5;
+    setSynthPatch(manager, 'p1', patch);
+    expect(manager.instances.get('p1')).toBe(instance);
+    expect(mockSynthSet).toHaveBeenCalledWith(
+      expect.objectContaining({ filterEnvelope: expect.objectContaining({ octaves: 5 }) })
+    );
+  });
+
+  it('does nothing for non-existent planet', () => {
+    const manager = createSynthManager();
+    expect(() => setSynthPatch(manager, 'ghost', defaultSynthPatch('Synth'))).not.toThrow();
+  });
+});
+
 describe('isAtLimit', () => {
   it('returns false when under limit', () => {
     const manager = createSynthManager(3);
@@ -204,8 +525,9 @@ describe('isValidSynthType', () => {
 });
 
 describe('SYNTH_TYPES', () => {
-  it('contains 9 synth types', () => {
-    expect(SYNTH_TYPES).toHaveLength(9);
+  it('contains the 9 oscillator synth types and the Sampler', () => {
+    expect(OSCILLATOR_SYNTH_TYPES).toHaveLength(9);
+    expect(SYNTH_TYPES).toEqual([...OSCILLATOR_SYNTH_TYPES, 'Sampler']);
   });
 
   it('includes Synth, AMSynth, FMSynth', () => {
@@ -214,3 +536,33 @@ describe('SYNTH_TYPES', () => {
     expect(SYNTH_TYPES).toContain('FMSynth');
   });
 });
+
+describe('samplers', () => {
+  const kick = { id: 'sample-1', name: 'Kick', note: 'C3', url: 'data:audio/wav;base64,AAAA' };
+  const snare = { id: 'sample-2', name: 'Snare', note: 'C4', url: 'data:audio/wav;base64,BBBB' };
+
+  it('loads the samples keyed by root note', () => {
+    const manager = createSynthManager();
+    const instance = addSynth(manager, 'p1', 'Sampler', 1, [], undefined, [kick, snare])!;
+    expect(instance.sampleCount).toBe(2);
+    const options = vi.mocked(Tone.Sampler).mock.calls[0][0] as { urls: Record<string, string> };
+    expect(options.urls).toEqual({ C3: kick.url, C4: snare.url });
+  });
+
+  it('plays pitched samples once they have loaded', () => {
+    const manager = createSynthManager();
+    addSynth(manager, 'p1', 'Sampler', 1, [], undefined, [kick]);
+    triggerNote(manager, 'p1', 'E3', 0.5, 0.8, 1);
+    expect(mockTriggerAttackRelease).toHaveBeenCalledWith('E3', 0.5, 1);
+  });
+
+  it('skips notes while the samples are loading or when there are none', () => {
+    const manager = createSynthManager();
+    addSynth(manager, 'empty', 'Sampler');
+    const loading = addSynth(manager, 'loading', 'Sampler', 1, [], undefined, [kick])!;
+    (loading.synth as unknown as { loaded: boolean }).loaded = false;
+    triggerNote(manager, 'empty', 'C4', 0.5);
+    triggerNote(manager, 'loading', 'C4', 0.5);
+    expect(mockTriggerAttackRelease).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyTimelineEvent,
+  barStartBeat,
+  cloneTimeline,
+  createTimelineEvent,
+  describeTimelineEvent,
+  dueBarEvents,
+  dueRevolutionEvents,
+  glideBpm,
+  isGlideDone,
+  startBpmGlide,
+  timelineEventChanges,
+  timelineEventFiresOn,
+} from '@/lib/audio/timeline';
+import { createStar } from '@/lib/entities/star';
+
+describe('timelineEventFiresOn', () => {
+  it('fires once on its bar or revolution', () => {
+    const event = createTimelineEvent({ at: 32 });
+    expect(timelineEventFiresOn(event, 32)).toBe(true);
+    expect(timelineEventFiresOn(event, 64)).toBe(false);
+  });
+
+  it('repeats every so many after its first', () => {
+    const event = createTimelineEvent({ at: 8, every: 8 });
+    expect([1, 8, 12, 16, 24].map((n) => timelineEventFiresOn(event, n))).toEqual([false, true, false, true, true]);
+  });
+});
+
+describe('dueBarEvents', () => {
+  const timeline = [
+    createTimelineEvent({ at: 1, key: 'C' }),
+    createTimelineEvent({ at: 2, key: 'D' }),
+    createTimelineEvent({ unit: 'revolution', at: 2, key: 'E' }),
+  ];
+
+  it('picks events on bars starting within the beats covered', () => {
+    expect(barStartBeat(2)).toBe(4);
+    expect(dueBarEvents(timeline, 0, 0.1)).toEqual([timeline[0]]);
+    expect(dueBarEvents(timeline, 0.1, 3.9)).toEqual([]);
+    expect(dueBarEvents(timeline, 3.9, 4.1)).toEqual([timeline[1]]);
+    expect(dueBarEvents(timeline, 4, 4.1)).toEqual([timeline[1]]);
+    expect(dueBarEvents(timeline, 4.1, 8)).toEqual([]);
+  });
+
+  it('catches every bar skipped in a long step, in order', () => {
+    expect(dueBarEvents(timeline, 0, 8)).toEqual([timeline[0], timeline[1]]);
+  });
+});
+
+describe('dueRevolutionEvents', () => {
+  it('picks revolution events for the revolution count', () => {
+    const every8 = createTimelineEvent({ unit: 'revolution', at: 8, every: 8, transpose: 2 });
+    const timeline = [createTimelineEvent({ at: 8, key: 'A' }), every8];
+    expect(dueRevolutionEvents(timeline, 8)).toEqual([every8]);
+    expect(dueRevolutionEvents(timeline, 12)).toEqual([]);
+    expect(dueRevolutionEvents(timeline, 16)).toEqual([every8]);
+  });
+});
+
+describe('applyTimelineEvent', () => {
+  const star = createStar({ key: 'C', mode: 'Ionian', bpm: 120 });
+
+  it('moves to the relative minor', () => {
+    const next = applyTimelineEvent(star, createTimelineEvent({ key: 'A', mode: 'Aeolian' }));
+    expect([next.key, next.mode, next.bpm]).toEqual(['A', 'Aeolian', 120]);
+  });
+
+  it('transposes from the current key, wrapping round the octave', () => {
+    const upWholeStep = createTimelineEvent({ transpose: 2 });
+    expect(applyTimelineEvent(star, upWholeStep).key).toBe('D');
+    expect(applyTimelineEvent({ ...star, key: 'B' }, upWholeStep).key).toBe('C#');
+    expect(applyTimelineEvent(star, createTimelineEvent({ key: 'G', transpose: -1 })).key).toBe('F#');
+  });
+
+  it('jumps to a new tempo unless the event glides', () => {
+    expect(applyTimelineEvent(star, createTimelineEvent({ bpm: 90 })).bpm).toBe(90);
+    expect(applyTimelineEvent(star, createTimelineEvent({ bpm: 90, glideBars: 4 })).bpm).toBe(120);
+  });
+});
+
+describe('BPM glides', () => {
+  const star = { ...createStar({ bpm: 120 }), beat: 16 };
+
+  it('starts only for a gliding tempo change', () => {
+    expect(startBpmGlide(star, createTimelineEvent({ key: 'D' }))).toBeNull();
+    expect(startBpmGlide(star, createTimelineEvent({ bpm: 90 }))).toBeNull();
+    expect(startBpmGlide(star, createTimelineEvent({ bpm: 90, glideBars: 2 }))).toEqual({
+      from: 120,
+      to: 90,
+      startBeat: 16,
+      beats: 8,
+    });
+  });
+
+  it('moves linearly with the beat and holds at the end', () => {
+    const glide = { from: 120, to: 90, startBeat: 16, beats: 8 };
+    expect(glideBpm(glide, 16)).toBe(120);
+    expect(glideBpm(glide, 20)).toBe(105);
+    expect(glideBpm(glide, 30)).toBe(90);
+    expect(isGlideDone(glide, 23.9)).toBe(false);
+    expect(isGlideDone(glide, 24)).toBe(true);
+  });
+});
+
+describe('describeTimelineEvent', () => {
+  it('says when the event fires and what it changes', () => {
+    expect(describeTimelineEvent(createTimelineEvent({ at: 32, key: 'A', mode: 'Aeolian' }))).toMatch(
+      /^Bar 32: key A, Aeolian/
+    );
+    expect(describeTimelineEvent(createTimelineEvent({ unit: 'revolution', at: 8, every: 8, transpose: 2 }))).toBe(
+      'Every 8 revolutions from 8: up 2 semitones'
+    );
+    expect(describeTimelineEvent(createTimelineEvent({ unit: 'revolution', at: 1, transpose: -1 }))).toBe(
+      'After 1 revolution: down 1 semitone'
+    );
+    expect(describeTimelineEvent(createTimelineEvent({ at: 16, bpm: 90, glideBars: 4 }))).toBe(
+      'Bar 16: 90 BPM over 4 bars'
+    );
+  });
+});
+
+describe('timelineEventChanges', () => {
+  it('is false for an event that keeps everything', () => {
+    expect(timelineEventChanges(createTimelineEvent())).toBe(false);
+    expect(timelineEventChanges(createTimelineEvent({ transpose: 1 }))).toBe(true);
+  });
+});
+
+describe('cloneTimeline', () => {
+  it('copies each event', () => {
+    const timeline = [createTimelineEvent({ key: 'A' })];
+    expect(cloneTimeline(timeline)).toEqual(timeline);
+    expect(cloneTimeline(timeline)[0]).not.toBe(timeline[0]);
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import {
+  defaultTuning,
+  cloneTuning,
+  isStandardTuning,
+  ratioToCents,
+  tuningSteps,
+  tunedFrequency,
+  parseScalaScale,
+  parseKeyboardMapping,
+  readTextFile,
+} from '@/lib/audio/tuning';
+import type { KeyboardMapping, Tuning, TuningSystem } from '@/types/audio';
+
+const C4 = 261.6256;
+
+function tuning(system: TuningSystem, overrides: Partial<Tuning> = {}): Tuning {
+  return { ...defaultTuning(), system, ...overrides };
+}
+
+const BOHLEN_PIERCE = `! bp.scl
+!
+Bohlen-Pierce, equal-tempered
+ 2
+!
+ 950.0
+ 3/1
+`;
+
+const A432_MAPPING = `! a432.kbm
+12
+0
+100
+60
+69
+432.0
+12
+! mapping
+0
+x
+2
+3
+4
+5
+6
+7
+8
+9
+10
+11
+`;
+
+function mapping(overrides: Partial<KeyboardMapping> = {}): KeyboardMapping {
+  return { ...parseKeyboardMapping(A432_MAPPING, 'a432.kbm'), ...overrides };
+}
+
+describe('defaultTuning', () => {
+  it('is 12-TET at A4 = 440 Hz, which synths can play as note names', () => {
+    expect(defaultTuning()).toEqual({ system: 'equal', referenceFrequency: 440, scale: null, keyboardMapping: null });
+    expect(isStandardTuning(defaultTuning())).toBe(true);
+    expect(isStandardTuning(tuning('just'))).toBe(false);
+    expect(isStandardTuning(tuning('equal', { referenceFrequency: 432 }))).toBe(false);
+    expect(isStandardTuning(tuning('equal', { keyboardMapping: mapping() }))).toBe(false);
+  });
+
+  it('clones scales and mappings deeply', () => {
+    const original = tuning('scala', {
+      scale: parseScalaScale(BOHLEN_PIERCE, 'bp.scl'),
+      keyboardMapping: mapping(),
+    });
+    const copy = cloneTuning(original);
+    expect(copy).toEqual(original);
+    expect(copy.scale!.cents).not.toBe(original.scale!.cents);
+    expect(copy.keyboardMapping!.mapping).not.toBe(original.keyboardMapping!.mapping);
+  });
+});
+
+describe('tuningSteps', () => {
+  it('divides the octave equally for the EDOs', () => {
+    expect(tuningSteps(tuning('edo19')).steps).toHaveLength(19);
+    expect(tuningSteps(tuning('edo24')).steps[1]).toBeCloseTo(50);
+    expect(tuningSteps(tuning('edo31')).period).toBe(1200);
+  });
+
+  it('uses a Scala scale’s last pitch as its period', () => {
+    const scale = parseScalaScale(BOHLEN_PIERCE, 'bp.scl');
+    const { steps, period } = tuningSteps(tuning('scala', { scale }));
+    expect(steps).toEqual([0, 950]);
+    expect(period).toBeCloseTo(ratioToCents(3));
+  });
+
+  it('falls back to 12-TET for the Scala system without a scale', () => {
+    expect(tuningSteps(tuning('scala')).steps).toHaveLength(12);
+  });
+});
+
+describe('tunedFrequency', () => {
+  it('matches 12-TET for the standard tuning', () => {
+    expect(tunedFrequency('A4', 'C', defaultTuning())).toBeCloseTo(440);
+    expect(tunedFrequency('C4', 'G', defaultTuning())).toBeCloseTo(C4);
+  });
+
+  it('moves every note with the A4 reference', () => {
+    expect(tunedFrequency('A4', 'C', tuning('equal', { referenceFrequency: 432 }))).toBeCloseTo(432);
+  });
+
+  it('tunes just and Pythagorean intervals above the star’s key', () => {
+    expect(tunedFrequency('E4', 'C', tuning('just'))).toBeCloseTo(C4 * (5 / 4));
+    expect(tunedFrequency('E4', 'C', tuning('pythagorean'))).toBeCloseTo(C4 * (81 / 64));
+    expect(tunedFrequency('E5', 'A', tuning('just'))).toBeCloseTo(660);
+    expect(tunedFrequency('G3', 'C', tuning('just'))).toBeCloseTo((C4 * (3 / 2)) / 2);
+  });
+
+  it('keeps the tonic at its 12-TET pitch', () => {
+    expect(tunedFrequency('D4', 'D', tuning('just'))).toBeCloseTo(293.665);
+    expect(tunedFrequency('D4', 'D', tuning('edo31'))).toBeCloseTo(293.665);
+  });
+
+  it('snaps to the nearest EDO step', () => {
+    expect(tunedFrequency('E4', 'C', tuning('edo24'))).toBeCloseTo(329.628);
+    expect(tunedFrequency('E4', 'C', tuning('edo19'))).toBeCloseTo(C4 * Math.pow(2, 6 / 19));
+  });
+
+  it('repeats a Scala scale at its period instead of the octave', () => {
+    const scale = parseScalaScale(BOHLEN_PIERCE, 'bp.scl');
+    expect(tunedFrequency('C5', 'C', tuning('scala', { scale }))).toBeCloseTo(C4 * 3);
+    expect(tunedFrequency('A4', 'C', tuning('scala', { scale }))).toBeCloseTo(C4 * Math.pow(2, 950 / 1200));
+  });
+
+  it('follows a keyboard mapping’s reference and leaves unmapped keys silent', () => {
+    const mapped = tuning('equal', { keyboardMapping: mapping() });
+    expect(tunedFrequency('A4', 'C', mapped)).toBeCloseTo(432);
+    expect(tunedFrequency('A5', 'G', mapped)).toBeCloseTo(864);
+    expect(tunedFrequency('C#4', 'C', mapped)).toBeNull();
+    expect(tunedFrequency('C8', 'C', mapped)).toBeNull();
+  });
+
+  it('maps keys linearly for a mapping of size 0', () => {
+    const linear = tuning('edo24', { keyboardMapping: mapping({ size: 0, mapping: [] }) });
+    expect(tunedFrequency('A#4', 'C', linear)).toBeCloseTo(432 * Math.pow(2, 50 / 1200));
+  });
+});
+
+describe('parseScalaScale', () => {
+  it('reads the description, ratios and cents, skipping comments', () => {
+    expect(parseScalaScale(BOHLEN_PIERCE, 'bp.scl')).toEqual({
+      name: 'bp.scl',
+      description: 'Bohlen-Pierce, equal-tempered',
+      cents: [950, ratioToCents(3)],
+    });
+  });
+
+  it('treats a bare integer as a ratio', () => {
+    expect(parseScalaScale('Octave\n1\n2\n', 'o.scl').cents).toEqual([1200]);
+  });
+
+  it('reports malformed files with their line numbers', () => {
+    expect(() => parseScalaScale('! only a comment', 'a.scl')).toThrow(/missing the note count/);
+    expect(() => parseScalaScale('x\nmany\n', 'a.scl')).toThrow(/a.scl line 2: note count/);
+    expect(() => parseScalaScale('x\n3\n100.0\n', 'a.scl')).toThrow(/expected 3 pitches, found 1/);
+    expect(() => parseScalaScale('x\n1\nfifth\n', 'a.scl')).toThrow(/line 3: "fifth" is not a pitch/);
+    expect(() => parseScalaScale('x\n2\n700.0\n200.0\n', 'a.scl')).toThrow(/line 4: pitches must ascend/);
+    expect(() => parseScalaScale('x\n1\n-100.0\n', 'a.scl')).toThrow(/above the tonic/);
+  });
+});
+
+describe('parseKeyboardMapping', () => {
+  it('reads the header and mapping, with x for unmapped keys', () => {
+    expect(mapping()).toEqual({
+      name: 'a432.kbm',
+      size: 12,
+      firstNote: 0,
+      lastNote: 100,
+      middleNote: 60,
+      referenceNote: 69,
+      referenceFrequency: 432,
+      octaveDegree: 12,
+      mapping: [0, null, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+    });
+  });
+
+  it('leaves keys the file doesn’t list unmapped', () => {
+    expect(parseKeyboardMapping('2\n0\n127\n60\n69\n440.0\n12\n0\n', 'a.kbm').mapping).toEqual([0, null]);
+  });
+
+  it('reports malformed files', () => {
+    expect(() => parseKeyboardMapping('12\n0\n127\n', 'a.kbm')).toThrow(/expected 7 header values/);
+    expect(() => parseKeyboardMapping('12\n0\n127\n60\n69\n-5\n12\n', 'a.kbm')).toThrow(
+      /a.kbm line 6: reference frequency must be a frequency above 0/
+    );
+    expect(() => parseKeyboardMapping('0\n100\n20\n60\n69\n440.0\n12\n', 'a.kbm')).toThrow(/first note is above/);
+    expect(() => parseKeyboardMapping('1\n0\n127\n60\n69\n440.0\n12\n-1\n', 'a.kbm')).toThrow(
+      /line 8: mapping entries/
+    );
+  });
+});
+
+describe('readTextFile', () => {
+  it('reads a file as text', async () => {
+    const file = new File([BOHLEN_PIERCE], 'bp.scl', { type: 'text/plain' });
+    expect(await readTextFile(file)).toBe(BOHLEN_PIERCE);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { encodeWav, WAV_BIT_DEPTHS } from '@/lib/audio/wav';
+
+function ascii(view: DataView, offset: number, length: number): string {
+  return String.fromCharCode(
+    ...Array.from({ length }, (_, i) => view.getUint8(offset + i))
+  );
+}
+
+function readInt24(view: DataView, offset: number): number {
+  const value =
+    view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16);
+  return value & 0x800000 ? value - 0x1000000 : value;
+}
+
+describe('encodeWav', () => {
+  it('supports 16- and 24-bit output', () => {
+    expect(WAV_BIT_DEPTHS).toEqual([16, 24]);
+  });
+
+  it('writes a RIFF/WAVE PCM header', () => {
+    const left = new Float32Array(10);
+    const right = new Float32Array(10);
+    const view = new DataView(encodeWav([left, right], 44100, 16));
+
+    expect(ascii(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 40);
+    expect(ascii(view, 8, 4)).toBe('WAVE');
+    expect(ascii(view, 12, 4)).toBe('fmt ');
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint32(28, true)).toBe(44100 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(ascii(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(40);
+    expect(view.byteLength).toBe(44 + 40);
+  });
+
+  it('interleaves 16-bit samples channel by channel', () => {
+    const left = new Float32Array([1, 0]);
+    const right = new Float32Array([-1, 0.5]);
+    const view = new DataView(encodeWav([left, right], 8000, 16));
+
+    expect(view.getInt16(44, true)).toBe(32767);
+    expect(view.getInt16(46, true)).toBe(-32767);
+    expect(view.getInt16(48, true)).toBe(0);
+    expect(view.getInt16(50, true)).toBe(Math.round(0.5 * 32767));
+  });
+
+  it('writes 24-bit little-endian samples', () => {
+    const view = new DataView(encodeWav([new Float32Array([1, -1, -0.25])], 8000, 24));
+
+    expect(view.getUint16(32, true)).toBe(3);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(view.getUint32(40, true)).toBe(9);
+    expect(readInt24(view, 44)).toBe(8388607);
+    expect(readInt24(view, 47)).toBe(-8388607);
+    expect(readInt24(view, 50)).toBe(Math.round(-0.25 * 8388607));
+  });
+
+  it('clips samples outside [-1, 1]', () => {
+    const view = new DataView(encodeWav([new Float32Array([3, -3])], 8000));
+    expect(view.getInt16(44, true)).toBe(32767);
+    expect(view.getInt16(46, true)).toBe(-32767);
+  });
+
+  it('throws with no channels or mismatched channel lengths', () => {
+    expect(() => encodeWav([], 44100)).toThrow();
+    expect(() => encodeWav([new Float32Array(2), new Float32Array(3)], 44100)).toThrow();
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Matter from 'matter-js';
+import {
+  createComet,
+  updateComet,
+  getCometNote,
+  cometVolume,
+  cometTrajectoryLabel,
+  restoreComet,
+  resetCometIdCounter,
+  shatterComet,
+  cometFragmentCount,
+  impactVolume,
+  SHATTER_MIN_FRAGMENTS,
+  SHATTER_MAX_FRAGMENTS,
+  COMET_DEFAULT_MASS,
+  COMET_DEFAULT_NOTE,
+  COMET_MAX_MASS,
+  ESCAPE_SPEED_FACTOR,
+} from '@/lib/entities/comet';
+import { createStar, resetStarIdCounter } from '@/lib/entities/star';
+import { createPlanet, resetPlanetIdCounter } from '@/lib/entities/planet';
+import { circularOrbitSpeed } from '@/utils/physics';
+import type { Star } from '@/types/celestial';
+import type { CometApproachTarget } from '@/lib/entities/comet';
+
+let star: Star;
+
+beforeEach(() => {
+  resetCometIdCounter();
+  resetStarIdCounter();
+  star = createStar({ x: 0, y: 0, bpm: 120, key: 'C', mode: 'Ionian' });
+});
+
+function speedOf(v: { x: number; y: number }): number {
+  return Math.sqrt(v.x * v.x + v.y * v.y);
+}
+
+describe('createComet', () => {
+  it('creates a comet with default values', () => {
+    const comet = createComet({ x: 200, y: 0 });
+    expect(comet.type).toBe('comet');
+    expect(comet.id).toBe('comet-1');
+    expect(comet.mass).toBe(COMET_DEFAULT_MASS);
+    expect(comet.note).toBe(COMET_DEFAULT_NOTE);
+    expect(comet.nearbyBodyIds).toEqual([]);
+    expect(comet.physicsBody).not.toBeNull();
+  });
+
+  it('has zero velocity without a star', () => {
+    const comet = createComet({ x: 200, y: 0 });
+    expect(speedOf(comet.velocity)).toBe(0);
+  });
+
+  it('scales circular orbit speed by speedFactor', () => {
+    const circular = circularOrbitSpeed(star.mass, 200);
+    const slow = createComet({ x: 200, y: 0, star, speedFactor: 0.5 });
+    const fast = createComet({ x: 200, y: 0, star, speedFactor: 1.5 });
+    expect(speedOf(slow.velocity)).toBeCloseTo(circular * 0.5);
+    expect(speedOf(fast.velocity)).toBeCloseTo(circular * 1.5);
+  });
+
+  it('launches tangentially to the star', () => {
+    const comet = createComet({ x: 200, y: 0, star });
+    // Position is on the +x axis, so a tangential velocity has no x component
+    expect(comet.velocity.x).toBeCloseTo(0);
+    expect(Math.abs(comet.velocity.y)).toBeGreaterThan(0);
+  });
+
+  it('uses an explicit velocity instead of the star-relative launch', () => {
+    const comet = createComet({ x: 200, y: 0, star, velocity: { x: 3, y: -1 } });
+    expect(comet.velocity.x).toBeCloseTo(3);
+    expect(comet.velocity.y).toBeCloseTo(-1);
+  });
+});
+
+describe('updateComet', () => {
+  const planetTarget: CometApproachTarget = { id: 'planet-1', position: { x: 100, y: 0 }, radius: 10 };
+
+  it('syncs position from the physics body', () => {
+    const comet = createComet({ x: 500, y: 0 });
+    Matter.Body.setPosition(comet.physicsBody!, { x: 400, y: 50 });
+    const { comet: updated } = updateComet(comet, []);
+    expect(updated.position).toEqual({ x: 400, y: 50 });
+  });
+
+  it('triggers when entering a body\'s trigger radius', () => {
+    const comet = createComet({ x: 130, y: 0, triggerRadius: 40 });
+    const result = updateComet(comet, [planetTarget]);
+    expect(result.triggered).toBe(true);
+    expect(result.approachedBodyIds).toEqual(['planet-1']);
+    expect(result.comet.nearbyBodyIds).toEqual(['planet-1']);
+  });
+
+  it('does not trigger outside the trigger radius', () => {
+    const comet = createComet({ x: 300, y: 0, triggerRadius: 40 });
+    const result = updateComet(comet, [planetTarget]);
+    expect(result.triggered).toBe(false);
+    expect(result.comet.nearbyBodyIds).toEqual([]);
+  });
+
+  it('fires only once per approach', () => {
+    const comet = createComet({ x: 130, y: 0, triggerRadius: 40 });
+    const first = updateComet(comet, [planetTarget]);
+    const second = updateComet(first.comet, [planetTarget]);
+    expect(second.triggered).toBe(false);
+  });
+
+  it('triggers again after leaving and coming back', () => {
+    const comet = createComet({ x: 130, y: 0, triggerRadius: 40 });
+    const inside = updateComet(comet, [planetTarget]);
+    Matter.Body.setPosition(inside.comet.physicsBody!, { x: 400, y: 0 });
+    const outside = updateComet(inside.comet, [planetTarget]);
+    expect(outside.comet.nearbyBodyIds).toEqual([]);
+    Matter.Body.setPosition(outside.comet.physicsBody!, { x: 130, y: 0 });
+    expect(updateComet(outside.comet, [planetTarget]).triggered).toBe(true);
+  });
+});
+
+describe('getCometNote', () => {
+  it('resolves the scale degree in the star key', () => {
+    const comet = createComet({ x: 200, y: 0, note: 'V4' });
+    expect(getCometNote(comet, star)).toBe('G4');
+  });
+
+  it('returns null for an invalid degree', () => {
+    const comet = { ...createComet({ x: 200, y: 0 }), note: 'X9' as never };
+    expect(getCometNote(comet, star)).toBeNull();
+  });
+});
+
+describe('cometVolume', () => {
+  it('scales with mass and reaches full volume at the max mass', () => {
+    expect(cometVolume(COMET_MAX_MASS)).toBe(1);
+    expect(cometVolume(5)).toBeLessThan(cometVolume(25));
+  });
+
+  it('never drops below the minimum audible volume', () => {
+    expect(cometVolume(0)).toBeGreaterThan(0);
+  });
+});
+
+describe('cometTrajectoryLabel', () => {
+  it('labels escape speeds as hyperbolic', () => {
+    expect(cometTrajectoryLabel(ESCAPE_SPEED_FACTOR)).toBe('Hyperbolic');
+  });
+
+  it('labels near-circular and eccentric speeds', () => {
+    expect(cometTrajectoryLabel(1)).toBe('Circular');
+    expect(cometTrajectoryLabel(0.7)).toBe('Eccentric');
+    expect(cometTrajectoryLabel(1.3)).toBe('Eccentric');
+  });
+});
+
+describe('cometFragmentCount', () => {
+  it('stays within the fragment bounds', () => {
+    expect(cometFragmentCount(1)).toBe(SHATTER_MIN_FRAGMENTS);
+    expect(cometFragmentCount(10_000)).toBe(SHATTER_MAX_FRAGMENTS);
+  });
+
+  it('grows with mass', () => {
+    expect(cometFragmentCount(50)).toBeGreaterThan(cometFragmentCount(5));
+  });
+});
+
+describe('shatterComet', () => {
+  beforeEach(() => resetPlanetIdCounter());
+
+  it('targets the hit planet with one fragment per count', () => {
+    const planet = createPlanet({ x: 0, y: 0 });
+    const comet = createComet({ x: 10, y: 0, mass: 30 });
+    const fragments = shatterComet(comet, planet, 2);
+    expect(fragments).toHaveLength(cometFragmentCount(30));
+    for (const f of fragments) expect(f.parentPlanetId).toBe(planet.id);
+  });
+
+  it('throws debris into wider orbits on faster impacts', () => {
+    const planet = createPlanet({ x: 0, y: 0 });
+    const comet = createComet({ x: 10, y: 0 });
+    const slow = shatterComet(comet, planet, 1);
+    const fast = shatterComet(comet, planet, 8);
+    expect(fast[0].orbitRadius).toBeGreaterThan(slow[0].orbitRadius);
+  });
+
+  it('starts the first fragment on the impact side and spreads the rest evenly', () => {
+    const planet = createPlanet({ x: 0, y: 0 });
+    const comet = createComet({ x: 0, y: 10, mass: 10 });
+    const fragments = shatterComet(comet, planet, 2);
+    expect(fragments[0].startAngle).toBeCloseTo(Math.PI / 2);
+    expect(fragments[1].startAngle! - fragments[0].startAngle!).toBeCloseTo(
+      (2 * Math.PI) / fragments.length
+    );
+  });
+
+  it('respects maxFragments', () => {
+    const planet = createPlanet({ x: 0, y: 0 });
+    const comet = createComet({ x: 10, y: 0, mass: 50 });
+    expect(shatterComet(comet, planet, 2, 1)).toHaveLength(1);
+    expect(shatterComet(comet, planet, 2, 0)).toHaveLength(0);
+  });
+});
+
+describe('impactVolume', () => {
+  it('is louder for faster impacts and capped at 1', () => {
+    expect(impactVolume(8)).toBeGreaterThan(impactVolume(2));
+    expect(impactVolume(1000)).toBe(1);
+  });
+});
+
+describe('restoreComet', () => {
+  it('recreates a physics body at the saved position and velocity', () => {
+    const comet = createComet({ x: 200, y: 0, star });
+    const { physicsBody: _body, ...saved } = comet;
+    const restored = restoreComet(saved);
+    expect(restored.physicsBody).not.toBe(comet.physicsBody);
+    expect(restored.physicsBody!.position.x).toBeCloseTo(200);
+    expect(restored.physicsBody!.velocity.y).toBeCloseTo(comet.velocity.y);
+  });
+
+  it('advances the id counter past the restored id', () => {
+    const { physicsBody: _body, ...saved } = createComet({ x: 200, y: 0 });
+    restoreComet({ ...saved, id: 'comet-7' });
+    expect(createComet({ x: 0, y: 0 }).id).toBe('comet-8');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Matter from 'matter-js';
+import {
+  createDustBurst,
+  updateDust,
+  findDustCapture,
+  shouldCullDust,
+  resetDustIdCounter,
+  DUST_BURST_SIZE,
+  DUST_MIN_MASS,
+  DUST_MAX_MASS,
+  DUST_SETTLE_MS,
+  DUST_MAX_AGE_MS,
+} from '@/lib/entities/dust';
+import { createStar, resetStarIdCounter } from '@/lib/entities/star';
+import { createPlanet, resetPlanetIdCounter } from '@/lib/entities/planet';
+import { SYNTH_TYPES } from '@/lib/audio/synthManager';
+import { isValidScaleDegree } from '@/lib/audio/scales';
+import { createRng } from '@/utils/random';
+import { distance } from '@/utils/physics';
+import type { DustParticle, Star } from '@/types/celestial';
+
+let star: Star;
+
+beforeEach(() => {
+  resetDustIdCounter();
+  resetStarIdCounter();
+  resetPlanetIdCounter();
+  star = createStar({ x: 0, y: 0, bpm: 120, key: 'C', mode: 'Ionian' });
+});
+
+/** A single dust particle at `position` moving at `velocity`. */
+function dustAt(
+  position: { x: number; y: number },
+  velocity: { x: number; y: number },
+  ageMs = 0
+): DustParticle {
+  const [particle] = createDustBurst({ center: position, count: 1 });
+  return { ...particle, position, velocity, ageMs };
+}
+
+describe('createDustBurst', () => {
+  it('creates DUST_BURST_SIZE particles by default', () => {
+    const burst = createDustBurst({ center: { x: 0, y: 0 } });
+    expect(burst).toHaveLength(DUST_BURST_SIZE);
+    expect(burst[0].id).toBe('dust-1');
+    expect(burst[0].type).toBe('dust');
+  });
+
+  it('scatters particles near the centre with random velocities', () => {
+    const burst = createDustBurst({ center: { x: 100, y: 50 }, count: 10 });
+    for (const d of burst) {
+      expect(distance(d.position, { x: 100, y: 50 })).toBeLessThanOrEqual(30);
+      expect(d.mass).toBeGreaterThanOrEqual(DUST_MIN_MASS);
+      expect(d.mass).toBeLessThanOrEqual(DUST_MAX_MASS);
+      expect(d.physicsBody!.velocity.x).toBeCloseTo(d.velocity.x);
+    }
+    expect(new Set(burst.map((d) => d.velocity.x)).size).toBe(10);
+  });
+
+  it('rolls a synth and note for each particle', () => {
+    for (const d of createDustBurst({ center: { x: 0, y: 0 }, count: 5 })) {
+      expect(SYNTH_TYPES).toContain(d.synthType);
+      expect(d.note).toMatch(/^[IV]+[45]$/);
+    }
+  });
+
+  it('only rolls degrees of the given mode\'s scale', () => {
+    for (const d of createDustBurst({ center: { x: 0, y: 0 }, count: 20, mode: 'MajorPentatonic' })) {
+      expect(isValidScaleDegree(d.note, 'MajorPentatonic')).toBe(true);
+    }
+  });
+
+  it('is reproducible with a seeded rng', () => {
+    const strip = (burst: DustParticle[]) =>
+      burst.map(({ position, velocity, synthType, note }) => ({ position, velocity, synthType, note }));
+    const a = createDustBurst({ center: { x: 0, y: 0 }, count: 4, rng: createRng('dust') });
+    const b = createDustBurst({ center: { x: 0, y: 0 }, count: 4, rng: createRng('dust') });
+    expect(strip(a)).toEqual(strip(b));
+  });
+
+  it('never collides with other dust', () => {
+    const [a, b] = createDustBurst({ center: { x: 0, y: 0 }, count: 2 });
+    expect(Matter.Detector.canCollide(a.physicsBody!.collisionFilter, b.physicsBody!.collisionFilter)).toBe(false);
+  });
+});
+
+describe('updateDust', () => {
+  it('syncs from the physics body and ages the particle', () => {
+    const particle = dustAt({ x: 0, y: 0 }, { x: 0, y: 0 });
+    Matter.Body.setPosition(particle.physicsBody!, { x: 40, y: 20 });
+    const updated = updateDust(particle, 16);
+    expect(updated.position).toEqual({ x: 40, y: 20 });
+    expect(updated.ageMs).toBe(16);
+  });
+});
+
+describe('findDustCapture', () => {
+  it('captures slow dust near a planet as a satellite at its current distance', () => {
+    const planet = createPlanet({ x: 200, y: 0 });
+    const capture = findDustCapture(dustAt({ x: 200, y: -40 }, { x: 0, y: 0 }), star, [planet]);
+    expect(capture).toEqual({
+      kind: 'planet',
+      satellite: { parentPlanetId: planet.id, orbitRadius: 40, startAngle: -Math.PI / 2 },
+    });
+  });
+
+  it('ignores planets that are too far away', () => {
+    const planet = createPlanet({ x: 200, y: 0 });
+    expect(findDustCapture(dustAt({ x: 200, y: -500 }, { x: 50, y: 0 }), star, [planet])).toBeNull();
+  });
+
+  it('does not capture dust moving faster than the planet escape speed', () => {
+    const planet = createPlanet({ x: 200, y: 0 });
+    expect(findDustCapture(dustAt({ x: 200, y: -40 }, { x: 30, y: 0 }), star, [planet])).toBeNull();
+  });
+
+  it('captures settled dust bound to the star', () => {
+    expect(findDustCapture(dustAt({ x: 300, y: 0 }, { x: 0, y: 1 }, DUST_SETTLE_MS), star, [])).toEqual({
+      kind: 'star',
+    });
+  });
+
+  it('waits for dust to settle before the star captures it', () => {
+    expect(findDustCapture(dustAt({ x: 300, y: 0 }, { x: 0, y: 1 }), star, [])).toBeNull();
+  });
+
+  it('does not capture dust on an escape trajectory', () => {
+    expect(findDustCapture(dustAt({ x: 300, y: 0 }, { x: 40, y: 0 }, DUST_SETTLE_MS), star, [])).toBeNull();
+  });
+});
+
+describe('shouldCullDust', () => {
+  const bounds = { minX: -400, minY: -300, maxX: 400, maxY: 300 };
+
+  it('keeps dust inside the bounds plus margin', () => {
+    expect(shouldCullDust(dustAt({ x: 450, y: 0 }, { x: 0, y: 0 }), bounds, 100)).toBe(false);
+  });
+
+  it('culls dust beyond the margin on any side', () => {
+    expect(shouldCullDust(dustAt({ x: 550, y: 0 }, { x: 0, y: 0 }), bounds, 100)).toBe(true);
+    expect(shouldCullDust(dustAt({ x: 0, y: -450 }, { x: 0, y: 0 }), bounds, 100)).toBe(true);
+  });
+
+  it('culls dust that has outlived its maximum age', () => {
+    expect(shouldCullDust(dustAt({ x: 0, y: 0 }, { x: 0, y: 0 }, DUST_MAX_AGE_MS + 1), bounds)).toBe(true);
+  });
+});
@@ -3,10 +3,14 @@ import {
   createPlanet,
   updatePlanet,
   getCurrentNote,
+  getCurrentNotes,
   didCrossZero,
+  zeroCrossingFraction,
   setPlanetNoteSequence,
   setPlanetRotationSpeed,
   resetPlanetIdCounter,
+  restorePlanet,
+  syncPlanetRotation,
   PLANET_DEFAULT_MASS,
   MAX_PLANETS,
 } from '@/lib/entities/planet';
@@ -127,6 +131,23 @@ describe('didCrossZero', () => {
   });
 });
 
+describe('zeroCrossingFraction', () => {
+  it('interpolates where in the tick the angle hit zero', () => {
+    expect(zeroCrossingFraction(-0.1, 0.1)).toBeCloseTo(0.5);
+    expect(zeroCrossingFraction(-0.3, 0.1)).toBeCloseTo(0.75);
+    expect(zeroCrossingFraction(0.05, -0.15)).toBeCloseTo(0.25);
+  });
+
+  it('normalises angles that have wound past ±π', () => {
+    expect(zeroCrossingFraction(Math.PI * 2 - 0.1, 0.1)).toBeCloseTo(0.5);
+  });
+
+  it('stays within the tick', () => {
+    expect(zeroCrossingFraction(0, 0.2)).toBe(0);
+    expect(zeroCrossingFraction(-0.2, 0)).toBe(1);
+  });
+});
+
 describe('getCurrentNote', () => {
   it('returns the current scale degree as a note name', () => {
     const planet = createPlanet({ x: 100, y: 0, noteSequence: 'I4 V4' });
@@ -144,6 +165,37 @@ describe('getCurrentNote', () => {
     const advanced = { ...planet, currentNoteIndex: 1 };
     expect(getCurrentNote(advanced, star)).toBe('G4'); // V4 in C = G4
   });
+
+  it('rests on a degree the star\'s scale does not have', () => {
+    const planet = createPlanet({ x: 100, y: 0, noteSequence: 'VII4' });
+    expect(getCurrentNote(planet, { ...star, mode: 'MajorPentatonic' })).toBeNull();
+  });
+
+  it('returns the first note of a chord and null for a rest', () => {
+    const planet = createPlanet({ x: 100, y: 0, noteSequence: '[III4 V4] -' });
+    expect(getCurrentNote(planet, star)).toBe('E4');
+    expect(getCurrentNote({ ...planet, currentNoteIndex: 1 }, star)).toBeNull();
+  });
+});
+
+describe('getCurrentNotes', () => {
+  it('returns every note of the current step with its velocity', () => {
+    const planet = createPlanet({ x: 100, y: 0, noteSequence: '[I4 bIII4!0.5] -' });
+    expect(getCurrentNotes(planet, star)).toEqual([
+      { note: 'C4', velocity: 1 },
+      { note: 'Eb4', velocity: 0.5 },
+    ]);
+    expect(getCurrentNotes({ ...planet, currentNoteIndex: 1 }, star)).toEqual([]);
+  });
+
+  it('follows the chord the star\'s progression is on', () => {
+    const planet = createPlanet({ x: 100, y: 0, noteSequence: '[I4 III4]' });
+    const progression = { chords: ['I', 'vi'], barsPerChord: 1, follow: 'root' as const };
+    const onVi = { ...star, progression, beat: 4 };
+    expect(getCurrentNotes(planet, onVi).map((n) => n.note)).toEqual(['A4', 'C5']);
+    const snapped = { ...onVi, progression: { ...progression, follow: 'snap' as const } };
+    expect(getCurrentNotes(planet, snapped).map((n) => n.note)).toEqual(['C4', 'E4']);
+  });
 });
 
 describe('setPlanetNoteSequence', () => {
@@ -155,10 +207,27 @@ describe('setPlanetNoteSequence', () => {
     expect(updated.currentNoteIndex).toBe(0);
   });
 
-  it('filters invalid scale degrees', () => {
+  it('stores the expanded steps of the note sequence language', () => {
+    const planet = createPlanet({ x: 100, y: 0 });
+    const updated = setPlanetNoteSequence(planet, '(I4 -)x2 [I4 III V]!0.5');
+    expect(updated.noteSequence).toEqual(['I4', '-', 'I4', '-', '[I4!0.5 III4!0.5 V4!0.5]']);
+  });
+
+  it('throws for an invalid sequence instead of dropping what it can\'t read', () => {
+    const planet = createPlanet({ x: 100, y: 0 });
+    expect(() => setPlanetNoteSequence(planet, 'I4 INVALID V4')).toThrow(/"INVALID" is not a scale degree/);
+  });
+
+  it('throws for degrees outside the given mode\'s scale', () => {
     const planet = createPlanet({ x: 100, y: 0 });
-    const updated = setPlanetNoteSequence(planet, 'I4 INVALID V4');
-    expect(updated.noteSequence).toEqual(['I4', 'V4']);
+    expect(() => setPlanetNoteSequence(planet, 'I4 VI4 V4', 'Pelog')).toThrow(/VI is not in the 5-note Pelog/);
+  });
+
+  it('keeps degrees past the star\'s scale when creating a planet around it, resting on them', () => {
+    const pentatonic = { ...star, mode: 'MinorPentatonic' as const };
+    const planet = createPlanet({ x: 100, y: 0, noteSequence: 'I4 VII4 III4', star: pentatonic });
+    expect(planet.noteSequence).toEqual(['I4', 'VII4', 'III4']);
+    expect(getCurrentNotes({ ...planet, currentNoteIndex: 1 }, pentatonic)).toEqual([]);
   });
 });
 
@@ -181,3 +250,50 @@ describe('MAX_PLANETS', () => {
     expect(MAX_PLANETS).toBe(20);
   });
 });
+
+describe('restorePlanet', () => {
+  it('recreates a physics body at the saved position and velocity', () => {
+    const planet = createPlanet({ x: 150, y: 0, star });
+    const { physicsBody: _body, ...saved } = planet;
+    const restored = restorePlanet(saved);
+    expect(restored.physicsBody).not.toBe(planet.physicsBody);
+    expect(restored.physicsBody!.position.x).toBeCloseTo(150);
+    expect(restored.physicsBody!.velocity.y).toBeCloseTo(planet.velocity.y);
+  });
+
+  it('keeps the saved id and advances the id counter past it', () => {
+    const planet = createPlanet({ x: 100, y: 0 });
+    const { physicsBody: _body, ...saved } = planet;
+    resetPlanetIdCounter();
+    const restored = restorePlanet({ ...saved, id: 'planet-9' });
+    expect(restored.id).toBe('planet-9');
+    expect(createPlanet({ x: 0, y: 0 }).id).toBe('planet-10');
+  });
+});
+
+describe('syncPlanetRotation', () => {
+  it('snaps rotation forward to the next bar boundary', () => {
+    // Quarter notes: four full turns per bar
+    const planet = { ...createPlanet({ x: 100, y: 0, rotationSpeed: 'quarter' }), rotation: 1 };
+    const synced = syncPlanetRotation(planet, star);
+    expect(synced.rotation).toBeCloseTo(8 * Math.PI);
+  });
+
+  it('uses one turn per bar for whole notes', () => {
+    const planet = { ...createPlanet({ x: 100, y: 0, rotationSpeed: 'whole' }), rotation: 2 * Math.PI + 0.5 };
+    expect(syncPlanetRotation(planet, star).rotation).toBeCloseTo(4 * Math.PI);
+  });
+
+  it('leaves a planet already on a bar boundary alone', () => {
+    const planet = createPlanet({ x: 100, y: 0 });
+    expect(syncPlanetRotation(planet, star).rotation).toBe(0);
+  });
+
+  it('puts planets with different speeds in phase', () => {
+    const a = syncPlanetRotation({ ...createPlanet({ x: 100, y: 0, rotationSpeed: 'eighth' }), rotation: 3 }, star);
+    const b = syncPlanetRotation({ ...createPlanet({ x: 200, y: 0, rotationSpeed: 'half' }), rotation: 7 }, star);
+    const phase = (r: number) => r % (2 * Math.PI);
+    expect(phase(a.rotation)).toBeCloseTo(0);
+    expect(phase(b.rotation)).toBeCloseTo(0);
+  });
+});
@@ -3,13 +3,24 @@ import {
   createSatellite,
   updateSatellite,
   didCrossTop,
+  topCrossingFraction,
   decayPulse,
   satelliteVolume,
   orbitPeriodMs,
   resetSatelliteIdCounter,
+  restoreSatellite,
+  snapSatelliteToGrid,
+  planetHillRadius,
+  findHandoffPlanet,
+  handOffSatellite,
+  satelliteNote,
+  satelliteSample,
   MAX_SATELLITES,
   SATELLITE_VISUAL_RADIUS,
+  SATELLITE_MAX_ECCENTRICITY,
 } from '@/lib/entities/satellite';
+import { createPlanet, getCurrentNote, resetPlanetIdCounter } from '@/lib/entities/planet';
+import { createStar } from '@/lib/entities/star';
 
 beforeEach(() => {
   resetSatelliteIdCounter();
@@ -148,6 +159,110 @@ describe('updateSatellite', () => {
   });
 });
 
+describe('elliptical orbits', () => {
+  const parent = { x: 0, y: 0 };
+
+  function distanceFromParent(sat: ReturnType<typeof createSatellite>): number {
+    return Math.sqrt(sat.position.x ** 2 + sat.position.y ** 2);
+  }
+
+  function ellipse(options: { startAngle?: number; argumentOfPeriapsis?: number; triggerPoint?: 'top' | 'periapsis' } = {}) {
+    return createSatellite({
+      parentPlanetId: 'p1',
+      parentPosition: parent,
+      orbitRadius: 40,
+      eccentricity: 0.5,
+      ...options,
+    });
+  }
+
+  it('defaults to a circular orbit triggering at 12 o\'clock', () => {
+    const sat = createSatellite({ parentPlanetId: 'p1', parentPosition: parent, orbitRadius: 30 });
+    expect(sat.eccentricity).toBe(0);
+    expect(sat.argumentOfPeriapsis).toBe(0);
+    expect(sat.triggerPoint).toBe('top');
+  });
+
+  it('clamps eccentricity to the allowed range', () => {
+    const sat = createSatellite({ parentPlanetId: 'p1', parentPosition: parent, orbitRadius: 30, eccentricity: 2 });
+    expect(sat.eccentricity).toBe(SATELLITE_MAX_ECCENTRICITY);
+  });
+
+  it('starts at the placement angle, at the right distance from the focus', () => {
+    const atPeriapsis = ellipse();
+    expect(atPeriapsis.position.x).toBeCloseTo(20);
+    expect(atPeriapsis.position.y).toBeCloseTo(0);
+
+    const atApoapsis = ellipse({ startAngle: Math.PI });
+    expect(atApoapsis.position.x).toBeCloseTo(-60);
+    expect(atApoapsis.position.y).toBeCloseTo(0);
+  });
+
+  it('moves between periapsis and apoapsis distances', () => {
+    let sat = ellipse();
+    let min = Infinity;
+    let max = 0;
+    const period = (2 * Math.PI) / sat.orbitSpeed;
+    for (let t = 0; t < period; t += 16) {
+      sat = updateSatellite(sat, parent, 16).satellite;
+      min = Math.min(min, distanceFromParent(sat));
+      max = Math.max(max, distanceFromParent(sat));
+    }
+    expect(min).toBeCloseTo(20, 0);
+    expect(max).toBeCloseTo(60, 0);
+  });
+
+  it('is louder near periapsis than near apoapsis', () => {
+    const { triggerVolume: near } = updateSatellite(ellipse(), parent, 1);
+    const { triggerVolume: far } = updateSatellite(ellipse({ startAngle: Math.PI }), parent, 1);
+    expect(near).toBeGreaterThan(far);
+  });
+
+  it('fires once per orbit on passing periapsis', () => {
+    let sat = ellipse({ startAngle: Math.PI, triggerPoint: 'periapsis' });
+    const period = (2 * Math.PI) / sat.orbitSpeed;
+    const triggerTimes: number[] = [];
+    for (let t = 16; t <= period * 2; t += 16) {
+      const result = updateSatellite(sat, parent, 16);
+      sat = result.satellite;
+      if (result.triggered) triggerTimes.push(t);
+    }
+    expect(triggerTimes).toHaveLength(2);
+    // Starting from apoapsis, periapsis is half an orbit away
+    expect(Math.abs(triggerTimes[0] - period / 2)).toBeLessThanOrEqual(16);
+  });
+
+  it('reports the exact periapsis passage time within the tick', () => {
+    let sat = ellipse({ startAngle: Math.PI, triggerPoint: 'periapsis' });
+    const period = (2 * Math.PI) / sat.orbitSpeed;
+    for (let t = 16; t <= period; t += 16) {
+      const result = updateSatellite(sat, parent, 16);
+      sat = result.satellite;
+      if (result.triggered) {
+        expect(t - 16 + result.triggerFraction * 16).toBeCloseTo(period / 2, 6);
+        return;
+      }
+    }
+    throw new Error('periapsis was never passed');
+  });
+
+  it('still fires at 12 o\'clock with the default trigger point', () => {
+    let sat = ellipse({ argumentOfPeriapsis: 1, startAngle: 1 });
+    const period = (2 * Math.PI) / sat.orbitSpeed;
+    let fired = 0;
+    for (let t = 0; t < period; t += 16) {
+      const result = updateSatellite(sat, parent, 16);
+      sat = result.satellite;
+      if (result.triggered) {
+        fired++;
+        expect(Math.abs(sat.position.x)).toBeLessThan(10);
+        expect(sat.position.y).toBeLessThan(0);
+      }
+    }
+    expect(fired).toBe(1);
+  });
+});
+
 describe('didCrossTop', () => {
   const TWO_PI = Math.PI * 2;
 
@@ -170,6 +285,23 @@ describe('didCrossTop', () => {
   });
 });
 
+describe('topCrossingFraction', () => {
+  const TWO_PI = Math.PI * 2;
+
+  it('interpolates a wrap-around crossing', () => {
+    expect(topCrossingFraction(TWO_PI - 0.05, 0.05)).toBeCloseTo(0.5);
+    expect(topCrossingFraction(TWO_PI - 0.03, 0.01)).toBeCloseTo(0.75);
+  });
+
+  it('treats entering the window without reaching the top as the end of the tick', () => {
+    expect(topCrossingFraction(0.5, 0.05)).toBe(1);
+  });
+
+  it('reports 0 when the satellite did not move', () => {
+    expect(topCrossingFraction(0.1, 0.1)).toBe(0);
+  });
+});
+
 describe('decayPulse', () => {
   it('reduces pulse over time', () => {
     expect(decayPulse(1.0, 16)).toBeLessThan(1.0);
@@ -220,3 +352,186 @@ describe('constants', () => {
     expect(SATELLITE_VISUAL_RADIUS).toBeGreaterThan(0);
   });
 });
+
+describe('restoreSatellite', () => {
+  it('keeps saved orbit state without a physics body', () => {
+    const sat = createSatellite({
+      parentPlanetId: 'planet-1',
+      parentPosition: { x: 0, y: 0 },
+      orbitRadius: 40,
+      startAngle: 1,
+    });
+    const { physicsBody: _body, ...saved } = sat;
+    const restored = restoreSatellite(saved);
+    expect(restored.physicsBody).toBeNull();
+    expect(restored.orbitRadius).toBe(40);
+    expect(restored.orbitAngle).toBe(1);
+  });
+
+  it('advances the id counter past the restored id', () => {
+    resetSatelliteIdCounter();
+    restoreSatellite({
+      id: 'satellite-12',
+      type: 'satellite',
+      parentPlanetId: 'planet-1',
+      position: { x: 0, y: 0 },
+      orbitRadius: 30,
+      orbitAngle: 0,
+      orbitSpeed: 0.001,
+      eccentricity: 0,
+      argumentOfPeriapsis: 0,
+      triggerPoint: 'top',
+      lastTriggerAngle: 0,
+      sampleId: null,
+    });
+    const next = createSatellite({
+      parentPlanetId: 'planet-1',
+      parentPosition: { x: 0, y: 0 },
+      orbitRadius: 30,
+    });
+    expect(next.id).toBe('satellite-13');
+  });
+});
+
+describe('snapSatelliteToGrid', () => {
+  const parent = { x: 0, y: 0 };
+  const gridMs = 125; // 16th note at 120 BPM
+
+  function msToTop(sat: ReturnType<typeof createSatellite>): number {
+    const remaining = (((-Math.PI / 2 - sat.orbitAngle) % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+    return remaining / sat.orbitSpeed;
+  }
+
+  it('puts the next trigger on a whole grid slot', () => {
+    const sat = createSatellite({ parentPlanetId: 'p', parentPosition: parent, orbitRadius: 30, startAngle: 0.3 });
+    const snapped = snapSatelliteToGrid(sat, parent, gridMs);
+    const slots = msToTop(snapped) / gridMs;
+    expect(slots).toBeCloseTo(Math.round(slots));
+  });
+
+  it('nudges by at most half a slot', () => {
+    const sat = createSatellite({ parentPlanetId: 'p', parentPosition: parent, orbitRadius: 30, startAngle: 0.3 });
+    const snapped = snapSatelliteToGrid(sat, parent, gridMs);
+    const nudgeMs = Math.abs(snapped.orbitAngle - sat.orbitAngle) / sat.orbitSpeed;
+    expect(nudgeMs).toBeLessThanOrEqual(gridMs / 2 + 1e-6);
+  });
+
+  it('moves the position onto the new angle', () => {
+    const sat = createSatellite({ parentPlanetId: 'p', parentPosition: parent, orbitRadius: 30, startAngle: 0.3 });
+    const snapped = snapSatelliteToGrid(sat, parent, gridMs);
+    expect(snapped.position.x).toBeCloseTo(Math.cos(snapped.orbitAngle) * 30);
+    expect(snapped.position.y).toBeCloseTo(Math.sin(snapped.orbitAngle) * 30);
+  });
+
+  it('snaps the periapsis passage of a periapsis-triggered satellite', () => {
+    const sat = createSatellite({
+      parentPlanetId: 'p',
+      parentPosition: parent,
+      orbitRadius: 30,
+      startAngle: 2,
+      eccentricity: 0.4,
+      argumentOfPeriapsis: 0.5,
+      triggerPoint: 'periapsis',
+    });
+    const snapped = snapSatelliteToGrid(sat, parent, gridMs);
+    const remaining =
+      (((snapped.argumentOfPeriapsis - snapped.orbitAngle) % (2 * Math.PI)) + 2 * Math.PI) %
+      (2 * Math.PI);
+    const slots = remaining / snapped.orbitSpeed / gridMs;
+    expect(slots).toBeCloseTo(Math.round(slots));
+  });
+
+  it('pushes a trigger due right now to the first slot', () => {
+    const sat = createSatellite({ parentPlanetId: 'p', parentPosition: parent, orbitRadius: 30, startAngle: -Math.PI / 2 });
+    const snapped = snapSatelliteToGrid(sat, parent, gridMs);
+    expect(msToTop(snapped)).toBeCloseTo(gridMs);
+  });
+});
+
+describe('satellite hand-off', () => {
+  beforeEach(() => resetPlanetIdCounter());
+
+  const star = createStar({ x: 0, y: 0 });
+
+  function satelliteAt(parentPlanetId: string, x: number, y: number) {
+    const sat = createSatellite({ parentPlanetId, parentPosition: { x: 0, y: 0 }, orbitRadius: 30 });
+    return { ...sat, position: { x, y } };
+  }
+
+  it('gives farther and heavier planets larger Hill spheres', () => {
+    const near = createPlanet({ x: 150, y: 0 });
+    const far = createPlanet({ x: 300, y: 0 });
+    const heavy = createPlanet({ x: 150, y: 0, mass: 800 });
+    expect(planetHillRadius(far, star)).toBeGreaterThan(planetHillRadius(near, star));
+    expect(planetHillRadius(heavy, star)).toBeGreaterThan(planetHillRadius(near, star));
+  });
+
+  it('hands a satellite to a planet it sits deeper inside', () => {
+    const parent = createPlanet({ x: 150, y: 0 });
+    const rival = createPlanet({ x: 250, y: 0 });
+    const sat = satelliteAt(parent.id, 200, 0);
+    expect(findHandoffPlanet(sat, parent, [parent, rival], star)).toBe(rival);
+  });
+
+  it('keeps a satellite that is deeper in its own parent', () => {
+    const parent = createPlanet({ x: 150, y: 0 });
+    const rival = createPlanet({ x: 250, y: 0 });
+    const sat = satelliteAt(parent.id, 180, 0);
+    expect(findHandoffPlanet(sat, parent, [parent, rival], star)).toBeNull();
+  });
+
+  it('ignores planets whose Hill sphere the satellite is outside', () => {
+    const parent = createPlanet({ x: 150, y: 0 });
+    const rival = createPlanet({ x: 800, y: 0 });
+    const sat = satelliteAt(parent.id, 300, 0);
+    expect(findHandoffPlanet(sat, parent, [parent, rival], star)).toBeNull();
+  });
+
+  it('re-parents the satellite around its current position', () => {
+    const rival = createPlanet({ x: 250, y: 0 });
+    const sat = satelliteAt('planet-x', 250, -40);
+    const handed = handOffSatellite(sat, rival);
+    expect(handed.parentPlanetId).toBe(rival.id);
+    expect(handed.orbitRadius).toBeCloseTo(40);
+    expect(handed.orbitAngle).toBeCloseTo(-Math.PI / 2);
+    expect(handed.orbitSpeed).toBeCloseTo((2 * Math.PI) / orbitPeriodMs(40));
+    expect(handed.position).toEqual(sat.position);
+  });
+
+  it('forgets the sample it played on the old parent', () => {
+    const rival = createPlanet({ x: 250, y: 0 });
+    const sat = { ...satelliteAt('planet-x', 250, -40), sampleId: 'sample-1' };
+    expect(handOffSatellite(sat, rival).sampleId).toBeNull();
+  });
+
+  it('circularises an elliptical orbit', () => {
+    const rival = createPlanet({ x: 250, y: 0 });
+    const sat = { ...satelliteAt('planet-x', 250, -40), eccentricity: 0.6 };
+    expect(handOffSatellite(sat, rival).eccentricity).toBe(0);
+  });
+});
+
+describe('satelliteNote', () => {
+  const star = createStar({ x: 0, y: 0 });
+  const kick = { id: 'sample-1', name: 'Kick', note: 'C3', url: 'data:audio/wav;base64,AAAA' };
+
+  it('plays the chosen sample’s root note on a Sampler parent', () => {
+    const parent = createPlanet({ x: 150, y: 0, synthType: 'Sampler', samples: [kick] });
+    const sat = { ...createSatellite({ parentPlanetId: parent.id, parentPosition: parent.position, orbitRadius: 30 }), sampleId: 'sample-1' };
+    expect(satelliteNote(sat, parent, star)).toBe('C3');
+  });
+
+  it('falls back to the parent’s current note without a matching sample', () => {
+    const parent = createPlanet({ x: 150, y: 0, synthType: 'Sampler', samples: [kick] });
+    const sat = { ...createSatellite({ parentPlanetId: parent.id, parentPosition: parent.position, orbitRadius: 30 }), sampleId: 'sample-9' };
+    expect(satelliteNote(sat, parent, star)).toBe(getCurrentNote(parent, star));
+    expect(satelliteNote({ ...sat, sampleId: null }, parent, star)).toBe(getCurrentNote(parent, star));
+  });
+
+  it('only finds the sample on a Sampler parent', () => {
+    const sampler = createPlanet({ x: 150, y: 0, synthType: 'Sampler', samples: [kick] });
+    const sat = { ...createSatellite({ parentPlanetId: sampler.id, parentPosition: sampler.position, orbitRadius: 30 }), sampleId: 'sample-1' };
+    expect(satelliteSample(sat, sampler)).toEqual(kick);
+    expect(satelliteSample(sat, { ...sampler, synthType: 'Synth' })).toBeUndefined();
+  });
+});
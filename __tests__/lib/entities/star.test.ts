@@ -3,12 +3,22 @@ import {
   createStar,
   setStarBpm,
   setStarKey,
+  setStarMass,
+  setStarTuning,
+  setStarProgression,
+  advanceStarBeat,
+  syncStarBeat,
   resetStarIdCounter,
+  restoreStar,
   STAR_DEFAULT_BPM,
   STAR_DEFAULT_MASS,
+  STAR_MIN_MASS,
+  STAR_MAX_MASS,
   STAR_VISUAL_RADIUS,
 } from '@/lib/entities/star';
 import { KEY_SEMITONE, MODE_INTERVALS } from '@/lib/audio/scales';
+import { defaultTuning } from '@/lib/audio/tuning';
+import { defaultProgression } from '@/lib/audio/progression';
 
 beforeEach(() => {
   resetStarIdCounter();
@@ -22,6 +32,9 @@ describe('createStar', () => {
     expect(star.bpm).toBe(STAR_DEFAULT_BPM);
     expect(star.position.x).toBe(0);
     expect(star.position.y).toBe(0);
+    expect(star.tuning).toEqual(defaultTuning());
+    expect(star.progression).toBeNull();
+    expect(star.beat).toBe(0);
   });
 
   it('assigns a unique id', () => {
@@ -114,6 +127,54 @@ describe('setStarKey', () => {
   });
 });
 
+describe('setStarMass', () => {
+  it('updates mass within the allowed range', () => {
+    const star = createStar();
+    expect(setStarMass(star, 80000).mass).toBe(80000);
+    expect(setStarMass(star, 1).mass).toBe(STAR_MIN_MASS);
+    expect(setStarMass(star, 1e9).mass).toBe(STAR_MAX_MASS);
+  });
+
+  it('keeps the same physics body', () => {
+    const star = createStar();
+    expect(setStarMass(star, 80000).physicsBody).toBe(star.physicsBody);
+  });
+});
+
+describe('setStarTuning', () => {
+  it('replaces the tuning with a copy', () => {
+    const star = createStar();
+    const tuning = { ...defaultTuning(), system: 'edo19' as const, referenceFrequency: 432 };
+    const updated = setStarTuning(star, tuning);
+    expect(updated.tuning).toEqual(tuning);
+    expect(updated.tuning).not.toBe(tuning);
+    expect(star.tuning.system).toBe('equal');
+  });
+});
+
+describe('setStarProgression', () => {
+  it('replaces the progression with a copy, keeping the beat', () => {
+    const star = { ...createStar(), beat: 6 };
+    const progression = defaultProgression();
+    const updated = setStarProgression(star, progression);
+    expect(updated.progression).toEqual(progression);
+    expect(updated.progression!.chords).not.toBe(progression.chords);
+    expect(updated.beat).toBe(6);
+    expect(setStarProgression(updated, null).progression).toBeNull();
+  });
+});
+
+describe('advanceStarBeat / syncStarBeat', () => {
+  it('counts beats at the star BPM', () => {
+    expect(advanceStarBeat(createStar({ bpm: 120 }), 1500).beat).toBe(3);
+  });
+
+  it('snaps the beat forward to the next bar line', () => {
+    expect(syncStarBeat({ ...createStar(), beat: 5.5 }).beat).toBe(8);
+    expect(syncStarBeat({ ...createStar(), beat: 8 }).beat).toBe(8);
+  });
+});
+
 describe('STAR constants', () => {
   it('STAR_DEFAULT_BPM is 120', () => {
     expect(STAR_DEFAULT_BPM).toBe(120);
@@ -127,3 +188,29 @@ describe('STAR constants', () => {
     expect(STAR_DEFAULT_MASS).toBeGreaterThan(1000);
   });
 });
+
+describe('restoreStar', () => {
+  it('recreates a static body and keeps saved properties', () => {
+    const star = createStar({ x: 10, y: 20, bpm: 90, key: 'A', mode: 'Aeolian' });
+    const { physicsBody: _body, ...saved } = star;
+    const restored = restoreStar(saved);
+    expect(restored.physicsBody).not.toBe(star.physicsBody);
+    expect(restored.physicsBody!.isStatic).toBe(true);
+    expect(restored.bpm).toBe(90);
+    expect(restored.key).toBe('A');
+  });
+
+  it('copies a saved progression', () => {
+    const { physicsBody: _body, ...saved } = createStar({ progression: defaultProgression() });
+    const restored = restoreStar(saved);
+    expect(restored.progression).toEqual(defaultProgression());
+    expect(restored.progression).not.toBe(saved.progression);
+  });
+
+  it('advances the id counter past the restored id', () => {
+    const { physicsBody: _body, ...saved } = createStar();
+    resetStarIdCounter();
+    restoreStar({ ...saved, id: 'star-4' });
+    expect(createStar().id).toBe('star-5');
+  });
+});
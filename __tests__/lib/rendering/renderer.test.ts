@@ -4,13 +4,16 @@ import {
   drawStar,
   drawPlanet,
   drawSatellite,
+  drawComet,
+  drawDust,
   drawOrbitPath,
   drawAuMarkers,
   renderScene,
   planetRadiusFromMass,
+  cometRadiusFromMass,
   AU_WORLD_UNITS,
 } from '@/lib/rendering/renderer';
-import { createViewport } from '@/lib/rendering/viewport';
+import { createViewport, worldToScreen } from '@/lib/rendering/viewport';
 
 // ─── Mock canvas context ──────────────────────────────────────────────────────
 
@@ -29,6 +32,7 @@ function makeCtx() {
     fillText: vi.fn(),
     beginPath: vi.fn(),
     arc: vi.fn(),
+    ellipse: vi.fn(),
     fill: vi.fn(),
     stroke: vi.fn(),
     moveTo: vi.fn(),
@@ -171,6 +175,71 @@ describe('drawSatellite', () => {
   });
 });
 
+describe('cometRadiusFromMass', () => {
+  it('returns at least 2 for any mass', () => {
+    expect(cometRadiusFromMass(0)).toBe(2);
+  });
+
+  it('is smaller than a planet of the same mass', () => {
+    expect(cometRadiusFromMass(50)).toBeLessThan(planetRadiusFromMass(50));
+  });
+});
+
+describe('drawComet', () => {
+  it('draws the nucleus', () => {
+    const ctx = makeCtx();
+    drawComet(ctx, { position: { x: 100, y: 0 }, radius: 3 }, VP);
+    expect(ctx.arc).toHaveBeenCalledTimes(1);
+    expect(ctx.lineTo).not.toHaveBeenCalled();
+  });
+
+  it('draws a tail pointing away from the star', () => {
+    const ctx = makeCtx();
+    drawComet(
+      ctx,
+      { position: { x: 100, y: 0 }, radius: 3, starPosition: { x: 0, y: 0 } },
+      VP
+    );
+    // Tail apex is the first lineTo; it lies further from the star than the nucleus
+    const nucleus = (ctx.arc as ReturnType<typeof vi.fn>).mock.calls[0];
+    const apex = (ctx.lineTo as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(apex[0]).toBeGreaterThan(nucleus[0]);
+    expect(apex[1]).toBeCloseTo(nucleus[1]);
+  });
+
+  it('draws a longer tail closer to the star', () => {
+    const tailLength = (x: number) => {
+      const ctx = makeCtx();
+      drawComet(ctx, { position: { x, y: 0 }, radius: 3, starPosition: { x: 0, y: 0 } }, VP);
+      const nucleus = (ctx.arc as ReturnType<typeof vi.fn>).mock.calls[0];
+      const apex = (ctx.lineTo as ReturnType<typeof vi.fn>).mock.calls[0];
+      return apex[0] - nucleus[0];
+    };
+    expect(tailLength(AU_WORLD_UNITS)).toBeGreaterThan(tailLength(AU_WORLD_UNITS * 4));
+  });
+
+  it('draws pulse glow when triggerPulse > 0', () => {
+    const ctx = makeCtx();
+    drawComet(ctx, { position: { x: 100, y: 0 }, radius: 3, triggerPulse: 1 }, VP);
+    expect(ctx.arc).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('drawDust', () => {
+  it('draws a single speck', () => {
+    const ctx = makeCtx();
+    drawDust(ctx, { position: { x: 10, y: 10 }, radius: 1.5 }, VP);
+    expect(ctx.arc).toHaveBeenCalledTimes(1);
+    expect(ctx.fill).toHaveBeenCalled();
+  });
+
+  it('stays at least one pixel across when zoomed out', () => {
+    const ctx = makeCtx();
+    drawDust(ctx, { position: { x: 0, y: 0 }, radius: 1.5 }, { ...VP, zoom: 0.1 });
+    expect((ctx.arc as ReturnType<typeof vi.fn>).mock.calls[0][2]).toBe(1);
+  });
+});
+
 describe('drawOrbitPath', () => {
   it('draws a circle arc for the orbit', () => {
     const ctx = makeCtx();
@@ -200,6 +269,20 @@ describe('drawOrbitPath', () => {
     drawOrbitPath(ctx, { x: 0, y: 0 }, 100, VP, false);
     expect(ctx.setLineDash).toHaveBeenCalledWith([]);
   });
+
+  it('draws an ellipse with the center at one focus when eccentric', () => {
+    const ctx = makeCtx();
+    drawOrbitPath(ctx, { x: 0, y: 0 }, 100, VP, true, 0.6, 0);
+    expect(ctx.arc).not.toHaveBeenCalled();
+    const focus = worldToScreen({ x: 0, y: 0 }, VP);
+    const [cx, cy, rx, ry, rotation] = (ctx.ellipse as ReturnType<typeof vi.fn>).mock.calls[0];
+    // Periapsis points right, so the ellipse centre is shifted left by a·e
+    expect(cx).toBeCloseTo(focus.x - 60 * VP.zoom);
+    expect(cy).toBeCloseTo(focus.y);
+    expect(rx).toBeCloseTo(100 * VP.zoom);
+    expect(ry).toBeCloseTo(80 * VP.zoom);
+    expect(rotation).toBe(0);
+  });
 });
 
 describe('drawAuMarkers', () => {
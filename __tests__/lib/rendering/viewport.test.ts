@@ -8,6 +8,7 @@ import {
   applyPan,
   resetViewport,
   resizeViewport,
+  visibleWorldBounds,
   ZOOM_MIN,
   ZOOM_MAX,
 } from '@/lib/rendering/viewport';
@@ -195,3 +196,19 @@ describe('resizeViewport', () => {
     expect(resized.pan.x).toBe(50);
   });
 });
+
+describe('visibleWorldBounds', () => {
+  it('is centred on the origin at default zoom and pan', () => {
+    expect(visibleWorldBounds(createViewport(800, 600))).toEqual({
+      minX: -400,
+      minY: -300,
+      maxX: 400,
+      maxY: 300,
+    });
+  });
+
+  it('shrinks when zoomed in and follows the pan', () => {
+    const vp = { ...createViewport(800, 600), zoom: 2, pan: { x: 100, y: 0 } };
+    expect(visibleWorldBounds(vp)).toEqual({ minX: -300, minY: -150, maxX: 100, maxY: 150 });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Mock Tone.js — no Web Audio in jsdom
+vi.mock('tone', () => {
+  const makeSynth = () => ({
+    triggerAttackRelease: vi.fn(),
+    triggerAttack: vi.fn(),
+    connect: vi.fn().mockReturnThis(),
+    dispose: vi.fn(),
+  });
+  return {
+    PolySynth: vi.fn().mockImplementation(makeSynth),
+    Synth: vi.fn(),
+    AMSynth: vi.fn(),
+    FMSynth: vi.fn(),
+    DuoSynth: vi.fn(),
+    MonoSynth: vi.fn(),
+    MembraneSynth: vi.fn().mockImplementation(makeSynth),
+    MetalSynth: vi.fn().mockImplementation(makeSynth),
+    PluckSynth: vi.fn().mockImplementation(makeSynth),
+    NoiseSynth: vi.fn().mockImplementation(makeSynth),
+    Volume: vi.fn().mockImplementation(() => ({
+      volume: { value: 0, setValueAtTime: vi.fn() },
+      toDestination: vi.fn().mockReturnThis(),
+      connect: vi.fn().mockReturnThis(),
+      dispose: vi.fn(),
+    })),
+    Panner: vi.fn().mockImplementation(() => ({
+      pan: { value: 0, setValueAtTime: vi.fn() },
+      toDestination: vi.fn().mockReturnThis(),
+      dispose: vi.fn(),
+    })),
+    now: vi.fn().mockReturnValue(0),
+    getTransport: vi.fn().mockReturnValue({ bpm: { value: 120 }, start: vi.fn(), stop: vi.fn(), pause: vi.fn() }),
+    getDestination: vi.fn().mockReturnValue({ volume: { value: 0 } }),
+    start: vi.fn().mockResolvedValue(undefined),
+    getContext: vi.fn().mockReturnValue({ state: 'running' }),
+    loaded: vi.fn().mockResolvedValue(undefined),
+    Offline: vi.fn(async (callback: () => void, duration: number, channels: number, sampleRate: number) => {
+      callback();
+      const frames = Math.round(duration * sampleRate);
+      return {
+        sampleRate,
+        toArray: () => Array.from({ length: channels }, () => new Float32Array(frames)),
+      };
+    }),
+  };
+});
+
+import * as Tone from 'tone';
+import { createSimulation, addStar, addPlanet, addSatellite } from '@/lib/simulation/simulation';
+import { serializeSimulation } from '@/lib/simulation/serialization';
+import {
+  bounceDurationSeconds,
+  bounceFilename,
+  collectBounceEvents,
+  renderSolarSystemWav,
+  BOUNCE_MAX_SECONDS,
+  BOUNCE_TAIL_SECONDS,
+} from '@/lib/simulation/bounce';
+import { resetSatelliteIdCounter } from '@/lib/entities/satellite';
+import { resetStarIdCounter } from '@/lib/entities/star';
+import { resetPlanetIdCounter } from '@/lib/entities/planet';
+import type { SolarSystemState } from '@/types/celestial';
+
+beforeEach(() => {
+  resetStarIdCounter();
+  resetPlanetIdCounter();
+  resetSatelliteIdCounter();
+});
+
+function buildState(): SolarSystemState {
+  let sim = createSimulation();
+  sim = addStar(sim, { bpm: 120 });
+  sim = addPlanet(sim, { x: 150, y: 0, rotationSpeed: 'quarter', noteSequence: 'I4 III4 V4' });
+  sim = addPlanet(sim, { x: 250, y: 0, rotationSpeed: 'eighth', synthType: 'FMSynth' });
+  sim = addSatellite(sim, {
+    parentPlanetId: sim.solarSystem.planets[0].id,
+    orbitRadius: 30,
+    startAngle: 0,
+  });
+  return serializeSimulation(sim);
+}
+
+describe('bounceDurationSeconds', () => {
+  it('converts 4/4 bars at the star BPM', () => {
+    expect(bounceDurationSeconds(120, 4, 'bars')).toBeCloseTo(8);
+    expect(bounceDurationSeconds(60, 1, 'bars')).toBeCloseTo(4);
+  });
+
+  it('passes seconds through', () => {
+    expect(bounceDurationSeconds(120, 12.5, 'seconds')).toBe(12.5);
+  });
+
+  it('rejects non-positive and over-long lengths', () => {
+    expect(() => bounceDurationSeconds(120, 0, 'bars')).toThrow();
+    expect(() => bounceDurationSeconds(120, NaN, 'seconds')).toThrow();
+    expect(() => bounceDurationSeconds(120, BOUNCE_MAX_SECONDS + 1, 'seconds')).toThrow();
+  });
+});
+
+describe('collectBounceEvents', () => {
+  it('records notes within the bounce, in time order', () => {
+    const events = collectBounceEvents(buildState(), { length: 2, unit: 'bars' });
+    expect(events.length).toBeGreaterThan(0);
+    for (let i = 1; i < events.length; i++) {
+      expect(events[i].time).toBeGreaterThanOrEqual(events[i - 1].time);
+    }
+    expect(events[events.length - 1].time).toBeLessThan(4);
+    expect(events.every((e) => e.voiceId.startsWith('planet-'))).toBe(true);
+  });
+
+  it('is deterministic for the same state', () => {
+    const state = buildState();
+    const first = collectBounceEvents(state, { length: 3, unit: 'seconds' });
+    const second = collectBounceEvents(state, { length: 3, unit: 'seconds' });
+    expect(second).toEqual(first);
+  });
+
+  it('throws without a star', () => {
+    const state = { ...buildState(), star: null };
+    expect(() => collectBounceEvents(state, { length: 1, unit: 'bars' })).toThrow();
+  });
+});
+
+describe('renderSolarSystemWav', () => {
+  it('renders the bounce plus a tail into a stereo WAV', async () => {
+    const wav = await renderSolarSystemWav(buildState(), {
+      length: 1,
+      unit: 'seconds',
+      bitDepth: 24,
+    });
+    expect(Tone.Offline).toHaveBeenCalledWith(
+      expect.any(Function),
+      1 + BOUNCE_TAIL_SECONDS,
+      2,
+      44100
+    );
+    const view = new DataView(wav);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(view.getUint32(40, true)).toBe(44100 * 3 * 2 * 3);
+  });
+});
+
+describe('bounceFilename', () => {
+  it('uses the .wav extension', () => {
+    expect(bounceFilename(buildState())).toMatch(/^solar-system-.*\.wav$/);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import {
+  migrateSolarSystemState,
+  compareVersions,
+  MIGRATIONS,
+  LEGACY_STATE_VERSION,
+  SOLAR_SYSTEM_STATE_VERSION,
+} from '@/lib/simulation/migrations';
+import type { StateMigration } from '@/lib/simulation/migrations';
+import { defaultSynthPatch } from '@/lib/audio/patches';
+import { defaultTuning } from '@/lib/audio/tuning';
+
+describe('compareVersions', () => {
+  it('orders numerically, not lexically', () => {
+    expect(compareVersions('1.10.0', '1.2.0')).toBeGreaterThan(0);
+    expect(compareVersions('1.2.0', '1.10.0')).toBeLessThan(0);
+  });
+
+  it('treats missing components as zero', () => {
+    expect(compareVersions('1', '1.0.0')).toBe(0);
+  });
+});
+
+describe('MIGRATIONS', () => {
+  it('forms a contiguous chain ending at the current version', () => {
+    let version = LEGACY_STATE_VERSION;
+    for (const step of MIGRATIONS) {
+      expect(step.from).toBe(version);
+      version = step.to;
+    }
+    expect(version).toBe(SOLAR_SYSTEM_STATE_VERSION);
+  });
+});
+
+describe('migrateSolarSystemState', () => {
+  it('leaves a current-version state untouched', () => {
+    const state = { version: SOLAR_SYSTEM_STATE_VERSION, planets: [] };
+    expect(migrateSolarSystemState(state)).toEqual(state);
+  });
+
+  it('treats a missing version as legacy and stamps the current version', () => {
+    const migrated = migrateSolarSystemState({ planets: [], satellites: [] });
+    expect(migrated.version).toBe(SOLAR_SYSTEM_STATE_VERSION);
+    expect(migrated.timeScale).toBe(1);
+    expect(migrated.gravityStrength).toBe(1);
+    expect(migrated.star).toBeNull();
+  });
+
+  it('splits legacy string note sequences and fills planet defaults', () => {
+    const migrated = migrateSolarSystemState({
+      planets: [{ id: 'planet-1', noteSequence: ' I4  V3 ' }],
+    });
+    const planet = (migrated.planets as Record<string, unknown>[])[0];
+    expect(planet.noteSequence).toEqual(['I4', 'V3']);
+    expect(planet.currentNoteIndex).toBe(0);
+    expect(planet.velocity).toEqual({ x: 0, y: 0 });
+    expect(planet.type).toBe('planet');
+  });
+
+  it('does not overwrite fields a legacy file already has', () => {
+    const migrated = migrateSolarSystemState({
+      timeScale: 3,
+      planets: [{ id: 'planet-1', rotation: 1.5 }],
+    });
+    expect(migrated.timeScale).toBe(3);
+    expect((migrated.planets as Record<string, unknown>[])[0].rotation).toBe(1.5);
+  });
+
+  it('adds an empty comets array to 1.0.0 files', () => {
+    const migrated = migrateSolarSystemState({ version: '1.0.0', planets: [], satellites: [] });
+    expect(migrated.comets).toEqual([]);
+    expect(migrated.version).toBe(SOLAR_SYSTEM_STATE_VERSION);
+  });
+
+  it('turns satellite hand-off off for 1.1.0 files', () => {
+    const migrated = migrateSolarSystemState({ version: '1.1.0', planets: [], comets: [] });
+    expect(migrated.satelliteHandoff).toBe(false);
+    expect(migrated.version).toBe(SOLAR_SYSTEM_STATE_VERSION);
+  });
+
+  it('makes 1.2.0 satellites circular, triggering at 12 o\'clock', () => {
+    const migrated = migrateSolarSystemState({
+      version: '1.2.0',
+      satellites: [{ id: 'satellite-1', orbitRadius: 30 }],
+    });
+    expect((migrated.satellites as Record<string, unknown>[])[0]).toEqual({
+      id: 'satellite-1',
+      orbitRadius: 30,
+      eccentricity: 0,
+      argumentOfPeriapsis: 0,
+      triggerPoint: 'top',
+      sampleId: null,
+    });
+  });
+
+  it('adds an empty MIDI binding list to 1.3.0 files', () => {
+    const migrated = migrateSolarSystemState({ version: '1.3.0', planets: [] });
+    expect(migrated.midiBindings).toEqual([]);
+    expect(migrated.version).toBe(SOLAR_SYSTEM_STATE_VERSION);
+  });
+
+  it('gives 1.4.0 planets an empty effects chain', () => {
+    const migrated = migrateSolarSystemState({
+      version: '1.4.0',
+      planets: [{ id: 'planet-1' }, { id: 'planet-2', effects: [{ id: 'reverb-1' }] }],
+    });
+    expect(migrated.planets).toMatchObject([
+      { id: 'planet-1', effects: [], modulations: [] },
+      { id: 'planet-2', effects: [{ id: 'reverb-1' }], modulations: [] },
+    ]);
+  });
+
+  it('gives 1.5.0 planets an empty modulation matrix', () => {
+    const migrated = migrateSolarSystemState({ version: '1.5.0', planets: [{ id: 'planet-1', effects: [] }] });
+    expect(migrated.planets).toMatchObject([{ id: 'planet-1', effects: [], modulations: [] }]);
+  });
+
+  it('gives 1.6.0 files full stereo width with satellite panning off', () => {
+    const migrated = migrateSolarSystemState({ version: '1.6.0', planets: [] });
+    expect(migrated.stereoWidth).toBe(1);
+    expect(migrated.satellitePanning).toBe(false);
+  });
+
+  it('gives 1.7.0 planets their synth type\'s default patch and adds an empty preset library', () => {
+    const migrated = migrateSolarSystemState({
+      version: '1.7.0',
+      planets: [{ id: 'planet-1', synthType: 'MonoSynth' }, { id: 'planet-2', synthType: 'Theremin' }],
+    });
+    expect(migrated.presets).toEqual([]);
+    expect(migrated.planets).toMatchObject([
+      { id: 'planet-1', synthType: 'MonoSynth', patch: defaultSynthPatch('MonoSynth') },
+      { id: 'planet-2', synthType: 'Theremin', patch: defaultSynthPatch('Synth') },
+    ]);
+  });
+
+  it('gives 1.8.0 planets no samples and satellites no sample', () => {
+    const migrated = migrateSolarSystemState({
+      version: '1.8.0',
+      planets: [{ id: 'planet-1' }],
+      satellites: [{ id: 'satellite-1' }],
+    });
+    expect(migrated.planets).toEqual([{ id: 'planet-1', samples: [] }]);
+    expect(migrated.satellites).toEqual([{ id: 'satellite-1', sampleId: null }]);
+  });
+
+  it('tunes 1.9.0 stars to 12-TET at A4 = 440 Hz', () => {
+    const migrated = migrateSolarSystemState({ version: '1.9.0', star: { id: 'star-1' } });
+    expect(migrated.star).toMatchObject({ id: 'star-1', tuning: defaultTuning() });
+    expect(migrateSolarSystemState({ version: '1.9.0', star: null }).star).toBeNull();
+  });
+
+  it('gives 1.10.0 stars no chord progression', () => {
+    const migrated = migrateSolarSystemState({ version: '1.10.0', star: { id: 'star-1' } });
+    expect(migrated.star).toEqual({ id: 'star-1', progression: null, beat: 0 });
+  });
+
+  it('gives 1.11.0 systems an empty timeline', () => {
+    expect(migrateSolarSystemState({ version: '1.11.0' }).timeline).toEqual([]);
+  });
+
+  it('starts 1.12.0 timelines afresh, with no revolutions, glide or origin', () => {
+    const migrated = migrateSolarSystemState({ version: '1.12.0', timeline: [] });
+    expect(migrated).toMatchObject({ timelineRevolutions: 0, bpmGlide: null, timelineOrigin: null });
+  });
+
+  it('throws for a version newer than supported', () => {
+    expect(() => migrateSolarSystemState({ version: '99.0.0' })).toThrow(/newer version/);
+  });
+
+  it('throws when no migration path exists', () => {
+    expect(() => migrateSolarSystemState({ version: '0.5.0' })).toThrow(/No migration/);
+  });
+
+  it('throws for a non-string version', () => {
+    expect(() => migrateSolarSystemState({ version: 1 })).toThrow(/must be a string/);
+  });
+
+  it('walks a multi-step chain in order', () => {
+    const chain: StateMigration[] = [
+      { from: '0.0.0', to: '0.5.0', migrate: (s) => ({ ...s, steps: ['a'] }) },
+      {
+        from: '0.5.0',
+        to: SOLAR_SYSTEM_STATE_VERSION,
+        migrate: (s) => ({ ...s, steps: [...(s.steps as string[]), 'b'] }),
+      },
+    ];
+    const migrated = migrateSolarSystemState({}, chain);
+    expect(migrated.steps).toEqual(['a', 'b']);
+    expect(migrated.version).toBe(SOLAR_SYSTEM_STATE_VERSION);
+  });
+});
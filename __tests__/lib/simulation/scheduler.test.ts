@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const transport = {
+  bpm: { value: 120 },
+  state: 'stopped',
+  start: vi.fn(),
+  stop: vi.fn(),
+  pause: vi.fn(),
+  scheduleRepeat: vi.fn().mockReturnValue(7),
+  clear: vi.fn(),
+};
+
+// Mock Tone.js — no Web Audio in jsdom
+vi.mock('tone', () => ({
+  PolySynth: vi.fn().mockImplementation(() => ({
+    triggerAttackRelease: vi.fn(),
+    connect: vi.fn().mockReturnThis(),
+    dispose: vi.fn(),
+  })),
+  Synth: vi.fn(),
+  AMSynth: vi.fn(),
+  FMSynth: vi.fn(),
+  DuoSynth: vi.fn(),
+  MonoSynth: vi.fn(),
+  MembraneSynth: vi.fn(),
+  MetalSynth: vi.fn(),
+  PluckSynth: vi.fn(),
+  NoiseSynth: vi.fn(),
+  Volume: vi.fn().mockImplementation(() => ({
+    volume: { value: 0, setValueAtTime: vi.fn() },
+    toDestination: vi.fn().mockReturnThis(),
+    connect: vi.fn().mockReturnThis(),
+    dispose: vi.fn(),
+  })),
+  Panner: vi.fn().mockImplementation(() => ({
+    pan: { value: 0, setValueAtTime: vi.fn() },
+    toDestination: vi.fn().mockReturnThis(),
+    dispose: vi.fn(),
+  })),
+  now: vi.fn().mockReturnValue(0),
+  getTransport: vi.fn(() => transport),
+  getContext: vi.fn().mockReturnValue({ state: 'running', currentTime: 1.5 }),
+}));
+
+import {
+  createAudioScheduler,
+  advanceScheduler,
+  interpolateScene,
+  audibleTime,
+  startAudioScheduler,
+  stopAudioScheduler,
+  isSchedulerRunning,
+  SCHEDULER_INTERVAL_SECONDS,
+  SCHEDULER_STEP_MS,
+  SCHEDULER_MAX_CATCH_UP_SECONDS,
+  maxSchedulerSnapshots,
+} from '@/lib/simulation/scheduler';
+import type { AudioScheduler } from '@/lib/simulation/scheduler';
+import {
+  createSimulation,
+  addStar,
+  addPlanet,
+  playSimulation,
+  pauseSimulation,
+  destroySimulation,
+} from '@/lib/simulation/simulation';
+import type { SimulationState } from '@/lib/simulation/simulation';
+import { resetStarIdCounter } from '@/lib/entities/star';
+import { resetPlanetIdCounter } from '@/lib/entities/planet';
+
+const STEP = SCHEDULER_STEP_MS / 1000;
+
+function buildSim(): SimulationState {
+  let sim = createSimulation();
+  sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+  sim = addPlanet(sim, { x: 150, y: 0 });
+  return playSimulation(sim);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  transport.state = 'stopped';
+  resetStarIdCounter();
+  resetPlanetIdCounter();
+});
+
+describe('advanceScheduler', () => {
+  it('steps the simulation up to the target time and snapshots each step', () => {
+    const scheduler = createAudioScheduler();
+    const sim = buildSim();
+    const advanced = advanceScheduler(scheduler, sim, 0);
+    expect(scheduler.snapshots).toHaveLength(1);
+
+    const later = advanceScheduler(scheduler, advanced, STEP * 3.5);
+    expect(scheduler.snapshots.map((s) => s.time)).toEqual([0, STEP, STEP * 2, STEP * 3].map((t) => expect.closeTo(t)));
+    expect(scheduler.simTime).toBeCloseTo(STEP * 3);
+    expect(later.solarSystem.planets[0].position).not.toEqual(sim.solarSystem.planets[0].position);
+    destroySimulation(later);
+  });
+
+  it('carries the remainder over to the next call', () => {
+    const scheduler = createAudioScheduler();
+    let sim = advanceScheduler(scheduler, buildSim(), 0);
+    sim = advanceScheduler(scheduler, sim, STEP * 0.6);
+    expect(scheduler.snapshots).toHaveLength(1);
+    sim = advanceScheduler(scheduler, sim, STEP * 1.2);
+    expect(scheduler.snapshots).toHaveLength(2);
+    destroySimulation(sim);
+  });
+
+  it('skips ahead instead of catching up after a stall', () => {
+    const scheduler = createAudioScheduler();
+    let sim = advanceScheduler(scheduler, buildSim(), 0);
+    sim = advanceScheduler(scheduler, sim, 10);
+    const steps = scheduler.snapshots.length - 1;
+    expect(steps).toBeLessThanOrEqual(Math.ceil(SCHEDULER_MAX_CATCH_UP_SECONDS / STEP));
+    expect(scheduler.simTime).toBeGreaterThan(10 - STEP);
+    destroySimulation(sim);
+  });
+
+  it('keeps its history bounded while nothing interpolates (e.g. a background tab)', () => {
+    const scheduler = createAudioScheduler();
+    let sim = advanceScheduler(scheduler, buildSim(), 0);
+    for (let i = 1; i <= 40; i++) sim = advanceScheduler(scheduler, sim, i * SCHEDULER_INTERVAL_SECONDS);
+    expect(scheduler.snapshots).toHaveLength(maxSchedulerSnapshots());
+    // The newest snapshots are the ones kept
+    expect(scheduler.snapshots[scheduler.snapshots.length - 1].time).toBeCloseTo(scheduler.simTime!);
+    destroySimulation(sim);
+  });
+
+  it('keeps pace with the clock without stepping while paused', () => {
+    const scheduler = createAudioScheduler();
+    const paused = pauseSimulation(buildSim());
+    const position = paused.solarSystem.planets[0].position;
+    const result = advanceScheduler(scheduler, paused, 2);
+    expect(result.solarSystem.planets[0].position).toEqual(position);
+    expect(scheduler.simTime).toBe(2);
+    expect(scheduler.snapshots).toHaveLength(0);
+    destroySimulation(result);
+  });
+});
+
+describe('interpolateScene', () => {
+  function schedulerWith(
+    ...snapshots: { time: number; x: number; types?: ('planet' | 'comet')[] }[]
+  ): AudioScheduler {
+    return {
+      simTime: snapshots[snapshots.length - 1].time,
+      eventId: null,
+      snapshots: snapshots.map(({ time, x, types = ['planet'] }) => ({
+        time,
+        objects: types.map((type) => ({ type, position: { x, y: 0 }, radius: 5, rotation: x })),
+        starPosition: { x: 0, y: 0 },
+      })),
+    };
+  }
+
+  it('returns null with no history', () => {
+    expect(interpolateScene(createAudioScheduler(), 1)).toBeNull();
+  });
+
+  it('interpolates positions and rotation between the snapshots around the time', () => {
+    const scheduler = schedulerWith({ time: 1, x: 0 }, { time: 2, x: 10 }, { time: 3, x: 30 });
+    const scene = interpolateScene(scheduler, 2.5)!;
+    expect(scene.objects[0].position.x).toBeCloseTo(20);
+    expect(scene.objects[0].rotation).toBeCloseTo(20);
+    // The snapshot before the pair in use is dropped
+    expect(scheduler.snapshots.map((s) => s.time)).toEqual([2, 3]);
+  });
+
+  it('holds the nearest snapshot outside the recorded range', () => {
+    const scheduler = schedulerWith({ time: 1, x: 0 }, { time: 2, x: 10 });
+    expect(interpolateScene(scheduler, 0.5)!.objects[0].position.x).toBe(0);
+    expect(interpolateScene(scheduler, 5)!.objects[0].position.x).toBe(10);
+  });
+
+  it('uses the later snapshot when bodies were added in between', () => {
+    const scheduler = schedulerWith({ time: 1, x: 0 }, { time: 2, x: 10, types: ['planet', 'comet'] });
+    const scene = interpolateScene(scheduler, 1.5)!;
+    expect(scene.objects).toHaveLength(2);
+    expect(scene.objects[0].position.x).toBe(10);
+  });
+});
+
+describe('Transport control', () => {
+  it('schedules a repeating event and starts the Transport once', () => {
+    const scheduler = createAudioScheduler();
+    const onSchedule = vi.fn();
+    startAudioScheduler(scheduler, onSchedule);
+    startAudioScheduler(scheduler, onSchedule);
+    expect(transport.scheduleRepeat).toHaveBeenCalledOnce();
+    expect(transport.scheduleRepeat).toHaveBeenCalledWith(onSchedule, SCHEDULER_INTERVAL_SECONDS);
+    expect(transport.start).toHaveBeenCalledOnce();
+    expect(isSchedulerRunning(scheduler)).toBe(true);
+  });
+
+  it('leaves an already started Transport alone', () => {
+    transport.state = 'started';
+    startAudioScheduler(createAudioScheduler(), vi.fn());
+    expect(transport.start).not.toHaveBeenCalled();
+  });
+
+  it('clears the event and history when stopped', () => {
+    const scheduler = createAudioScheduler();
+    startAudioScheduler(scheduler, vi.fn());
+    scheduler.snapshots.push({ time: 0, objects: [], starPosition: undefined });
+    stopAudioScheduler(scheduler);
+    expect(transport.clear).toHaveBeenCalledWith(7);
+    expect(isSchedulerRunning(scheduler)).toBe(false);
+    expect(scheduler.snapshots).toHaveLength(0);
+  });
+
+  it('reads the audible time from the context clock', () => {
+    expect(audibleTime()).toBe(1.5);
+  });
+});
@@ -0,0 +1,457 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Mock Tone.js — no Web Audio in jsdom
+vi.mock('tone', () => ({
+  PolySynth: vi.fn().mockImplementation(() => ({
+    triggerAttackRelease: vi.fn(),
+    connect: vi.fn().mockReturnThis(),
+    chain: vi.fn(),
+    disconnect: vi.fn(),
+    dispose: vi.fn(),
+  })),
+  Synth: vi.fn(),
+  AMSynth: vi.fn(),
+  FMSynth: vi.fn(),
+  DuoSynth: vi.fn(),
+  MonoSynth: vi.fn(),
+  MembraneSynth: vi.fn().mockImplementation(() => ({
+    triggerAttackRelease: vi.fn(),
+    connect: vi.fn().mockReturnThis(),
+    dispose: vi.fn(),
+  })),
+  MetalSynth: vi.fn().mockImplementation(() => ({
+    triggerAttackRelease: vi.fn(),
+    connect: vi.fn().mockReturnThis(),
+    dispose: vi.fn(),
+  })),
+  PluckSynth: vi.fn().mockImplementation(() => ({
+    triggerAttack: vi.fn(),
+    connect: vi.fn().mockReturnThis(),
+    dispose: vi.fn(),
+  })),
+  NoiseSynth: vi.fn().mockImplementation(() => ({
+    triggerAttackRelease: vi.fn(),
+    connect: vi.fn().mockReturnThis(),
+    dispose: vi.fn(),
+  })),
+  Sampler: vi.fn().mockImplementation(() => ({
+    triggerAttackRelease: vi.fn(),
+    connect: vi.fn().mockReturnThis(),
+    disconnect: vi.fn(),
+    dispose: vi.fn(),
+    loaded: true,
+  })),
+  Volume: vi.fn().mockImplementation(() => ({
+    volume: { value: 0 },
+    toDestination: vi.fn().mockReturnThis(),
+    connect: vi.fn().mockReturnThis(),
+    dispose: vi.fn(),
+  })),
+  Panner: vi.fn().mockImplementation(() => ({
+    pan: { value: 0, setValueAtTime: vi.fn() },
+    toDestination: vi.fn().mockReturnThis(),
+    dispose: vi.fn(),
+  })),
+  Filter: vi.fn().mockImplementation(() => ({ set: vi.fn(), disconnect: vi.fn(), dispose: vi.fn() })),
+  now: vi.fn().mockReturnValue(0),
+  getTransport: vi.fn().mockReturnValue({ bpm: { value: 120 }, start: vi.fn(), stop: vi.fn(), pause: vi.fn() }),
+  getDestination: vi.fn().mockReturnValue({ volume: { value: 0 } }),
+  start: vi.fn().mockResolvedValue(undefined),
+  getContext: vi.fn().mockReturnValue({ state: 'running' }),
+}));
+
+import {
+  createSimulation,
+  addStar,
+  addPlanet,
+  addSatellite,
+  addComet,
+  playSimulation,
+  tickSimulation,
+  setSimulationTimeScale,
+  setSimulationGravity,
+  setSimulationSatelliteHandoff,
+  setSimulationStereoWidth,
+  setSimulationSatellitePanning,
+  setSimulationMidiBindings,
+  setSimulationPresets,
+  setSimulationTimeline,
+  rewindSimulation,
+  getSynthInstanceCount,
+} from '@/lib/simulation/simulation';
+import {
+  serializeSimulation,
+  deserializeSimulation,
+  solarSystemStateToJson,
+  parseSolarSystemJson,
+  solarSystemFilename,
+  isSolarSystemFile,
+  readSolarSystemFile,
+  SOLAR_SYSTEM_STATE_VERSION,
+} from '@/lib/simulation/serialization';
+import { resetSatelliteIdCounter } from '@/lib/entities/satellite';
+import { resetStarIdCounter } from '@/lib/entities/star';
+import { resetPlanetIdCounter } from '@/lib/entities/planet';
+import { resetCometIdCounter } from '@/lib/entities/comet';
+import type { SimulationState } from '@/lib/simulation/simulation';
+import { defaultSynthPatch } from '@/lib/audio/patches';
+import { createTimelineEvent } from '@/lib/audio/timeline';
+
+const bellPatch = { ...defaultSynthPatch('FMSynth'), oscillator: 'square' as const, modulationIndex: 40 };
+
+beforeEach(() => {
+  resetStarIdCounter();
+  resetPlanetIdCounter();
+  resetSatelliteIdCounter();
+  resetCometIdCounter();
+});
+
+function buildSystem(): SimulationState {
+  let sim = createSimulation();
+  sim = addStar(sim, {
+    key: 'D',
+    mode: 'Dorian',
+    bpm: 96,
+    tuning: {
+      system: 'scala',
+      referenceFrequency: 432,
+      scale: { name: 'bp.scl', description: 'Bohlen-Pierce', cents: [950, 1901.955] },
+      keyboardMapping: null,
+    },
+    progression: { chords: ['i', 'bVII', 'IV'], barsPerChord: 2, follow: 'snap' },
+  });
+  sim = addPlanet(sim, {
+    x: 150,
+    y: 0,
+    noteSequence: 'I4 V3',
+    synthType: 'FMSynth',
+    patch: bellPatch,
+    effects: [{ id: 'filter-1', type: 'filter', bypassed: true, params: { frequency: 600, Q: 3 } }],
+    modulations: [
+      {
+        id: 'mod-1',
+        source: 'starDistance',
+        sourceMin: 100,
+        sourceMax: 300,
+        target: { effectId: 'filter-1', param: 'frequency' },
+        min: 8000,
+        max: 400,
+        curve: 'exponential',
+      },
+    ],
+  });
+  sim = addPlanet(sim, { x: 250, y: 0, rotationSpeed: 'eighth' });
+  const p1 = sim.solarSystem.planets[0].id;
+  sim = addSatellite(sim, { parentPlanetId: p1, orbitRadius: 30, startAngle: 1 });
+  sim = setSimulationTimeScale(sim, 2);
+  sim = setSimulationGravity(sim, 1.5);
+  sim = setSimulationSatelliteHandoff(sim, true);
+  sim = setSimulationStereoWidth(sim, 0.6);
+  sim = setSimulationSatellitePanning(sim, true);
+  sim = setSimulationMidiBindings(sim, [
+    { target: 'gravity', planetId: null, channel: 1, controller: 74 },
+  ]);
+  sim = setSimulationPresets(sim, [{ name: 'Bell', synthType: 'FMSynth', patch: bellPatch }]);
+  sim = setSimulationTimeline(sim, [
+    createTimelineEvent({ at: 32, key: 'A', mode: 'Aeolian' }),
+    createTimelineEvent({ unit: 'revolution', at: 8, every: 8, transpose: 2, bpm: 110, glideBars: 4 }),
+  ]);
+  return sim;
+}
+
+describe('serializeSimulation', () => {
+  it('stamps the current schema version and a timestamp', () => {
+    const state = serializeSimulation(createSimulation());
+    expect(state.version).toBe(SOLAR_SYSTEM_STATE_VERSION);
+    expect(state.timestamp).toBeGreaterThan(0);
+  });
+
+  it('omits physics bodies from every entity', () => {
+    const state = serializeSimulation(buildSystem());
+    expect(state.star).not.toHaveProperty('physicsBody');
+    for (const p of state.planets) expect(p).not.toHaveProperty('physicsBody');
+    for (const s of state.satellites) expect(s).not.toHaveProperty('physicsBody');
+  });
+
+  it('captures star, planets, satellites and global settings', () => {
+    const state = serializeSimulation(buildSystem());
+    expect(state.star?.key).toBe('D');
+    expect(state.star?.bpm).toBe(96);
+    expect(state.planets).toHaveLength(2);
+    expect(state.planets[0].noteSequence).toEqual(['I4', 'V3']);
+    expect(state.satellites).toHaveLength(1);
+    expect(state.timeScale).toBe(2);
+    expect(state.gravityStrength).toBe(1.5);
+    expect(state.satelliteHandoff).toBe(true);
+    expect(state.stereoWidth).toBe(0.6);
+    expect(state.satellitePanning).toBe(true);
+    expect(state.midiBindings).toEqual([
+      { target: 'gravity', planetId: null, channel: 1, controller: 74 },
+    ]);
+  });
+
+  it('reads planet position from the live physics body', () => {
+    let sim = buildSystem();
+    sim = playSimulation(sim);
+    sim = tickSimulation(sim, 16);
+    const body = sim.solarSystem.planets[0].physicsBody!;
+    const state = serializeSimulation(sim);
+    expect(state.planets[0].position.x).toBeCloseTo(body.position.x);
+    expect(state.planets[0].velocity.y).toBeCloseTo(body.velocity.y);
+  });
+
+  it('produces JSON-safe output', () => {
+    const state = serializeSimulation(buildSystem());
+    expect(() => solarSystemStateToJson(state)).not.toThrow();
+  });
+});
+
+describe('deserializeSimulation', () => {
+  it('round-trips through JSON', () => {
+    const original = serializeSimulation(buildSystem());
+    const result = parseSolarSystemJson(solarSystemStateToJson(original));
+    if (!result.ok) throw new Error('expected saved state to be valid');
+    const restored = deserializeSimulation(result.state);
+    const again = serializeSimulation(restored);
+    expect({ ...again, timestamp: 0 }).toEqual({ ...original, timestamp: 0 });
+  });
+
+  it('recreates Matter bodies for star and planets', () => {
+    const sim = deserializeSimulation(serializeSimulation(buildSystem()));
+    expect(sim.solarSystem.star!.physicsBody).not.toBeNull();
+    expect(sim.solarSystem.star!.physicsBody!.isStatic).toBe(true);
+    for (const p of sim.solarSystem.planets) {
+      expect(p.physicsBody).not.toBeNull();
+    }
+  });
+
+  it('restores planet velocity on the physics body', () => {
+    const state = serializeSimulation(buildSystem());
+    const sim = deserializeSimulation(state);
+    const body = sim.solarSystem.planets[0].physicsBody!;
+    expect(body.velocity.x).toBeCloseTo(state.planets[0].velocity.x);
+    expect(body.velocity.y).toBeCloseTo(state.planets[0].velocity.y);
+  });
+
+  it('creates one synth per planet', () => {
+    const sim = deserializeSimulation(serializeSimulation(buildSystem()));
+    expect(getSynthInstanceCount(sim)).toBe(2);
+  });
+
+  it('initialises trigger pulses for every satellite', () => {
+    const sim = deserializeSimulation(serializeSimulation(buildSystem()));
+    const satId = sim.solarSystem.satellites[0].id;
+    expect(sim.triggerPulses.get(satId)).toBe(0);
+  });
+
+  it('loads paused with saved time scale, gravity and hand-off mode', () => {
+    const sim = deserializeSimulation(serializeSimulation(buildSystem()));
+    expect(sim.solarSystem.isPlaying).toBe(false);
+    expect(sim.solarSystem.timeScale).toBe(2);
+    expect(sim.physicsEngine.config.gravity).toBe(1.5);
+    expect(sim.solarSystem.satelliteHandoff).toBe(true);
+  });
+
+  it('restores the stereo width and satellite panning mode', () => {
+    const sim = deserializeSimulation(serializeSimulation(buildSystem()));
+    expect(sim.solarSystem.stereoWidth).toBe(0.6);
+    expect(sim.solarSystem.satellitePanning).toBe(true);
+  });
+
+  it('restores MIDI bindings', () => {
+    const sim = deserializeSimulation(serializeSimulation(buildSystem()));
+    expect(sim.solarSystem.midiBindings).toEqual([
+      { target: 'gravity', planetId: null, channel: 1, controller: 74 },
+    ]);
+  });
+
+  it('restores planet effects chains and modulation routes', () => {
+    const sim = deserializeSimulation(serializeSimulation(buildSystem()));
+    const [p1, p2] = sim.solarSystem.planets;
+    expect(p1.effects).toEqual([
+      { id: 'filter-1', type: 'filter', bypassed: true, params: { frequency: 600, Q: 3 } },
+    ]);
+    expect(p2.effects).toEqual([]);
+    expect(p1.modulations.map((r) => r.id)).toEqual(['mod-1']);
+    expect(sim.synthManager.instances.get(p1.id)!.effects).toHaveLength(1);
+  });
+
+  it('restores planet patches and the embedded presets', () => {
+    const sim = deserializeSimulation(serializeSimulation(buildSystem()));
+    const [p1, p2] = sim.solarSystem.planets;
+    expect(p1.patch).toEqual(bellPatch);
+    expect(p2.patch).toEqual(defaultSynthPatch('Synth'));
+    expect(sim.solarSystem.presets).toEqual([{ name: 'Bell', synthType: 'FMSynth', patch: bellPatch }]);
+  });
+
+  it('restores Sampler planets with their samples and satellite drum hits', () => {
+    const kick = { id: 'sample-1', name: 'Kick', note: 'C3', url: 'data:audio/wav;base64,AAAA' };
+    let original = createSimulation();
+    original = addStar(original);
+    original = addPlanet(original, { x: 150, y: 0, synthType: 'Sampler', samples: [kick] });
+    const planetId = original.solarSystem.planets[0].id;
+    original = addSatellite(original, { parentPlanetId: planetId, orbitRadius: 30, sampleId: 'sample-1' });
+    const sim = deserializeSimulation(JSON.parse(JSON.stringify(serializeSimulation(original))));
+    expect(sim.solarSystem.planets[0].samples).toEqual([kick]);
+    expect(sim.solarSystem.satellites[0].sampleId).toBe('sample-1');
+    expect(sim.synthManager.instances.get(planetId)!.sampleCount).toBe(1);
+  });
+
+  it('restores the star\'s tuning', () => {
+    const original = buildSystem();
+    const sim = deserializeSimulation(JSON.parse(JSON.stringify(serializeSimulation(original))));
+    expect(sim.solarSystem.star!.tuning).toEqual(original.solarSystem.star!.tuning);
+  });
+
+  it('restores the star\'s progression and beat', () => {
+    let original = buildSystem();
+    original = { ...original, solarSystem: { ...original.solarSystem, star: { ...original.solarSystem.star!, beat: 10 } } };
+    const sim = deserializeSimulation(JSON.parse(JSON.stringify(serializeSimulation(original))));
+    expect(sim.solarSystem.star!.progression).toEqual(original.solarSystem.star!.progression);
+    expect(sim.solarSystem.star!.beat).toBe(10);
+  });
+
+  it('restores the timeline', () => {
+    const original = buildSystem();
+    const sim = deserializeSimulation(JSON.parse(JSON.stringify(serializeSimulation(original))));
+    expect(sim.solarSystem.timeline).toEqual(original.solarSystem.timeline);
+  });
+
+  it('restores where the timeline is up to, so rewinding after a load still restores the star', () => {
+    const original: SimulationState = {
+      ...buildSystem(),
+      timelineRevolutions: 8,
+      bpmGlide: { from: 96, to: 132, startBeat: 32, beats: 8 },
+      timelineOrigin: { key: 'C', mode: 'Ionian', bpm: 120 },
+    };
+    const sim = deserializeSimulation(JSON.parse(JSON.stringify(serializeSimulation(original))));
+    expect(sim.timelineRevolutions).toBe(8);
+    expect(sim.bpmGlide).toEqual(original.bpmGlide);
+    expect(sim.timelineOrigin).toEqual(original.timelineOrigin);
+
+    const star = rewindSimulation(sim).solarSystem.star!;
+    expect([star.key, star.mode, star.bpm, star.beat]).toEqual(['C', 'Ionian', 120, 0]);
+  });
+
+  it('handles a state with no star', () => {
+    const state = serializeSimulation(createSimulation());
+    const sim = deserializeSimulation(state);
+    expect(sim.solarSystem.star).toBeNull();
+  });
+
+  it('does not reuse restored ids for newly added planets', () => {
+    const state = serializeSimulation(buildSystem());
+    resetPlanetIdCounter();
+    let sim = deserializeSimulation(state);
+    sim = addPlanet(sim, { x: 400, y: 0 });
+    const ids = sim.solarSystem.planets.map((p) => p.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('keeps satellites attached to their restored parent planet', () => {
+    const sim = deserializeSimulation(serializeSimulation(buildSystem()));
+    const parentIds = sim.solarSystem.planets.map((p) => p.id);
+    expect(parentIds).toContain(sim.solarSystem.satellites[0].parentPlanetId);
+  });
+});
+
+describe('comets', () => {
+  function buildSystemWithComet(): SimulationState {
+    return addComet(buildSystem(), { x: 400, y: 0, note: 'V5', mass: 20 });
+  }
+
+  it('serializes comets without physics bodies', () => {
+    const state = serializeSimulation(buildSystemWithComet());
+    expect(state.comets).toHaveLength(1);
+    expect(state.comets[0].note).toBe('V5');
+    expect(state.comets[0]).not.toHaveProperty('physicsBody');
+  });
+
+  it('round-trips comets through JSON', () => {
+    const original = serializeSimulation(buildSystemWithComet());
+    const result = parseSolarSystemJson(solarSystemStateToJson(original));
+    if (!result.ok) throw new Error('expected saved state to be valid');
+    const again = serializeSimulation(deserializeSimulation(result.state));
+    expect(again.comets).toEqual(original.comets);
+  });
+
+  it('recreates a body, synth and trigger pulse for each comet', () => {
+    const sim = deserializeSimulation(serializeSimulation(buildSystemWithComet()));
+    const comet = sim.solarSystem.comets[0];
+    expect(comet.physicsBody).not.toBeNull();
+    expect(sim.triggerPulses.get(comet.id)).toBe(0);
+    expect(getSynthInstanceCount(sim)).toBe(3);
+  });
+});
+
+describe('parseSolarSystemJson', () => {
+  it('accepts a freshly saved state', () => {
+    const json = solarSystemStateToJson(serializeSimulation(buildSystem()));
+    expect(parseSolarSystemJson(json).ok).toBe(true);
+  });
+
+  it('reports invalid JSON instead of throwing', () => {
+    const result = parseSolarSystemJson('{not json');
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors[0].message).toMatch(/Invalid JSON/);
+  });
+
+  it('reports a non-object top level', () => {
+    expect(parseSolarSystemJson('[1, 2]').ok).toBe(false);
+    expect(parseSolarSystemJson('null').ok).toBe(false);
+  });
+
+  it('reports a newer, unsupported version against the version path', () => {
+    const state = { ...serializeSimulation(buildSystem()), version: '99.0.0' };
+    const result = parseSolarSystemJson(JSON.stringify(state));
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors[0].path).toBe('version');
+  });
+
+  it('returns per-field errors from validation', () => {
+    const state = serializeSimulation(buildSystem());
+    state.planets[0].mass = -5;
+    const result = parseSolarSystemJson(JSON.stringify(state));
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.map((e) => e.path)).toContain('planets[0].mass');
+    }
+  });
+
+  it('migrates an unversioned hand-written file', () => {
+    const legacy = {
+      star: { id: 'star-1', type: 'star', position: { x: 0, y: 0 }, mass: 50000, bpm: 120, key: 'C', mode: 'Ionian' },
+      planets: [{
+        id: 'planet-1', position: { x: 150, y: 0 }, mass: 100,
+        rotationSpeed: 'quarter', noteSequence: 'I4 V4', synthType: 'Synth', orbitRadius: 150,
+      }],
+    };
+    const result = parseSolarSystemJson(JSON.stringify(legacy));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.state.version).toBe(SOLAR_SYSTEM_STATE_VERSION);
+      expect(result.state.planets[0].noteSequence).toEqual(['I4', 'V4']);
+    }
+  });
+});
+
+describe('file helpers', () => {
+  it('builds a .json filename from the timestamp', () => {
+    const state = serializeSimulation(createSimulation());
+    expect(solarSystemFilename(state)).toMatch(/^solar-system-.*\.json$/);
+  });
+
+  it('recognises .json files', () => {
+    expect(isSolarSystemFile(new File(['{}'], 'a.json'))).toBe(true);
+    expect(isSolarSystemFile(new File(['{}'], 'a', { type: 'application/json' }))).toBe(true);
+    expect(isSolarSystemFile(new File([''], 'a.png', { type: 'image/png' }))).toBe(false);
+  });
+
+  it('reads a state from a File', async () => {
+    const state = serializeSimulation(buildSystem());
+    const file = new File([solarSystemStateToJson(state)], 'sys.json');
+    const read = await readSolarSystemFile(file);
+    expect(read.ok).toBe(true);
+    if (read.ok) expect(read.state.planets).toHaveLength(2);
+  });
+});
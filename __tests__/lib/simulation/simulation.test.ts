@@ -5,6 +5,10 @@ vi.mock('tone', () => ({
   PolySynth: vi.fn().mockImplementation(() => ({
     triggerAttackRelease: vi.fn(),
     connect: vi.fn().mockReturnThis(),
+    chain: vi.fn(),
+    disconnect: vi.fn(),
+    detune: { setValueAtTime: vi.fn() },
+    set: vi.fn(),
     dispose: vi.fn(),
   })),
   Synth: vi.fn(),
@@ -32,11 +36,25 @@ vi.mock('tone', () => ({
     connect: vi.fn().mockReturnThis(),
     dispose: vi.fn(),
   })),
+  Sampler: vi.fn().mockImplementation(() => ({
+    triggerAttackRelease: vi.fn(),
+    connect: vi.fn().mockReturnThis(),
+    disconnect: vi.fn(),
+    dispose: vi.fn(),
+    loaded: true,
+  })),
   Volume: vi.fn().mockImplementation(() => ({
-    volume: { value: 0 },
+    volume: { value: 0, setValueAtTime: vi.fn() },
+    toDestination: vi.fn().mockReturnThis(),
+    connect: vi.fn().mockReturnThis(),
+    dispose: vi.fn(),
+  })),
+  Panner: vi.fn().mockImplementation(() => ({
+    pan: { value: 0, setValueAtTime: vi.fn() },
     toDestination: vi.fn().mockReturnThis(),
     dispose: vi.fn(),
   })),
+  Reverb: vi.fn().mockImplementation(() => ({ set: vi.fn(), disconnect: vi.fn(), dispose: vi.fn() })),
   now: vi.fn().mockReturnValue(0),
   getTransport: vi.fn().mockReturnValue({ bpm: { value: 120 }, start: vi.fn(), stop: vi.fn(), pause: vi.fn() }),
   getDestination: vi.fn().mockReturnValue({ volume: { value: 0 } }),
@@ -62,15 +80,47 @@ import {
   getPlanetCount,
   getSatelliteCount,
   getSynthInstanceCount,
+  addComet,
+  removeComet,
+  getCometCount,
+  syncSimulation,
+  randomizeSimulation,
+  sprayDust,
+  cullDust,
+  cullComets,
+  getDustCount,
+  setSimulationSatelliteHandoff,
+  setSimulationStereoWidth,
+  setSimulationSatellitePanning,
+  updateStarProperties,
+  updatePlanetProperties,
+  startMidiRecording,
+  stopMidiRecording,
+  setSimulationTimeline,
+  setSimulationMidiBindings,
 } from '@/lib/simulation/simulation';
-import { resetSatelliteIdCounter } from '@/lib/entities/satellite';
-import { resetStarIdCounter } from '@/lib/entities/star';
-import { resetPlanetIdCounter } from '@/lib/entities/planet';
+import { defaultSynthPatch } from '@/lib/audio/patches';
+import { isValidScaleDegree } from '@/lib/audio/scales';
+import type { SimulationState } from '@/lib/simulation/simulation';
+import type { ModulationRoute, Tuning } from '@/types/audio';
+import { positionPan, satellitePan } from '@/lib/audio/panning';
+import Matter from 'matter-js';
+import { resetSatelliteIdCounter, MAX_SATELLITES } from '@/lib/entities/satellite';
+import { resetStarIdCounter, STAR_MAX_MASS } from '@/lib/entities/star';
+import { defaultTuning, tunedFrequency } from '@/lib/audio/tuning';
+import { defaultProgression } from '@/lib/audio/progression';
+import { createTimelineEvent } from '@/lib/audio/timeline';
+import { resetPlanetIdCounter, getCurrentNote } from '@/lib/entities/planet';
+import * as Tone from 'tone';
+import { resetCometIdCounter, cometFragmentCount, MAX_COMETS } from '@/lib/entities/comet';
+import { resetDustIdCounter, MAX_DUST, DUST_SETTLE_MS } from '@/lib/entities/dust';
 
 beforeEach(() => {
   resetStarIdCounter();
   resetPlanetIdCounter();
   resetSatelliteIdCounter();
+  resetCometIdCounter();
+  resetDustIdCounter();
 });
 
 describe('createSimulation', () => {
@@ -114,6 +164,75 @@ describe('addStar', () => {
   });
 });
 
+describe('updateStarProperties', () => {
+  it('updates the star in place, keeping its id and body', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+    const before = sim.solarSystem.star!;
+    sim = updateStarProperties(sim, { bpm: 90, key: 'F#', mode: 'Dorian', mass: 80000 });
+    const star = sim.solarSystem.star!;
+    expect(star.id).toBe(before.id);
+    expect(star.physicsBody).toBe(before.physicsBody);
+    expect(star).toMatchObject({ bpm: 90, key: 'F#', mode: 'Dorian', mass: 80000 });
+  });
+
+  it('keeps fields that are not given and clamps the rest', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Aeolian', bpm: 120 });
+    sim = updateStarProperties(sim, { key: 'G', bpm: 999, mass: 1e9 });
+    expect(sim.solarSystem.star).toMatchObject({ key: 'G', mode: 'Aeolian', bpm: 300, mass: STAR_MAX_MASS });
+  });
+
+  it('sets the Transport BPM', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { bpm: 120 });
+    updateStarProperties(sim, { bpm: 75 });
+    expect(Tone.getTransport().bpm.value).toBe(75);
+  });
+
+  it('retunes planets without resetting their place in the sequence', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian' });
+    sim = addPlanet(sim, { x: 150, y: 0, noteSequence: 'I4 V4' });
+    sim = {
+      ...sim,
+      solarSystem: {
+        ...sim.solarSystem,
+        planets: [{ ...sim.solarSystem.planets[0], currentNoteIndex: 1 }],
+      },
+    };
+    sim = updateStarProperties(sim, { key: 'G' });
+    const planet = sim.solarSystem.planets[0];
+    expect(planet.currentNoteIndex).toBe(1);
+    expect(getCurrentNote(planet, sim.solarSystem.star!)).toBe('D5');
+  });
+
+  it('sets a chord progression the planets follow from their next note', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian' });
+    sim = addPlanet(sim, { x: 150, y: 0, noteSequence: 'I4' });
+    const progression = { chords: ['IV'], barsPerChord: 1, follow: 'root' as const };
+    sim = updateStarProperties(sim, { progression });
+    expect(sim.solarSystem.star!.progression).toEqual(progression);
+    expect(getCurrentNote(sim.solarSystem.planets[0], sim.solarSystem.star!)).toBe('F4');
+    sim = updateStarProperties(sim, { progression: null });
+    expect(getCurrentNote(sim.solarSystem.planets[0], sim.solarSystem.star!)).toBe('C4');
+  });
+
+    it('retunes the star', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    const tuning = { ...defaultTuning(), system: 'just' as const };
+    sim = updateStarProperties(sim, { tuning });
+    expect(sim.solarSystem.star!.tuning).toEqual(tuning);
+  });
+
+  it('is a no-op without a star', () => {
+    const sim = createSimulation();
+    expect(updateStarProperties(sim, { bpm: 90 })).toBe(sim);
+  });
+});
+
 describe('addPlanet', () => {
   it('adds a planet to the simulation', () => {
     let sim = createSimulation();
@@ -164,6 +283,119 @@ describe('removePlanet', () => {
     sim = removePlanet(sim, 'nonexistent');
     expect(getPlanetCount(sim)).toBe(before);
   });
+
+  it('drops MIDI CC bindings to the planet', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addPlanet(sim, { x: 150, y: 0 });
+    sim = addPlanet(sim, { x: 250, y: 0 });
+    const [first, second] = sim.solarSystem.planets.map((p) => p.id);
+    const gravity = { target: 'gravity' as const, planetId: null, channel: 1, controller: 74 };
+    const secondMass = { target: 'planetMass' as const, planetId: second, channel: 1, controller: 2 };
+    sim = setSimulationMidiBindings(sim, [
+      gravity,
+      { target: 'planetMass', planetId: first, channel: 1, controller: 1 },
+      secondMass,
+    ]);
+    sim = removePlanet(sim, first);
+    expect(sim.solarSystem.midiBindings).toEqual([gravity, secondMass]);
+  });
+});
+
+const detuneRoute: ModulationRoute = {
+  id: 'mod-1',
+  source: 'starDistance',
+  sourceMin: 100,
+  sourceMax: 200,
+  target: { effectId: null, param: 'detune' },
+  min: 0,
+  max: 1000,
+  curve: 'linear',
+};
+
+describe('updatePlanetProperties', () => {
+  const reverb = { id: 'reverb-1', type: 'reverb' as const, bypassed: false, params: { decay: 2, wet: 0.3 } };
+
+  it('replaces the effects chain on the planet and its synth', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addPlanet(sim, { x: 150, y: 0 });
+    const planetId = sim.solarSystem.planets[0].id;
+    sim = updatePlanetProperties(sim, planetId, { effects: [reverb] });
+    expect(sim.solarSystem.planets[0].effects).toEqual([reverb]);
+    expect(sim.synthManager.instances.get(planetId)!.effects.map((e) => e.settings.id)).toEqual(['reverb-1']);
+  });
+
+  it('drops modulation routes to a removed effect', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addPlanet(sim, {
+      x: 150,
+      y: 0,
+      effects: [reverb],
+      modulations: [
+        { ...detuneRoute, id: 'mod-1' },
+        { ...detuneRoute, id: 'mod-2', target: { effectId: 'reverb-1', param: 'wet' }, min: 0, max: 1 },
+      ],
+    });
+    const planetId = sim.solarSystem.planets[0].id;
+    sim = updatePlanetProperties(sim, planetId, { effects: [] });
+    expect(sim.solarSystem.planets[0].modulations.map((r) => r.id)).toEqual(['mod-1']);
+  });
+
+  it('keeps the effects chain when the synth type changes', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addPlanet(sim, { x: 150, y: 0, effects: [reverb] });
+    const planetId = sim.solarSystem.planets[0].id;
+    sim = updatePlanetProperties(sim, planetId, { synthType: 'AMSynth' });
+    const instance = sim.synthManager.instances.get(planetId)!;
+    expect(instance.synthType).toBe('AMSynth');
+    expect(instance.effects.map((e) => e.settings.id)).toEqual(['reverb-1']);
+  });
+
+  it('applies a new patch to the existing synth', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addPlanet(sim, { x: 150, y: 0, synthType: 'FMSynth' });
+    const planetId = sim.solarSystem.planets[0].id;
+    const synth = sim.synthManager.instances.get(planetId)!.synth;
+    const patch = { ...defaultSynthPatch('FMSynth'), modulationIndex: 40 };
+    sim = updatePlanetProperties(sim, planetId, { patch });
+    expect(sim.solarSystem.planets[0].patch).toEqual(patch);
+    expect(sim.synthManager.instances.get(planetId)!.synth).toBe(synth);
+    expect((synth as unknown as { set: ReturnType<typeof vi.fn> }).set).toHaveBeenCalledWith(
+      expect.objectContaining({ modulationIndex: 40 })
+    );
+  });
+
+  it('resets the patch to the new synth type\'s defaults unless one is given', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addPlanet(sim, { x: 150, y: 0 });
+    const planetId = sim.solarSystem.planets[0].id;
+    sim = updatePlanetProperties(sim, planetId, { synthType: 'MonoSynth' });
+    expect(sim.solarSystem.planets[0].patch).toEqual(defaultSynthPatch('MonoSynth'));
+    const patch = { ...defaultSynthPatch('AMSynth'), harmonicity: 2 };
+    sim = updatePlanetProperties(sim, planetId, { synthType: 'AMSynth', patch });
+    expect(sim.solarSystem.planets[0].patch).toEqual(patch);
+  });
+
+  it('reloads a Sampler when its sample map changes, but not when a sample is renamed', () => {
+    const kick = { id: 'sample-1', name: 'Kick', note: 'C3', url: 'data:audio/wav;base64,AAAA' };
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addPlanet(sim, { x: 150, y: 0, synthType: 'Sampler', samples: [kick] });
+    const planetId = sim.solarSystem.planets[0].id;
+    const synth = sim.synthManager.instances.get(planetId)!.synth;
+    sim = updatePlanetProperties(sim, planetId, { samples: [{ ...kick, name: 'Boom' }] });
+    expect(sim.solarSystem.planets[0].samples[0].name).toBe('Boom');
+    expect(sim.synthManager.instances.get(planetId)!.synth).toBe(synth);
+    sim = updatePlanetProperties(sim, planetId, { samples: [{ ...kick, note: 'D3' }] });
+    const instance = sim.synthManager.instances.get(planetId)!;
+    expect(instance.synth).not.toBe(synth);
+    expect(instance.sampleCount).toBe(1);
+  });
 });
 
 describe('playSimulation / pauseSimulation', () => {
@@ -191,6 +423,16 @@ describe('rewindSimulation', () => {
     sim = rewindSimulation(sim);
     expect(sim.solarSystem.isPlaying).toBe(false);
   });
+
+  it('starts the chord progression over', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { bpm: 120, progression: defaultProgression() });
+    sim = playSimulation(sim);
+    for (let i = 0; i < 10; i++) sim = tickSimulation(sim, 100);
+    expect(sim.solarSystem.star!.beat).toBeCloseTo(2);
+    sim = rewindSimulation(sim);
+    expect(sim.solarSystem.star!.beat).toBe(0);
+  });
 });
 
 describe('tickSimulation', () => {
@@ -220,6 +462,94 @@ describe('tickSimulation', () => {
     const result = tickSimulation(sim, 16);
     expect(result.solarSystem.planets).toHaveLength(0);
   });
+
+  it('plays every note of a chord step', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+    // Just short of the positive x axis, where a revolution advances to the chord
+    sim = addPlanet(sim, { x: 150, y: 5, noteSequence: '- [I4 III4!0.5]' });
+    const planetId = sim.solarSystem.planets[0].id;
+    sim = playSimulation(sim);
+    const synth = sim.synthManager.instances.get(planetId)!.synth as unknown as {
+      triggerAttackRelease: ReturnType<typeof vi.fn>;
+    };
+    for (let i = 0; i < 10; i++) sim = tickSimulation(sim, 16);
+    const pitches = synth.triggerAttackRelease.mock.calls.map((call) => call[0]);
+    expect(pitches).toContain('C4');
+    expect(pitches).toContain('E4');
+  });
+});
+
+describe('timeline', () => {
+  it('changes key and mode on a bar', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+    sim = setSimulationTimeline(sim, [createTimelineEvent({ at: 2, key: 'A', mode: 'Aeolian' })]);
+    sim = playSimulation(sim);
+    // 100 ms is a fifth of a beat at 120 BPM; bar 2 starts on beat 4
+    for (let i = 0; i < 19; i++) sim = tickSimulation(sim, 100);
+    expect(sim.solarSystem.star!.key).toBe('C');
+    for (let i = 0; i < 2; i++) sim = tickSimulation(sim, 100);
+    expect(sim.solarSystem.star!.key).toBe('A');
+    expect(sim.solarSystem.star!.mode).toBe('Aeolian');
+  });
+
+  it('transposes on revolutions of the outermost planet', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+    // The inner planet is a quarter turn from its revolution point; the outer one just short of it
+    sim = addPlanet(sim, { x: 0, y: 100 });
+    sim = addPlanet(sim, { x: 200, y: 5 });
+    sim = setSimulationTimeline(sim, [createTimelineEvent({ unit: 'revolution', at: 1, every: 1, transpose: 2 })]);
+    sim = playSimulation(sim);
+    for (let i = 0; i < 10; i++) sim = tickSimulation(sim, 16);
+    expect(sim.timelineRevolutions).toBe(1);
+    expect(sim.solarSystem.star!.key).toBe('D');
+  });
+
+  it('glides the tempo over the event’s bars, with the Transport following', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { bpm: 120 });
+    sim = setSimulationTimeline(sim, [createTimelineEvent({ at: 1, bpm: 60, glideBars: 1 })]);
+    sim = playSimulation(sim);
+    sim = tickSimulation(sim, 100);
+    expect(sim.solarSystem.star!.bpm).toBe(120);
+    sim = tickSimulation(sim, 100);
+    // A fifth of a beat into a 4-beat glide from 120 to 60
+    expect(sim.solarSystem.star!.bpm).toBeCloseTo(117);
+    expect(Tone.getTransport().bpm.value).toBeCloseTo(117);
+    for (let i = 0; i < 50; i++) sim = tickSimulation(sim, 100);
+    expect(sim.solarSystem.star!.bpm).toBe(60);
+    expect(sim.bpmGlide).toBeNull();
+  });
+
+  it('a BPM set by hand stops a glide', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { bpm: 120 });
+    sim = setSimulationTimeline(sim, [createTimelineEvent({ at: 1, bpm: 60, glideBars: 4 })]);
+    sim = playSimulation(sim);
+    sim = tickSimulation(sim, 100);
+    sim = updateStarProperties(sim, { bpm: 100 });
+    sim = tickSimulation(sim, 100);
+    expect(sim.solarSystem.star!.bpm).toBe(100);
+  });
+
+  it('rewinds to the key, mode and tempo from before the timeline changed them', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+    sim = setSimulationTimeline(sim, [createTimelineEvent({ at: 1, transpose: 5, mode: 'Dorian', bpm: 90 })]);
+    sim = playSimulation(sim);
+    sim = tickSimulation(sim, 100);
+    expect(sim.solarSystem.star).toMatchObject({ key: 'F', mode: 'Dorian', bpm: 90 });
+    sim = rewindSimulation(sim);
+    expect(sim.solarSystem.star).toMatchObject({ key: 'C', mode: 'Ionian', bpm: 120, beat: 0 });
+    expect(Tone.getTransport().bpm.value).toBe(120);
+    expect(sim.timelineOrigin).toBeNull();
+
+    // Playing again fires bar 1 again
+    sim = tickSimulation(playSimulation(sim), 100);
+    expect(sim.solarSystem.star!.key).toBe('F');
+  });
 });
 
 describe('setSimulationTimeScale', () => {
@@ -386,6 +716,84 @@ describe('tickSimulation with satellites', () => {
     expect(sim.solarSystem.satellites[0].orbitAngle).toBeGreaterThan(justBeforeTop);
   });
 
+  it('plays the chosen sample of a Sampler parent at its root note', () => {
+    const kick = { id: 'sample-1', name: 'Kick', note: 'C3', url: 'data:audio/wav;base64,AAAA' };
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+    sim = addPlanet(sim, { x: 150, y: 0, synthType: 'Sampler', samples: [kick], noteSequence: 'V4' });
+    const planetId = sim.solarSystem.planets[0].id;
+    sim = addSatellite(sim, {
+      parentPlanetId: planetId,
+      orbitRadius: 30,
+      startAngle: -Math.PI / 2 - 0.05,
+      sampleId: 'sample-1',
+    });
+    sim = playSimulation(sim);
+    const synth = sim.synthManager.instances.get(planetId)!.synth as unknown as {
+      triggerAttackRelease: ReturnType<typeof vi.fn>;
+    };
+    for (let i = 0; i < 60; i++) sim = tickSimulation(sim, 16);
+    expect(synth.triggerAttackRelease.mock.calls.map((call) => call[0])).toContain('C3');
+  });
+
+  it('plays a sample at its own note whatever the star\'s tuning', () => {
+    const kick = { id: 'sample-1', name: 'Kick', note: 'C3', url: 'data:audio/wav;base64,AAAA' };
+    const tuning: Tuning = {
+      system: 'scala',
+      referenceFrequency: 440,
+      scale: { name: 'bp.scl', description: 'Bohlen-Pierce', cents: [950, 1901.955] },
+      keyboardMapping: {
+        name: 'sparse.kbm',
+        size: 12,
+        firstNote: 0,
+        lastNote: 127,
+        middleNote: 60,
+        referenceNote: 69,
+        referenceFrequency: 440,
+        octaveDegree: 2,
+        mapping: [null, null, null, null, null, null, null, 0, null, 1, null, null],
+      },
+    };
+    // The mapping leaves C silent, so tuning the sample's note would drop the hit
+    expect(tunedFrequency('C3', 'C', tuning)).toBeNull();
+
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120, tuning });
+    sim = addPlanet(sim, { x: 150, y: 0, synthType: 'Sampler', samples: [kick], noteSequence: 'V4' });
+    const planetId = sim.solarSystem.planets[0].id;
+    sim = addSatellite(sim, {
+      parentPlanetId: planetId,
+      orbitRadius: 30,
+      startAngle: -Math.PI / 2 - 0.05,
+      sampleId: 'sample-1',
+    });
+    sim = playSimulation(sim);
+    const synth = sim.synthManager.instances.get(planetId)!.synth as unknown as {
+      triggerAttackRelease: ReturnType<typeof vi.fn>;
+    };
+    for (let i = 0; i < 60; i++) sim = tickSimulation(sim, 16);
+    const pitches = synth.triggerAttackRelease.mock.calls.map((call) => call[0]);
+    expect(pitches).toContain('C3');
+    // The planet's own notes stay in the star's tuning
+    expect(pitches.filter((p) => p !== 'C3').every((p) => typeof p === 'number')).toBe(true);
+  });
+
+  it('plays the tuned frequency when the star isn\'t in standard tuning', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120, tuning: { ...defaultTuning(), system: 'just' } });
+    sim = addPlanet(sim, { x: 150, y: 0, noteSequence: 'III4' });
+    const planetId = sim.solarSystem.planets[0].id;
+    sim = addSatellite(sim, { parentPlanetId: planetId, orbitRadius: 30, startAngle: -Math.PI / 2 - 0.05 });
+    sim = playSimulation(sim);
+    const synth = sim.synthManager.instances.get(planetId)!.synth as unknown as {
+      triggerAttackRelease: ReturnType<typeof vi.fn>;
+    };
+    for (let i = 0; i < 60; i++) sim = tickSimulation(sim, 16);
+    const pitches = synth.triggerAttackRelease.mock.calls.map((call) => call[0]);
+    expect(pitches).not.toContain('E4');
+    expect(pitches.some((p) => typeof p === 'number' && Math.abs(p - 327.03) < 0.01)).toBe(true);
+  });
+
   it('decays the trigger pulse over subsequent ticks', () => {
     let sim = createSimulation();
     sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
@@ -403,6 +811,257 @@ describe('tickSimulation with satellites', () => {
   });
 });
 
+describe('tickSimulation with a start time', () => {
+  it('schedules a satellite note at its crossing time within the tick', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+    sim = addPlanet(sim, { x: 150, y: 0 });
+    const planetId = sim.solarSystem.planets[0].id;
+    sim = addSatellite(sim, { parentPlanetId: planetId, orbitRadius: 30, startAngle: -Math.PI / 2 - 0.05 });
+    sim = playSimulation(sim);
+    const synth = sim.synthManager.instances.get(planetId)!.synth as unknown as {
+      triggerAttackRelease: ReturnType<typeof vi.fn>;
+    };
+
+    let tickStart = 10;
+    for (let i = 0; i < 20 && synth.triggerAttackRelease.mock.calls.length === 0; i++) {
+      tickStart = 10 + i * 0.016;
+      sim = tickSimulation(sim, 16, tickStart);
+    }
+
+    expect(synth.triggerAttackRelease).toHaveBeenCalledOnce();
+    const time = synth.triggerAttackRelease.mock.calls[0][2] as number;
+    expect(time).toBeGreaterThanOrEqual(tickStart);
+    expect(time).toBeLessThanOrEqual(tickStart + 0.016);
+  });
+});
+
+describe('tickSimulation with modulation', () => {
+  it('sets each route target from the planet after the tick', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addPlanet(sim, { x: 150, y: 0, modulations: [detuneRoute] });
+    sim = playSimulation(sim);
+    sim = tickSimulation(sim, 16, 2);
+
+    const planet = sim.solarSystem.planets[0];
+    const distance = Math.hypot(planet.position.x, planet.position.y);
+    const synth = sim.synthManager.instances.get(planet.id)!.synth as unknown as {
+      detune: { setValueAtTime: ReturnType<typeof vi.fn> };
+    };
+    const [value, time] = synth.detune.setValueAtTime.mock.calls[0];
+    expect(value).toBeCloseTo((distance - 100) * 10);
+    expect(time).toBeCloseTo(2.016);
+  });
+
+  it('leaves unmodulated planets alone', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addPlanet(sim, { x: 150, y: 0 });
+    sim = playSimulation(sim);
+    sim = tickSimulation(sim, 16);
+    const synth = sim.synthManager.instances.get(sim.solarSystem.planets[0].id)!.synth as unknown as {
+      detune: { setValueAtTime: ReturnType<typeof vi.fn> };
+    };
+    expect(synth.detune.setValueAtTime).not.toHaveBeenCalled();
+  });
+});
+
+describe('stereo panning', () => {
+  type PanMock = { setValueAtTime: ReturnType<typeof vi.fn> };
+
+  function panOf(sim: SimulationState, id: string): PanMock {
+    return sim.synthManager.instances.get(id)!.panner.pan as unknown as PanMock;
+  }
+
+  /** A planet with a satellite just short of its trigger point. */
+  function buildSatelliteSim(panning: boolean): SimulationState {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+    sim = addPlanet(sim, { x: 150, y: 0 });
+    const planetId = sim.solarSystem.planets[0].id;
+    sim = addSatellite(sim, { parentPlanetId: planetId, orbitRadius: 30, startAngle: -Math.PI / 2 - 0.05 });
+    sim = setSimulationSatellitePanning(sim, panning);
+    return playSimulation(sim);
+  }
+
+  it('defaults to full width with satellite panning off', () => {
+    const sim = createSimulation();
+    expect(sim.solarSystem.stereoWidth).toBe(1);
+    expect(sim.solarSystem.satellitePanning).toBe(false);
+  });
+
+  it('clamps the width to 0–1', () => {
+    expect(setSimulationStereoWidth(createSimulation(), 3).solarSystem.stereoWidth).toBe(1);
+    expect(setSimulationStereoWidth(createSimulation(), -1).solarSystem.stereoWidth).toBe(0);
+  });
+
+  it('pans each planet by its position relative to the star at the end of the tick', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addPlanet(sim, { x: 200, y: 0 });
+    sim = setSimulationStereoWidth(sim, 0.5);
+    sim = playSimulation(sim);
+    sim = tickSimulation(sim, 16, 2);
+
+    const planet = sim.solarSystem.planets[0];
+    const [pan, time] = panOf(sim, planet.id).setValueAtTime.mock.calls[0];
+    expect(pan).toBeCloseTo(positionPan(planet.position, sim.solarSystem.star!.position, 0.5));
+    expect(pan).toBeGreaterThan(0.2);
+    expect(time).toBeCloseTo(2.016);
+  });
+
+  it('keeps every voice centred at zero width', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addPlanet(sim, { x: 300, y: 0 });
+    sim = setSimulationStereoWidth(sim, 0);
+    sim = playSimulation(sim);
+    sim = tickSimulation(sim, 16);
+    expect(panOf(sim, sim.solarSystem.planets[0].id).setValueAtTime.mock.calls[0][0]).toBeCloseTo(0);
+  });
+
+  it('adds pan modulation to the position pan, clamped to the stereo field', () => {
+    const panRoute: ModulationRoute = {
+      ...detuneRoute,
+      target: { effectId: null, param: 'pan' },
+      sourceMin: 0,
+      sourceMax: 1000,
+      min: -0.5,
+      max: -0.5,
+    };
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addPlanet(sim, { x: 200, y: 0, modulations: [panRoute] });
+    sim = addPlanet(sim, { x: 300, y: 0, modulations: [{ ...panRoute, min: 1, max: 1 }] });
+    sim = setSimulationStereoWidth(sim, 0.5);
+    sim = playSimulation(sim);
+    sim = tickSimulation(sim, 16);
+
+    const [near, far] = sim.solarSystem.planets;
+    const nearPan = panOf(sim, near.id).setValueAtTime.mock.calls[0][0];
+    expect(nearPan).toBeCloseTo(positionPan(near.position, sim.solarSystem.star!.position, 0.5) - 0.5);
+    expect(panOf(sim, far.id).setValueAtTime.mock.calls[0][0]).toBe(1);
+  });
+
+  it('leaves satellite notes at the planet’s pan when off', () => {
+    let sim = buildSatelliteSim(false);
+    for (let i = 0; i < 20; i++) sim = tickSimulation(sim, 16);
+    expect(sim.panHolds.size).toBe(0);
+  });
+
+  it('pans a satellite note by the satellite and holds it for the note', () => {
+    let sim = buildSatelliteSim(true);
+    const planetId = sim.solarSystem.planets[0].id;
+    const pan = panOf(sim, planetId);
+
+    let ticks = 0;
+    while (sim.panHolds.size === 0 && ticks < 20) {
+      const before = sim;
+      sim = tickSimulation(sim, 16);
+      ticks++;
+      if (sim.panHolds.size > 0) {
+        const planet = sim.solarSystem.planets[0];
+        const satellite = sim.solarSystem.satellites[0];
+        const calls = pan.setValueAtTime.mock.calls;
+        // The satellite's pan is the last one set: the planet doesn't override it
+        expect(calls[calls.length - 1][0]).toBeCloseTo(
+          satellitePan(satellite, planet, before.solarSystem.star!.position, 1)
+        );
+      }
+    }
+    expect(sim.panHolds.get(planetId)).toBeGreaterThan(0);
+
+    // Without the satellite re-triggering, the planet stays at the held pan
+    sim = removeSatellite(sim, sim.solarSystem.satellites[0].id);
+    const callsBefore = pan.setValueAtTime.mock.calls.length;
+    sim = tickSimulation(sim, 16);
+    expect(pan.setValueAtTime.mock.calls.length).toBe(callsBefore);
+  });
+
+  it('releases the hold once the satellite note has finished', () => {
+    let sim = buildSatelliteSim(true);
+    for (let i = 0; i < 20 && sim.panHolds.size === 0; i++) sim = tickSimulation(sim, 16);
+    const held = sim.panHolds.get(sim.solarSystem.planets[0].id)!;
+    sim = tickSimulation(sim, held + 1);
+    expect(sim.panHolds.size).toBe(0);
+  });
+});
+
+describe('MIDI recording', () => {
+  function buildRecordingSim(): SimulationState {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+    sim = addPlanet(sim, { x: 150, y: 0, synthType: 'FMSynth' });
+    const planetId = sim.solarSystem.planets[0].id;
+    // Just short of the top, so the satellite triggers within a few ticks
+    sim = addSatellite(sim, { parentPlanetId: planetId, orbitRadius: 30, startAngle: -Math.PI / 2 - 0.05 });
+    return playSimulation(sim);
+  }
+
+  it('records nothing unless started', () => {
+    let sim = buildRecordingSim();
+    for (let i = 0; i < 20; i++) sim = tickSimulation(sim, 16);
+    expect(sim.midiRecorder).toBeNull();
+    expect(stopMidiRecording(sim).recording).toBeNull();
+  });
+
+  it('captures satellite triggers with the planet and satellite IDs', () => {
+    let sim = startMidiRecording(buildRecordingSim());
+    for (let i = 0; i < 20; i++) sim = tickSimulation(sim, 16);
+
+    const { sim: stopped, recording } = stopMidiRecording(sim);
+    expect(stopped.midiRecorder).toBeNull();
+    const event = recording!.events.find((e) => e.satelliteId !== null);
+    expect(event).toMatchObject({
+      planetId: sim.solarSystem.planets[0].id,
+      satelliteId: sim.solarSystem.satellites[0].id,
+      durationBeats: 1,
+    });
+    expect(recording!.trackNames.get(sim.solarSystem.planets[0].id)).toBe('planet-1 (FMSynth)');
+  });
+
+  it('advances the beat clock at the star BPM', () => {
+    let sim = startMidiRecording(buildRecordingSim());
+    for (let i = 0; i < 30; i++) sim = tickSimulation(sim, 20);
+    // 600 ms at 120 BPM
+    expect(sim.midiRecorder!.beat).toBeCloseTo(1.2);
+    expect(sim.midiRecorder!.elapsedMs).toBe(600);
+  });
+});
+
+describe('satellite hand-off mode', () => {
+  /** Two planets with a satellite of the inner one sitting between them. */
+  function buildPair(handoff: boolean) {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+    sim = addPlanet(sim, { x: 150, y: 0 });
+    sim = addPlanet(sim, { x: 250, y: 0 });
+    sim = addSatellite(sim, { parentPlanetId: sim.solarSystem.planets[0].id, orbitRadius: 50 });
+    sim = setSimulationSatelliteHandoff(sim, handoff);
+    return playSimulation(sim);
+  }
+
+  it('is off by default', () => {
+    expect(createSimulation().solarSystem.satelliteHandoff).toBe(false);
+  });
+
+  it('keeps satellites on their parent when off', () => {
+    let sim = buildPair(false);
+    const parentId = sim.solarSystem.satellites[0].parentPlanetId;
+    sim = tickSimulation(sim, 16);
+    expect(sim.solarSystem.satellites[0].parentPlanetId).toBe(parentId);
+  });
+
+  it('hands a satellite to the planet whose Hill sphere captures it', () => {
+    let sim = buildPair(true);
+    sim = tickSimulation(sim, 16);
+    const satellite = sim.solarSystem.satellites[0];
+    expect(satellite.parentPlanetId).toBe(sim.solarSystem.planets[1].id);
+    expect(satellite.orbitRadius).toBeCloseTo(50, 0);
+  });
+});
+
 describe('simulationToSceneObjects with satellites', () => {
   it('includes satellite scene objects', () => {
     let sim = createSimulation();
@@ -427,4 +1086,353 @@ describe('simulationToSceneObjects with satellites', () => {
     const satObj = objects.find((o) => o.type === 'satellite');
     expect(satObj?.triggerPulse).toBeCloseTo(0.75);
   });
+
+  it('passes the orbit shape so elliptical orbits are drawn', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addPlanet(sim, { x: 150, y: 0 });
+    const planetId = sim.solarSystem.planets[0].id;
+    sim = addSatellite(sim, {
+      parentPlanetId: planetId,
+      orbitRadius: 40,
+      eccentricity: 0.5,
+      argumentOfPeriapsis: 1,
+    });
+    const { objects } = simulationToSceneObjects(sim);
+    const satObj = objects.find((o) => o.type === 'satellite');
+    expect(satObj?.orbitEccentricity).toBe(0.5);
+    expect(satObj?.orbitPeriapsisAngle).toBe(1);
+  });
+});
+
+describe('addComet / removeComet', () => {
+  it('adds a comet with its own synth voice', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addComet(sim, { x: 300, y: 0 });
+    expect(getCometCount(sim)).toBe(1);
+    expect(getSynthInstanceCount(sim)).toBe(1);
+  });
+
+  it('respects the comet limit', () => {
+    let sim = createSimulation();
+    for (let i = 0; i < MAX_COMETS + 2; i++) {
+      sim = addComet(sim, { x: 300 + i * 20, y: 0 });
+    }
+    expect(getCometCount(sim)).toBe(MAX_COMETS);
+  });
+
+  it('removes the comet and its synth', () => {
+    let sim = createSimulation();
+    sim = addComet(sim, { x: 300, y: 0 });
+    sim = removeComet(sim, sim.solarSystem.comets[0].id);
+    expect(getCometCount(sim)).toBe(0);
+    expect(getSynthInstanceCount(sim)).toBe(0);
+  });
+});
+
+describe('cullComets', () => {
+  const bounds = { minX: -100, minY: -100, maxX: 100, maxY: 100 };
+
+  it('removes escaped comets outside the view, freeing their slot and synth', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addComet(sim, { x: 300, y: 0, speedFactor: 2 });
+    const cometId = sim.solarSystem.comets[0].id;
+    sim = { ...sim, triggerPulses: new Map([[cometId, 1]]) };
+    const bodiesBefore = Matter.Composite.allBodies(sim.physicsEngine.world).length;
+
+    sim = cullComets(sim, bounds, 50);
+    expect(getCometCount(sim)).toBe(0);
+    expect(getSynthInstanceCount(sim)).toBe(0);
+    expect(sim.triggerPulses.has(cometId)).toBe(false);
+    expect(Matter.Composite.allBodies(sim.physicsEngine.world)).toHaveLength(bodiesBefore - 1);
+  });
+
+  it('keeps comets still bound to the star, or not yet past the margin', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addComet(sim, { x: 300, y: 0, speedFactor: 0.8 });
+    sim = addComet(sim, { x: 120, y: 0, speedFactor: 2 });
+    expect(cullComets(sim, bounds, 50)).toBe(sim);
+  });
+
+  it('frees room for new comets after fly-bys', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    for (let i = 0; i < MAX_COMETS; i++) sim = addComet(sim, { x: 300 + i * 20, y: 0, speedFactor: 2 });
+    sim = cullComets(sim, bounds, 50);
+    sim = addComet(sim, { x: 300, y: 0 });
+    expect(getCometCount(sim)).toBe(1);
+  });
+});
+
+describe('tickSimulation with comets', () => {
+  it('moves the comet under gravity', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+    sim = addComet(sim, { x: 300, y: 0 });
+    sim = playSimulation(sim);
+    const before = { ...sim.solarSystem.comets[0].position };
+    sim = tickSimulation(sim, 16);
+    expect(sim.solarSystem.comets[0].position).not.toEqual(before);
+  });
+
+  it('fires a pulse when passing close to a planet', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+    sim = addPlanet(sim, { x: 150, y: 0 });
+    sim = addComet(sim, { x: 180, y: 0, triggerRadius: 40 });
+    sim = playSimulation(sim);
+    sim = tickSimulation(sim, 16);
+    const comet = sim.solarSystem.comets[0];
+    expect(comet.nearbyBodyIds).toContain(sim.solarSystem.planets[0].id);
+    expect(sim.triggerPulses.get(comet.id)).toBe(1);
+  });
+});
+
+describe('simulationToSceneObjects with comets', () => {
+  it('includes comet scene objects', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addComet(sim, { x: 300, y: 0 });
+    const { objects } = simulationToSceneObjects(sim);
+    expect(objects.filter((o) => o.type === 'comet')).toHaveLength(1);
+  });
+});
+
+describe('comet–planet collisions', () => {
+  function collidingSystem() {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+    sim = addPlanet(sim, { x: 200, y: 0 });
+    // Overlapping the planet, so Matter reports a collision on the first step
+    sim = addComet(sim, { x: 204, y: 0, mass: 30 });
+    return playSimulation(sim);
+  }
+
+  it('removes the comet and its synth on impact', () => {
+    let sim = collidingSystem();
+    sim = tickSimulation(sim, 16);
+    expect(getCometCount(sim)).toBe(0);
+    expect(getSynthInstanceCount(sim)).toBe(1);
+  });
+
+  it('replaces the comet with satellites of the hit planet', () => {
+    let sim = collidingSystem();
+    const planetId = sim.solarSystem.planets[0].id;
+    sim = tickSimulation(sim, 16);
+    expect(getSatelliteCount(sim)).toBe(cometFragmentCount(30));
+    for (const s of sim.solarSystem.satellites) {
+      expect(s.parentPlanetId).toBe(planetId);
+      expect(sim.triggerPulses.get(s.id)).toBe(1);
+    }
+  });
+
+  it('caps fragments at the satellite limit', () => {
+    let sim = collidingSystem();
+    const planetId = sim.solarSystem.planets[0].id;
+    for (let i = 0; i < MAX_SATELLITES - 1; i++) {
+      sim = addSatellite(sim, { parentPlanetId: planetId, orbitRadius: 30 });
+    }
+    sim = tickSimulation(sim, 16);
+    expect(getSatelliteCount(sim)).toBe(MAX_SATELLITES);
+    expect(getCometCount(sim)).toBe(0);
+  });
+
+  it('ignores planet–planet collisions', () => {
+    let sim = createSimulation();
+    sim = addStar(sim);
+    sim = addPlanet(sim, { x: 200, y: 0 });
+    sim = addPlanet(sim, { x: 205, y: 0 });
+    sim = playSimulation(sim);
+    sim = tickSimulation(sim, 16);
+    expect(getPlanetCount(sim)).toBe(2);
+    expect(getSatelliteCount(sim)).toBe(0);
+    expect(sim.pendingCollisions).toHaveLength(0);
+  });
+});
+
+describe('space dust', () => {
+  /** Puts the only dust particle at `position` with `velocity` and the given age. */
+  function placeDust(
+    sim: SimulationState,
+    position: { x: number; y: number },
+    velocity: { x: number; y: number },
+    ageMs = 0
+  ): SimulationState {
+    const [particle] = sim.solarSystem.dust;
+    Matter.Body.setPosition(particle.physicsBody!, position);
+    Matter.Body.setVelocity(particle.physicsBody!, velocity);
+    return { ...sim, solarSystem: { ...sim.solarSystem, dust: [{ ...particle, position, velocity, ageMs }] } };
+  }
+
+  it('sprays a burst of free bodies into the physics world', () => {
+    let sim = createSimulation();
+    const bodiesBefore = Matter.Composite.allBodies(sim.physicsEngine.world).length;
+    sim = sprayDust(sim, { center: { x: 0, y: 0 }, count: 5 });
+    expect(getDustCount(sim)).toBe(5);
+    expect(Matter.Composite.allBodies(sim.physicsEngine.world)).toHaveLength(bodiesBefore + 5);
+  });
+
+  it('trims bursts to the dust limit', () => {
+    let sim = createSimulation();
+    sim = sprayDust(sim, { center: { x: 0, y: 0 }, count: MAX_DUST - 3 });
+    sim = sprayDust(sim, { center: { x: 0, y: 0 }, count: 10 });
+    expect(getDustCount(sim)).toBe(MAX_DUST);
+    expect(sprayDust(sim, { center: { x: 0, y: 0 } })).toBe(sim);
+  });
+
+  it('turns dust bound to a planet into a satellite of that planet', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+    sim = addPlanet(sim, { x: 200, y: 0 });
+    sim = sprayDust(sim, { center: { x: 0, y: 0 }, count: 1 });
+    const planet = sim.solarSystem.planets[0];
+    sim = placeDust(sim, { x: 200, y: 40 }, planet.physicsBody!.velocity);
+    sim = playSimulation(sim);
+    sim = tickSimulation(sim, 16);
+
+    expect(getDustCount(sim)).toBe(0);
+    expect(getSatelliteCount(sim)).toBe(1);
+    const satellite = sim.solarSystem.satellites[0];
+    expect(satellite.parentPlanetId).toBe(planet.id);
+    expect(satellite.orbitRadius).toBeCloseTo(40, 0);
+    expect(sim.triggerPulses.get(satellite.id)).toBe(1);
+  });
+
+  it('turns settled dust bound to the star into a comet with the dust synth', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+    sim = sprayDust(sim, { center: { x: 0, y: 0 }, count: 1 });
+    const { synthType, note } = sim.solarSystem.dust[0];
+    sim = placeDust(sim, { x: 300, y: 0 }, { x: 0, y: 2 }, DUST_SETTLE_MS);
+    sim = playSimulation(sim);
+    sim = tickSimulation(sim, 16);
+
+    expect(getDustCount(sim)).toBe(0);
+    expect(getCometCount(sim)).toBe(1);
+    const comet = sim.solarSystem.comets[0];
+    expect(comet.synthType).toBe(synthType);
+    expect(comet.note).toBe(note);
+    expect(comet.velocity.y).toBeCloseTo(2, 0);
+    expect(getSynthInstanceCount(sim)).toBe(1);
+  });
+
+  it('leaves unsettled or unbound dust free', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian', bpm: 120 });
+    sim = sprayDust(sim, { center: { x: 0, y: 0 }, count: 1 });
+    sim = playSimulation(placeDust(sim, { x: 300, y: 0 }, { x: 0, y: 2 }));
+    sim = tickSimulation(sim, 16);
+    expect(getDustCount(sim)).toBe(1);
+
+    sim = placeDust(sim, { x: 300, y: 0 }, { x: 50, y: 0 }, DUST_SETTLE_MS);
+    sim = tickSimulation(sim, 16);
+    expect(getDustCount(sim)).toBe(1);
+    expect(getCometCount(sim)).toBe(0);
+  });
+
+  it('culls dust that leaves the bounds by more than the margin', () => {
+    let sim = createSimulation();
+    sim = sprayDust(sim, { center: { x: 0, y: 0 }, count: 1 });
+    sim = placeDust(sim, { x: 5000, y: 0 }, { x: 0, y: 0 });
+    const bounds = { minX: -400, minY: -300, maxX: 400, maxY: 300 };
+    const bodiesBefore = Matter.Composite.allBodies(sim.physicsEngine.world).length;
+    sim = cullDust(sim, bounds, 100);
+    expect(getDustCount(sim)).toBe(0);
+    expect(Matter.Composite.allBodies(sim.physicsEngine.world)).toHaveLength(bodiesBefore - 1);
+  });
+
+  it('includes dust scene objects', () => {
+    let sim = createSimulation();
+    sim = sprayDust(sim, { center: { x: 0, y: 0 }, count: 3 });
+    const { objects } = simulationToSceneObjects(sim);
+    expect(objects.filter((o) => o.type === 'dust')).toHaveLength(3);
+  });
+});
+
+describe('syncSimulation', () => {
+  it('is a no-op without a star', () => {
+    const sim = createSimulation();
+    expect(syncSimulation(sim)).toBe(sim);
+  });
+
+  it('snaps every planet rotation to a bar boundary', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { bpm: 120 });
+    sim = addPlanet(sim, { x: 150, y: 0, rotationSpeed: 'quarter' });
+    sim = addPlanet(sim, { x: 250, y: 0, rotationSpeed: 'eighth' });
+    sim = playSimulation(sim);
+    sim = tickSimulation(sim, 37);
+    sim = syncSimulation(sim);
+    for (const p of sim.solarSystem.planets) {
+      expect(Math.abs(Math.sin(p.rotation))).toBeLessThan(1e-9);
+      expect(p.rotation).toBeGreaterThan(0);
+    }
+  });
+
+  it('moves the star\'s beat on to the next bar line', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { bpm: 120 });
+    sim = playSimulation(sim);
+    sim = tickSimulation(sim, 700);
+    expect(syncSimulation(sim).solarSystem.star!.beat).toBe(4);
+  });
+
+  it('nudges satellites only when snapSatellites is enabled', () => {
+    let sim = createSimulation();
+    sim = addStar(sim, { bpm: 120 });
+    sim = addPlanet(sim, { x: 150, y: 0 });
+    sim = addSatellite(sim, { parentPlanetId: sim.solarSystem.planets[0].id, orbitRadius: 30, startAngle: 0.3 });
+    const before = sim.solarSystem.satellites[0].orbitAngle;
+    expect(syncSimulation(sim, { snapSatellites: false }).solarSystem.satellites[0].orbitAngle).toBe(before);
+    expect(syncSimulation(sim).solarSystem.satellites[0].orbitAngle).not.toBe(before);
+  });
+});
+
+describe('randomizeSimulation', () => {
+  function buildPlanets() {
+    let sim = createSimulation();
+    sim = addStar(sim, { key: 'C', mode: 'Ionian' });
+    for (let i = 0; i < 6; i++) {
+      sim = addPlanet(sim, { x: 150 + i * 40, y: 0, noteSequence: 'I4', synthType: 'Synth' });
+    }
+    return sim;
+  }
+
+  it('gives identical results for the same seed', () => {
+    const pick = (sim: ReturnType<typeof buildPlanets>) =>
+      sim.solarSystem.planets.map((p) => [p.rotationSpeed, p.noteSequence, p.synthType]);
+    const a = randomizeSimulation(buildPlanets(), 'galaxy', { noteSequences: true, synthTypes: true });
+    const b = randomizeSimulation(buildPlanets(), 'galaxy', { noteSequences: true, synthTypes: true });
+    expect(pick(a)).toEqual(pick(b));
+  });
+
+  it('only changes rotation speeds by default', () => {
+    const sim = randomizeSimulation(buildPlanets(), 'galaxy');
+    for (const p of sim.solarSystem.planets) {
+      expect(p.noteSequence).toEqual(['I4']);
+      expect(p.synthType).toBe('Synth');
+    }
+    const speeds = new Set(sim.solarSystem.planets.map((p) => p.rotationSpeed));
+    expect(speeds.size).toBeGreaterThan(1);
+  });
+
+  it('generates new note sequences and synths when enabled', () => {
+    const sim = randomizeSimulation(buildPlanets(), 'galaxy', { noteSequences: true, synthTypes: true });
+    expect(sim.solarSystem.planets.some((p) => p.noteSequence.join(' ') !== 'I4')).toBe(true);
+    expect(sim.solarSystem.planets.some((p) => p.synthType !== 'Synth')).toBe(true);
+    expect(getSynthInstanceCount(sim)).toBe(6);
+  });
+
+  it('keeps generated note sequences within the star\'s scale', () => {
+    let sim = buildPlanets();
+    sim = updateStarProperties(sim, { mode: 'Hirajoshi' });
+    sim = randomizeSimulation(sim, 'galaxy', { noteSequences: true });
+    for (const p of sim.solarSystem.planets) {
+      expect(p.noteSequence.length).toBeGreaterThan(0);
+      expect(p.noteSequence.every((degree) => isValidScaleDegree(degree, 'Hirajoshi'))).toBe(true);
+    }
+  });
 });
@@ -0,0 +1,601 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateSolarSystemState,
+  formatValidationIssue,
+} from '@/lib/simulation/validation';
+import type { ValidationIssue } from '@/lib/simulation/validation';
+import { defaultSynthPatch } from '@/lib/audio/patches';
+import type { BpmGlide, ChordProgression, KeyboardMapping, ScalaScale, TimelineEvent } from '@/types/audio';
+
+function validState() {
+  return {
+    version: '1.13.0',
+    timestamp: 1700000000000,
+    star: {
+      id: 'star-1',
+      type: 'star',
+      position: { x: 0, y: 0 },
+      mass: 50000,
+      bpm: 120,
+      key: 'C',
+      mode: 'Ionian',
+      tuning: {
+        system: 'equal',
+        referenceFrequency: 440,
+        scale: null as ScalaScale | null,
+        keyboardMapping: null as KeyboardMapping | null,
+      },
+      progression: null as ChordProgression | null,
+      beat: 0,
+    },
+    planets: [
+      {
+        id: 'planet-1',
+        type: 'planet',
+        position: { x: 150, y: 0 },
+        velocity: { x: 0, y: -1 },
+        mass: 100,
+        rotation: 0,
+        rotationSpeed: 'quarter',
+        noteSequence: ['I4', 'V3'],
+        currentNoteIndex: 0,
+        synthType: 'Synth',
+        patch: defaultSynthPatch('Synth'),
+        samples: [{ id: 'sample-1', name: 'Kick', note: 'C3', url: 'data:audio/wav;base64,AAAA' }],
+        orbitRadius: 150,
+        orbitAngle: 0,
+        effects: [
+          { id: 'reverb-1', type: 'reverb', bypassed: false, params: { decay: 2, wet: 0.3 } },
+        ],
+        modulations: [
+          {
+            id: 'mod-1',
+            source: 'starDistance',
+            sourceMin: 100,
+            sourceMax: 300,
+            target: { effectId: 'reverb-1' as string | null, param: 'wet' },
+            min: 0.6,
+            max: 0.1,
+            curve: 'linear',
+          },
+        ],
+      },
+    ],
+    satellites: [
+      {
+        id: 'satellite-1',
+        type: 'satellite',
+        parentPlanetId: 'planet-1',
+        position: { x: 180, y: 0 },
+        orbitRadius: 30,
+        orbitAngle: 0,
+        orbitSpeed: 0.002,
+        eccentricity: 0,
+        argumentOfPeriapsis: 0,
+        triggerPoint: 'top',
+        lastTriggerAngle: 0,
+        sampleId: 'sample-1' as string | null,
+      },
+    ],
+    comets: [
+      {
+        id: 'comet-1',
+        type: 'comet',
+        position: { x: 400, y: 0 },
+        velocity: { x: 0, y: -2 },
+        mass: 10,
+        note: 'V5',
+        synthType: 'FMSynth',
+        triggerRadius: 40,
+        nearbyBodyIds: [],
+      },
+    ],
+    timeScale: 1,
+    gravityStrength: 1,
+    satelliteHandoff: false,
+    stereoWidth: 1,
+    satellitePanning: false,
+    presets: [{ name: 'Bell', synthType: 'FMSynth', patch: defaultSynthPatch('FMSynth') }],
+    timeline: [
+      { unit: 'bar', at: 32, every: null, key: 'A', transpose: 0, mode: 'Aeolian', bpm: null, glideBars: 0 },
+    ] as TimelineEvent[],
+    timelineRevolutions: 3,
+    bpmGlide: { from: 120, to: 90, startBeat: 16, beats: 8 } as BpmGlide | null,
+    timelineOrigin: { key: 'C', mode: 'Ionian', bpm: 120 } as Record<string, unknown> | null,
+    midiBindings: [
+      { target: 'gravity', planetId: null, channel: 1, controller: 74 },
+      { target: 'planetMass', planetId: 'planet-1', channel: 2, controller: 1 },
+    ],
+  };
+}
+
+function errorPaths(input: unknown): string[] {
+  const result = validateSolarSystemState(input);
+  return result.valid ? [] : result.errors.map((e) => e.path);
+}
+
+describe('validateSolarSystemState', () => {
+  it('accepts a well-formed state', () => {
+    const result = validateSolarSystemState(validState());
+    expect(result.valid).toBe(true);
+  });
+
+  it('accepts a state with no star', () => {
+    expect(validateSolarSystemState({ ...validState(), star: null }).valid).toBe(true);
+  });
+
+  it('rejects non-object input', () => {
+    expect(validateSolarSystemState('hello').valid).toBe(false);
+    expect(validateSolarSystemState([]).valid).toBe(false);
+  });
+
+  it('accepts rests, accidentals, velocities and chords as steps', () => {
+    const state = validState();
+    state.planets[0].noteSequence = ['-', 'bIII4!0.5', '[I4 #IV4 V4]'];
+    expect(errorPaths(state)).toEqual([]);
+  });
+
+  it('reports steps that aren\'t a single step in canonical form', () => {
+    const state = validState();
+    state.planets[0].noteSequence = ['I4 V4', '(I4)x2', 'V', 'V4!1'];
+    expect(errorPaths(state)).toEqual([
+      'planets[0].noteSequence[0]',
+      'planets[0].noteSequence[1]',
+      'planets[0].noteSequence[2]',
+      'planets[0].noteSequence[3]',
+    ]);
+  });
+
+  it('reports bad ScaleDegree tokens with their index', () => {
+    const state = validState();
+    state.planets[0].noteSequence = ['I4', 'XIII4', 'X'];
+    expect(errorPaths(state)).toEqual([
+      'planets[0].noteSequence[1]',
+      'planets[0].noteSequence[2]',
+    ]);
+  });
+
+  it('accepts degrees past the star\'s scale, which a later mode change can leave behind', () => {
+    const state = validState();
+    state.star.mode = 'MajorPentatonic';
+    state.planets[0].noteSequence = ['I4', 'VII4', 'VIII4'];
+    expect(errorPaths(state)).toEqual([]);
+  });
+
+  it('reports unknown MusicalKey and MusicalMode', () => {
+    const state = validState();
+    state.star.key = 'H';
+    state.star.mode = 'Hypolydian';
+    expect(errorPaths(state)).toEqual(['star.key', 'star.mode']);
+  });
+
+  it('accepts an imported Scala scale and keyboard mapping', () => {
+    const state = validState();
+    state.star.tuning.system = 'scala';
+    state.star.tuning.scale = { name: 'a.scl', description: '', cents: [200, 700, 1200] };
+    state.star.tuning.keyboardMapping = {
+      name: 'a.kbm',
+      size: 3,
+      firstNote: 0,
+      lastNote: 127,
+      middleNote: 60,
+      referenceNote: 69,
+      referenceFrequency: 432,
+      octaveDegree: 3,
+      mapping: [0, null, 2],
+    };
+    expect(errorPaths(state)).toEqual([]);
+  });
+
+  it('reports bad tunings', () => {
+    const state = validState();
+    state.star.tuning.system = 'edo12';
+    state.star.tuning.referenceFrequency = 1000;
+    expect(errorPaths(state)).toEqual(['star.tuning.system', 'star.tuning.referenceFrequency']);
+  });
+
+  it('requires a scale for the Scala tuning system and checks its pitches ascend', () => {
+    const state = validState();
+    state.star.tuning.system = 'scala';
+    expect(errorPaths(state)).toEqual(['star.tuning.scale']);
+    state.star.tuning.scale = { name: 'a.scl', description: '', cents: [700, 200] };
+    expect(errorPaths(state)).toEqual(['star.tuning.scale.cents[1]']);
+  });
+
+  it('reports keyboard mappings whose entries don\'t match their size', () => {
+    const state = validState();
+    state.star.tuning.keyboardMapping = {
+      name: 'a.kbm',
+      size: 2,
+      firstNote: 0,
+      lastNote: 200,
+      middleNote: 60,
+      referenceNote: 69,
+      referenceFrequency: 440,
+      octaveDegree: 12,
+      mapping: [0],
+    };
+    expect(errorPaths(state)).toEqual(['star.tuning.keyboardMapping.lastNote', 'star.tuning.keyboardMapping.mapping']);
+  });
+
+  it('accepts a chord progression and reports bad ones', () => {
+    const state = validState();
+    state.star.progression = { chords: ['I', 'vi', 'IV', 'V7'], barsPerChord: 2, follow: 'snap' };
+    expect(validateSolarSystemState(state).valid).toBe(true);
+    state.star.progression = { chords: ['I', 'Q'], barsPerChord: 1.5, follow: 'drift' as ChordProgression['follow'] };
+    state.star.beat = -1;
+    expect(errorPaths(state)).toEqual([
+      'star.progression.chords[1]',
+      'star.progression.barsPerChord',
+      'star.progression.follow',
+      'star.beat',
+    ]);
+  });
+
+  it('reports unknown SynthType', () => {
+    const state = validState();
+    state.planets[0].synthType = 'Theremin';
+    expect(errorPaths(state)).toEqual(['planets[0].synthType']);
+  });
+
+  it('reports negative and zero masses', () => {
+    const state = validState();
+    state.star.mass = 0;
+    state.planets[0].mass = -10;
+    expect(errorPaths(state)).toEqual(['star.mass', 'planets[0].mass']);
+  });
+
+  it('reports dangling parentPlanetId', () => {
+    const state = validState();
+    state.satellites[0].parentPlanetId = 'planet-99';
+    expect(errorPaths(state)).toEqual(['satellites[0].parentPlanetId']);
+  });
+
+  it('reports an out-of-range eccentricity and unknown trigger point', () => {
+    const state = validState();
+    state.satellites[0].eccentricity = 1;
+    state.satellites[0].triggerPoint = 'apoapsis';
+    expect(errorPaths(state)).toEqual(['satellites[0].eccentricity', 'satellites[0].triggerPoint']);
+  });
+
+  it('reports an out-of-range currentNoteIndex', () => {
+    const state = validState();
+    state.planets[0].currentNoteIndex = 5;
+    expect(errorPaths(state)).toEqual(['planets[0].currentNoteIndex']);
+  });
+
+  it('reports duplicate ids', () => {
+    const state = validState();
+    state.planets.push({ ...state.planets[0] });
+    expect(errorPaths(state)).toEqual(['planets[1].id']);
+  });
+
+  it('reports non-finite vector components', () => {
+    const state = validState();
+    state.planets[0].position = { x: NaN, y: 0 };
+    expect(errorPaths(state)).toEqual(['planets[0].position.x']);
+  });
+
+  it('reports missing top-level arrays', () => {
+    const { planets: _p, satellites: _s, ...rest } = validState();
+    // Without planets, the planetMass binding would also be reported
+    rest.midiBindings = rest.midiBindings.filter((b) => b.planetId === null);
+    expect(errorPaths(rest)).toEqual(['planets', 'satellites']);
+  });
+
+  it('collects every issue rather than stopping at the first', () => {
+    const state = validState();
+    state.star.bpm = 1000;
+    state.planets[0].rotationSpeed = 'dotted';
+    state.timeScale = -1;
+    expect(errorPaths(state)).toHaveLength(3);
+  });
+
+  it('requires satelliteHandoff to be a boolean', () => {
+    expect(errorPaths({ ...validState(), satelliteHandoff: 'yes' })).toEqual(['satelliteHandoff']);
+  });
+
+  it('requires a stereo width between 0 and 1 and a boolean satellitePanning', () => {
+    expect(errorPaths({ ...validState(), stereoWidth: 1.5 })).toEqual(['stereoWidth']);
+    expect(errorPaths({ ...validState(), stereoWidth: -0.1 })).toEqual(['stereoWidth']);
+    expect(errorPaths({ ...validState(), satellitePanning: 1 })).toEqual(['satellitePanning']);
+  });
+});
+
+describe('validateSolarSystemState — MIDI bindings', () => {
+  it('requires midiBindings to be an array', () => {
+    expect(errorPaths({ ...validState(), midiBindings: {} })).toEqual(['midiBindings']);
+  });
+
+  it('reports an unknown target and out-of-range channel and controller', () => {
+    const state = validState();
+    state.midiBindings = [{ target: 'reverb', planetId: null, channel: 17, controller: 128 }];
+    expect(errorPaths(state)).toEqual([
+      'midiBindings[0].target',
+      'midiBindings[0].channel',
+      'midiBindings[0].controller',
+    ]);
+  });
+
+  it('requires a planet for planetMass bindings and none otherwise', () => {
+    const state = validState();
+    state.midiBindings = [
+      { target: 'planetMass', planetId: null, channel: 1, controller: 1 },
+      { target: 'bpm', planetId: 'planet-1', channel: 1, controller: 2 },
+    ];
+    expect(errorPaths(state)).toEqual(['midiBindings[0].planetId', 'midiBindings[1].planetId']);
+  });
+
+  it('reports a planetMass binding to a planet not in the file', () => {
+    const state = validState();
+    state.midiBindings = [{ target: 'planetMass', planetId: 'planet-9', channel: 1, controller: 1 }];
+    const result = validateSolarSystemState(state);
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors).toEqual([
+        { path: 'midiBindings[0].planetId', message: 'references unknown planet "planet-9"' },
+      ]);
+    }
+  });
+});
+
+describe('validateSolarSystemState — effects', () => {
+  const reverb = validState().planets[0].effects[0];
+
+  function withEffects(effects: unknown) {
+    const state = validState();
+    return { ...state, planets: [{ ...state.planets[0], effects, modulations: [] }] };
+  }
+
+  it('requires effects to be an array', () => {
+    expect(errorPaths(withEffects(undefined))).toEqual(['planets[0].effects']);
+  });
+
+  it('reports an unknown effect type and a non-boolean bypass', () => {
+    expect(errorPaths(withEffects([{ ...reverb, type: 'flanger', bypassed: 'no' }]))).toEqual([
+      'planets[0].effects[0].bypassed',
+      'planets[0].effects[0].type',
+    ]);
+  });
+
+  it('reports out-of-range and missing parameters', () => {
+    expect(errorPaths(withEffects([{ ...reverb, params: { decay: 50 } }]))).toEqual([
+      'planets[0].effects[0].params.decay',
+      'planets[0].effects[0].params.wet',
+    ]);
+  });
+
+  it('reports too many effects and duplicate ids', () => {
+    const paths = errorPaths(withEffects(Array.from({ length: 7 }, () => reverb)));
+    expect(paths[0]).toBe('planets[0].effects');
+    expect(paths.slice(1)).toEqual([1, 2, 3, 4, 5, 6].map((i) => `planets[0].effects[${i}].id`));
+  });
+});
+
+describe('validateSolarSystemState — modulation', () => {
+  const base = validState().planets[0].modulations[0];
+
+  function withModulations(modulations: unknown) {
+    const state = validState();
+    return { ...state, planets: [{ ...state.planets[0], modulations }] };
+  }
+
+  it('requires modulations to be an array', () => {
+    expect(errorPaths(withModulations(null))).toEqual(['planets[0].modulations']);
+  });
+
+  it('reports an unknown source and curve and a non-finite source range', () => {
+    expect(
+      errorPaths(withModulations([{ ...base, source: 'temperature', curve: 'sine', sourceMax: NaN }]))
+    ).toEqual([
+      'planets[0].modulations[0].source',
+      'planets[0].modulations[0].curve',
+      'planets[0].modulations[0].sourceMax',
+    ]);
+  });
+
+  it('reports a target that is not in the planet', () => {
+    expect(
+      errorPaths(withModulations([{ ...base, target: { effectId: 'filter-1', param: 'frequency' } }]))
+    ).toEqual(['planets[0].modulations[0].target']);
+    expect(
+      errorPaths(withModulations([{ ...base, target: { effectId: 'reverb-1', param: 'decay' } }]))
+    ).toEqual(['planets[0].modulations[0].target']);
+  });
+
+  it('checks the target values against the parameter range', () => {
+    expect(errorPaths(withModulations([{ ...base, min: 2 }]))).toEqual(['planets[0].modulations[0].min']);
+    expect(
+      errorPaths(withModulations([{ ...base, target: { effectId: null, param: 'detune' }, min: -1200, max: 1200 }]))
+    ).toEqual([]);
+  });
+
+  it('reports too many routes and duplicate ids', () => {
+    const paths = errorPaths(withModulations(Array.from({ length: 9 }, () => base)));
+    expect(paths[0]).toBe('planets[0].modulations');
+    expect(paths).toHaveLength(9);
+  });
+});
+
+describe('validateSolarSystemState — synth patches and presets', () => {
+  function withPatch(patch: unknown) {
+    const state = validState();
+    return { ...state, planets: [{ ...state.planets[0], patch }] };
+  }
+
+  it('requires a patch object on each planet', () => {
+    expect(errorPaths(withPatch(undefined))).toEqual(['planets[0].patch']);
+  });
+
+  it('reports an unknown waveform and out-of-range parameters', () => {
+    const patch = defaultSynthPatch('Synth');
+    expect(
+      errorPaths(
+        withPatch({
+          ...patch,
+          oscillator: 'pulse',
+          envelope: { ...patch.envelope, sustain: 2 },
+          modulationIndex: -1,
+          filterEnvelope: { ...patch.filterEnvelope, baseFrequency: 5 },
+        })
+      )
+    ).toEqual([
+      'planets[0].patch.oscillator',
+      'planets[0].patch.envelope.sustain',
+      'planets[0].patch.modulationIndex',
+      'planets[0].patch.filterEnvelope.baseFrequency',
+    ]);
+  });
+
+  it('requires presets to be an array', () => {
+    expect(errorPaths({ ...validState(), presets: {} })).toEqual(['presets']);
+  });
+
+  it('reports an invalid preset and duplicate preset names', () => {
+    const state = validState();
+    const bell = state.presets[0];
+    state.presets = [bell, { ...bell, synthType: 'Theremin' }, { ...bell, name: '' }];
+    expect(errorPaths(state)).toEqual(['presets[1].synthType', 'presets[1].name', 'presets[2].name']);
+  });
+});
+
+describe('validateSolarSystemState — samples', () => {
+  const kick = validState().planets[0].samples[0];
+
+  function withSamples(samples: unknown) {
+    const state = validState();
+    return { ...state, planets: [{ ...state.planets[0], samples }] };
+  }
+
+  it('requires samples to be an array', () => {
+    expect(errorPaths(withSamples(null))).toEqual(['planets[0].samples']);
+  });
+
+  it('reports a bad root note and a non-audio URL', () => {
+    expect(errorPaths(withSamples([{ ...kick, note: 'H2', url: 'https://example.com/kick.wav' }]))).toEqual([
+      'planets[0].samples[0].url',
+      'planets[0].samples[0].note',
+    ]);
+  });
+
+  it('reports duplicate root notes and ids', () => {
+    expect(errorPaths(withSamples([kick, { ...kick, name: 'Kick 2' }]))).toEqual([
+      'planets[0].samples[1].note',
+      'planets[0].samples[1].id',
+    ]);
+  });
+
+  it('allows a satellite no sample but not an empty sample id', () => {
+    const state = validState();
+    state.satellites[0].sampleId = null;
+    expect(errorPaths(state)).toEqual([]);
+    state.satellites[0].sampleId = '';
+    expect(errorPaths(state)).toEqual(['satellites[0].sampleId']);
+  });
+
+  it('does not allow a Sampler comet', () => {
+    const state = validState();
+    state.comets[0].synthType = 'Sampler';
+    expect(errorPaths(state)).toEqual(['comets[0].synthType']);
+  });
+});
+
+describe('validateSolarSystemState — timeline', () => {
+  it('requires the timeline to be an array', () => {
+    expect(errorPaths({ ...validState(), timeline: {} })).toEqual(['timeline']);
+  });
+
+  it('accepts repeating, transposing and gliding events', () => {
+    const state = validState();
+    state.timeline.push({
+      unit: 'revolution',
+      at: 8,
+      every: 8,
+      key: null,
+      transpose: -2,
+      mode: null,
+      bpm: 90.5,
+      glideBars: 4,
+    });
+    expect(validateSolarSystemState(state).valid).toBe(true);
+  });
+
+  it('reports each bad field', () => {
+    const state = validState();
+    state.timeline = [
+      {
+        unit: 'beat' as TimelineEvent['unit'],
+        at: 0,
+        every: 1.5,
+        key: 'H' as TimelineEvent['key'],
+        transpose: 12,
+        mode: 'Lydianish' as TimelineEvent['mode'],
+        bpm: 0,
+        glideBars: -1,
+      },
+    ];
+    expect(errorPaths(state)).toEqual([
+      'timeline[0].unit',
+      'timeline[0].at',
+      'timeline[0].every',
+      'timeline[0].key',
+      'timeline[0].transpose',
+      'timeline[0].mode',
+      'timeline[0].bpm',
+      'timeline[0].glideBars',
+    ]);
+  });
+
+  it('accepts a system with no glide or origin yet', () => {
+    const state = { ...validState(), timelineRevolutions: 0, bpmGlide: null, timelineOrigin: null };
+    expect(validateSolarSystemState(state).valid).toBe(true);
+  });
+
+  it('reports a bad revolution count, glide and origin', () => {
+    const state = {
+      ...validState(),
+      timelineRevolutions: 1.5,
+      bpmGlide: { from: 0, to: 90, startBeat: -1, beats: 0 },
+      timelineOrigin: { key: 'H', mode: 'Ionian', bpm: 120 },
+    };
+    expect(errorPaths(state)).toEqual([
+      'timelineRevolutions',
+      'bpmGlide.from',
+      'bpmGlide.startBeat',
+      'bpmGlide.beats',
+      'timelineOrigin.key',
+    ]);
+    expect(errorPaths({ ...validState(), bpmGlide: 90, timelineOrigin: 'C' })).toEqual(['bpmGlide', 'timelineOrigin']);
+  });
+});
+
+describe('validateSolarSystemState — comets', () => {
+  it('reports an invalid comet note and synth type', () => {
+    const state = validState();
+    state.comets[0].note = 'XIII5';
+    state.comets[0].synthType = 'Kazoo';
+    expect(errorPaths(state)).toEqual(['comets[0].synthType', 'comets[0].note']);
+  });
+
+  it('reports a non-positive comet mass', () => {
+    const state = validState();
+    state.comets[0].mass = 0;
+    expect(errorPaths(state)).toEqual(['comets[0].mass']);
+  });
+
+  it('reports a missing comets array', () => {
+    const { comets: _comets, ...state } = validState();
+    expect(errorPaths(state)).toEqual(['comets']);
+  });
+});
+
+describe('formatValidationIssue', () => {
+  it('prefixes the message with the path', () => {
+    const issue: ValidationIssue = { path: 'planets[0].mass', message: 'must be greater than 0' };
+    expect(formatValidationIssue(issue)).toBe('planets[0].mass: must be greater than 0');
+  });
+
+  it('omits an empty path', () => {
+    expect(formatValidationIssue({ path: '', message: 'bad' })).toBe('bad');
+  });
+});
@@ -3,6 +3,7 @@ import type {
   Star,
   Planet,
   Satellite,
+  Comet,
   SolarSystem,
   Vector2D,
   ScaleDegree,
@@ -10,6 +11,8 @@ import type {
   MusicalMode,
   NoteDuration,
 } from '@/types/celestial';
+import { defaultSynthPatch } from '@/lib/audio/patches';
+import { defaultTuning } from '@/lib/audio/tuning';
 
 describe('Celestial Types', () => {
   describe('Vector2D', () => {
@@ -61,6 +64,24 @@ describe('Celestial Types', () => {
       ];
       expect(modes).toHaveLength(7);
     });
+
+    it('should include the extended scales', () => {
+      const scales: MusicalMode[] = [
+        'HarmonicMinor',
+        'MelodicMinor',
+        'MajorPentatonic',
+        'MinorPentatonic',
+        'Blues',
+        'WholeTone',
+        'Diminished',
+        'Hijaz',
+        'DoubleHarmonic',
+        'Hirajoshi',
+        'InSen',
+        'Pelog',
+      ];
+      expect(scales).toHaveLength(12);
+    });
   });
 
   describe('NoteDuration', () => {
@@ -86,6 +107,9 @@ describe('Celestial Types', () => {
         bpm: 120,
         key: 'C',
         mode: 'Ionian',
+        tuning: defaultTuning(),
+        progression: null,
+        beat: 0,
         physicsBody: null,
       };
 
@@ -113,8 +137,12 @@ describe('Celestial Types', () => {
         noteSequence: ['I4', 'V3', 'VI4'],
         currentNoteIndex: 0,
         synthType: 'Synth',
+        patch: defaultSynthPatch('Synth'),
+        samples: [],
         orbitRadius: 100,
         orbitAngle: 0,
+        effects: [],
+        modulations: [],
         physicsBody: null,
       };
 
@@ -145,8 +173,12 @@ describe('Celestial Types', () => {
         noteSequence: ['I4', 'V3', 'VI4'],
         currentNoteIndex: 2,
         synthType: 'Synth',
+        patch: defaultSynthPatch('Synth'),
+        samples: [],
         orbitRadius: 100,
         orbitAngle: 0,
+        effects: [],
+        modulations: [],
         physicsBody: null,
       };
 
@@ -167,7 +199,11 @@ describe('Celestial Types', () => {
         orbitRadius: 20,
         orbitAngle: 0,
         orbitSpeed: 0.1,
+        eccentricity: 0,
+        argumentOfPeriapsis: 0,
+        triggerPoint: 'top',
         lastTriggerAngle: -1,
+        sampleId: null,
         physicsBody: null,
       };
 
@@ -183,15 +219,46 @@ describe('Celestial Types', () => {
     });
   });
 
+  describe('Comet', () => {
+    it('should have all required properties', () => {
+      const comet: Comet = {
+        id: 'comet-1',
+        type: 'comet',
+        position: { x: 300, y: 0 },
+        velocity: { x: 0, y: -2 },
+        mass: 10,
+        note: 'I5',
+        synthType: 'FMSynth',
+        triggerRadius: 40,
+        nearbyBodyIds: [],
+        physicsBody: null,
+      };
+
+      expect(comet.type).toBe('comet');
+      expect(comet.note).toBe('I5');
+      expect(comet.triggerRadius).toBe(40);
+      expect(comet.nearbyBodyIds).toEqual([]);
+      expect(comet.physicsBody).toBeNull();
+    });
+  });
+
   describe('SolarSystem', () => {
     it('should have all required properties', () => {
       const solarSystem: SolarSystem = {
         star: null,
         planets: [],
         satellites: [],
+        comets: [],
+        dust: [],
         isPlaying: false,
         timeScale: 1,
         gravityStrength: 1,
+        satelliteHandoff: false,
+        midiBindings: [],
+        stereoWidth: 1,
+        satellitePanning: false,
+        presets: [],
+        timeline: [],
       };
 
       expect(solarSystem.star).toBeNull();
@@ -212,6 +279,9 @@ describe('Celestial Types', () => {
           bpm: 120,
           key: 'C',
           mode: 'Ionian',
+          tuning: defaultTuning(),
+          progression: null,
+          beat: 0,
           physicsBody: null,
         },
         planets: [
@@ -226,8 +296,12 @@ describe('Celestial Types', () => {
             noteSequence: ['I4'],
             currentNoteIndex: 0,
             synthType: 'Synth',
+            patch: defaultSynthPatch('Synth'),
+            samples: [],
             orbitRadius: 100,
             orbitAngle: 0,
+            effects: [],
+            modulations: [],
             physicsBody: null,
           },
         ],
@@ -240,13 +314,25 @@ describe('Celestial Types', () => {
             orbitRadius: 20,
             orbitAngle: 0,
             orbitSpeed: 0.1,
+            eccentricity: 0,
+            argumentOfPeriapsis: 0,
+            triggerPoint: 'top',
             lastTriggerAngle: -1,
+            sampleId: null,
             physicsBody: null,
           },
         ],
+        comets: [],
+        dust: [],
         isPlaying: true,
         timeScale: 1.5,
         gravityStrength: 1.2,
+        satelliteHandoff: true,
+        midiBindings: [{ target: 'gravity', planetId: null, channel: 1, controller: 74 }],
+        stereoWidth: 0.5,
+        satellitePanning: true,
+        presets: [{ name: 'Bell', synthType: 'FMSynth', patch: defaultSynthPatch('FMSynth') }],
+        timeline: [{ unit: 'bar', at: 32, every: null, key: 'A', transpose: 0, mode: 'Aeolian', bpm: null, glideBars: 0 }],
       };
 
       expect(solarSystem.planets).toHaveLength(1);
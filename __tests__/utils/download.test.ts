@@ -0,0 +1,34 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { downloadBlob, timestampedFilename } from '@/utils/download';
+
+describe('timestampedFilename', () => {
+  it('stamps the name with the date, safe for file systems', () => {
+    expect(timestampedFilename(new Date('2025-01-31T12:00:00.123Z'), 'json')).toBe(
+      'solar-system-2025-01-31T12-00-00.json'
+    );
+  });
+});
+
+describe('downloadBlob', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('clicks a link to an object URL with the filename, then cleans up', () => {
+    const createObjectURL = vi.fn().mockReturnValue('blob:test');
+    const revokeObjectURL = vi.fn();
+    vi.stubGlobal('URL', { createObjectURL, revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      expect(this.download).toBe('song.mid');
+      expect(this.getAttribute('href')).toBe('blob:test');
+    });
+
+    downloadBlob(new Uint8Array([1, 2]).buffer, 'audio/midi', 'song.mid');
+
+    const blob = createObjectURL.mock.calls[0][0] as Blob;
+    expect(blob.type).toBe('audio/midi');
+    expect(blob.size).toBe(2);
+    expect(click).toHaveBeenCalledOnce();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:test');
+    expect(document.querySelector('a')).toBeNull();
+    click.mockRestore();
+  });
+});
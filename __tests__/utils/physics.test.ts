@@ -4,6 +4,12 @@ import {
   PHYSICS_DELTA_MS,
   circularOrbitSpeed,
   circularOrbitVelocity,
+  escapeSpeed,
+  isGravitationallyBound,
+  hillRadius,
+  solveKepler,
+  ellipticalOrbitPoint,
+  meanAnomalyFromTrueAnomaly,
   gravitationalForce,
   orbitalPeriod,
   distance,
@@ -94,6 +100,50 @@ describe('circularOrbitVelocity', () => {
   });
 });
 
+describe('escapeSpeed', () => {
+  it('is √2 times the circular orbit speed', () => {
+    expect(escapeSpeed(1000, 100)).toBeCloseTo(circularOrbitSpeed(1000, 100) * Math.SQRT2, 10);
+  });
+});
+
+describe('isGravitationallyBound', () => {
+  const center = { x: 0, y: 0 };
+  const still = { x: 0, y: 0 };
+
+  it('is bound below escape speed and unbound above it', () => {
+    const vEsc = escapeSpeed(1000, 100);
+    const pos = { x: 100, y: 0 };
+    expect(isGravitationallyBound(pos, { x: 0, y: vEsc * 0.9 }, center, still, 1000)).toBe(true);
+    expect(isGravitationallyBound(pos, { x: 0, y: vEsc * 1.1 }, center, still, 1000)).toBe(false);
+  });
+
+  it('measures speed relative to the central body', () => {
+    const vEsc = escapeSpeed(1000, 100);
+    const moving = { x: 0, y: vEsc * 2 };
+    expect(isGravitationallyBound({ x: 100, y: 0 }, moving, center, moving, 1000)).toBe(true);
+  });
+
+  it('is never bound at zero distance', () => {
+    expect(isGravitationallyBound(center, still, center, still, 1000)).toBe(false);
+  });
+});
+
+describe('hillRadius', () => {
+  it('follows a * cbrt(m / 3M)', () => {
+    expect(hillRadius(150, 100, 50000)).toBeCloseTo(150 * Math.cbrt(100 / 150000), 10);
+  });
+
+  it('grows with orbit distance and planet mass', () => {
+    expect(hillRadius(300, 100, 50000)).toBeGreaterThan(hillRadius(150, 100, 50000));
+    expect(hillRadius(150, 800, 50000)).toBeGreaterThan(hillRadius(150, 100, 50000));
+  });
+
+  it('returns zero for degenerate inputs', () => {
+    expect(hillRadius(0, 100, 50000)).toBe(0);
+    expect(hillRadius(150, 100, 0)).toBe(0);
+  });
+});
+
 describe('gravitationalForce', () => {
   it('returns zero when bodies are at same position', () => {
     const pos = { x: 0, y: 0 };
@@ -167,6 +217,49 @@ describe('orbitalPeriod', () => {
   });
 });
 
+describe('solveKepler', () => {
+  it('satisfies M = E − e·sin(E)', () => {
+    for (const e of [0.1, 0.5, 0.9]) {
+      for (const M of [0.3, 2, -2.5, 7]) {
+        const E = solveKepler(M, e);
+        expect(E - e * Math.sin(E)).toBeCloseTo(M, 8);
+      }
+    }
+  });
+
+  it('returns the mean anomaly for a circle', () => {
+    expect(solveKepler(1.2, 0)).toBe(1.2);
+  });
+});
+
+describe('ellipticalOrbitPoint', () => {
+  it('is at periapsis (1 − e) at M = 0 and apoapsis (1 + e) at M = π', () => {
+    const peri = ellipticalOrbitPoint(0, 0.5);
+    const apo = ellipticalOrbitPoint(Math.PI, 0.5);
+    expect(peri.trueAnomaly).toBeCloseTo(0);
+    expect(peri.radiusFactor).toBeCloseTo(0.5);
+    expect(Math.abs(apo.trueAnomaly)).toBeCloseTo(Math.PI);
+    expect(apo.radiusFactor).toBeCloseTo(1.5);
+  });
+
+  it('moves faster near periapsis than apoapsis', () => {
+    const sweep = (from: number, to: number) => {
+      const d = ellipticalOrbitPoint(to, 0.5).trueAnomaly - ellipticalOrbitPoint(from, 0.5).trueAnomaly;
+      return ((d % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+    };
+    expect(sweep(0, 0.1)).toBeGreaterThan(sweep(Math.PI, Math.PI + 0.1));
+  });
+});
+
+describe('meanAnomalyFromTrueAnomaly', () => {
+  it('inverts ellipticalOrbitPoint', () => {
+    for (const M of [-2, 0.4, 1.5, 3]) {
+      const { trueAnomaly } = ellipticalOrbitPoint(M, 0.6);
+      expect(meanAnomalyFromTrueAnomaly(trueAnomaly, 0.6)).toBeCloseTo(M, 8);
+    }
+  });
+});
+
 describe('distance', () => {
   it('returns 0 for same point', () => {
     expect(distance({ x: 5, y: 5 }, { x: 5, y: 5 })).toBe(0);
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { createRng, hashSeed, randomInt, pickRandom, generateSeed } from '@/utils/random';
+
+describe('hashSeed', () => {
+  it('is deterministic', () => {
+    expect(hashSeed('nebula')).toBe(hashSeed('nebula'));
+  });
+
+  it('differs for different strings', () => {
+    expect(hashSeed('nebula')).not.toBe(hashSeed('nebulb'));
+  });
+
+  it('returns an unsigned 32-bit integer', () => {
+    const h = hashSeed('any seed at all');
+    expect(Number.isInteger(h)).toBe(true);
+    expect(h).toBeGreaterThanOrEqual(0);
+    expect(h).toBeLessThan(2 ** 32);
+  });
+});
+
+describe('createRng', () => {
+  it('produces the same sequence for the same seed', () => {
+    const a = createRng('seed-1');
+    const b = createRng('seed-1');
+    for (let i = 0; i < 20; i++) expect(a()).toBe(b());
+  });
+
+  it('produces different sequences for different seeds', () => {
+    const a = createRng('seed-1');
+    const b = createRng('seed-2');
+    const seqA = Array.from({ length: 5 }, a);
+    const seqB = Array.from({ length: 5 }, b);
+    expect(seqA).not.toEqual(seqB);
+  });
+
+  it('accepts numeric seeds', () => {
+    expect(createRng(42)()).toBe(createRng(42)());
+  });
+
+  it('returns values in [0, 1)', () => {
+    const rng = createRng('range');
+    for (let i = 0; i < 1000; i++) {
+      const v = rng();
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+});
+
+describe('randomInt', () => {
+  it('stays within the inclusive bounds and hits both ends', () => {
+    const rng = createRng('ints');
+    const seen = new Set<number>();
+    for (let i = 0; i < 500; i++) {
+      const v = randomInt(rng, 3, 6);
+      expect(v).toBeGreaterThanOrEqual(3);
+      expect(v).toBeLessThanOrEqual(6);
+      seen.add(v);
+    }
+    expect([...seen].sort()).toEqual([3, 4, 5, 6]);
+  });
+});
+
+describe('pickRandom', () => {
+  it('returns an element of the array', () => {
+    const rng = createRng('pick');
+    const items = ['a', 'b', 'c'];
+    for (let i = 0; i < 50; i++) expect(items).toContain(pickRandom(rng, items));
+  });
+});
+
+describe('generateSeed', () => {
+  it('returns a short alphanumeric string', () => {
+    expect(generateSeed()).toMatch(/^[0-9a-z]{6}$/);
+  });
+});
@@ -4,26 +4,44 @@ import { useState, useCallback } from 'react';
 import Canvas from '@/components/Canvas';
 import Toolbar from '@/components/Toolbar';
 import ControlBar from '@/components/ControlBar';
+import type { RandomizeRequest, WavExportRequest } from '@/types/ui';
 
 export default function Home() {
   const [isPlaying, setIsPlaying] = useState(false);
   const [timeScale, setTimeScale] = useState(1);
   const [gravityStrength, setGravityStrength] = useState(1);
+  const [satelliteHandoff, setSatelliteHandoff] = useState(false);
+  const [stereoWidth, setStereoWidth] = useState(1);
+  const [satellitePanning, setSatellitePanning] = useState(false);
   const [audioReady, setAudioReady] = useState(false);
   const [planetCount, setPlanetCount] = useState(0);
   const [satelliteCount, setSatelliteCount] = useState(0);
+  const [cometCount, setCometCount] = useState(0);
   const [satelliteToolActive, setSatelliteToolActive] = useState(false);
   // Incrementing key signals Canvas to rewind; Canvas resets to 0 after rewinding.
   const [rewindKey, setRewindKey] = useState(0);
+  // Incrementing key signals Canvas to snap everything to the beat grid.
+  const [syncKey, setSyncKey] = useState(0);
+  // Incrementing key signals Canvas to spray a burst of space dust.
+  const [dustKey, setDustKey] = useState(0);
+  // Incrementing key signals Canvas to download the current solar system.
+  const [saveKey, setSaveKey] = useState(0);
+  const [loadFile, setLoadFile] = useState<File | null>(null);
+  const [randomizeRequest, setRandomizeRequest] = useState<RandomizeRequest | null>(null);
+  const [wavExportRequest, setWavExportRequest] = useState<WavExportRequest | null>(null);
+  const [midiRecording, setMidiRecording] = useState(false);
+  const [midiRoutingOpen, setMidiRoutingOpen] = useState(false);
+  const [midiLearnOpen, setMidiLearnOpen] = useState(false);
 
   const handleRewind = useCallback(() => {
     setIsPlaying(false);
     setRewindKey((k) => k + 1);
   }, []);
 
-  const handleCountsChange = useCallback((planets: number, satellites: number) => {
+  const handleCountsChange = useCallback((planets: number, satellites: number, comets: number) => {
     setPlanetCount(planets);
     setSatelliteCount(satellites);
+    setCometCount(comets);
   }, []);
 
   return (
@@ -38,6 +56,7 @@ export default function Home() {
         <Toolbar
           planetCount={planetCount}
           satelliteCount={satelliteCount}
+          cometCount={cometCount}
           onSatelliteToolSelect={() => setSatelliteToolActive(true)}
           satelliteToolActive={satelliteToolActive}
         />
@@ -48,23 +67,58 @@ export default function Home() {
             isPlaying={isPlaying}
             timeScale={timeScale}
             gravityStrength={gravityStrength}
+            satelliteHandoff={satelliteHandoff}
+            stereoWidth={stereoWidth}
+            satellitePanning={satellitePanning}
             onIsPlayingChange={setIsPlaying}
             onAudioReadyChange={setAudioReady}
             onCountsChange={handleCountsChange}
             satelliteToolActive={satelliteToolActive}
             onSatelliteToolActiveChange={setSatelliteToolActive}
             rewindKey={rewindKey}
+            syncKey={syncKey}
+            dustKey={dustKey}
+            saveKey={saveKey}
+            loadFile={loadFile}
+            randomizeRequest={randomizeRequest}
+            wavExportRequest={wavExportRequest}
+            midiRecording={midiRecording}
+            midiRoutingOpen={midiRoutingOpen}
+            onMidiRoutingClose={() => setMidiRoutingOpen(false)}
+            midiLearnOpen={midiLearnOpen}
+            onMidiLearnClose={() => setMidiLearnOpen(false)}
+            onTimeScaleChange={setTimeScale}
+            onGravityChange={setGravityStrength}
+            onSatelliteHandoffChange={setSatelliteHandoff}
+            onStereoWidthChange={setStereoWidth}
+            onSatellitePanningChange={setSatellitePanning}
           />
 
           <ControlBar
             isPlaying={isPlaying}
             timeScale={timeScale}
             gravityStrength={gravityStrength}
+            satelliteHandoff={satelliteHandoff}
+            stereoWidth={stereoWidth}
+            satellitePanning={satellitePanning}
             audioReady={audioReady}
             onPlayPause={() => setIsPlaying((p) => !p)}
             onRewind={handleRewind}
+            onSync={() => setSyncKey((k) => k + 1)}
+            onSprayDust={() => setDustKey((k) => k + 1)}
             onTimeScaleChange={setTimeScale}
             onGravityChange={setGravityStrength}
+            onSatelliteHandoffChange={setSatelliteHandoff}
+            onStereoWidthChange={setStereoWidth}
+            onSatellitePanningChange={setSatellitePanning}
+            onSave={() => setSaveKey((k) => k + 1)}
+            onLoad={setLoadFile}
+            onRandomize={setRandomizeRequest}
+            onExportWav={setWavExportRequest}
+            midiRecording={midiRecording}
+            onToggleMidiRecording={() => setMidiRecording((r) => !r)}
+            onOpenMidiRouting={() => setMidiRoutingOpen(true)}
+            onOpenMidiLearn={() => setMidiLearnOpen(true)}
           />
         </div>
       </div>
@@ -2,6 +2,7 @@
 
 import { useRef, useEffect, useState, useCallback } from 'react';
 import { renderScene, planetRadiusFromMass } from '@/lib/rendering/renderer';
+import { STAR_VISUAL_RADIUS } from '@/lib/entities/star';
 import {
   createViewport,
   zoomToward,
@@ -10,46 +11,152 @@ import {
   resizeViewport,
   screenToWorld,
   worldToScreen,
+  visibleWorldBounds,
 } from '@/lib/rendering/viewport';
-import type { ViewportState } from '@/types/ui';
-import type { Vector2D, Planet } from '@/types/celestial';
+import type { ViewportState, RandomizeRequest, WavExportRequest } from '@/types/ui';
+import type { Vector2D, Planet, Star } from '@/types/celestial';
 import {
   createSimulation,
   addStar,
   addPlanet,
+  addComet,
   addSatellite,
   removePlanet,
   updatePlanetProperties,
+  updateStarProperties,
   playSimulation,
   pauseSimulation,
   rewindSimulation,
+  syncSimulation,
+  randomizeSimulation,
+  sprayDust,
+  cullDust,
+  cullComets,
   setSimulationTimeScale,
   setSimulationGravity,
+  setSimulationSatelliteHandoff,
+  setSimulationStereoWidth,
+  setSimulationSatellitePanning,
   tickSimulation,
   simulationToSceneObjects,
   destroySimulation,
+  startMidiRecording,
+  stopMidiRecording,
+  setSimulationMidiBindings,
+  setSimulationPresets,
+  setSimulationTimeline,
 } from '@/lib/simulation/simulation';
-import type { SimulationState, PlanetUpdateOptions } from '@/lib/simulation/simulation';
-import { initAudioContext, isAudioReady } from '@/lib/audio/context';
+import type { SimulationState, PlanetUpdateOptions, StarUpdateOptions } from '@/lib/simulation/simulation';
+import {
+  serializeSimulation,
+  deserializeSimulation,
+  downloadSolarSystemState,
+  readSolarSystemFile,
+  isSolarSystemFile,
+} from '@/lib/simulation/serialization';
+import { renderSolarSystemWav, downloadWav, bounceFilename } from '@/lib/simulation/bounce';
+import {
+  createAudioScheduler,
+  advanceScheduler,
+  interpolateScene,
+  audibleTime,
+  startAudioScheduler,
+  stopAudioScheduler,
+  isSchedulerRunning,
+  SCHEDULER_INTERVAL_SECONDS,
+} from '@/lib/simulation/scheduler';
+import { encodeMidiFile, downloadMidi } from '@/lib/audio/midi';
+import {
+  createMidiOutputManager,
+  requestMidiOutputs,
+  setMidiOutputPorts,
+  setMidiRoute,
+  sendMidiAllNotesOff,
+} from '@/lib/audio/midiOutput';
+import type { MidiOutputPort, MidiRoute } from '@/lib/audio/midiOutput';
+import {
+  parseControlChange,
+  ccToTargetValue,
+  bindMidiControl,
+  unbindMidiControl,
+  findMidiBindings,
+  loadStoredMidiBindings,
+  pruneMidiBindings,
+  storeMidiBindings,
+  listenToMidiInputs,
+} from '@/lib/audio/midiInput';
+import type { MidiLearnTarget } from '@/lib/audio/midiInput';
+import type { MidiCcBinding, SynthPreset, TimelineEvent } from '@/types/audio';
+import { loadStoredPresets, storePresets, mergePresets } from '@/lib/audio/patches';
+import { drumKitSamples } from '@/lib/audio/samples';
+import { setMidiOutput } from '@/lib/audio/synthManager';
+import type { ValidationIssue } from '@/lib/simulation/validation';
+import { initAudioContext, isAudioReady, setMasterVolume } from '@/lib/audio/context';
+import { SATELLITE_MAX_ECCENTRICITY } from '@/lib/entities/satellite';
+import { distance } from '@/utils/physics';
 import PlacementModal from './PlacementModal';
-import type { PlacementConfirmOptions, StarPlacementOptions, PlanetPlacementOptions } from './PlacementModal';
+import type {
+  PlacementConfirmOptions,
+  StarPlacementOptions,
+  PlanetPlacementOptions,
+  CometPlacementOptions,
+} from './PlacementModal';
 import SatelliteModal from './SatelliteModal';
 import type { SatelliteConfirmOptions } from './SatelliteModal';
 import PlanetEditModal from './PlanetEditModal';
+import StarEditModal from './StarEditModal';
+import LoadErrorModal from './LoadErrorModal';
+import MidiRoutingPanel from './MidiRoutingPanel';
+import MidiLearnPanel from './MidiLearnPanel';
 
 interface CanvasProps {
   className?: string;
   isPlaying: boolean;
   timeScale: number;
   gravityStrength: number;
+  satelliteHandoff: boolean;
+  /** How far voices pan with their distance from the star (0 = mono, 1 = full) */
+  stereoWidth?: number;
+  /** Whether satellite notes pan to each satellite's own side of its planet */
+  satellitePanning?: boolean;
   onIsPlayingChange: (playing: boolean) => void;
   onAudioReadyChange: (ready: boolean) => void;
-  onCountsChange: (planetCount: number, satelliteCount: number) => void;
+  onCountsChange: (planetCount: number, satelliteCount: number, cometCount: number) => void;
   /** Set to true by Toolbar when satellite tool is selected */
   satelliteToolActive: boolean;
   onSatelliteToolActiveChange: (active: boolean) => void;
   /** Incrementing value — Canvas rewinds simulation when this changes */
   rewindKey?: number;
+  /** Incrementing value — Canvas snaps planets and satellites to the beat grid when this changes */
+  syncKey?: number;
+  /** Incrementing value — Canvas sprays a burst of space dust at the view centre when this changes */
+  dustKey?: number;
+  /** Incrementing value — Canvas downloads the current solar system when this changes */
+  saveKey?: number;
+  /** A .json file to load — Canvas replaces the simulation when this changes */
+  loadFile?: File | null;
+  /** Randomize action — Canvas applies it to the planets when this changes */
+  randomizeRequest?: RandomizeRequest | null;
+  /** WAV export — Canvas renders the current solar system offline and downloads it when this changes */
+  wavExportRequest?: WavExportRequest | null;
+  /** While true, planet and satellite notes are recorded; switching it off downloads a .mid file */
+  midiRecording?: boolean;
+  /** Show the MIDI output routing panel */
+  midiRoutingOpen?: boolean;
+  onMidiRoutingClose?: () => void;
+  /** Show the MIDI learn panel for binding controller knobs */
+  midiLearnOpen?: boolean;
+  onMidiLearnClose?: () => void;
+  /** Called with the loaded file's (or a MIDI knob's) time scale so the ControlBar slider stays in sync */
+  onTimeScaleChange?: (value: number) => void;
+  /** Called with the loaded file's (or a MIDI knob's) gravity strength so the ControlBar slider stays in sync */
+  onGravityChange?: (value: number) => void;
+  /** Called with the loaded file's hand-off mode so the ControlBar checkbox stays in sync */
+  onSatelliteHandoffChange?: (enabled: boolean) => void;
+  /** Called with the loaded file's stereo width so the ControlBar slider stays in sync */
+  onStereoWidthChange?: (value: number) => void;
+  /** Called with the loaded file's satellite panning mode so the ControlBar checkbox stays in sync */
+  onSatellitePanningChange?: (enabled: boolean) => void;
 }
 
 // ─── Default demo scene ───────────────────────────────────────────────────────
@@ -88,6 +195,14 @@ function hitTestPlanets(worldPos: Vector2D, sim: SimulationState): Planet | null
   return null;
 }
 
+function hitTestStar(worldPos: Vector2D, sim: SimulationState): Star | null {
+  const { star } = sim.solarSystem;
+  if (!star) return null;
+  const dx = worldPos.x - star.position.x;
+  const dy = worldPos.y - star.position.y;
+  return Math.sqrt(dx * dx + dy * dy) <= STAR_VISUAL_RADIUS * 1.5 ? star : null;
+}
+
 // ─── Component ────────────────────────────────────────────────────────────────
 
 export default function Canvas({
@@ -95,12 +210,31 @@ export default function Canvas({
   isPlaying,
   timeScale,
   gravityStrength,
+  satelliteHandoff,
+  stereoWidth = 1,
+  satellitePanning = false,
   onIsPlayingChange,
   onAudioReadyChange,
   onCountsChange,
   satelliteToolActive,
   onSatelliteToolActiveChange,
   rewindKey,
+  syncKey,
+  dustKey,
+  saveKey,
+  loadFile,
+  randomizeRequest,
+  wavExportRequest,
+  midiRecording = false,
+  midiRoutingOpen = false,
+  onMidiRoutingClose,
+  midiLearnOpen = false,
+  onMidiLearnClose,
+  onTimeScaleChange,
+  onGravityChange,
+  onSatelliteHandoffChange,
+  onStereoWidthChange,
+  onSatellitePanningChange,
 }: CanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -119,24 +253,59 @@ export default function Canvas({
   const rafRef = useRef<number | null>(null);
   const lastTickRef = useRef<number>(performance.now());
 
+  // Once audio is running, the audio clock steps the simulation and the
+  // animation frame only draws; until then the frame loop ticks it directly
+  const schedulerRef = useRef(createAudioScheduler());
+  // Set by the scheduler when impacts or captured dust changed the counts
+  const countsChangedRef = useRef(false);
+
   // ─── Modal / satellite placement state ───────────────────────────────────
 
   const [placementModal, setPlacementModal] = useState<{
-    entityType: 'star' | 'planet';
+    entityType: 'star' | 'planet' | 'comet';
     worldPos: Vector2D;
   } | null>(null);
 
   const [satelliteModal, setSatelliteModal] = useState<{
     planet: Planet;
     clickWorldPos: Vector2D;
+    apoapsisWorldPos?: Vector2D;
   } | null>(null);
 
   const [editModal, setEditModal] = useState<Planet | null>(null);
 
-  // Two-stage satellite placement:
+  // The star is edited live, so the system keeps playing behind this modal
+  const [starEditModal, setStarEditModal] = useState<Star | null>(null);
+  // The simulation's timeline, mirrored while the star edit modal is open
+  const [timeline, setTimeline] = useState<TimelineEvent[]>([]);
+
+  // MIDI output backend — shared by every simulation so routing survives a load
+  const midiOutputRef = useRef(createMidiOutputManager());
+  const [midiPorts, setMidiPorts] = useState<MidiOutputPort[]>([]);
+  const [midiRoutes, setMidiRoutes] = useState<Map<string, MidiRoute>>(new Map());
+  const [midiError, setMidiError] = useState<string | null>(null);
+
+  // MIDI input — the simulation owns the bindings (they're saved with it);
+  // this state mirrors them for the learn panel
+  const [midiBindings, setMidiBindings] = useState<MidiCcBinding[]>([]);
+  const [midiLearnTarget, setMidiLearnTarget] = useState<MidiLearnTarget | null>(null);
+  const [midiInputError, setMidiInputError] = useState<string | null>(null);
+  const midiLearnTargetRef = useRef<MidiLearnTarget | null>(null);
+
+  // Synth preset library — also owned by the simulation, mirrored for the edit modal
+  const [presets, setPresets] = useState<SynthPreset[]>([]);
+
+  const [loadErrors, setLoadErrors] = useState<{
+    fileName: string;
+    errors: ValidationIssue[];
+  } | null>(null);
+
+  // Three-stage satellite placement:
   // stage 1: satelliteToolActive=true, no planet selected yet (clicking to pick a planet)
-  // stage 2: planet selected, clicking to set orbit position
+  // stage 2: planet selected, clicking to set orbit position (periapsis of an ellipse)
+  // stage 3: periapsis set, clicking to set the far side of the orbit (eccentricity)
   const [satellitePlanetId, setSatellitePlanetId] = useState<string | null>(null);
+  const [satellitePeriapsis, setSatellitePeriapsis] = useState<Vector2D | null>(null);
 
   // Mouse position for interactive satellite ring preview
   const mouseWorldRef = useRef<Vector2D | null>(null);
@@ -162,6 +331,25 @@ export default function Canvas({
     simRef.current = setSimulationGravity(simRef.current, gravityStrength);
   }, [gravityStrength]);
 
+  // ─── Sync satelliteHandoff prop → simulation ──────────────────────────────
+
+  useEffect(() => {
+    if (!simRef.current) return;
+    simRef.current = setSimulationSatelliteHandoff(simRef.current, satelliteHandoff);
+  }, [satelliteHandoff]);
+
+  // ─── Sync stereo panning props → simulation ───────────────────────────────
+
+  useEffect(() => {
+    if (!simRef.current) return;
+    simRef.current = setSimulationStereoWidth(simRef.current, stereoWidth);
+  }, [stereoWidth]);
+
+  useEffect(() => {
+    if (!simRef.current) return;
+    simRef.current = setSimulationSatellitePanning(simRef.current, satellitePanning);
+  }, [satellitePanning]);
+
   // ─── Rewind key ───────────────────────────────────────────────────────────
 
   useEffect(() => {
@@ -171,6 +359,168 @@ export default function Canvas({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [rewindKey]);
 
+  // ─── Sync key ─────────────────────────────────────────────────────────────
+
+  useEffect(() => {
+    if (!syncKey || !simRef.current) return;
+    simRef.current = syncSimulation(simRef.current);
+  }, [syncKey]);
+
+  // ─── Dust key ─────────────────────────────────────────────────────────────
+
+  useEffect(() => {
+    if (!dustKey || !simRef.current) return;
+    const { width, height } = viewportRef.current;
+    const center = screenToWorld({ x: width / 2, y: height / 2 }, viewportRef.current);
+    simRef.current = sprayDust(simRef.current, { center });
+  }, [dustKey]);
+
+  // ─── Randomize ────────────────────────────────────────────────────────────
+
+  useEffect(() => {
+    if (!randomizeRequest || !simRef.current) return;
+    const { seed, noteSequences, synthTypes } = randomizeRequest;
+    simRef.current = randomizeSimulation(simRef.current, seed, { noteSequences, synthTypes });
+  }, [randomizeRequest]);
+
+  // ─── Save key ─────────────────────────────────────────────────────────────
+
+  useEffect(() => {
+    if (!saveKey || !simRef.current) return;
+    downloadSolarSystemState(serializeSimulation(simRef.current));
+  }, [saveKey]);
+
+  // ─── WAV export ───────────────────────────────────────────────────────────
+
+  useEffect(() => {
+    if (!wavExportRequest || !simRef.current) return;
+    const state = serializeSimulation(simRef.current);
+    renderSolarSystemWav(state, wavExportRequest)
+      .then((wav) => downloadWav(wav, bounceFilename(state)))
+      .catch((err) => console.warn('WAV export failed:', err));
+  }, [wavExportRequest]);
+
+  // ─── MIDI recording ───────────────────────────────────────────────────────
+
+  useEffect(() => {
+    if (!simRef.current) return;
+    if (midiRecording) {
+      simRef.current = startMidiRecording(simRef.current);
+      return;
+    }
+    const { sim, recording } = stopMidiRecording(simRef.current);
+    simRef.current = sim;
+    if (recording && recording.events.length > 0) {
+      downloadMidi(encodeMidiFile(recording));
+    }
+  }, [midiRecording]);
+
+  // ─── MIDI output ──────────────────────────────────────────────────────────
+
+  useEffect(() => {
+    if (!midiRoutingOpen) return;
+    // Re-query each time the panel opens so newly connected devices appear
+    requestMidiOutputs()
+      .then((ports) => {
+        setMidiOutputPorts(midiOutputRef.current, ports);
+        setMidiPorts(ports);
+        setMidiError(null);
+      })
+      .catch((err) => setMidiError(err instanceof Error ? err.message : String(err)));
+  }, [midiRoutingOpen]);
+
+  const handleMidiRouteChange = useCallback((planetId: string, route: MidiRoute | null) => {
+    const output = midiOutputRef.current;
+    sendMidiAllNotesOff(output);
+    setMidiRoute(output, planetId, route);
+    setMidiRoutes(new Map(output.routes));
+  }, []);
+
+  // ─── MIDI input ───────────────────────────────────────────────────────────
+
+  const applyMidiBindings = useCallback((bindings: MidiCcBinding[]) => {
+    if (simRef.current) simRef.current = setSimulationMidiBindings(simRef.current, bindings);
+    setMidiBindings(bindings);
+    storeMidiBindings(bindings);
+  }, []);
+
+  // ─── Synth presets ────────────────────────────────────────────────────────
+
+  const applyPresets = useCallback((library: SynthPreset[]) => {
+    if (simRef.current) simRef.current = setSimulationPresets(simRef.current, library);
+    setPresets(library);
+    storePresets(library);
+  }, []);
+
+  const handleMidiLearn = useCallback((control: MidiLearnTarget | null) => {
+    midiLearnTargetRef.current = control;
+    setMidiLearnTarget(control);
+  }, []);
+
+  const handleMidiUnbind = useCallback((control: MidiLearnTarget) => {
+    if (!simRef.current) return;
+    applyMidiBindings(unbindMidiControl(simRef.current.solarSystem.midiBindings, control));
+  }, [applyMidiBindings]);
+
+  const handleMidiMessage = useCallback((data: ArrayLike<number>) => {
+    const cc = parseControlChange(data);
+    if (!cc || !simRef.current) return;
+
+    const learning = midiLearnTargetRef.current;
+    if (learning) {
+      applyMidiBindings(bindMidiControl(simRef.current.solarSystem.midiBindings, learning, cc));
+      handleMidiLearn(null);
+      return;
+    }
+
+    for (const binding of findMidiBindings(simRef.current.solarSystem.midiBindings, cc)) {
+      const value = ccToTargetValue(binding.target, cc.value);
+      switch (binding.target) {
+        case 'gravity':
+          onGravityChange?.(value);
+          break;
+        case 'timeScale':
+          onTimeScaleChange?.(value);
+          break;
+        case 'bpm':
+          simRef.current = updateStarProperties(simRef.current, { bpm: value });
+          break;
+        case 'masterVolume':
+          setMasterVolume(value);
+          break;
+        case 'planetMass':
+          if (binding.planetId) {
+            simRef.current = updatePlanetProperties(simRef.current, binding.planetId, { mass: value });
+          }
+          break;
+      }
+    }
+  }, [applyMidiBindings, handleMidiLearn, onGravityChange, onTimeScaleChange]);
+
+  // Only ask for MIDI access once the user opens the panel or has bindings
+  const midiInputActive = midiLearnOpen || midiBindings.length > 0;
+
+  useEffect(() => {
+    if (!midiInputActive) return;
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+    listenToMidiInputs((data) => handleMidiMessage(data))
+      .then((unlisten) => {
+        if (cancelled) unlisten();
+        else stop = unlisten;
+        setMidiInputError(null);
+      })
+      .catch((err) => setMidiInputError(err instanceof Error ? err.message : String(err)));
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
+  }, [midiInputActive, handleMidiMessage]);
+
+  useEffect(() => {
+    if (!midiLearnOpen) handleMidiLearn(null);
+  }, [midiLearnOpen, handleMidiLearn]);
+
   // ─── Sync sim isPlaying → simRef ─────────────────────────────────────────
 
   useEffect(() => {
@@ -188,18 +538,88 @@ export default function Canvas({
 
   const emitCounts = useCallback(() => {
     if (!simRef.current) return;
-    const { planets, satellites } = simRef.current.solarSystem;
-    onCountsChange(planets.length, satellites.length);
+    const { planets, satellites, comets } = simRef.current.solarSystem;
+    onCountsChange(planets.length, satellites.length, comets.length);
   }, [onCountsChange]);
 
+  // ─── Load a saved solar system file ──────────────────────────────────────
+
+  const loadSolarSystemFile = useCallback(async (file: File) => {
+    try {
+      const result = await readSolarSystemFile(file);
+      if (!result.ok) {
+        setLoadErrors({ fileName: file.name, errors: result.errors });
+        return;
+      }
+      const { state } = result;
+      const loaded = deserializeSimulation(state);
+      // A MIDI recording in progress carries on into the loaded system
+      const midiRecorder = simRef.current?.midiRecorder ?? null;
+      if (simRef.current) destroySimulation(simRef.current);
+      setMidiOutput(loaded.synthManager, midiOutputRef.current);
+      simRef.current = { ...loaded, midiRecorder };
+      // Files saved without bindings keep the ones already learned
+      const bindings = state.midiBindings.length > 0
+        ? state.midiBindings
+        : pruneMidiBindings(midiBindings, new Set(state.planets.map((p) => p.id)));
+      applyMidiBindings(bindings);
+      // The file's presets join the library; same-named ones already there are kept
+      applyPresets(mergePresets(presets, state.presets));
+      setPlacementModal(null);
+      setSatelliteModal(null);
+      setEditModal(null);
+      setStarEditModal(null);
+      setLoadErrors(null);
+      onIsPlayingChange(false);
+      onTimeScaleChange?.(state.timeScale);
+      onGravityChange?.(state.gravityStrength);
+      onSatelliteHandoffChange?.(state.satelliteHandoff);
+      onStereoWidthChange?.(state.stereoWidth);
+      onSatellitePanningChange?.(state.satellitePanning);
+      emitCounts();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      setLoadErrors({ fileName: file.name, errors: [{ path: '', message }] });
+    }
+  }, [
+    emitCounts,
+    applyMidiBindings,
+    midiBindings,
+    applyPresets,
+    presets,
+    onIsPlayingChange,
+    onTimeScaleChange,
+    onGravityChange,
+    onSatelliteHandoffChange,
+    onStereoWidthChange,
+    onSatellitePanningChange,
+  ]);
+
+  useEffect(() => {
+    if (!loadFile) return;
+    loadSolarSystemFile(loadFile);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadFile]);
+
   // ─── Initialise simulation once ──────────────────────────────────────────
 
   useEffect(() => {
     const sim = buildDefaultSimulation();
-    simRef.current = sim;
-    onCountsChange(sim.solarSystem.planets.length, sim.solarSystem.satellites.length);
-
+    setMidiOutput(sim.synthManager, midiOutputRef.current);
+    const bindings = pruneMidiBindings(
+      loadStoredMidiBindings(),
+      new Set(sim.solarSystem.planets.map((p) => p.id))
+    );
+    const library = loadStoredPresets();
+    simRef.current = setSimulationPresets(setSimulationMidiBindings(sim, bindings), library);
+    setMidiBindings(bindings);
+    setPresets(library);
+    const { planets, satellites, comets } = sim.solarSystem;
+    onCountsChange(planets.length, satellites.length, comets.length);
+
+    const scheduler = schedulerRef.current;
     return () => {
+      stopAudioScheduler(scheduler);
       if (simRef.current) {
         destroySimulation(simRef.current);
         simRef.current = null;
@@ -247,6 +667,7 @@ export default function Canvas({
   // Keep refs for satellite state so the RAF loop can read them without stale closures
   const satelliteToolActiveRef = useRef(satelliteToolActive);
   const satellitePlanetIdRef = useRef(satellitePlanetId);
+  const satellitePeriapsisRef = useRef(satellitePeriapsis);
   const mouseWorldForRaf = mouseWorldRef;
 
   useEffect(() => {
@@ -257,6 +678,10 @@ export default function Canvas({
     satellitePlanetIdRef.current = satellitePlanetId;
   }, [satellitePlanetId]);
 
+  useEffect(() => {
+    satellitePeriapsisRef.current = satellitePeriapsis;
+  }, [satellitePeriapsis]);
+
   useEffect(() => {
     if (dimensions.width === 0 || dimensions.height === 0) return;
     const canvas = canvasRef.current;
@@ -270,8 +695,30 @@ export default function Canvas({
       lastTickRef.current = timestamp;
 
       if (simRef.current) {
-        simRef.current = tickSimulation(simRef.current, deltaMs);
-        const { objects, starPosition } = simulationToSceneObjects(simRef.current);
+        const scheduler = schedulerRef.current;
+        const scheduled = isSchedulerRunning(scheduler);
+        if (!scheduled) {
+          const { comets: cometsBefore, satellites: satellitesBefore } = simRef.current.solarSystem;
+          simRef.current = tickSimulation(simRef.current, deltaMs);
+          // Comet impacts and captured dust add satellites and comets mid-tick
+          const { comets, satellites } = simRef.current.solarSystem;
+          countsChangedRef.current ||=
+            comets.length !== cometsBefore.length || satellites.length !== satellitesBefore.length;
+        }
+        const bounds = visibleWorldBounds(viewportRef.current);
+        const cometCount = simRef.current.solarSystem.comets.length;
+        simRef.current = cullComets(cullDust(simRef.current, bounds), bounds);
+        countsChangedRef.current ||= simRef.current.solarSystem.comets.length !== cometCount;
+        if (countsChangedRef.current) {
+          countsChangedRef.current = false;
+          emitCounts();
+        }
+        // The scheduled simulation runs ahead of the audio; draw what is being heard
+        const interpolated =
+          scheduled && simRef.current.solarSystem.isPlaying
+            ? interpolateScene(scheduler, audibleTime())
+            : null;
+        const { objects, starPosition } = interpolated ?? simulationToSceneObjects(simRef.current);
         renderScene(ctx, dimensions.width, dimensions.height, objects, viewportRef.current, starPosition);
 
         // Draw satellite placement overlay
@@ -280,7 +727,14 @@ export default function Canvas({
             (p) => p.id === satellitePlanetIdRef.current
           );
           if (planet) {
-            drawSatelliteOverlay(ctx, planet, mouseWorldForRaf.current, viewportRef.current, timestamp);
+            drawSatelliteOverlay(
+              ctx,
+              planet,
+              mouseWorldForRaf.current,
+              satellitePeriapsisRef.current,
+              viewportRef.current,
+              timestamp
+            );
           }
         }
       }
@@ -292,7 +746,7 @@ export default function Canvas({
     return () => {
       if (rafRef.current !== null) cancelAnimationFrame(rafRef.current);
     };
-  }, [dimensions, mouseWorldForRaf]);
+  }, [dimensions, mouseWorldForRaf, emitCounts]);
 
   // ─── Audio initialisation on first interaction ────────────────────────────
 
@@ -306,20 +760,42 @@ export default function Canvas({
     if (simRef.current && isPlayingRef.current) {
       simRef.current = playSimulation(simRef.current);
     }
+    if (ready) {
+      startAudioScheduler(schedulerRef.current, (time) => {
+        if (!simRef.current) return;
+        const { comets: cometsBefore, satellites: satellitesBefore } = simRef.current.solarSystem;
+        simRef.current = advanceScheduler(
+          schedulerRef.current,
+          simRef.current,
+          time + SCHEDULER_INTERVAL_SECONDS
+        );
+        const { comets, satellites } = simRef.current.solarSystem;
+        countsChangedRef.current ||=
+          comets.length !== cometsBefore.length || satellites.length !== satellitesBefore.length;
+      });
+    }
   }, [onAudioReadyChange]);
 
-  // ─── Escape key: cancel satellite mode ───────────────────────────────────
+  // ─── Keyboard: Escape cancels, Space plays/pauses, S syncs ───────────────
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.code === 'Escape') {
         onSatelliteToolActiveChange(false);
         setSatellitePlanetId(null);
+        setSatellitePeriapsis(null);
         setSatelliteModal(null);
         setPlacementModal(null);
         setEditModal(null);
+        setStarEditModal(null);
+        setLoadErrors(null);
+        onMidiRoutingClose?.();
+        onMidiLearnClose?.();
       }
-      if (e.code === 'Space' && simRef.current && !placementModal && !satelliteModal && !editModal) {
+      const modalOpen =
+        placementModal || satelliteModal || editModal || starEditModal || loadErrors ||
+        midiRoutingOpen || midiLearnOpen;
+      if (e.code === 'Space' && simRef.current && !modalOpen) {
         e.preventDefault();
         const newPlaying = !simRef.current.solarSystem.isPlaying;
         if (newPlaying) {
@@ -330,10 +806,28 @@ export default function Canvas({
         }
         onIsPlayingChange(newPlaying);
       }
+      if (
+        e.code === 'KeyS' && !e.ctrlKey && !e.metaKey && !e.altKey &&
+        simRef.current && !modalOpen
+      ) {
+        simRef.current = syncSimulation(simRef.current);
+      }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [onIsPlayingChange, onSatelliteToolActiveChange, placementModal, satelliteModal, editModal]);
+  }, [
+    onIsPlayingChange,
+    onSatelliteToolActiveChange,
+    placementModal,
+    satelliteModal,
+    editModal,
+    starEditModal,
+    loadErrors,
+    midiRoutingOpen,
+    onMidiRoutingClose,
+    midiLearnOpen,
+    onMidiLearnClose,
+  ]);
 
   // ─── Zoom (wheel) ─────────────────────────────────────────────────────────
   // React attaches wheel listeners as passive by default, so e.preventDefault()
@@ -404,8 +898,20 @@ export default function Canvas({
     mouseWorldRef.current = null;
   }, []);
 
-  const handleDoubleClick = useCallback(() => {
+  const handleDoubleClick = useCallback((e: React.MouseEvent) => {
     if (satelliteToolActive) return;
+
+    // Double-click the star to edit it; anywhere else resets the view
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (rect && simRef.current) {
+      const screenPos = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      const star = hitTestStar(screenToWorld(screenPos, viewportRef.current), simRef.current);
+      if (star) {
+        setTimeline(simRef.current.solarSystem.timeline);
+        setStarEditModal(star);
+        return;
+      }
+    }
     viewportRef.current = resetViewport(viewportRef.current);
   }, [satelliteToolActive]);
 
@@ -418,7 +924,15 @@ export default function Canvas({
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
-    const itemType = e.dataTransfer.getData('itemType') as 'star' | 'planet' | '';
+
+    // A dropped .json file replaces the whole solar system
+    const droppedFile = e.dataTransfer.files?.[0];
+    if (droppedFile && isSolarSystemFile(droppedFile)) {
+      loadSolarSystemFile(droppedFile);
+      return;
+    }
+
+    const itemType = e.dataTransfer.getData('itemType') as 'star' | 'planet' | 'comet' | '';
     if (!itemType || !simRef.current) return;
 
     const rect = canvasRef.current?.getBoundingClientRect();
@@ -437,7 +951,7 @@ export default function Canvas({
     }
 
     setPlacementModal({ entityType: itemType, worldPos });
-  }, []);
+  }, [loadSolarSystemFile]);
 
   // ─── Canvas click (planet edit or satellite placement) ───────────────────
 
@@ -459,12 +973,17 @@ export default function Canvas({
         const planetScreen = worldToScreen(hit.position, viewportRef.current);
         viewportRef.current = zoomToward(viewportRef.current, 1.5, planetScreen);
       } else {
-        // Stage 2: place orbit at click position
         const planet = simRef.current.solarSystem.planets.find(
           (p) => p.id === satellitePlanetId
         );
-        if (!planet) { setSatellitePlanetId(null); return; }
-        setSatelliteModal({ planet, clickWorldPos: worldPos });
+        if (!planet) { setSatellitePlanetId(null); setSatellitePeriapsis(null); return; }
+        if (!satellitePeriapsis) {
+          // Stage 2: place orbit (periapsis) at click position
+          setSatellitePeriapsis(worldPos);
+        } else {
+          // Stage 3: the far side of the orbit sets its eccentricity
+          setSatelliteModal({ planet, clickWorldPos: satellitePeriapsis, apoapsisWorldPos: worldPos });
+        }
       }
       return;
     }
@@ -476,7 +995,7 @@ export default function Canvas({
       simRef.current = pauseSimulation(simRef.current);
     }
     setEditModal(hit);
-  }, [satelliteToolActive, satellitePlanetId]);
+  }, [satelliteToolActive, satellitePlanetId, satellitePeriapsis]);
 
   // ─── Placement modal handlers ─────────────────────────────────────────────
 
@@ -493,6 +1012,17 @@ export default function Canvas({
         key: o.key,
         mode: o.mode,
       });
+    } else if (entityType === 'comet') {
+      const o = options as CometPlacementOptions;
+      simRef.current = addComet(simRef.current, {
+        x: worldPos.x,
+        y: worldPos.y,
+        mass: o.mass,
+        note: o.note,
+        synthType: o.synthType,
+        speedFactor: o.speedFactor,
+        clockwise: o.clockwise,
+      });
     } else {
       const o = options as PlanetPlacementOptions;
       simRef.current = addPlanet(simRef.current, {
@@ -502,6 +1032,7 @@ export default function Canvas({
         noteSequence: o.noteSequence,
         rotationSpeed: o.rotationSpeed,
         synthType: o.synthType,
+        samples: o.synthType === 'Sampler' ? drumKitSamples() : undefined,
         clockwise: o.clockwise,
         star: simRef.current.solarSystem.star ?? undefined,
         gravityStrength: simRef.current.solarSystem.gravityStrength,
@@ -535,19 +1066,20 @@ export default function Canvas({
 
     simRef.current = addSatellite(simRef.current, {
       parentPlanetId: planet.id,
-      orbitRadius: options.orbitRadius,
-      startAngle: options.startAngle,
+      ...options,
     });
 
     emitCounts();
     setSatelliteModal(null);
     setSatellitePlanetId(null);
+    setSatellitePeriapsis(null);
     onSatelliteToolActiveChange(false);
   }, [satelliteModal, emitCounts, onSatelliteToolActiveChange]);
 
   const handleSatelliteCancel = useCallback(() => {
     setSatelliteModal(null);
     setSatellitePlanetId(null);
+    setSatellitePeriapsis(null);
     onSatelliteToolActiveChange(false);
   }, [onSatelliteToolActiveChange]);
 
@@ -566,13 +1098,14 @@ export default function Canvas({
   const handleEditDelete = useCallback(() => {
     if (!editModal || !simRef.current) return;
     simRef.current = removePlanet(simRef.current, editModal.id);
+    applyMidiBindings(simRef.current.solarSystem.midiBindings);
     emitCounts();
     setEditModal(null);
     if (isPlayingRef.current) {
       lastTickRef.current = performance.now();
       simRef.current = playSimulation(simRef.current);
     }
-  }, [editModal, emitCounts]);
+  }, [editModal, emitCounts, applyMidiBindings]);
 
   const handleEditCancel = useCallback(() => {
     setEditModal(null);
@@ -582,6 +1115,20 @@ export default function Canvas({
     }
   }, []);
 
+  // ─── Star edit handlers ───────────────────────────────────────────────────
+
+  const handleStarChange = useCallback((options: StarUpdateOptions) => {
+    if (!simRef.current) return;
+    simRef.current = updateStarProperties(simRef.current, options);
+  }, []);
+
+  const getStarBeat = useCallback(() => simRef.current?.solarSystem.star?.beat ?? 0, []);
+
+  const handleTimelineChange = useCallback((events: TimelineEvent[]) => {
+    if (simRef.current) simRef.current = setSimulationTimeline(simRef.current, events);
+    setTimeline(events);
+  }, []);
+
   // ─── Cursor style ─────────────────────────────────────────────────────────
 
   const cursorClass = satelliteToolActive
@@ -642,7 +1189,9 @@ export default function Canvas({
           aria-live="polite"
         >
           <div className="bg-purple-900/80 text-purple-200 text-sm px-4 py-2 rounded-full border border-purple-700">
-            Click to set orbit position · Esc to cancel
+            {satellitePeriapsis
+              ? 'Click the far side of the orbit · same distance for a circle · Esc to cancel'
+              : 'Click to set orbit position · Esc to cancel'}
           </div>
         </div>
       )}
@@ -652,6 +1201,7 @@ export default function Canvas({
         <PlacementModal
           entityType={placementModal.entityType}
           worldPosition={placementModal.worldPos}
+          mode={simRef.current?.solarSystem.star?.mode}
           onConfirm={handlePlacementConfirm}
           onCancel={handlePlacementCancel}
         />
@@ -661,15 +1211,61 @@ export default function Canvas({
         <SatelliteModal
           parentPlanet={satelliteModal.planet}
           clickWorldPos={satelliteModal.clickWorldPos}
+          apoapsisWorldPos={satelliteModal.apoapsisWorldPos}
           onConfirm={handleSatelliteConfirm}
           onCancel={handleSatelliteCancel}
         />
       )}
 
+      {loadErrors && (
+        <LoadErrorModal
+          fileName={loadErrors.fileName}
+          errors={loadErrors.errors}
+          onClose={() => setLoadErrors(null)}
+        />
+      )}
+
+      {starEditModal && (
+        <StarEditModal
+          star={starEditModal}
+          onChange={handleStarChange}
+          onClose={() => setStarEditModal(null)}
+          getBeat={getStarBeat}
+          timeline={timeline}
+          onTimelineChange={handleTimelineChange}
+        />
+      )}
+
+      {midiRoutingOpen && (
+        <MidiRoutingPanel
+          planets={simRef.current?.solarSystem.planets ?? []}
+          ports={midiPorts}
+          routes={midiRoutes}
+          error={midiError}
+          onRouteChange={handleMidiRouteChange}
+          onClose={() => onMidiRoutingClose?.()}
+        />
+      )}
+
+      {midiLearnOpen && (
+        <MidiLearnPanel
+          planets={simRef.current?.solarSystem.planets ?? []}
+          bindings={midiBindings}
+          learning={midiLearnTarget}
+          error={midiInputError}
+          onLearn={handleMidiLearn}
+          onClear={handleMidiUnbind}
+          onClose={() => onMidiLearnClose?.()}
+        />
+      )}
+
       {editModal && (
         <PlanetEditModal
           planet={editModal}
+          mode={simRef.current?.solarSystem.star?.mode}
+          presets={presets}
           onConfirm={handleEditConfirm}
+          onPresetsChange={applyPresets}
           onDelete={handleEditDelete}
           onCancel={handleEditCancel}
         />
@@ -684,6 +1280,7 @@ function drawSatelliteOverlay(
   ctx: CanvasRenderingContext2D,
   planet: Planet,
   mouseWorld: Vector2D | null,
+  periapsis: Vector2D | null,
   viewport: ViewportState,
   timestamp: number
 ): void {
@@ -703,8 +1300,37 @@ function drawSatelliteOverlay(
   ctx.stroke();
   ctx.setLineDash([]);
 
-  // Interactive dashed ring following mouse cursor
-  if (mouseWorld) {
+  // Once periapsis is set, preview the ellipse reaching out to the cursor
+  if (periapsis && mouseWorld) {
+    const rp = distance(periapsis, planet.position);
+    const ra = Math.max(rp, distance(mouseWorld, planet.position));
+    const e = Math.min(SATELLITE_MAX_ECCENTRICITY, (ra - rp) / (ra + rp));
+    const a = (rp / (1 - e)) * viewport.zoom;
+    const w = Math.atan2(periapsis.y - planet.position.y, periapsis.x - planet.position.x);
+
+    ctx.beginPath();
+    ctx.ellipse(
+      planetScreen.x - Math.cos(w) * a * e,
+      planetScreen.y - Math.sin(w) * a * e,
+      a,
+      a * Math.sqrt(1 - e * e),
+      w,
+      0,
+      Math.PI * 2
+    );
+    ctx.strokeStyle = 'rgba(200, 120, 255, 0.35)';
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([4, 6]);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    const periapsisScreen = worldToScreen(periapsis, viewport);
+    ctx.beginPath();
+    ctx.arc(periapsisScreen.x, periapsisScreen.y, 4, 0, Math.PI * 2);
+    ctx.fillStyle = 'rgba(200, 120, 255, 0.8)';
+    ctx.fill();
+  } else if (mouseWorld) {
+    // Interactive dashed ring following mouse cursor
     const dx = mouseWorld.x - planet.position.x;
     const dy = mouseWorld.y - planet.position.y;
     const orbitRadius = Math.sqrt(dx * dx + dy * dy);
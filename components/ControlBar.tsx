@@ -1,26 +1,88 @@
 'use client';
 
+import { useRef, useState } from 'react';
+import type { RandomizeRequest, WavExportRequest } from '@/types/ui';
+import { generateSeed } from '@/utils/random';
+
 interface ControlBarProps {
   isPlaying: boolean;
   timeScale: number;
   gravityStrength: number;
+  /** Whether satellites can be captured by other planets' Hill spheres */
+  satelliteHandoff: boolean;
+  /** How far voices pan with their distance from the star (0 = mono, 1 = full) */
+  stereoWidth: number;
+  /** Whether satellite notes pan to each satellite's own side of its planet */
+  satellitePanning: boolean;
   audioReady: boolean;
   onPlayPause: () => void;
   onRewind: () => void;
+  /** Snap planet rotations and satellite triggers to the star's beat grid */
+  onSync: () => void;
+  /** Spray a burst of space dust that can be captured into orbits */
+  onSprayDust: () => void;
   onTimeScaleChange: (value: number) => void;
   onGravityChange: (value: number) => void;
+  onSatelliteHandoffChange: (enabled: boolean) => void;
+  onStereoWidthChange: (value: number) => void;
+  onSatellitePanningChange: (enabled: boolean) => void;
+  /** Download the current solar system as a JSON file */
+  onSave: () => void;
+  /** Load a solar system from a user-selected JSON file */
+  onLoad: (file: File) => void;
+  /** Randomize planet rotation speeds (and optionally sequences / synths) from a seed */
+  onRandomize: (request: RandomizeRequest) => void;
+  /** Render the solar system offline and download it as a WAV file */
+  onExportWav: (request: WavExportRequest) => void;
+  /** Whether planet and satellite notes are being recorded for MIDI export */
+  midiRecording: boolean;
+  /** Start recording, or stop and download the .mid file */
+  onToggleMidiRecording: () => void;
+  /** Open the panel that routes planets to external MIDI ports */
+  onOpenMidiRouting: () => void;
+  /** Open the panel that binds MIDI controller knobs to simulation controls */
+  onOpenMidiLearn: () => void;
 }
 
 export default function ControlBar({
   isPlaying,
   timeScale,
   gravityStrength,
+  satelliteHandoff,
+  stereoWidth,
+  satellitePanning,
   audioReady,
   onPlayPause,
   onRewind,
+  onSync,
+  onSprayDust,
   onTimeScaleChange,
   onGravityChange,
+  onSatelliteHandoffChange,
+  onStereoWidthChange,
+  onSatellitePanningChange,
+  onSave,
+  onLoad,
+  onRandomize,
+  onExportWav,
+  midiRecording,
+  onToggleMidiRecording,
+  onOpenMidiRouting,
+  onOpenMidiLearn,
 }: ControlBarProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [seed, setSeed] = useState('');
+  const [randomizeNotes, setRandomizeNotes] = useState(false);
+  const [randomizeSynths, setRandomizeSynths] = useState(false);
+  const [wavLength, setWavLength] = useState('8');
+  const [wavUnit, setWavUnit] = useState<WavExportRequest['unit']>('bars');
+  const [wavBitDepth, setWavBitDepth] = useState<WavExportRequest['bitDepth']>(16);
+
+  const randomizeWithSeed = (value: string) => {
+    setSeed(value);
+    onRandomize({ seed: value, noteSequences: randomizeNotes, synthTypes: randomizeSynths });
+  };
+
   return (
     <div
       className="flex items-center gap-4 px-4 py-2 bg-gray-950 border-t border-gray-800 shrink-0"
@@ -48,6 +110,28 @@ export default function ControlBar({
         ⏮
       </button>
 
+      {/* Sync */}
+      <button
+        onClick={onSync}
+        data-testid="sync-button"
+        className="flex items-center justify-center h-9 px-3 rounded-lg bg-gray-800 hover:bg-gray-700 border border-gray-700 hover:border-gray-500 transition-colors text-white text-xs font-medium"
+        aria-label="Sync"
+        title="Sync planets to the beat (S)"
+      >
+        Sync
+      </button>
+
+      {/* Space dust */}
+      <button
+        onClick={onSprayDust}
+        data-testid="dust-button"
+        className="flex items-center justify-center h-9 px-3 rounded-lg bg-gray-800 hover:bg-gray-700 border border-gray-700 hover:border-gray-500 transition-colors text-white text-xs font-medium"
+        aria-label="Spray dust"
+        title="Spray space dust — captured specks become satellites or comets"
+      >
+        Dust
+      </button>
+
       <div className="w-px h-6 bg-gray-700 mx-1" />
 
       {/* Time Scale */}
@@ -90,6 +174,226 @@ export default function ControlBar({
         </span>
       </label>
 
+      {/* Satellite hand-off */}
+      <label
+        className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer select-none"
+        title="Let satellites be captured by other planets that pass close by"
+      >
+        <input
+          type="checkbox"
+          checked={satelliteHandoff}
+          onChange={(e) => onSatelliteHandoffChange(e.target.checked)}
+          data-testid="satellite-handoff-checkbox"
+          className="accent-blue-500"
+        />
+        Hand-off
+      </label>
+
+      {/* Stereo width */}
+      <label className="flex items-center gap-2 text-xs text-gray-400 min-w-0">
+        <span className="shrink-0">Width</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={stereoWidth}
+          onChange={(e) => onStereoWidthChange(parseFloat(e.target.value))}
+          data-testid="stereo-width-slider"
+          className="w-20 accent-blue-500"
+          aria-label="Stereo width"
+          title={`Stereo width: ${Math.round(stereoWidth * 100)}%`}
+        />
+        <span className="shrink-0 w-8 text-gray-300 tabular-nums">
+          {Math.round(stereoWidth * 100)}%
+        </span>
+      </label>
+
+      {/* Satellite panning */}
+      <label
+        className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer select-none"
+        title="Pan each satellite's notes to its own side of its planet (the planet's voice moves with them)"
+      >
+        <input
+          type="checkbox"
+          checked={satellitePanning}
+          onChange={(e) => onSatellitePanningChange(e.target.checked)}
+          data-testid="satellite-panning-checkbox"
+          className="accent-blue-500"
+        />
+        Sat pan
+      </label>
+
+      <div className="w-px h-6 bg-gray-700 mx-1" />
+
+      {/* Save / Load */}
+      <button
+        onClick={onSave}
+        data-testid="save-button"
+        className="flex items-center justify-center w-9 h-9 rounded-lg bg-gray-800 hover:bg-gray-700 border border-gray-700 hover:border-gray-500 transition-colors text-white text-base"
+        aria-label="Save"
+        title="Download solar system (.json)"
+      >
+        ⤓
+      </button>
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        data-testid="load-button"
+        className="flex items-center justify-center w-9 h-9 rounded-lg bg-gray-800 hover:bg-gray-700 border border-gray-700 hover:border-gray-500 transition-colors text-white text-base"
+        aria-label="Load"
+        title="Load solar system (.json) — or drop a file on the canvas"
+      >
+        ⤒
+      </button>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        data-testid="load-file-input"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onLoad(file);
+          // Reset so selecting the same file again still fires onChange
+          e.target.value = '';
+        }}
+      />
+
+      <div className="w-px h-6 bg-gray-700 mx-1" />
+
+      {/* Randomize — the button rolls a new seed; Enter in the field replays a typed one */}
+      <button
+        onClick={() => randomizeWithSeed(generateSeed())}
+        data-testid="randomize-button"
+        className="flex items-center justify-center h-9 px-3 rounded-lg bg-gray-800 hover:bg-gray-700 border border-gray-700 hover:border-gray-500 transition-colors text-white text-xs font-medium"
+        aria-label="Randomize"
+        title="Randomize planet rotation speeds with a new seed"
+      >
+        Random
+      </button>
+
+      <input
+        type="text"
+        value={seed}
+        onChange={(e) => setSeed(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && seed.trim()) randomizeWithSeed(seed.trim());
+        }}
+        placeholder="seed"
+        data-testid="randomize-seed-input"
+        className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white focus:border-blue-500 focus:outline-none"
+        aria-label="Random seed"
+        title="Seed — press Enter to reproduce a result"
+      />
+
+      <label className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={randomizeNotes}
+          onChange={(e) => setRandomizeNotes(e.target.checked)}
+          data-testid="randomize-notes-checkbox"
+          className="accent-blue-500"
+        />
+        Notes
+      </label>
+
+      <label className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={randomizeSynths}
+          onChange={(e) => setRandomizeSynths(e.target.checked)}
+          data-testid="randomize-synths-checkbox"
+          className="accent-blue-500"
+        />
+        Synths
+      </label>
+
+      <div className="w-px h-6 bg-gray-700 mx-1" />
+
+      {/* WAV export — renders offline, so it is faster than real time and glitch-free */}
+      <button
+        onClick={() => {
+          const length = parseFloat(wavLength);
+          if (length > 0) onExportWav({ length, unit: wavUnit, bitDepth: wavBitDepth });
+        }}
+        data-testid="export-wav-button"
+        className="flex items-center justify-center h-9 px-3 rounded-lg bg-gray-800 hover:bg-gray-700 border border-gray-700 hover:border-gray-500 transition-colors text-white text-xs font-medium"
+        aria-label="Export WAV"
+        title="Render the solar system to a .wav file"
+      >
+        WAV
+      </button>
+
+      <input
+        type="number"
+        min={1}
+        value={wavLength}
+        onChange={(e) => setWavLength(e.target.value)}
+        data-testid="export-wav-length-input"
+        className="w-14 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white focus:border-blue-500 focus:outline-none"
+        aria-label="WAV length"
+      />
+
+      <select
+        value={wavUnit}
+        onChange={(e) => setWavUnit(e.target.value as WavExportRequest['unit'])}
+        data-testid="export-wav-unit-select"
+        className="bg-gray-800 border border-gray-700 rounded px-1 py-1 text-xs text-white focus:border-blue-500 focus:outline-none"
+        aria-label="WAV length unit"
+      >
+        <option value="bars">bars</option>
+        <option value="seconds">sec</option>
+      </select>
+
+      <select
+        value={wavBitDepth}
+        onChange={(e) => setWavBitDepth(parseInt(e.target.value, 10) as WavExportRequest['bitDepth'])}
+        data-testid="export-wav-bit-depth-select"
+        className="bg-gray-800 border border-gray-700 rounded px-1 py-1 text-xs text-white focus:border-blue-500 focus:outline-none"
+        aria-label="WAV bit depth"
+      >
+        <option value={16}>16-bit</option>
+        <option value={24}>24-bit</option>
+      </select>
+
+      {/* MIDI recording */}
+      <button
+        onClick={onToggleMidiRecording}
+        data-testid="midi-record-button"
+        className={`flex items-center justify-center h-9 px-3 rounded-lg border transition-colors text-white text-xs font-medium ${
+          midiRecording
+            ? 'bg-red-700 hover:bg-red-600 border-red-500'
+            : 'bg-gray-800 hover:bg-gray-700 border-gray-700 hover:border-gray-500'
+        }`}
+        aria-label={midiRecording ? 'Stop MIDI recording' : 'Record MIDI'}
+        aria-pressed={midiRecording}
+        title={midiRecording ? 'Stop recording and download .mid' : 'Record planet and satellite notes to a .mid file'}
+      >
+        {midiRecording ? '■ MIDI' : '● MIDI'}
+      </button>
+
+      <button
+        onClick={onOpenMidiRouting}
+        data-testid="midi-routing-button"
+        className="flex items-center justify-center h-9 px-3 rounded-lg bg-gray-800 hover:bg-gray-700 border border-gray-700 hover:border-gray-500 transition-colors text-white text-xs font-medium"
+        aria-label="MIDI output"
+        title="Send planets to external MIDI synths"
+      >
+        MIDI Out
+      </button>
+
+      <button
+        onClick={onOpenMidiLearn}
+        data-testid="midi-learn-button"
+        className="flex items-center justify-center h-9 px-3 rounded-lg bg-gray-800 hover:bg-gray-700 border border-gray-700 hover:border-gray-500 transition-colors text-white text-xs font-medium"
+        aria-label="MIDI input"
+        title="Control gravity, speed, BPM, volume and planet mass from MIDI knobs"
+      >
+        MIDI In
+      </button>
+
       {/* Audio hint */}
       {!audioReady && (
         <span
@@ -0,0 +1,71 @@
+'use client';
+
+import type { ValidationIssue } from '@/lib/simulation/validation';
+import { formatValidationIssue } from '@/lib/simulation/validation';
+
+/** Maximum number of issues listed before collapsing the rest into a summary line. */
+const MAX_LISTED_ISSUES = 20;
+
+interface LoadErrorModalProps {
+  fileName: string;
+  errors: ValidationIssue[];
+  onClose: () => void;
+}
+
+export default function LoadErrorModal({ fileName, errors, onClose }: LoadErrorModalProps) {
+  const listed = errors.slice(0, MAX_LISTED_ISSUES);
+  const hidden = errors.length - listed.length;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center"
+      data-testid="load-error-modal"
+      role="alertdialog"
+      aria-modal="true"
+      aria-label="Could not load solar system"
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60"
+        onClick={onClose}
+        data-testid="load-error-modal-backdrop"
+      />
+
+      {/* Panel */}
+      <div className="relative bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-[28rem] max-h-[80vh] flex flex-col p-6">
+        <h2 className="text-base font-semibold text-red-400 mb-1">
+          Could not load solar system
+        </h2>
+        <p className="text-gray-500 text-xs mb-4 break-all">
+          {fileName} — {errors.length} problem{errors.length === 1 ? '' : 's'} found
+        </p>
+
+        <ul
+          className="space-y-1 overflow-y-auto text-xs font-mono mb-4"
+          data-testid="load-error-list"
+        >
+          {listed.map((issue, i) => (
+            <li key={i} className="text-red-300">
+              {formatValidationIssue(issue)}
+            </li>
+          ))}
+          {hidden > 0 && (
+            <li className="text-gray-500 italic">…and {hidden} more</li>
+          )}
+        </ul>
+
+        <p className="text-gray-500 text-xs mb-4">
+          The current solar system was left unchanged.
+        </p>
+
+        <button
+          onClick={onClose}
+          data-testid="load-error-close-button"
+          className="w-full bg-gray-800 hover:bg-gray-700 text-white text-sm font-medium py-2 rounded transition-colors"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
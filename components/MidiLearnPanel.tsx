@@ -0,0 +1,123 @@
+'use client';
+
+import type { MidiCcBinding } from '@/types/audio';
+import type { MidiLearnTarget } from '@/lib/audio/midiInput';
+import { MIDI_CONTROL_LABELS, findControlBinding } from '@/lib/audio/midiInput';
+
+const GLOBAL_CONTROLS: MidiLearnTarget[] = [
+  { target: 'gravity', planetId: null },
+  { target: 'timeScale', planetId: null },
+  { target: 'bpm', planetId: null },
+  { target: 'masterVolume', planetId: null },
+];
+
+interface MidiLearnPanelProps {
+  planets: { id: string }[];
+  bindings: MidiCcBinding[];
+  /** The control waiting for a knob to be moved, if any */
+  learning: MidiLearnTarget | null;
+  /** Shown above the controls, e.g. when Web MIDI is unavailable */
+  error?: string | null;
+  onLearn: (control: MidiLearnTarget | null) => void;
+  onClear: (control: MidiLearnTarget) => void;
+  onClose: () => void;
+}
+
+function controlKey(control: MidiLearnTarget): string {
+  return control.planetId ? `${control.target}-${control.planetId}` : control.target;
+}
+
+/**
+ * MIDI learn: click Learn on a control, then move a knob to bind its CC.
+ */
+export default function MidiLearnPanel({
+  planets,
+  bindings,
+  learning,
+  error = null,
+  onLearn,
+  onClear,
+  onClose,
+}: MidiLearnPanelProps) {
+  const controls: MidiLearnTarget[] = [
+    ...GLOBAL_CONTROLS,
+    ...planets.map((p) => ({ target: 'planetMass' as const, planetId: p.id })),
+  ];
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center"
+      data-testid="midi-learn-panel"
+      role="dialog"
+      aria-modal="true"
+      aria-label="MIDI Learn"
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/40"
+        onClick={onClose}
+        data-testid="midi-learn-backdrop"
+      />
+
+      {/* Panel */}
+      <div className="relative bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-80 max-h-[80vh] flex flex-col p-6">
+        <h2 className="text-base font-semibold text-white mb-1">MIDI Learn</h2>
+        <p className="text-gray-500 text-xs mb-4">Click Learn, then move a knob on your controller.</p>
+
+        {error && (
+          <p className="text-red-300 text-xs mb-4" data-testid="midi-learn-error">
+            {error}
+          </p>
+        )}
+
+        <ul className="space-y-2 overflow-y-auto text-xs mb-4">
+          {controls.map((control) => {
+            const key = controlKey(control);
+            const binding = findControlBinding(bindings, control);
+            const isLearning =
+              learning?.target === control.target && learning.planetId === control.planetId;
+
+            return (
+              <li key={key} className="flex items-center gap-2" data-testid={`midi-learn-${key}`}>
+                <span className="flex-1 text-gray-300">
+                  {MIDI_CONTROL_LABELS[control.target]}
+                  {control.planetId && <span className="text-gray-500"> — {control.planetId}</span>}
+                </span>
+                <span className="w-20 text-gray-500 tabular-nums" data-testid={`midi-learn-binding-${key}`}>
+                  {binding ? `CC ${binding.controller} · ch ${binding.channel}` : '—'}
+                </span>
+                <button
+                  onClick={() => onLearn(isLearning ? null : control)}
+                  data-testid={`midi-learn-button-${key}`}
+                  aria-pressed={isLearning}
+                  className={`px-2 py-1 rounded transition-colors ${
+                    isLearning ? 'bg-blue-600 text-white animate-pulse' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'
+                  }`}
+                >
+                  {isLearning ? 'Move…' : 'Learn'}
+                </button>
+                <button
+                  onClick={() => onClear(control)}
+                  disabled={!binding}
+                  data-testid={`midi-learn-clear-${key}`}
+                  className="px-1 text-gray-500 hover:text-gray-300 disabled:opacity-30"
+                  aria-label={`Clear ${MIDI_CONTROL_LABELS[control.target]} binding`}
+                >
+                  ×
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <button
+          onClick={onClose}
+          data-testid="midi-learn-close-button"
+          className="w-full bg-gray-800 hover:bg-gray-700 text-white text-sm font-medium py-2 rounded transition-colors"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import type { MidiOutputPort, MidiRoute } from '@/lib/audio/midiOutput';
+import { MIDI_CHANNEL_COUNT } from '@/lib/audio/midiOutput';
+
+const CHANNELS = Array.from({ length: MIDI_CHANNEL_COUNT }, (_, i) => i + 1);
+
+interface MidiRoutingPanelProps {
+  planets: { id: string; synthType: string }[];
+  ports: MidiOutputPort[];
+  routes: Map<string, MidiRoute>;
+  /** Shown instead of the routing table, e.g. when Web MIDI is unavailable */
+  error?: string | null;
+  /** Called with null when a planet is switched back to its synth only */
+  onRouteChange: (planetId: string, route: MidiRoute | null) => void;
+  onClose: () => void;
+}
+
+/**
+ * Picks a MIDI output port and channel for each planet. A routed planet sends
+ * its notes to that port; "Synth" keeps its Tone.js synth playing too.
+ */
+export default function MidiRoutingPanel({
+  planets,
+  ports,
+  routes,
+  error = null,
+  onRouteChange,
+  onClose,
+}: MidiRoutingPanelProps) {
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center"
+      data-testid="midi-routing-panel"
+      role="dialog"
+      aria-modal="true"
+      aria-label="MIDI Output"
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/40"
+        onClick={onClose}
+        data-testid="midi-routing-backdrop"
+      />
+
+      {/* Panel */}
+      <div className="relative bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-[30rem] max-h-[80vh] flex flex-col p-6">
+        <h2 className="text-base font-semibold text-white mb-4">MIDI Output</h2>
+
+        {error ? (
+          <p className="text-red-300 text-xs mb-4" data-testid="midi-routing-error">
+            {error}
+          </p>
+        ) : ports.length === 0 ? (
+          <p className="text-gray-500 text-xs mb-4" data-testid="midi-routing-no-ports">
+            No MIDI outputs found. Connect a device and reopen this panel.
+          </p>
+        ) : planets.length === 0 ? (
+          <p className="text-gray-500 text-xs mb-4">Place a planet to route it.</p>
+        ) : (
+          <table className="w-full text-xs mb-4">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="font-normal pb-2">Planet</th>
+                <th className="font-normal pb-2">Output</th>
+                <th className="font-normal pb-2">Ch</th>
+                <th className="font-normal pb-2">Synth</th>
+              </tr>
+            </thead>
+            <tbody>
+              {planets.map((planet, index) => {
+                const route = routes.get(planet.id) ?? null;
+                const update = (patch: Partial<MidiRoute>) => {
+                  if (!route) return;
+                  onRouteChange(planet.id, { ...route, ...patch });
+                };
+
+                return (
+                  <tr key={planet.id} data-testid={`midi-route-${planet.id}`}>
+                    <td className="py-1 pr-2 text-gray-300">
+                      {planet.id} <span className="text-gray-500">({planet.synthType})</span>
+                    </td>
+                    <td className="py-1 pr-2">
+                      <select
+                        value={route?.portId ?? ''}
+                        onChange={(e) => {
+                          const portId = e.target.value;
+                          if (!portId) {
+                            onRouteChange(planet.id, null);
+                          } else if (route) {
+                            update({ portId });
+                          } else {
+                            // New routes default to one channel per planet
+                            onRouteChange(planet.id, {
+                              portId,
+                              channel: (index % MIDI_CHANNEL_COUNT) + 1,
+                              layerSynth: false,
+                            });
+                          }
+                        }}
+                        data-testid={`midi-route-port-${planet.id}`}
+                        className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white focus:border-blue-500 focus:outline-none"
+                      >
+                        <option value="">Off</option>
+                        {ports.map((port) => (
+                          <option key={port.id} value={port.id}>{port.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-1 pr-2">
+                      <select
+                        value={route?.channel ?? ''}
+                        disabled={!route}
+                        onChange={(e) => update({ channel: parseInt(e.target.value, 10) })}
+                        data-testid={`midi-route-channel-${planet.id}`}
+                        className="bg-gray-800 border border-gray-700 rounded px-1 py-1 text-xs text-white focus:border-blue-500 focus:outline-none disabled:opacity-40"
+                      >
+                        {!route && <option value="">–</option>}
+                        {CHANNELS.map((ch) => (
+                          <option key={ch} value={ch}>{ch}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-1">
+                      <input
+                        type="checkbox"
+                        checked={route ? route.layerSynth : true}
+                        disabled={!route}
+                        onChange={(e) => update({ layerSynth: e.target.checked })}
+                        data-testid={`midi-route-layer-${planet.id}`}
+                        className="accent-blue-500"
+                        aria-label={`Also play ${planet.id}'s synth`}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <button
+          onClick={onClose}
+          data-testid="midi-routing-close-button"
+          className="w-full bg-gray-800 hover:bg-gray-700 text-white text-sm font-medium py-2 rounded transition-colors"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import type { SequenceError } from '@/lib/audio/noteSequence';
+
+interface NoteSequenceErrorsProps {
+  /** The sequence as typed */
+  input: string;
+  errors: SequenceError[];
+  testId: string;
+}
+
+/**
+ * Shows a note sequence's errors: the sequence echoed with each problem
+ * underlined (hover for its message), then the messages themselves.
+ */
+export default function NoteSequenceErrors({ input, errors, testId }: NoteSequenceErrorsProps) {
+  // Split the input into plain and underlined runs; errors arrive sorted and
+  // an error overlapping one already underlined only adds its message
+  const segments: { text: string; error: SequenceError | null }[] = [];
+  let cursor = 0;
+  for (const error of errors) {
+    if (error.start < cursor) continue;
+    if (error.start > cursor) segments.push({ text: input.slice(cursor, error.start), error: null });
+    segments.push({ text: input.slice(error.start, error.end), error });
+    cursor = error.end;
+  }
+  if (cursor < input.length) segments.push({ text: input.slice(cursor), error: null });
+
+  return (
+    <div className="mt-1 space-y-0.5" data-testid={testId}>
+      <p className="font-mono text-xs text-gray-400 whitespace-pre-wrap break-all">
+        {segments.map((segment, i) =>
+          segment.error ? (
+            <span
+              key={i}
+              title={segment.error.message}
+              data-testid={`${testId}-underline`}
+              className="text-red-300 underline decoration-wavy decoration-red-500"
+            >
+              {segment.text}
+            </span>
+          ) : (
+            <span key={i}>{segment.text}</span>
+          )
+        )}
+      </p>
+      {errors.map((error, i) => (
+        <p key={i} className="text-red-400 text-xs">
+          {error.message}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -1,19 +1,32 @@
 'use client';
 
 import { useState } from 'react';
-import type { MusicalKey, MusicalMode, NoteDuration, Vector2D } from '@/types/celestial';
-import { SYNTH_TYPES } from '@/lib/audio/synthManager';
+import type { MusicalKey, MusicalMode, NoteDuration, ScaleDegree, Vector2D } from '@/types/celestial';
+import { OSCILLATOR_SYNTH_TYPES, SYNTH_TYPES } from '@/lib/audio/synthManager';
 import type { SynthType } from '@/lib/audio/synthManager';
-import { parseNoteSequence } from '@/lib/audio/scales';
+import {
+  MODE_LABELS,
+  MUSICAL_MODES,
+  degreeRangeLabel,
+  isValidScaleDegree,
+} from '@/lib/audio/scales';
+import { NOTE_SEQUENCE_SYNTAX, parseSequence } from '@/lib/audio/noteSequence';
+import type { SequenceError } from '@/lib/audio/noteSequence';
+import {
+  COMET_DEFAULT_MASS,
+  COMET_MIN_MASS,
+  COMET_MAX_MASS,
+  COMET_DEFAULT_NOTE,
+  COMET_DEFAULT_SYNTH_TYPE,
+  COMET_DEFAULT_SPEED_FACTOR,
+  cometTrajectoryLabel,
+} from '@/lib/entities/comet';
+import NoteSequenceErrors from './NoteSequenceErrors';
 
 const MUSICAL_KEYS: MusicalKey[] = [
   'C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B',
 ];
 
-const MUSICAL_MODES: MusicalMode[] = [
-  'Ionian', 'Dorian', 'Phrygian', 'Lydian', 'Mixolydian', 'Aeolian', 'Locrian',
-];
-
 const NOTE_DURATIONS: { value: NoteDuration; label: string }[] = [
   { value: 'whole', label: 'Whole' },
   { value: 'half', label: 'Half' },
@@ -40,13 +53,29 @@ export interface PlanetPlacementOptions {
   clockwise: boolean;
 }
 
+// ─── Comet options ─────────────────────────────────────────────────────────────
+
+export interface CometPlacementOptions {
+  mass: number;
+  note: ScaleDegree;
+  synthType: SynthType;
+  /** Initial speed as a multiple of circular orbit speed */
+  speedFactor: number;
+  clockwise: boolean;
+}
+
 // ─── Combined confirm payload ──────────────────────────────────────────────────
 
-export type PlacementConfirmOptions = StarPlacementOptions | PlanetPlacementOptions;
+export type PlacementConfirmOptions =
+  | StarPlacementOptions
+  | PlanetPlacementOptions
+  | CometPlacementOptions;
 
 interface PlacementModalProps {
-  entityType: 'star' | 'planet';
+  entityType: 'star' | 'planet' | 'comet';
   worldPosition: Vector2D;
+  /** The star's mode — planet and comet degrees must be in its scale (default Ionian) */
+  mode?: MusicalMode;
   onConfirm: (options: PlacementConfirmOptions) => void;
   onCancel: () => void;
 }
@@ -98,9 +127,12 @@ function StarForm({ onConfirm }: { onConfirm: (o: StarPlacementOptions) => void
           className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-white focus:border-yellow-500 focus:outline-none"
         >
           {MUSICAL_MODES.map((m) => (
-            <option key={m} value={m}>{m}</option>
+            <option key={m} value={m}>{MODE_LABELS[m]}</option>
           ))}
         </select>
+        <p className="text-gray-500 text-xs mt-1" data-testid="star-mode-degrees">
+          Planets can use degrees {degreeRangeLabel(mode)}
+        </p>
       </div>
 
       <button
@@ -116,31 +148,28 @@ function StarForm({ onConfirm }: { onConfirm: (o: StarPlacementOptions) => void
 
 // ─── Planet form ───────────────────────────────────────────────────────────────
 
-function PlanetForm({ onConfirm }: { onConfirm: (o: PlanetPlacementOptions) => void }) {
+function PlanetForm({
+  mode,
+  onConfirm,
+}: {
+  mode: MusicalMode;
+  onConfirm: (o: PlanetPlacementOptions) => void;
+}) {
   const [mass, setMass] = useState(100);
   const [noteSequence, setNoteSequence] = useState('I4 III4 V4');
   const [rotationSpeed, setRotationSpeed] = useState<NoteDuration>('quarter');
   const [synthType, setSynthType] = useState<SynthType>('Synth');
   const [clockwise, setClockwise] = useState(true);
-  const [noteError, setNoteError] = useState<string | null>(null);
+  const [noteErrors, setNoteErrors] = useState<SequenceError[]>([]);
 
   const handleNoteSequenceChange = (value: string) => {
     setNoteSequence(value);
-    const tokens = value.trim().split(/\s+/).filter((t) => t.length > 0);
-    if (tokens.length === 0) {
-      setNoteError('Enter at least one scale degree (e.g. I4 III4 V4)');
-      return;
-    }
-    const valid = parseNoteSequence(value);
-    const invalid = tokens.filter((t) => !valid.includes(t));
-    setNoteError(
-      invalid.length > 0
-        ? `Invalid token(s): ${invalid.join(', ')}. Use Roman numerals I–VII followed by octave (e.g. V4)`
-        : null
-    );
+    const result = parseSequence(value, mode);
+    setNoteErrors(result.ok ? [] : result.errors);
   };
 
-  const isValid = noteError === null && noteSequence.trim().length > 0;
+  const isEmpty = noteSequence.trim().length === 0;
+  const isValid = !isEmpty && noteErrors.length === 0;
 
   return (
     <div className="space-y-4">
@@ -161,24 +190,28 @@ function PlanetForm({ onConfirm }: { onConfirm: (o: PlanetPlacementOptions) => v
 
       <div>
         <label className="block text-xs text-gray-400 mb-1">
-          Note Sequence <span className="text-gray-500">(e.g. I4 III4 V4)</span>
+          Note Sequence <span className="text-gray-500">(e.g. I4 [I4 III V] - (V4 bVII4)x2)</span>
         </label>
         <input
           type="text"
           value={noteSequence}
           onChange={(e) => handleNoteSequenceChange(e.target.value)}
           data-testid="planet-note-sequence-input"
+          title={NOTE_SEQUENCE_SYNTAX}
           placeholder="I4 III4 V4"
           className={[
             'w-full bg-gray-800 border rounded px-3 py-1.5 text-sm text-white focus:outline-none',
-            noteError ? 'border-red-500 focus:border-red-400' : 'border-gray-700 focus:border-blue-500',
+            !isValid ? 'border-red-500 focus:border-red-400' : 'border-gray-700 focus:border-blue-500',
           ].join(' ')}
         />
-        {noteError && (
+        {isEmpty && (
           <p className="text-red-400 text-xs mt-1" data-testid="note-sequence-error">
-            {noteError}
+            Enter at least one scale degree (e.g. I4 III4 V4)
           </p>
         )}
+        {noteErrors.length > 0 && (
+          <NoteSequenceErrors input={noteSequence} errors={noteErrors} testId="note-sequence-error" />
+        )}
       </div>
 
       <div>
@@ -207,6 +240,11 @@ function PlanetForm({ onConfirm }: { onConfirm: (o: PlanetPlacementOptions) => v
             <option key={t} value={t}>{t}</option>
           ))}
         </select>
+        {synthType === 'Sampler' && (
+          <p className="text-gray-500 text-xs mt-1" data-testid="planet-sampler-hint">
+            Starts with the bundled drum kit — drop your own samples in the planet editor.
+          </p>
+        )}
       </div>
 
       <div className="flex items-center gap-2">
@@ -243,16 +281,153 @@ function PlanetForm({ onConfirm }: { onConfirm: (o: PlanetPlacementOptions) => v
   );
 }
 
+// ─── Comet form ────────────────────────────────────────────────────────────────
+
+function CometForm({
+  mode,
+  onConfirm,
+}: {
+  mode: MusicalMode;
+  onConfirm: (o: CometPlacementOptions) => void;
+}) {
+  const [mass, setMass] = useState(COMET_DEFAULT_MASS);
+  const [note, setNote] = useState<string>(COMET_DEFAULT_NOTE);
+  const [synthType, setSynthType] = useState<SynthType>(COMET_DEFAULT_SYNTH_TYPE);
+  const [speedFactor, setSpeedFactor] = useState(COMET_DEFAULT_SPEED_FACTOR);
+  const [clockwise, setClockwise] = useState(true);
+
+  const noteError = isValidScaleDegree(note.trim(), mode)
+    ? null
+    : `Use a Roman numeral ${degreeRangeLabel(mode)} followed by octave (e.g. V5)`;
+  const isValid = noteError === null;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">
+          Mass <span className="text-gray-500">({COMET_MIN_MASS}–{COMET_MAX_MASS}, sets volume)</span>
+        </label>
+        <input
+          type="number"
+          min={COMET_MIN_MASS}
+          max={COMET_MAX_MASS}
+          value={mass}
+          onChange={(e) =>
+            setMass(
+              Math.min(COMET_MAX_MASS, Math.max(COMET_MIN_MASS, parseInt(e.target.value) || COMET_MIN_MASS))
+            )
+          }
+          data-testid="comet-mass-input"
+          className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-white focus:border-cyan-500 focus:outline-none"
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">
+          Note <span className="text-gray-500">(e.g. V5)</span>
+        </label>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          data-testid="comet-note-input"
+          placeholder={COMET_DEFAULT_NOTE}
+          className={[
+            'w-full bg-gray-800 border rounded px-3 py-1.5 text-sm text-white focus:outline-none',
+            noteError ? 'border-red-500 focus:border-red-400' : 'border-gray-700 focus:border-cyan-500',
+          ].join(' ')}
+        />
+        {noteError && (
+          <p className="text-red-400 text-xs mt-1" data-testid="comet-note-error">
+            {noteError}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Synth Type</label>
+        <select
+          value={synthType}
+          onChange={(e) => setSynthType(e.target.value as SynthType)}
+          data-testid="comet-synth-type-select"
+          className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-white focus:border-cyan-500 focus:outline-none"
+        >
+          {OSCILLATOR_SYNTH_TYPES.map((t) => (
+            <option key={t} value={t}>{t}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">
+          Speed <span className="text-gray-500">(×{speedFactor.toFixed(2)} circular —{' '}
+          <span data-testid="comet-trajectory-label">{cometTrajectoryLabel(speedFactor)}</span>)</span>
+        </label>
+        <input
+          type="range"
+          min={0.5}
+          max={2}
+          step={0.05}
+          value={speedFactor}
+          onChange={(e) => setSpeedFactor(parseFloat(e.target.value))}
+          data-testid="comet-speed-slider"
+          className="w-full accent-cyan-500"
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id="comet-clockwise"
+          checked={clockwise}
+          onChange={(e) => setClockwise(e.target.checked)}
+          data-testid="comet-clockwise-checkbox"
+          className="accent-cyan-500"
+        />
+        <label htmlFor="comet-clockwise" className="text-xs text-gray-400 cursor-pointer select-none">
+          Clockwise
+        </label>
+      </div>
+
+      <button
+        onClick={() =>
+          isValid &&
+          onConfirm({ mass, note: note.trim() as ScaleDegree, synthType, speedFactor, clockwise })
+        }
+        disabled={!isValid}
+        data-testid="placement-confirm-button"
+        className={[
+          'w-full text-white text-sm font-medium py-2 rounded transition-colors',
+          isValid
+            ? 'bg-cyan-600 hover:bg-cyan-500'
+            : 'bg-gray-700 cursor-not-allowed opacity-60',
+        ].join(' ')}
+      >
+        Launch Comet
+      </button>
+    </div>
+  );
+}
+
 // ─── Main modal ────────────────────────────────────────────────────────────────
 
 export default function PlacementModal({
   entityType,
   worldPosition,
+  mode = 'Ionian',
   onConfirm,
   onCancel,
 }: PlacementModalProps) {
-  const title = entityType === 'star' ? 'Configure Star' : 'Configure Planet';
-  const accentColor = entityType === 'star' ? 'text-yellow-400' : 'text-blue-400';
+  const title = {
+    star: 'Configure Star',
+    planet: 'Configure Planet',
+    comet: 'Configure Comet',
+  }[entityType];
+  const accentColor = {
+    star: 'text-yellow-400',
+    planet: 'text-blue-400',
+    comet: 'text-cyan-400',
+  }[entityType];
 
   return (
     <div
@@ -280,8 +455,10 @@ export default function PlacementModal({
 
         {entityType === 'star' ? (
           <StarForm onConfirm={(o) => onConfirm(o)} />
+        ) : entityType === 'comet' ? (
+          <CometForm mode={mode} onConfirm={(o) => onConfirm(o)} />
         ) : (
-          <PlanetForm onConfirm={(o) => onConfirm(o)} />
+          <PlanetForm mode={mode} onConfirm={(o) => onConfirm(o)} />
         )}
 
         <button
@@ -0,0 +1,553 @@
+'use client';
+
+import { useState } from 'react';
+import type { MusicalMode, NoteDuration, Planet } from '@/types/celestial';
+import type {
+  EffectSettings,
+  EffectType,
+  ModulationRoute,
+  ModulationSource,
+  ModulationCurve,
+  PlanetSample,
+  SynthPatch,
+  SynthPreset,
+} from '@/types/audio';
+import { SYNTH_TYPES } from '@/lib/audio/synthManager';
+import type { SynthType } from '@/lib/audio/synthManager';
+import { NOTE_SEQUENCE_SYNTAX, parseSequence } from '@/lib/audio/noteSequence';
+import type { SequenceError } from '@/lib/audio/noteSequence';
+import {
+  EFFECT_TYPES,
+  EFFECT_PARAMS,
+  EFFECT_LABELS,
+  MAX_EFFECTS,
+  createEffectSettings,
+  moveEffect,
+} from '@/lib/audio/effects';
+import {
+  MAX_MODULATIONS,
+  MODULATION_SOURCES,
+  MODULATION_SOURCE_TYPES,
+  MODULATION_CURVES,
+  modulationTargets,
+  modulationTargetKey,
+  createModulationRoute,
+  pruneModulations,
+} from '@/lib/audio/modulation';
+import type { ModulationTargetSpec } from '@/lib/audio/modulation';
+import { cloneEffects, cloneModulations } from '@/lib/entities/planet';
+import { clonePatch, defaultSynthPatch } from '@/lib/audio/patches';
+import { cloneSamples } from '@/lib/audio/samples';
+import type { PlanetUpdateOptions } from '@/lib/simulation/simulation';
+import SynthPatchEditor from './SynthPatchEditor';
+import NoteSequenceErrors from './NoteSequenceErrors';
+import SampleMapEditor from './SampleMapEditor';
+
+const NOTE_DURATIONS: { value: NoteDuration; label: string }[] = [
+  { value: 'whole', label: 'Whole' },
+  { value: 'half', label: 'Half' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'eighth', label: 'Eighth' },
+  { value: 'sixteenth', label: 'Sixteenth' },
+];
+
+interface PlanetEditModalProps {
+  planet: Planet;
+  /** The star's mode — note sequence degrees must be in its scale (default Ionian) */
+  mode?: MusicalMode;
+  /** The synth preset library */
+  presets: SynthPreset[];
+  onConfirm: (options: PlanetUpdateOptions) => void;
+  /** Called with the library when a preset is saved or deleted — applies straight away, not on Save */
+  onPresetsChange: (presets: SynthPreset[]) => void;
+  onDelete: () => void;
+  onCancel: () => void;
+}
+
+const CURVE_LABELS: Record<ModulationCurve, string> = {
+  linear: 'Linear',
+  exponential: 'Exponential',
+  logarithmic: 'Logarithmic',
+};
+
+const FIELD_CLASS =
+  'bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-white focus:border-blue-500 focus:outline-none';
+
+// ─── Modulation route ──────────────────────────────────────────────────────────
+
+interface ModulationRowProps {
+  route: ModulationRoute;
+  targets: ModulationTargetSpec[];
+  onChange: (route: ModulationRoute) => void;
+  onRemove: () => void;
+}
+
+/**
+ * One row of the modulation matrix: source and its range, target and the
+ * values it sweeps between, and the curve in between.
+ */
+function ModulationRow({ route, targets, onChange, onRemove }: ModulationRowProps) {
+  const targetSpec = targets.find(
+    (t) => modulationTargetKey(t.target) === modulationTargetKey(route.target)
+  );
+
+  const setSource = (source: ModulationSource) => {
+    const { min, max } = MODULATION_SOURCES[source];
+    onChange({ ...route, source, sourceMin: min, sourceMax: max });
+  };
+
+  const setTarget = (key: string) => {
+    const spec = targets.find((t) => modulationTargetKey(t.target) === key);
+    if (spec) onChange({ ...route, target: { ...spec.target }, min: spec.min, max: spec.max });
+  };
+
+  const setNumber = (field: 'sourceMin' | 'sourceMax' | 'min' | 'max', raw: string) => {
+    const value = parseFloat(raw);
+    if (!Number.isFinite(value)) return;
+    const clamped =
+      (field === 'min' || field === 'max') && targetSpec
+        ? Math.max(targetSpec.min, Math.min(targetSpec.max, value))
+        : value;
+    onChange({ ...route, [field]: clamped });
+  };
+
+  return (
+    <li
+      className="bg-gray-800 border border-gray-700 rounded p-2 space-y-1 text-xs"
+      data-testid={`planet-edit-mod-${route.id}`}
+    >
+      <div className="flex items-center gap-2">
+        <select
+          value={route.source}
+          onChange={(e) => setSource(e.target.value as ModulationSource)}
+          data-testid={`planet-edit-mod-source-${route.id}`}
+          className={`flex-1 ${FIELD_CLASS}`}
+          aria-label="Source"
+        >
+          {MODULATION_SOURCE_TYPES.map((source) => (
+            <option key={source} value={source}>{MODULATION_SOURCES[source].label}</option>
+          ))}
+        </select>
+        <button
+          onClick={onRemove}
+          data-testid={`planet-edit-mod-remove-${route.id}`}
+          className="px-1 text-gray-500 hover:text-red-400"
+          aria-label="Remove route"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1 text-gray-500">
+        from
+        <input
+          type="number"
+          value={route.sourceMin}
+          onChange={(e) => setNumber('sourceMin', e.target.value)}
+          data-testid={`planet-edit-mod-source-min-${route.id}`}
+          className={`w-20 ${FIELD_CLASS}`}
+          aria-label="Source minimum"
+        />
+        to
+        <input
+          type="number"
+          value={route.sourceMax}
+          onChange={(e) => setNumber('sourceMax', e.target.value)}
+          data-testid={`planet-edit-mod-source-max-${route.id}`}
+          className={`w-20 ${FIELD_CLASS}`}
+          aria-label="Source maximum"
+        />
+      </div>
+
+      <select
+        value={modulationTargetKey(route.target)}
+        onChange={(e) => setTarget(e.target.value)}
+        data-testid={`planet-edit-mod-target-${route.id}`}
+        className={`w-full ${FIELD_CLASS}`}
+        aria-label="Target"
+      >
+        {targets.map((spec) => (
+          <option key={modulationTargetKey(spec.target)} value={modulationTargetKey(spec.target)}>
+            {spec.label}
+          </option>
+        ))}
+      </select>
+
+      <div className="flex items-center gap-1 text-gray-500">
+        sweeps
+        <input
+          type="number"
+          value={route.min}
+          onChange={(e) => setNumber('min', e.target.value)}
+          data-testid={`planet-edit-mod-min-${route.id}`}
+          className={`w-20 ${FIELD_CLASS}`}
+          aria-label="Target value at source minimum"
+        />
+        to
+        <input
+          type="number"
+          value={route.max}
+          onChange={(e) => setNumber('max', e.target.value)}
+          data-testid={`planet-edit-mod-max-${route.id}`}
+          className={`w-20 ${FIELD_CLASS}`}
+          aria-label="Target value at source maximum"
+        />
+        <select
+          value={route.curve}
+          onChange={(e) => onChange({ ...route, curve: e.target.value as ModulationCurve })}
+          data-testid={`planet-edit-mod-curve-${route.id}`}
+          className={`flex-1 ${FIELD_CLASS}`}
+          aria-label="Curve"
+        >
+          {MODULATION_CURVES.map((curve) => (
+            <option key={curve} value={curve}>{CURVE_LABELS[curve]}</option>
+          ))}
+        </select>
+      </div>
+    </li>
+  );
+}
+
+// ─── Modal ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Edits a placed planet: its sound, its note sequence, its effects chain and
+ * its modulation matrix. Changes are applied on Save.
+ */
+export default function PlanetEditModal({
+  planet,
+  mode = 'Ionian',
+  presets,
+  onConfirm,
+  onPresetsChange,
+  onDelete,
+  onCancel,
+}: PlanetEditModalProps) {
+  const [mass, setMass] = useState(planet.mass);
+  const [noteSequence, setNoteSequence] = useState(planet.noteSequence.join(' '));
+  const [rotationSpeed, setRotationSpeed] = useState<NoteDuration>(planet.rotationSpeed);
+  const [synthType, setSynthType] = useState<SynthType>(planet.synthType as SynthType);
+  const [patch, setPatch] = useState<SynthPatch>(() => clonePatch(planet.patch));
+  const [samples, setSamples] = useState<PlanetSample[]>(() => cloneSamples(planet.samples));
+  const [effects, setEffects] = useState<EffectSettings[]>(() => cloneEffects(planet.effects));
+  const [modulations, setModulations] = useState<ModulationRoute[]>(() =>
+    cloneModulations(planet.modulations)
+  );
+  const [newEffectType, setNewEffectType] = useState<EffectType>('reverb');
+  const [noteErrors, setNoteErrors] = useState<SequenceError[]>([]);
+
+  const handleNoteSequenceChange = (value: string) => {
+    setNoteSequence(value);
+    const result = parseSequence(value, mode);
+    setNoteErrors(result.ok ? [] : result.errors);
+  };
+
+  const updateEffect = (id: string, patch: Partial<EffectSettings>) => {
+    setEffects((chain) => chain.map((e) => (e.id === id ? { ...e, ...patch } : e)));
+  };
+
+  const setEffectParam = (effect: EffectSettings, name: string, value: number) => {
+    updateEffect(effect.id, { params: { ...effect.params, [name]: value } });
+  };
+
+  const removeEffect = (id: string) => {
+    const next = effects.filter((e) => e.id !== id);
+    setEffects(next);
+    // Routes to the removed effect go with it
+    setModulations((routes) => pruneModulations(routes, next));
+  };
+
+  const updateModulation = (route: ModulationRoute) => {
+    setModulations((routes) => routes.map((r) => (r.id === route.id ? route : r)));
+  };
+
+  const isEmpty = noteSequence.trim().length === 0;
+  const isValid = !isEmpty && noteErrors.length === 0;
+  const chainFull = effects.length >= MAX_EFFECTS;
+  const targets = modulationTargets(effects);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center"
+      data-testid="planet-edit-modal"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Edit Planet"
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/40"
+        onClick={onCancel}
+        data-testid="planet-edit-modal-backdrop"
+      />
+
+      {/* Panel */}
+      <div className="relative bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-96 max-h-[85vh] overflow-y-auto p-6">
+        <h2 className="text-base font-semibold text-blue-400 mb-4">Edit Planet</h2>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Mass <span className="text-gray-500">(10–10000)</span>
+            </label>
+            <input
+              type="number"
+              min={10}
+              max={10000}
+              value={mass}
+              onChange={(e) => setMass(Math.min(10000, Math.max(10, parseInt(e.target.value) || 10)))}
+              data-testid="planet-edit-mass-input"
+              className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-white focus:border-blue-500 focus:outline-none"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Note Sequence <span className="text-gray-500">(e.g. I4 [I4 III V] - (V4 bVII4)x2)</span>
+            </label>
+            <input
+              type="text"
+              value={noteSequence}
+              onChange={(e) => handleNoteSequenceChange(e.target.value)}
+              data-testid="planet-edit-note-sequence-input"
+              title={NOTE_SEQUENCE_SYNTAX}
+              className={[
+                'w-full bg-gray-800 border rounded px-3 py-1.5 text-sm text-white focus:outline-none',
+                !isValid ? 'border-red-500 focus:border-red-400' : 'border-gray-700 focus:border-blue-500',
+              ].join(' ')}
+            />
+            {isEmpty && (
+              <p className="text-red-400 text-xs mt-1" data-testid="planet-edit-note-sequence-error">
+                Enter at least one scale degree (e.g. I4 III4 V4)
+              </p>
+            )}
+            {noteErrors.length > 0 && (
+              <NoteSequenceErrors input={noteSequence} errors={noteErrors} testId="planet-edit-note-sequence-error" />
+            )}
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Rotation Speed</label>
+            <select
+              value={rotationSpeed}
+              onChange={(e) => setRotationSpeed(e.target.value as NoteDuration)}
+              data-testid="planet-edit-rotation-speed-select"
+              className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-white focus:border-blue-500 focus:outline-none"
+            >
+              {NOTE_DURATIONS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Synth Type</label>
+            <select
+              value={synthType}
+              onChange={(e) => {
+                // A new synth type starts from its own defaults
+                setSynthType(e.target.value as SynthType);
+                setPatch(defaultSynthPatch(e.target.value as SynthType));
+              }}
+              data-testid="planet-edit-synth-type-select"
+              className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-white focus:border-blue-500 focus:outline-none"
+            >
+              {SYNTH_TYPES.map((t) => (
+                <option key={t} value={t}>{t}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* ─── Synth patch, or samples for a Sampler ─── */}
+          {synthType === 'Sampler' ? (
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Samples</label>
+              <SampleMapEditor samples={samples} onChange={setSamples} />
+            </div>
+          ) : (
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Patch</label>
+              <SynthPatchEditor
+                synthType={synthType}
+                patch={patch}
+                presets={presets}
+                onChange={(type, next) => {
+                  setSynthType(type);
+                  setPatch(next);
+                }}
+                onPresetsChange={onPresetsChange}
+              />
+            </div>
+          )}
+
+          {/* ─── Effects chain ─── */}
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Effects <span className="text-gray-500">(in signal order)</span>
+            </label>
+
+            {effects.length === 0 && (
+              <p className="text-gray-500 text-xs mb-2" data-testid="planet-edit-effects-empty">
+                No effects — the synth plays dry.
+              </p>
+            )}
+
+            <ul className="space-y-2 mb-2">
+              {effects.map((effect, index) => (
+                <li
+                  key={effect.id}
+                  className="bg-gray-800 border border-gray-700 rounded p-2"
+                  data-testid={`planet-edit-effect-${effect.id}`}
+                >
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className={`flex-1 font-medium ${effect.bypassed ? 'text-gray-500' : 'text-gray-200'}`}>
+                      {EFFECT_LABELS[effect.type]}
+                    </span>
+                    <label className="flex items-center gap-1 text-gray-400 cursor-pointer select-none">
+                      <input
+                        type="checkbox"
+                        checked={effect.bypassed}
+                        onChange={(e) => updateEffect(effect.id, { bypassed: e.target.checked })}
+                        data-testid={`planet-edit-effect-bypass-${effect.id}`}
+                        className="accent-blue-500"
+                      />
+                      Bypass
+                    </label>
+                    <button
+                      onClick={() => setEffects((chain) => moveEffect(chain, index, index - 1))}
+                      disabled={index === 0}
+                      data-testid={`planet-edit-effect-up-${effect.id}`}
+                      className="px-1 text-gray-400 hover:text-white disabled:opacity-30"
+                      aria-label={`Move ${EFFECT_LABELS[effect.type]} earlier`}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => setEffects((chain) => moveEffect(chain, index, index + 1))}
+                      disabled={index === effects.length - 1}
+                      data-testid={`planet-edit-effect-down-${effect.id}`}
+                      className="px-1 text-gray-400 hover:text-white disabled:opacity-30"
+                      aria-label={`Move ${EFFECT_LABELS[effect.type]} later`}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => removeEffect(effect.id)}
+                      data-testid={`planet-edit-effect-remove-${effect.id}`}
+                      className="px-1 text-gray-500 hover:text-red-400"
+                      aria-label={`Remove ${EFFECT_LABELS[effect.type]}`}
+                    >
+                      ×
+                    </button>
+                  </div>
+
+                  {EFFECT_PARAMS[effect.type].map((spec) => (
+                    <div key={spec.name} className="mt-1">
+                      <label className="block text-xs text-gray-500">
+                        {spec.label} <span>({effect.params[spec.name] ?? spec.default})</span>
+                      </label>
+                      <input
+                        type="range"
+                        min={spec.min}
+                        max={spec.max}
+                        step={spec.step}
+                        value={effect.params[spec.name] ?? spec.default}
+                        onChange={(e) => setEffectParam(effect, spec.name, parseFloat(e.target.value))}
+                        data-testid={`planet-edit-effect-param-${effect.id}-${spec.name}`}
+                        className="w-full accent-blue-500"
+                      />
+                    </div>
+                  ))}
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex gap-2">
+              <select
+                value={newEffectType}
+                onChange={(e) => setNewEffectType(e.target.value as EffectType)}
+                disabled={chainFull}
+                data-testid="planet-edit-effect-type-select"
+                className="flex-1 bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-white focus:border-blue-500 focus:outline-none disabled:opacity-50"
+              >
+                {EFFECT_TYPES.map((t) => (
+                  <option key={t} value={t}>{EFFECT_LABELS[t]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setEffects((chain) => [...chain, createEffectSettings(newEffectType, chain)])}
+                disabled={chainFull}
+                data-testid="planet-edit-add-effect-button"
+                className="px-3 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add
+              </button>
+            </div>
+            {chainFull && (
+              <p className="text-gray-500 text-xs mt-1">A planet can have up to {MAX_EFFECTS} effects.</p>
+            )}
+          </div>
+
+          {/* ─── Modulation matrix ─── */}
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Modulation <span className="text-gray-500">(orbit drives sound)</span>
+            </label>
+
+            <ul className="space-y-2 mb-2">
+              {modulations.map((route) => (
+                <ModulationRow
+                  key={route.id}
+                  route={route}
+                  targets={targets}
+                  onChange={updateModulation}
+                  onRemove={() => setModulations((routes) => routes.filter((r) => r.id !== route.id))}
+                />
+              ))}
+            </ul>
+
+            <button
+              onClick={() => setModulations((routes) => [...routes, createModulationRoute(routes, effects)])}
+              disabled={modulations.length >= MAX_MODULATIONS}
+              data-testid="planet-edit-add-mod-button"
+              className="w-full bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm py-1.5 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add Route
+            </button>
+          </div>
+        </div>
+
+        <button
+          onClick={() =>
+            isValid &&
+            onConfirm({ mass, noteSequence, rotationSpeed, synthType, patch, samples, effects, modulations })
+          }
+          disabled={!isValid}
+          data-testid="planet-edit-save-button"
+          className={[
+            'mt-6 w-full text-white text-sm font-medium py-2 rounded transition-colors',
+            isValid ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-700 cursor-not-allowed opacity-60',
+          ].join(' ')}
+        >
+          Save
+        </button>
+
+        <button
+          onClick={onDelete}
+          data-testid="planet-edit-delete-button"
+          className="mt-3 w-full bg-red-900/60 hover:bg-red-800 text-red-200 text-sm font-medium py-2 rounded transition-colors"
+        >
+          Delete Planet
+        </button>
+
+        <button
+          onClick={onCancel}
+          data-testid="planet-edit-cancel-button"
+          className="mt-3 w-full text-gray-500 hover:text-gray-300 text-xs py-1 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { MusicalKey, MusicalMode } from '@/types/celestial';
+import type { ChordFollow, ChordProgression } from '@/types/audio';
+import { chordName, MODE_LABELS } from '@/lib/audio/scales';
+import {
+  CHORD_FOLLOWS,
+  CHORD_FOLLOW_LABELS,
+  CHORD_SYMBOL_SYNTAX,
+  MAX_BARS_PER_CHORD,
+  MIN_BARS_PER_CHORD,
+  defaultProgression,
+  formatProgression,
+  parseProgression,
+  progressionChordIndex,
+} from '@/lib/audio/progression';
+
+/** How often the chord playing now is re-read while the editor is open, in ms. */
+const CURRENT_CHORD_REFRESH_MS = 100;
+
+interface ProgressionEditorProps {
+  progression: ChordProgression | null;
+  /** The star's key and mode, to name the chords */
+  musicalKey: MusicalKey;
+  mode: MusicalMode;
+  /** Reads the star's beat, to show the chord playing now */
+  getBeat: () => number;
+  onChange: (progression: ChordProgression | null) => void;
+}
+
+/**
+ * Edits a star's chord progression: switch it on or off, type the chords as
+ * Roman numerals, set how many bars each lasts and how planets follow them.
+ * While on, shows the chord playing now.
+ */
+export default function ProgressionEditor({ progression, musicalKey, mode, getBeat, onChange }: ProgressionEditorProps) {
+  const [text, setText] = useState(() => formatProgression((progression ?? defaultProgression()).chords));
+  const [error, setError] = useState<string | null>(null);
+  const [beat, setBeat] = useState(getBeat);
+
+  const enabled = progression !== null;
+  useEffect(() => {
+    if (!enabled) return;
+    const id = setInterval(() => setBeat(getBeat()), CURRENT_CHORD_REFRESH_MS);
+    return () => clearInterval(id);
+  }, [enabled, getBeat]);
+
+  const handleToggle = (on: boolean) => {
+    if (!on) {
+      onChange(null);
+      return;
+    }
+    const next = defaultProgression();
+    setText(formatProgression(next.chords));
+    setError(null);
+    onChange(next);
+  };
+
+  const handleChordsChange = (value: string) => {
+    setText(value);
+    if (!progression) return;
+    try {
+      onChange({ ...progression, chords: parseProgression(value, mode) });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const index = progression ? progressionChordIndex(progression, beat) : 0;
+  const current = progression?.chords[index];
+  const currentName = current ? chordName(current, musicalKey, mode) : null;
+
+  return (
+    <div className="space-y-2" data-testid="progression-editor">
+      <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => handleToggle(e.target.checked)}
+          data-testid="progression-toggle"
+          className="accent-yellow-500"
+        />
+        Follow a chord progression
+      </label>
+
+      {progression && (
+        <>
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => handleChordsChange(e.target.value)}
+            title={CHORD_SYMBOL_SYNTAX}
+            aria-label="Chords"
+            data-testid="progression-chords-input"
+            className={`w-full bg-gray-800 border rounded px-3 py-1.5 text-sm text-white font-mono focus:outline-none ${
+              error ? 'border-red-500' : 'border-gray-700 focus:border-yellow-500'
+            }`}
+          />
+          {error && (
+            <p className="text-red-400 text-xs" data-testid="progression-error">
+              {error}
+            </p>
+          )}
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Bars per chord{' '}
+              <span className="text-gray-500" data-testid="progression-bars-display">
+                ({progression.barsPerChord})
+              </span>
+            </label>
+            <input
+              type="range"
+              min={MIN_BARS_PER_CHORD}
+              max={MAX_BARS_PER_CHORD}
+              step={1}
+              value={progression.barsPerChord}
+              onChange={(e) => onChange({ ...progression, barsPerChord: parseInt(e.target.value, 10) })}
+              data-testid="progression-bars-slider"
+              className="w-full accent-yellow-500"
+            />
+          </div>
+
+          <select
+            value={progression.follow}
+            onChange={(e) => onChange({ ...progression, follow: e.target.value as ChordFollow })}
+            data-testid="progression-follow-select"
+            aria-label="How planets follow the chords"
+            className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-white focus:border-yellow-500 focus:outline-none"
+          >
+            {CHORD_FOLLOWS.map((follow) => (
+              <option key={follow} value={follow}>
+                {CHORD_FOLLOW_LABELS[follow]}
+              </option>
+            ))}
+          </select>
+
+          <p className="text-gray-500 text-xs" data-testid="progression-current-chord">
+            {currentName
+              ? `Now: ${current} (${currentName}) — chord ${index + 1} of ${progression.chords.length}`
+              : `Now: ${current} isn’t on the ${MODE_LABELS[mode]} scale — planets play in the key`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { PlanetSample } from '@/types/audio';
+import {
+  MAX_SAMPLES,
+  SAMPLE_FILE_ACCEPT,
+  SAMPLE_NOTES,
+  addSample,
+  drumKitSamples,
+  readSampleFile,
+} from '@/lib/audio/samples';
+
+interface SampleMapEditorProps {
+  samples: PlanetSample[];
+  onChange: (samples: PlanetSample[]) => void;
+}
+
+const FIELD_CLASS =
+  'bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-white focus:border-blue-500 focus:outline-none';
+
+/**
+ * Edits a Sampler planet's samples: add WAV/MP3 files by dropping or
+ * picking them, or start from the bundled drum kit, then set the root note
+ * each sample plays unshifted at.
+ */
+export default function SampleMapEditor({ samples, onChange }: SampleMapEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+
+  const addFiles = async (files: File[]) => {
+    let next = samples;
+    const problems: string[] = [];
+    for (const file of files) {
+      try {
+        const url = await readSampleFile(file);
+        next = addSample(next, file.name.replace(/\.[^.]+$/, ''), url);
+      } catch (err) {
+        problems.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+    setError(problems.length > 0 ? problems.join('; ') : null);
+    if (next !== samples) onChange(next);
+  };
+
+  const setNote = (id: string, note: string) => {
+    onChange(samples.map((s) => (s.id === id ? { ...s, note } : s)));
+  };
+
+  const full = samples.length >= MAX_SAMPLES;
+
+  return (
+    <div className="space-y-2" data-testid="sample-map-editor">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragOver(true);
+        }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragOver(false);
+          void addFiles(Array.from(e.dataTransfer.files));
+        }}
+        data-testid="sample-map-dropzone"
+        className={[
+          'border border-dashed rounded p-3 text-center text-xs',
+          dragOver ? 'border-blue-500 text-blue-300' : 'border-gray-700 text-gray-500',
+        ].join(' ')}
+      >
+        Drop WAV or MP3 files here, or{' '}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={full}
+          data-testid="sample-map-browse-button"
+          className="text-blue-400 hover:text-blue-300 underline disabled:opacity-50"
+        >
+          browse
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={SAMPLE_FILE_ACCEPT}
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = '';
+            void addFiles(files);
+          }}
+          data-testid="sample-map-file-input"
+          className="hidden"
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500">
+          {samples.length} / {MAX_SAMPLES} samples
+        </span>
+        <button
+          onClick={() => {
+            setError(null);
+            onChange(drumKitSamples());
+          }}
+          data-testid="sample-map-kit-button"
+          className="px-3 bg-gray-800 hover:bg-gray-700 text-gray-200 text-xs rounded transition-colors"
+          title="Replace the samples with the bundled drum kit: kick, snare and hats on C3–C6"
+        >
+          Load Drum Kit
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-red-400 text-xs" data-testid="sample-map-error">
+          {error}
+        </p>
+      )}
+
+      {samples.length === 0 && (
+        <p className="text-gray-500 text-xs" data-testid="sample-map-empty">
+          No samples — the sampler is silent.
+        </p>
+      )}
+
+      {samples.length > 0 && (
+        <ul className="space-y-1">
+          {samples.map((sample) => {
+            const taken = new Set(samples.filter((s) => s.id !== sample.id).map((s) => s.note));
+            return (
+              <li
+                key={sample.id}
+                className="flex items-center gap-2 bg-gray-800 border border-gray-700 rounded px-2 py-1"
+                data-testid={`sample-map-row-${sample.id}`}
+              >
+                <span className="flex-1 truncate text-xs text-gray-200" title={sample.name}>
+                  {sample.name}
+                </span>
+                <select
+                  value={sample.note}
+                  onChange={(e) => setNote(sample.id, e.target.value)}
+                  data-testid={`sample-map-note-${sample.id}`}
+                  className={FIELD_CLASS}
+                  aria-label={`Root note of ${sample.name}`}
+                >
+                  {SAMPLE_NOTES.map((note) => (
+                    <option key={note} value={note} disabled={taken.has(note)}>
+                      {note}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onChange(samples.filter((s) => s.id !== sample.id))}
+                  data-testid={`sample-map-remove-${sample.id}`}
+                  className="px-1 text-gray-500 hover:text-red-400"
+                  aria-label={`Remove ${sample.name}`}
+                >
+                  ×
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <p className="text-gray-500 text-xs">
+        Each note plays the sample with the nearest root note, repitched to fit.
+      </p>
+    </div>
+  );
+}
@@ -1,15 +1,26 @@
 'use client';
 
-import type { Planet, Vector2D } from '@/types/celestial';
+import { useState } from 'react';
+import type { Planet, SatelliteTriggerPoint, Vector2D } from '@/types/celestial';
+import { SATELLITE_MAX_ECCENTRICITY } from '@/lib/entities/satellite';
 
 export interface SatelliteConfirmOptions {
+  /** Semi-major axis (the radius for circular orbits) */
   orbitRadius: number;
   startAngle: number;
+  eccentricity: number;
+  argumentOfPeriapsis: number;
+  triggerPoint: SatelliteTriggerPoint;
+  /** Sample of a Sampler parent to play, or null for the parent's current note */
+  sampleId: string | null;
 }
 
 interface SatelliteModalProps {
   parentPlanet: Planet;
+  /** First click: where the satellite starts, and the periapsis of an ellipse */
   clickWorldPos: Vector2D;
+  /** Optional second click: the apoapsis distance sets the initial eccentricity */
+  apoapsisWorldPos?: Vector2D;
   onConfirm: (options: SatelliteConfirmOptions) => void;
   onCancel: () => void;
 }
@@ -18,20 +29,46 @@ function distance(a: Vector2D, b: Vector2D): number {
   return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2);
 }
 
+/**
+ * Eccentricity of an orbit with the given periapsis and apoapsis distances.
+ * An apoapsis inside the periapsis gives a circle.
+ */
+function eccentricityFromApsides(periapsis: number, apoapsis: number): number {
+  if (apoapsis <= periapsis) return 0;
+  return Math.min(SATELLITE_MAX_ECCENTRICITY, (apoapsis - periapsis) / (apoapsis + periapsis));
+}
+
 export default function SatelliteModal({
   parentPlanet,
   clickWorldPos,
+  apoapsisWorldPos,
   onConfirm,
   onCancel,
 }: SatelliteModalProps) {
-  const orbitRadius = Math.round(
-    distance(clickWorldPos, parentPlanet.position)
-  );
+  const periapsisDistance = distance(clickWorldPos, parentPlanet.position);
   const startAngle = Math.atan2(
     clickWorldPos.y - parentPlanet.position.y,
     clickWorldPos.x - parentPlanet.position.x
   );
 
+  const [eccentricity, setEccentricity] = useState(() =>
+    apoapsisWorldPos
+      ? Math.round(
+          eccentricityFromApsides(
+            periapsisDistance,
+            distance(apoapsisWorldPos, parentPlanet.position)
+          ) * 100
+        ) / 100
+      : 0
+  );
+  const [triggerPoint, setTriggerPoint] = useState<SatelliteTriggerPoint>('top');
+  const [sampleId, setSampleId] = useState<string | null>(null);
+  const samples = parentPlanet.synthType === 'Sampler' ? parentPlanet.samples : [];
+
+  // The first click stays the periapsis, so eccentricity stretches the far side
+  const orbitRadius = Math.round(periapsisDistance / (1 - eccentricity));
+  const apoapsisDistance = Math.round(periapsisDistance * (1 + eccentricity) / (1 - eccentricity));
+
   return (
     <div
       className="fixed inset-0 z-50 flex items-center justify-center"
@@ -63,7 +100,9 @@ export default function SatelliteModal({
             className="flex items-center justify-between text-sm"
             data-testid="satellite-orbit-radius-display"
           >
-            <span className="text-gray-400">Orbit radius</span>
+            <span className="text-gray-400">
+              {eccentricity > 0 ? 'Semi-major axis' : 'Orbit radius'}
+            </span>
             <span className="text-gray-200 tabular-nums">{orbitRadius} units</span>
           </div>
 
@@ -73,15 +112,77 @@ export default function SatelliteModal({
               {Math.round((startAngle * 180) / Math.PI)}°
             </span>
           </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Eccentricity{' '}
+              <span className="text-gray-500" data-testid="satellite-eccentricity-display">
+                ({eccentricity.toFixed(2)}
+                {eccentricity > 0 && ` — ${Math.round(periapsisDistance)}–${apoapsisDistance} units`})
+              </span>
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={SATELLITE_MAX_ECCENTRICITY}
+              step={0.01}
+              value={eccentricity}
+              onChange={(e) => setEccentricity(parseFloat(e.target.value))}
+              data-testid="satellite-eccentricity-slider"
+              className="w-full accent-purple-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Trigger at</label>
+            <select
+              value={triggerPoint}
+              onChange={(e) => setTriggerPoint(e.target.value as SatelliteTriggerPoint)}
+              data-testid="satellite-trigger-point-select"
+              className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-white focus:border-purple-500 focus:outline-none"
+            >
+              <option value="top">12 o&apos;clock</option>
+              <option value="periapsis">Periapsis (closest point)</option>
+            </select>
+          </div>
+
+          {samples.length > 0 && (
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Plays</label>
+              <select
+                value={sampleId ?? ''}
+                onChange={(e) => setSampleId(e.target.value || null)}
+                data-testid="satellite-sample-select"
+                className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-white focus:border-purple-500 focus:outline-none"
+              >
+                <option value="">The planet&apos;s current note</option>
+                {samples.map((sample) => (
+                  <option key={sample.id} value={sample.id}>
+                    {sample.name} ({sample.note})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
 
         <p className="text-gray-500 text-xs mb-4">
           The satellite will orbit at this radius and trigger notes when it
-          passes 12 o&apos;clock.
+          passes {triggerPoint === 'periapsis' ? 'closest to the planet' : <>12 o&apos;clock</>}.
+          {eccentricity > 0 && ' It swells in volume near the planet and fades far from it.'}
         </p>
 
         <button
-          onClick={() => onConfirm({ orbitRadius, startAngle })}
+          onClick={() =>
+            onConfirm({
+              orbitRadius,
+              startAngle,
+              eccentricity,
+              argumentOfPeriapsis: startAngle,
+              triggerPoint,
+              sampleId,
+            })
+          }
           data-testid="satellite-confirm-button"
           className="w-full bg-purple-700 hover:bg-purple-600 text-white text-sm font-medium py-2 rounded transition-colors"
         >
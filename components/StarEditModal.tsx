@@ -0,0 +1,191 @@
+'use client';
+
+import { useState } from 'react';
+import type { MusicalKey, MusicalMode, Star } from '@/types/celestial';
+import type { TimelineEvent } from '@/types/audio';
+import { KEY_SEMITONE, MODE_LABELS, MUSICAL_MODES, degreeRangeLabel } from '@/lib/audio/scales';
+import { STAR_MIN_MASS, STAR_MAX_MASS } from '@/lib/entities/star';
+import { cloneTuning } from '@/lib/audio/tuning';
+import { cloneProgression } from '@/lib/audio/progression';
+import { cloneTimeline } from '@/lib/audio/timeline';
+import type { StarUpdateOptions } from '@/lib/simulation/simulation';
+import TuningEditor from './TuningEditor';
+import ProgressionEditor from './ProgressionEditor';
+import TimelineEditor from './TimelineEditor';
+
+const MUSICAL_KEYS = Object.keys(KEY_SEMITONE) as MusicalKey[];
+
+interface StarEditModalProps {
+  star: Star;
+  /** Called on every edit so the change is heard immediately */
+  onChange: (options: Required<StarUpdateOptions>) => void;
+  onClose: () => void;
+  /** Reads the live star's beat, to show the progression chord playing now */
+  getBeat: () => number;
+  /** The system's scheduled key, mode and tempo changes */
+  timeline: TimelineEvent[];
+  onTimelineChange: (timeline: TimelineEvent[]) => void;
+}
+
+/**
+ * Edits the placed star while the system keeps playing. Every change is
+ * applied live; Revert restores the values the modal was opened with.
+ */
+export default function StarEditModal({
+  star,
+  onChange,
+  onClose,
+  getBeat,
+  timeline,
+  onTimelineChange,
+}: StarEditModalProps) {
+  const [initial] = useState<Required<StarUpdateOptions>>(() => ({
+    bpm: star.bpm,
+    key: star.key,
+    mode: star.mode,
+    mass: star.mass,
+    tuning: cloneTuning(star.tuning),
+    progression: star.progression ? cloneProgression(star.progression) : null,
+  }));
+  const [values, setValues] = useState(initial);
+  const [initialTimeline] = useState(() => cloneTimeline(timeline));
+
+  const update = (patch: StarUpdateOptions) => {
+    const next = { ...values, ...patch };
+    setValues(next);
+    onChange(next);
+  };
+
+  const handleRevert = () => {
+    onChange(initial);
+    onTimelineChange(initialTimeline);
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center"
+      data-testid="star-edit-modal"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Edit Star"
+    >
+      {/* Backdrop — closes, keeping the live changes */}
+      <div
+        className="absolute inset-0 bg-black/40"
+        onClick={onClose}
+        data-testid="star-edit-modal-backdrop"
+      />
+
+      {/* Panel */}
+      <div className="relative bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-72 max-h-[85vh] overflow-y-auto p-6">
+        <h2 className="text-base font-semibold text-yellow-400 mb-4">Edit Star</h2>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              BPM <span className="text-gray-500" data-testid="star-edit-bpm-display">({values.bpm})</span>
+            </label>
+            <input
+              type="range"
+              min={20}
+              max={300}
+              step={1}
+              value={values.bpm}
+              onChange={(e) => update({ bpm: parseInt(e.target.value, 10) })}
+              data-testid="star-edit-bpm-slider"
+              className="w-full accent-yellow-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Key</label>
+            <select
+              value={values.key}
+              onChange={(e) => update({ key: e.target.value as MusicalKey })}
+              data-testid="star-edit-key-select"
+              className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-white focus:border-yellow-500 focus:outline-none"
+            >
+              {MUSICAL_KEYS.map((k) => (
+                <option key={k} value={k}>{k}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Mode</label>
+            <select
+              value={values.mode}
+              onChange={(e) => update({ mode: e.target.value as MusicalMode })}
+              data-testid="star-edit-mode-select"
+              className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-white focus:border-yellow-500 focus:outline-none"
+            >
+              {MUSICAL_MODES.map((m) => (
+                <option key={m} value={m}>{MODE_LABELS[m]}</option>
+              ))}
+            </select>
+            <p className="text-gray-500 text-xs mt-1" data-testid="star-edit-mode-degrees">
+              Degrees {degreeRangeLabel(values.mode)} — planets rest on any degree past the scale
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              Mass <span className="text-gray-500">({values.mass.toLocaleString('en-US')})</span>
+            </label>
+            <input
+              type="range"
+              min={STAR_MIN_MASS}
+              max={STAR_MAX_MASS}
+              step={1000}
+              value={values.mass}
+              onChange={(e) => update({ mass: parseInt(e.target.value, 10) })}
+              data-testid="star-edit-mass-slider"
+              className="w-full accent-yellow-500"
+            />
+            <p className="text-gray-500 text-xs mt-1">
+              A heavier star pulls harder — planets fall inward or fly outward.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Tuning</label>
+            <TuningEditor tuning={values.tuning} onChange={(tuning) => update({ tuning })} />
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Chord progression</label>
+            <ProgressionEditor
+              progression={values.progression}
+              musicalKey={values.key}
+              mode={values.mode}
+              getBeat={getBeat}
+              onChange={(progression) => update({ progression })}
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Timeline</label>
+            <TimelineEditor timeline={timeline} onChange={onTimelineChange} />
+          </div>
+        </div>
+
+        <button
+          onClick={onClose}
+          data-testid="star-edit-done-button"
+          className="mt-6 w-full bg-yellow-600 hover:bg-yellow-500 text-white text-sm font-medium py-2 rounded transition-colors"
+        >
+          Done
+        </button>
+
+        <button
+          onClick={handleRevert}
+          data-testid="star-edit-revert-button"
+          className="mt-3 w-full text-gray-500 hover:text-gray-300 text-xs py-1 transition-colors"
+        >
+          Revert
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useState } from 'react';
+import type { PatchWaveform, SynthPatch, SynthPreset } from '@/types/audio';
+import { isValidSynthType } from '@/lib/audio/synthManager';
+import type { SynthType } from '@/lib/audio/synthManager';
+import {
+  PATCH_SECTIONS,
+  PATCH_SECTION_LABELS,
+  PATCH_WAVEFORMS,
+  ENVELOPE_PARAMS,
+  FILTER_ENVELOPE_PARAMS,
+  HARMONICITY_PARAM,
+  MODULATION_INDEX_PARAM,
+  clonePatch,
+  upsertPreset,
+  removePreset,
+} from '@/lib/audio/patches';
+import type { PatchParamSpec } from '@/lib/audio/patches';
+
+interface SynthPatchEditorProps {
+  synthType: SynthType;
+  patch: SynthPatch;
+  /** The preset library */
+  presets: SynthPreset[];
+  /** Called with the edited patch, or a loaded preset's synth type and patch */
+  onChange: (synthType: SynthType, patch: SynthPatch) => void;
+  /** Called with the library after a preset is saved or deleted */
+  onPresetsChange: (presets: SynthPreset[]) => void;
+}
+
+const FIELD_CLASS =
+  'bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-white focus:border-blue-500 focus:outline-none';
+
+interface ParamSliderProps {
+  spec: PatchParamSpec;
+  value: number;
+  testId: string;
+  onChange: (value: number) => void;
+}
+
+function ParamSlider({ spec, value, testId, onChange }: ParamSliderProps) {
+  return (
+    <div className="mt-1">
+      <label className="block text-xs text-gray-500">
+        {spec.label} <span>({value})</span>
+      </label>
+      <input
+        type="range"
+        min={spec.min}
+        max={spec.max}
+        step={spec.step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        data-testid={testId}
+        className="w-full accent-blue-500"
+      />
+    </div>
+  );
+}
+
+/**
+ * Edits a planet's synth patch — only the sections its synth type has — and
+ * loads, saves and deletes named presets in the library.
+ */
+export default function SynthPatchEditor({
+  synthType,
+  patch,
+  presets,
+  onChange,
+  onPresetsChange,
+}: SynthPatchEditorProps) {
+  const [presetName, setPresetName] = useState('');
+  const sections = PATCH_SECTIONS[synthType];
+  const selected = presets.find((p) => p.name === presetName);
+
+  const update = (changes: Partial<SynthPatch>) => onChange(synthType, { ...patch, ...changes });
+
+  const setEnvelope = (key: 'envelope' | 'filterEnvelope', name: string, value: number) => {
+    update({ [key]: { ...patch[key], [name]: value } });
+  };
+
+  const loadPreset = (name: string) => {
+    setPresetName(name);
+    const preset = presets.find((p) => p.name === name);
+    if (preset && isValidSynthType(preset.synthType)) onChange(preset.synthType, clonePatch(preset.patch));
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    onPresetsChange(upsertPreset(presets, { name, synthType, patch: clonePatch(patch) }));
+    setPresetName(name);
+  };
+
+  const envelopeSliders = (key: 'envelope' | 'filterEnvelope', specs: PatchParamSpec[]) =>
+    specs.map((spec) => (
+      <ParamSlider
+        key={spec.name}
+        spec={spec}
+        value={(patch[key] as unknown as Record<string, number>)[spec.name]}
+        testId={`synth-patch-${key}-${spec.name}`}
+        onChange={(value) => setEnvelope(key, spec.name, value)}
+      />
+    ));
+
+  return (
+    <div className="space-y-2" data-testid="synth-patch-editor">
+      {/* ─── Presets ─── */}
+      <div className="flex gap-1">
+        <select
+          value={selected ? selected.name : ''}
+          onChange={(e) => loadPreset(e.target.value)}
+          data-testid="synth-patch-preset-select"
+          className={`flex-1 ${FIELD_CLASS}`}
+          aria-label="Load preset"
+        >
+          <option value="">— Preset —</option>
+          {presets.map((preset) => (
+            <option key={preset.name} value={preset.name}>
+              {preset.name} ({preset.synthType})
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => selected && onPresetsChange(removePreset(presets, selected.name))}
+          disabled={!selected}
+          data-testid="synth-patch-delete-preset-button"
+          className="px-2 text-gray-500 hover:text-red-400 disabled:opacity-30"
+          aria-label="Delete preset"
+        >
+          ×
+        </button>
+      </div>
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Preset name"
+          data-testid="synth-patch-preset-name-input"
+          className={`flex-1 ${FIELD_CLASS}`}
+          aria-label="Preset name"
+        />
+        <button
+          onClick={savePreset}
+          disabled={!presetName.trim()}
+          data-testid="synth-patch-save-preset-button"
+          className="px-3 bg-gray-800 hover:bg-gray-700 text-gray-200 text-xs rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Save this synth and patch to the preset library (replaces a preset of the same name)"
+        >
+          Save Preset
+        </button>
+      </div>
+
+      {/* ─── Patch ─── */}
+      {sections.length === 0 && (
+        <p className="text-gray-500 text-xs" data-testid="synth-patch-empty">
+          {synthType} has no editable patch settings.
+        </p>
+      )}
+
+      {sections.map((section) => (
+        <div
+          key={section}
+          className="bg-gray-800 border border-gray-700 rounded p-2"
+          data-testid={`synth-patch-section-${section}`}
+        >
+          <span className="text-xs font-medium text-gray-200">{PATCH_SECTION_LABELS[section]}</span>
+
+          {section === 'oscillator' && (
+            <select
+              value={patch.oscillator}
+              onChange={(e) => update({ oscillator: e.target.value as PatchWaveform })}
+              data-testid="synth-patch-oscillator-select"
+              className={`mt-1 w-full ${FIELD_CLASS}`}
+              aria-label="Oscillator waveform"
+            >
+              {PATCH_WAVEFORMS.map((waveform) => (
+                <option key={waveform} value={waveform}>{waveform}</option>
+              ))}
+            </select>
+          )}
+
+          {section === 'envelope' && envelopeSliders('envelope', ENVELOPE_PARAMS)}
+
+          {section === 'filterEnvelope' && envelopeSliders('filterEnvelope', FILTER_ENVELOPE_PARAMS)}
+
+          {section === 'harmonicity' && (
+            <ParamSlider
+              spec={HARMONICITY_PARAM}
+              value={patch.harmonicity}
+              testId="synth-patch-harmonicity"
+              onChange={(harmonicity) => update({ harmonicity })}
+            />
+          )}
+
+          {section === 'modulationIndex' && (
+            <ParamSlider
+              spec={MODULATION_INDEX_PARAM}
+              value={patch.modulationIndex}
+              testId="synth-patch-modulationIndex"
+              onChange={(modulationIndex) => update({ modulationIndex })}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import { useState } from 'react';
+import type { MusicalKey, MusicalMode } from '@/types/celestial';
+import type { TimelineEvent, TimelineUnit } from '@/types/audio';
+import { KEY_SEMITONE, MODE_LABELS, MUSICAL_MODES } from '@/lib/audio/scales';
+import {
+  MAX_GLIDE_BARS,
+  MAX_TIMELINE_EVENTS,
+  MAX_TRANSPOSE,
+  TIMELINE_UNITS,
+  TIMELINE_UNIT_LABELS,
+  createTimelineEvent,
+  describeTimelineEvent,
+  timelineEventChanges,
+} from '@/lib/audio/timeline';
+
+const MUSICAL_KEYS = Object.keys(KEY_SEMITONE) as MusicalKey[];
+
+const FIELD_CLASS =
+  'w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-white focus:border-yellow-500 focus:outline-none';
+
+interface TimelineEditorProps {
+  timeline: TimelineEvent[];
+  onChange: (timeline: TimelineEvent[]) => void;
+}
+
+/** Event being composed in the editor, with number fields as typed */
+interface Draft {
+  unit: TimelineUnit;
+  at: string;
+  every: string;
+  key: MusicalKey | '';
+  transpose: string;
+  mode: MusicalMode | '';
+  bpm: string;
+  glideBars: string;
+}
+
+const EMPTY_DRAFT: Draft = {
+  unit: 'bar',
+  at: '1',
+  every: '',
+  key: '',
+  transpose: '0',
+  mode: '',
+  bpm: '',
+  glideBars: '0',
+};
+
+function readInteger(text: string, min: number, max: number): number | null {
+  const value = Number(text);
+  return text.trim() !== '' && Number.isInteger(value) && value >= min && value <= max ? value : null;
+}
+
+/**
+ * Returns the event a draft describes, or null if a field is out of range
+ * or the event would change nothing.
+ */
+function draftToEvent(draft: Draft): TimelineEvent | null {
+  const at = readInteger(draft.at, 1, Number.MAX_SAFE_INTEGER);
+  const every = draft.every.trim() === '' ? null : readInteger(draft.every, 1, Number.MAX_SAFE_INTEGER);
+  const transpose = readInteger(draft.transpose, -MAX_TRANSPOSE, MAX_TRANSPOSE);
+  const bpm = draft.bpm.trim() === '' ? null : readInteger(draft.bpm, 1, 300);
+  const glideBars = readInteger(draft.glideBars, 0, MAX_GLIDE_BARS);
+  if (at === null || transpose === null || glideBars === null) return null;
+  if (draft.every.trim() !== '' && every === null) return null;
+  if (draft.bpm.trim() !== '' && bpm === null) return null;
+
+  const event = createTimelineEvent({
+    unit: draft.unit,
+    at,
+    every,
+    key: draft.key || null,
+    transpose,
+    mode: draft.mode || null,
+    bpm,
+    glideBars: bpm === null ? 0 : glideBars,
+  });
+  return timelineEventChanges(event) ? event : null;
+}
+
+/**
+ * Edits the system's timeline: lists the scheduled key, mode and tempo
+ * changes, and adds new ones on a bar or after revolutions of the outermost
+ * planet, once or repeating.
+ */
+export default function TimelineEditor({ timeline, onChange }: TimelineEditorProps) {
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+
+  const event = draftToEvent(draft);
+  const full = timeline.length >= MAX_TIMELINE_EVENTS;
+  const noun = draft.unit === 'bar' ? 'bars' : 'revolutions';
+
+  const edit = (patch: Partial<Draft>) => setDraft({ ...draft, ...patch });
+
+  const handleAdd = () => {
+    if (!event || full) return;
+    onChange([...timeline, event]);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  return (
+    <div className="space-y-2" data-testid="timeline-editor">
+      {timeline.length === 0 ? (
+        <p className="text-gray-500 text-xs" data-testid="timeline-empty">
+          No changes scheduled.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {timeline.map((item, i) => (
+            <li key={i} className="flex items-center justify-between gap-2 text-xs text-gray-300">
+              <span data-testid={`timeline-event-${i}`}>{describeTimelineEvent(item)}</span>
+              <button
+                onClick={() => onChange(timeline.filter((_, j) => j !== i))}
+                aria-label={`Remove ${describeTimelineEvent(item)}`}
+                data-testid={`timeline-remove-${i}`}
+                className="text-gray-500 hover:text-red-400 transition-colors"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="border border-gray-800 rounded p-2 space-y-2">
+        <select
+          value={draft.unit}
+          onChange={(e) => edit({ unit: e.target.value as TimelineUnit })}
+          aria-label="Fires"
+          data-testid="timeline-unit-select"
+          className={FIELD_CLASS}
+        >
+          {TIMELINE_UNITS.map((unit) => (
+            <option key={unit} value={unit}>
+              {TIMELINE_UNIT_LABELS[unit]}
+            </option>
+          ))}
+        </select>
+
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-gray-400">
+            {draft.unit === 'bar' ? 'Bar' : 'Revolutions'}
+            <input
+              type="number"
+              min={1}
+              value={draft.at}
+              onChange={(e) => edit({ at: e.target.value })}
+              data-testid="timeline-at-input"
+              className={FIELD_CLASS}
+            />
+          </label>
+          <label className="text-xs text-gray-400">
+            Repeat every ({noun})
+            <input
+              type="number"
+              min={1}
+              value={draft.every}
+              placeholder="once"
+              onChange={(e) => edit({ every: e.target.value })}
+              data-testid="timeline-every-input"
+              className={FIELD_CLASS}
+            />
+          </label>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={draft.key}
+            onChange={(e) => edit({ key: e.target.value as MusicalKey | '' })}
+            aria-label="Key"
+            data-testid="timeline-key-select"
+            className={FIELD_CLASS}
+          >
+            <option value="">Keep key</option>
+            {MUSICAL_KEYS.map((k) => (
+              <option key={k} value={k}>
+                {k}
+              </option>
+            ))}
+          </select>
+          <label className="text-xs text-gray-400">
+            Transpose (semitones)
+            <input
+              type="number"
+              min={-MAX_TRANSPOSE}
+              max={MAX_TRANSPOSE}
+              value={draft.transpose}
+              onChange={(e) => edit({ transpose: e.target.value })}
+              data-testid="timeline-transpose-input"
+              className={FIELD_CLASS}
+            />
+          </label>
+        </div>
+
+        <select
+          value={draft.mode}
+          onChange={(e) => edit({ mode: e.target.value as MusicalMode | '' })}
+          aria-label="Mode"
+          data-testid="timeline-mode-select"
+          className={FIELD_CLASS}
+        >
+          <option value="">Keep mode</option>
+          {MUSICAL_MODES.map((m) => (
+            <option key={m} value={m}>
+              {MODE_LABELS[m]}
+            </option>
+          ))}
+        </select>
+
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-gray-400">
+            BPM
+            <input
+              type="number"
+              min={1}
+              max={300}
+              value={draft.bpm}
+              placeholder="keep"
+              onChange={(e) => edit({ bpm: e.target.value })}
+              data-testid="timeline-bpm-input"
+              className={FIELD_CLASS}
+            />
+          </label>
+          <label className="text-xs text-gray-400">
+            Glide (bars)
+            <input
+              type="number"
+              min={0}
+              max={MAX_GLIDE_BARS}
+              value={draft.glideBars}
+              disabled={draft.bpm.trim() === ''}
+              onChange={(e) => edit({ glideBars: e.target.value })}
+              data-testid="timeline-glide-input"
+              className={`${FIELD_CLASS} disabled:opacity-50`}
+            />
+          </label>
+        </div>
+
+        <button
+          onClick={handleAdd}
+          disabled={!event || full}
+          data-testid="timeline-add-button"
+          className="w-full bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:hover:bg-gray-700 text-white text-xs py-1.5 rounded transition-colors"
+        >
+          {full ? `Timeline full (${MAX_TIMELINE_EVENTS} events)` : event ? `Add: ${describeTimelineEvent(event)}` : 'Add event'}
+        </button>
+      </div>
+    </div>
+  );
+}
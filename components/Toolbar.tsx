@@ -2,20 +2,26 @@
 
 import { MAX_PLANETS } from '@/lib/entities/planet';
 import { MAX_SATELLITES } from '@/lib/entities/satellite';
+import { MAX_COMETS } from '@/lib/entities/comet';
 
 interface ToolbarProps {
   planetCount: number;
   satelliteCount: number;
+  cometCount: number;
   onSatelliteToolSelect: () => void;
   satelliteToolActive: boolean;
 }
 
+type DragItemType = 'star' | 'planet' | 'comet';
+
 interface DragItem {
-  type: 'star' | 'planet';
+  type: DragItemType;
   label: string;
   icon: string;
   tooltip: string;
   color: string;
+  /** Maximum number of this item on the canvas; undefined = no toolbar limit */
+  limit?: number;
 }
 
 const DRAG_ITEMS: DragItem[] = [
@@ -32,19 +38,33 @@ const DRAG_ITEMS: DragItem[] = [
     icon: '●',
     tooltip: 'Drag onto the canvas to place a planet',
     color: '#4a9eff',
+    limit: MAX_PLANETS,
+  },
+  {
+    type: 'comet',
+    label: 'Comet',
+    icon: '☄',
+    tooltip: 'Drag onto the canvas to launch a comet',
+    color: '#7fd8f0',
+    limit: MAX_COMETS,
   },
 ];
 
 export default function Toolbar({
   planetCount,
   satelliteCount,
+  cometCount,
   onSatelliteToolSelect,
   satelliteToolActive,
 }: ToolbarProps) {
-  const planetsAtLimit = planetCount >= MAX_PLANETS;
   const satellitesAtLimit = satelliteCount >= MAX_SATELLITES;
+  const counts: Record<DragItemType, number> = {
+    star: 0,
+    planet: planetCount,
+    comet: cometCount,
+  };
 
-  const handleDragStart = (e: React.DragEvent, itemType: 'star' | 'planet') => {
+  const handleDragStart = (e: React.DragEvent, itemType: DragItemType) => {
     e.dataTransfer.setData('itemType', itemType);
     e.dataTransfer.effectAllowed = 'copy';
   };
@@ -59,7 +79,7 @@ export default function Toolbar({
       </span>
 
       {DRAG_ITEMS.map((item) => {
-        const disabled = item.type === 'planet' && planetsAtLimit;
+        const disabled = item.limit !== undefined && counts[item.type] >= item.limit;
         return (
           <div key={item.type} className="relative group w-14">
             <div
@@ -86,7 +106,7 @@ export default function Toolbar({
             {/* Tooltip */}
             <div className="pointer-events-none absolute left-full ml-2 top-1/2 -translate-y-1/2 z-50 hidden group-hover:block">
               <div className="bg-gray-800 text-gray-200 text-xs rounded px-2 py-1 whitespace-nowrap border border-gray-700 shadow-lg">
-                {disabled ? `Limit reached (${MAX_PLANETS})` : item.tooltip}
+                {disabled ? `Limit reached (${item.limit})` : item.tooltip}
               </div>
             </div>
           </div>
@@ -144,6 +164,10 @@ export default function Toolbar({
           <div>{satelliteCount}/{MAX_SATELLITES}</div>
           <div className="text-gray-700 text-xs">sats</div>
         </div>
+        <div className="text-gray-600 text-xs mt-1">
+          <div>{cometCount}/{MAX_COMETS}</div>
+          <div className="text-gray-700 text-xs">comets</div>
+        </div>
       </div>
     </aside>
   );
@@ -0,0 +1,164 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { Tuning, TuningSystem } from '@/types/audio';
+import {
+  MAX_REFERENCE_FREQUENCY,
+  MIN_REFERENCE_FREQUENCY,
+  SCALA_MAPPING_ACCEPT,
+  SCALA_SCALE_ACCEPT,
+  TUNING_LABELS,
+  TUNING_SYSTEMS,
+  parseKeyboardMapping,
+  parseScalaScale,
+  readTextFile,
+} from '@/lib/audio/tuning';
+
+interface TuningEditorProps {
+  tuning: Tuning;
+  onChange: (tuning: Tuning) => void;
+}
+
+const BUTTON_CLASS =
+  'px-2 py-1 bg-gray-800 hover:bg-gray-700 text-gray-200 text-xs rounded transition-colors';
+
+/**
+ * Edits a star's tuning: pick a built-in system or an imported Scala `.scl`
+ * scale, set the A4 reference, and optionally import a `.kbm` keyboard
+ * mapping that decides which note plays which scale degree.
+ */
+export default function TuningEditor({ tuning, onChange }: TuningEditorProps) {
+  const scaleInputRef = useRef<HTMLInputElement>(null);
+  const mappingInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const importFile = async (file: File | undefined, kind: 'scale' | 'mapping') => {
+    if (!file) return;
+    try {
+      const text = await readTextFile(file);
+      if (kind === 'scale') {
+        onChange({ ...tuning, system: 'scala', scale: parseScalaScale(text, file.name) });
+      } else {
+        onChange({ ...tuning, keyboardMapping: parseKeyboardMapping(text, file.name) });
+      }
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const mapping = tuning.keyboardMapping;
+
+  return (
+    <div className="space-y-2" data-testid="tuning-editor">
+      <select
+        value={tuning.system}
+        onChange={(e) => onChange({ ...tuning, system: e.target.value as TuningSystem })}
+        data-testid="tuning-system-select"
+        aria-label="Tuning system"
+        className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-white focus:border-yellow-500 focus:outline-none"
+      >
+        {TUNING_SYSTEMS.map((system) => (
+          <option key={system} value={system} disabled={system === 'scala' && !tuning.scale}>
+            {TUNING_LABELS[system]}
+          </option>
+        ))}
+      </select>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">
+          A4{' '}
+          <span className="text-gray-500" data-testid="tuning-reference-display">
+            ({tuning.referenceFrequency} Hz)
+          </span>
+        </label>
+        <input
+          type="range"
+          min={MIN_REFERENCE_FREQUENCY}
+          max={MAX_REFERENCE_FREQUENCY}
+          step={1}
+          value={tuning.referenceFrequency}
+          onChange={(e) => onChange({ ...tuning, referenceFrequency: parseInt(e.target.value, 10) })}
+          disabled={mapping !== null}
+          data-testid="tuning-reference-slider"
+          className="w-full accent-yellow-500 disabled:opacity-50"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => scaleInputRef.current?.click()}
+          data-testid="tuning-scale-button"
+          className={BUTTON_CLASS}
+        >
+          Import .scl
+        </button>
+        <button
+          onClick={() => mappingInputRef.current?.click()}
+          data-testid="tuning-mapping-button"
+          className={BUTTON_CLASS}
+        >
+          Import .kbm
+        </button>
+        <input
+          ref={scaleInputRef}
+          type="file"
+          accept={SCALA_SCALE_ACCEPT}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            void importFile(file, 'scale');
+          }}
+          data-testid="tuning-scale-input"
+          className="hidden"
+        />
+        <input
+          ref={mappingInputRef}
+          type="file"
+          accept={SCALA_MAPPING_ACCEPT}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            void importFile(file, 'mapping');
+          }}
+          data-testid="tuning-mapping-input"
+          className="hidden"
+        />
+      </div>
+
+      {error && (
+        <p className="text-red-400 text-xs" data-testid="tuning-error">
+          {error}
+        </p>
+      )}
+
+      {tuning.scale && (
+        <p className="text-gray-500 text-xs truncate" data-testid="tuning-scale-name" title={tuning.scale.description}>
+          Scale: {tuning.scale.name} ({tuning.scale.cents.length} notes)
+        </p>
+      )}
+
+      {mapping && (
+        <div className="flex items-center gap-2">
+          <p className="flex-1 text-gray-500 text-xs truncate" data-testid="tuning-mapping-name">
+            Mapping: {mapping.name} (A4 from mapping)
+          </p>
+          <button
+            onClick={() => onChange({ ...tuning, keyboardMapping: null })}
+            data-testid="tuning-mapping-clear"
+            className="px-1 text-gray-500 hover:text-red-400"
+            aria-label="Remove keyboard mapping"
+          >
+            ×
+          </button>
+        </div>
+      )}
+
+      <p className="text-gray-500 text-xs">
+        {mapping
+          ? 'The keyboard mapping sets which note plays each scale degree.'
+          : 'The tonic keeps its usual pitch; other notes take the nearest step of the tuning.'}
+      </p>
+    </div>
+  );
+}
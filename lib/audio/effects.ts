@@ -0,0 +1,173 @@
+'use client';
+
+import * as Tone from 'tone';
+import type { EffectType, EffectSettings } from '@/types/audio';
+
+/**
+ * Per-planet insert effects. A planet's chain is a list of EffectSettings
+ * (saved with the planet); this module turns each into a Tone.js node and
+ * keeps the node in step with edits.
+ */
+
+export const EFFECT_TYPES: readonly EffectType[] = [
+  'filter',
+  'delay',
+  'reverb',
+  'chorus',
+  'bitcrusher',
+  'distortion',
+] as const;
+
+/** Longest chain a planet can have. */
+export const MAX_EFFECTS = 6;
+
+/**
+ * An editable effect parameter and its range.
+ */
+export interface EffectParamSpec {
+  name: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+  /** False for parameters too costly to change continuously (e.g. a reverb rebuilds its impulse response) */
+  modulatable?: boolean;
+}
+
+const WET: EffectParamSpec = { name: 'wet', label: 'Mix', min: 0, max: 1, step: 0.01, default: 0.5 };
+
+export const EFFECT_PARAMS: Record<EffectType, EffectParamSpec[]> = {
+  filter: [
+    { name: 'frequency', label: 'Cutoff (Hz)', min: 20, max: 20000, step: 1, default: 1200 },
+    { name: 'Q', label: 'Resonance', min: 0.1, max: 20, step: 0.1, default: 1 },
+  ],
+  delay: [
+    { name: 'delayTime', label: 'Time (s)', min: 0.01, max: 1, step: 0.01, default: 0.25 },
+    { name: 'feedback', label: 'Feedback', min: 0, max: 0.95, step: 0.01, default: 0.4 },
+    { ...WET, default: 0.3 },
+  ],
+  reverb: [
+    { name: 'decay', label: 'Decay (s)', min: 0.1, max: 10, step: 0.1, default: 2, modulatable: false },
+    { ...WET, default: 0.3 },
+  ],
+  chorus: [
+    { name: 'frequency', label: 'Rate (Hz)', min: 0.1, max: 10, step: 0.1, default: 1.5 },
+    { name: 'depth', label: 'Depth', min: 0, max: 1, step: 0.01, default: 0.7 },
+    WET,
+  ],
+  bitcrusher: [
+    { name: 'bits', label: 'Bits', min: 1, max: 16, step: 1, default: 4 },
+    WET,
+  ],
+  distortion: [
+    { name: 'distortion', label: 'Drive', min: 0, max: 1, step: 0.01, default: 0.4 },
+    WET,
+  ],
+};
+
+export const EFFECT_LABELS: Record<EffectType, string> = {
+  filter: 'Filter',
+  delay: 'Delay',
+  reverb: 'Reverb',
+  chorus: 'Chorus',
+  bitcrusher: 'Bitcrusher',
+  distortion: 'Distortion',
+};
+
+/**
+ * Returns the default parameter values for an effect type.
+ */
+export function defaultEffectParams(type: EffectType): Record<string, number> {
+  return Object.fromEntries(EFFECT_PARAMS[type].map((p) => [p.name, p.default]));
+}
+
+/**
+ * Creates settings for a new effect with default parameters and an ID not
+ * already used in `chain`.
+ */
+export function createEffectSettings(type: EffectType, chain: EffectSettings[] = []): EffectSettings {
+  const taken = new Set(chain.map((e) => e.id));
+  let n = 1;
+  while (taken.has(`${type}-${n}`)) n++;
+  return { id: `${type}-${n}`, type, bypassed: false, params: defaultEffectParams(type) };
+}
+
+/**
+ * Clamps every known parameter to its range, filling in missing ones with
+ * defaults and dropping unknown ones.
+ */
+export function normalizeEffectParams(
+  type: EffectType,
+  params: Record<string, number>
+): Record<string, number> {
+  return Object.fromEntries(
+    EFFECT_PARAMS[type].map((spec) => {
+      const value = params[spec.name];
+      const finite = typeof value === 'number' && Number.isFinite(value) ? value : spec.default;
+      return [spec.name, Math.max(spec.min, Math.min(spec.max, finite))];
+    })
+  );
+}
+
+/**
+ * Moves the effect at `from` to index `to`, returning a new chain.
+ */
+export function moveEffect(chain: EffectSettings[], from: number, to: number): EffectSettings[] {
+  if (from === to || from < 0 || from >= chain.length || to < 0 || to >= chain.length) return chain;
+  const next = [...chain];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+// ─── Tone.js nodes ─────────────────────────────────────────────────────────────
+
+export type EffectNode =
+  | Tone.Filter
+  | Tone.FeedbackDelay
+  | Tone.Reverb
+  | Tone.Chorus
+  | Tone.BitCrusher
+  | Tone.Distortion;
+
+/**
+ * Creates the Tone.js node for an effect, with its parameters applied.
+ * Chorus LFOs are started so the effect is audible straight away.
+ */
+export function createEffectNode(settings: EffectSettings): EffectNode {
+  const p = normalizeEffectParams(settings.type, settings.params);
+
+  switch (settings.type) {
+    case 'filter':
+      return new Tone.Filter({ type: 'lowpass', frequency: p.frequency, Q: p.Q });
+    case 'delay':
+      return new Tone.FeedbackDelay({ delayTime: p.delayTime, feedback: p.feedback, wet: p.wet });
+    case 'reverb':
+      return new Tone.Reverb({ decay: p.decay, wet: p.wet });
+    case 'chorus':
+      return new Tone.Chorus({ frequency: p.frequency, depth: p.depth, wet: p.wet }).start();
+    case 'bitcrusher': {
+      const crusher = new Tone.BitCrusher(p.bits);
+      crusher.wet.value = p.wet;
+      return crusher;
+    }
+    case 'distortion':
+      return new Tone.Distortion({ distortion: p.distortion, wet: p.wet });
+  }
+}
+
+/**
+ * Applies edited parameters to an existing node without rebuilding it.
+ */
+export function applyEffectParams(node: EffectNode, settings: EffectSettings): void {
+  (node as Tone.ToneAudioNode).set(normalizeEffectParams(settings.type, settings.params));
+}
+
+/**
+ * Resolves once every node can make sound. Reverbs build their impulse
+ * response asynchronously; the other effects are ready immediately.
+ */
+export async function effectsReady(nodes: EffectNode[]): Promise<void> {
+  await Promise.all(nodes.map((node) => (node instanceof Tone.Reverb ? node.ready : undefined)));
+}
@@ -0,0 +1,229 @@
+import type { NoteTriggerEvent } from '@/types/audio';
+import { noteToMidi } from './scales';
+import { downloadBlob, timestampedFilename } from '@/utils/download';
+
+/** Ticks per quarter note written to recorded MIDI files. */
+export const MIDI_PPQ = 480;
+export const MIDI_MIME_TYPE = 'audio/midi';
+
+/**
+ * A tempo in effect from `beat` onwards.
+ */
+export interface TempoChange {
+  beat: number;
+  bpm: number;
+}
+
+/**
+ * Collects NoteTriggerEvents while a simulation plays.
+ *
+ * The recorder keeps its own beat clock, advanced every tick at the star's
+ * current BPM, so timestamps stay on the beat grid even if the BPM changes
+ * mid-recording (each change is logged in `tempoChanges`).
+ */
+export interface MidiRecorder {
+  elapsedMs: number;
+  beat: number;
+  events: NoteTriggerEvent[];
+  tempoChanges: TempoChange[];
+  /** Track name per planet ID, in the order planets first played */
+  trackNames: Map<string, string>;
+}
+
+/**
+ * Creates an empty recorder starting at beat 0.
+ */
+export function createMidiRecorder(bpm: number): MidiRecorder {
+  return {
+    elapsedMs: 0,
+    beat: 0,
+    events: [],
+    tempoChanges: [{ beat: 0, bpm }],
+    trackNames: new Map(),
+  };
+}
+
+/**
+ * Logs a note at the recorder's current time, plus `offsetMs` into the tick
+ * being recorded (at the current tempo).
+ *
+ * @param recorder - The recorder (mutated)
+ * @param note - The note, without timing
+ * @param synthType - The planet's synth type, used in its track name
+ * @param offsetMs - How far into the current tick the note played
+ */
+export function recordNoteTrigger(
+  recorder: MidiRecorder,
+  note: Omit<NoteTriggerEvent, 'timestamp' | 'beat'>,
+  synthType: string,
+  offsetMs: number = 0
+): void {
+  const { bpm } = recorder.tempoChanges[recorder.tempoChanges.length - 1];
+  recorder.events.push({
+    ...note,
+    timestamp: recorder.elapsedMs + offsetMs,
+    beat: recorder.beat + (offsetMs * bpm) / 60000,
+  });
+  if (!recorder.trackNames.has(note.planetId)) {
+    recorder.trackNames.set(note.planetId, `${note.planetId} (${synthType})`);
+  }
+}
+
+/**
+ * Advances the recorder's clock by one tick played at `bpm`, logging a tempo
+ * change first if the BPM differs from the last one recorded.
+ */
+export function advanceMidiRecorder(recorder: MidiRecorder, deltaMs: number, bpm: number): void {
+  const current = recorder.tempoChanges[recorder.tempoChanges.length - 1];
+  if (current.bpm !== bpm) {
+    recorder.tempoChanges.push({ beat: recorder.beat, bpm });
+  }
+  recorder.elapsedMs += deltaMs;
+  recorder.beat += (deltaMs * bpm) / 60000;
+}
+
+// ─── Standard MIDI File encoding ──────────────────────────────────────────────
+
+/** A channel or meta event at an absolute tick, before delta encoding. */
+interface TrackEvent {
+  tick: number;
+  bytes: number[];
+}
+
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  let rest = value >> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>= 7;
+  }
+  return bytes;
+}
+
+function uint16(value: number): number[] {
+  return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function asciiBytes(text: string): number[] {
+  return Array.from(text, (c) => c.charCodeAt(0) & 0x7f);
+}
+
+function metaEvent(tick: number, type: number, data: number[]): TrackEvent {
+  return { tick, bytes: [0xff, type, ...variableLength(data.length), ...data] };
+}
+
+/**
+ * Builds an MTrk chunk. Events are sorted by tick (stable, so note-offs
+ * queued before note-ons at the same tick stay first) and end-of-track is
+ * appended.
+ */
+function trackChunk(events: TrackEvent[]): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick);
+  const lastTick = sorted.length > 0 ? sorted[sorted.length - 1].tick : 0;
+  sorted.push(metaEvent(lastTick, 0x2f, []));
+
+  const data: number[] = [];
+  let previousTick = 0;
+  for (const event of sorted) {
+    data.push(...variableLength(event.tick - previousTick), ...event.bytes);
+    previousTick = event.tick;
+  }
+  return [...asciiBytes('MTrk'), ...uint32(data.length), ...data];
+}
+
+/** Channel for the nth planet track, skipping channel 10 (index 9, GM drums). */
+function trackChannel(index: number): number {
+  const channel = index % 15;
+  return channel >= 9 ? channel + 1 : channel;
+}
+
+/**
+ * Converts a 0–1 trigger volume to a MIDI velocity (1–127).
+ */
+export function volumeToVelocity(volume: number): number {
+  return Math.max(1, Math.min(127, Math.round(volume * 127)));
+}
+
+/**
+ * Encodes a recording as a Type-1 Standard MIDI File.
+ *
+ * Track 0 holds the tempo map and a 4/4 time signature. It is followed by one
+ * track per planet, named after the planet ID and synth type, on its own
+ * channel. Velocity comes from each note's trigger volume. Notes that can't
+ * be converted to a MIDI number are skipped.
+ *
+ * @param recorder - A finished recording
+ * @param ppq - Ticks per quarter note
+ * @returns The complete .mid file
+ */
+export function encodeMidiFile(recorder: MidiRecorder, ppq: number = MIDI_PPQ): ArrayBuffer {
+  const toTick = (beat: number) => Math.max(0, Math.round(beat * ppq));
+
+  const conductor: TrackEvent[] = [
+    metaEvent(0, 0x03, asciiBytes('Tempo')),
+    metaEvent(0, 0x58, [4, 2, 24, 8]),
+    ...recorder.tempoChanges.map(({ beat, bpm }) => {
+      const microsPerBeat = Math.round(60_000_000 / bpm);
+      return metaEvent(toTick(beat), 0x51, [
+        (microsPerBeat >> 16) & 0xff,
+        (microsPerBeat >> 8) & 0xff,
+        microsPerBeat & 0xff,
+      ]);
+    }),
+  ];
+
+  const planetTracks = [...recorder.trackNames].map(([planetId, name], index) => {
+    const channel = trackChannel(index);
+    const offs: TrackEvent[] = [];
+    const ons: TrackEvent[] = [];
+
+    for (const event of recorder.events) {
+      if (event.planetId !== planetId) continue;
+      let pitch: number;
+      try {
+        pitch = noteToMidi(event.note);
+      } catch {
+        continue;
+      }
+      if (pitch < 0 || pitch > 127) continue;
+
+      const start = toTick(event.beat);
+      const end = Math.max(start + 1, toTick(event.beat + event.durationBeats));
+      ons.push({ tick: start, bytes: [0x90 | channel, pitch, volumeToVelocity(event.volume)] });
+      offs.push({ tick: end, bytes: [0x80 | channel, pitch, 0] });
+    }
+
+    return trackChunk([metaEvent(0, 0x03, asciiBytes(name)), ...offs, ...ons]);
+  });
+
+  const tracks = [trackChunk(conductor), ...planetTracks];
+  const format = 1;
+  const header = [
+    ...asciiBytes('MThd'),
+    ...uint32(6),
+    ...uint16(format),
+    ...uint16(tracks.length),
+    ...uint16(ppq),
+  ];
+
+  return Uint8Array.from([...header, ...tracks.flat()]).buffer;
+}
+
+/**
+ * Returns a download filename for a recording started at `date`,
+ * e.g. "solar-system-2025-01-31T12-00-00.mid".
+ */
+export function midiFilename(date: Date = new Date()): string {
+  return timestampedFilename(date, 'mid');
+}
+
+/**
+ * Triggers a browser download of an encoded MIDI file.
+ */
+export function downloadMidi(data: ArrayBuffer, filename: string = midiFilename()): void {
+  downloadBlob(data, MIDI_MIME_TYPE, filename);
+}
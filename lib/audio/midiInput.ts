@@ -0,0 +1,204 @@
+'use client';
+
+import type { MidiCcBinding, MidiControlTarget } from '@/types/audio';
+
+/**
+ * MIDI input: Control Change messages drive simulation controls through
+ * learned bindings ("MIDI learn").
+ */
+
+export const MIDI_CONTROL_TARGETS: readonly MidiControlTarget[] = [
+  'gravity',
+  'timeScale',
+  'bpm',
+  'masterVolume',
+  'planetMass',
+];
+
+/**
+ * Value range each target sweeps as a CC goes from 0 to 127. Matches the
+ * ranges of the equivalent sliders and inputs in the UI.
+ */
+export const MIDI_CONTROL_RANGES: Record<MidiControlTarget, { min: number; max: number }> = {
+  gravity: { min: 0.1, max: 5 },
+  timeScale: { min: 0.1, max: 5 },
+  bpm: { min: 20, max: 300 },
+  masterVolume: { min: 0, max: 1 },
+  planetMass: { min: 10, max: 10000 },
+};
+
+export const MIDI_CONTROL_LABELS: Record<MidiControlTarget, string> = {
+  gravity: 'Gravity',
+  timeScale: 'Speed',
+  bpm: 'BPM',
+  masterVolume: 'Master volume',
+  planetMass: 'Mass',
+};
+
+/** localStorage key the bindings are persisted under. */
+export const MIDI_BINDINGS_STORAGE_KEY = 'solar-system-midi-bindings';
+
+/**
+ * A decoded Control Change message.
+ */
+export interface MidiControlChange {
+  /** MIDI channel, 1–16 */
+  channel: number;
+  controller: number;
+  value: number;
+}
+
+/**
+ * The control being learned: the next CC received is bound to it.
+ */
+export interface MidiLearnTarget {
+  target: MidiControlTarget;
+  planetId: string | null;
+}
+
+/**
+ * Decodes a raw MIDI message. Returns null for anything but Control Change.
+ */
+export function parseControlChange(data: ArrayLike<number>): MidiControlChange | null {
+  if (data.length < 3 || (data[0] & 0xf0) !== 0xb0) return null;
+  return { channel: (data[0] & 0x0f) + 1, controller: data[1] & 0x7f, value: data[2] & 0x7f };
+}
+
+/**
+ * Maps a CC value (0–127) linearly onto a target's range. BPM and planet
+ * mass are rounded to whole numbers.
+ */
+export function ccToTargetValue(target: MidiControlTarget, value: number): number {
+  const { min, max } = MIDI_CONTROL_RANGES[target];
+  const mapped = min + (Math.max(0, Math.min(127, value)) / 127) * (max - min);
+  return target === 'bpm' || target === 'planetMass' ? Math.round(mapped) : mapped;
+}
+
+function isSameControl(binding: MidiCcBinding, control: MidiLearnTarget): boolean {
+  return binding.target === control.target && binding.planetId === control.planetId;
+}
+
+/**
+ * Binds a CC to a control. The control loses any previous binding, and the
+ * CC is taken away from any other control, so each knob drives one thing.
+ *
+ * @returns The new list of bindings
+ */
+export function bindMidiControl(
+  bindings: MidiCcBinding[],
+  control: MidiLearnTarget,
+  cc: Pick<MidiControlChange, 'channel' | 'controller'>
+): MidiCcBinding[] {
+  return [
+    ...bindings.filter(
+      (b) =>
+        !isSameControl(b, control) &&
+        !(b.channel === cc.channel && b.controller === cc.controller)
+    ),
+    { ...control, channel: cc.channel, controller: cc.controller },
+  ];
+}
+
+/**
+ * Removes a control's binding, if any.
+ */
+export function unbindMidiControl(
+  bindings: MidiCcBinding[],
+  control: MidiLearnTarget
+): MidiCcBinding[] {
+  return bindings.filter((b) => !isSameControl(b, control));
+}
+
+/**
+ * Drops bindings to planets that aren't among `planetIds`, so no binding
+ * outlives the planet it drives.
+ */
+export function pruneMidiBindings(bindings: MidiCcBinding[], planetIds: ReadonlySet<string>): MidiCcBinding[] {
+  return bindings.filter((b) => b.planetId === null || planetIds.has(b.planetId));
+}
+
+/**
+ * Returns the binding for a control, or null.
+ */
+export function findControlBinding(
+  bindings: MidiCcBinding[],
+  control: MidiLearnTarget
+): MidiCcBinding | null {
+  return bindings.find((b) => isSameControl(b, control)) ?? null;
+}
+
+/**
+ * Returns the bindings a Control Change message drives.
+ */
+export function findMidiBindings(
+  bindings: MidiCcBinding[],
+  cc: MidiControlChange
+): MidiCcBinding[] {
+  return bindings.filter((b) => b.channel === cc.channel && b.controller === cc.controller);
+}
+
+function isMidiCcBinding(value: unknown): value is MidiCcBinding {
+  if (typeof value !== 'object' || value === null) return false;
+  const b = value as Record<string, unknown>;
+  return (
+    MIDI_CONTROL_TARGETS.includes(b.target as MidiControlTarget) &&
+    (b.planetId === null || typeof b.planetId === 'string') &&
+    Number.isInteger(b.channel) && (b.channel as number) >= 1 && (b.channel as number) <= 16 &&
+    Number.isInteger(b.controller) && (b.controller as number) >= 0 && (b.controller as number) <= 127
+  );
+}
+
+/**
+ * Reads bindings saved by `storeMidiBindings`. Malformed entries are dropped;
+ * unreadable storage yields an empty list.
+ */
+export function loadStoredMidiBindings(storage: Storage = localStorage): MidiCcBinding[] {
+  try {
+    const raw = storage.getItem(MIDI_BINDINGS_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isMidiCcBinding) : [];
+  } catch (err) {
+    console.warn('Could not read stored MIDI bindings:', err);
+    return [];
+  }
+}
+
+/**
+ * Persists bindings so they survive a page reload.
+ */
+export function storeMidiBindings(
+  bindings: MidiCcBinding[],
+  storage: Storage = localStorage
+): void {
+  try {
+    storage.setItem(MIDI_BINDINGS_STORAGE_KEY, JSON.stringify(bindings));
+  } catch (err) {
+    console.warn('Could not store MIDI bindings:', err);
+  }
+}
+
+/**
+ * Asks the browser for MIDI access and listens to every input port.
+ *
+ * @param onMessage - Called with each raw message from any input
+ * @returns A function that stops listening
+ * @throws If Web MIDI is unsupported or access is denied
+ */
+export async function listenToMidiInputs(
+  onMessage: (data: Uint8Array) => void
+): Promise<() => void> {
+  if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess) {
+    throw new Error('Web MIDI is not supported in this browser');
+  }
+  const access = await navigator.requestMIDIAccess();
+  const handler = (event: Event) => {
+    const { data } = event as MIDIMessageEvent;
+    if (data) onMessage(data);
+  };
+  const inputs = [...access.inputs.values()];
+  for (const input of inputs) input.addEventListener('midimessage', handler);
+  return () => {
+    for (const input of inputs) input.removeEventListener('midimessage', handler);
+  };
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { noteToMidi } from './scales';
+import { volumeToVelocity } from './midi';
+
+/**
+ * MIDI output backend: sends planet notes to external MIDI ports.
+ *
+ * Ports are abstract so the backend doesn't depend on Web MIDI directly —
+ * `requestMidiOutputs` wraps the browser's outputs, and tests can pass an
+ * in-memory port that just records what it was sent.
+ */
+
+export const MIDI_CHANNEL_COUNT = 16;
+
+/**
+ * A destination for raw MIDI messages. Matches the subset of the Web MIDI
+ * `MIDIOutput` interface this backend uses.
+ */
+export interface MidiOutputPort {
+  id: string;
+  name: string;
+  /**
+   * Sends one message. `timestamp` is in `performance.now()` milliseconds;
+   * omitted means "now".
+   */
+  send(data: number[], timestamp?: number): void;
+}
+
+/**
+ * Where one planet's notes go.
+ */
+export interface MidiRoute {
+  portId: string;
+  /** MIDI channel, 1–16 */
+  channel: number;
+  /** Keep playing the planet's Tone.js synth as well as sending MIDI */
+  layerSynth: boolean;
+}
+
+export interface MidiOutputManager {
+  ports: Map<string, MidiOutputPort>;
+  /** Routes keyed by planet (or comet) ID */
+  routes: Map<string, MidiRoute>;
+}
+
+/**
+ * Creates a manager with no ports and no routes.
+ */
+export function createMidiOutputManager(): MidiOutputManager {
+  return { ports: new Map(), routes: new Map() };
+}
+
+/**
+ * Replaces the available ports. Routes to ports that have gone away are
+ * kept, and start sending again if the port comes back.
+ */
+export function setMidiOutputPorts(manager: MidiOutputManager, ports: MidiOutputPort[]): void {
+  manager.ports = new Map(ports.map((p) => [p.id, p]));
+}
+
+/**
+ * Routes a voice to a port and channel, or removes its route when `route`
+ * is null. The channel is clamped to 1–16.
+ */
+export function setMidiRoute(
+  manager: MidiOutputManager,
+  voiceId: string,
+  route: MidiRoute | null
+): void {
+  if (!route) {
+    manager.routes.delete(voiceId);
+    return;
+  }
+  const channel = Math.max(1, Math.min(MIDI_CHANNEL_COUNT, Math.round(route.channel)));
+  manager.routes.set(voiceId, { ...route, channel });
+}
+
+/**
+ * Returns the route for a voice if its port is currently available.
+ */
+export function getActiveMidiRoute(
+  manager: MidiOutputManager,
+  voiceId: string
+): MidiRoute | null {
+  const route = manager.routes.get(voiceId);
+  return route && manager.ports.has(route.portId) ? route : null;
+}
+
+/**
+ * Sends a note-on now and the matching note-off `durationSeconds` later on
+ * the voice's routed port and channel.
+ *
+ * @param now - Current `performance.now()` time in milliseconds
+ * @returns True if the note was sent
+ */
+export function sendMidiNote(
+  manager: MidiOutputManager,
+  voiceId: string,
+  note: string,
+  durationSeconds: number,
+  volumeLinear: number,
+  now: number = performance.now()
+): boolean {
+  const route = getActiveMidiRoute(manager, voiceId);
+  if (!route) return false;
+
+  let pitch: number;
+  try {
+    pitch = noteToMidi(note);
+  } catch {
+    return false;
+  }
+  if (pitch < 0 || pitch > 127) return false;
+
+  const port = manager.ports.get(route.portId)!;
+  const status = route.channel - 1;
+  port.send([0x90 | status, pitch, volumeToVelocity(volumeLinear)], now);
+  port.send([0x80 | status, pitch, 0], now + durationSeconds * 1000);
+  return true;
+}
+
+/**
+ * Sends "All Notes Off" on every routed port and channel, e.g. when the
+ * routing changes while notes may still be held.
+ */
+export function sendMidiAllNotesOff(manager: MidiOutputManager): void {
+  for (const route of manager.routes.values()) {
+    manager.ports.get(route.portId)?.send([0xb0 | (route.channel - 1), 123, 0]);
+  }
+}
+
+/**
+ * Asks the browser for MIDI access and returns its output ports.
+ *
+ * @throws If Web MIDI is unsupported or access is denied
+ */
+export async function requestMidiOutputs(): Promise<MidiOutputPort[]> {
+  if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess) {
+    throw new Error('Web MIDI is not supported in this browser');
+  }
+  const access = await navigator.requestMIDIAccess();
+  return [...access.outputs.values()].map((output) => ({
+    id: output.id,
+    name: output.name ?? output.id,
+    send: (data, timestamp) => output.send(data, timestamp),
+  }));
+}
@@ -0,0 +1,207 @@
+import type { Planet, Satellite, Star } from '@/types/celestial';
+import type {
+  EffectSettings,
+  ModulationCurve,
+  ModulationRoute,
+  ModulationSource,
+  ModulationTarget,
+} from '@/types/audio';
+import { distance } from '@/utils/physics';
+import { EFFECT_PARAMS, EFFECT_LABELS } from './effects';
+
+/**
+ * Physics-driven modulation. Each route in a planet's matrix reads an orbital
+ * quantity every tick, maps it from the route's source range onto 0–1, shapes
+ * it with a curve and scales it onto a synth or effect parameter — e.g. a
+ * filter that opens as the planet swings in towards the star.
+ */
+
+/** Most routes a planet can have. */
+export const MAX_MODULATIONS = 8;
+
+export interface ModulationSourceSpec {
+  label: string;
+  /** Default source range for new routes */
+  min: number;
+  max: number;
+}
+
+export const MODULATION_SOURCES: Record<ModulationSource, ModulationSourceSpec> = {
+  speed: { label: 'Speed', min: 0, max: 15 },
+  starDistance: { label: 'Distance to star', min: 50, max: 500 },
+  orbitAngle: { label: 'Orbit angle', min: -Math.PI, max: Math.PI },
+  nearestPlanetDistance: { label: 'Distance to nearest planet', min: 0, max: 400 },
+  satelliteCount: { label: 'Satellite count', min: 0, max: 8 },
+};
+
+export const MODULATION_SOURCE_TYPES = Object.keys(MODULATION_SOURCES) as ModulationSource[];
+
+export const MODULATION_CURVES: readonly ModulationCurve[] = ['linear', 'exponential', 'logarithmic'] as const;
+
+/** Steepness of the exponential and logarithmic curves. */
+const CURVE_STEEPNESS = 4;
+
+/**
+ * A parameter a route can drive, with the range its values are limited to.
+ */
+export interface ModulationTargetSpec {
+  target: ModulationTarget;
+  label: string;
+  min: number;
+  max: number;
+}
+
+/** The voice's pan, which routes push away from the pan its position gives it. */
+export const PAN_MODULATION_PARAM = 'pan';
+
+/** Synth parameters every voice can be modulated on (voices without them ignore the route). */
+export const SYNTH_MODULATION_PARAMS: { name: string; label: string; min: number; max: number; default: number }[] = [
+  { name: 'detune', label: 'Detune (cents)', min: -1200, max: 1200, default: 0 },
+  { name: PAN_MODULATION_PARAM, label: 'Pan', min: -1, max: 1, default: 0 },
+];
+
+/**
+ * Whether a route drives the voice's pan. Pan isn't set on the synth: the
+ * simulation adds it to the position pan it sets every tick.
+ */
+export function isPanTarget(target: ModulationTarget): boolean {
+  return target.effectId === null && target.param === PAN_MODULATION_PARAM;
+}
+
+/**
+ * Lists the parameters routes can target for a planet with `effects`: the
+ * synth's own parameters, then every modulatable parameter of each effect.
+ */
+export function modulationTargets(effects: EffectSettings[]): ModulationTargetSpec[] {
+  const synth = SYNTH_MODULATION_PARAMS.map(({ name, label, min, max }) => ({
+    target: { effectId: null, param: name },
+    label: `Synth — ${label}`,
+    min,
+    max,
+  }));
+  const effectTargets = effects.flatMap((effect) =>
+    EFFECT_PARAMS[effect.type]
+      .filter((spec) => spec.modulatable !== false)
+      .map((spec) => ({
+        target: { effectId: effect.id, param: spec.name },
+        label: `${EFFECT_LABELS[effect.type]} (${effect.id}) — ${spec.label}`,
+        min: spec.min,
+        max: spec.max,
+      }))
+  );
+  return [...synth, ...effectTargets];
+}
+
+/**
+ * Returns a string key identifying a target, e.g. ":detune" or "filter-1:frequency".
+ */
+export function modulationTargetKey(target: ModulationTarget): string {
+  return `${target.effectId ?? ''}:${target.param}`;
+}
+
+/**
+ * Finds the spec for a route's target among a planet's available targets.
+ */
+export function findModulationTarget(
+  effects: EffectSettings[],
+  target: ModulationTarget
+): ModulationTargetSpec | undefined {
+  const key = modulationTargetKey(target);
+  return modulationTargets(effects).find((spec) => modulationTargetKey(spec.target) === key);
+}
+
+/**
+ * Drops routes whose target no longer exists, e.g. after its effect was removed.
+ */
+export function pruneModulations(
+  routes: ModulationRoute[],
+  effects: EffectSettings[]
+): ModulationRoute[] {
+  return routes.filter((route) => findModulationTarget(effects, route.target) !== undefined);
+}
+
+/**
+ * Creates a route with an ID not already used in `routes`, driving the first
+ * effect's first parameter (or synth detune if there are no effects) from
+ * the planet's speed across each full range.
+ */
+export function createModulationRoute(
+  routes: ModulationRoute[],
+  effects: EffectSettings[]
+): ModulationRoute {
+  const taken = new Set(routes.map((r) => r.id));
+  let n = 1;
+  while (taken.has(`mod-${n}`)) n++;
+
+  const targets = modulationTargets(effects);
+  const spec = targets.find((t) => t.target.effectId !== null) ?? targets[0];
+  const source = MODULATION_SOURCES.speed;
+
+  return {
+    id: `mod-${n}`,
+    source: 'speed',
+    sourceMin: source.min,
+    sourceMax: source.max,
+    target: { ...spec.target },
+    min: spec.min,
+    max: spec.max,
+    curve: 'linear',
+  };
+}
+
+// ─── Evaluation ────────────────────────────────────────────────────────────────
+
+/**
+ * Measures every source for a planet.
+ *
+ * @param planet - The modulated planet, after this tick's update
+ * @param star - The star it orbits
+ * @param planets - All planets (for the nearest-neighbour distance)
+ * @param satellites - All satellites (those orbiting `planet` are counted)
+ */
+export function modulationSourceValues(
+  planet: Planet,
+  star: Star,
+  planets: Planet[],
+  satellites: Satellite[]
+): Record<ModulationSource, number> {
+  let nearest = Infinity;
+  for (const other of planets) {
+    if (other.id !== planet.id) nearest = Math.min(nearest, distance(planet.position, other.position));
+  }
+
+  return {
+    speed: Math.hypot(planet.velocity.x, planet.velocity.y),
+    starDistance: distance(planet.position, star.position),
+    orbitAngle: planet.orbitAngle,
+    nearestPlanetDistance: nearest,
+    satelliteCount: satellites.filter((s) => s.parentPlanetId === planet.id).length,
+  };
+}
+
+/**
+ * Shapes a 0–1 value. Exponential rises slowly then steeply, which suits
+ * frequencies; logarithmic is its mirror image.
+ */
+export function applyModulationCurve(t: number, curve: ModulationCurve): number {
+  const k = CURVE_STEEPNESS;
+  switch (curve) {
+    case 'linear':
+      return t;
+    case 'exponential':
+      return (Math.pow(2, k * t) - 1) / (Math.pow(2, k) - 1);
+    case 'logarithmic':
+      return Math.log2(1 + t * (Math.pow(2, k) - 1)) / k;
+  }
+}
+
+/**
+ * Maps a source reading through a route onto its target range. Readings
+ * outside the source range are clamped to its ends.
+ */
+export function modulatedValue(route: ModulationRoute, sourceValue: number): number {
+  const span = route.sourceMax - route.sourceMin;
+  const raw = span === 0 ? 0 : (sourceValue - route.sourceMin) / span;
+  const t = Number.isFinite(raw) ? Math.max(0, Math.min(1, raw)) : raw > 0 ? 1 : 0;
+  return route.min + (route.max - route.min) * applyModulationCurve(t, route.curve);
+}
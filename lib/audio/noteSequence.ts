@@ -0,0 +1,418 @@
+import type { MusicalKey, MusicalMode, ScaleDegree, SequenceStep } from '@/types/celestial';
+import type { ActiveChord } from '@/types/audio';
+import {
+  ACCIDENTAL_SEMITONES,
+  DEGREE_TO_INDEX,
+  degreeRangeLabel,
+  scaleDegreeToNote,
+  scaleLength,
+} from './scales';
+
+/**
+ * The language planet note sequences are written in. Items are separated by
+ * spaces:
+ *
+ * - `V4` — a scale degree and octave; `bIII4` / `#IV4` flatten or sharpen it
+ * - `V` — no octave: the previous note's octave; `V'` / `V,` one above / below
+ * - `V4!0.5` — a velocity above 0 and up to 1
+ * - `-` — a rest
+ * - `[I4 III V]` — a chord; `[I4 III V]!0.6` sets the velocity of its notes
+ * - `(I4 V4)x3` — a group played the given number of times
+ *
+ * Parsing builds an AST and expands it into steps, one per planet
+ * revolution. Planets store the steps in a canonical form ("bIII4!0.5",
+ * "[I4 III4 V4]", "-"), so a stored step is itself a one-step sequence.
+ */
+
+/** One-line summary of the language, for input tooltips. */
+export const NOTE_SEQUENCE_SYNTAX =
+  "V4 note · bIII4 / #IV4 flat / sharp · V4!0.5 velocity · - rest · [I4 III V] chord · " +
+  "(I4 V4)x3 repeat · V / V' / V, previous octave / up / down";
+
+/** Octave of a first note written without one. */
+export const DEFAULT_SEQUENCE_OCTAVE = 4;
+
+/** Octaves a note can resolve to. */
+export const MIN_SEQUENCE_OCTAVE = 0;
+export const MAX_SEQUENCE_OCTAVE = 9;
+
+/** Most times a group can repeat. */
+export const MAX_REPEAT_COUNT = 16;
+
+/** Most steps a sequence can expand to. */
+export const MAX_SEQUENCE_STEPS = 256;
+
+/** A range of the source text: `start` inclusive, `end` exclusive. */
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export interface SequenceToken extends SourceSpan {
+  text: string;
+}
+
+export interface SequenceNoteNode extends SourceSpan {
+  type: 'note';
+  /** Semitones the accidental moves the note by: -1, 0 or 1 */
+  alteration: number;
+  /** Roman numeral, e.g. "III" */
+  degree: string;
+  /** Octave after resolving relative shortcuts */
+  octave: number;
+  velocity: number | null;
+}
+
+export interface SequenceRestNode extends SourceSpan {
+  type: 'rest';
+}
+
+export interface SequenceChordNode extends SourceSpan {
+  type: 'chord';
+  notes: SequenceNoteNode[];
+  /** Velocity for notes that don't set their own */
+  velocity: number | null;
+}
+
+export interface SequenceRepeatNode extends SourceSpan {
+  type: 'repeat';
+  body: SequenceNode[];
+  count: number;
+}
+
+export type SequenceNode = SequenceNoteNode | SequenceRestNode | SequenceChordNode | SequenceRepeatNode;
+
+/** A problem in a note sequence, with the span of source text to underline. */
+export interface SequenceError extends SourceSpan {
+  message: string;
+}
+
+export type SequenceParseResult =
+  | { ok: true; nodes: SequenceNode[]; steps: SequenceStep[] }
+  | { ok: false; errors: SequenceError[] };
+
+/** One note of a step: a scale degree (with accidental) and its velocity. */
+export interface StepNote {
+  degree: ScaleDegree;
+  velocity: number;
+}
+
+/** A note ready to play: a note name and its velocity. */
+export interface PlayedNote {
+  note: string;
+  velocity: number;
+}
+
+// ─── Tokenizer ─────────────────────────────────────────────────────────────────
+
+/**
+ * Splits a sequence into brackets, parentheses and words, with their
+ * positions. Suffixes such as `!0.5` after `]` and `x3` after `)` are words
+ * of their own that start where the bracket ends.
+ */
+export function tokenizeSequence(input: string): SequenceToken[] {
+  return Array.from(input.matchAll(/[[\]()]|[^\s[\]()]+/g), (match) => ({
+    text: match[0],
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+// ─── Parser ────────────────────────────────────────────────────────────────────
+
+const NOTE_PATTERN = /^([b#]?)([IVX]+)(\d*)([',]*)(?:!(.*))?$/;
+
+interface ParserState {
+  tokens: SequenceToken[];
+  pos: number;
+  errors: SequenceError[];
+  /** Octave notes without one are written in: the last note's */
+  octave: number;
+  mode?: MusicalMode;
+}
+
+function fail(state: ParserState, span: SourceSpan, message: string): void {
+  state.errors.push({ start: span.start, end: span.end, message });
+}
+
+function parseVelocity(state: ParserState, text: string, span: SourceSpan): number | null {
+  const velocity = Number(text);
+  if (text.trim() === '' || !Number.isFinite(velocity) || velocity <= 0 || velocity > 1) {
+    fail(state, span, `Velocity "${text}" must be a number above 0 and at most 1`);
+    return null;
+  }
+  return velocity;
+}
+
+function parseNote(state: ParserState, token: SequenceToken): SequenceNoteNode | null {
+  const match = token.text.match(NOTE_PATTERN);
+  const range = state.mode ? degreeRangeLabel(state.mode) : 'I, II, III…';
+  if (!match || !(match[2] in DEGREE_TO_INDEX)) {
+    fail(state, token, `"${token.text}" is not a scale degree — use ${range} with an octave, e.g. V4 or bIII4`);
+    return null;
+  }
+
+  const [, accidental, degree, octaveText, shifts, velocityText] = match;
+  if (state.mode && DEGREE_TO_INDEX[degree] >= scaleLength(state.mode)) {
+    fail(state, token, `${degree} is not in the ${scaleLength(state.mode)}-note ${state.mode} scale (${range})`);
+    return null;
+  }
+
+  const base = octaveText ? parseInt(octaveText, 10) : state.octave;
+  const octave = base + shifts.split('').reduce((sum, c) => sum + (c === "'" ? 1 : -1), 0);
+  if (octave < MIN_SEQUENCE_OCTAVE || octave > MAX_SEQUENCE_OCTAVE) {
+    const range = `${MIN_SEQUENCE_OCTAVE}–${MAX_SEQUENCE_OCTAVE}`;
+    fail(state, token, `"${token.text}" is in octave ${octave}; notes must be in octaves ${range}`);
+    return null;
+  }
+  state.octave = octave;
+
+  let velocity: number | null = null;
+  if (velocityText !== undefined) {
+    velocity = parseVelocity(state, velocityText, token);
+    if (velocity === null) return null;
+  }
+
+  return {
+    type: 'note',
+    alteration: ACCIDENTAL_SEMITONES[accidental],
+    degree,
+    octave,
+    velocity,
+    start: token.start,
+    end: token.end,
+  };
+}
+
+// The word directly after a closing bracket, if it starts with `prefix`
+function takeSuffix(state: ParserState, close: SequenceToken, prefix: string): SequenceToken | null {
+  const next = state.tokens[state.pos];
+  if (!next || next.start !== close.end || !next.text.startsWith(prefix)) return null;
+  state.pos++;
+  return next;
+}
+
+function parseChord(state: ParserState, open: SequenceToken): SequenceChordNode | null {
+  const errorsBefore = state.errors.length;
+  const { items, close } = parseItems(state, ']');
+  if (!close) {
+    fail(state, open, '[ is never closed with ]');
+    return null;
+  }
+
+  const span = { start: open.start, end: close.end };
+  const notes = items.filter((item): item is SequenceNoteNode => item.type === 'note');
+  let velocity: number | null = null;
+  const suffix = takeSuffix(state, close, '!');
+  if (suffix) {
+    velocity = parseVelocity(state, suffix.text.slice(1), suffix);
+    span.end = suffix.end;
+  }
+
+  // An empty chord is only worth reporting if nothing inside it was wrong
+  if (items.length === 0 && state.errors.length === errorsBefore) {
+    fail(state, span, 'A chord needs at least one note');
+  }
+  return items.length > 0 ? { type: 'chord', notes, velocity, ...span } : null;
+}
+
+function parseRepeat(state: ParserState, open: SequenceToken): SequenceRepeatNode | null {
+  const errorsBefore = state.errors.length;
+  const { items, close } = parseItems(state, ')');
+  if (!close) {
+    fail(state, open, '( is never closed with )');
+    return null;
+  }
+
+  const span = { start: open.start, end: close.end };
+  let count = 1;
+  const suffix = takeSuffix(state, close, 'x');
+  if (suffix) {
+    span.end = suffix.end;
+    count = Number(suffix.text.slice(1));
+    if (!/^x\d+$/.test(suffix.text) || count < 1 || count > MAX_REPEAT_COUNT) {
+      fail(state, suffix, `Repeat count "${suffix.text}" must be x1 to x${MAX_REPEAT_COUNT}`);
+      return null;
+    }
+  }
+
+  if (items.length === 0 && state.errors.length === errorsBefore) {
+    fail(state, span, 'A group needs at least one note or rest');
+  }
+  return items.length > 0 ? { type: 'repeat', body: items, count, ...span } : null;
+}
+
+// Parses items up to the closing bracket `until` (or the end of the input),
+// returning the closing token if it was found
+function parseItems(
+  state: ParserState,
+  until: ']' | ')' | null
+): { items: SequenceNode[]; close: SequenceToken | null } {
+  const items: SequenceNode[] = [];
+  const inChord = until === ']';
+
+  while (state.pos < state.tokens.length) {
+    const token = state.tokens[state.pos++];
+    let item: SequenceNode | null = null;
+
+    switch (token.text) {
+      case ']':
+      case ')':
+        if (token.text === until) return { items, close: token };
+        fail(state, token, `Unmatched ${token.text}`);
+        break;
+      case '[':
+        if (inChord) fail(state, token, 'Chords can’t be nested');
+        else item = parseChord(state, token);
+        break;
+      case '(':
+        if (inChord) fail(state, token, 'A chord can’t contain a repeat group');
+        else item = parseRepeat(state, token);
+        break;
+      case '-':
+        if (inChord) fail(state, token, 'A chord can’t contain a rest');
+        else item = { type: 'rest', start: token.start, end: token.end };
+        break;
+      default:
+        if (token.text.startsWith('!')) {
+          fail(state, token, `Velocity ${token.text} must directly follow a note or ]`);
+        } else if (/^x\d*$/.test(token.text)) {
+          fail(state, token, `Repeat count ${token.text} must directly follow )`);
+        } else {
+          item = parseNote(state, token);
+        }
+    }
+
+    if (item) items.push(item);
+  }
+  return { items, close: null };
+}
+
+// ─── Expansion ─────────────────────────────────────────────────────────────────
+
+function countSteps(nodes: SequenceNode[]): number {
+  return nodes.reduce((sum, node) => sum + (node.type === 'repeat' ? node.count * countSteps(node.body) : 1), 0);
+}
+
+function stepNote(node: SequenceNoteNode, velocity: number | null): StepNote {
+  const accidental = node.alteration < 0 ? 'b' : node.alteration > 0 ? '#' : '';
+  return { degree: `${accidental}${node.degree}${node.octave}`, velocity: node.velocity ?? velocity ?? 1 };
+}
+
+function expand(nodes: SequenceNode[]): StepNote[][] {
+  return nodes.flatMap((node): StepNote[][] => {
+    switch (node.type) {
+      case 'note':
+        return [[stepNote(node, null)]];
+      case 'rest':
+        return [[]];
+      case 'chord':
+        return [node.notes.map((note) => stepNote(note, node.velocity))];
+      case 'repeat': {
+        const body = expand(node.body);
+        return Array.from({ length: node.count }, () => body).flat();
+      }
+    }
+  });
+}
+
+/**
+ * Writes a step's notes in canonical form: "-" for a rest, "bIII4!0.5" for
+ * a note, "[I4 III4 V4]" for a chord. Velocities of 1 are left out.
+ */
+export function formatStep(notes: StepNote[]): SequenceStep {
+  const written = notes.map((n) => (n.velocity === 1 ? n.degree : `${n.degree}!${n.velocity}`));
+  if (written.length === 0) return '-';
+  return written.length === 1 ? written[0] : `[${written.join(' ')}]`;
+}
+
+// ─── Public API ────────────────────────────────────────────────────────────────
+
+function parse(input: string, mode?: MusicalMode): { result: SequenceParseResult; notes: StepNote[][] } {
+  const state: ParserState = {
+    tokens: tokenizeSequence(input),
+    pos: 0,
+    errors: [],
+    octave: DEFAULT_SEQUENCE_OCTAVE,
+    mode,
+  };
+  const { items } = parseItems(state, null);
+
+  if (state.errors.length === 0) {
+    const count = countSteps(items);
+    if (count > MAX_SEQUENCE_STEPS) {
+      const trimmed = { start: input.search(/\S/), end: input.trimEnd().length };
+      fail(state, trimmed, `Expands to ${count} steps; a sequence can have at most ${MAX_SEQUENCE_STEPS}`);
+    }
+  }
+  if (state.errors.length > 0) {
+    const errors = [...state.errors].sort((a, b) => a.start - b.start);
+    return { result: { ok: false, errors }, notes: [] };
+  }
+
+  const notes = expand(items);
+  return { result: { ok: true, nodes: items, steps: notes.map(formatStep) }, notes };
+}
+
+/**
+ * Parses a note sequence into its AST and the steps it expands to, or every
+ * error found, sorted by position. With a mode, degrees past its scale are
+ * errors.
+ *
+ * @example parseSequence("(I4 -)x2 [I4 III V]!0.5").steps
+ *   => ["I4", "-", "I4", "-", "[I4!0.5 III4!0.5 V4!0.5]"]
+ */
+export function parseSequence(input: string, mode?: MusicalMode): SequenceParseResult {
+  return parse(input, mode).result;
+}
+
+/**
+ * Parses a note sequence into the steps planets store.
+ *
+ * @throws If the sequence has errors; the message names the first, with its column
+ */
+export function parseNoteSequence(input: string, mode?: MusicalMode): SequenceStep[] {
+  const result = parseSequence(input, mode);
+  if (!result.ok) {
+    const [first] = result.errors;
+    throw new Error(`Invalid note sequence at column ${first.start + 1}: ${first.message}`);
+  }
+  return result.steps;
+}
+
+/**
+ * Returns the notes of one stored step (empty for a rest), or null if the
+ * string isn't a single step in canonical form.
+ */
+export function parseStep(step: string): StepNote[] | null {
+  const { result, notes } = parse(step);
+  if (!result.ok || result.steps.length !== 1 || result.steps[0] !== step) return null;
+  return notes[0];
+}
+
+/**
+ * Returns true if `step` is a single step in canonical form.
+ */
+export function isValidSequenceStep(step: string): boolean {
+  return parseStep(step) !== null;
+}
+
+/**
+ * Resolves a stored step to the notes it plays in a key and mode, following
+ * the progression chord if there is one. A degree the mode's scale doesn't
+ * have rests, as does an invalid step.
+ */
+export function stepNotes(
+  step: SequenceStep,
+  key: MusicalKey,
+  mode: MusicalMode,
+  chord: ActiveChord | null = null
+): PlayedNote[] {
+  return (parseStep(step) ?? []).flatMap(({ degree, velocity }) => {
+    try {
+      return [{ note: scaleDegreeToNote(degree, key, mode, chord), velocity }];
+    } catch {
+      return [];
+    }
+  });
+}
@@ -0,0 +1,62 @@
+import type { Planet, Satellite, Vector2D } from '@/types/celestial';
+
+/**
+ * Stereo placement from what's on the canvas: a voice pans with its body's
+ * horizontal offset from the star, scaled by the global stereo width.
+ */
+
+/** Horizontal distance from the star (world units) at which a voice is panned fully left or right. */
+export const PAN_DISTANCE = 400;
+
+/**
+ * Furthest either side of its planet a satellite places its note when
+ * satellite panning is on, as a fraction of the width.
+ */
+export const SATELLITE_PAN_SPREAD = 0.5;
+
+function clampPan(pan: number): number {
+  return Math.max(-1, Math.min(1, pan));
+}
+
+/**
+ * Returns the pan (-1 left … 1 right) for a body at `position`.
+ *
+ * @param position - The body's position
+ * @param center - The star's position (the middle of the stereo field)
+ * @param width - Global stereo width (0 = mono, 1 = full)
+ */
+export function positionPan(position: Vector2D, center: Vector2D, width: number): number {
+  return clampPan(((position.x - center.x) / PAN_DISTANCE) * width);
+}
+
+/**
+ * Returns which side of its planet a satellite places its notes, and how far:
+ * -1 … -0.5 left or 0.5 … 1 right. It comes from the satellite's id, so each
+ * satellite keeps its own place every time it fires, across save and load.
+ * (Its position can't be used: a satellite fires at the same point on its
+ * orbit every time, by default straight above its planet.)
+ */
+export function satelliteSpread(satelliteId: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < satelliteId.length; i++) {
+    hash = Math.imul(hash ^ satelliteId.charCodeAt(i), 0x01000193);
+  }
+  hash >>>= 0;
+  const magnitude = 0.5 + ((hash >>> 1) % 1000) / 1998;
+  return hash & 1 ? magnitude : -magnitude;
+}
+
+/**
+ * Returns the pan for a satellite's note: its planet's pan, pushed to the
+ * satellite's own side of it (see `satelliteSpread`).
+ */
+export function satellitePan(
+  satellite: Satellite,
+  planet: Planet,
+  center: Vector2D,
+  width: number
+): number {
+  const side = satelliteSpread(satellite.id);
+  return clampPan(positionPan(planet.position, center, width) + side * SATELLITE_PAN_SPREAD * width);
+}
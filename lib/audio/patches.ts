@@ -0,0 +1,270 @@
+import type { SynthType } from './synthManager';
+import type {
+  PatchEnvelope,
+  PatchWaveform,
+  SynthPatch,
+  SynthPreset,
+} from '@/types/audio';
+
+/**
+ * Per-planet synth patches and the preset library. A patch is saved with its
+ * planet; this module supplies defaults and ranges, turns a patch into
+ * Tone.js options for the planet's synth type, and reads and writes named
+ * presets in localStorage.
+ */
+
+export const PATCH_WAVEFORMS: readonly PatchWaveform[] = ['sine', 'square', 'triangle', 'sawtooth'] as const;
+
+/**
+ * An editable part of a patch. Each synth type only has some of them.
+ */
+export type PatchSection = 'oscillator' | 'envelope' | 'harmonicity' | 'modulationIndex' | 'filterEnvelope';
+
+/** The patch sections each synth type applies, in editor order. */
+export const PATCH_SECTIONS: Record<SynthType, PatchSection[]> = {
+  Synth: ['oscillator', 'envelope'],
+  AMSynth: ['oscillator', 'envelope', 'harmonicity'],
+  FMSynth: ['oscillator', 'envelope', 'harmonicity', 'modulationIndex'],
+  DuoSynth: ['harmonicity'],
+  MonoSynth: ['oscillator', 'envelope', 'filterEnvelope'],
+  MembraneSynth: ['oscillator', 'envelope'],
+  MetalSynth: ['envelope', 'harmonicity', 'modulationIndex'],
+  PluckSynth: [],
+  NoiseSynth: ['envelope'],
+  Sampler: [],
+};
+
+/**
+ * An editable numeric patch parameter and its range.
+ */
+export interface PatchParamSpec {
+  name: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const ENVELOPE_PARAMS: PatchParamSpec[] = [
+  { name: 'attack', label: 'Attack (s)', min: 0, max: 10, step: 0.001 },
+  { name: 'decay', label: 'Decay (s)', min: 0, max: 10, step: 0.01 },
+  { name: 'sustain', label: 'Sustain', min: 0, max: 1, step: 0.01 },
+  { name: 'release', label: 'Release (s)', min: 0, max: 10, step: 0.01 },
+];
+
+export const FILTER_ENVELOPE_PARAMS: PatchParamSpec[] = [
+  ...ENVELOPE_PARAMS,
+  { name: 'baseFrequency', label: 'Base (Hz)', min: 20, max: 20000, step: 1 },
+  { name: 'octaves', label: 'Octaves', min: 0, max: 10, step: 0.1 },
+];
+
+export const HARMONICITY_PARAM: PatchParamSpec = {
+  name: 'harmonicity',
+  label: 'Harmonicity',
+  min: 0.1,
+  max: 20,
+  step: 0.1,
+};
+
+export const MODULATION_INDEX_PARAM: PatchParamSpec = {
+  name: 'modulationIndex',
+  label: 'Mod index',
+  min: 0,
+  max: 100,
+  step: 0.5,
+};
+
+export const PATCH_SECTION_LABELS: Record<PatchSection, string> = {
+  oscillator: 'Oscillator',
+  envelope: 'Envelope',
+  harmonicity: 'Harmonicity',
+  modulationIndex: 'Modulation index',
+  filterEnvelope: 'Filter envelope',
+};
+
+// Tone.js' own defaults, so a planet with a default patch sounds as it did
+// before patches existed
+const BASE_PATCH: SynthPatch = {
+  oscillator: 'triangle',
+  envelope: { attack: 0.005, decay: 0.1, sustain: 0.3, release: 1 },
+  harmonicity: 3,
+  modulationIndex: 10,
+  filterEnvelope: { attack: 0.6, decay: 0.2, sustain: 0.5, release: 2, baseFrequency: 200, octaves: 3 },
+};
+
+const MODULATION_SYNTH_ENVELOPE: PatchEnvelope = { attack: 0.01, decay: 0.01, sustain: 1, release: 0.5 };
+
+const PATCH_DEFAULTS: Record<SynthType, Partial<SynthPatch>> = {
+  Synth: {},
+  AMSynth: { oscillator: 'sine', envelope: MODULATION_SYNTH_ENVELOPE },
+  FMSynth: { oscillator: 'sine', envelope: MODULATION_SYNTH_ENVELOPE },
+  DuoSynth: { harmonicity: 1.5 },
+  MonoSynth: { oscillator: 'sawtooth', envelope: { attack: 0.005, decay: 0.1, sustain: 0.9, release: 1 } },
+  MembraneSynth: { oscillator: 'sine', envelope: { attack: 0.001, decay: 0.4, sustain: 0.01, release: 1.4 } },
+  MetalSynth: {
+    envelope: { attack: 0.001, decay: 1.4, sustain: 0.5, release: 0.2 },
+    harmonicity: 5.1,
+    modulationIndex: 32,
+  },
+  PluckSynth: {},
+  NoiseSynth: { envelope: { attack: 0.01, decay: 0.1, sustain: 0, release: 1 } },
+  Sampler: {},
+};
+
+/**
+ * Returns a copy of a patch.
+ */
+export function clonePatch(patch: SynthPatch): SynthPatch {
+  return {
+    ...patch,
+    envelope: { ...patch.envelope },
+    filterEnvelope: { ...patch.filterEnvelope },
+  };
+}
+
+/**
+ * Returns the default patch for a synth type (Tone.js' defaults for it).
+ */
+export function defaultSynthPatch(synthType: SynthType): SynthPatch {
+  return clonePatch({ ...BASE_PATCH, ...PATCH_DEFAULTS[synthType] });
+}
+
+function clampParam(spec: PatchParamSpec, value: unknown, fallback: number): number {
+  const finite = typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+  return Math.max(spec.min, Math.min(spec.max, finite));
+}
+
+function normalizeParams<T extends object>(specs: PatchParamSpec[], values: unknown, fallback: T): T {
+  const source = (typeof values === 'object' && values !== null ? values : {}) as Record<string, unknown>;
+  const defaults = fallback as Record<string, number>;
+  return Object.fromEntries(
+    specs.map((spec) => [spec.name, clampParam(spec, source[spec.name], defaults[spec.name])])
+  ) as T;
+}
+
+/**
+ * Clamps every parameter to its range, filling in anything missing or
+ * unknown from the synth type's defaults.
+ */
+export function normalizeSynthPatch(synthType: SynthType, patch: SynthPatch): SynthPatch {
+  const defaults = defaultSynthPatch(synthType);
+  return {
+    oscillator: PATCH_WAVEFORMS.includes(patch.oscillator) ? patch.oscillator : defaults.oscillator,
+    envelope: normalizeParams(ENVELOPE_PARAMS, patch.envelope, defaults.envelope),
+    harmonicity: clampParam(HARMONICITY_PARAM, patch.harmonicity, defaults.harmonicity),
+    modulationIndex: clampParam(MODULATION_INDEX_PARAM, patch.modulationIndex, defaults.modulationIndex),
+    filterEnvelope: normalizeParams(FILTER_ENVELOPE_PARAMS, patch.filterEnvelope, defaults.filterEnvelope),
+  };
+}
+
+/**
+ * Tone.js options for a synth type built from a patch. Only the sections
+ * the type has are included, so the result can be passed straight to the
+ * synth's constructor or `set()`.
+ */
+export function patchOptions(synthType: SynthType, patch: SynthPatch): Record<string, unknown> {
+  const p = normalizeSynthPatch(synthType, patch);
+  const options: Record<string, unknown> = {};
+  for (const section of PATCH_SECTIONS[synthType]) {
+    switch (section) {
+      case 'oscillator':
+        options.oscillator = { type: p.oscillator };
+        break;
+      case 'envelope':
+        options.envelope = { ...p.envelope };
+        break;
+      case 'harmonicity':
+        options.harmonicity = p.harmonicity;
+        break;
+      case 'modulationIndex':
+        options.modulationIndex = p.modulationIndex;
+        break;
+      case 'filterEnvelope':
+        options.filterEnvelope = { ...p.filterEnvelope };
+        break;
+    }
+  }
+  return options;
+}
+
+// ─── Preset library ────────────────────────────────────────────────────────────
+
+/** localStorage key the preset library is persisted under. */
+export const PRESETS_STORAGE_KEY = 'solar-system-synth-presets';
+
+/**
+ * Returns the library with `preset` added, replacing any preset of the
+ * same name in place.
+ */
+export function upsertPreset(presets: SynthPreset[], preset: SynthPreset): SynthPreset[] {
+  const index = presets.findIndex((p) => p.name === preset.name);
+  if (index === -1) return [...presets, preset];
+  return presets.map((p, i) => (i === index ? preset : p));
+}
+
+/**
+ * Returns the library without the preset called `name`.
+ */
+export function removePreset(presets: SynthPreset[], name: string): SynthPreset[] {
+  return presets.filter((p) => p.name !== name);
+}
+
+/**
+ * Adds `incoming` presets (e.g. from a loaded file) to the library. A preset
+ * whose name is already taken is skipped, so the user's own version is kept.
+ */
+export function mergePresets(library: SynthPreset[], incoming: SynthPreset[]): SynthPreset[] {
+  const names = new Set(library.map((p) => p.name));
+  return [...library, ...incoming.filter((p) => !names.has(p.name))];
+}
+
+/**
+ * Returns a copy of a preset.
+ */
+export function clonePreset(preset: SynthPreset): SynthPreset {
+  return { ...preset, patch: clonePatch(preset.patch) };
+}
+
+function isSynthPreset(value: unknown): value is SynthPreset {
+  if (typeof value !== 'object' || value === null) return false;
+  const p = value as Record<string, unknown>;
+  return (
+    typeof p.name === 'string' &&
+    p.name.length > 0 &&
+    typeof p.synthType === 'string' &&
+    Object.hasOwn(PATCH_SECTIONS, p.synthType) &&
+    typeof p.patch === 'object' &&
+    p.patch !== null
+  );
+}
+
+/**
+ * Reads the library saved by `storePresets`. Malformed entries are dropped
+ * and patches are clamped to range; unreadable storage yields an empty library.
+ */
+export function loadStoredPresets(storage: Storage = localStorage): SynthPreset[] {
+  try {
+    const raw = storage.getItem(PRESETS_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(isSynthPreset).map((preset) => ({
+      ...preset,
+      patch: normalizeSynthPatch(preset.synthType as SynthType, preset.patch),
+    }));
+  } catch (err) {
+    console.warn('Could not read stored synth presets:', err);
+    return [];
+  }
+}
+
+/**
+ * Persists the library so it survives a page reload.
+ */
+export function storePresets(presets: SynthPreset[], storage: Storage = localStorage): void {
+  try {
+    storage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  } catch (err) {
+    console.warn('Could not store synth presets:', err);
+  }
+}
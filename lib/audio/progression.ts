@@ -0,0 +1,100 @@
+import type { ChordSymbol, MusicalMode, Star } from '@/types/celestial';
+import type { ActiveChord, ChordFollow, ChordProgression } from '@/types/audio';
+import { formatChordSymbol, isValidChordSymbol, parseChordSymbol, degreeRangeLabel, scaleLength } from './scales';
+
+/**
+ * A star's chord progression moves its planets through chords as the
+ * transport plays: every `barsPerChord` bars of 4/4 the next chord takes
+ * over, looping at the end. Planets keep their scale degrees and resolve
+ * them against the current chord (see `scaleDegreeToNote`), so the same
+ * sequence follows the harmony.
+ */
+
+/** Beats in a bar — progressions count in 4/4, as syncing does. */
+export const BEATS_PER_BAR = 4;
+
+/** Fewest / most bars a chord can last. */
+export const MIN_BARS_PER_CHORD = 1;
+export const MAX_BARS_PER_CHORD = 8;
+
+/** Most chords a progression can have. */
+export const MAX_PROGRESSION_CHORDS = 16;
+
+/** Every follow mode, in the order the star editor lists them. */
+export const CHORD_FOLLOWS: ChordFollow[] = ['root', 'snap'];
+
+/** Display name of each follow mode */
+export const CHORD_FOLLOW_LABELS: Record<ChordFollow, string> = {
+  root: 'Count degrees from the chord root',
+  snap: 'Snap notes to chord tones',
+};
+
+/** One-line reference for the chord symbols a progression accepts, for input hints. */
+export const CHORD_SYMBOL_SYNTAX =
+  'Roman numerals, upper case for major and lower case for minor; ° (or o) diminished, + augmented, ' +
+  '7 adds a seventh, b/# moves the root. Bar lines | are ignored.';
+
+/**
+ * Returns the progression a star starts with when one is switched on: I vi IV V, a bar each.
+ */
+export function defaultProgression(): ChordProgression {
+  return { chords: ['I', 'vi', 'IV', 'V'], barsPerChord: 1, follow: 'root' };
+}
+
+/**
+ * Returns a copy of a progression.
+ */
+export function cloneProgression(progression: ChordProgression): ChordProgression {
+  return { ...progression, chords: [...progression.chords] };
+}
+
+/**
+ * Parses a space-separated chord progression (e.g. "I vi | IV V7") into
+ * canonical chord symbols. With a mode, every root must be a degree of its
+ * scale.
+ *
+ * @throws If the progression is empty, too long, or has a word that isn't a chord
+ */
+export function parseProgression(input: string, mode?: MusicalMode): ChordSymbol[] {
+  const words = input.split(/[\s|]+/).filter((word) => word.length > 0);
+  if (words.length === 0) throw new Error('Enter at least one chord (e.g. I vi IV V)');
+  if (words.length > MAX_PROGRESSION_CHORDS) {
+    throw new Error(`A progression can have at most ${MAX_PROGRESSION_CHORDS} chords (got ${words.length})`);
+  }
+
+  return words.map((word) => {
+    const parsed = parseChordSymbol(word);
+    if (!parsed) throw new Error(`"${word}" is not a chord — use e.g. I, vi, V7, vii° or bVII`);
+    if (mode && !isValidChordSymbol(word, mode)) {
+      throw new Error(`${word} is not on the ${scaleLength(mode)}-note ${mode} scale (${degreeRangeLabel(mode)})`);
+    }
+    return formatChordSymbol(parsed);
+  });
+}
+
+/**
+ * Writes chord symbols back as the text `parseProgression` reads.
+ */
+export function formatProgression(chords: ChordSymbol[]): string {
+  return chords.join(' ');
+}
+
+/**
+ * Returns the index of the chord playing `beat` beats into a progression.
+ */
+export function progressionChordIndex(progression: ChordProgression, beat: number): number {
+  const bar = Math.floor(Math.max(0, beat) / BEATS_PER_BAR);
+  return Math.floor(bar / progression.barsPerChord) % progression.chords.length;
+}
+
+/**
+ * Returns the chord the star's planets follow now — or `offsetMs` later in
+ * the current tick, so a note at the very end of a bar hears the next chord.
+ * Null without a progression.
+ */
+export function activeChord(star: Star, offsetMs: number = 0): ActiveChord | null {
+  const { progression } = star;
+  if (!progression || progression.chords.length === 0) return null;
+  const beat = star.beat + (offsetMs / 60000) * star.bpm;
+  return { symbol: progression.chords[progressionChordIndex(progression, beat)], follow: progression.follow };
+}
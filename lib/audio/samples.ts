@@ -0,0 +1,198 @@
+import type { PlanetSample } from '@/types/audio';
+import { createRng } from '@/utils/random';
+import { CHROMATIC_NOTES, noteToMidi } from './scales';
+import { encodeWav, WAV_MIME_TYPE } from './wav';
+
+/**
+ * Audio samples for Sampler planets. Samples are kept as data URLs on the
+ * planet, so a saved system carries its audio and reloads offline. Each has
+ * a root note; Tone.Sampler plays a note by repitching the sample whose root
+ * is nearest.
+ */
+
+/** Most samples one planet can map. */
+export const MAX_SAMPLES = 8;
+
+/** Largest audio file accepted, since it is embedded in saved systems. */
+export const MAX_SAMPLE_BYTES = 4 * 1024 * 1024;
+
+/** `accept` attribute for sample file inputs. */
+export const SAMPLE_FILE_ACCEPT = '.wav,.mp3,audio/wav,audio/x-wav,audio/mpeg';
+
+const SAMPLE_MIME_TYPES = ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/mpeg', 'audio/mp3'];
+
+/** Root notes a sample can be mapped to: every chromatic note from C1 to B8. */
+export const SAMPLE_NOTES: string[] = [1, 2, 3, 4, 5, 6, 7, 8].flatMap((octave) =>
+  CHROMATIC_NOTES.map((name) => `${name}${octave}`)
+);
+
+// Root notes given to added samples in turn: octaves outward from C4, so a
+// single sample covers the usual range and each further one gets an octave
+// of its own
+const DEFAULT_ROOT_NOTES = ['C4', 'C3', 'C5', 'C2', 'C6', 'C1', 'C7', 'C8'];
+
+/**
+ * Returns true if `note` is a note name with octave that Tone.Sampler can map.
+ */
+export function isValidSampleNote(note: string): boolean {
+  try {
+    noteToMidi(note);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns true if a dropped/uploaded file looks like WAV or MP3 audio.
+ */
+export function isSampleFile(file: File): boolean {
+  return SAMPLE_MIME_TYPES.includes(file.type) || /\.(wav|mp3)$/i.test(file.name);
+}
+
+/**
+ * Reads an audio file into a data URL.
+ *
+ * @throws (rejects) If the file isn't WAV/MP3, is over MAX_SAMPLE_BYTES, or can't be read
+ */
+export function readSampleFile(file: File): Promise<string> {
+  if (!isSampleFile(file)) {
+    return Promise.reject(new Error(`${file.name} is not a WAV or MP3 file`));
+  }
+  if (file.size > MAX_SAMPLE_BYTES) {
+    return Promise.reject(
+      new Error(`${file.name} is larger than ${MAX_SAMPLE_BYTES / (1024 * 1024)} MB`)
+    );
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Returns the next free root note for a sample added to `samples`, or null
+ * if every note is taken.
+ */
+export function nextSampleNote(samples: PlanetSample[]): string | null {
+  const taken = new Set(samples.filter((s) => isValidSampleNote(s.note)).map((s) => noteToMidi(s.note)));
+  const free = (note: string) => !taken.has(noteToMidi(note));
+  return DEFAULT_ROOT_NOTES.find(free) ?? SAMPLE_NOTES.find(free) ?? null;
+}
+
+/**
+ * Returns `samples` with a new sample appended on the next free root note
+ * and a free ID.
+ *
+ * @throws If the planet already has MAX_SAMPLES samples
+ */
+export function addSample(samples: PlanetSample[], name: string, url: string): PlanetSample[] {
+  const note = nextSampleNote(samples);
+  if (samples.length >= MAX_SAMPLES || note === null) {
+    throw new Error(`A planet can map at most ${MAX_SAMPLES} samples`);
+  }
+  const taken = new Set(samples.map((s) => s.id));
+  let n = 1;
+  while (taken.has(`sample-${n}`)) n++;
+  return [...samples, { id: `sample-${n}`, name, note, url }];
+}
+
+/**
+ * Returns copies of a planet's samples.
+ */
+export function cloneSamples(samples: PlanetSample[]): PlanetSample[] {
+  return samples.map((sample) => ({ ...sample }));
+}
+
+/**
+ * Returns true if two sample maps would load the same Sampler.
+ */
+export function sameSampleMap(a: PlanetSample[], b: PlanetSample[]): boolean {
+  return a.length === b.length && a.every((s, i) => s.note === b[i].note && s.url === b[i].url);
+}
+
+/**
+ * Tone.Sampler `urls` for a sample map (root note → data URL).
+ */
+export function samplerUrls(samples: PlanetSample[]): Record<string, string> {
+  return Object.fromEntries(samples.map((s) => [s.note, s.url]));
+}
+
+// ─── Bundled kit ───────────────────────────────────────────────────────────────
+
+const KIT_SAMPLE_RATE = 22050;
+
+function renderSample(seconds: number, voice: (t: number) => number): Float32Array {
+  const out = new Float32Array(Math.round(seconds * KIT_SAMPLE_RATE));
+  for (let i = 0; i < out.length; i++) out[i] = voice(i / KIT_SAMPLE_RATE);
+  return out;
+}
+
+function kick(): Float32Array {
+  // Sine with a falling pitch; the phase is the integral of the sweep
+  return renderSample(0.5, (t) => {
+    const phase = 2 * Math.PI * (50 * t + (100 / 30) * (1 - Math.exp(-30 * t)));
+    return 0.9 * Math.sin(phase) * Math.exp(-8 * t);
+  });
+}
+
+function snare(): Float32Array {
+  const rng = createRng('drum-kit-snare');
+  return renderSample(0.3, (t) => {
+    const body = 0.4 * Math.sin(2 * Math.PI * 180 * t) * Math.exp(-20 * t);
+    const noise = 0.6 * (rng() * 2 - 1) * Math.exp(-15 * t);
+    return body + noise;
+  });
+}
+
+function hat(seconds: number, decay: number, seed: string): Float32Array {
+  // Differenced white noise: a crude high-pass that leaves the sizzle
+  const rng = createRng(seed);
+  let previous = 0;
+  return renderSample(seconds, (t) => {
+    const noise = rng() * 2 - 1;
+    const high = (noise - previous) / 2;
+    previous = noise;
+    return 0.7 * high * Math.exp(-decay * t);
+  });
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function wavDataUrl(samples: Float32Array): string {
+  return `data:${WAV_MIME_TYPE};base64,${toBase64(encodeWav([samples], KIT_SAMPLE_RATE))}`;
+}
+
+// Each drum sits on its own C, so a note's octave picks the drum and its
+// scale degree tunes it; a satellite set to a drum always plays its root
+const DRUM_KIT: readonly { name: string; note: string; render: () => Float32Array }[] = [
+  { name: 'Kick', note: 'C3', render: kick },
+  { name: 'Snare', note: 'C4', render: snare },
+  { name: 'Closed hat', note: 'C5', render: () => hat(0.08, 60, 'drum-kit-closed-hat') },
+  { name: 'Open hat', note: 'C6', render: () => hat(0.5, 8, 'drum-kit-open-hat') },
+];
+
+let drumKitUrls: string[] | null = null;
+
+/**
+ * Returns the drum kit bundled with the sample editor as a sample map. The
+ * audio is synthesised once and reused, and is identical on every run.
+ */
+export function drumKitSamples(): PlanetSample[] {
+  drumKitUrls ??= DRUM_KIT.map((drum) => wavDataUrl(drum.render()));
+  return DRUM_KIT.map((drum, i) => ({
+    id: `sample-${i + 1}`,
+    name: drum.name,
+    note: drum.note,
+    url: drumKitUrls![i],
+  }));
+}
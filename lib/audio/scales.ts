@@ -1,11 +1,17 @@
-import type { MusicalKey, MusicalMode } from '@/types/celestial';
-import type { NoteConversion, MusicalContext } from '@/types/audio';
+import type { ChordSymbol, MusicalKey, MusicalMode, ScaleDegree } from '@/types/celestial';
+import type { ActiveChord, ChordQuality, NoteConversion, MusicalContext } from '@/types/audio';
+import { pickRandom, randomInt } from '@/utils/random';
+import type { Rng } from '@/utils/random';
 
 /**
  * Semitone intervals for each mode, relative to the root.
  * Ionian (major) = 0,2,4,5,7,9,11
+ *
+ * Scales have between five and eight notes, so the degrees a planet can use
+ * depend on its star's mode — see `scaleLength`.
  */
 export const MODE_INTERVALS: Record<MusicalMode, number[]> = {
+  // Diatonic modes
   Ionian: [0, 2, 4, 5, 7, 9, 11],
   Dorian: [0, 2, 3, 5, 7, 9, 10],
   Phrygian: [0, 1, 3, 5, 7, 8, 10],
@@ -13,21 +19,85 @@ export const MODE_INTERVALS: Record<MusicalMode, number[]> = {
   Mixolydian: [0, 2, 4, 5, 7, 9, 10],
   Aeolian: [0, 2, 3, 5, 7, 8, 10],
   Locrian: [0, 1, 3, 5, 6, 8, 10],
+  // Minor variants
+  HarmonicMinor: [0, 2, 3, 5, 7, 8, 11],
+  MelodicMinor: [0, 2, 3, 5, 7, 9, 11],
+  // Pentatonic, blues and symmetric scales
+  MajorPentatonic: [0, 2, 4, 7, 9],
+  MinorPentatonic: [0, 3, 5, 7, 10],
+  Blues: [0, 3, 5, 6, 7, 10],
+  WholeTone: [0, 2, 4, 6, 8, 10],
+  Diminished: [0, 2, 3, 5, 6, 8, 9, 11], // whole–half
+  // World scales, in their nearest 12-tone equal temperament form
+  Hijaz: [0, 1, 4, 5, 7, 8, 10],
+  DoubleHarmonic: [0, 1, 4, 5, 7, 8, 11],
+  Hirajoshi: [0, 2, 3, 7, 8],
+  InSen: [0, 1, 5, 7, 10],
+  Pelog: [0, 1, 3, 7, 8],
+};
+
+/** Display name of each mode */
+export const MODE_LABELS: Record<MusicalMode, string> = {
+  Ionian: 'Ionian (major)',
+  Dorian: 'Dorian',
+  Phrygian: 'Phrygian',
+  Lydian: 'Lydian',
+  Mixolydian: 'Mixolydian',
+  Aeolian: 'Aeolian (minor)',
+  Locrian: 'Locrian',
+  HarmonicMinor: 'Harmonic minor',
+  MelodicMinor: 'Melodic minor',
+  MajorPentatonic: 'Major pentatonic',
+  MinorPentatonic: 'Minor pentatonic',
+  Blues: 'Blues',
+  WholeTone: 'Whole-tone',
+  Diminished: 'Diminished',
+  Hijaz: 'Hijaz',
+  DoubleHarmonic: 'Double harmonic',
+  Hirajoshi: 'Hirajoshi',
+  InSen: 'In Sen',
+  Pelog: 'Pelog',
 };
 
+/** Every mode, in the order mode pickers list them */
+export const MUSICAL_MODES = Object.keys(MODE_INTERVALS) as MusicalMode[];
+
+/**
+ * Roman numerals for scale degrees, enough for any scale in MODE_INTERVALS.
+ */
+const DEGREE_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII'];
+
 /**
  * Scale degree names mapped to their 0-based index in the scale array.
- * I = 1st degree (index 0), II = 2nd (index 1), etc.
+ * I = 1st degree (index 0), II = 2nd (index 1), etc. Whether a degree exists
+ * depends on the mode: a pentatonic scale stops at V.
  */
-export const DEGREE_TO_INDEX: Record<string, number> = {
-  I: 0,
-  II: 1,
-  III: 2,
-  IV: 3,
-  V: 4,
-  VI: 5,
-  VII: 6,
-};
+export const DEGREE_TO_INDEX: Record<string, number> = Object.fromEntries(
+  DEGREE_NUMERALS.map((numeral, index) => [numeral, index])
+);
+
+/**
+ * Number of notes (and so of degrees) in a mode's scale.
+ */
+export function scaleLength(mode: MusicalMode): number {
+  return MODE_INTERVALS[mode].length;
+}
+
+/**
+ * Returns the degree numerals a mode's scale has, e.g. I–V for a pentatonic.
+ */
+export function modeDegrees(mode: MusicalMode): string[] {
+  return DEGREE_NUMERALS.slice(0, scaleLength(mode));
+}
+
+/**
+ * Describes the degrees a note sequence may use in a mode, for input hints
+ * and errors: "I–V" for a pentatonic, "I–VII" for a diatonic mode.
+ */
+export function degreeRangeLabel(mode: MusicalMode): string {
+  const degrees = modeDegrees(mode);
+  return `I–${degrees[degrees.length - 1]}`;
+}
 
 /**
  * Chromatic note names in order (using sharps by convention, with enharmonic aliases).
@@ -63,9 +133,19 @@ export const KEY_SEMITONE: Record<MusicalKey, number> = {
   B: 11,
 };
 
+/**
+ * Returns the key `semitones` above (or, if negative, below) another.
+ *
+ * @example transposeKey('C', 2) => 'D'
+ */
+export function transposeKey(key: MusicalKey, semitones: number): MusicalKey {
+  const index = (((KEY_SEMITONE[key] + semitones) % 12) + 12) % 12;
+  return CHROMATIC_NOTES[index];
+}
+
 /**
  * Builds the scale (array of note names with octave) for a given key, mode, and starting octave.
- * Returns 7 notes spanning one octave starting from the given octave.
+ * Returns one note per degree, spanning one octave starting from the given octave.
  *
  * @example buildScale('C', 'Ionian', 4) => ['C4','D4','E4','F4','G4','A4','B4']
  */
@@ -86,80 +166,222 @@ export function buildScale(
 }
 
 /**
- * Converts a scale degree string (e.g. "I4", "V3", "VII5") to a concrete note name.
+ * Converts a scale degree string (e.g. "I4", "V3", "bIII4") to a concrete note name.
  *
- * The format is: Roman numeral (I-VII) followed by octave number.
+ * The format is: an optional accidental (b flattens, # sharpens by a
+ * semitone), a Roman numeral (I, II, …), then an octave number.
  * The octave in the degree string specifies which octave the root of that degree is in.
  *
- * @param scaleDegree - e.g. "I4", "V3"
+ * With a chord from the star's progression, the degree follows it: counted
+ * from the chord's root along the scale ("root"), or moved to the nearest
+ * chord tone ("snap"). A chord on a degree the scale doesn't have is ignored.
+ *
+ * @param scaleDegree - e.g. "I4", "V3", "#IV4"
  * @param key - Musical key (e.g. 'C', 'F#')
  * @param mode - Musical mode (e.g. 'Ionian', 'Dorian')
- * @returns The note name with octave (e.g. "C4", "G3")
+ * @param chord - The progression chord planets are following, if any
+ * @returns The note name with octave (e.g. "C4", "G3", "F#4")
  */
 export function scaleDegreeToNote(
   scaleDegree: string,
   key: MusicalKey,
-  mode: MusicalMode
+  mode: MusicalMode,
+  chord: ActiveChord | null = null
 ): string {
   const parsed = parseScaleDegree(scaleDegree);
   if (!parsed) {
     throw new Error(`Invalid scale degree: "${scaleDegree}"`);
   }
 
-  const { degree, octave } = parsed;
+  const { degree, octave, alteration } = parsed;
   const degreeIndex = DEGREE_TO_INDEX[degree];
+  const length = scaleLength(mode);
+
+  if (degreeIndex >= length) {
+    throw new Error(`Degree ${degree} is not in the ${length}-note ${mode} scale`);
+  }
+
+  // As buildScale, but an accidental can move the note across an octave (bI4 in C is B3)
+  let semitone = KEY_SEMITONE[key] + MODE_INTERVALS[mode][degreeIndex] + alteration;
 
-  if (degreeIndex === undefined) {
-    throw new Error(`Unknown degree: "${degree}"`);
+  const parsedChord = chord ? parseChordSymbol(chord.symbol) : null;
+  if (chord && parsedChord && DEGREE_TO_INDEX[parsedChord.degree] < length) {
+    if (chord.follow === 'root') {
+      // Step up the scale from the chord's root; its accidental moves every note
+      const index = degreeIndex + DEGREE_TO_INDEX[parsedChord.degree];
+      semitone =
+        KEY_SEMITONE[key] +
+        MODE_INTERVALS[mode][index % length] +
+        12 * Math.floor(index / length) +
+        alteration +
+        parsedChord.alteration;
+    } else {
+      semitone = nearestChordTone(semitone, chordPitchClasses(parsedChord, key, mode));
+    }
   }
+  return semitoneToNote(semitone, octave);
+}
 
-  const scale = buildScale(key, mode, octave);
-  return scale[degreeIndex];
+/** Names the note `semitone` steps above C in `octave`, carrying into neighbouring octaves. */
+function semitoneToNote(semitone: number, octave: number): string {
+  const octaveOffset = Math.floor(semitone / 12);
+  return `${CHROMATIC_NOTES[semitone - octaveOffset * 12]}${octave + octaveOffset}`;
 }
 
+/** Semitones each scale degree accidental moves the note by. */
+export const ACCIDENTAL_SEMITONES: Record<string, number> = { '': 0, b: -1, '#': 1 };
+
 /**
  * Parses a scale degree string into its components.
  * Returns null if the string is not a valid scale degree.
  *
- * @example parseScaleDegree("VII4") => { degree: "VII", octave: 4 }
+ * @example parseScaleDegree("VII4") => { degree: "VII", octave: 4, alteration: 0 }
+ * @example parseScaleDegree("bIII4") => { degree: "III", octave: 4, alteration: -1 }
  */
 export function parseScaleDegree(
   scaleDegree: string
-): { degree: string; octave: number } | null {
-  const match = scaleDegree.trim().match(/^(VII|VI|IV|V|III|II|I)(\d+)$/);
-  if (!match) return null;
+): { degree: string; octave: number; alteration: number } | null {
+  const match = scaleDegree.trim().match(/^([b#]?)([IVX]+)(\d+)$/);
+  if (!match || !(match[2] in DEGREE_TO_INDEX)) return null;
   return {
-    degree: match[1],
-    octave: parseInt(match[2], 10),
+    degree: match[2],
+    octave: parseInt(match[3], 10),
+    alteration: ACCIDENTAL_SEMITONES[match[1]],
   };
 }
 
 /**
- * Validates a scale degree string.
+ * Validates a scale degree string. With a mode, the degree must also be one
+ * of that mode's scale — "VII4" is not valid in a pentatonic.
  */
-export function isValidScaleDegree(scaleDegree: string): boolean {
-  return parseScaleDegree(scaleDegree) !== null;
+export function isValidScaleDegree(scaleDegree: string, mode?: MusicalMode): boolean {
+  const parsed = parseScaleDegree(scaleDegree);
+  if (!parsed) return false;
+  return mode === undefined || DEGREE_TO_INDEX[parsed.degree] < scaleLength(mode);
 }
 
 /**
- * Parses a note sequence string (space-separated scale degrees) into an array.
- * Filters out invalid entries.
+ * Semitones above the root of each chord quality's triad.
+ */
+export const CHORD_QUALITY_INTERVALS: Record<ChordQuality, number[]> = {
+  major: [0, 4, 7],
+  minor: [0, 3, 7],
+  diminished: [0, 3, 6],
+  augmented: [0, 4, 8],
+};
+
+// The seventh a "7" adds: minor, except on a diminished chord (°7)
+const SEVENTH_INTERVAL: Record<ChordQuality, number> = { major: 10, minor: 10, diminished: 9, augmented: 10 };
+
+// Chord name suffix of each quality, e.g. the "m" of "Am"
+const QUALITY_SUFFIX: Record<ChordQuality, string> = { major: '', minor: 'm', diminished: '°', augmented: '+' };
+
+export interface ParsedChordSymbol {
+  degree: string; // upper-case numeral of the root's scale degree
+  alteration: number; // semitones the root is moved by
+  quality: ChordQuality;
+  seventh: boolean;
+}
+
+/**
+ * Parses a chord symbol into its components. Upper-case numerals are major
+ * and lower-case minor, unless ° (or o) makes the chord diminished or +
+ * augmented. Returns null if the string is not a chord symbol.
+ *
+ * @example parseChordSymbol("vi") => { degree: "VI", alteration: 0, quality: "minor", seventh: false }
+ * @example parseChordSymbol("bVII7") => { degree: "VII", alteration: -1, quality: "major", seventh: true }
+ */
+export function parseChordSymbol(symbol: string): ParsedChordSymbol | null {
+  const match = symbol.trim().match(/^([b#]?)([IVX]+|[ivx]+)([°o+]?)(7?)$/);
+  if (!match) return null;
+  const degree = match[2].toUpperCase();
+  if (!(degree in DEGREE_TO_INDEX)) return null;
+
+  let quality: ChordQuality = match[2] === degree ? 'major' : 'minor';
+  if (match[3] === '+') quality = 'augmented';
+  else if (match[3]) quality = 'diminished';
+  return { degree, alteration: ACCIDENTAL_SEMITONES[match[1]], quality, seventh: match[4] === '7' };
+}
+
+/**
+ * Writes a parsed chord symbol in canonical form: lower case for minor and
+ * diminished chords, ° rather than o.
+ *
+ * @example formatChordSymbol(parseChordSymbol("VIIo")!) => "vii°"
+ */
+export function formatChordSymbol(chord: ParsedChordSymbol): ChordSymbol {
+  const accidental = chord.alteration < 0 ? 'b' : chord.alteration > 0 ? '#' : '';
+  const lower = chord.quality === 'minor' || chord.quality === 'diminished';
+  const marker = chord.quality === 'diminished' ? '°' : chord.quality === 'augmented' ? '+' : '';
+  return `${accidental}${lower ? chord.degree.toLowerCase() : chord.degree}${marker}${chord.seventh ? '7' : ''}`;
+}
+
+/**
+ * Validates a chord symbol. With a mode, its root must also be a degree of
+ * that mode's scale — "vi" is not valid in a pentatonic.
+ */
+export function isValidChordSymbol(symbol: string, mode?: MusicalMode): boolean {
+  const parsed = parseChordSymbol(symbol);
+  if (!parsed) return false;
+  return mode === undefined || DEGREE_TO_INDEX[parsed.degree] < scaleLength(mode);
+}
+
+// Semitones above C of the chord's tones from its root upward (root may be below 0 or past 11)
+function chordSemitones(chord: ParsedChordSymbol, key: MusicalKey, mode: MusicalMode): number[] {
+  const root = KEY_SEMITONE[key] + MODE_INTERVALS[mode][DEGREE_TO_INDEX[chord.degree]] + chord.alteration;
+  const intervals = CHORD_QUALITY_INTERVALS[chord.quality];
+  const tones = chord.seventh ? [...intervals, SEVENTH_INTERVAL[chord.quality]] : intervals;
+  return tones.map((interval) => root + interval);
+}
+
+function chordPitchClasses(chord: ParsedChordSymbol, key: MusicalKey, mode: MusicalMode): number[] {
+  return chordSemitones(chord, key, mode).map((semitone) => ((semitone % 12) + 12) % 12);
+}
+
+// The chord tone closest to `semitone`, preferring the lower of two equally close
+function nearestChordTone(semitone: number, pitchClasses: number[]): number {
+  for (let distance = 0; distance < 12; distance++) {
+    for (const candidate of [semitone - distance, semitone + distance]) {
+      if (pitchClasses.includes(((candidate % 12) + 12) % 12)) return candidate;
+    }
+  }
+  return semitone;
+}
+
+/**
+ * Returns the notes of a chord in a key and mode, rising from its root in
+ * the given octave. Empty if the symbol is invalid or its root isn't in the
+ * mode's scale.
+ *
+ * @example chordTones('vi', 'C', 'Ionian') => ['A4', 'C5', 'E5']
+ */
+export function chordTones(symbol: ChordSymbol, key: MusicalKey, mode: MusicalMode, octave: number = 4): string[] {
+  const parsed = parseChordSymbol(symbol);
+  if (!parsed || DEGREE_TO_INDEX[parsed.degree] >= scaleLength(mode)) return [];
+  return chordSemitones(parsed, key, mode).map((semitone) => semitoneToNote(semitone, octave));
+}
+
+/**
+ * Names a chord by its root note and quality in a key and mode, or null if
+ * the symbol is invalid or its root isn't in the mode's scale.
  *
- * @example parseNoteSequence("I4 V3 VI4 III3") => ["I4", "V3", "VI4", "III3"]
+ * @example chordName('vi', 'C', 'Ionian') => 'Am'
+ * @example chordName('V7', 'G', 'Ionian') => 'D7'
  */
-export function parseNoteSequence(input: string): string[] {
-  return input
-    .trim()
-    .split(/\s+/)
-    .filter((s) => s.length > 0 && isValidScaleDegree(s));
+export function chordName(symbol: ChordSymbol, key: MusicalKey, mode: MusicalMode): string | null {
+  const parsed = parseChordSymbol(symbol);
+  if (!parsed || DEGREE_TO_INDEX[parsed.degree] >= scaleLength(mode)) return null;
+  const [root] = chordPitchClasses(parsed, key, mode);
+  return `${CHROMATIC_NOTES[root]}${QUALITY_SUFFIX[parsed.quality]}${parsed.seventh ? '7' : ''}`;
 }
 
 /**
- * Converts a MIDI note number to a frequency in Hz.
- * MIDI 69 = A4 = 440 Hz.
+ * Converts a MIDI note number to a frequency in Hz, in 12-TET.
+ * MIDI 69 = A4 = 440 Hz unless another reference is given; see
+ * `lib/audio/tuning.ts` for other tunings.
  */
-export function midiToFrequency(midiNumber: number): number {
-  return 440 * Math.pow(2, (midiNumber - 69) / 12);
+export function midiToFrequency(midiNumber: number, referenceFrequency: number = 440): number {
+  return referenceFrequency * Math.pow(2, (midiNumber - 69) / 12);
 }
 
 /**
@@ -225,33 +447,69 @@ export function scaleDegreeToConversion(
 }
 
 /**
- * Builds a full MusicalContext from key, mode, and BPM.
+ * Builds a full MusicalContext from key, mode, and BPM, and the progression
+ * chord planets are following, if any.
  */
 export function buildMusicalContext(
   key: MusicalKey,
   mode: MusicalMode,
-  bpm: number
+  bpm: number,
+  chord: ActiveChord | null = null
 ): MusicalContext {
   return {
     key,
     mode,
     bpm,
     scale: buildScale(key, mode, 4),
+    chord,
+    chordTones: chord ? chordTones(chord.symbol, key, mode, 4) : [],
   };
 }
 
 /**
  * Returns a random key from all 12 chromatic keys.
+ *
+ * @param rng - Random source (default `Math.random`; pass a seeded one for reproducibility)
+ */
+export function randomKey(rng: Rng = Math.random): MusicalKey {
+  return pickRandom(rng, Object.keys(KEY_SEMITONE) as MusicalKey[]);
+}
+
+/**
+ * Returns a random mode from MUSICAL_MODES.
+ *
+ * @param rng - Random source (default `Math.random`; pass a seeded one for reproducibility)
  */
-export function randomKey(): MusicalKey {
-  const keys = Object.keys(KEY_SEMITONE) as MusicalKey[];
-  return keys[Math.floor(Math.random() * keys.length)];
+export function randomMode(rng: Rng = Math.random): MusicalMode {
+  return pickRandom(rng, MUSICAL_MODES);
+}
+
+export interface RandomNoteSequenceOptions {
+  minLength?: number;
+  maxLength?: number;
+  minOctave?: number;
+  maxOctave?: number;
+  /** Only use degrees this mode's scale has (default: I–VII) */
+  mode?: MusicalMode;
 }
 
 /**
- * Returns a random mode from all 7 modes.
+ * Generates a random sequence of scale degrees (e.g. ["I4", "V3", "III4"]).
+ * Degrees are relative, so the result is always in the star's key — and,
+ * given the star's mode, within its scale.
+ *
+ * @param rng - Random source
  */
-export function randomMode(): MusicalMode {
-  const modes = Object.keys(MODE_INTERVALS) as MusicalMode[];
-  return modes[Math.floor(Math.random() * modes.length)];
+export function randomNoteSequence(
+  rng: Rng,
+  options: RandomNoteSequenceOptions = {}
+): ScaleDegree[] {
+  const { minLength = 3, maxLength = 6, minOctave = 3, maxOctave = 5, mode } = options;
+  const degrees = mode ? modeDegrees(mode) : DEGREE_NUMERALS.slice(0, 7);
+  const length = randomInt(rng, minLength, maxLength);
+
+  return Array.from(
+    { length },
+    () => `${pickRandom(rng, degrees)}${randomInt(rng, minOctave, maxOctave)}` as ScaleDegree
+  );
 }
@@ -2,12 +2,26 @@
 
 import * as Tone from 'tone';
 import { linearToDb } from '@/utils/audio';
+import { sendMidiNote } from './midiOutput';
+import type { MidiOutputManager } from './midiOutput';
+import {
+  createEffectNode,
+  applyEffectParams,
+  effectsReady,
+  normalizeEffectParams,
+  EFFECT_PARAMS,
+} from './effects';
+import type { EffectNode } from './effects';
+import { SYNTH_MODULATION_PARAMS } from './modulation';
+import { patchOptions } from './patches';
+import { samplerUrls } from './samples';
+import type { EffectSettings, ModulationTarget, PlanetSample, SynthPatch } from '@/types/audio';
 
 /**
- * All supported Tone.js synth type names.
- * Used to populate the planet synth type dropdown.
+ * Tone.js synth types that make their own sound. Comets, dust and random
+ * synth choices use these, since they have no samples to play.
  */
-export const SYNTH_TYPES = [
+export const OSCILLATOR_SYNTH_TYPES = [
   'Synth',
   'AMSynth',
   'FMSynth',
@@ -19,6 +33,13 @@ export const SYNTH_TYPES = [
   'NoiseSynth',
 ] as const;
 
+/**
+ * All supported Tone.js synth type names: the oscillator synths and the
+ * Sampler, which plays a planet's audio samples.
+ * Used to populate the planet synth type dropdown.
+ */
+export const SYNTH_TYPES = [...OSCILLATOR_SYNTH_TYPES, 'Sampler'] as const;
+
 export type SynthType = (typeof SYNTH_TYPES)[number];
 
 /**
@@ -31,18 +52,60 @@ export type AnySynth =
   | Tone.PluckSynth
   | Tone.NoiseSynth
   | Tone.MembraneSynth
-  | Tone.MetalSynth;
+  | Tone.MetalSynth
+  | Tone.Sampler;
+
+/**
+ * An insert effect in a voice's chain, with its live Tone.js node.
+ */
+export interface EffectInstance {
+  settings: EffectSettings;
+  node: EffectNode;
+}
 
 export interface SynthInstance {
   id: string; // planet ID
   synth: AnySynth;
   synthType: SynthType;
   volume: Tone.Volume;
+  /** Places the voice in the stereo field, after its volume */
+  panner: Tone.Panner;
+  /** Insert effects between the synth and its volume, in signal order */
+  effects: EffectInstance[];
+  /** Samples mapped on a Sampler (0 for other synth types) */
+  sampleCount: number;
+}
+
+/**
+ * A note played while a SynthManager is recording (offline rendering).
+ */
+export interface RecordedNote {
+  /** Seconds from the start of the recording */
+  time: number;
+  /** Planet or comet ID whose synth played the note */
+  voiceId: string;
+  synthType: SynthType;
+  note: string;
+  durationSeconds: number;
+  volume: number;
+}
+
+/**
+ * Clock and log for offline rendering. While attached to a SynthManager,
+ * notes are scheduled at `time` instead of now, and each one is logged.
+ * The renderer advances `time` as it steps the simulation.
+ */
+export interface NoteRecorder {
+  time: number;
+  notes: RecordedNote[];
 }
 
 export interface SynthManager {
   instances: Map<string, SynthInstance>;
   maxInstances: number;
+  recorder: NoteRecorder | null;
+  /** External MIDI routing; routed voices send MIDI as well as (or instead of) playing */
+  midiOutput: MidiOutputManager | null;
 }
 
 /**
@@ -52,56 +115,89 @@ export function createSynthManager(maxInstances: number = 20): SynthManager {
   return {
     instances: new Map(),
     maxInstances,
+    recorder: null,
+    midiOutput: null,
   };
 }
 
+/**
+ * Attaches a fresh NoteRecorder to a manager, starting at time 0.
+ */
+export function startRecording(manager: SynthManager): NoteRecorder {
+  manager.recorder = { time: 0, notes: [] };
+  return manager.recorder;
+}
+
+/**
+ * Attaches (or with null, detaches) a MIDI output backend. The same backend
+ * can be shared by successive managers so routing survives a reload.
+ */
+export function setMidiOutput(manager: SynthManager, output: MidiOutputManager | null): void {
+  manager.midiOutput = output;
+}
+
 /**
  * Creates a Tone.js synth of the given type, connected to a Volume node
- * which is connected to the master output.
+ * which is connected through a centred Panner to the master output.
  *
  * @param synthType - The type of synth to create
  * @param volumeLinear - Initial volume scalar (0–1)
+ * @param patch - Voice settings; Tone.js defaults if omitted
+ * @param samples - Audio a Sampler plays; ignored by other synth types
  */
 function createSynth(
   synthType: SynthType,
-  volumeLinear: number = 1
-): { synth: AnySynth; volume: Tone.Volume } {
-  const volumeNode = new Tone.Volume(linearToDb(volumeLinear)).toDestination();
+  volumeLinear: number = 1,
+  patch?: SynthPatch,
+  samples: PlanetSample[] = []
+): { synth: AnySynth; volume: Tone.Volume; panner: Tone.Panner } {
+  const panner = new Tone.Panner(0).toDestination();
+  const volumeNode = new Tone.Volume(linearToDb(volumeLinear)).connect(panner);
+  // Each constructor takes its own options type; patchOptions only includes
+  // the sections this synth type has
+  const options = (patch ? patchOptions(synthType, patch) : {}) as object;
 
   let synth: AnySynth;
 
   switch (synthType) {
     case 'AMSynth':
-      synth = new Tone.PolySynth(Tone.AMSynth).connect(volumeNode);
+      synth = new Tone.PolySynth(Tone.AMSynth, options).connect(volumeNode);
       break;
     case 'FMSynth':
-      synth = new Tone.PolySynth(Tone.FMSynth).connect(volumeNode);
+      synth = new Tone.PolySynth(Tone.FMSynth, options).connect(volumeNode);
       break;
     case 'DuoSynth':
-      synth = new Tone.PolySynth(Tone.DuoSynth).connect(volumeNode);
+      synth = new Tone.PolySynth(Tone.DuoSynth, options).connect(volumeNode);
       break;
     case 'MonoSynth':
-      synth = new Tone.PolySynth(Tone.MonoSynth).connect(volumeNode);
+      synth = new Tone.PolySynth(Tone.MonoSynth, options).connect(volumeNode);
       break;
     case 'MembraneSynth':
-      synth = new Tone.MembraneSynth().connect(volumeNode);
+      synth = new Tone.MembraneSynth(options).connect(volumeNode);
       break;
     case 'MetalSynth':
-      synth = new Tone.MetalSynth().connect(volumeNode);
+      synth = new Tone.MetalSynth(options).connect(volumeNode);
       break;
     case 'PluckSynth':
-      synth = new Tone.PluckSynth().connect(volumeNode);
+      synth = new Tone.PluckSynth(options).connect(volumeNode);
       break;
     case 'NoiseSynth':
-      synth = new Tone.NoiseSynth().connect(volumeNode);
+      synth = new Tone.NoiseSynth(options).connect(volumeNode);
+      break;
+    case 'Sampler':
+      // Data URLs decode asynchronously; notes before then are skipped
+      synth = new Tone.Sampler({
+        urls: samplerUrls(samples),
+        onerror: (err) => console.warn('Could not load a sample:', err),
+      }).connect(volumeNode);
       break;
     case 'Synth':
     default:
-      synth = new Tone.PolySynth(Tone.Synth).connect(volumeNode);
+      synth = new Tone.PolySynth(Tone.Synth, options).connect(volumeNode);
       break;
   }
 
-  return { synth, volume: volumeNode };
+  return { synth, volume: volumeNode, panner };
 }
 
 /**
@@ -112,13 +208,19 @@ function createSynth(
  * @param planetId - Unique planet ID
  * @param synthType - Synth type name
  * @param volumeLinear - Initial volume (0–1)
+ * @param effects - Insert effects to run the synth through
+ * @param patch - Voice settings; Tone.js defaults if omitted
+ * @param samples - Audio a Sampler plays; ignored by other synth types
  * @returns The created SynthInstance, or null if limit reached
  */
 export function addSynth(
   manager: SynthManager,
   planetId: string,
   synthType: SynthType,
-  volumeLinear: number = 1
+  volumeLinear: number = 1,
+  effects: EffectSettings[] = [],
+  patch?: SynthPatch,
+  samples: PlanetSample[] = []
 ): SynthInstance | null {
   if (manager.instances.has(planetId)) {
     return manager.instances.get(planetId)!;
@@ -128,18 +230,29 @@ export function addSynth(
     return null;
   }
 
-  const { synth, volume } = createSynth(synthType, volumeLinear);
+  const { synth, volume, panner } = createSynth(synthType, volumeLinear, patch, samples);
   const instance: SynthInstance = {
     id: planetId,
     synth,
     synthType,
     volume,
+    panner,
+    effects: [],
+    sampleCount: synthType === 'Sampler' ? samples.length : 0,
   };
 
   manager.instances.set(planetId, instance);
+  if (effects.length > 0) setSynthEffects(manager, planetId, effects);
   return instance;
 }
 
+function disposeInstance(instance: SynthInstance): void {
+  instance.synth.dispose();
+  for (const effect of instance.effects) effect.node.dispose();
+  instance.volume.dispose();
+  instance.panner.dispose();
+}
+
 /**
  * Removes and disposes a synth instance for a planet.
  */
@@ -147,46 +260,154 @@ export function removeSynth(manager: SynthManager, planetId: string): void {
   const instance = manager.instances.get(planetId);
   if (!instance) return;
 
-  instance.synth.dispose();
-  instance.volume.dispose();
+  disposeInstance(instance);
   manager.instances.delete(planetId);
 }
 
 /**
- * Triggers a note on a planet's synth.
+ * Applies a patch to a voice's existing synth, so editing it doesn't cut off
+ * notes that are still sounding.
+ */
+export function setSynthPatch(manager: SynthManager, planetId: string, patch: SynthPatch): void {
+  const instance = manager.instances.get(planetId);
+  if (!instance) return;
+  (instance.synth as Tone.ToneAudioNode).set(patchOptions(instance.synthType, patch));
+}
+
+/**
+ * Replaces a voice's effects chain.
+ *
+ * Nodes are reused for effects that stay in the chain (matched by ID), so a
+ * reverb isn't rebuilt when it's moved. The signal path is only rewired when
+ * effects are added, removed, reordered or (un)bypassed — parameter edits
+ * are applied to the live nodes, so dragging a slider doesn't click.
+ */
+export function setSynthEffects(
+  manager: SynthManager,
+  planetId: string,
+  effects: EffectSettings[]
+): void {
+  const instance = manager.instances.get(planetId);
+  if (!instance) return;
+
+  const previous = new Map(instance.effects.map((e) => [e.settings.id, e]));
+  const sameRouting =
+    instance.effects.length === effects.length &&
+    instance.effects.every(
+      ({ settings }, i) =>
+        settings.id === effects[i].id &&
+        settings.type === effects[i].type &&
+        settings.bypassed === effects[i].bypassed
+    );
+
+  const next = effects.map((settings): EffectInstance => {
+    const existing = previous.get(settings.id);
+    if (existing && existing.settings.type === settings.type) {
+      previous.delete(settings.id);
+      applyEffectParams(existing.node, settings);
+      return { settings, node: existing.node };
+    }
+    return { settings, node: createEffectNode(settings) };
+  });
+  instance.effects = next;
+  if (sameRouting) return;
+
+  for (const removed of previous.values()) removed.node.dispose();
+  instance.synth.disconnect();
+  for (const { node } of next) node.disconnect();
+  const active = next.filter((e) => !e.settings.bypassed).map((e) => e.node);
+  instance.synth.chain(...active, instance.volume);
+}
+
+/**
+ * Resolves once every voice's effects can make sound (reverbs build their
+ * impulse responses asynchronously).
+ */
+export async function synthEffectsReady(manager: SynthManager): Promise<void> {
+  const nodes = [...manager.instances.values()].flatMap((i) => i.effects.map((e) => e.node));
+  await effectsReady(nodes);
+}
+
+/**
+ * Triggers a note on a planet's synth at `time`, or if omitted, at the
+ * recorder's time while recording and otherwise now. While the manager is
+ * recording, the note is also logged. Otherwise, if the planet has a MIDI
+ * route, the note is sent to it, and the synth is skipped unless the route
+ * layers it.
  *
  * @param manager - The SynthManager
  * @param planetId - The planet whose synth should play
  * @param note - Note name with octave, e.g. "C4"
  * @param durationSeconds - How long to hold the note
  * @param volumeLinear - Volume at which to play (0–1), overrides the channel volume
+ * @param time - Audio-clock time (seconds) to play at, e.g. from a look-ahead scheduler
+ * @param frequency - Tuned pitch (Hz) the synth plays instead of `note`; MIDI and the recorder still get `note`
  */
 export function triggerNote(
   manager: SynthManager,
   planetId: string,
   note: string,
   durationSeconds: number,
-  volumeLinear: number = 1
+  volumeLinear: number = 1,
+  time?: number,
+  frequency?: number
 ): void {
   const instance = manager.instances.get(planetId);
   if (!instance) return;
 
-  // Update the volume node
-  instance.volume.volume.value = linearToDb(Math.max(0.01, volumeLinear));
+  const { recorder, midiOutput } = manager;
+  const now = time ?? (recorder ? recorder.time : Tone.now());
+
+  // Live MIDI out — never during an offline render. MIDI timestamps are on the
+  // performance.now() clock, so notes keep their offset from the raw audio
+  // clock. Tone.now() already includes the context's lookAhead, so measuring
+  // from it would send MIDI that far ahead of the audio.
+  if (!recorder && midiOutput) {
+    const midiNow = performance.now() + (now - Tone.getContext().currentTime) * 1000;
+    if (sendMidiNote(midiOutput, planetId, note, durationSeconds, volumeLinear, midiNow)) {
+      if (!midiOutput.routes.get(planetId)?.layerSynth) return;
+    }
+  }
+
+  // Update the volume node (scheduled, so notes scheduled ahead keep their own level)
+  const db = linearToDb(Math.max(0.01, volumeLinear));
+  if (time !== undefined || recorder) {
+    instance.volume.volume.setValueAtTime(db, now);
+  } else {
+    instance.volume.volume.value = db;
+  }
+  if (recorder) {
+    recorder.notes.push({
+      time: now,
+      voiceId: planetId,
+      synthType: instance.synthType,
+      note,
+      durationSeconds,
+      volume: volumeLinear,
+    });
+  }
 
   const synth = instance.synth;
-  const now = Tone.now();
+  const pitch = frequency ?? note;
+
+  // A Sampler can't play until it has samples and they have decoded
+  if (instance.synthType === 'Sampler') {
+    if (instance.sampleCount > 0 && (synth as Tone.Sampler).loaded) {
+      (synth as Tone.Sampler).triggerAttackRelease(pitch, durationSeconds, now);
+    }
+    return;
+  }
 
   // NoiseSynth and MetalSynth don't accept note names
   if (synth instanceof Tone.NoiseSynth || synth instanceof Tone.MetalSynth) {
     synth.triggerAttackRelease(durationSeconds, now);
   } else if (synth instanceof Tone.MembraneSynth) {
-    synth.triggerAttackRelease(note, durationSeconds, now);
+    synth.triggerAttackRelease(pitch, durationSeconds, now);
   } else if (synth instanceof Tone.PluckSynth) {
-    synth.triggerAttack(note, now);
+    synth.triggerAttack(pitch, now);
   } else {
     // PolySynth variants
-    (synth as Tone.PolySynth).triggerAttackRelease(note, durationSeconds, now);
+    (synth as Tone.PolySynth).triggerAttackRelease(pitch, durationSeconds, now);
   }
 }
 
@@ -203,6 +424,74 @@ export function setSynthVolume(
   instance.volume.volume.value = linearToDb(Math.max(0.01, volumeLinear));
 }
 
+function setNodeParam(node: object, name: string, value: number, time: number): void {
+  const param = (node as Record<string, unknown>)[name];
+  if (typeof param === 'object' && param !== null && 'setValueAtTime' in param) {
+    (param as Tone.Param).setValueAtTime(value, time);
+  } else if (param !== undefined) {
+    (node as Tone.ToneAudioNode).set({ [name]: value });
+  }
+}
+
+/**
+ * Sets a modulated parameter on a voice's synth (effectId null) or one of
+ * its effects at `time`, or now if omitted. Signal parameters are scheduled
+ * on the audio clock; plain properties are set immediately. Targets the
+ * voice doesn't have (e.g. detune on a PluckSynth) are ignored.
+ */
+export function setModulatedParam(
+  manager: SynthManager,
+  planetId: string,
+  target: ModulationTarget,
+  value: number,
+  time?: number
+): void {
+  const instance = manager.instances.get(planetId);
+  if (!instance) return;
+
+  const node =
+    target.effectId === null
+      ? instance.synth
+      : instance.effects.find((e) => e.settings.id === target.effectId)?.node;
+  if (!node) return;
+  setNodeParam(node, target.param, value, time ?? Tone.now());
+}
+
+/**
+ * Returns every parameter a modulation route could have moved to its
+ * unmodulated value: synth parameters to their defaults, effect parameters
+ * to the values saved in the chain. Call after routes are removed or retargeted.
+ */
+export function resetModulatedParams(manager: SynthManager, planetId: string): void {
+  const instance = manager.instances.get(planetId);
+  if (!instance) return;
+
+  const now = Tone.now();
+  for (const { name, default: value } of SYNTH_MODULATION_PARAMS) {
+    setNodeParam(instance.synth, name, value, now);
+  }
+  for (const { settings, node } of instance.effects) {
+    const params = normalizeEffectParams(settings.type, settings.params);
+    for (const spec of EFFECT_PARAMS[settings.type]) {
+      if (spec.modulatable !== false) setNodeParam(node, spec.name, params[spec.name], now);
+    }
+  }
+}
+
+/**
+ * Pans a voice (-1 left … 1 right) at `time`, or now if omitted.
+ */
+export function setSynthPan(
+  manager: SynthManager,
+  planetId: string,
+  pan: number,
+  time?: number
+): void {
+  const instance = manager.instances.get(planetId);
+  if (!instance) return;
+  instance.panner.pan.setValueAtTime(Math.max(-1, Math.min(1, pan)), time ?? Tone.now());
+}
+
 /**
  * Returns true if the manager has reached its synth limit.
  */
@@ -222,8 +511,7 @@ export function getSynthCount(manager: SynthManager): number {
  */
 export function disposeAll(manager: SynthManager): void {
   for (const instance of manager.instances.values()) {
-    instance.synth.dispose();
-    instance.volume.dispose();
+    disposeInstance(instance);
   }
   manager.instances.clear();
 }
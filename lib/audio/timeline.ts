@@ -0,0 +1,166 @@
+import type { Star } from '@/types/celestial';
+import type { BpmGlide, TimelineEvent, TimelineUnit } from '@/types/audio';
+import { MODE_LABELS, transposeKey } from './scales';
+import { BEATS_PER_BAR } from './progression';
+import { setStarBpm, setStarKey } from '@/lib/entities/star';
+
+/**
+ * A system's timeline schedules changes to the star while it plays: a new
+ * key, a new mode and/or a new tempo, on a given bar of the star's beat or
+ * after a number of revolutions of the outermost planet — once, or again
+ * every so many bars or revolutions. A tempo change can glide to its BPM
+ * over a number of bars instead of jumping.
+ */
+
+/** Most events a timeline can have. */
+export const MAX_TIMELINE_EVENTS = 32;
+
+/** Furthest an event can shift the key, in semitones either way. */
+export const MAX_TRANSPOSE = 11;
+
+/** Longest a tempo glide can last, in bars. */
+export const MAX_GLIDE_BARS = 64;
+
+/** Every unit, in the order the timeline editor lists them. */
+export const TIMELINE_UNITS: TimelineUnit[] = ['bar', 'revolution'];
+
+/** Display name of each unit */
+export const TIMELINE_UNIT_LABELS: Record<TimelineUnit, string> = {
+  bar: 'On bar',
+  revolution: 'After revolutions of the outermost planet',
+};
+
+/**
+ * Creates a timeline event. Without overrides it fires once on bar 1 and
+ * changes nothing.
+ */
+export function createTimelineEvent(overrides: Partial<TimelineEvent> = {}): TimelineEvent {
+  return {
+    unit: 'bar',
+    at: 1,
+    every: null,
+    key: null,
+    transpose: 0,
+    mode: null,
+    bpm: null,
+    glideBars: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * Returns a copy of a timeline.
+ */
+export function cloneTimeline(timeline: TimelineEvent[]): TimelineEvent[] {
+  return timeline.map((event) => ({ ...event }));
+}
+
+/**
+ * Whether an event changes anything when it fires.
+ */
+export function timelineEventChanges(event: TimelineEvent): boolean {
+  return event.key !== null || event.transpose !== 0 || event.mode !== null || event.bpm !== null;
+}
+
+/**
+ * Whether an event fires on bar or revolution number `count`.
+ */
+export function timelineEventFiresOn(event: TimelineEvent, count: number): boolean {
+  if (count === event.at) return true;
+  return event.every !== null && count > event.at && (count - event.at) % event.every === 0;
+}
+
+/**
+ * Returns the beat bar `bar` (counted from 1) starts on.
+ */
+export function barStartBeat(bar: number): number {
+  return (bar - 1) * BEATS_PER_BAR;
+}
+
+/**
+ * Returns the bar events due as the star's beat moves from `fromBeat` to
+ * `toBeat`: those firing on a bar that starts in [fromBeat, toBeat), in bar
+ * order and then timeline order.
+ */
+export function dueBarEvents(timeline: TimelineEvent[], fromBeat: number, toBeat: number): TimelineEvent[] {
+  const due: TimelineEvent[] = [];
+  const firstBar = Math.ceil(fromBeat / BEATS_PER_BAR) + 1;
+  const lastBar = Math.ceil(toBeat / BEATS_PER_BAR);
+  for (let bar = firstBar; bar <= lastBar; bar++) {
+    for (const event of timeline) {
+      if (event.unit === 'bar' && timelineEventFiresOn(event, bar)) due.push(event);
+    }
+  }
+  return due;
+}
+
+/**
+ * Returns the revolution events due when the outermost planet completes
+ * revolution number `revolutions`, in timeline order.
+ */
+export function dueRevolutionEvents(timeline: TimelineEvent[], revolutions: number): TimelineEvent[] {
+  return timeline.filter((event) => event.unit === 'revolution' && timelineEventFiresOn(event, revolutions));
+}
+
+/**
+ * Returns the star after an event's key and mode change, and its tempo
+ * change when that doesn't glide (see `startBpmGlide`).
+ */
+export function applyTimelineEvent(star: Star, event: TimelineEvent): Star {
+  const key = transposeKey(event.key ?? star.key, event.transpose);
+  let next = setStarKey(star, key, event.mode ?? star.mode);
+  if (event.bpm !== null && event.glideBars <= 0) next = setStarBpm(next, event.bpm);
+  return next;
+}
+
+/**
+ * Returns the glide an event's tempo change starts from the star's current
+ * BPM and beat, or null if the event jumps or keeps the tempo.
+ */
+export function startBpmGlide(star: Star, event: TimelineEvent): BpmGlide | null {
+  if (event.bpm === null || event.glideBars <= 0) return null;
+  return { from: star.bpm, to: event.bpm, startBeat: star.beat, beats: event.glideBars * BEATS_PER_BAR };
+}
+
+/**
+ * Returns a glide's BPM at `beat`, holding at either end.
+ */
+export function glideBpm(glide: BpmGlide, beat: number): number {
+  const progress = Math.max(0, Math.min(1, (beat - glide.startBeat) / glide.beats));
+  return glide.from + (glide.to - glide.from) * progress;
+}
+
+/**
+ * Whether a glide has reached its BPM by `beat`.
+ */
+export function isGlideDone(glide: BpmGlide, beat: number): boolean {
+  return beat >= glide.startBeat + glide.beats;
+}
+
+/**
+ * Describes an event in a line, e.g. "Bar 32: key A, Aeolian" or
+ * "Every 8 revolutions from 8: up 2 semitones".
+ */
+export function describeTimelineEvent(event: TimelineEvent): string {
+  const noun = event.unit === 'bar' ? 'bar' : 'revolution';
+  const when =
+    event.every === null
+      ? event.unit === 'bar'
+        ? `Bar ${event.at}`
+        : `After ${event.at} revolution${event.at === 1 ? '' : 's'}`
+      : `Every ${event.every} ${noun}${event.every === 1 ? '' : 's'} from ${event.at}`;
+
+  const changes: string[] = [];
+  if (event.key !== null) changes.push(`key ${event.key}`);
+  if (event.transpose !== 0) {
+    const steps = Math.abs(event.transpose);
+    changes.push(`${event.transpose > 0 ? 'up' : 'down'} ${steps} semitone${steps === 1 ? '' : 's'}`);
+  }
+  if (event.mode !== null) changes.push(MODE_LABELS[event.mode]);
+  if (event.bpm !== null) {
+    const glide = event.glideBars > 0 ? ` over ${event.glideBars} bar${event.glideBars === 1 ? '' : 's'}` : '';
+    changes.push(`${event.bpm} BPM${glide}`);
+  }
+
+  return `${when}: ${changes.length > 0 ? changes.join(', ') : 'no change'}`;
+}
@@ -0,0 +1,288 @@
+import type { MusicalKey } from '@/types/celestial';
+import type { KeyboardMapping, ScalaScale, Tuning, TuningSystem } from '@/types/audio';
+import { KEY_SEMITONE, midiToFrequency, noteToMidi } from './scales';
+
+/**
+ * Tunings map the notes scale degrees resolve to (named in 12-tone equal
+ * temperament, e.g. "E4") onto frequencies. Without a keyboard mapping the
+ * tuning is rooted on the star's key: the tonic keeps its equal-tempered
+ * pitch and every other note takes the tuning's step nearest its interval
+ * above the tonic. A Scala `.kbm` keyboard mapping replaces that rooting
+ * with the mapping's own note-to-degree layout and reference frequency.
+ */
+
+/** Standard concert pitch for A4, in Hz. */
+export const DEFAULT_REFERENCE_FREQUENCY = 440;
+
+/** Lowest / highest A4 the star editor allows. */
+export const MIN_REFERENCE_FREQUENCY = 400;
+export const MAX_REFERENCE_FREQUENCY = 480;
+
+/** Most pitches a Scala scale can have. */
+export const MAX_SCALA_NOTES = 256;
+
+/** Every tuning system, in the order the star editor lists them. */
+export const TUNING_SYSTEMS: TuningSystem[] = ['equal', 'just', 'pythagorean', 'edo19', 'edo24', 'edo31', 'scala'];
+
+/** Display name of each tuning system */
+export const TUNING_LABELS: Record<TuningSystem, string> = {
+  equal: '12-TET (equal temperament)',
+  just: 'Just intonation (5-limit)',
+  pythagorean: 'Pythagorean',
+  edo19: '19-EDO',
+  edo24: '24-EDO (quarter tones)',
+  edo31: '31-EDO',
+  scala: 'Scala scale',
+};
+
+// Ratios above the tonic for each of the 12 chromatic steps
+const JUST_RATIOS = [1, 16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8];
+const PYTHAGOREAN_RATIOS = [
+  1, 256 / 243, 9 / 8, 32 / 27, 81 / 64, 4 / 3, 729 / 512, 3 / 2, 128 / 81, 27 / 16, 16 / 9, 243 / 128,
+];
+
+const EDO_SIZES: Partial<Record<TuningSystem, number>> = { edo19: 19, edo24: 24, edo31: 31 };
+
+/**
+ * Returns the standard tuning: 12-TET with A4 = 440 Hz.
+ */
+export function defaultTuning(): Tuning {
+  return {
+    system: 'equal',
+    referenceFrequency: DEFAULT_REFERENCE_FREQUENCY,
+    scale: null,
+    keyboardMapping: null,
+  };
+}
+
+/**
+ * Returns a deep copy of a tuning.
+ */
+export function cloneTuning(tuning: Tuning): Tuning {
+  return {
+    ...tuning,
+    scale: tuning.scale ? { ...tuning.scale, cents: [...tuning.scale.cents] } : null,
+    keyboardMapping: tuning.keyboardMapping
+      ? { ...tuning.keyboardMapping, mapping: [...tuning.keyboardMapping.mapping] }
+      : null,
+  };
+}
+
+/**
+ * Returns true if a tuning plays notes exactly as 12-TET at A4 = 440 Hz, so
+ * synths can be given note names.
+ */
+export function isStandardTuning(tuning: Tuning): boolean {
+  return (
+    tuning.system === 'equal' &&
+    tuning.referenceFrequency === DEFAULT_REFERENCE_FREQUENCY &&
+    tuning.keyboardMapping === null
+  );
+}
+
+/**
+ * Converts a frequency ratio to cents (1200 per octave).
+ */
+export function ratioToCents(ratio: number): number {
+  return 1200 * Math.log2(ratio);
+}
+
+/**
+ * Returns the pitches of a tuning's steps in cents above its tonic — the
+ * first is always 0 — and the period the steps repeat at.
+ */
+export function tuningSteps(tuning: Tuning): { steps: number[]; period: number } {
+  const edo = EDO_SIZES[tuning.system];
+  if (edo !== undefined) {
+    return { steps: Array.from({ length: edo }, (_, i) => (i * 1200) / edo), period: 1200 };
+  }
+  switch (tuning.system) {
+    case 'just':
+      return { steps: JUST_RATIOS.map(ratioToCents), period: 1200 };
+    case 'pythagorean':
+      return { steps: PYTHAGOREAN_RATIOS.map(ratioToCents), period: 1200 };
+    case 'scala':
+      if (tuning.scale) {
+        const { cents } = tuning.scale;
+        return { steps: [0, ...cents.slice(0, -1)], period: cents[cents.length - 1] };
+      }
+      break;
+  }
+  return { steps: Array.from({ length: 12 }, (_, i) => i * 100), period: 1200 };
+}
+
+// Cents above the tonic of a scale degree, counting on into later periods
+function degreeCents(degree: number, steps: number[], period: number): number {
+  const periods = Math.floor(degree / steps.length);
+  return periods * period + steps[degree - periods * steps.length];
+}
+
+// The scale degree a MIDI note plays under a keyboard mapping, or null if the
+// mapping leaves it silent
+function mappedDegree(midi: number, kbm: KeyboardMapping, scaleSize: number): number | null {
+  const offset = midi - kbm.middleNote;
+  if (kbm.size === 0) return offset;
+  const repeats = Math.floor(offset / kbm.size);
+  const entry = kbm.mapping[offset - repeats * kbm.size];
+  if (entry === null || entry === undefined) return null;
+  return repeats * (kbm.octaveDegree || scaleSize) + entry;
+}
+
+/**
+ * Returns the frequency a note plays at under a tuning, or null if the
+ * tuning's keyboard mapping leaves that note silent.
+ *
+ * @param note - Note name with octave in 12-TET terms, e.g. "E4"
+ * @param key - The star's key; the tonic keeps its 12-TET pitch (unless a keyboard mapping is set)
+ */
+export function tunedFrequency(note: string, key: MusicalKey, tuning: Tuning): number | null {
+  const midi = noteToMidi(note);
+  const { steps, period } = tuningSteps(tuning);
+
+  const kbm = tuning.keyboardMapping;
+  if (kbm) {
+    if (midi < kbm.firstNote || midi > kbm.lastNote) return null;
+    const degree = mappedDegree(midi, kbm, steps.length);
+    if (degree === null) return null;
+    // An unmapped reference note is anchored as if the mapping were linear
+    const refDegree = mappedDegree(kbm.referenceNote, kbm, steps.length) ?? kbm.referenceNote - kbm.middleNote;
+    const cents = degreeCents(degree, steps, period) - degreeCents(refDegree, steps, period);
+    return kbm.referenceFrequency * Math.pow(2, cents / 1200);
+  }
+
+  const tonic = 60 + KEY_SEMITONE[key];
+  const octaves = Math.floor((midi - tonic) / 12);
+  const semitones = midi - tonic - octaves * 12;
+
+  // Twelve-step tunings retune each chromatic step; others use the step
+  // nearest the equal-tempered interval (the period stands in for the octave)
+  let cents: number;
+  if (steps.length === 12) {
+    cents = steps[semitones];
+  } else {
+    const target = semitones * 100;
+    cents = [...steps, period].reduce((best, c) => (Math.abs(c - target) < Math.abs(best - target) ? c : best));
+  }
+
+  const tonicFrequency = midiToFrequency(tonic, tuning.referenceFrequency);
+  return tonicFrequency * Math.pow(2, (octaves * period + cents) / 1200);
+}
+
+// ─── Scala files ───────────────────────────────────────────────────────────────
+
+/** `accept` attributes for Scala file inputs. */
+export const SCALA_SCALE_ACCEPT = '.scl';
+export const SCALA_MAPPING_ACCEPT = '.kbm';
+
+// Non-comment lines with their 1-based line numbers, for error messages
+function scalaLines(text: string): { line: number; text: string }[] {
+  return text
+    .split(/\r?\n/)
+    .map((t, i) => ({ line: i + 1, text: t }))
+    .filter(({ text: t }) => !t.startsWith('!'));
+}
+
+// A pitch line: cents if it has a decimal point, otherwise a ratio or integer
+function parsePitch(token: string): number | null {
+  if (token.includes('.')) {
+    const cents = Number(token);
+    return Number.isFinite(cents) ? cents : null;
+  }
+  const match = token.match(/^(\d+)(?:\/(\d+))?$/);
+  if (!match) return null;
+  const ratio = parseInt(match[1], 10) / (match[2] ? parseInt(match[2], 10) : 1);
+  return ratio > 0 && Number.isFinite(ratio) ? ratioToCents(ratio) : null;
+}
+
+/**
+ * Parses the text of a Scala `.scl` file.
+ *
+ * @param name - File name, kept for display
+ * @throws If the file is malformed, or its pitches don't ascend from above the tonic
+ */
+export function parseScalaScale(text: string, name: string): ScalaScale {
+  const lines = scalaLines(text);
+  if (lines.length < 2) throw new Error(`${name} is not a Scala scale: missing the note count`);
+
+  const description = lines[0].text.trim();
+  const countLine = lines[1];
+  const count = Number(countLine.text.trim().split(/\s+/)[0]);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_SCALA_NOTES) {
+    throw new Error(`${name} line ${countLine.line}: note count must be a whole number from 1 to ${MAX_SCALA_NOTES}`);
+  }
+
+  const pitchLines = lines.slice(2).filter(({ text: t }) => t.trim().length > 0);
+  if (pitchLines.length < count) {
+    throw new Error(`${name}: expected ${count} pitches, found ${pitchLines.length}`);
+  }
+
+  const cents = pitchLines.slice(0, count).map(({ line, text: t }) => {
+    const token = t.trim().split(/\s+/)[0];
+    const pitch = parsePitch(token);
+    if (pitch === null) {
+      throw new Error(`${name} line ${line}: "${token}" is not a pitch (cents like 701.955 or a ratio like 3/2)`);
+    }
+    if (pitch <= 0) throw new Error(`${name} line ${line}: pitches must be above the tonic`);
+    return pitch;
+  });
+  for (let i = 1; i < cents.length; i++) {
+    if (cents[i] <= cents[i - 1]) throw new Error(`${name} line ${pitchLines[i].line}: pitches must ascend`);
+  }
+
+  return { name, description, cents };
+}
+
+/**
+ * Parses the text of a Scala `.kbm` keyboard mapping file.
+ *
+ * @param name - File name, kept for display
+ * @throws If the file is malformed
+ */
+export function parseKeyboardMapping(text: string, name: string): KeyboardMapping {
+  const lines = scalaLines(text).filter(({ text: t }) => t.trim().length > 0);
+  const fields = ['map size', 'first note', 'last note', 'middle note', 'reference note', 'reference frequency', 'octave degree'];
+  if (lines.length < fields.length) {
+    throw new Error(`${name} is not a keyboard mapping: expected ${fields.length} header values`);
+  }
+
+  const header = lines.slice(0, fields.length).map(({ line, text: t }, i) => {
+    const value = Number(t.trim().split(/\s+/)[0]);
+    const isFrequency = i === 5;
+    const ok = isFrequency ? Number.isFinite(value) && value > 0 : Number.isInteger(value) && value >= 0;
+    if (!ok) {
+      const expected = isFrequency ? 'a frequency above 0' : 'a whole number';
+      throw new Error(`${name} line ${line}: ${fields[i]} must be ${expected}`);
+    }
+    return value;
+  });
+  const [size, firstNote, lastNote, middleNote, referenceNote, referenceFrequency, octaveDegree] = header;
+  if (firstNote > lastNote) throw new Error(`${name}: first note is above last note`);
+
+  const mapping = Array.from({ length: size }, (_, i): number | null => {
+    const entry = lines[fields.length + i];
+    if (!entry) return null;
+    const token = entry.text.trim().split(/\s+/)[0];
+    if (token.toLowerCase() === 'x') return null;
+    const degree = Number(token);
+    if (!Number.isInteger(degree) || degree < 0) {
+      throw new Error(`${name} line ${entry.line}: mapping entries must be scale degrees or x`);
+    }
+    return degree;
+  });
+
+  return { name, size, firstNote, lastNote, middleNote, referenceNote, referenceFrequency, octaveDegree, mapping };
+}
+
+/**
+ * Reads a text file (a Scala scale or mapping) into a string.
+ *
+ * @throws (rejects) If the file can't be read
+ */
+export function readTextFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsText(file);
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * Bit depths the WAV encoder can write (signed integer PCM).
+ */
+export const WAV_BIT_DEPTHS = [16, 24] as const;
+
+export type WavBitDepth = (typeof WAV_BIT_DEPTHS)[number];
+
+export const WAV_MIME_TYPE = 'audio/wav';
+
+/** Size of the RIFF/WAVE header written before the sample data. */
+const WAV_HEADER_BYTES = 44;
+
+function writeAscii(view: DataView, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+/**
+ * Encodes floating-point audio as a PCM WAV file.
+ *
+ * Samples are clipped to [-1, 1], scaled to signed integers and interleaved
+ * channel by channel, little-endian. All channels must be the same length.
+ *
+ * @param channels - One Float32Array per channel (1 = mono, 2 = stereo)
+ * @param sampleRate - Samples per second, e.g. 44100
+ * @param bitDepth - 16 or 24 bits per sample
+ * @returns The complete file, header included
+ * @throws If there are no channels or the channel lengths differ
+ */
+export function encodeWav(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitDepth: WavBitDepth = 16
+): ArrayBuffer {
+  if (channels.length === 0) {
+    throw new Error('encodeWav needs at least one channel');
+  }
+  const frames = channels[0].length;
+  if (channels.some((c) => c.length !== frames)) {
+    throw new Error('encodeWav channels must all be the same length');
+  }
+
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channels.length * bytesPerSample;
+  const dataBytes = frames * blockAlign;
+
+  const buffer = new ArrayBuffer(WAV_HEADER_BYTES + dataBytes);
+  const view = new DataView(buffer);
+
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeAscii(view, 8, 'WAVE');
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true); // byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeAscii(view, 36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  const maxValue = 2 ** (bitDepth - 1) - 1;
+  let offset = WAV_HEADER_BYTES;
+
+  for (let frame = 0; frame < frames; frame++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[frame]));
+      const value = Math.round(sample * maxValue);
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+}
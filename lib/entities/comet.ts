@@ -0,0 +1,309 @@
+import Matter from 'matter-js';
+import type { Comet, Planet, Star, NoteDuration, Vector2D, ScaleDegree } from '@/types/celestial';
+import { createCelestialBody } from '@/lib/physics/collisions';
+import { circularOrbitVelocity, distance, isGravitationallyBound, scale } from '@/utils/physics';
+import { cometRadiusFromMass, planetRadiusFromMass } from '@/lib/rendering/renderer';
+import { scaleDegreeToNote } from '@/lib/audio/scales';
+import { activeChord } from '@/lib/audio/progression';
+import { clampVolume } from '@/utils/audio';
+import type { SynthType } from '@/lib/audio/synthManager';
+import type { CreateSatelliteOptions } from '@/lib/entities/satellite';
+import type { WorldBounds } from '@/types/ui';
+
+export const COMET_DEFAULT_MASS = 10;
+export const COMET_MIN_MASS = 1;
+export const COMET_MAX_MASS = 50;
+export const COMET_DEFAULT_NOTE: ScaleDegree = 'I5';
+export const COMET_DEFAULT_SYNTH_TYPE: SynthType = 'FMSynth';
+export const COMET_DEFAULT_TRIGGER_RADIUS = 40;
+/** How long each one-shot comet note is held. */
+export const COMET_NOTE_DURATION: NoteDuration = 'half';
+export const MAX_COMETS = 10;
+/** How far outside the viewport (world units) an escaping comet may fly before it is culled. */
+export const COMET_CULL_MARGIN = 200;
+
+/**
+ * Initial speed as a multiple of the circular orbit speed at the placement point.
+ *   < 1      → eccentric orbit that falls inward (placement point is aphelion)
+ *   1        → circular orbit
+ *   1 – √2   → eccentric orbit that swings outward (placement point is perihelion)
+ *   ≥ √2     → hyperbolic / escape trajectory (passes once and leaves)
+ */
+export const COMET_DEFAULT_SPEED_FACTOR = 1.3;
+export const ESCAPE_SPEED_FACTOR = Math.SQRT2;
+
+/** Fewest / most satellites a comet breaks into when it hits a planet. */
+export const SHATTER_MIN_FRAGMENTS = 2;
+export const SHATTER_MAX_FRAGMENTS = 5;
+/** Gap between the planet surface and the innermost fragment orbit, in world units. */
+const SHATTER_BASE_GAP = 10;
+/** Extra orbit radius per unit of impact speed (world units per px/step). */
+const SHATTER_RADIUS_PER_SPEED = 4;
+/** Radial spacing between successive fragment orbits. */
+const SHATTER_FRAGMENT_SPACING = 6;
+const SHATTER_MAX_ORBIT_RADIUS = 150;
+
+/** Duration of the percussive hit played on the planet's synth on impact. */
+export const IMPACT_NOTE_DURATION: NoteDuration = 'sixteenth';
+/** Impact speed (px/step) at which the hit plays at full volume. */
+const IMPACT_FULL_VOLUME_SPEED = 10;
+
+let nextCometId = 1;
+
+export interface CreateCometOptions {
+  x: number;
+  y: number;
+  mass?: number;
+  note?: ScaleDegree;
+  synthType?: SynthType;
+  triggerRadius?: number;
+  /** Multiple of circular orbit speed (see COMET_DEFAULT_SPEED_FACTOR). */
+  speedFactor?: number;
+  /** If provided, initial velocity is set tangentially relative to this star. */
+  star?: Star;
+  gravityStrength?: number;
+  clockwise?: boolean;
+  /** Explicit initial velocity (px/step); overrides the star-relative launch. */
+  velocity?: Vector2D;
+}
+
+/**
+ * Creates a Comet entity with a dynamic Matter.js physics body.
+ *
+ * The initial velocity is tangential to the star, scaled from circular orbit
+ * speed by `speedFactor`, so the comet follows an eccentric ellipse or — at or
+ * above ESCAPE_SPEED_FACTOR — a hyperbolic fly-by. An explicit `velocity`
+ * (e.g. from captured space dust) is used as-is instead.
+ */
+export function createComet(options: CreateCometOptions): Comet {
+  const {
+    x,
+    y,
+    mass = COMET_DEFAULT_MASS,
+    note = COMET_DEFAULT_NOTE,
+    synthType = COMET_DEFAULT_SYNTH_TYPE,
+    triggerRadius = COMET_DEFAULT_TRIGGER_RADIUS,
+    speedFactor = COMET_DEFAULT_SPEED_FACTOR,
+    star,
+    gravityStrength = 1,
+    clockwise = true,
+    velocity,
+  } = options;
+
+  const physicsBody = createCelestialBody(x, y, cometRadiusFromMass(mass), mass);
+
+  if (velocity) {
+    Matter.Body.setVelocity(physicsBody, velocity);
+  } else if (star?.physicsBody) {
+    const circular = circularOrbitVelocity(
+      star.position,
+      { x, y },
+      star.mass,
+      gravityStrength,
+      clockwise
+    );
+    Matter.Body.setVelocity(physicsBody, scale(circular, speedFactor));
+  }
+
+  return {
+    id: `comet-${nextCometId++}`,
+    type: 'comet',
+    position: { x, y },
+    velocity: { x: physicsBody.velocity.x, y: physicsBody.velocity.y },
+    mass,
+    note,
+    synthType,
+    triggerRadius,
+    nearbyBodyIds: [],
+    physicsBody,
+  };
+}
+
+/**
+ * A body a comet can make a close approach to (the star or a planet).
+ */
+export interface CometApproachTarget {
+  id: string;
+  position: Vector2D;
+  /** Visual/collision radius of the target in world units */
+  radius: number;
+}
+
+export interface CometUpdateResult {
+  comet: Comet;
+  /** True if the comet entered the trigger radius of at least one body this tick. */
+  triggered: boolean;
+  /** IDs of bodies whose trigger radius the comet entered this tick. */
+  approachedBodyIds: string[];
+}
+
+/**
+ * Updates a comet for one simulation tick.
+ *
+ * - Syncs position and velocity from the physics body
+ * - Detects bodies whose trigger radius the comet has just entered
+ *
+ * A body only triggers on entry: while the comet stays inside its radius the
+ * body is remembered in `nearbyBodyIds`, and it can trigger again only after
+ * the comet has left and come back.
+ *
+ * @param comet - Current comet state
+ * @param targets - The star and planets the comet can approach
+ */
+export function updateComet(
+  comet: Comet,
+  targets: CometApproachTarget[]
+): CometUpdateResult {
+  const body = comet.physicsBody;
+  const position = body ? { x: body.position.x, y: body.position.y } : comet.position;
+  const velocity = body ? { x: body.velocity.x, y: body.velocity.y } : comet.velocity;
+
+  const inRange = targets
+    .filter((t) => distance(position, t.position) <= t.radius + comet.triggerRadius)
+    .map((t) => t.id);
+
+  const approachedBodyIds = inRange.filter((id) => !comet.nearbyBodyIds.includes(id));
+
+  return {
+    comet: { ...comet, position, velocity, nearbyBodyIds: inRange },
+    triggered: approachedBodyIds.length > 0,
+    approachedBodyIds,
+  };
+}
+
+/**
+ * Resolves the comet's scale degree to a note name in the star's key and
+ * mode, following its current progression chord.
+ * Returns null if the degree is invalid or not in the star's scale.
+ */
+export function getCometNote(comet: Comet, star: Star): string | null {
+  try {
+    return scaleDegreeToNote(comet.note, star.key, star.mode, activeChord(star));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the volume (0.01–1.0) a comet plays at, scaled by its size.
+ * The largest allowed comet plays at full volume.
+ */
+export function cometVolume(mass: number): number {
+  return clampVolume(mass / COMET_MAX_MASS);
+}
+
+/**
+ * Returns how many satellites a comet of the given mass shatters into.
+ */
+export function cometFragmentCount(mass: number): number {
+  return Math.min(
+    SHATTER_MAX_FRAGMENTS,
+    Math.max(SHATTER_MIN_FRAGMENTS, Math.round(Math.cbrt(mass)))
+  );
+}
+
+/**
+ * Works out the satellites a comet becomes when it hits a planet.
+ *
+ * Fragments are spread evenly around the planet starting from the impact
+ * side. Faster impacts throw debris into wider orbits; successive fragments
+ * sit a little further out so they don't overlap.
+ *
+ * @param comet - The comet that hit the planet
+ * @param planet - The planet it hit (becomes the fragments' parent)
+ * @param impactSpeed - Relative speed of the two bodies at impact (px/step)
+ * @param maxFragments - Cap on fragments, e.g. the remaining satellite budget
+ * @returns Options for `addSatellite`, one per fragment (may be empty)
+ */
+export function shatterComet(
+  comet: Comet,
+  planet: Planet,
+  impactSpeed: number,
+  maxFragments: number = SHATTER_MAX_FRAGMENTS
+): Omit<CreateSatelliteOptions, 'parentPosition'>[] {
+  const count = Math.max(0, Math.min(cometFragmentCount(comet.mass), maxFragments));
+  const impactAngle = Math.atan2(
+    comet.position.y - planet.position.y,
+    comet.position.x - planet.position.x
+  );
+  const innerRadius =
+    planetRadiusFromMass(planet.mass) + SHATTER_BASE_GAP + impactSpeed * SHATTER_RADIUS_PER_SPEED;
+
+  return Array.from({ length: count }, (_, i) => ({
+    parentPlanetId: planet.id,
+    orbitRadius: Math.min(SHATTER_MAX_ORBIT_RADIUS, innerRadius + i * SHATTER_FRAGMENT_SPACING),
+    startAngle: impactAngle + (i * 2 * Math.PI) / count,
+  }));
+}
+
+/**
+ * Returns the volume (0.01–1.0) of the percussive hit for an impact speed.
+ */
+export function impactVolume(impactSpeed: number): number {
+  return clampVolume(impactSpeed / IMPACT_FULL_VOLUME_SPEED);
+}
+
+/**
+ * Describes the trajectory a given speed factor produces, for UI labels.
+ */
+export function cometTrajectoryLabel(speedFactor: number): 'Eccentric' | 'Circular' | 'Hyperbolic' {
+  if (speedFactor >= ESCAPE_SPEED_FACTOR) return 'Hyperbolic';
+  if (Math.abs(speedFactor - 1) < 0.05) return 'Circular';
+  return 'Eccentric';
+}
+
+/**
+ * Returns true if a comet should be culled: it is no longer bound to the star
+ * (its speed is at or above escape speed, so it will not come back) and it
+ * has flown more than `margin` outside `bounds`. Without a star nothing
+ * holds a comet, so only the bounds count.
+ */
+export function shouldCullComet(
+  comet: Comet,
+  star: Star | null,
+  bounds: WorldBounds,
+  margin: number = COMET_CULL_MARGIN,
+  gravityStrength: number = 1
+): boolean {
+  const { x, y } = comet.position;
+  const outside =
+    x < bounds.minX - margin || x > bounds.maxX + margin || y < bounds.minY - margin || y > bounds.maxY + margin;
+  if (!outside) return false;
+  if (!star) return true;
+  return !isGravitationallyBound(comet.position, comet.velocity, star.position, { x: 0, y: 0 }, star.mass, gravityStrength);
+}
+
+/**
+ * Rebuilds a Comet from its serialized form, creating a fresh physics body
+ * at the saved position with the saved velocity. The ID counter is advanced
+ * past the restored ID.
+ */
+export function restoreComet(saved: Omit<Comet, 'physicsBody'>): Comet {
+  const physicsBody = createCelestialBody(
+    saved.position.x,
+    saved.position.y,
+    cometRadiusFromMass(saved.mass),
+    saved.mass
+  );
+  Matter.Body.setVelocity(physicsBody, saved.velocity);
+
+  const match = saved.id.match(/-(\d+)$/);
+  if (match) {
+    nextCometId = Math.max(nextCometId, parseInt(match[1], 10) + 1);
+  }
+
+  return {
+    ...saved,
+    position: { ...saved.position },
+    velocity: { ...saved.velocity },
+    nearbyBodyIds: [...saved.nearbyBodyIds],
+    physicsBody,
+  };
+}
+
+/**
+ * Resets the comet ID counter (for testing).
+ */
+export function resetCometIdCounter(): void {
+  nextCometId = 1;
+}
@@ -0,0 +1,213 @@
+import Matter from 'matter-js';
+import type { DustParticle, MusicalMode, Planet, Star, Vector2D } from '@/types/celestial';
+import { createCelestialBody } from '@/lib/physics/collisions';
+import { distance, isGravitationallyBound, orbitalAngle } from '@/utils/physics';
+import { planetRadiusFromMass } from '@/lib/rendering/renderer';
+import { randomNoteSequence } from '@/lib/audio/scales';
+import { OSCILLATOR_SYNTH_TYPES } from '@/lib/audio/synthManager';
+import { pickRandom } from '@/utils/random';
+import type { Rng } from '@/utils/random';
+import type { WorldBounds } from '@/types/ui';
+import type { CreateSatelliteOptions } from '@/lib/entities/satellite';
+
+/** Particles injected by one press of the Dust button. */
+export const DUST_BURST_SIZE = 24;
+/** Most dust particles alive at once; bursts beyond this are trimmed. */
+export const MAX_DUST = 120;
+export const DUST_MIN_MASS = 0.5;
+export const DUST_MAX_MASS = 2;
+export const DUST_VISUAL_RADIUS = 1.5;
+/** Radius of the disc the burst is scattered over, in world units. */
+const DUST_SPREAD = 30;
+/** Fastest initial particle speed (px/step). Directions are uniform. */
+const DUST_MAX_SPEED = 12;
+
+/**
+ * Dust is only tested for capture by the star after drifting this long, so a
+ * burst reads as a spray rather than turning straight into comets.
+ * Planet captures are immediate.
+ */
+export const DUST_SETTLE_MS = 1500;
+/** Dust that is neither captured nor culled is removed after this long. */
+export const DUST_MAX_AGE_MS = 30_000;
+/** How far outside the viewport (world units) dust may drift before it is culled. */
+export const DUST_CULL_MARGIN = 200;
+/** A planet can capture dust within this multiple of its radius. */
+const PLANET_CAPTURE_RADIUS_FACTOR = 6;
+
+/**
+ * Matter.js collision group shared by all dust. A negative group means dust
+ * never collides with other dust, only with planets, comets and the star.
+ */
+const DUST_COLLISION_GROUP = -1;
+
+let nextDustId = 1;
+
+export interface CreateDustBurstOptions {
+  /** World-space point the burst sprays out from */
+  center: Vector2D;
+  count?: number;
+  /** Random source; pass a seeded one for a reproducible burst */
+  rng?: Rng;
+  /** The star's mode, so particles only roll degrees its scale has */
+  mode?: MusicalMode;
+}
+
+/**
+ * Creates a burst of dust particles scattered around `center`, each with a
+ * random velocity vector and dynamic physics body. Every particle also rolls
+ * the note and synth it will use if it is later captured as a comet.
+ */
+export function createDustBurst(options: CreateDustBurstOptions): DustParticle[] {
+  const { center, count = DUST_BURST_SIZE, rng = Math.random, mode } = options;
+
+  return Array.from({ length: count }, () => {
+    const offsetAngle = rng() * 2 * Math.PI;
+    const offset = Math.sqrt(rng()) * DUST_SPREAD;
+    const position = {
+      x: center.x + Math.cos(offsetAngle) * offset,
+      y: center.y + Math.sin(offsetAngle) * offset,
+    };
+
+    const heading = rng() * 2 * Math.PI;
+    const speed = rng() * DUST_MAX_SPEED;
+    const velocity = { x: Math.cos(heading) * speed, y: Math.sin(heading) * speed };
+
+    const mass = DUST_MIN_MASS + rng() * (DUST_MAX_MASS - DUST_MIN_MASS);
+    const physicsBody = createCelestialBody(position.x, position.y, DUST_VISUAL_RADIUS, mass);
+    physicsBody.collisionFilter.group = DUST_COLLISION_GROUP;
+    Matter.Body.setVelocity(physicsBody, velocity);
+
+    return {
+      id: `dust-${nextDustId++}`,
+      type: 'dust',
+      position,
+      velocity,
+      mass,
+      ageMs: 0,
+      note: randomNoteSequence(rng, { minLength: 1, maxLength: 1, minOctave: 4, maxOctave: 5, mode })[0],
+      synthType: pickRandom(rng, OSCILLATOR_SYNTH_TYPES),
+      physicsBody,
+    };
+  });
+}
+
+/**
+ * Syncs a dust particle's position and velocity from its physics body and
+ * advances its age.
+ */
+export function updateDust(particle: DustParticle, deltaMs: number): DustParticle {
+  const body = particle.physicsBody;
+  return {
+    ...particle,
+    position: body ? { x: body.position.x, y: body.position.y } : particle.position,
+    velocity: body ? { x: body.velocity.x, y: body.velocity.y } : particle.velocity,
+    ageMs: particle.ageMs + deltaMs,
+  };
+}
+
+/**
+ * What a dust particle should turn into this tick:
+ * - `planet`: satellite options for the planet it is bound to
+ * - `star`: it is bound to the star and should become a comet
+ * - `null`: still free
+ */
+export type DustCapture =
+  | { kind: 'planet'; satellite: Omit<CreateSatelliteOptions, 'parentPosition'> }
+  | { kind: 'star' }
+  | null;
+
+/**
+ * Runs the capture test for one dust particle.
+ *
+ * A particle is captured by a planet when it is inside the planet's capture
+ * radius and moving slower than the planet's escape speed relative to it; it
+ * then orbits at its current distance and angle. Planets are tested first
+ * (nearest first) because a planet-bound particle is also bound to the star.
+ * Otherwise, once settled, a particle bound to the star is captured by it.
+ *
+ * @param particle - Dust particle, already updated this tick
+ * @param star - The star (null means only planets can capture)
+ * @param planets - Candidate parent planets
+ * @param gravityStrength - Global gravity multiplier
+ */
+export function findDustCapture(
+  particle: DustParticle,
+  star: Star | null,
+  planets: Planet[],
+  gravityStrength: number = 1
+): DustCapture {
+  const nearestFirst = [...planets].sort(
+    (a, b) => distance(particle.position, a.position) - distance(particle.position, b.position)
+  );
+
+  for (const planet of nearestFirst) {
+    const r = distance(particle.position, planet.position);
+    const radius = planetRadiusFromMass(planet.mass);
+    if (r <= radius || r > radius * PLANET_CAPTURE_RADIUS_FACTOR) continue;
+
+    const planetVelocity = planet.physicsBody?.velocity ?? planet.velocity;
+    if (
+      isGravitationallyBound(
+        particle.position,
+        particle.velocity,
+        planet.position,
+        planetVelocity,
+        planet.mass,
+        gravityStrength
+      )
+    ) {
+      return {
+        kind: 'planet',
+        satellite: {
+          parentPlanetId: planet.id,
+          orbitRadius: r,
+          startAngle: orbitalAngle(planet.position, particle.position),
+        },
+      };
+    }
+  }
+
+  if (
+    star &&
+    particle.ageMs >= DUST_SETTLE_MS &&
+    isGravitationallyBound(
+      particle.position,
+      particle.velocity,
+      star.position,
+      { x: 0, y: 0 },
+      star.mass,
+      gravityStrength
+    )
+  ) {
+    return { kind: 'star' };
+  }
+
+  return null;
+}
+
+/**
+ * Returns true if a dust particle should be culled: it has drifted more than
+ * `margin` outside `bounds`, or has outlived DUST_MAX_AGE_MS.
+ */
+export function shouldCullDust(
+  particle: DustParticle,
+  bounds: WorldBounds,
+  margin: number = DUST_CULL_MARGIN
+): boolean {
+  const { x, y } = particle.position;
+  return (
+    particle.ageMs > DUST_MAX_AGE_MS ||
+    x < bounds.minX - margin ||
+    x > bounds.maxX + margin ||
+    y < bounds.minY - margin ||
+    y > bounds.maxY + margin
+  );
+}
+
+/**
+ * Resets the dust ID counter (for testing).
+ */
+export function resetDustIdCounter(): void {
+  nextDustId = 1;
+}
@@ -1,11 +1,16 @@
 import Matter from 'matter-js';
-import type { Planet, Star, NoteDuration } from '@/types/celestial';
+import type { MusicalMode, Planet, Star, NoteDuration } from '@/types/celestial';
+import type { EffectSettings, ModulationRoute, PlanetSample, SynthPatch } from '@/types/audio';
 import { createCelestialBody } from '@/lib/physics/collisions';
 import { circularOrbitVelocity, orbitalAngle } from '@/utils/physics';
 import { planetRadiusFromMass } from '@/lib/rendering/renderer';
-import { parseNoteSequence, scaleDegreeToNote } from '@/lib/audio/scales';
+import { parseNoteSequence, stepNotes } from '@/lib/audio/noteSequence';
+import type { PlayedNote } from '@/lib/audio/noteSequence';
+import { activeChord } from '@/lib/audio/progression';
 import { noteDurationToSeconds } from '@/utils/audio';
 import type { SynthType } from '@/lib/audio/synthManager';
+import { clonePatch, defaultSynthPatch } from '@/lib/audio/patches';
+import { cloneSamples } from '@/lib/audio/samples';
 
 export const PLANET_DEFAULT_NOTE_SEQUENCE = 'I4 III4 V4 VII4';
 export const PLANET_DEFAULT_ROTATION_SPEED: NoteDuration = 'quarter';
@@ -20,8 +25,14 @@ export interface CreatePlanetOptions {
   y: number;
   mass?: number;
   rotationSpeed?: NoteDuration;
-  noteSequence?: string; // space-separated scale degrees e.g. "I4 V3 VI4"
+  noteSequence?: string; // in the note sequence language, e.g. "I4 V3 [I4 III4] (VI4 -)x2"
   synthType?: SynthType;
+  /** Voice settings; the synth type's defaults if omitted */
+  patch?: SynthPatch;
+  /** Audio for the Sampler synth type */
+  samples?: PlanetSample[];
+  effects?: EffectSettings[];
+  modulations?: ModulationRoute[];
   /** If provided, initial velocity is auto-calculated for a circular orbit. */
   star?: Star;
   gravityStrength?: number;
@@ -31,6 +42,9 @@ export interface CreatePlanetOptions {
 /**
  * Creates a Planet entity with a dynamic Matter.js physics body.
  * If a star is provided, initial velocity is set for a stable circular orbit.
+ * Degrees outside the star's scale are kept and rest when played.
+ *
+ * @throws If the note sequence has errors
  */
 export function createPlanet(options: CreatePlanetOptions): Planet {
   const {
@@ -40,6 +54,10 @@ export function createPlanet(options: CreatePlanetOptions): Planet {
     rotationSpeed = PLANET_DEFAULT_ROTATION_SPEED,
     noteSequence = PLANET_DEFAULT_NOTE_SEQUENCE,
     synthType = PLANET_DEFAULT_SYNTH_TYPE,
+    patch,
+    samples = [],
+    effects = [],
+    modulations = [],
     star,
     gravityStrength = 1,
     clockwise = true,
@@ -74,18 +92,38 @@ export function createPlanet(options: CreatePlanetOptions): Planet {
     noteSequence: parseNoteSequence(noteSequence),
     currentNoteIndex: 0,
     synthType,
+    patch: patch ? clonePatch(patch) : defaultSynthPatch(synthType),
+    samples: cloneSamples(samples),
     orbitRadius: Math.sqrt((x - starPos.x) ** 2 + (y - starPos.y) ** 2),
     orbitAngle: initialOrbitAngle,
+    effects: cloneEffects(effects),
+    modulations: cloneModulations(modulations),
     physicsBody,
   };
 }
 
+/**
+ * Deep-copies an effects chain so planets never share settings objects.
+ */
+export function cloneEffects(effects: EffectSettings[]): EffectSettings[] {
+  return effects.map((e) => ({ ...e, params: { ...e.params } }));
+}
+
+/**
+ * Deep-copies a modulation matrix so planets never share route objects.
+ */
+export function cloneModulations(routes: ModulationRoute[]): ModulationRoute[] {
+  return routes.map((r) => ({ ...r, target: { ...r.target } }));
+}
+
 export interface PlanetUpdateResult {
   planet: Planet;
   /** True if the planet completed a revolution this tick and advanced its note. */
   noteAdvanced: boolean;
-  /** The note name to play this tick (if noteAdvanced). */
-  newNote: string | null;
+  /** The notes to play this tick (if noteAdvanced); empty for a rest. */
+  newNotes: PlayedNote[];
+  /** How far through the tick (0–1) the revolution completed, for sub-frame note timing. 0 if none. */
+  crossingFraction: number;
 }
 
 /**
@@ -107,7 +145,7 @@ export function updatePlanet(
   deltaMs: number
 ): PlanetUpdateResult {
   if (!planet.physicsBody) {
-    return { planet, noteAdvanced: false, newNote: null };
+    return { planet, noteAdvanced: false, newNotes: [], crossingFraction: 0 };
   }
 
   const body = planet.physicsBody;
@@ -132,22 +170,18 @@ export function updatePlanet(
   // going in the clockwise direction (y increases downward in screen coords).
   const crossed = didCrossZero(prevOrbitAngle, currentOrbitAngle);
 
+  const crossingFraction = crossed ? zeroCrossingFraction(prevOrbitAngle, currentOrbitAngle) : 0;
+
   let noteAdvanced = false;
-  let newNote: string | null = null;
+  let newNotes: PlayedNote[] = [];
   let newNoteIndex = planet.currentNoteIndex;
 
   if (crossed && planet.noteSequence.length > 0) {
     newNoteIndex = (planet.currentNoteIndex + 1) % planet.noteSequence.length;
     noteAdvanced = true;
-    try {
-      newNote = scaleDegreeToNote(
-        planet.noteSequence[newNoteIndex],
-        star.key,
-        star.mode
-      );
-    } catch {
-      newNote = null;
-    }
+    // The chord at the moment of crossing, which may already be the next one
+    const chord = activeChord(star, crossingFraction * deltaMs);
+    newNotes = stepNotes(planet.noteSequence[newNoteIndex], star.key, star.mode, chord);
   }
 
   const updatedPlanet: Planet = {
@@ -159,23 +193,47 @@ export function updatePlanet(
     currentNoteIndex: newNoteIndex,
   };
 
-  return { planet: updatedPlanet, noteAdvanced, newNote };
+  return {
+    planet: updatedPlanet,
+    noteAdvanced,
+    newNotes,
+    crossingFraction,
+  };
+}
+
+/**
+ * Snaps a planet's rotation forward to the next bar boundary (4/4 at the
+ * star's BPM), i.e. the next rotation at which a whole number of bars has
+ * elapsed. Because every planet rotates once per its note duration, syncing
+ * all planets this way puts them back in phase on a shared downbeat.
+ */
+export function syncPlanetRotation(planet: Planet, star: Star): Planet {
+  const noteDurSec = noteDurationToSeconds(planet.rotationSpeed, star.bpm);
+  const barSec = noteDurationToSeconds('whole', star.bpm);
+  if (noteDurSec <= 0 || barSec <= 0) return planet;
+
+  const rotationPerBar = (barSec / noteDurSec) * Math.PI * 2;
+  const bars = Math.ceil(planet.rotation / rotationPerBar);
+  return { ...planet, rotation: bars * rotationPerBar };
+}
+
+/**
+ * Returns the notes of the planet's current step — empty for a rest,
+ * several for a chord — following the star's current progression chord.
+ * A degree the star's scale doesn't have rests, which a sequence can hold
+ * after the star moves to a shorter scale.
+ */
+export function getCurrentNotes(planet: Planet, star: Star): PlayedNote[] {
+  if (planet.noteSequence.length === 0) return [];
+  return stepNotes(planet.noteSequence[planet.currentNoteIndex], star.key, star.mode, activeChord(star));
 }
 
 /**
- * Returns the note name the planet is currently playing.
+ * Returns the note name the planet is currently playing — the first note of
+ * a chord — or null for a rest.
  */
 export function getCurrentNote(planet: Planet, star: Star): string | null {
-  if (planet.noteSequence.length === 0) return null;
-  try {
-    return scaleDegreeToNote(
-      planet.noteSequence[planet.currentNoteIndex],
-      star.key,
-      star.mode
-    );
-  } catch {
-    return null;
-  }
+  return getCurrentNotes(planet, star)[0]?.note ?? null;
 }
 
 /**
@@ -205,11 +263,27 @@ export function didCrossZero(prevAngle: number, currentAngle: number): boolean {
   return false;
 }
 
+/**
+ * Returns how far (0–1) from `prevAngle` to `currentAngle` the zero line was
+ * crossed, assuming the angle moved linearly over the tick. Use after
+ * `didCrossZero` has reported a crossing.
+ */
+export function zeroCrossingFraction(prevAngle: number, currentAngle: number): number {
+  const norm = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+  const p = norm(prevAngle);
+  const c = norm(currentAngle);
+  if (p === c) return 0;
+  return Math.max(0, Math.min(1, p / (p - c)));
+}
+
 /**
  * Returns a planet with an updated note sequence (parsed from a string).
+ * With a mode, the sequence may only use degrees of its scale.
+ *
+ * @throws If the note sequence has errors
  */
-export function setPlanetNoteSequence(planet: Planet, sequence: string): Planet {
-  const parsed = parseNoteSequence(sequence);
+export function setPlanetNoteSequence(planet: Planet, sequence: string, mode?: MusicalMode): Planet {
+  const parsed = parseNoteSequence(sequence, mode);
   return {
     ...planet,
     noteSequence: parsed,
@@ -227,6 +301,40 @@ export function setPlanetRotationSpeed(
   return { ...planet, rotationSpeed: speed };
 }
 
+/**
+ * Rebuilds a Planet from its serialized form, creating a fresh physics body
+ * at the saved position with the saved velocity.
+ *
+ * The ID counter is advanced past the restored ID so that planets created
+ * afterwards never collide with it.
+ */
+export function restorePlanet(saved: Omit<Planet, 'physicsBody'>): Planet {
+  const physicsBody = createCelestialBody(
+    saved.position.x,
+    saved.position.y,
+    planetRadiusFromMass(saved.mass),
+    saved.mass
+  );
+  Matter.Body.setVelocity(physicsBody, saved.velocity);
+
+  const match = saved.id.match(/-(\d+)$/);
+  if (match) {
+    nextPlanetId = Math.max(nextPlanetId, parseInt(match[1], 10) + 1);
+  }
+
+  return {
+    ...saved,
+    position: { ...saved.position },
+    velocity: { ...saved.velocity },
+    noteSequence: [...saved.noteSequence],
+    effects: cloneEffects(saved.effects),
+    patch: clonePatch(saved.patch),
+    samples: cloneSamples(saved.samples),
+    modulations: cloneModulations(saved.modulations),
+    physicsBody,
+  };
+}
+
 /**
  * Resets the planet ID counter (for testing).
  */
@@ -1,36 +1,69 @@
-import type { Satellite, Planet } from '@/types/celestial';
-import { angleFromTop } from '@/utils/physics';
+import type { Satellite, SatelliteTriggerPoint, Planet, Star, Vector2D } from '@/types/celestial';
+import type { PlanetSample } from '@/types/audio';
+import {
+  angleFromTop,
+  distance,
+  ellipticalOrbitPoint,
+  hillRadius,
+  meanAnomalyFromTrueAnomaly,
+  orbitalAngle,
+} from '@/utils/physics';
 import { distanceToVolume } from '@/utils/audio';
-import { orbitalPeriod } from '@/utils/physics';
+import { planetRadiusFromMass } from '@/lib/rendering/renderer';
+import { getCurrentNote } from './planet';
 
 export const MAX_SATELLITES = 100;
 export const SATELLITE_VISUAL_RADIUS = 3;
+/** Most eccentric orbit allowed; beyond this satellites graze their planet. */
+export const SATELLITE_MAX_ECCENTRICITY = 0.9;
+export const SATELLITE_TRIGGER_POINTS: readonly SatelliteTriggerPoint[] = ['top', 'periapsis'];
 
 /** How quickly the trigger pulse decays each millisecond (0–1 per ms). */
 const PULSE_DECAY_RATE = 0.004;
 
+/**
+ * True Hill spheres are smaller than the orbits satellites are placed on at
+ * canvas scale, so they are scaled up (tuned by feel, like G).
+ */
+const HILL_SPHERE_SCALE = 5;
+/**
+ * A rival planet only takes a satellite over when the satellite sits this much
+ * deeper in the rival's Hill sphere than in its parent's, so satellites don't
+ * flicker between two planets at the boundary.
+ */
+const HANDOFF_HYSTERESIS = 0.8;
+
 let nextSatelliteId = 1;
 
 export interface CreateSatelliteOptions {
   parentPlanetId: string;
   /** World-space position of the parent planet at placement time */
   parentPosition: { x: number; y: number };
-  /** Distance from the parent planet centre in world units */
+  /** Semi-major axis in world units (distance from the parent planet centre for circular orbits) */
   orbitRadius: number;
   /** Starting angle in radians (0 = right, measured counter-clockwise in standard math coords) */
   startAngle?: number;
+  /** Orbit eccentricity in [0, SATELLITE_MAX_ECCENTRICITY]; 0 (default) is a circle */
+  eccentricity?: number;
+  /** Angle of periapsis (closest approach) in radians, same convention as startAngle */
+  argumentOfPeriapsis?: number;
+  /** Where on the orbit the note fires (default 'top') */
+  triggerPoint?: SatelliteTriggerPoint;
+  /** Sample of a Sampler parent to play instead of its current note (default none) */
+  sampleId?: string | null;
 }
 
 /**
  * Creates a Satellite entity.
  *
- * Satellites use a kinematic (purely mathematical) circular orbit rather than
- * a physics body — they are constrained to a circle around their parent planet.
- * This guarantees stable circular orbits regardless of physics chaos happening
- * to the planet itself.
+ * Satellites use a kinematic (purely mathematical) orbit rather than a physics
+ * body — they are constrained to an ellipse (a circle by default) with their
+ * parent planet at one focus. This guarantees stable orbits regardless of
+ * physics chaos happening to the planet itself.
  *
- * Orbital period follows Kepler's third law via `orbitalPeriod()`, so satellites
- * placed farther from the planet orbit more slowly.
+ * Orbital period follows Kepler's third law via `orbitPeriodMs()`, so satellites
+ * placed farther from the planet orbit more slowly. On an ellipse they also
+ * speed up near periapsis and slow down near apoapsis.
  */
 export function createSatellite(options: CreateSatelliteOptions): Satellite {
   const {
@@ -38,7 +71,14 @@ export function createSatellite(options: CreateSatelliteOptions): Satellite {
     parentPosition,
     orbitRadius,
     startAngle = 0,
+    argumentOfPeriapsis = 0,
+    triggerPoint = 'top',
+    sampleId = null,
   } = options;
+  const eccentricity = Math.min(
+    SATELLITE_MAX_ECCENTRICITY,
+    Math.max(0, options.eccentricity ?? 0)
+  );
 
   // Angular velocity (radians per ms) derived from orbital period
   // Use a representative planet mass for the period calculation.
@@ -47,20 +87,22 @@ export function createSatellite(options: CreateSatelliteOptions): Satellite {
   const periodMs = orbitPeriodMs(orbitRadius);
   const orbitSpeed = (2 * Math.PI) / periodMs; // radians per ms
 
-  const position = {
-    x: parentPosition.x + Math.cos(startAngle) * orbitRadius,
-    y: parentPosition.y + Math.sin(startAngle) * orbitRadius,
-  };
+  const orbitAngle = meanLongitudeAt(startAngle, eccentricity, argumentOfPeriapsis);
+  const orbit = { orbitRadius, orbitAngle, eccentricity, argumentOfPeriapsis };
 
   return {
     id: `satellite-${nextSatelliteId++}`,
     type: 'satellite',
     parentPlanetId,
-    position,
+    position: orbitPosition(parentPosition, orbit).position,
     orbitRadius,
-    orbitAngle: startAngle,
+    orbitAngle,
     orbitSpeed,
-    lastTriggerAngle: startAngle,
+    eccentricity,
+    argumentOfPeriapsis,
+    triggerPoint,
+    lastTriggerAngle: orbitAngle,
+    sampleId,
     physicsBody: null, // kinematic — no physics body needed
   };
 }
@@ -74,21 +116,67 @@ export function orbitPeriodMs(orbitRadius: number): number {
   return 3000 * Math.pow(orbitRadius / 30, 1.5);
 }
 
+type OrbitElements = Pick<
+  Satellite,
+  'orbitRadius' | 'orbitAngle' | 'eccentricity' | 'argumentOfPeriapsis'
+>;
+
+/**
+ * Places a satellite on its orbit by solving Kepler's equation for its
+ * current mean longitude. Also returns its distance from the parent planet.
+ */
+function orbitPosition(
+  parentPosition: Vector2D,
+  orbit: OrbitElements
+): { position: Vector2D; distance: number } {
+  const { trueAnomaly, radiusFactor } = ellipticalOrbitPoint(
+    orbit.orbitAngle - orbit.argumentOfPeriapsis,
+    orbit.eccentricity
+  );
+  const r = orbit.orbitRadius * radiusFactor;
+  const angle = orbit.argumentOfPeriapsis + trueAnomaly;
+  return {
+    position: {
+      x: parentPosition.x + Math.cos(angle) * r,
+      y: parentPosition.y + Math.sin(angle) * r,
+    },
+    distance: r,
+  };
+}
+
+/**
+ * Returns the mean longitude at which a satellite is seen at `angle` around
+ * its parent. On a circle the two are the same.
+ */
+function meanLongitudeAt(angle: number, eccentricity: number, argumentOfPeriapsis: number): number {
+  if (eccentricity === 0) return angle;
+  return argumentOfPeriapsis + meanAnomalyFromTrueAnomaly(angle - argumentOfPeriapsis, eccentricity);
+}
+
+/** Number of completed periapsis passages, counting from mean longitude ω. */
+function periapsisPassages(orbit: OrbitElements): number {
+  return Math.floor((orbit.orbitAngle - orbit.argumentOfPeriapsis) / (2 * Math.PI));
+}
+
 export interface SatelliteUpdateResult {
   satellite: Satellite;
-  /** True if the satellite crossed the 12 o'clock position this tick */
+  /** True if the satellite passed its trigger point (12 o'clock or periapsis) this tick */
   triggered: boolean;
-  /** Volume to play at (0.01–1.0), based on distance from planet */
+  /** Volume to play at (0.01–1.0), based on current distance from planet */
   triggerVolume: number;
+  /** How far through the tick (0–1) the trigger point was passed, for sub-frame note timing. 0 if not triggered. */
+  triggerFraction: number;
 }
 
 /**
  * Updates a satellite for one simulation tick.
  *
- * - Advances the orbit angle by orbitSpeed × deltaMs
- * - Constrains position to a circle around the (current) parent planet position
- * - Detects when the satellite crosses 12 o'clock (top of orbit)
- * - Returns the trigger event and volume if triggered
+ * - Advances the mean longitude by orbitSpeed × deltaMs
+ * - Constrains position to the orbit around the (current) parent planet position
+ * - Detects when the satellite passes its trigger point: crossing 12 o'clock
+ *   (top of orbit), or passing periapsis
+ * - Returns the trigger event and a volume that follows the current distance,
+ *   so a satellite on an ellipse is louder near periapsis
  *
  * @param satellite - Current satellite state
  * @param parentPosition - Current world position of the parent planet
@@ -102,19 +190,34 @@ export function updateSatellite(
   // Advance angle
   const newAngle = satellite.orbitAngle + satellite.orbitSpeed * deltaMs;
 
-  // Constrain to circle around current parent position
-  const newPosition = {
-    x: parentPosition.x + Math.cos(newAngle) * satellite.orbitRadius,
-    y: parentPosition.y + Math.sin(newAngle) * satellite.orbitRadius,
-  };
-
-  // 12 o'clock detection: angle-from-top crosses zero
-  // angleFromTop returns 0 when satellite is directly above the parent
-  const prevTop = angleFromTop(parentPosition, satellite.position);
-  const currTop = angleFromTop(parentPosition, newPosition);
+  // Constrain to orbit around current parent position
+  const { position: newPosition, distance: currentDistance } = orbitPosition(parentPosition, {
+    ...satellite,
+    orbitAngle: newAngle,
+  });
 
-  const triggered = didCrossTop(prevTop, currTop);
-  const triggerVolume = distanceToVolume(satellite.orbitRadius);
+  let triggered: boolean;
+  let triggerFraction = 0;
+  if (satellite.triggerPoint === 'periapsis') {
+    const passages = periapsisPassages({ ...satellite, orbitAngle: newAngle });
+    triggered = passages > periapsisPassages(satellite);
+    if (triggered) {
+      // The mean longitude advances linearly, so the passage time is exact
+      const passageAngle = satellite.argumentOfPeriapsis + passages * Math.PI * 2;
+      triggerFraction = Math.max(
+        0,
+        Math.min(1, (passageAngle - satellite.orbitAngle) / (newAngle - satellite.orbitAngle))
+      );
+    }
+  } else {
+    // 12 o'clock detection: angle-from-top crosses zero
+    // angleFromTop returns 0 when satellite is directly above the parent
+    const prevTop = angleFromTop(parentPosition, satellite.position);
+    const currTop = angleFromTop(parentPosition, newPosition);
+    triggered = didCrossTop(prevTop, currTop);
+    if (triggered) triggerFraction = topCrossingFraction(prevTop, currTop);
+  }
+  const triggerVolume = distanceToVolume(currentDistance);
 
   const updatedSatellite: Satellite = {
     ...satellite,
@@ -123,7 +226,137 @@ export function updateSatellite(
     lastTriggerAngle: triggered ? newAngle : satellite.lastTriggerAngle,
   };
 
-  return { satellite: updatedSatellite, triggered, triggerVolume };
+  return { satellite: updatedSatellite, triggered, triggerVolume, triggerFraction };
+}
+
+/**
+ * Nudges a satellite's orbit angle so its next trigger (12 o'clock or
+ * periapsis) lands on the nearest slot of a time grid that starts now (e.g. 16th notes).
+ * The nudge is at most half a slot, except that a trigger due right now is
+ * pushed to the first slot so the crossing isn't missed.
+ *
+ * @param satellite - Current satellite state
+ * @param parentPosition - Current world position of the parent planet
+ * @param gridMs - Grid spacing in milliseconds
+ */
+export function snapSatelliteToGrid(
+  satellite: Satellite,
+  parentPosition: { x: number; y: number },
+  gridMs: number
+): Satellite {
+  if (gridMs <= 0 || satellite.orbitSpeed <= 0) return satellite;
+
+  // Mean longitude of the trigger point; 12 o'clock in standard math angle
+  // is −π/2 (y grows downward on screen)
+  const target =
+    satellite.triggerPoint === 'periapsis'
+      ? satellite.argumentOfPeriapsis
+      : meanLongitudeAt(-Math.PI / 2, satellite.eccentricity, satellite.argumentOfPeriapsis);
+  const twoPi = Math.PI * 2;
+  const remaining = (((target - satellite.orbitAngle) % twoPi) + twoPi) % twoPi;
+  const msToTrigger = remaining / satellite.orbitSpeed;
+
+  const slots = Math.max(1, Math.round(msToTrigger / gridMs));
+  const orbitAngle =
+    satellite.orbitAngle + (msToTrigger - slots * gridMs) * satellite.orbitSpeed;
+
+  return {
+    ...satellite,
+    orbitAngle,
+    position: orbitPosition(parentPosition, { ...satellite, orbitAngle }).position,
+  };
+}
+
+/**
+ * Returns the radius (world units) of a planet's Hill sphere around the star,
+ * scaled to canvas size. Inside it, the planet can hold on to satellites.
+ */
+export function planetHillRadius(planet: Planet, star: Star): number {
+  return (
+    hillRadius(distance(planet.position, star.position), planet.mass, star.mass) *
+    HILL_SPHERE_SCALE
+  );
+}
+
+/**
+ * Finds the planet, if any, that should take a satellite over from its parent.
+ *
+ * Depth in a Hill sphere is distance / Hill radius (0 = centre, 1 = edge).
+ * A rival planet wins when the satellite is inside the rival's Hill sphere,
+ * clear of its surface, and deeper in it than HANDOFF_HYSTERESIS × its depth
+ * in the parent's. The deepest qualifying rival is returned.
+ *
+ * @param satellite - Satellite, already updated this tick
+ * @param parent - Its current parent planet
+ * @param planets - All planets (the parent is skipped)
+ * @param star - The star the planets orbit
+ */
+export function findHandoffPlanet(
+  satellite: Satellite,
+  parent: Planet,
+  planets: Planet[],
+  star: Star
+): Planet | null {
+  const parentHill = planetHillRadius(parent, star);
+  const parentDepth =
+    parentHill > 0 ? distance(satellite.position, parent.position) / parentHill : Infinity;
+
+  let best: Planet | null = null;
+  let bestDepth = parentDepth * HANDOFF_HYSTERESIS;
+
+  for (const planet of planets) {
+    if (planet.id === parent.id) continue;
+    const hill = planetHillRadius(planet, star);
+    const d = distance(satellite.position, planet.position);
+    if (hill <= 0 || d >= hill || d <= planetRadiusFromMass(planet.mass)) continue;
+
+    const depth = d / hill;
+    if (depth < bestDepth) {
+      best = planet;
+      bestDepth = depth;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Moves a satellite into orbit around a new parent planet, starting from
+ * where it is now. The new orbit is circular, with its radius set to the
+ * current distance from the new planet, so orbit speed and trigger volume
+ * follow the new distance. Its sample belonged to the old planet, so it goes
+ * back to playing the parent's note.
+ */
+export function handOffSatellite(satellite: Satellite, newParent: Planet): Satellite {
+  const orbitRadius = distance(satellite.position, newParent.position);
+  const orbitAngle = orbitalAngle(newParent.position, satellite.position);
+
+  return {
+    ...satellite,
+    parentPlanetId: newParent.id,
+    orbitRadius,
+    orbitAngle,
+    orbitSpeed: (2 * Math.PI) / orbitPeriodMs(orbitRadius),
+    eccentricity: 0,
+    lastTriggerAngle: orbitAngle,
+    sampleId: null,
+  };
+}
+
+/**
+ * Returns the sample a satellite fires: its chosen sample when the parent is
+ * a Sampler that still has it, otherwise undefined.
+ */
+export function satelliteSample(satellite: Satellite, parent: Planet): PlanetSample | undefined {
+  return parent.synthType === 'Sampler' ? parent.samples.find((s) => s.id === satellite.sampleId) : undefined;
+}
+
+/**
+ * Returns the note a satellite fires: the root of its chosen sample (see
+ * `satelliteSample`), otherwise the parent's current note.
+ */
+export function satelliteNote(satellite: Satellite, parent: Planet, star: Star): string | null {
+  return satelliteSample(satellite, parent)?.note ?? getCurrentNote(parent, star);
 }
 
 /**
@@ -148,6 +381,21 @@ export function didCrossTop(prevTop: number, currTop: number): boolean {
   return false;
 }
 
+/**
+ * Returns how far (0–1) from `prevTop` to `currTop` the satellite reached
+ * 12 o'clock, assuming it moved along the shorter arc at a steady rate. Use
+ * after `didCrossTop` has reported a crossing; a satellite that only entered
+ * the trigger window without reaching the top counts as the end of the tick.
+ */
+export function topCrossingFraction(prevTop: number, currTop: number): number {
+  const TWO_PI = Math.PI * 2;
+  // Signed shortest arc from prev to curr, in (−π, π]
+  const arc = Math.atan2(Math.sin(currTop - prevTop), Math.cos(currTop - prevTop));
+  if (arc === 0) return 0;
+  const toTop = arc > 0 ? (TWO_PI - prevTop) % TWO_PI : prevTop;
+  return Math.max(0, Math.min(1, toTop / Math.abs(arc)));
+}
+
 /**
  * Decays a trigger pulse value toward 0 over time.
  * Pulse starts at 1.0 on trigger and fades to 0 over ~250ms.
@@ -167,6 +415,19 @@ export function satelliteVolume(orbitRadius: number): number {
   return distanceToVolume(orbitRadius);
 }
 
+/**
+ * Rebuilds a Satellite from its serialized form. Satellites are kinematic,
+ * so no physics body is created. The ID counter is advanced past the restored ID.
+ */
+export function restoreSatellite(saved: Omit<Satellite, 'physicsBody'>): Satellite {
+  const match = saved.id.match(/-(\d+)$/);
+  if (match) {
+    nextSatelliteId = Math.max(nextSatelliteId, parseInt(match[1], 10) + 1);
+  }
+
+  return { ...saved, position: { ...saved.position }, physicsBody: null };
+}
+
 /**
  * Resets the satellite ID counter (for testing).
  */
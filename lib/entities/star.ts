@@ -1,12 +1,18 @@
 import type { Star, MusicalKey, MusicalMode } from '@/types/celestial';
+import type { ChordProgression, Tuning } from '@/types/audio';
 import { createStaticBody } from '@/lib/physics/collisions';
 import { randomKey, randomMode } from '@/lib/audio/scales';
+import { cloneTuning, defaultTuning } from '@/lib/audio/tuning';
+import { BEATS_PER_BAR, cloneProgression } from '@/lib/audio/progression';
 
 /** Visual radius of the star in world units. */
 export const STAR_VISUAL_RADIUS = 18;
 
 /** Mass of the star — large enough to hold planets in orbit at reasonable distances. */
 export const STAR_DEFAULT_MASS = 50000;
+/** Lightest / heaviest star the edit modal allows. */
+export const STAR_MIN_MASS = 10000;
+export const STAR_MAX_MASS = 200000;
 
 /** Default BPM for a new star. */
 export const STAR_DEFAULT_BPM = 120;
@@ -20,6 +26,10 @@ export interface CreateStarOptions {
   bpm?: number;
   key?: MusicalKey;
   mode?: MusicalMode;
+  /** Default: 12-TET at A4 = 440 Hz */
+  tuning?: Tuning;
+  /** Default: none, so planets play in the fixed key */
+  progression?: ChordProgression | null;
 }
 
 /**
@@ -37,6 +47,8 @@ export function createStar(options: CreateStarOptions = {}): Star {
     bpm = STAR_DEFAULT_BPM,
     key = randomKey(),
     mode = randomMode(),
+    tuning = defaultTuning(),
+    progression = null,
   } = options;
 
   const physicsBody = createStaticBody(x, y, STAR_VISUAL_RADIUS, mass);
@@ -49,6 +61,9 @@ export function createStar(options: CreateStarOptions = {}): Star {
     bpm,
     key,
     mode,
+    tuning: cloneTuning(tuning),
+    progression: progression ? cloneProgression(progression) : null,
+    beat: 0,
     physicsBody,
   };
 }
@@ -71,6 +86,71 @@ export function setStarKey(
   return { ...star, key, mode };
 }
 
+/**
+ * Returns a star with a new tuning.
+ */
+export function setStarTuning(star: Star, tuning: Tuning): Star {
+  return { ...star, tuning: cloneTuning(tuning) };
+}
+
+/**
+ * Returns a star with a new chord progression, or none. The beat carries on,
+ * so the new progression picks up on the same bar line.
+ */
+export function setStarProgression(star: Star, progression: ChordProgression | null): Star {
+  return { ...star, progression: progression ? cloneProgression(progression) : null };
+}
+
+/**
+ * Returns a star whose beat has moved on by `deltaMs` at its BPM.
+ */
+export function advanceStarBeat(star: Star, deltaMs: number): Star {
+  return { ...star, beat: star.beat + (deltaMs / 60000) * star.bpm };
+}
+
+/**
+ * Snaps a star's beat forward to the next bar line, the downbeat synced
+ * planets share (see `syncPlanetRotation`).
+ */
+export function syncStarBeat(star: Star): Star {
+  return { ...star, beat: Math.ceil(star.beat / BEATS_PER_BAR) * BEATS_PER_BAR };
+}
+
+/**
+ * Returns a star with a new mass (clamped to STAR_MIN_MASS–STAR_MAX_MASS).
+ * Gravity reads the star's mass each tick, so orbits respond immediately;
+ * the static physics body is left as is.
+ */
+export function setStarMass(star: Star, mass: number): Star {
+  return { ...star, mass: Math.max(STAR_MIN_MASS, Math.min(STAR_MAX_MASS, mass)) };
+}
+
+/**
+ * Rebuilds a Star from its serialized form, creating a fresh static body.
+ * The ID counter is advanced past the restored ID.
+ */
+export function restoreStar(saved: Omit<Star, 'physicsBody'>): Star {
+  const physicsBody = createStaticBody(
+    saved.position.x,
+    saved.position.y,
+    STAR_VISUAL_RADIUS,
+    saved.mass
+  );
+
+  const match = saved.id.match(/-(\d+)$/);
+  if (match) {
+    nextStarId = Math.max(nextStarId, parseInt(match[1], 10) + 1);
+  }
+
+  return {
+    ...saved,
+    position: { ...saved.position },
+    tuning: cloneTuning(saved.tuning),
+    progression: saved.progression ? cloneProgression(saved.progression) : null,
+    physicsBody,
+  };
+}
+
 /**
  * Resets the star ID counter (for testing).
  */
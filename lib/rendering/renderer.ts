@@ -17,6 +17,10 @@ const COLOR = {
   satellite: '#cc88ff',
   satelliteStroke: '#8844cc',
   satellitePulse: 'rgba(200, 100, 255, 0.4)',
+  comet: '#e6fbff',
+  cometStroke: '#7fd8f0',
+  cometTail: 'rgba(160, 230, 255, 0.25)',
+  dust: 'rgba(210, 200, 180, 0.7)',
   orbitPath: 'rgba(255, 255, 255, 0.08)',
   orbitPathHover: 'rgba(255, 255, 255, 0.18)',
   auMarker: 'rgba(255, 255, 255, 0.12)',
@@ -216,21 +220,123 @@ export function drawSatellite(
   ctx.stroke();
 }
 
+// ─── Comet ────────────────────────────────────────────────────────────────────
+
+export interface CometRenderOptions {
+  position: Vector2D;
+  /** Visual radius of the nucleus in world units (derived from mass) */
+  radius: number;
+  /** World position of the star; the tail points directly away from it */
+  starPosition?: Vector2D;
+  /** 0–1 pulse intensity when the comet just fired its note */
+  triggerPulse?: number;
+}
+
+/**
+ * Calculates a comet nucleus' visual radius from its mass.
+ * Comets are drawn smaller than planets of the same mass.
+ */
+export function cometRadiusFromMass(mass: number): number {
+  return Math.max(2, Math.cbrt(mass) * 1.5);
+}
+
+/**
+ * Draws a comet: a bright nucleus with a tail pointing away from the star.
+ * The tail grows longer as the comet gets closer to the star.
+ */
+export function drawComet(
+  ctx: CanvasRenderingContext2D,
+  options: CometRenderOptions,
+  viewport: ViewportState
+): void {
+  const screen = worldToScreen(options.position, viewport);
+  const r = Math.max(2, worldScaleToScreen(options.radius, viewport));
+  const pulse = options.triggerPulse ?? 0;
+
+  // Tail (anti-sunward)
+  if (options.starPosition) {
+    const dx = options.position.x - options.starPosition.x;
+    const dy = options.position.y - options.starPosition.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist > 0) {
+      const dirX = dx / dist;
+      const dirY = dy / dist;
+      const closeness = Math.min(1, AU_WORLD_UNITS / dist);
+      const tailLength = worldScaleToScreen(options.radius * (4 + 8 * closeness), viewport);
+
+      ctx.beginPath();
+      ctx.moveTo(screen.x - dirY * r, screen.y + dirX * r);
+      ctx.lineTo(screen.x + dirX * tailLength, screen.y + dirY * tailLength);
+      ctx.lineTo(screen.x + dirY * r, screen.y - dirX * r);
+      ctx.fillStyle = COLOR.cometTail;
+      ctx.fill();
+    }
+  }
+
+  // Pulse glow
+  if (pulse > 0) {
+    ctx.beginPath();
+    ctx.arc(screen.x, screen.y, r * (1 + pulse * 2), 0, Math.PI * 2);
+    ctx.fillStyle = `rgba(160, 230, 255, ${pulse * 0.5})`;
+    ctx.fill();
+  }
+
+  // Nucleus
+  ctx.beginPath();
+  ctx.arc(screen.x, screen.y, r, 0, Math.PI * 2);
+  ctx.fillStyle = COLOR.comet;
+  ctx.fill();
+  ctx.strokeStyle = COLOR.cometStroke;
+  ctx.lineWidth = Math.max(0.5, viewport.zoom * 0.5);
+  ctx.stroke();
+}
+
+// ─── Space dust ───────────────────────────────────────────────────────────────
+
+export interface DustRenderOptions {
+  position: Vector2D;
+  /** Visual radius in world units */
+  radius: number;
+}
+
+/**
+ * Draws a dust particle as a faint speck. Stays at least one pixel across so
+ * a burst is still visible when zoomed out.
+ */
+export function drawDust(
+  ctx: CanvasRenderingContext2D,
+  options: DustRenderOptions,
+  viewport: ViewportState
+): void {
+  const screen = worldToScreen(options.position, viewport);
+  const r = Math.max(1, worldScaleToScreen(options.radius, viewport));
+
+  ctx.beginPath();
+  ctx.arc(screen.x, screen.y, r, 0, Math.PI * 2);
+  ctx.fillStyle = COLOR.dust;
+  ctx.fill();
+}
+
 // ─── Orbit paths ──────────────────────────────────────────────────────────────
 
 /**
- * Draws a circular orbit path around a center point.
+ * Draws an orbit path around a center point: a circle, or an ellipse with
+ * `center` at one focus when `eccentricity` is above 0.
  *
- * @param center - World-space center of the orbit
- * @param radius - World-space orbit radius
+ * @param center - World-space center (focus) of the orbit
+ * @param radius - World-space orbit radius (semi-major axis for ellipses)
  * @param dashed - If true, renders as a dashed line
+ * @param eccentricity - Orbit eccentricity in [0, 1)
+ * @param periapsisAngle - Direction of the closest point of an ellipse, in radians
  */
 export function drawOrbitPath(
   ctx: CanvasRenderingContext2D,
   center: Vector2D,
   radius: number,
   viewport: ViewportState,
-  dashed: boolean = false
+  dashed: boolean = false,
+  eccentricity: number = 0,
+  periapsisAngle: number = 0
 ): void {
   const screen = worldToScreen(center, viewport);
   const screenR = worldScaleToScreen(radius, viewport);
@@ -238,7 +344,21 @@ export function drawOrbitPath(
   if (screenR < 2) return; // too small to draw
 
   ctx.beginPath();
-  ctx.arc(screen.x, screen.y, screenR, 0, Math.PI * 2);
+  if (eccentricity > 0) {
+    // The ellipse centre sits a·e from the focus, away from periapsis
+    const focusOffset = screenR * eccentricity;
+    ctx.ellipse(
+      screen.x - Math.cos(periapsisAngle) * focusOffset,
+      screen.y - Math.sin(periapsisAngle) * focusOffset,
+      screenR,
+      screenR * Math.sqrt(1 - eccentricity * eccentricity),
+      periapsisAngle,
+      0,
+      Math.PI * 2
+    );
+  } else {
+    ctx.arc(screen.x, screen.y, screenR, 0, Math.PI * 2);
+  }
   ctx.strokeStyle = COLOR.orbitPath;
   ctx.lineWidth = 1;
 
@@ -299,7 +419,7 @@ export function drawAuMarkers(
 // ─── Full scene render ────────────────────────────────────────────────────────
 
 export interface SceneObject {
-  type: 'star' | 'planet' | 'satellite';
+  type: 'star' | 'planet' | 'satellite' | 'comet' | 'dust';
   position: Vector2D;
   radius: number;
   rotation?: number;
@@ -307,6 +427,8 @@ export interface SceneObject {
   color?: string;
   orbitCenter?: Vector2D;
   orbitRadius?: number;
+  orbitEccentricity?: number;
+  orbitPeriapsisAngle?: number;
 }
 
 /**
@@ -332,7 +454,15 @@ export function renderScene(
   // Orbit paths (drawn before bodies so they appear underneath)
   for (const obj of objects) {
     if (obj.orbitCenter && obj.orbitRadius) {
-      drawOrbitPath(ctx, obj.orbitCenter, obj.orbitRadius, viewport, obj.type === 'satellite');
+      drawOrbitPath(
+        ctx,
+        obj.orbitCenter,
+        obj.orbitRadius,
+        viewport,
+        obj.type === 'satellite',
+        obj.orbitEccentricity,
+        obj.orbitPeriapsisAngle
+      );
     }
   }
 
@@ -363,6 +493,19 @@ export function renderScene(
         },
         viewport
       );
+    } else if (obj.type === 'comet') {
+      drawComet(
+        ctx,
+        {
+          position: obj.position,
+          radius: obj.radius,
+          starPosition,
+          triggerPulse: obj.triggerPulse,
+        },
+        viewport
+      );
+    } else if (obj.type === 'dust') {
+      drawDust(ctx, { position: obj.position, radius: obj.radius }, viewport);
     }
   }
 }
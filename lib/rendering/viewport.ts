@@ -1,5 +1,5 @@
 import type { Vector2D } from '@/types/celestial';
-import type { ViewportState } from '@/types/ui';
+import type { ViewportState, WorldBounds } from '@/types/ui';
 
 export const ZOOM_MIN = 0.1;
 export const ZOOM_MAX = 10;
@@ -133,3 +133,12 @@ export function resizeViewport(
 ): ViewportState {
   return { ...viewport, width, height };
 }
+
+/**
+ * Returns the world-space rectangle currently visible on screen.
+ */
+export function visibleWorldBounds(viewport: ViewportState): WorldBounds {
+  const topLeft = screenToWorld({ x: 0, y: 0 }, viewport);
+  const bottomRight = screenToWorld({ x: viewport.width, y: viewport.height }, viewport);
+  return { minX: topLeft.x, minY: topLeft.y, maxX: bottomRight.x, maxY: bottomRight.y };
+}
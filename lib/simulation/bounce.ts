@@ -0,0 +1,155 @@
+'use client';
+
+import * as Tone from 'tone';
+import type { SolarSystemState } from '@/types/celestial';
+import type { SimulationState } from './simulation';
+import { destroySimulation, playSimulation, tickSimulation } from './simulation';
+import { deserializeSimulation } from './serialization';
+import { startRecording, synthEffectsReady } from '@/lib/audio/synthManager';
+import type { RecordedNote } from '@/lib/audio/synthManager';
+import { encodeWav, WAV_MIME_TYPE } from '@/lib/audio/wav';
+import type { WavBitDepth } from '@/lib/audio/wav';
+import { noteDurationToSeconds } from '@/utils/audio';
+import { downloadBlob, timestampedFilename } from '@/utils/download';
+
+/**
+ * Offline rendering ("bouncing") of a solar system to audio.
+ *
+ * The saved state is rebuilt inside a Tone.Offline context, so every synth is
+ * created against — and plays into — the offline destination. The simulation
+ * is then stepped at a fixed rate with no wall clock involved, which makes the
+ * note list identical on every run of the same state.
+ */
+
+/** Fixed simulation step used while bouncing (one 60 fps frame). */
+export const BOUNCE_STEP_MS = 1000 / 60;
+/** Extra audio rendered after the last step so release tails aren't cut off. */
+export const BOUNCE_TAIL_SECONDS = 2;
+export const BOUNCE_SAMPLE_RATE = 44100;
+export const BOUNCE_CHANNELS = 2;
+/** Longest bounce allowed, in seconds, to keep memory bounded. */
+export const BOUNCE_MAX_SECONDS = 600;
+
+export type BounceLengthUnit = 'bars' | 'seconds';
+
+export interface BounceOptions {
+  length: number;
+  unit: BounceLengthUnit;
+  bitDepth?: WavBitDepth;
+}
+
+/**
+ * Converts a bounce length to seconds. Bars are 4/4 bars at the star's BPM.
+ *
+ * @throws If the length is not positive or exceeds BOUNCE_MAX_SECONDS
+ */
+export function bounceDurationSeconds(bpm: number, length: number, unit: BounceLengthUnit): number {
+  if (!(length > 0)) {
+    throw new Error(`Bounce length must be positive, got ${length}`);
+  }
+  const seconds = unit === 'bars' ? length * noteDurationToSeconds('whole', bpm) : length;
+  if (seconds > BOUNCE_MAX_SECONDS) {
+    throw new Error(`Bounce is limited to ${BOUNCE_MAX_SECONDS} seconds`);
+  }
+  return seconds;
+}
+
+function requireStarBpm(state: SolarSystemState): number {
+  if (!state.star) {
+    throw new Error('Place a star before rendering audio');
+  }
+  return state.star.bpm;
+}
+
+/**
+ * Plays a simulation for `durationSeconds` in fixed steps, recording every
+ * note. Each note is stamped with the time within its step at which the
+ * planet or satellite crossed its trigger point.
+ *
+ * @returns The recorded notes in the order they were played
+ */
+export function runBounce(
+  sim: SimulationState,
+  durationSeconds: number,
+  stepMs: number = BOUNCE_STEP_MS
+): RecordedNote[] {
+  const recorder = startRecording(sim.synthManager);
+  const durationMs = durationSeconds * 1000;
+
+  let current = playSimulation(sim);
+  for (let elapsedMs = 0; elapsedMs < durationMs; elapsedMs += stepMs) {
+    recorder.time = elapsedMs / 1000;
+    current = tickSimulation(current, stepMs);
+  }
+
+  current.synthManager.recorder = null;
+  // Notes within a step are logged per body, not in crossing order
+  return recorder.notes.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Runs a bounce without rendering audio and returns the notes it would play.
+ * Useful for previews and tests.
+ */
+export function collectBounceEvents(
+  state: SolarSystemState,
+  options: BounceOptions
+): RecordedNote[] {
+  const duration = bounceDurationSeconds(requireStarBpm(state), options.length, options.unit);
+  const sim = deserializeSimulation(state);
+  try {
+    return runBounce(sim, duration);
+  } finally {
+    destroySimulation(sim);
+  }
+}
+
+/**
+ * Renders a solar system to a WAV file.
+ *
+ * @param state - Snapshot to render (from `serializeSimulation`)
+ * @param options - Length in bars or seconds, and the WAV bit depth
+ * @returns The encoded WAV file
+ */
+export async function renderSolarSystemWav(
+  state: SolarSystemState,
+  options: BounceOptions
+): Promise<ArrayBuffer> {
+  const duration = bounceDurationSeconds(requireStarBpm(state), options.length, options.unit);
+
+  let sim: SimulationState | null = null;
+  try {
+    const buffer = await Tone.Offline(
+      async () => {
+        sim = deserializeSimulation(state);
+        // Reverbs must finish building, and samples decoding, before the
+        // first note is scheduled
+        await Promise.all([synthEffectsReady(sim.synthManager), Tone.loaded()]);
+        runBounce(sim, duration);
+      },
+      duration + BOUNCE_TAIL_SECONDS,
+      BOUNCE_CHANNELS,
+      BOUNCE_SAMPLE_RATE
+    );
+    const data = buffer.toArray();
+    const channels = Array.isArray(data) ? data : [data];
+    return encodeWav(channels, buffer.sampleRate, options.bitDepth);
+  } finally {
+    if (sim) destroySimulation(sim);
+  }
+}
+
+/**
+ * Returns a default download filename for a bounce,
+ * e.g. "solar-system-2025-01-31T12-00-00.wav".
+ */
+export function bounceFilename(state: SolarSystemState): string {
+  return timestampedFilename(new Date(state.timestamp), 'wav');
+}
+
+/**
+ * Triggers a browser download of an encoded WAV file.
+ */
+export function downloadWav(data: ArrayBuffer, filename: string): void {
+  downloadBlob(data, WAV_MIME_TYPE, filename);
+}
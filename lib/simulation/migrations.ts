@@ -0,0 +1,267 @@
+import { defaultSynthPatch } from '@/lib/audio/patches';
+import { defaultTuning } from '@/lib/audio/tuning';
+import { isValidSynthType } from '@/lib/audio/synthManager';
+
+/** Schema version written into every saved file. Must match the last migration's `to`. */
+export const SOLAR_SYSTEM_STATE_VERSION = '1.13.0';
+
+/**
+ * Version assumed for files that have no `version` field at all —
+ * hand-written patches shared before save/load existed.
+ */
+export const LEGACY_STATE_VERSION = '0.0.0';
+
+type RawState = Record<string, unknown>;
+
+/**
+ * A single migration step: upgrades a raw state from `from` to `to`.
+ * Steps operate on untyped JSON because old files don't match the
+ * current SolarSystemState type.
+ */
+export interface StateMigration {
+  from: string;
+  to: string;
+  migrate: (state: RawState) => RawState;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isObject(value: unknown): value is RawState {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function legacyPatch(planet: RawState) {
+  const { synthType } = planet;
+  // An unknown synth type is left for validation to report
+  return defaultSynthPatch(typeof synthType === 'string' && isValidSynthType(synthType) ? synthType : 'Synth');
+}
+
+/**
+ * Ordered migration chain. Each entry's `to` must be the next entry's `from`,
+ * ending at SOLAR_SYSTEM_STATE_VERSION. Add a new step here (and bump
+ * SOLAR_SYSTEM_STATE_VERSION) whenever the saved schema changes.
+ */
+export const MIGRATIONS: StateMigration[] = [
+  {
+    // Unversioned, hand-written files: fill in fields that were optional
+    // by convention and accept space-separated note sequence strings.
+    from: LEGACY_STATE_VERSION,
+    to: '1.0.0',
+    migrate: (state) => ({
+      ...state,
+      timestamp: typeof state.timestamp === 'number' ? state.timestamp : 0,
+      star: state.star ?? null,
+      timeScale: state.timeScale ?? 1,
+      gravityStrength: state.gravityStrength ?? 1,
+      planets: asArray(state.planets).map((planet) =>
+        isObject(planet)
+          ? {
+              type: 'planet',
+              velocity: { x: 0, y: 0 },
+              rotation: 0,
+              currentNoteIndex: 0,
+              orbitAngle: 0,
+              ...planet,
+              noteSequence:
+                typeof planet.noteSequence === 'string'
+                  ? planet.noteSequence.trim().split(/\s+/).filter((t) => t.length > 0)
+                  : planet.noteSequence,
+            }
+          : planet
+      ),
+      satellites: asArray(state.satellites).map((satellite) =>
+        isObject(satellite)
+          ? { type: 'satellite', lastTriggerAngle: satellite.orbitAngle ?? 0, ...satellite }
+          : satellite
+      ),
+    }),
+  },
+  {
+    // Comets were added; older files simply have none.
+    from: '1.0.0',
+    to: '1.1.0',
+    migrate: (state) => ({ ...state, comets: asArray(state.comets) }),
+  },
+  {
+    // Satellite hand-off between planets was added as an opt-in mode.
+    from: '1.1.0',
+    to: '1.2.0',
+    migrate: (state) => ({ ...state, satelliteHandoff: state.satelliteHandoff ?? false }),
+  },
+  {
+    // Elliptical satellite orbits were added; older satellites are circular
+    // and trigger at 12 o'clock.
+    from: '1.2.0',
+    to: '1.3.0',
+    migrate: (state) => ({
+      ...state,
+      satellites: asArray(state.satellites).map((satellite) =>
+        isObject(satellite)
+          ? { eccentricity: 0, argumentOfPeriapsis: 0, triggerPoint: 'top', ...satellite }
+          : satellite
+      ),
+    }),
+  },
+  {
+    // MIDI CC bindings are now saved with the solar system.
+    from: '1.3.0',
+    to: '1.4.0',
+    migrate: (state) => ({ ...state, midiBindings: asArray(state.midiBindings) }),
+  },
+  {
+    // Per-planet effects chains were added; older planets play dry.
+    // A malformed planet list is left for validation to report.
+    from: '1.4.0',
+    to: '1.5.0',
+    migrate: (state) => ({
+      ...state,
+      planets: Array.isArray(state.planets)
+        ? state.planets.map((planet) => (isObject(planet) ? { effects: [], ...planet } : planet))
+        : state.planets,
+    }),
+  },
+  {
+    // Modulation matrices were added; older planets have no routes.
+    from: '1.5.0',
+    to: '1.6.0',
+    migrate: (state) => ({
+      ...state,
+      planets: Array.isArray(state.planets)
+        ? state.planets.map((planet) => (isObject(planet) ? { modulations: [], ...planet } : planet))
+        : state.planets,
+    }),
+  },
+  {
+    // Stereo panning was added; older files keep full width with satellites
+    // following their planet.
+    from: '1.6.0',
+    to: '1.7.0',
+    migrate: (state) => ({
+      ...state,
+      stereoWidth: state.stereoWidth ?? 1,
+      satellitePanning: state.satellitePanning ?? false,
+    }),
+  },
+  {
+    // Synth patches and the preset library were added. Older planets get
+    // their synth type's defaults, which is how they already sounded.
+    from: '1.7.0',
+    to: '1.8.0',
+    migrate: (state) => ({
+      ...state,
+      presets: asArray(state.presets),
+      planets: Array.isArray(state.planets)
+        ? state.planets.map((planet) => (isObject(planet) ? { patch: legacyPatch(planet), ...planet } : planet))
+        : state.planets,
+    }),
+  },
+  {
+    // Sampler planets were added. Older planets have no samples, and older
+    // satellites play their parent's note rather than a sample.
+    from: '1.8.0',
+    to: '1.9.0',
+    migrate: (state) => ({
+      ...state,
+      planets: Array.isArray(state.planets)
+        ? state.planets.map((planet) => (isObject(planet) ? { samples: [], ...planet } : planet))
+        : state.planets,
+      satellites: Array.isArray(state.satellites)
+        ? state.satellites.map((satellite) => (isObject(satellite) ? { sampleId: null, ...satellite } : satellite))
+        : state.satellites,
+    }),
+  },
+  {
+    // Star tunings were added. Older stars play 12-TET at A4 = 440 Hz.
+    from: '1.9.0',
+    to: '1.10.0',
+    migrate: (state) => ({
+      ...state,
+      star: isObject(state.star) ? { tuning: defaultTuning(), ...state.star } : state.star,
+    }),
+  },
+  {
+    // Chord progressions were added. Older stars have none and start at beat 0.
+    from: '1.10.0',
+    to: '1.11.0',
+    migrate: (state) => ({
+      ...state,
+      star: isObject(state.star) ? { progression: null, beat: 0, ...state.star } : state.star,
+    }),
+  },
+  {
+    // Timelines of key, mode and tempo changes were added. Older systems have none.
+    from: '1.11.0',
+    to: '1.12.0',
+    migrate: (state) => ({
+      ...state,
+      timeline: asArray(state.timeline),
+    }),
+  },
+  {
+    // The timeline's revolution count, tempo glide and origin were saved.
+    // Older systems start them afresh.
+    from: '1.12.0',
+    to: '1.13.0',
+    migrate: (state) => ({
+      timelineRevolutions: 0,
+      bpmGlide: null,
+      timelineOrigin: null,
+      ...state,
+    }),
+  },
+];
+
+/**
+ * Compares dotted numeric version strings ("1.2.0" vs "1.10.0").
+ * Returns a negative number if a < b, 0 if equal, positive if a > b.
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map((n) => parseInt(n, 10) || 0);
+  const pb = b.split('.').map((n) => parseInt(n, 10) || 0);
+  const len = Math.max(pa.length, pb.length);
+  for (let i = 0; i < len; i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Upgrades a parsed state object to SOLAR_SYSTEM_STATE_VERSION by walking
+ * the migration chain from its declared `version`.
+ *
+ * @param raw - Parsed JSON object (any version)
+ * @returns The migrated object, stamped with the current version
+ * @throws If the version is newer than this app supports or has no migration path
+ */
+export function migrateSolarSystemState(
+  raw: RawState,
+  migrations: StateMigration[] = MIGRATIONS
+): RawState {
+  const declared = raw.version ?? LEGACY_STATE_VERSION;
+  if (typeof declared !== 'string') {
+    throw new Error(`version must be a string (got ${JSON.stringify(declared)})`);
+  }
+
+  if (compareVersions(declared, SOLAR_SYSTEM_STATE_VERSION) > 0) {
+    throw new Error(
+      `File was saved by a newer version (${declared}); this app supports up to ${SOLAR_SYSTEM_STATE_VERSION}`
+    );
+  }
+
+  let state: RawState = raw;
+  let version = declared;
+
+  while (version !== SOLAR_SYSTEM_STATE_VERSION) {
+    const step = migrations.find((m) => m.from === version);
+    if (!step) {
+      throw new Error(`No migration available from version ${version}`);
+    }
+    state = { ...step.migrate(state), version: step.to };
+    version = step.to;
+  }
+
+  return state;
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import * as Tone from 'tone';
+import type { Vector2D } from '@/types/celestial';
+import type { SceneObject } from '@/lib/rendering/renderer';
+import type { SimulationState } from './simulation';
+import { tickSimulation, simulationToSceneObjects } from './simulation';
+
+/**
+ * Look-ahead scheduling of the simulation against the audio clock.
+ *
+ * A repeating Tone.Transport event fires slightly ahead of the audio it
+ * covers. Each time, the simulation is stepped in fixed steps up to the end
+ * of the next interval, and every note is scheduled at the audio-clock time
+ * its planet or satellite crossed its trigger point — so frame drops no
+ * longer shift notes. Each step leaves a scene snapshot stamped with its
+ * audio time; the render loop interpolates between the two snapshots around
+ * what is being heard, so the picture stays in step with the sound.
+ */
+
+/** How often the transport event fires, in seconds. */
+export const SCHEDULER_INTERVAL_SECONDS = 0.025;
+/** Fixed simulation step (one 60 fps frame). */
+export const SCHEDULER_STEP_MS = 1000 / 60;
+/**
+ * Longest stretch of audio time stepped in one go. After a stall (e.g. a
+ * background tab) the simulation skips ahead instead of racing to catch up.
+ */
+export const SCHEDULER_MAX_CATCH_UP_SECONDS = 0.25;
+
+/**
+ * Most snapshots kept for `stepMs` steps: enough to span the longest stretch
+ * stepped in one go, plus the pair around the audible time. The render loop
+ * normally drops older ones, but it pauses in a background tab while the
+ * Transport keeps firing.
+ */
+export function maxSchedulerSnapshots(stepMs: number = SCHEDULER_STEP_MS): number {
+  return Math.ceil((SCHEDULER_MAX_CATCH_UP_SECONDS * 1000) / stepMs) + 2;
+}
+
+/** A scene as it looked at an audio-clock time. */
+export interface SceneSnapshot {
+  time: number;
+  objects: SceneObject[];
+  starPosition: Vector2D | undefined;
+}
+
+export interface AudioScheduler {
+  /** Audio-clock time (seconds) the simulation has been stepped up to; null until the first event */
+  simTime: number | null;
+  /** Snapshots in time order, oldest first */
+  snapshots: SceneSnapshot[];
+  /** Tone.Transport event ID while running */
+  eventId: number | null;
+}
+
+/**
+ * Creates a stopped scheduler with no history.
+ */
+export function createAudioScheduler(): AudioScheduler {
+  return { simTime: null, snapshots: [], eventId: null };
+}
+
+function snapshotAt(sim: SimulationState, time: number): SceneSnapshot {
+  const { objects, starPosition } = simulationToSceneObjects(sim);
+  return { time, objects, starPosition };
+}
+
+/**
+ * Steps the simulation in fixed steps until it reaches `untilTime` on the
+ * audio clock, scheduling each step's notes from the step's start time and
+ * recording a snapshot after each step. The oldest snapshots beyond
+ * `maxSchedulerSnapshots` are dropped.
+ *
+ * While the simulation is paused it isn't stepped: the scheduler just keeps
+ * pace with the clock and drops its history, so resuming neither catches up
+ * nor interpolates from stale positions.
+ *
+ * @param scheduler - The scheduler (mutated)
+ * @param sim - The simulation to advance
+ * @param untilTime - Audio-clock time (seconds) to step up to
+ * @returns The advanced simulation
+ */
+export function advanceScheduler(
+  scheduler: AudioScheduler,
+  sim: SimulationState,
+  untilTime: number,
+  stepMs: number = SCHEDULER_STEP_MS
+): SimulationState {
+  if (!sim.solarSystem.isPlaying) {
+    scheduler.simTime = untilTime;
+    scheduler.snapshots = [];
+    return sim;
+  }
+
+  const stepSeconds = stepMs / 1000;
+  let time = Math.max(scheduler.simTime ?? untilTime, untilTime - SCHEDULER_MAX_CATCH_UP_SECONDS);
+  if (scheduler.snapshots.length === 0) {
+    scheduler.snapshots.push(snapshotAt(sim, time));
+  }
+
+  let current = sim;
+  while (time + stepSeconds <= untilTime) {
+    current = tickSimulation(current, stepMs, time);
+    time += stepSeconds;
+    scheduler.snapshots.push(snapshotAt(current, time));
+  }
+
+  const excess = scheduler.snapshots.length - maxSchedulerSnapshots(stepMs);
+  if (excess > 0) scheduler.snapshots.splice(0, excess);
+
+  scheduler.simTime = time;
+  return current;
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function lerpVector(a: Vector2D, b: Vector2D, t: number): Vector2D {
+  return { x: lerp(a.x, b.x, t), y: lerp(a.y, b.y, t) };
+}
+
+function interpolateObject(a: SceneObject, b: SceneObject, t: number): SceneObject {
+  return {
+    ...b,
+    position: lerpVector(a.position, b.position, t),
+    rotation: a.rotation !== undefined && b.rotation !== undefined ? lerp(a.rotation, b.rotation, t) : b.rotation,
+    orbitCenter: a.orbitCenter && b.orbitCenter ? lerpVector(a.orbitCenter, b.orbitCenter, t) : b.orbitCenter,
+  };
+}
+
+/**
+ * Returns the scene as it was at audio-clock `time`, interpolated between the
+ * snapshots either side of it. Snapshots older than the pair in use are
+ * dropped. Outside the recorded range the nearest snapshot is returned as is.
+ *
+ * Objects are matched by position in the list; if bodies were added or
+ * removed between the two snapshots, the later one is used unchanged.
+ *
+ * @returns The interpolated scene, or null if there is no history yet
+ */
+export function interpolateScene(
+  scheduler: AudioScheduler,
+  time: number
+): Omit<SceneSnapshot, 'time'> | null {
+  const { snapshots } = scheduler;
+  if (snapshots.length === 0) return null;
+
+  while (snapshots.length > 1 && snapshots[1].time <= time) {
+    snapshots.shift();
+  }
+
+  const [a, b] = snapshots;
+  if (!b || time <= a.time) {
+    return { objects: a.objects, starPosition: a.starPosition };
+  }
+
+  const t = (time - a.time) / (b.time - a.time);
+  const sameBodies =
+    a.objects.length === b.objects.length &&
+    a.objects.every((obj, i) => obj.type === b.objects[i].type);
+  const objects = sameBodies
+    ? b.objects.map((obj, i) => interpolateObject(a.objects[i], obj, t))
+    : b.objects;
+  const starPosition =
+    a.starPosition && b.starPosition ? lerpVector(a.starPosition, b.starPosition, t) : b.starPosition;
+
+  return { objects, starPosition };
+}
+
+/**
+ * Returns the audio-clock time of what is being heard right now — behind
+ * `Tone.now()`, which includes the context's look-ahead.
+ */
+export function audibleTime(): number {
+  return Tone.getContext().currentTime;
+}
+
+/**
+ * Starts a repeating Tone.Transport event that calls `onSchedule` with the
+ * audio-clock time of each event, starting the Transport if needed. Step the
+ * simulation to `time + SCHEDULER_INTERVAL_SECONDS` from the callback.
+ */
+export function startAudioScheduler(
+  scheduler: AudioScheduler,
+  onSchedule: (time: number) => void
+): void {
+  if (scheduler.eventId !== null) return;
+  const transport = Tone.getTransport();
+  scheduler.eventId = transport.scheduleRepeat(onSchedule, SCHEDULER_INTERVAL_SECONDS);
+  if (transport.state !== 'started') transport.start();
+}
+
+/**
+ * Cancels the scheduler's Transport event and clears its history.
+ */
+export function stopAudioScheduler(scheduler: AudioScheduler): void {
+  if (scheduler.eventId !== null) {
+    Tone.getTransport().clear(scheduler.eventId);
+  }
+  scheduler.eventId = null;
+  scheduler.simTime = null;
+  scheduler.snapshots = [];
+}
+
+/**
+ * Returns true while the scheduler's Transport event is running.
+ */
+export function isSchedulerRunning(scheduler: AudioScheduler): boolean {
+  return scheduler.eventId !== null;
+}
@@ -0,0 +1,293 @@
+'use client';
+
+import type { SolarSystemState, Planet, Satellite, Comet } from '@/types/celestial';
+import type { SimulationState } from './simulation';
+import {
+  createSimulation,
+  setSimulationTimeScale,
+  setSimulationGravity,
+  setSimulationSatelliteHandoff,
+  setSimulationStereoWidth,
+  setSimulationSatellitePanning,
+  setSimulationMidiBindings,
+  setSimulationPresets,
+  setSimulationTimeline,
+} from './simulation';
+import { addBody } from '@/lib/physics/engine';
+import { addSynth } from '@/lib/audio/synthManager';
+import type { SynthType } from '@/lib/audio/synthManager';
+import { setBpm } from '@/lib/audio/context';
+import { restoreStar } from '@/lib/entities/star';
+import { restorePlanet, cloneEffects, cloneModulations } from '@/lib/entities/planet';
+import { clonePatch, clonePreset } from '@/lib/audio/patches';
+import { cloneSamples } from '@/lib/audio/samples';
+import { cloneTuning } from '@/lib/audio/tuning';
+import { cloneProgression } from '@/lib/audio/progression';
+import { cloneTimeline } from '@/lib/audio/timeline';
+import { restoreSatellite } from '@/lib/entities/satellite';
+import { restoreComet } from '@/lib/entities/comet';
+import { migrateSolarSystemState, SOLAR_SYSTEM_STATE_VERSION } from './migrations';
+import { downloadBlob, timestampedFilename } from '@/utils/download';
+import { validateSolarSystemState } from './validation';
+import type { ValidationIssue } from './validation';
+
+export { SOLAR_SYSTEM_STATE_VERSION };
+
+/** MIME type used for downloads and accepted on upload / drop. */
+export const SOLAR_SYSTEM_MIME_TYPE = 'application/json';
+
+/**
+ * Captures the current simulation as a plain, JSON-safe SolarSystemState.
+ *
+ * Planet and comet position and velocity are read from the live physics body
+ * (when present) so the snapshot reflects where the planet actually is, not the
+ * value cached at the last tick.
+ */
+export function serializeSimulation(sim: SimulationState): SolarSystemState {
+  const {
+    star,
+    planets,
+    satellites,
+    comets,
+    timeScale,
+    gravityStrength,
+    satelliteHandoff,
+    midiBindings,
+    stereoWidth,
+    satellitePanning,
+    presets,
+    timeline,
+  } = sim.solarSystem;
+
+  return {
+    version: SOLAR_SYSTEM_STATE_VERSION,
+    timestamp: Date.now(),
+    star: star
+      ? {
+          id: star.id,
+          type: 'star',
+          position: { ...star.position },
+          mass: star.mass,
+          bpm: star.bpm,
+          key: star.key,
+          mode: star.mode,
+          tuning: cloneTuning(star.tuning),
+          progression: star.progression ? cloneProgression(star.progression) : null,
+          beat: star.beat,
+        }
+      : null,
+    planets: planets.map(serializePlanet),
+    satellites: satellites.map(serializeSatellite),
+    comets: comets.map(serializeComet),
+    timeScale,
+    gravityStrength,
+    satelliteHandoff,
+    midiBindings: midiBindings.map((b) => ({ ...b })),
+    stereoWidth,
+    satellitePanning,
+    presets: presets.map(clonePreset),
+    timeline: cloneTimeline(timeline),
+    timelineRevolutions: sim.timelineRevolutions,
+    bpmGlide: sim.bpmGlide && { ...sim.bpmGlide },
+    timelineOrigin: sim.timelineOrigin && { ...sim.timelineOrigin },
+  };
+}
+
+function serializePlanet(planet: Planet): Omit<Planet, 'physicsBody'> {
+  const { physicsBody, ...rest } = planet;
+  const position = physicsBody
+    ? { x: physicsBody.position.x, y: physicsBody.position.y }
+    : { ...planet.position };
+  const velocity = physicsBody
+    ? { x: physicsBody.velocity.x, y: physicsBody.velocity.y }
+    : { ...planet.velocity };
+
+  return {
+    ...rest,
+    position,
+    velocity,
+    noteSequence: [...planet.noteSequence],
+    patch: clonePatch(planet.patch),
+    samples: cloneSamples(planet.samples),
+    effects: cloneEffects(planet.effects),
+    modulations: cloneModulations(planet.modulations),
+  };
+}
+
+function serializeSatellite(satellite: Satellite): Omit<Satellite, 'physicsBody'> {
+  const { physicsBody, ...rest } = satellite;
+  return { ...rest, position: { ...satellite.position } };
+}
+
+function serializeComet(comet: Comet): Omit<Comet, 'physicsBody'> {
+  const { physicsBody, ...rest } = comet;
+  const position = physicsBody
+    ? { x: physicsBody.position.x, y: physicsBody.position.y }
+    : { ...comet.position };
+  const velocity = physicsBody
+    ? { x: physicsBody.velocity.x, y: physicsBody.velocity.y }
+    : { ...comet.velocity };
+
+  return {
+    ...rest,
+    position,
+    velocity,
+    nearbyBodyIds: [...comet.nearbyBodyIds],
+  };
+}
+
+/**
+ * Builds a fresh, paused simulation from a SolarSystemState.
+ *
+ * Matter.js bodies are recreated for the star, every planet and every comet,
+ * a synth is allocated per planet and per comet, and every satellite and
+ * comet starts with a zero trigger pulse. The timeline's revolution count,
+ * tempo glide and origin carry over so events stay in step with the star's beat.
+ * The caller is responsible for destroying any previous simulation.
+ */
+export function deserializeSimulation(state: SolarSystemState): SimulationState {
+  let sim = createSimulation();
+
+  const star = state.star ? restoreStar(state.star) : null;
+  if (star?.physicsBody) {
+    addBody(sim.physicsEngine, star.physicsBody);
+    setBpm(star.bpm);
+  }
+
+  const planets = state.planets.map(restorePlanet);
+  for (const planet of planets) {
+    if (planet.physicsBody) addBody(sim.physicsEngine, planet.physicsBody);
+    addSynth(
+      sim.synthManager,
+      planet.id,
+      planet.synthType as SynthType,
+      1,
+      planet.effects,
+      planet.patch,
+      planet.samples
+    );
+  }
+
+  const satellites = state.satellites.map(restoreSatellite);
+
+  const comets = state.comets.map(restoreComet);
+  for (const comet of comets) {
+    if (comet.physicsBody) addBody(sim.physicsEngine, comet.physicsBody);
+    addSynth(sim.synthManager, comet.id, comet.synthType as SynthType);
+  }
+
+  const triggerPulses = new Map<string, number>(
+    [...satellites, ...comets].map((b) => [b.id, 0])
+  );
+
+  sim = {
+    ...sim,
+    triggerPulses,
+    timelineRevolutions: state.timelineRevolutions,
+    bpmGlide: state.bpmGlide && { ...state.bpmGlide },
+    timelineOrigin: state.timelineOrigin && { ...state.timelineOrigin },
+    solarSystem: {
+      ...sim.solarSystem,
+      star,
+      planets,
+      satellites,
+      comets,
+      isPlaying: false,
+    },
+  };
+
+  sim = setSimulationTimeScale(sim, state.timeScale);
+  sim = setSimulationGravity(sim, state.gravityStrength);
+  sim = setSimulationSatelliteHandoff(sim, state.satelliteHandoff);
+  sim = setSimulationMidiBindings(sim, state.midiBindings.map((b) => ({ ...b })));
+  sim = setSimulationStereoWidth(sim, state.stereoWidth);
+  sim = setSimulationSatellitePanning(sim, state.satellitePanning);
+  sim = setSimulationPresets(sim, state.presets.map(clonePreset));
+  sim = setSimulationTimeline(sim, cloneTimeline(state.timeline));
+
+  return sim;
+}
+
+/**
+ * Serializes a SolarSystemState to pretty-printed JSON.
+ */
+export function solarSystemStateToJson(state: SolarSystemState): string {
+  return JSON.stringify(state, null, 2);
+}
+
+export type SolarSystemLoadResult =
+  | { ok: true; state: SolarSystemState }
+  | { ok: false; errors: ValidationIssue[] };
+
+/**
+ * Parses JSON text into a SolarSystemState: JSON.parse → migrate to the
+ * current version → validate. Never throws; every failure is returned as
+ * a list of path-addressed issues suitable for showing in the UI.
+ */
+export function parseSolarSystemJson(json: string): SolarSystemLoadResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { ok: false, errors: [{ path: '', message: `Invalid JSON: ${message}` }] };
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return {
+      ok: false,
+      errors: [{ path: '', message: 'Solar system file must contain a JSON object' }],
+    };
+  }
+
+  let migrated: unknown;
+  try {
+    migrated = migrateSolarSystemState(parsed as Record<string, unknown>);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { ok: false, errors: [{ path: 'version', message }] };
+  }
+
+  const result = validateSolarSystemState(migrated);
+  return result.valid
+    ? { ok: true, state: result.state }
+    : { ok: false, errors: result.errors };
+}
+
+/**
+ * Returns a default download filename for a saved state,
+ * e.g. "solar-system-2025-01-31T12-00-00.json".
+ */
+export function solarSystemFilename(state: SolarSystemState): string {
+  return timestampedFilename(new Date(state.timestamp), 'json');
+}
+
+/**
+ * Triggers a browser download of the given state as a .json file.
+ */
+export function downloadSolarSystemState(
+  state: SolarSystemState,
+  filename: string = solarSystemFilename(state)
+): void {
+  downloadBlob(solarSystemStateToJson(state), SOLAR_SYSTEM_MIME_TYPE, filename);
+}
+
+/**
+ * Reads a user-supplied file (upload or drop) and parses it with
+ * `parseSolarSystemJson`. Only rejects if the file itself can't be read.
+ */
+export function readSolarSystemFile(file: File): Promise<SolarSystemLoadResult> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(parseSolarSystemJson(String(reader.result)));
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * Returns true if a dropped/uploaded file looks like a saved solar system.
+ */
+export function isSolarSystemFile(file: File): boolean {
+  return file.type === SOLAR_SYSTEM_MIME_TYPE || file.name.toLowerCase().endsWith('.json');
+}
@@ -1,23 +1,129 @@
 'use client';
 
-import type { Star, Planet, Satellite, SolarSystem } from '@/types/celestial';
+import type {
+  Star,
+  Planet,
+  Satellite,
+  Comet,
+  DustParticle,
+  SolarSystem,
+  NoteDuration,
+  MusicalKey,
+  MusicalMode,
+} from '@/types/celestial';
+import type { WorldBounds } from '@/types/ui';
+import type {
+  BpmGlide,
+  ChordProgression,
+  MidiCcBinding,
+  EffectSettings,
+  ModulationRoute,
+  PlanetSample,
+  SynthPatch,
+  SynthPreset,
+  TimelineEvent,
+  Tuning,
+} from '@/types/audio';
 import type { SceneObject } from '@/lib/rendering/renderer';
 import { createPhysicsEngine, addBody, removeBody, setTimeScale, setGravityStrength } from '@/lib/physics/engine';
 import type { PhysicsEngine } from '@/lib/physics/engine';
 import { createLoopState, saveInitialState, rewindToStart, pauseLoop, resumeLoop, applyGravity } from '@/lib/physics/loop';
 import type { PhysicsLoopState, GravitySource } from '@/lib/physics/loop';
 import Matter from 'matter-js';
-import { createSynthManager, addSynth, triggerNote, disposeAll, getSynthCount, removeSynth } from '@/lib/audio/synthManager';
+import {
+  createSynthManager,
+  addSynth,
+  triggerNote,
+  disposeAll,
+  getSynthCount,
+  removeSynth,
+  setSynthEffects,
+  setModulatedParam,
+  resetModulatedParams,
+  setSynthPan,
+  setSynthPatch,
+  OSCILLATOR_SYNTH_TYPES,
+} from '@/lib/audio/synthManager';
 import type { SynthManager, SynthType } from '@/lib/audio/synthManager';
+import { isPanTarget, modulationSourceValues, modulatedValue, pruneModulations } from '@/lib/audio/modulation';
+import { positionPan, satellitePan } from '@/lib/audio/panning';
+import { clonePatch, defaultSynthPatch } from '@/lib/audio/patches';
+import { cloneSamples, sameSampleMap } from '@/lib/audio/samples';
 import { setBpm } from '@/lib/audio/context';
-import { createStar } from '@/lib/entities/star';
+import { createMidiRecorder, recordNoteTrigger, advanceMidiRecorder } from '@/lib/audio/midi';
+import type { MidiRecorder } from '@/lib/audio/midi';
+import { pruneMidiBindings } from '@/lib/audio/midiInput';
+import {
+  advanceStarBeat,
+  createStar,
+  setStarBpm,
+  setStarKey,
+  setStarMass,
+  setStarProgression,
+  setStarTuning,
+  syncStarBeat,
+} from '@/lib/entities/star';
 import type { CreateStarOptions } from '@/lib/entities/star';
-import { createPlanet, updatePlanet, MAX_PLANETS, setPlanetNoteSequence } from '@/lib/entities/planet';
+import {
+  createPlanet,
+  updatePlanet,
+  didCrossZero,
+  MAX_PLANETS,
+  setPlanetNoteSequence,
+  syncPlanetRotation,
+  cloneEffects,
+  cloneModulations,
+} from '@/lib/entities/planet';
 import type { CreatePlanetOptions } from '@/lib/entities/planet';
-import { createSatellite, updateSatellite, decayPulse, MAX_SATELLITES } from '@/lib/entities/satellite';
+import {
+  createSatellite,
+  updateSatellite,
+  decayPulse,
+  snapSatelliteToGrid,
+  findHandoffPlanet,
+  handOffSatellite,
+  satelliteNote,
+  satelliteSample,
+  MAX_SATELLITES,
+} from '@/lib/entities/satellite';
 import type { CreateSatelliteOptions } from '@/lib/entities/satellite';
-import { planetRadiusFromMass } from '@/lib/rendering/renderer';
-import { noteDurationToSeconds } from '@/utils/audio';
+import {
+  createComet,
+  updateComet,
+  getCometNote,
+  cometVolume,
+  shatterComet,
+  impactVolume,
+  shouldCullComet,
+  MAX_COMETS,
+  COMET_NOTE_DURATION,
+  IMPACT_NOTE_DURATION,
+} from '@/lib/entities/comet';
+import type { CreateCometOptions, CometApproachTarget } from '@/lib/entities/comet';
+import {
+  createDustBurst,
+  updateDust,
+  findDustCapture,
+  shouldCullDust,
+  MAX_DUST,
+  DUST_VISUAL_RADIUS,
+  DUST_CULL_MARGIN,
+} from '@/lib/entities/dust';
+import type { CreateDustBurstOptions } from '@/lib/entities/dust';
+import { planetRadiusFromMass, cometRadiusFromMass } from '@/lib/rendering/renderer';
+import { noteDurationToSeconds, noteDurationToMs, DURATION_BEATS } from '@/utils/audio';
+import { randomNoteSequence } from '@/lib/audio/scales';
+import { isStandardTuning, tunedFrequency } from '@/lib/audio/tuning';
+import {
+  applyTimelineEvent,
+  dueBarEvents,
+  dueRevolutionEvents,
+  glideBpm,
+  isGlideDone,
+  startBpmGlide,
+} from '@/lib/audio/timeline';
+import { createRng, pickRandom } from '@/utils/random';
+import { distance } from '@/utils/physics';
 import { setupCollisions } from '@/lib/physics/collisions';
 import { getCurrentNote } from '@/lib/entities/planet';
 
@@ -27,8 +133,37 @@ export interface SimulationState {
   loopState: PhysicsLoopState;
   synthManager: SynthManager;
   lastTimestamp: number;
-  /** Per-satellite trigger pulse values (0–1), keyed by satellite id */
+  /** Per-satellite and per-comet trigger pulse values (0–1), keyed by entity id */
   triggerPulses: Map<string, number>;
+  /**
+   * Collisions reported by Matter.js during physics steps. Filled by the
+   * collision callback and drained at the end of every tick.
+   */
+  pendingCollisions: PendingCollision[];
+  /** Collects planet and satellite notes for MIDI export while recording */
+  midiRecorder: MidiRecorder | null;
+  /**
+   * Planets whose voice is held at a satellite's pan, with the milliseconds
+   * left before it goes back to following the planet (satellite panning only)
+   */
+  panHolds: Map<string, number>;
+  /** Revolutions the outermost planet has completed since the start, counted for the timeline */
+  timelineRevolutions: number;
+  /** Timeline tempo change gliding the star's BPM, if one is in progress */
+  bpmGlide: BpmGlide | null;
+  /** The star's key, mode and BPM before the timeline first changed them, restored on rewind */
+  timelineOrigin: Pick<Star, 'key' | 'mode' | 'bpm'> | null;
+}
+
+/**
+ * A collision pair captured at `collisionStart`, before Matter.js resolves it,
+ * so the relative velocity is the true impact speed.
+ */
+export interface PendingCollision {
+  bodyA: Matter.Body;
+  bodyB: Matter.Body;
+  /** Relative speed of the two bodies at impact (px/step) */
+  impactSpeed: number;
 }
 
 /**
@@ -37,9 +172,16 @@ export interface SimulationState {
 export function createSimulation(): SimulationState {
   const physicsEngine = createPhysicsEngine({ gravity: 1, timeScale: 1 });
   const loopState = createLoopState();
-  const synthManager = createSynthManager(MAX_PLANETS);
-
-  setupCollisions(physicsEngine.engine);
+  const synthManager = createSynthManager(MAX_PLANETS + MAX_COMETS);
+  const pendingCollisions: PendingCollision[] = [];
+
+  setupCollisions(physicsEngine.engine, (bodyA, bodyB) => {
+    pendingCollisions.push({
+      bodyA,
+      bodyB,
+      impactSpeed: distance(bodyA.velocity, bodyB.velocity),
+    });
+  });
 
   return {
     physicsEngine,
@@ -47,13 +189,27 @@ export function createSimulation(): SimulationState {
     synthManager,
     lastTimestamp: 0,
     triggerPulses: new Map(),
+    pendingCollisions,
+    midiRecorder: null,
+    panHolds: new Map(),
+    timelineRevolutions: 0,
+    bpmGlide: null,
+    timelineOrigin: null,
     solarSystem: {
       star: null,
       planets: [],
       satellites: [],
+      comets: [],
+      dust: [],
       isPlaying: false,
       timeScale: 1,
       gravityStrength: 1,
+      satelliteHandoff: false,
+      midiBindings: [],
+      stereoWidth: 1,
+      satellitePanning: false,
+      presets: [],
+      timeline: [],
     },
   };
 }
@@ -79,12 +235,66 @@ export function addStar(
 
   return {
     ...sim,
+    bpmGlide: null,
+    timelineOrigin: null,
+    solarSystem: { ...sim.solarSystem, star },
+  };
+}
+
+export interface StarUpdateOptions {
+  bpm?: number;
+  key?: MusicalKey;
+  mode?: MusicalMode;
+  mass?: number;
+  tuning?: Tuning;
+  progression?: ChordProgression | null;
+}
+
+/**
+ * Updates editable properties of the existing star in-place, keeping its
+ * body and everything orbiting it. A BPM change is applied to the Transport.
+ *
+ * Planets resolve their notes against the star on every trigger, so a new
+ * key, mode, tuning or progression is heard from each planet's next note, continuing from
+ * its current position in the sequence. No-op without a star.
+ */
+export function updateStarProperties(
+  sim: SimulationState,
+  options: StarUpdateOptions
+): SimulationState {
+  const prev = sim.solarSystem.star;
+  if (!prev) return sim;
+
+  let star = prev;
+  if (options.bpm !== undefined) {
+    star = setStarBpm(star, options.bpm);
+    setBpm(star.bpm);
+  }
+  if (options.key !== undefined || options.mode !== undefined) {
+    star = setStarKey(star, options.key ?? star.key, options.mode ?? star.mode);
+  }
+  if (options.mass !== undefined) {
+    star = setStarMass(star, options.mass);
+  }
+  if (options.tuning !== undefined) {
+    star = setStarTuning(star, options.tuning);
+  }
+  if (options.progression !== undefined) {
+    star = setStarProgression(star, options.progression);
+  }
+
+  return {
+    ...sim,
+    // A BPM set by hand takes over from any timeline glide
+    bpmGlide: options.bpm !== undefined ? null : sim.bpmGlide,
     solarSystem: { ...sim.solarSystem, star },
   };
 }
 
 /**
  * Adds a planet to the simulation (max 20).
+ *
+ * @throws If the note sequence has errors
  */
 export function addPlanet(
   sim: SimulationState,
@@ -105,7 +315,15 @@ export function addPlanet(
     addBody(sim.physicsEngine, planet.physicsBody);
   }
 
-  addSynth(sim.synthManager, planet.id, planet.synthType as SynthType);
+  addSynth(
+    sim.synthManager,
+    planet.id,
+    planet.synthType as SynthType,
+    1,
+    planet.effects,
+    planet.patch,
+    planet.samples
+  );
 
   return {
     ...sim,
@@ -121,12 +339,26 @@ export interface PlanetUpdateOptions {
   noteSequence?: string;
   rotationSpeed?: import('@/types/celestial').NoteDuration;
   synthType?: SynthType;
+  /** Replaces the voice settings; reset to the new type's defaults if only synthType changes */
+  patch?: SynthPatch;
+  /** Replaces the sample map a Sampler plays */
+  samples?: PlanetSample[];
   clockwise?: boolean;
+  /** Replaces the whole effects chain */
+  effects?: EffectSettings[];
+  /** Replaces the whole modulation matrix */
+  modulations?: ModulationRoute[];
 }
 
 /**
  * Updates editable properties of an existing planet in-place.
- * If synthType changes, the old Tone.js synth is disposed and a new one created.
+ * If synthType changes, or a Sampler's samples do, the old Tone.js synth is
+ * disposed and a new one created with the planet's patch, samples and effects
+ * chain; otherwise a new patch or chain is applied to the live synth.
+ * Parameters moved by modulation are reset whenever the routes or effects
+ * change, so a removed route doesn't leave its last value behind.
+ *
+ * @throws If the note sequence has errors
  */
 export function updatePlanetProperties(
   sim: SimulationState,
@@ -136,22 +368,55 @@ export function updatePlanetProperties(
   const planet = sim.solarSystem.planets.find((p) => p.id === planetId);
   if (!planet) return sim;
 
-  const { noteSequence, synthType, ...rest } = options;
+  const {
+    noteSequence,
+    synthType,
+    patch: newPatch,
+    samples: newSamples,
+    effects: newEffects,
+    modulations: newModulations,
+    ...rest
+  } = options;
+  const typeChanged = synthType !== undefined && synthType !== planet.synthType;
+  const patch = newPatch
+    ? clonePatch(newPatch)
+    : typeChanged
+      ? defaultSynthPatch(synthType)
+      : planet.patch;
+  const samples = newSamples ? cloneSamples(newSamples) : planet.samples;
+  const nextType = (synthType ?? planet.synthType) as SynthType;
+  const rebuild = typeChanged || (nextType === 'Sampler' && !sameSampleMap(samples, planet.samples));
+  const effects = newEffects ? cloneEffects(newEffects) : planet.effects;
+  // Routes to a removed effect go with it
+  const modulations = pruneModulations(
+    newModulations ? cloneModulations(newModulations) : planet.modulations,
+    effects
+  );
 
-  // Swap synth if type changed
-  if (synthType !== undefined && synthType !== planet.synthType) {
+  // Swap synth if type changed (a Sampler can't unload samples, so it's rebuilt too)
+  if (rebuild) {
     removeSynth(sim.synthManager, planetId);
-    addSynth(sim.synthManager, planetId, synthType as SynthType);
+    addSynth(sim.synthManager, planetId, nextType, 1, effects, patch, samples);
+  } else {
+    if (newPatch) setSynthPatch(sim.synthManager, planetId, patch);
+    if (newEffects || newModulations) {
+      if (newEffects) setSynthEffects(sim.synthManager, planetId, effects);
+      resetModulatedParams(sim.synthManager, planetId);
+    }
   }
 
   // Apply scalar field updates, then re-parse note sequence if provided
   let updatedPlanet: Planet = {
     ...planet,
     ...rest,
-    synthType: synthType ?? planet.synthType,
+    synthType: nextType,
+    patch,
+    samples,
+    effects,
+    modulations,
   };
   if (noteSequence !== undefined) {
-    updatedPlanet = setPlanetNoteSequence(updatedPlanet, noteSequence);
+    updatedPlanet = setPlanetNoteSequence(updatedPlanet, noteSequence, sim.solarSystem.star?.mode);
   }
 
   return {
@@ -166,7 +431,8 @@ export function updatePlanetProperties(
 }
 
 /**
- * Removes a planet and all its satellites from the simulation.
+ * Removes a planet, all its satellites and any MIDI CC bindings to it from
+ * the simulation.
  */
 export function removePlanet(
   sim: SimulationState,
@@ -186,12 +452,16 @@ export function removePlanet(
   const newPulses = new Map(sim.triggerPulses);
   for (const id of removedSatelliteIds) newPulses.delete(id);
 
+  const planets = sim.solarSystem.planets.filter((p) => p.id !== planetId);
+
   return {
     ...sim,
     triggerPulses: newPulses,
     solarSystem: {
       ...sim.solarSystem,
-      planets: sim.solarSystem.planets.filter((p) => p.id !== planetId),
+      planets,
+      // MIDI CC bindings to the planet's mass go with it
+      midiBindings: pruneMidiBindings(sim.solarSystem.midiBindings, new Set(planets.map((p) => p.id))),
       satellites: sim.solarSystem.satellites.filter(
         (s) => s.parentPlanetId !== planetId
       ),
@@ -203,7 +473,7 @@ export function removePlanet(
  * Adds a satellite to a planet (max 100 total across all planets).
  *
  * @param sim - Current simulation state
- * @param options - Satellite creation options (parentPlanetId, orbitRadius, startAngle)
+ * @param options - Satellite creation options (parentPlanetId, orbitRadius, startAngle, orbit shape)
  */
 export function addSatellite(
   sim: SimulationState,
@@ -258,24 +528,203 @@ export function removeSatellite(
   };
 }
 
+/**
+ * Adds a comet to the simulation (max 10). Each comet gets its own synth voice.
+ */
+export function addComet(
+  sim: SimulationState,
+  options: CreateCometOptions
+): SimulationState {
+  if (sim.solarSystem.comets.length >= MAX_COMETS) {
+    console.warn('Comet limit reached (10)');
+    return sim;
+  }
+
+  const comet = createComet({
+    ...options,
+    star: sim.solarSystem.star ?? undefined,
+    gravityStrength: sim.solarSystem.gravityStrength,
+  });
+
+  if (comet.physicsBody) {
+    addBody(sim.physicsEngine, comet.physicsBody);
+  }
+
+  addSynth(sim.synthManager, comet.id, comet.synthType as SynthType);
+
+  return {
+    ...sim,
+    solarSystem: {
+      ...sim.solarSystem,
+      comets: [...sim.solarSystem.comets, comet],
+    },
+  };
+}
+
+/**
+ * Removes a comet, its physics body and its synth from the simulation.
+ */
+export function removeComet(
+  sim: SimulationState,
+  cometId: string
+): SimulationState {
+  const comet = sim.solarSystem.comets.find((c) => c.id === cometId);
+  if (!comet) return sim;
+
+  if (comet.physicsBody) removeBody(sim.physicsEngine, comet.physicsBody);
+  removeSynth(sim.synthManager, cometId);
+
+  const newPulses = new Map(sim.triggerPulses);
+  newPulses.delete(cometId);
+
+  return {
+    ...sim,
+    triggerPulses: newPulses,
+    solarSystem: {
+      ...sim.solarSystem,
+      comets: sim.solarSystem.comets.filter((c) => c.id !== cometId),
+    },
+  };
+}
+
+/**
+ * Removes comets that have escaped: unbound from the star and more than
+ * `margin` outside `bounds` (usually the visible viewport). Each frees its
+ * MAX_COMETS slot, synth and trigger pulse.
+ */
+export function cullComets(
+  sim: SimulationState,
+  bounds: WorldBounds,
+  margin?: number
+): SimulationState {
+  const { comets, star, gravityStrength } = sim.solarSystem;
+  const escaped = comets.filter((c) => shouldCullComet(c, star, bounds, margin, gravityStrength));
+  return escaped.reduce((next, comet) => removeComet(next, comet.id), sim);
+}
+
+/**
+ * Sprays a burst of space dust into the simulation. The burst is trimmed so
+ * no more than MAX_DUST particles are alive at once.
+ */
+export function sprayDust(
+  sim: SimulationState,
+  options: CreateDustBurstOptions
+): SimulationState {
+  const room = MAX_DUST - sim.solarSystem.dust.length;
+  if (room <= 0) {
+    console.warn(`Dust limit reached (${MAX_DUST})`);
+    return sim;
+  }
+
+  const burst = createDustBurst({
+    mode: sim.solarSystem.star?.mode,
+    ...options,
+    count: Math.min(room, options.count ?? Infinity),
+  });
+  for (const particle of burst) {
+    if (particle.physicsBody) addBody(sim.physicsEngine, particle.physicsBody);
+  }
+
+  return {
+    ...sim,
+    solarSystem: {
+      ...sim.solarSystem,
+      dust: [...sim.solarSystem.dust, ...burst],
+    },
+  };
+}
+
+/**
+ * Removes dust that has drifted more than `margin` outside `bounds` (usually
+ * the visible viewport) or has outlived DUST_MAX_AGE_MS.
+ */
+export function cullDust(
+  sim: SimulationState,
+  bounds: WorldBounds,
+  margin: number = DUST_CULL_MARGIN
+): SimulationState {
+  const { dust } = sim.solarSystem;
+  const culled = dust.filter((d) => shouldCullDust(d, bounds, margin));
+  if (culled.length === 0) return sim;
+
+  for (const particle of culled) {
+    if (particle.physicsBody) removeBody(sim.physicsEngine, particle.physicsBody);
+  }
+
+  return {
+    ...sim,
+    solarSystem: {
+      ...sim.solarSystem,
+      dust: dust.filter((d) => !culled.includes(d)),
+    },
+  };
+}
+
+/**
+ * Plays a note in the star's tuning. In standard tuning the synth gets the
+ * note name; otherwise it gets the tuned frequency, and a note the tuning's
+ * keyboard mapping leaves silent isn't played.
+ */
+function triggerTunedNote(
+  manager: SynthManager,
+  star: Star,
+  voiceId: string,
+  note: string,
+  durationSeconds: number,
+  volumeLinear: number,
+  time?: number
+): void {
+  if (isStandardTuning(star.tuning)) {
+    triggerNote(manager, voiceId, note, durationSeconds, volumeLinear, time);
+    return;
+  }
+  const frequency = tunedFrequency(note, star.key, star.tuning);
+  if (frequency !== null) {
+    triggerNote(manager, voiceId, note, durationSeconds, volumeLinear, time, frequency);
+  }
+}
+
 /**
  * Advances the simulation by one tick:
  * 1. Applies gravity forces
  * 2. Steps the physics engine
  * 3. Updates planets (revolution tracking, note advancement)
- * 4. Updates satellites (orbit position, 12 o'clock trigger detection)
+ * 4. Updates satellites (orbit position, 12 o'clock trigger detection) and,
+ *    in hand-off mode, re-parents those captured by another planet's Hill sphere
  * 5. Fires audio for triggered satellites
- * 6. Decays trigger pulse values
+ * 6. Updates comets and fires a one-shot note on each close approach
+ * 7. Decays trigger pulse values
+ * 8. Shatters comets that hit a planet into satellites of that planet
+ * 9. Captures space dust that has become bound to a planet or the star
+ * 10. Fires timeline events due on a bar the beat reached or on a revolution
+ *     of the outermost planet, and moves any tempo glide on
+ *
+ * Revolution and satellite notes are timed to the point within the tick at
+ * which the crossing happened, relative to `startTime` (or the offline
+ * recorder's clock while bouncing). Without either, notes play immediately.
+ *
+ * @param startTime - Audio-clock time (seconds) at which this tick begins
  */
 export function tickSimulation(
   sim: SimulationState,
-  deltaMs: number
+  deltaMs: number,
+  startTime?: number
 ): SimulationState {
   if (!sim.solarSystem.isPlaying) return sim;
 
-  const { star, planets, satellites } = sim.solarSystem;
+  const { star, planets, satellites, comets } = sim.solarSystem;
   if (!star) return sim;
 
+  const tickStart = startTime ?? sim.synthManager.recorder?.time;
+  const noteTime = (fraction: number) =>
+    tickStart === undefined ? undefined : tickStart + (fraction * deltaMs) / 1000;
+
+  const { stereoWidth, satellitePanning } = sim.solarSystem;
+  const panHolds = new Map<string, number>();
+  for (const [planetId, remaining] of sim.panHolds) {
+    if (remaining > deltaMs) panHolds.set(planetId, remaining - deltaMs);
+  }
+
   // ── Physics ──────────────────────────────────────────────────────────────
 
   const gravitySources: GravitySource[] = [];
@@ -306,15 +755,35 @@ export function tickSimulation(
   const updatedPlanets: Planet[] = [];
 
   for (const planet of planets) {
-    const { planet: updated, noteAdvanced, newNote } = updatePlanet(
+    const { planet: updated, noteAdvanced, newNotes, crossingFraction } = updatePlanet(
       planet,
       star,
       deltaMs
     );
 
-    if (noteAdvanced && newNote) {
+    if (noteAdvanced && newNotes.length > 0) {
       const durSec = noteDurationToSeconds(updated.rotationSpeed, star.bpm);
-      triggerNote(sim.synthManager, planet.id, newNote, durSec, 0.7);
+      // The planet's own note is heard from the planet again
+      panHolds.delete(planet.id);
+      // Every note of a chord, each at its own velocity
+      for (const { note, velocity } of newNotes) {
+        const volume = 0.7 * velocity;
+        triggerTunedNote(sim.synthManager, star, planet.id, note, durSec, volume, noteTime(crossingFraction));
+        if (sim.midiRecorder) {
+          recordNoteTrigger(
+            sim.midiRecorder,
+            {
+              satelliteId: null,
+              planetId: planet.id,
+              note,
+              volume,
+              durationBeats: DURATION_BEATS[updated.rotationSpeed],
+            },
+            updated.synthType,
+            crossingFraction * deltaMs
+          );
+        }
+      }
     }
 
     updatedPlanets.push(updated);
@@ -335,18 +804,54 @@ export function tickSimulation(
       continue;
     }
 
-    const { satellite: updated, triggered, triggerVolume } = updateSatellite(
+    const { satellite: updated, triggered, triggerVolume, triggerFraction } = updateSatellite(
       satellite,
       parentPlanet.position,
       deltaMs
     );
 
     if (triggered) {
-      // Fire the parent planet's current note
-      const note = getCurrentNote(parentPlanet, star);
+      // Fire the parent planet's current note, or the satellite's sample
+      const note = satelliteNote(updated, parentPlanet, star);
       if (note) {
         const durSec = noteDurationToSeconds(parentPlanet.rotationSpeed, star.bpm);
-        triggerNote(sim.synthManager, parentPlanet.id, note, durSec, triggerVolume);
+        if (satellitePanning) {
+          // The note plays on the planet's voice, so the whole voice moves to
+          // the satellite's side (planet notes still sounding included) and
+          // stays there until the note ends.
+          const pan = satellitePan(updated, parentPlanet, star.position, stereoWidth);
+          setSynthPan(sim.synthManager, parentPlanet.id, pan, noteTime(triggerFraction));
+          panHolds.set(parentPlanet.id, durSec * 1000);
+        }
+        if (satelliteSample(updated, parentPlanet)) {
+          // A sample plays at its own pitch: the star's tuning would repitch
+          // it, or silence it on a key the keyboard mapping leaves unmapped
+          triggerNote(sim.synthManager, parentPlanet.id, note, durSec, triggerVolume, noteTime(triggerFraction));
+        } else {
+          triggerTunedNote(
+            sim.synthManager,
+            star,
+            parentPlanet.id,
+            note,
+            durSec,
+            triggerVolume,
+            noteTime(triggerFraction)
+          );
+        }
+        if (sim.midiRecorder) {
+          recordNoteTrigger(
+            sim.midiRecorder,
+            {
+              satelliteId: satellite.id,
+              planetId: parentPlanet.id,
+              note,
+              volume: triggerVolume,
+              durationBeats: DURATION_BEATS[parentPlanet.rotationSpeed],
+            },
+            parentPlanet.synthType,
+            triggerFraction * deltaMs
+          );
+        }
       }
       // Set pulse to 1 for visual flash
       newPulses.set(updated.id, 1);
@@ -358,18 +863,241 @@ export function tickSimulation(
       }
     }
 
-    updatedSatellites.push(updated);
+    const captor = sim.solarSystem.satelliteHandoff
+      ? findHandoffPlanet(updated, parentPlanet, updatedPlanets, star)
+      : null;
+    updatedSatellites.push(captor ? handOffSatellite(updated, captor) : updated);
   }
 
-  return {
-    ...sim,
-    triggerPulses: newPulses,
-    solarSystem: {
-      ...sim.solarSystem,
-      planets: updatedPlanets,
-      satellites: updatedSatellites,
+  // ── Modulation ────────────────────────────────────────────────────────────
+
+  // Pan routes are added to the position pan below rather than set here
+  const panOffsets = new Map<string, number>();
+  for (const planet of updatedPlanets) {
+    if (planet.modulations.length === 0) continue;
+    const sources = modulationSourceValues(planet, star, updatedPlanets, updatedSatellites);
+    for (const route of planet.modulations) {
+      const value = modulatedValue(route, sources[route.source]);
+      if (isPanTarget(route.target)) {
+        panOffsets.set(planet.id, (panOffsets.get(planet.id) ?? 0) + value);
+      } else {
+        setModulatedParam(sim.synthManager, planet.id, route.target, value, noteTime(1));
+      }
+    }
+  }
+
+  // ── Panning ───────────────────────────────────────────────────────────────
+
+  for (const planet of updatedPlanets) {
+    if (panHolds.has(planet.id)) continue;
+    const pan = positionPan(planet.position, star.position, stereoWidth) + (panOffsets.get(planet.id) ?? 0);
+    setSynthPan(sim.synthManager, planet.id, pan, noteTime(1));
+  }
+
+  // ── Update comets ─────────────────────────────────────────────────────────
+
+  const approachTargets: CometApproachTarget[] = [
+    { id: star.id, position: star.position, radius: STAR_VISUAL_RADIUS },
+    ...updatedPlanets.map((p) => ({
+      id: p.id,
+      position: p.position,
+      radius: planetRadiusFromMass(p.mass),
+    })),
+  ];
+
+  const updatedComets: Comet[] = [];
+
+  for (const comet of comets) {
+    const { comet: updated, triggered } = updateComet(comet, approachTargets);
+    setSynthPan(
+      sim.synthManager,
+      updated.id,
+      positionPan(updated.position, star.position, stereoWidth),
+      noteTime(1)
+    );
+
+    if (triggered) {
+      const note = getCometNote(updated, star);
+      if (note) {
+        const durSec = noteDurationToSeconds(COMET_NOTE_DURATION, star.bpm);
+        triggerTunedNote(sim.synthManager, star, updated.id, note, durSec, cometVolume(updated.mass), noteTime(0));
+      }
+      newPulses.set(updated.id, 1);
+    } else {
+      const prev = newPulses.get(updated.id) ?? 0;
+      if (prev > 0) {
+        newPulses.set(updated.id, decayPulse(prev, deltaMs));
+      }
+    }
+
+    updatedComets.push(updated);
+  }
+
+  const afterImpacts = resolveCometImpacts(
+    {
+      ...sim,
+      triggerPulses: newPulses,
+      panHolds,
+      solarSystem: {
+        ...sim.solarSystem,
+        // The transport beat moves on, advancing the chord progression
+        star: advanceStarBeat(star, deltaMs),
+        planets: updatedPlanets,
+        satellites: updatedSatellites,
+        comets: updatedComets,
+      },
     },
-  };
+    noteTime(0)
+  );
+
+  if (sim.midiRecorder) advanceMidiRecorder(sim.midiRecorder, deltaMs, star.bpm);
+
+  const outermost = outermostPlanetIndex(updatedPlanets, star.position);
+  const outerRevolved =
+    outermost !== -1 && didCrossZero(planets[outermost].orbitAngle, updatedPlanets[outermost].orbitAngle);
+
+  return runTimeline(captureDust(afterImpacts, deltaMs), star.beat, outerRevolved);
+}
+
+/**
+ * Returns the index of the planet furthest from the star, or -1 without planets.
+ */
+function outermostPlanetIndex(planets: Planet[], starPosition: Star['position']): number {
+  let index = -1;
+  let furthest = -1;
+  planets.forEach((planet, i) => {
+    const d = distance(planet.position, starPosition);
+    if (d > furthest) {
+      furthest = d;
+      index = i;
+    }
+  });
+  return index;
+}
+
+/**
+ * Applies the timeline events due this tick to the star: bar events for
+ * bars starting between `fromBeat` and the star's beat now, and revolution
+ * events if the outermost planet has just come round. Tempo changes either
+ * jump or start a glide, which then moves the BPM on with the beat. The
+ * Transport follows any BPM change.
+ */
+function runTimeline(sim: SimulationState, fromBeat: number, outerRevolved: boolean): SimulationState {
+  const { star: before, timeline } = sim.solarSystem;
+  if (!before) return sim;
+
+  let star = before;
+  let { timelineRevolutions, bpmGlide } = sim;
+  const due = dueBarEvents(timeline, fromBeat, star.beat);
+  if (outerRevolved) {
+    timelineRevolutions += 1;
+    due.push(...dueRevolutionEvents(timeline, timelineRevolutions));
+  }
+
+  for (const event of due) {
+    star = applyTimelineEvent(star, event);
+    if (event.bpm !== null) bpmGlide = startBpmGlide(star, event);
+  }
+
+  if (bpmGlide) {
+    star = setStarBpm(star, glideBpm(bpmGlide, star.beat));
+    if (isGlideDone(bpmGlide, star.beat)) bpmGlide = null;
+  }
+
+  if (star === before && timelineRevolutions === sim.timelineRevolutions) return sim;
+  if (star.bpm !== before.bpm) setBpm(star.bpm);
+
+  const timelineOrigin =
+    sim.timelineOrigin ?? (star === before ? null : { key: before.key, mode: before.mode, bpm: before.bpm });
+  return { ...sim, timelineRevolutions, bpmGlide, timelineOrigin, solarSystem: { ...sim.solarSystem, star } };
+}
+
+/**
+ * Drains `pendingCollisions` and handles every comet–planet hit:
+ * - plays a short percussive note on the planet's synth at `time`, louder for faster impacts
+ * - removes the comet
+ * - adds its fragments as satellites of the planet (capped by MAX_SATELLITES),
+ *   each starting with a full trigger pulse
+ *
+ * Other collision pairs are left to Matter.js' elastic response.
+ */
+function resolveCometImpacts(sim: SimulationState, time?: number): SimulationState {
+  const collisions = sim.pendingCollisions.splice(0);
+  let result = sim;
+
+  for (const { bodyA, bodyB, impactSpeed } of collisions) {
+    const { comets, planets, star } = result.solarSystem;
+    const comet = comets.find((c) => c.physicsBody === bodyA || c.physicsBody === bodyB);
+    const planet = planets.find((p) => p.physicsBody === bodyA || p.physicsBody === bodyB);
+    // The comet may already be gone if it touched two planets in one tick
+    if (!comet || !planet) continue;
+
+    const note = star ? getCurrentNote(planet, star) : null;
+    if (star && note) {
+      const durSec = noteDurationToSeconds(IMPACT_NOTE_DURATION, star.bpm);
+      triggerTunedNote(result.synthManager, star, planet.id, note, durSec, impactVolume(impactSpeed), time);
+    }
+
+    result = removeComet(result, comet.id);
+
+    const satelliteCountBefore = result.solarSystem.satellites.length;
+    const capacity = MAX_SATELLITES - satelliteCountBefore;
+    for (const fragment of shatterComet(comet, planet, impactSpeed, capacity)) {
+      result = addSatellite(result, fragment);
+    }
+
+    const pulses = new Map(result.triggerPulses);
+    for (const satellite of result.solarSystem.satellites.slice(satelliteCountBefore)) {
+      pulses.set(satellite.id, 1);
+    }
+    result = { ...result, triggerPulses: pulses };
+  }
+
+  return result;
+}
+
+/**
+ * Updates every dust particle and converts the captured ones:
+ * - bound to a planet → a satellite of that planet at its current distance
+ * - bound to the star → a comet keeping the particle's velocity, note and synth
+ *
+ * The new body starts with a full trigger pulse. While the satellite or comet
+ * limit is reached, particles that would convert stay as dust.
+ */
+function captureDust(sim: SimulationState, deltaMs: number): SimulationState {
+  let result = sim;
+  const free: DustParticle[] = [];
+
+  for (const particle of sim.solarSystem.dust) {
+    const updated = updateDust(particle, deltaMs);
+    const { star, planets, satellites, comets, gravityStrength } = result.solarSystem;
+    const capture = findDustCapture(updated, star, planets, gravityStrength);
+
+    let captured: Satellite | Comet | undefined;
+    if (capture?.kind === 'planet' && satellites.length < MAX_SATELLITES) {
+      result = addSatellite(result, capture.satellite);
+      captured = result.solarSystem.satellites[satellites.length];
+    } else if (capture?.kind === 'star' && comets.length < MAX_COMETS) {
+      result = addComet(result, {
+        x: updated.position.x,
+        y: updated.position.y,
+        note: updated.note,
+        synthType: updated.synthType as SynthType,
+        velocity: updated.velocity,
+      });
+      captured = result.solarSystem.comets[comets.length];
+    }
+
+    if (!captured) {
+      free.push(updated);
+      continue;
+    }
+
+    if (updated.physicsBody) removeBody(result.physicsEngine, updated.physicsBody);
+    result = { ...result, triggerPulses: new Map(result.triggerPulses).set(captured.id, 1) };
+  }
+
+  return { ...result, solarSystem: { ...result.solarSystem, dust: free } };
 }
 
 /**
@@ -396,16 +1124,129 @@ export function pauseSimulation(sim: SimulationState): SimulationState {
 }
 
 /**
- * Rewinds to initial conditions and pauses.
+ * Rewinds to initial conditions and pauses. The star's beat goes back to 0,
+ * so the chord progression starts over, and the timeline's bars and
+ * revolutions count from the start again, with the star back in the key,
+ * mode and tempo it had before the timeline first changed them.
  */
 export function rewindSimulation(sim: SimulationState): SimulationState {
   rewindToStart(sim.physicsEngine, sim.loopState);
+  const { star } = sim.solarSystem;
+  const { timelineOrigin } = sim;
+  if (star && timelineOrigin) setBpm(timelineOrigin.bpm);
   return {
     ...sim,
-    solarSystem: { ...sim.solarSystem, isPlaying: false },
+    timelineRevolutions: 0,
+    bpmGlide: null,
+    timelineOrigin: null,
+    solarSystem: { ...sim.solarSystem, star: star && { ...star, ...timelineOrigin, beat: 0 }, isPlaying: false },
+  };
+}
+
+/**
+ * Starts capturing planet-revolution notes and satellite triggers for MIDI
+ * export. The recording clock only runs while the simulation is playing.
+ * Replaces any recording already in progress.
+ */
+export function startMidiRecording(sim: SimulationState): SimulationState {
+  return { ...sim, midiRecorder: createMidiRecorder(sim.solarSystem.star?.bpm ?? 120) };
+}
+
+/**
+ * Stops MIDI recording and returns what was captured (null if nothing was
+ * being recorded).
+ */
+export function stopMidiRecording(sim: SimulationState): {
+  sim: SimulationState;
+  recording: MidiRecorder | null;
+} {
+  return { sim: { ...sim, midiRecorder: null }, recording: sim.midiRecorder };
+}
+
+export interface SyncOptions {
+  /** Also nudge satellites so their triggers land on the 16th-note grid (default true) */
+  snapSatellites?: boolean;
+}
+
+/**
+ * Re-aligns everything to the star's beat grid, treating "now" as a downbeat:
+ * - each planet's rotation is snapped forward to the next bar boundary
+ * - the star's beat is snapped forward to the next bar line, so the chord
+ *   progression changes on that downbeat too
+ * - optionally, each satellite's orbit angle is nudged so its next trigger
+ *   lands on the nearest 16th-note slot
+ *
+ * Physics bodies are untouched. No-op without a star.
+ */
+export function syncSimulation(
+  sim: SimulationState,
+  options: SyncOptions = {}
+): SimulationState {
+  const { star, planets, satellites } = sim.solarSystem;
+  if (!star) return sim;
+
+  const { snapSatellites = true } = options;
+
+  const syncedPlanets = planets.map((p) => syncPlanetRotation(p, star));
+
+  let syncedSatellites = satellites;
+  if (snapSatellites) {
+    const gridMs = noteDurationToMs('sixteenth', star.bpm);
+    syncedSatellites = satellites.map((satellite) => {
+      const parent = syncedPlanets.find((p) => p.id === satellite.parentPlanetId);
+      return parent ? snapSatelliteToGrid(satellite, parent.position, gridMs) : satellite;
+    });
+  }
+
+  return {
+    ...sim,
+    solarSystem: {
+      ...sim.solarSystem,
+      star: syncStarBeat(star),
+      planets: syncedPlanets,
+      satellites: syncedSatellites,
+    },
   };
 }
 
+export interface RandomizeOptions {
+  /** Also generate a new note sequence for each planet (default false) */
+  noteSequences?: boolean;
+  /** Also pick a new synth type for each planet (default false) */
+  synthTypes?: boolean;
+}
+
+/**
+ * Picks a new rotation speed for every planet — and optionally a new note
+ * sequence and synth type — from a seeded PRNG. The same seed, options and
+ * planets always give the same result.
+ *
+ * Note sequences are scale degrees, so they always fit the star's key and mode.
+ *
+ * @param seed - Any string; re-enter it to reproduce a result
+ */
+export function randomizeSimulation(
+  sim: SimulationState,
+  seed: string,
+  options: RandomizeOptions = {}
+): SimulationState {
+  const { noteSequences = false, synthTypes = false } = options;
+  const rng = createRng(seed);
+  const durations = Object.keys(DURATION_BEATS) as NoteDuration[];
+
+  let result = sim;
+  for (const planet of sim.solarSystem.planets) {
+    const update: PlanetUpdateOptions = { rotationSpeed: pickRandom(rng, durations) };
+    if (noteSequences) {
+      update.noteSequence = randomNoteSequence(rng, { mode: sim.solarSystem.star?.mode }).join(' ');
+    }
+    if (synthTypes) update.synthType = pickRandom(rng, OSCILLATOR_SYNTH_TYPES);
+    result = updatePlanetProperties(result, planet.id, update);
+  }
+
+  return result;
+}
+
 /**
  * Updates the time scale of the simulation.
  */
@@ -434,6 +1275,80 @@ export function setSimulationGravity(
   };
 }
 
+/**
+ * Turns satellite hand-off mode on or off. When on, a satellite that passes
+ * deep enough into another planet's Hill sphere switches to orbiting it.
+ */
+export function setSimulationSatelliteHandoff(
+  sim: SimulationState,
+  enabled: boolean
+): SimulationState {
+  return {
+    ...sim,
+    solarSystem: { ...sim.solarSystem, satelliteHandoff: enabled },
+  };
+}
+
+/**
+ * Sets the global stereo width: 0 plays every voice in the centre, 1 pans
+ * voices fully across the field with their distance from the star.
+ */
+export function setSimulationStereoWidth(sim: SimulationState, width: number): SimulationState {
+  return {
+    ...sim,
+    solarSystem: { ...sim.solarSystem, stereoWidth: Math.max(0, Math.min(1, width)) },
+  };
+}
+
+/**
+ * Enables or disables satellite panning: while on, a satellite's note is
+ * placed to its own side of its planet (see `satellitePan`) rather than at
+ * the planet's pan. Satellites play on their planet's voice, so the planet's
+ * sounding notes move with it for the length of the satellite's note.
+ */
+export function setSimulationSatellitePanning(
+  sim: SimulationState,
+  enabled: boolean
+): SimulationState {
+  return {
+    ...sim,
+    solarSystem: { ...sim.solarSystem, satellitePanning: enabled },
+  };
+}
+
+/**
+ * Replaces the MIDI CC bindings stored with the solar system.
+ */
+export function setSimulationMidiBindings(
+  sim: SimulationState,
+  midiBindings: MidiCcBinding[]
+): SimulationState {
+  return {
+    ...sim,
+    solarSystem: { ...sim.solarSystem, midiBindings },
+  };
+}
+
+/**
+ * Replaces the synth preset library stored with the solar system.
+ */
+export function setSimulationPresets(sim: SimulationState, presets: SynthPreset[]): SimulationState {
+  return {
+    ...sim,
+    solarSystem: { ...sim.solarSystem, presets },
+  };
+}
+
+/**
+ * Replaces the timeline of key, mode and tempo changes stored with the solar system.
+ */
+export function setSimulationTimeline(sim: SimulationState, timeline: TimelineEvent[]): SimulationState {
+  return {
+    ...sim,
+    solarSystem: { ...sim.solarSystem, timeline },
+  };
+}
+
 /**
  * Converts simulation state to a flat SceneObject array for the renderer.
  * Includes trigger pulse values for satellite highlight animation.
@@ -443,13 +1358,13 @@ export function simulationToSceneObjects(sim: SimulationState): {
   starPosition: { x: number; y: number } | undefined;
 } {
   const objects: SceneObject[] = [];
-  const { star, planets, satellites } = sim.solarSystem;
+  const { star, planets, satellites, comets, dust } = sim.solarSystem;
 
   if (star) {
     objects.push({
       type: 'star',
       position: star.position,
-      radius: 18,
+      radius: STAR_VISUAL_RADIUS,
     });
   }
 
@@ -473,6 +1388,25 @@ export function simulationToSceneObjects(sim: SimulationState): {
       triggerPulse: sim.triggerPulses.get(satellite.id) ?? 0,
       orbitCenter: parentPlanet?.position,
       orbitRadius: satellite.orbitRadius,
+      orbitEccentricity: satellite.eccentricity,
+      orbitPeriapsisAngle: satellite.argumentOfPeriapsis,
+    });
+  }
+
+  for (const comet of comets) {
+    objects.push({
+      type: 'comet',
+      position: comet.position,
+      radius: cometRadiusFromMass(comet.mass),
+      triggerPulse: sim.triggerPulses.get(comet.id) ?? 0,
+    });
+  }
+
+  for (const particle of dust) {
+    objects.push({
+      type: 'dust',
+      position: particle.position,
+      radius: DUST_VISUAL_RADIUS,
     });
   }
 
@@ -482,6 +1416,7 @@ export function simulationToSceneObjects(sim: SimulationState): {
   };
 }
 
+const STAR_VISUAL_RADIUS = 18;
 const SATELLITE_VISUAL_RADIUS = 3;
 
 /**
@@ -507,6 +1442,20 @@ export function getSatelliteCount(sim: SimulationState): number {
   return sim.solarSystem.satellites.length;
 }
 
+/**
+ * Returns the number of active comets.
+ */
+export function getCometCount(sim: SimulationState): number {
+  return sim.solarSystem.comets.length;
+}
+
+/**
+ * Returns the number of free-flying dust particles.
+ */
+export function getDustCount(sim: SimulationState): number {
+  return sim.solarSystem.dust.length;
+}
+
 /**
  * Returns the number of active synth instances.
  */
@@ -0,0 +1,701 @@
+import type { SolarSystemState } from '@/types/celestial';
+import {
+  KEY_SEMITONE,
+  MUSICAL_MODES,
+  isValidChordSymbol,
+  isValidScaleDegree,
+  noteToMidi,
+} from '@/lib/audio/scales';
+import { OSCILLATOR_SYNTH_TYPES, SYNTH_TYPES } from '@/lib/audio/synthManager';
+import { MAX_SAMPLES, isValidSampleNote } from '@/lib/audio/samples';
+import { MAX_SEQUENCE_STEPS, isValidSequenceStep } from '@/lib/audio/noteSequence';
+import { DURATION_BEATS } from '@/utils/audio';
+import { SATELLITE_MAX_ECCENTRICITY, SATELLITE_TRIGGER_POINTS } from '@/lib/entities/satellite';
+import { MIDI_CONTROL_TARGETS } from '@/lib/audio/midiInput';
+import { EFFECT_TYPES, EFFECT_PARAMS, MAX_EFFECTS } from '@/lib/audio/effects';
+import {
+  MAX_MODULATIONS,
+  MODULATION_SOURCE_TYPES,
+  MODULATION_CURVES,
+  findModulationTarget,
+} from '@/lib/audio/modulation';
+import {
+  PATCH_WAVEFORMS,
+  ENVELOPE_PARAMS,
+  FILTER_ENVELOPE_PARAMS,
+  HARMONICITY_PARAM,
+  MODULATION_INDEX_PARAM,
+} from '@/lib/audio/patches';
+import type { PatchParamSpec } from '@/lib/audio/patches';
+import {
+  MAX_REFERENCE_FREQUENCY,
+  MAX_SCALA_NOTES,
+  MIN_REFERENCE_FREQUENCY,
+  TUNING_SYSTEMS,
+} from '@/lib/audio/tuning';
+import {
+  CHORD_FOLLOWS,
+  MAX_BARS_PER_CHORD,
+  MAX_PROGRESSION_CHORDS,
+  MIN_BARS_PER_CHORD,
+} from '@/lib/audio/progression';
+import { MAX_GLIDE_BARS, MAX_TIMELINE_EVENTS, MAX_TRANSPOSE, TIMELINE_UNITS } from '@/lib/audio/timeline';
+import type { EffectSettings, EffectType } from '@/types/audio';
+
+/**
+ * A single problem found in a saved solar system, addressed by a
+ * JSON-path-like string such as "planets[2].noteSequence[1]".
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type ValidationResult =
+  | { valid: true; state: SolarSystemState }
+  | { valid: false; errors: ValidationIssue[] };
+
+type Obj = Record<string, unknown>;
+
+function isObject(value: unknown): value is Obj {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function fail(errors: ValidationIssue[], path: string, message: string): false {
+  errors.push({ path, message });
+  return false;
+}
+
+function checkString(errors: ValidationIssue[], obj: Obj, key: string, path: string): boolean {
+  const value = obj[key];
+  return (
+    (typeof value === 'string' && value.length > 0) ||
+    fail(errors, join(path, key), 'must be a non-empty string')
+  );
+}
+
+interface NumberBounds {
+  min?: number;
+  max?: number;
+  /** If true, `min` itself is rejected (value must be strictly greater) */
+  exclusiveMin?: boolean;
+}
+
+function checkNumber(
+  errors: ValidationIssue[],
+  obj: Obj,
+  key: string,
+  path: string,
+  bounds: NumberBounds = {}
+): boolean {
+  const value = obj[key];
+  const p = join(path, key);
+  if (!isFiniteNumber(value)) return fail(errors, p, 'must be a finite number');
+
+  const { min, max, exclusiveMin = false } = bounds;
+  if (min !== undefined && (exclusiveMin ? value <= min : value < min)) {
+    const relation = exclusiveMin ? 'greater than' : 'at least';
+    return fail(errors, p, `must be ${relation} ${min} (got ${value})`);
+  }
+  if (max !== undefined && value > max) {
+    return fail(errors, p, `must be at most ${max} (got ${value})`);
+  }
+  return true;
+}
+
+function checkOneOf(
+  errors: ValidationIssue[],
+  obj: Obj,
+  key: string,
+  path: string,
+  allowed: readonly string[],
+  label: string
+): boolean {
+  const value = obj[key];
+  return (
+    (typeof value === 'string' && allowed.includes(value)) ||
+    fail(errors, join(path, key), `unknown ${label} ${JSON.stringify(value)}`)
+  );
+}
+
+function checkBoolean(errors: ValidationIssue[], obj: Obj, key: string, path: string): boolean {
+  return typeof obj[key] === 'boolean' || fail(errors, join(path, key), 'must be true or false');
+}
+
+function checkLiteral(errors: ValidationIssue[], obj: Obj, key: string, path: string, expected: string): boolean {
+  return obj[key] === expected || fail(errors, join(path, key), `must be "${expected}"`);
+}
+
+function checkVector(errors: ValidationIssue[], obj: Obj, key: string, path: string): boolean {
+  const vec = obj[key];
+  const p = join(path, key);
+  if (!isObject(vec)) return fail(errors, p, 'must be an object with x and y');
+  const okX = checkNumber(errors, vec, 'x', p);
+  const okY = checkNumber(errors, vec, 'y', p);
+  return okX && okY;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+const MUSICAL_KEYS = Object.keys(KEY_SEMITONE);
+const NOTE_DURATIONS = Object.keys(DURATION_BEATS);
+
+function checkStar(errors: ValidationIssue[], star: Obj, path: string): void {
+  checkString(errors, star, 'id', path);
+  checkLiteral(errors, star, 'type', path, 'star');
+  checkVector(errors, star, 'position', path);
+  checkNumber(errors, star, 'mass', path, { min: 0, exclusiveMin: true });
+  checkNumber(errors, star, 'bpm', path, { min: 1, max: 300 });
+  checkOneOf(errors, star, 'key', path, MUSICAL_KEYS, 'MusicalKey');
+  checkOneOf(errors, star, 'mode', path, MUSICAL_MODES, 'MusicalMode');
+
+  const tuningPath = join(path, 'tuning');
+  if (isObject(star.tuning)) checkTuning(errors, star.tuning, tuningPath);
+  else fail(errors, tuningPath, 'must be an object');
+
+  const progressionPath = join(path, 'progression');
+  if (isObject(star.progression)) checkProgression(errors, star.progression, progressionPath);
+  else if (star.progression !== null) fail(errors, progressionPath, 'must be an object or null');
+  checkNumber(errors, star, 'beat', path, { min: 0 });
+}
+
+function checkProgression(errors: ValidationIssue[], progression: Obj, path: string): void {
+  const chordsPath = join(path, 'chords');
+  const { chords } = progression;
+  if (!Array.isArray(chords) || chords.length < 1 || chords.length > MAX_PROGRESSION_CHORDS) {
+    fail(errors, chordsPath, `must be an array of 1 to ${MAX_PROGRESSION_CHORDS} chord symbols`);
+  } else {
+    chords.forEach((chord, i) => {
+      if (typeof chord !== 'string' || !isValidChordSymbol(chord)) {
+        fail(errors, join(chordsPath, i), `invalid ChordSymbol ${JSON.stringify(chord)} (expected e.g. "I", "vi", "V7")`);
+      }
+    });
+  }
+
+  const bars = { min: MIN_BARS_PER_CHORD, max: MAX_BARS_PER_CHORD };
+  if (checkNumber(errors, progression, 'barsPerChord', path, bars) && !Number.isInteger(progression.barsPerChord)) {
+    fail(errors, join(path, 'barsPerChord'), 'must be an integer');
+  }
+  checkOneOf(errors, progression, 'follow', path, CHORD_FOLLOWS, 'ChordFollow');
+}
+
+function checkTuning(errors: ValidationIssue[], tuning: Obj, path: string): void {
+  checkOneOf(errors, tuning, 'system', path, TUNING_SYSTEMS, 'TuningSystem');
+  checkNumber(errors, tuning, 'referenceFrequency', path, {
+    min: MIN_REFERENCE_FREQUENCY,
+    max: MAX_REFERENCE_FREQUENCY,
+  });
+
+  const scalePath = join(path, 'scale');
+  if (isObject(tuning.scale)) {
+    checkScalaScale(errors, tuning.scale, scalePath);
+  } else if (tuning.scale !== null) {
+    fail(errors, scalePath, 'must be an object or null');
+  } else if (tuning.system === 'scala') {
+    fail(errors, scalePath, 'is required by the Scala tuning system');
+  }
+
+  const mappingPath = join(path, 'keyboardMapping');
+  if (isObject(tuning.keyboardMapping)) checkKeyboardMapping(errors, tuning.keyboardMapping, mappingPath);
+  else if (tuning.keyboardMapping !== null) fail(errors, mappingPath, 'must be an object or null');
+}
+
+function checkScalaScale(errors: ValidationIssue[], scale: Obj, path: string): void {
+  checkString(errors, scale, 'name', path);
+  if (typeof scale.description !== 'string') fail(errors, join(path, 'description'), 'must be a string');
+
+  const centsPath = join(path, 'cents');
+  const { cents } = scale;
+  if (!Array.isArray(cents) || cents.length < 1 || cents.length > MAX_SCALA_NOTES) {
+    fail(errors, centsPath, `must be an array of 1 to ${MAX_SCALA_NOTES} pitches`);
+    return;
+  }
+  cents.forEach((c, i) => {
+    if (!isFiniteNumber(c) || c <= 0) fail(errors, join(centsPath, i), 'must be a pitch above 0 cents');
+    else if (i > 0 && isFiniteNumber(cents[i - 1]) && c <= cents[i - 1]) {
+      fail(errors, join(centsPath, i), 'pitches must ascend');
+    }
+  });
+}
+
+function checkKeyboardMapping(errors: ValidationIssue[], kbm: Obj, path: string): void {
+  checkString(errors, kbm, 'name', path);
+  for (const key of ['size', 'octaveDegree']) {
+    if (checkNumber(errors, kbm, key, path, { min: 0 }) && !Number.isInteger(kbm[key])) {
+      fail(errors, join(path, key), 'must be an integer');
+    }
+  }
+  for (const key of ['firstNote', 'lastNote', 'middleNote', 'referenceNote']) {
+    if (checkNumber(errors, kbm, key, path, { min: 0, max: 127 }) && !Number.isInteger(kbm[key])) {
+      fail(errors, join(path, key), 'must be a MIDI note number');
+    }
+  }
+  checkNumber(errors, kbm, 'referenceFrequency', path, { min: 0, exclusiveMin: true });
+
+  const mappingPath = join(path, 'mapping');
+  if (!Array.isArray(kbm.mapping) || kbm.mapping.length !== kbm.size) {
+    fail(errors, mappingPath, 'must be an array with one entry per key in the map size');
+    return;
+  }
+  kbm.mapping.forEach((entry, i) => {
+    if (entry !== null && !(Number.isInteger(entry) && (entry as number) >= 0)) {
+      fail(errors, join(mappingPath, i), 'must be a scale degree or null');
+    }
+  });
+}
+
+function checkPlanet(errors: ValidationIssue[], planet: Obj, path: string): void {
+  checkString(errors, planet, 'id', path);
+  checkLiteral(errors, planet, 'type', path, 'planet');
+  checkVector(errors, planet, 'position', path);
+  checkVector(errors, planet, 'velocity', path);
+  checkNumber(errors, planet, 'mass', path, { min: 0, exclusiveMin: true });
+  checkNumber(errors, planet, 'rotation', path);
+  checkOneOf(errors, planet, 'rotationSpeed', path, NOTE_DURATIONS, 'NoteDuration');
+  checkOneOf(errors, planet, 'synthType', path, SYNTH_TYPES, 'SynthType');
+  checkNumber(errors, planet, 'orbitRadius', path, { min: 0 });
+  checkNumber(errors, planet, 'orbitAngle', path);
+  checkPatchField(errors, planet, path);
+  checkSamples(errors, planet, path);
+
+  const seqPath = join(path, 'noteSequence');
+  const sequence = planet.noteSequence;
+  if (!Array.isArray(sequence)) {
+    fail(errors, seqPath, 'must be an array of sequence steps');
+  } else {
+    if (sequence.length > MAX_SEQUENCE_STEPS) {
+      fail(errors, seqPath, `must have at most ${MAX_SEQUENCE_STEPS} steps (got ${sequence.length})`);
+    }
+    sequence.forEach((step, i) => {
+      if (typeof step !== 'string' || !isValidSequenceStep(step)) {
+        fail(
+          errors,
+          join(seqPath, i),
+          `invalid SequenceStep ${JSON.stringify(step)} (expected e.g. "I4", "bIII4!0.5", "[I4 III4 V4]", "-")`
+        );
+      }
+    });
+  }
+
+  const effectsPath = join(path, 'effects');
+  if (!Array.isArray(planet.effects)) {
+    fail(errors, effectsPath, 'must be an array of effects');
+  } else {
+    if (planet.effects.length > MAX_EFFECTS) {
+      fail(errors, effectsPath, `must have at most ${MAX_EFFECTS} effects (got ${planet.effects.length})`);
+    }
+    planet.effects.forEach((effect, i) => {
+      const p = join(effectsPath, i);
+      if (isObject(effect)) checkEffect(errors, effect, p);
+      else fail(errors, p, 'must be an object');
+    });
+    checkUniqueIds(errors, planet.effects, effectsPath);
+  }
+
+  const modulationsPath = join(path, 'modulations');
+  if (!Array.isArray(planet.modulations)) {
+    fail(errors, modulationsPath, 'must be an array of modulation routes');
+  } else {
+    if (planet.modulations.length > MAX_MODULATIONS) {
+      fail(
+        errors,
+        modulationsPath,
+        `must have at most ${MAX_MODULATIONS} routes (got ${planet.modulations.length})`
+      );
+    }
+    // Routes may target any effect whose type is known; other effect errors are reported above
+    const effects = (Array.isArray(planet.effects) ? planet.effects : []).filter(
+      (e): e is EffectSettings => isObject(e) && EFFECT_TYPES.includes(e.type as EffectType)
+    );
+    planet.modulations.forEach((route, i) => {
+      const p = join(modulationsPath, i);
+      if (isObject(route)) checkModulation(errors, route, p, effects);
+      else fail(errors, p, 'must be an object');
+    });
+    checkUniqueIds(errors, planet.modulations, modulationsPath);
+  }
+
+  if (checkNumber(errors, planet, 'currentNoteIndex', path, { min: 0 })) {
+    const index = planet.currentNoteIndex as number;
+    const length = Array.isArray(sequence) ? sequence.length : 0;
+    if (!Number.isInteger(index) || (length > 0 && index >= length)) {
+      fail(
+        errors,
+        join(path, 'currentNoteIndex'),
+        `must be an integer index into noteSequence (got ${index})`
+      );
+    }
+  }
+}
+
+function checkPatchField(errors: ValidationIssue[], owner: Obj, path: string): void {
+  const patchPath = join(path, 'patch');
+  if (isObject(owner.patch)) checkPatch(errors, owner.patch, patchPath);
+  else fail(errors, patchPath, 'must be an object');
+}
+
+function checkParams(errors: ValidationIssue[], obj: Obj, key: string, path: string, specs: PatchParamSpec[]): void {
+  const value = obj[key];
+  const p = join(path, key);
+  if (!isObject(value)) {
+    fail(errors, p, 'must be an object');
+    return;
+  }
+  for (const spec of specs) {
+    checkNumber(errors, value, spec.name, p, { min: spec.min, max: spec.max });
+  }
+}
+
+function checkPatch(errors: ValidationIssue[], patch: Obj, path: string): void {
+  checkOneOf(errors, patch, 'oscillator', path, PATCH_WAVEFORMS, 'PatchWaveform');
+  checkParams(errors, patch, 'envelope', path, ENVELOPE_PARAMS);
+  checkNumber(errors, patch, 'harmonicity', path, { min: HARMONICITY_PARAM.min, max: HARMONICITY_PARAM.max });
+  checkNumber(errors, patch, 'modulationIndex', path, {
+    min: MODULATION_INDEX_PARAM.min,
+    max: MODULATION_INDEX_PARAM.max,
+  });
+  checkParams(errors, patch, 'filterEnvelope', path, FILTER_ENVELOPE_PARAMS);
+}
+
+function checkSamples(errors: ValidationIssue[], planet: Obj, path: string): void {
+  const samplesPath = join(path, 'samples');
+  if (!Array.isArray(planet.samples)) {
+    fail(errors, samplesPath, 'must be an array of samples');
+    return;
+  }
+  if (planet.samples.length > MAX_SAMPLES) {
+    fail(errors, samplesPath, `must have at most ${MAX_SAMPLES} samples (got ${planet.samples.length})`);
+  }
+  const notes = new Set<number>();
+  planet.samples.forEach((sample, i) => {
+    const p = join(samplesPath, i);
+    if (!isObject(sample)) {
+      fail(errors, p, 'must be an object');
+      return;
+    }
+    checkString(errors, sample, 'id', p);
+    checkString(errors, sample, 'name', p);
+    if (typeof sample.url !== 'string' || !sample.url.startsWith('data:audio/')) {
+      fail(errors, join(p, 'url'), 'must be an audio data URL');
+    }
+    if (typeof sample.note !== 'string' || !isValidSampleNote(sample.note)) {
+      fail(errors, join(p, 'note'), `invalid note ${JSON.stringify(sample.note)} (expected e.g. "C4")`);
+    } else {
+      const midi = noteToMidi(sample.note);
+      if (notes.has(midi)) fail(errors, join(p, 'note'), `duplicate root note "${sample.note}"`);
+      notes.add(midi);
+    }
+  });
+  checkUniqueIds(errors, planet.samples, samplesPath);
+}
+
+function checkPreset(errors: ValidationIssue[], preset: Obj, path: string): void {
+  checkString(errors, preset, 'name', path);
+  checkOneOf(errors, preset, 'synthType', path, SYNTH_TYPES, 'SynthType');
+  checkPatchField(errors, preset, path);
+}
+
+function checkEffect(errors: ValidationIssue[], effect: Obj, path: string): void {
+  checkString(errors, effect, 'id', path);
+  checkBoolean(errors, effect, 'bypassed', path);
+  if (!checkOneOf(errors, effect, 'type', path, EFFECT_TYPES, 'EffectType')) return;
+
+  const paramsPath = join(path, 'params');
+  if (!isObject(effect.params)) {
+    fail(errors, paramsPath, 'must be an object of parameter values');
+    return;
+  }
+  for (const spec of EFFECT_PARAMS[effect.type as EffectType]) {
+    checkNumber(errors, effect.params, spec.name, paramsPath, { min: spec.min, max: spec.max });
+  }
+}
+
+function checkModulation(
+  errors: ValidationIssue[],
+  route: Obj,
+  path: string,
+  effects: EffectSettings[]
+): void {
+  checkString(errors, route, 'id', path);
+  checkOneOf(errors, route, 'source', path, MODULATION_SOURCE_TYPES, 'ModulationSource');
+  checkOneOf(errors, route, 'curve', path, MODULATION_CURVES, 'ModulationCurve');
+  checkNumber(errors, route, 'sourceMin', path);
+  checkNumber(errors, route, 'sourceMax', path);
+
+  const targetPath = join(path, 'target');
+  const target = route.target;
+  if (
+    !isObject(target) ||
+    !(target.effectId === null || typeof target.effectId === 'string') ||
+    typeof target.param !== 'string'
+  ) {
+    fail(errors, targetPath, 'must be an object with effectId (string or null) and param');
+    return;
+  }
+  const spec = findModulationTarget(effects, { effectId: target.effectId, param: target.param });
+  if (!spec) {
+    const owner = target.effectId === null ? 'the synth' : `effect "${target.effectId}"`;
+    fail(errors, targetPath, `${owner} has no modulatable parameter "${target.param}"`);
+    return;
+  }
+  checkNumber(errors, route, 'min', path, { min: spec.min, max: spec.max });
+  checkNumber(errors, route, 'max', path, { min: spec.min, max: spec.max });
+}
+
+function checkSatellite(
+  errors: ValidationIssue[],
+  satellite: Obj,
+  path: string,
+  planetIds: Set<string>
+): void {
+  checkString(errors, satellite, 'id', path);
+  checkLiteral(errors, satellite, 'type', path, 'satellite');
+  checkVector(errors, satellite, 'position', path);
+  checkNumber(errors, satellite, 'orbitRadius', path, { min: 0, exclusiveMin: true });
+  checkNumber(errors, satellite, 'orbitAngle', path);
+  checkNumber(errors, satellite, 'orbitSpeed', path);
+  checkNumber(errors, satellite, 'eccentricity', path, { min: 0, max: SATELLITE_MAX_ECCENTRICITY });
+  checkNumber(errors, satellite, 'argumentOfPeriapsis', path);
+  checkOneOf(errors, satellite, 'triggerPoint', path, SATELLITE_TRIGGER_POINTS, 'SatelliteTriggerPoint');
+  checkNumber(errors, satellite, 'lastTriggerAngle', path);
+  if (satellite.sampleId !== null) checkString(errors, satellite, 'sampleId', path);
+
+  if (checkString(errors, satellite, 'parentPlanetId', path)) {
+    const parentId = satellite.parentPlanetId as string;
+    if (!planetIds.has(parentId)) {
+      fail(errors, join(path, 'parentPlanetId'), `references unknown planet "${parentId}"`);
+    }
+  }
+}
+
+function checkComet(
+  errors: ValidationIssue[],
+  comet: Obj,
+  path: string
+): void {
+  checkString(errors, comet, 'id', path);
+  checkLiteral(errors, comet, 'type', path, 'comet');
+  checkVector(errors, comet, 'position', path);
+  checkVector(errors, comet, 'velocity', path);
+  checkNumber(errors, comet, 'mass', path, { min: 0, exclusiveMin: true });
+  checkOneOf(errors, comet, 'synthType', path, OSCILLATOR_SYNTH_TYPES, 'SynthType');
+  checkNumber(errors, comet, 'triggerRadius', path, { min: 0 });
+
+  if (typeof comet.note !== 'string' || !isValidScaleDegree(comet.note)) {
+    fail(
+      errors,
+      join(path, 'note'),
+      `invalid ScaleDegree ${JSON.stringify(comet.note)} (expected e.g. "I4", "V3")`
+    );
+  }
+
+  const nearby = comet.nearbyBodyIds;
+  if (!Array.isArray(nearby) || nearby.some((id) => typeof id !== 'string')) {
+    fail(errors, join(path, 'nearbyBodyIds'), 'must be an array of body ids');
+  }
+}
+
+function checkMidiBinding(
+  errors: ValidationIssue[],
+  binding: Obj,
+  path: string,
+  planetIds: Set<string>
+): void {
+  checkOneOf(errors, binding, 'target', path, MIDI_CONTROL_TARGETS, 'MidiControlTarget');
+  checkNumber(errors, binding, 'channel', path, { min: 1, max: 16 });
+  checkNumber(errors, binding, 'controller', path, { min: 0, max: 127 });
+
+  if (binding.target === 'planetMass') {
+    if (checkString(errors, binding, 'planetId', path)) {
+      const planetId = binding.planetId as string;
+      if (!planetIds.has(planetId)) {
+        fail(errors, join(path, 'planetId'), `references unknown planet "${planetId}"`);
+      }
+    }
+  } else if (binding.planetId !== null) {
+    fail(errors, join(path, 'planetId'), 'must be null unless target is "planetMass"');
+  }
+}
+
+function checkInteger(errors: ValidationIssue[], obj: Obj, key: string, path: string, bounds: NumberBounds): void {
+  if (checkNumber(errors, obj, key, path, bounds) && !Number.isInteger(obj[key])) {
+    fail(errors, join(path, key), 'must be an integer');
+  }
+}
+
+function checkTimelineEvent(errors: ValidationIssue[], event: Obj, path: string): void {
+  checkOneOf(errors, event, 'unit', path, TIMELINE_UNITS, 'TimelineUnit');
+  checkInteger(errors, event, 'at', path, { min: 1 });
+  if (event.every !== null) checkInteger(errors, event, 'every', path, { min: 1 });
+  if (event.key !== null) checkOneOf(errors, event, 'key', path, MUSICAL_KEYS, 'MusicalKey');
+  checkInteger(errors, event, 'transpose', path, { min: -MAX_TRANSPOSE, max: MAX_TRANSPOSE });
+  if (event.mode !== null) checkOneOf(errors, event, 'mode', path, MUSICAL_MODES, 'MusicalMode');
+  if (event.bpm !== null) checkNumber(errors, event, 'bpm', path, { min: 1, max: 300 });
+  checkInteger(errors, event, 'glideBars', path, { min: 0, max: MAX_GLIDE_BARS });
+}
+
+function checkBpmGlide(errors: ValidationIssue[], glide: Obj, path: string): void {
+  checkNumber(errors, glide, 'from', path, { min: 1, max: 300 });
+  checkNumber(errors, glide, 'to', path, { min: 1, max: 300 });
+  checkNumber(errors, glide, 'startBeat', path, { min: 0 });
+  checkNumber(errors, glide, 'beats', path, { min: 0, exclusiveMin: true });
+}
+
+function checkTimelineOrigin(errors: ValidationIssue[], origin: Obj, path: string): void {
+  checkOneOf(errors, origin, 'key', path, MUSICAL_KEYS, 'MusicalKey');
+  checkOneOf(errors, origin, 'mode', path, MUSICAL_MODES, 'MusicalMode');
+  checkNumber(errors, origin, 'bpm', path, { min: 1, max: 300 });
+}
+
+function checkUniqueIds(errors: ValidationIssue[], items: unknown[], path: string): void {
+  const seen = new Set<string>();
+  items.forEach((item, i) => {
+    if (!isObject(item) || typeof item.id !== 'string') return;
+    if (seen.has(item.id)) {
+      fail(errors, join(join(path, i), 'id'), `duplicate id "${item.id}"`);
+    }
+    seen.add(item.id);
+  });
+}
+
+/**
+ * Validates an already-migrated value against the current SolarSystemState
+ * schema. Every problem is reported with its path rather than stopping at
+ * the first, so the UI can show the full list at once.
+ *
+ * @param input - Parsed JSON (already run through `migrateSolarSystemState`)
+ * @returns The typed state if valid, otherwise the list of issues
+ */
+export function validateSolarSystemState(input: unknown): ValidationResult {
+  const errors: ValidationIssue[] = [];
+
+  if (!isObject(input)) {
+    fail(errors, '', 'solar system must be a JSON object');
+    return { valid: false, errors };
+  }
+
+  checkString(errors, input, 'version', '');
+  checkNumber(errors, input, 'timestamp', '');
+  checkNumber(errors, input, 'timeScale', '', { min: 0 });
+  checkNumber(errors, input, 'gravityStrength', '', { min: 0 });
+  checkBoolean(errors, input, 'satelliteHandoff', '');
+  checkNumber(errors, input, 'stereoWidth', '', { min: 0, max: 1 });
+  checkBoolean(errors, input, 'satellitePanning', '');
+
+  if (input.star !== null) {
+    if (isObject(input.star)) {
+      checkStar(errors, input.star, 'star');
+    } else {
+      fail(errors, 'star', 'must be an object or null');
+    }
+  }
+
+  const planetIds = new Set<string>();
+  if (!Array.isArray(input.planets)) {
+    fail(errors, 'planets', 'must be an array');
+  } else {
+    input.planets.forEach((planet, i) => {
+      const p = join('planets', i);
+      if (!isObject(planet)) {
+        fail(errors, p, 'must be an object');
+        return;
+      }
+      checkPlanet(errors, planet, p);
+      if (typeof planet.id === 'string') planetIds.add(planet.id);
+    });
+    checkUniqueIds(errors, input.planets, 'planets');
+  }
+
+  if (!Array.isArray(input.satellites)) {
+    fail(errors, 'satellites', 'must be an array');
+  } else {
+    input.satellites.forEach((satellite, i) => {
+      const p = join('satellites', i);
+      if (!isObject(satellite)) {
+        fail(errors, p, 'must be an object');
+        return;
+      }
+      checkSatellite(errors, satellite, p, planetIds);
+    });
+    checkUniqueIds(errors, input.satellites, 'satellites');
+  }
+
+  if (!Array.isArray(input.comets)) {
+    fail(errors, 'comets', 'must be an array');
+  } else {
+    input.comets.forEach((comet, i) => {
+      const p = join('comets', i);
+      if (!isObject(comet)) {
+        fail(errors, p, 'must be an object');
+        return;
+      }
+      checkComet(errors, comet, p);
+    });
+    checkUniqueIds(errors, input.comets, 'comets');
+  }
+
+  if (!Array.isArray(input.midiBindings)) {
+    fail(errors, 'midiBindings', 'must be an array');
+  } else {
+    input.midiBindings.forEach((binding, i) => {
+      const p = join('midiBindings', i);
+      if (!isObject(binding)) {
+        fail(errors, p, 'must be an object');
+        return;
+      }
+      checkMidiBinding(errors, binding, p, planetIds);
+    });
+  }
+
+  if (!Array.isArray(input.presets)) {
+    fail(errors, 'presets', 'must be an array');
+  } else {
+    const names = new Set<string>();
+    input.presets.forEach((preset, i) => {
+      const p = join('presets', i);
+      if (!isObject(preset)) {
+        fail(errors, p, 'must be an object');
+        return;
+      }
+      checkPreset(errors, preset, p);
+      if (typeof preset.name !== 'string') return;
+      if (names.has(preset.name)) fail(errors, join(p, 'name'), `duplicate preset name "${preset.name}"`);
+      names.add(preset.name);
+    });
+  }
+
+  if (!Array.isArray(input.timeline) || input.timeline.length > MAX_TIMELINE_EVENTS) {
+    fail(errors, 'timeline', `must be an array of at most ${MAX_TIMELINE_EVENTS} events`);
+  } else {
+    input.timeline.forEach((event, i) => {
+      const p = join('timeline', i);
+      if (!isObject(event)) {
+        fail(errors, p, 'must be an object');
+        return;
+      }
+      checkTimelineEvent(errors, event, p);
+    });
+  }
+  checkInteger(errors, input, 'timelineRevolutions', '', { min: 0 });
+  if (isObject(input.bpmGlide)) checkBpmGlide(errors, input.bpmGlide, 'bpmGlide');
+  else if (input.bpmGlide !== null) fail(errors, 'bpmGlide', 'must be an object or null');
+  if (isObject(input.timelineOrigin)) checkTimelineOrigin(errors, input.timelineOrigin, 'timelineOrigin');
+  else if (input.timelineOrigin !== null) fail(errors, 'timelineOrigin', 'must be an object or null');
+
+  if (errors.length > 0) return { valid: false, errors };
+  return { valid: true, state: input as unknown as SolarSystemState };
+}
+
+/**
+ * Formats an issue for display, e.g. "planets[0].mass: must be greater than 0".
+ */
+export function formatValidationIssue(issue: ValidationIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
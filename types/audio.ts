@@ -2,7 +2,7 @@
  * Audio-related type definitions
  */
 
-import { MusicalKey, MusicalMode, ScaleDegree } from './celestial';
+import { ChordSymbol, MusicalKey, MusicalMode, ScaleDegree } from './celestial';
 
 /**
  * Configuration for the audio engine
@@ -31,15 +31,245 @@ export interface MusicalContext {
   mode: MusicalMode;
   bpm: number;
   scale: string[]; // Array of note names in the scale
+  chord: ActiveChord | null; // The progression chord planets are following, if any
+  chordTones: string[]; // Note names of that chord from octave 4; empty without one
 }
 
 /**
- * Trigger event when a satellite passes the 12 o'clock position
+ * A note played by a planet: once per revolution, or when one of its
+ * satellites passes its trigger point
  */
 export interface NoteTriggerEvent {
-  satelliteId: string;
+  satelliteId: string | null; // null for a planet-revolution note
   planetId: string;
   note: string;
   volume: number; // 0-1 based on distance
-  timestamp: number;
+  timestamp: number; // ms since recording started
+  beat: number; // quarter-note beats since recording started, at the star's BPM
+  durationBeats: number;
+}
+
+/**
+ * A control a MIDI CC knob can be learned onto
+ */
+export type MidiControlTarget = 'gravity' | 'timeScale' | 'bpm' | 'masterVolume' | 'planetMass';
+
+/**
+ * A MIDI Control Change learned onto a control
+ */
+export interface MidiCcBinding {
+  target: MidiControlTarget;
+  planetId: string | null; // the planet whose mass is controlled; null for other targets
+  channel: number; // 1-16
+  controller: number; // CC number, 0-127
+}
+
+/**
+ * An insert effect a planet's synth can run through
+ */
+export type EffectType = 'filter' | 'delay' | 'reverb' | 'chorus' | 'bitcrusher' | 'distortion';
+
+/**
+ * One effect in a planet's chain, as saved with the planet
+ */
+export interface EffectSettings {
+  id: string; // unique within the chain, e.g. "reverb-2"
+  type: EffectType;
+  bypassed: boolean; // a bypassed effect is skipped but keeps its settings
+  params: Record<string, number>; // parameter values, keyed as in EFFECT_PARAMS
+}
+
+/**
+ * An orbital quantity that can drive a synth or effect parameter
+ */
+export type ModulationSource =
+  | 'speed'
+  | 'starDistance'
+  | 'orbitAngle'
+  | 'nearestPlanetDistance'
+  | 'satelliteCount';
+
+/**
+ * How the normalized source value is shaped before scaling to the target range
+ */
+export type ModulationCurve = 'linear' | 'exponential' | 'logarithmic';
+
+/**
+ * A modulated parameter: on the planet's synth (effectId null) or on one of
+ * its effects
+ */
+export interface ModulationTarget {
+  effectId: string | null;
+  param: string; // e.g. "detune", or an effect parameter name from EFFECT_PARAMS
+}
+
+/**
+ * One route in a planet's modulation matrix, as saved with the planet
+ */
+export interface ModulationRoute {
+  id: string; // unique within the planet, e.g. "mod-1"
+  source: ModulationSource;
+  sourceMin: number; // source value mapped to `min`
+  sourceMax: number; // source value mapped to `max`
+  target: ModulationTarget;
+  min: number; // target value at sourceMin (may exceed max to invert)
+  max: number; // target value at sourceMax
+  curve: ModulationCurve;
+}
+
+/**
+ * Oscillator waveform of a synth patch
+ */
+export type PatchWaveform = 'sine' | 'square' | 'triangle' | 'sawtooth';
+
+/**
+ * ADSR envelope of a synth patch (times in seconds, sustain 0-1)
+ */
+export interface PatchEnvelope {
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+}
+
+/**
+ * MonoSynth filter envelope: sweeps the cutoff from baseFrequency up by
+ * `octaves` and back
+ */
+export interface PatchFilterEnvelope extends PatchEnvelope {
+  baseFrequency: number; // Hz
+  octaves: number;
+}
+
+/**
+ * A planet's synth voice settings, as saved with the planet. Sections a
+ * synth type doesn't have (e.g. filterEnvelope on an FMSynth) are kept
+ * but not applied; see PATCH_SECTIONS.
+ */
+export interface SynthPatch {
+  oscillator: PatchWaveform;
+  envelope: PatchEnvelope;
+  harmonicity: number; // modulator-to-carrier frequency ratio
+  modulationIndex: number; // FM depth
+  filterEnvelope: PatchFilterEnvelope;
+}
+
+/**
+ * A named synth type and patch in the preset library
+ */
+export interface SynthPreset {
+  name: string; // unique within the library
+  synthType: string;
+  patch: SynthPatch;
+}
+
+/**
+ * An audio sample a Sampler planet plays. Notes are pitched from the sample
+ * whose root note is nearest.
+ */
+export interface PlanetSample {
+  id: string; // unique within the planet
+  name: string; // file or kit name, for display
+  note: string; // root note with octave (e.g. "C4") the sample plays unshifted at
+  url: string; // the audio as a data URL, so saved systems reload offline
+}
+
+/**
+ * How a star's notes are tuned: 12-tone equal temperament, a built-in
+ * alternative, or an imported Scala scale
+ */
+export type TuningSystem = 'equal' | 'just' | 'pythagorean' | 'edo19' | 'edo24' | 'edo31' | 'scala';
+
+/**
+ * A scale read from a Scala `.scl` file
+ */
+export interface ScalaScale {
+  name: string; // file name, for display
+  description: string; // the file's description line
+  cents: number[]; // each step above the tonic, ascending; the last is the period (usually 1200)
+}
+
+/**
+ * A Scala `.kbm` keyboard mapping: which MIDI notes play which scale degrees
+ * and what frequency anchors them
+ */
+export interface KeyboardMapping {
+  name: string; // file name, for display
+  size: number; // pattern length; 0 maps every MIDI note to the next degree
+  firstNote: number; // lowest MIDI note that sounds
+  lastNote: number; // highest MIDI note that sounds
+  middleNote: number; // MIDI note that plays degree 0
+  referenceNote: number; // MIDI note tuned to referenceFrequency
+  referenceFrequency: number; // Hz
+  octaveDegree: number; // scale degree the pattern repeats at
+  mapping: (number | null)[]; // degree for each key of the pattern; null leaves it silent
+}
+
+/**
+ * A star's tuning
+ */
+export interface Tuning {
+  system: TuningSystem;
+  referenceFrequency: number; // frequency of A4 in Hz
+  scale: ScalaScale | null; // the imported scale the 'scala' system plays
+  keyboardMapping: KeyboardMapping | null; // replaces rooting the tuning on the star's key
+}
+
+/**
+ * Triad quality of a chord symbol
+ */
+export type ChordQuality = 'major' | 'minor' | 'diminished' | 'augmented';
+
+/**
+ * How planets' scale degrees follow a star's chord progression:
+ * - root: degrees count from the current chord's root instead of the tonic
+ * - snap: each note moves to the nearest tone of the current chord
+ */
+export type ChordFollow = 'root' | 'snap';
+
+/**
+ * A star's chord progression, advancing with the transport
+ */
+export interface ChordProgression {
+  chords: ChordSymbol[]; // in playing order, e.g. ["I", "vi", "IV", "V"]
+  barsPerChord: number; // 4/4 bars each chord lasts
+  follow: ChordFollow;
+}
+
+/**
+ * The chord planets are following at a moment
+ */
+export interface ActiveChord {
+  symbol: ChordSymbol;
+  follow: ChordFollow;
+}
+
+/**
+ * What a timeline event counts: bars of the star's beat, or revolutions of
+ * the outermost planet
+ */
+export type TimelineUnit = 'bar' | 'revolution';
+
+/**
+ * A scheduled change to the star's key, mode and/or tempo
+ */
+export interface TimelineEvent {
+  unit: TimelineUnit;
+  at: number; // bar number (from 1) or revolution count it first fires on
+  every: number | null; // fires again every this many bars/revolutions after `at`; null fires once
+  key: MusicalKey | null; // key to change to; null keeps the current key
+  transpose: number; // semitones to shift the key by, after `key` (2 = up a whole step)
+  mode: MusicalMode | null; // mode to change to; null keeps the current mode
+  bpm: number | null; // tempo to change to; null keeps the current tempo
+  glideBars: number; // bars the tempo glides over to reach `bpm`; 0 jumps straight there
+}
+
+/**
+ * A tempo change in progress, moving the star's BPM linearly with its beat
+ */
+export interface BpmGlide {
+  from: number;
+  to: number;
+  startBeat: number; // star beat the glide started on
+  beats: number; // beats it lasts
 }
@@ -3,6 +3,18 @@
  */
 
 import { Body as MatterBody } from 'matter-js';
+import type {
+  BpmGlide,
+  ChordProgression,
+  MidiCcBinding,
+  EffectSettings,
+  ModulationRoute,
+  PlanetSample,
+  SynthPatch,
+  SynthPreset,
+  TimelineEvent,
+  Tuning,
+} from './audio';
 
 /**
  * 2D Vector representing position or velocity
@@ -13,11 +25,28 @@ export interface Vector2D {
 }
 
 /**
- * Musical scale degrees (I-VII) with octave specification
- * Examples: "I4", "V3", "VII5"
+ * Musical scale degrees (I, II, … up to the length of the star's scale) with
+ * octave specification, optionally flattened (b) or sharpened (#)
+ * Examples: "I4", "V3", "VII5", "bIII4"
  */
 export type ScaleDegree = string;
 
+/**
+ * One step of a planet's note sequence, in the canonical form of the note
+ * sequence language (see lib/audio/noteSequence.ts): a note with optional
+ * velocity, a chord, or a rest
+ * Examples: "I4", "bIII4!0.5", "[I4 III4 V4]", "-"
+ */
+export type SequenceStep = string;
+
+/**
+ * A chord in a star's progression, as a Roman numeral on a degree of the
+ * star's scale: upper case for major, lower case for minor, with optional
+ * ° (diminished), + (augmented), 7 (seventh) and b/# on the root
+ * Examples: "I", "vi", "V7", "vii°", "bVII"
+ */
+export type ChordSymbol = string;
+
 /**
  * Musical keys supported by the application
  */
@@ -36,7 +65,7 @@ export type MusicalKey =
   | 'B';
 
 /**
- * Musical modes supported by the application
+ * Musical modes (scales) supported by the application
  */
 export type MusicalMode =
   | 'Ionian' // Major
@@ -45,7 +74,19 @@ export type MusicalMode =
   | 'Lydian'
   | 'Mixolydian'
   | 'Aeolian' // Minor
-  | 'Locrian';
+  | 'Locrian'
+  | 'HarmonicMinor'
+  | 'MelodicMinor'
+  | 'MajorPentatonic'
+  | 'MinorPentatonic'
+  | 'Blues'
+  | 'WholeTone'
+  | 'Diminished'
+  | 'Hijaz'
+  | 'DoubleHarmonic'
+  | 'Hirajoshi'
+  | 'InSen'
+  | 'Pelog';
 
 /**
  * Note duration options for planet rotation
@@ -68,6 +109,9 @@ export interface Star {
   bpm: number; // Beats per minute
   key: MusicalKey;
   mode: MusicalMode;
+  tuning: Tuning; // How notes map to frequencies
+  progression: ChordProgression | null; // Chords planets follow; null plays every degree in the fixed key
+  beat: number; // Transport beats played since the start, which pick the progression's chord
   physicsBody: MatterBody | null;
 }
 
@@ -82,14 +126,25 @@ export interface Planet {
   mass: number;
   rotation: number; // Current rotation angle in radians
   rotationSpeed: NoteDuration; // Determines how fast the planet spins (note duration)
-  noteSequence: ScaleDegree[]; // Sequence of notes to play (e.g., ["I4", "V3", "VI4"])
+  noteSequence: SequenceStep[]; // Steps to play, one per revolution (e.g., ["I4", "[I4 III4]", "-"])
   currentNoteIndex: number; // Index in noteSequence
   synthType: string; // Tone.js synth type
+  patch: SynthPatch; // Oscillator, envelope and modulation settings for the synth
+  samples: PlanetSample[]; // Audio the Sampler synth type plays, mapped by root note
   orbitRadius: number; // Distance from star
   orbitAngle: number; // Current angle around star in radians
+  effects: EffectSettings[]; // Insert effects between the synth and its volume, in signal order
+  modulations: ModulationRoute[]; // Orbital quantities driving synth and effect parameters
   physicsBody: MatterBody | null;
 }
 
+/**
+ * Where on its orbit a satellite fires its note:
+ * - top: crossing 12 o'clock above the parent planet
+ * - periapsis: the closest point of an elliptical orbit
+ */
+export type SatelliteTriggerPoint = 'top' | 'periapsis';
+
 /**
  * Satellite entity - orbits a planet and triggers notes
  */
@@ -98,10 +153,48 @@ export interface Satellite {
   type: 'satellite';
   parentPlanetId: string; // ID of the planet this satellite orbits
   position: Vector2D;
-  orbitRadius: number; // Distance from parent planet
-  orbitAngle: number; // Current angle around planet in radians
-  orbitSpeed: number; // Angular velocity (calculated from physics)
+  orbitRadius: number; // Semi-major axis (distance from parent planet for circular orbits)
+  orbitAngle: number; // Mean longitude in radians (angle around planet for circular orbits)
+  orbitSpeed: number; // Mean angular velocity (calculated from physics)
+  eccentricity: number; // 0 = circular, up to SATELLITE_MAX_ECCENTRICITY
+  argumentOfPeriapsis: number; // Angle of the closest point of the orbit in radians
+  triggerPoint: SatelliteTriggerPoint;
   lastTriggerAngle: number; // Last angle where note was triggered
+  sampleId: string | null; // Parent sampler's sample to play instead of the parent's current note
+  physicsBody: MatterBody | null;
+}
+
+/**
+ * Comet entity - a free-flying body on an eccentric or hyperbolic path that
+ * fires a one-shot note each time it swings close to a planet or the star
+ */
+export interface Comet {
+  id: string;
+  type: 'comet';
+  position: Vector2D;
+  velocity: Vector2D;
+  mass: number; // Determines visual size and trigger volume
+  note: ScaleDegree; // Scale degree played on each close approach (e.g., "I5")
+  synthType: string; // Tone.js synth type
+  triggerRadius: number; // Approach distance (beyond the target's surface) that fires the note
+  nearbyBodyIds: string[]; // Bodies currently within triggerRadius (prevents re-firing mid-pass)
+  physicsBody: MatterBody | null;
+}
+
+/**
+ * Space dust particle - a small free-flying body that is captured into a
+ * satellite or comet once it becomes gravitationally bound, or culled when it
+ * drifts away. Dust is transient and is not saved.
+ */
+export interface DustParticle {
+  id: string;
+  type: 'dust';
+  position: Vector2D;
+  velocity: Vector2D;
+  mass: number;
+  ageMs: number; // Time since the particle was sprayed
+  note: ScaleDegree; // Note it plays if it is captured as a comet
+  synthType: string; // Synth it uses if it is captured as a comet
   physicsBody: MatterBody | null;
 }
 
@@ -112,9 +205,17 @@ export interface SolarSystem {
   star: Star | null;
   planets: Planet[];
   satellites: Satellite[];
+  comets: Comet[];
+  dust: DustParticle[];
   isPlaying: boolean;
   timeScale: number; // Physics time multiplier (1 = normal speed)
   gravityStrength: number; // Global gravity multiplier
+  satelliteHandoff: boolean; // Satellites can be captured by other planets' Hill spheres
+  midiBindings: MidiCcBinding[]; // MIDI CC knobs learned onto controls
+  stereoWidth: number; // How far voices pan with their distance from the star (0–1)
+  satellitePanning: boolean; // Satellite notes pan to each satellite's own side of its planet
+  presets: SynthPreset[]; // Synth preset library, saved with the solar system
+  timeline: TimelineEvent[]; // Scheduled key, mode and tempo changes
 }
 
 /**
@@ -126,6 +227,16 @@ export interface SolarSystemState {
   star: Omit<Star, 'physicsBody'> | null;
   planets: Omit<Planet, 'physicsBody'>[];
   satellites: Omit<Satellite, 'physicsBody'>[];
+  comets: Omit<Comet, 'physicsBody'>[];
   timeScale: number;
   gravityStrength: number;
+  satelliteHandoff: boolean;
+  midiBindings: MidiCcBinding[];
+  stereoWidth: number;
+  satellitePanning: boolean;
+  presets: SynthPreset[];
+  timeline: TimelineEvent[];
+  timelineRevolutions: number; // outermost planet revolutions counted so far for the timeline
+  bpmGlide: BpmGlide | null; // timeline tempo glide in progress
+  timelineOrigin: Pick<Star, 'key' | 'mode' | 'bpm'> | null; // star before the timeline changed it, restored on rewind
 }
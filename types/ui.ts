@@ -7,7 +7,7 @@ import { Vector2D } from './celestial';
 /**
  * Toolbar item that can be dragged onto the canvas
  */
-export type ToolbarItemType = 'star' | 'planet' | 'satellite';
+export type ToolbarItemType = 'star' | 'planet' | 'satellite' | 'comet';
 
 /**
  * Drag state for toolbar items
@@ -29,6 +29,16 @@ export interface ViewportState {
   height: number;
 }
 
+/**
+ * Axis-aligned rectangle in world coordinates (e.g. the visible area)
+ */
+export interface WorldBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
 /**
  * Mode for satellite placement
  */
@@ -43,6 +53,25 @@ export interface SatellitePlacementMode {
  */
 export interface EditModalState {
   isOpen: boolean;
-  entityType: 'star' | 'planet' | 'satellite' | null;
+  entityType: 'star' | 'planet' | 'satellite' | 'comet' | null;
   entityId: string | null;
 }
+
+/**
+ * A Randomize action from the ControlBar: the seed to use and what to change
+ * besides each planet's rotation speed.
+ */
+export interface RandomizeRequest {
+  seed: string;
+  noteSequences: boolean;
+  synthTypes: boolean;
+}
+
+/**
+ * A WAV export from the ControlBar: how much to render and at what bit depth.
+ */
+export interface WavExportRequest {
+  length: number;
+  unit: 'bars' | 'seconds';
+  bitDepth: 16 | 24;
+}
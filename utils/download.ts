@@ -0,0 +1,25 @@
+/**
+ * Returns a download filename stamped with `date`, e.g.
+ * "solar-system-2025-01-31T12-00-00.json" for the extension "json".
+ */
+export function timestampedFilename(date: Date, extension: string): string {
+  const stamp = date.toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  return `solar-system-${stamp}.${extension}`;
+}
+
+/**
+ * Triggers a browser download of `data` as a file of the given MIME type.
+ */
+export function downloadBlob(data: BlobPart, mimeType: string, filename: string): void {
+  const blob = new Blob([data], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+
+  URL.revokeObjectURL(url);
+}
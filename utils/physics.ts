@@ -84,6 +84,45 @@ export function circularOrbitVelocity(
   }
 }
 
+/**
+ * Calculates the escape speed at a given distance: the speed above which a
+ * body is no longer gravitationally bound. Always √2 × the circular speed.
+ *
+ * @returns The scalar escape speed in pixels per physics step
+ */
+export function escapeSpeed(
+  centralMass: number,
+  radius: number,
+  gravityStrength: number = 1
+): number {
+  return circularOrbitSpeed(centralMass, radius, gravityStrength) * Math.SQRT2;
+}
+
+/**
+ * Returns true if a body is gravitationally bound to a central body, i.e. its
+ * speed relative to the central body is below the escape speed at its
+ * current distance (negative specific orbital energy).
+ *
+ * @param position - Position of the orbiting body
+ * @param velocity - Velocity of the orbiting body (px/step)
+ * @param centerPosition - Position of the central body
+ * @param centerVelocity - Velocity of the central body (px/step)
+ * @param centralMass - Mass of the central body
+ * @param gravityStrength - Global gravity multiplier
+ */
+export function isGravitationallyBound(
+  position: Vector2D,
+  velocity: Vector2D,
+  centerPosition: Vector2D,
+  centerVelocity: Vector2D,
+  centralMass: number,
+  gravityStrength: number = 1
+): boolean {
+  const r = distance(position, centerPosition);
+  if (r === 0) return false;
+  return distance(velocity, centerVelocity) < escapeSpeed(centralMass, r, gravityStrength);
+}
+
 /**
  * Calculates the gravitational force vector exerted on body A by body B.
  *
@@ -143,6 +182,80 @@ export function orbitalPeriod(
   );
 }
 
+/**
+ * Calculates the Hill sphere radius of a body orbiting a much heavier one:
+ * the region where the body's own gravity dominates over the central body's
+ * tidal pull, so a moon inside it stays with the body.
+ *
+ * r_H = a * cbrt(m / (3 * M))
+ *
+ * @param orbitDistance - Distance from the central body (semi-major axis a)
+ * @param mass - Mass of the orbiting body (m)
+ * @param centralMass - Mass of the central body (M)
+ */
+export function hillRadius(
+  orbitDistance: number,
+  mass: number,
+  centralMass: number
+): number {
+  if (orbitDistance <= 0 || mass <= 0 || centralMass <= 0) return 0;
+  return orbitDistance * Math.cbrt(mass / (3 * centralMass));
+}
+
+// ─── Kepler orbits ────────────────────────────────────────────────────────────
+
+/**
+ * Solves Kepler's equation M = E − e·sin(E) for the eccentric anomaly E,
+ * using Newton's method (converges in a few iterations for e < 0.99).
+ *
+ * @param meanAnomaly - Mean anomaly M in radians (any range)
+ * @param eccentricity - Orbital eccentricity e in [0, 1)
+ * @returns Eccentric anomaly E in radians
+ */
+export function solveKepler(meanAnomaly: number, eccentricity: number): number {
+  if (eccentricity === 0) return meanAnomaly;
+  let E = meanAnomaly + eccentricity * Math.sin(meanAnomaly);
+  for (let i = 0; i < 20; i++) {
+    const delta = (E - eccentricity * Math.sin(E) - meanAnomaly) / (1 - eccentricity * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < 1e-10) break;
+  }
+  return E;
+}
+
+/**
+ * Finds where a body is on an elliptical orbit at a given mean anomaly.
+ *
+ * @param meanAnomaly - Mean anomaly M in radians (0 = periapsis)
+ * @param eccentricity - Orbital eccentricity e in [0, 1)
+ * @returns The true anomaly (angle from periapsis, radians) and the distance
+ *          from the focus as a multiple of the semi-major axis
+ */
+export function ellipticalOrbitPoint(
+  meanAnomaly: number,
+  eccentricity: number
+): { trueAnomaly: number; radiusFactor: number } {
+  const E = solveKepler(meanAnomaly, eccentricity);
+  const trueAnomaly = 2 * Math.atan2(
+    Math.sqrt(1 + eccentricity) * Math.sin(E / 2),
+    Math.sqrt(1 - eccentricity) * Math.cos(E / 2)
+  );
+  return { trueAnomaly, radiusFactor: 1 - eccentricity * Math.cos(E) };
+}
+
+/**
+ * Converts a true anomaly (angle from periapsis) to the mean anomaly, i.e.
+ * the inverse of `ellipticalOrbitPoint`. Result is in (−π, π].
+ */
+export function meanAnomalyFromTrueAnomaly(trueAnomaly: number, eccentricity: number): number {
+  const nu = Math.atan2(Math.sin(trueAnomaly), Math.cos(trueAnomaly));
+  const E = 2 * Math.atan2(
+    Math.sqrt(1 - eccentricity) * Math.sin(nu / 2),
+    Math.sqrt(1 + eccentricity) * Math.cos(nu / 2)
+  );
+  return E - eccentricity * Math.sin(E);
+}
+
 /**
  * Calculates the distance between two positions.
  */
@@ -0,0 +1,57 @@
+/**
+ * A source of uniformly distributed numbers in [0, 1), with the same
+ * contract as `Math.random`. Pass a seeded one to make results reproducible.
+ */
+export type Rng = () => number;
+
+/**
+ * Hashes an arbitrary seed string to a 32-bit unsigned integer (FNV-1a).
+ * Lets users type any text — a word, a date, a number — as a seed.
+ */
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates a seeded PRNG (mulberry32). The same seed always produces the
+ * same sequence, on every platform.
+ *
+ * @param seed - A string (hashed with `hashSeed`) or a 32-bit integer
+ */
+export function createRng(seed: string | number): Rng {
+  let state = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Returns an integer in [min, max] (inclusive).
+ */
+export function randomInt(rng: Rng, min: number, max: number): number {
+  return min + Math.floor(rng() * (max - min + 1));
+}
+
+/**
+ * Returns a uniformly chosen element of a non-empty array.
+ */
+export function pickRandom<T>(rng: Rng, items: readonly T[]): T {
+  return items[Math.floor(rng() * items.length)];
+}
+
+/**
+ * Generates a short, human-friendly seed (e.g. "k3v9qa") for when the user
+ * hasn't entered one. Uses `Math.random` — the seed itself needn't be reproducible.
+ */
+export function generateSeed(): string {
+  return Math.floor(Math.random() * 36 ** 6).toString(36).padStart(6, '0');
+}